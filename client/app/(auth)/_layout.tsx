@@ -6,6 +6,7 @@ export default function AuthLayout() {
     <Stack screenOptions={{ headerShown: false }}>
       <Stack.Screen name="welcome" />
       <Stack.Screen name="signin" />
+      <Stack.Screen name="two-factor" />
       <Stack.Screen name="signup" />
       <Stack.Screen name="email-verification" />
       <Stack.Screen name="forgotPassword" />
@@ -22,6 +22,7 @@ import { useTheme } from "@/src/context/ThemeContext";
 import { useDispatch, useSelector } from "react-redux";
 import { signIn } from "@/src/store/authSlice";
 import { RootState, AppDispatch } from "@/src/store";
+import SocialSignInButtons from "@/components/SocialSignInButtons";
 
 const { width, height } = Dimensions.get("window");
 
@@ -44,7 +45,12 @@ export default function SignInScreen() {
 
     try {
       const result = await dispatch(signIn({ email, password })).unwrap();
-      if (result.success) {
+      if (result.two_factor_required) {
+        router.push({
+          pathname: "/(auth)/two-factor",
+          params: { challenge: result.challenge_token },
+        });
+      } else if (result.success) {
         router.replace("/(tabs)");
       }
     } catch (error: any) {
@@ -324,6 +330,8 @@ export default function SignInScreen() {
                 <Text style={styles.signInButtonText}>Sign In</Text>
               )}
             </TouchableOpacity>
+
+            <SocialSignInButtons />
           </View>
 
           <View style={styles.footer}>
@@ -0,0 +1,231 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  SafeAreaView,
+  StatusBar,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { router, useLocalSearchParams } from "expo-router";
+import { useTranslation } from "react-i18next";
+import { useDispatch, useSelector } from "react-redux";
+import { useTheme } from "@/src/context/ThemeContext";
+import { verifyTwoFactor } from "@/src/store/authSlice";
+import { RootState, AppDispatch } from "@/src/store";
+
+export default function TwoFactorScreen() {
+  const { t } = useTranslation();
+  const { colors } = useTheme();
+  const dispatch = useDispatch<AppDispatch>();
+  const { isLoading } = useSelector((state: RootState) => state.auth);
+  const { challenge } = useLocalSearchParams<{ challenge: string }>();
+
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+  const isComplete = useRecoveryCode
+    ? code.trim().length >= 10
+    : code.length === 6;
+
+  const handleVerify = async () => {
+    if (!challenge || !isComplete) return;
+
+    try {
+      await dispatch(
+        verifyTwoFactor({ challengeToken: challenge, code: code.trim() })
+      ).unwrap();
+      router.replace("/(tabs)");
+    } catch (error: any) {
+      setCode("");
+      Alert.alert(t("common.error"), t("auth.two_factor.invalid_code"));
+    }
+  };
+
+  const toggleRecoveryCode = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    setCode("");
+  };
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      paddingTop: Platform.OS === "ios" ? 50 : 30,
+      paddingHorizontal: 24,
+      paddingBottom: 20,
+    },
+    backButton: {
+      width: 36,
+      height: 36,
+      borderRadius: 18,
+      backgroundColor: "rgba(0, 0, 0, 0.05)",
+      alignItems: "center",
+      justifyContent: "center",
+    },
+    content: {
+      flex: 1,
+      paddingHorizontal: 24,
+    },
+    iconSection: {
+      alignItems: "center",
+      marginBottom: 40,
+      marginTop: 20,
+    },
+    iconContainer: {
+      width: 80,
+      height: 80,
+      borderRadius: 40,
+      backgroundColor: colors.primary,
+      alignItems: "center",
+      justifyContent: "center",
+      marginBottom: 16,
+    },
+    title: {
+      fontSize: 28,
+      fontWeight: "700",
+      color: "#1C1C1E",
+      textAlign: "center",
+      marginBottom: 8,
+    },
+    subtitle: {
+      fontSize: 16,
+      color: "#8E8E93",
+      textAlign: "center",
+      lineHeight: 22,
+    },
+    inputContainer: {
+      backgroundColor: "white",
+      borderRadius: 12,
+      paddingHorizontal: 16,
+      paddingVertical: 16,
+      borderWidth: 1,
+      borderColor: "#E5E5EA",
+    },
+    input: {
+      fontSize: 24,
+      fontWeight: "600",
+      color: "#1C1C1E",
+      textAlign: "center",
+      letterSpacing: 6,
+      paddingVertical: 0,
+    },
+    verifyButton: {
+      backgroundColor: colors.primary,
+      borderRadius: 12,
+      paddingVertical: 16,
+      alignItems: "center",
+      marginTop: 24,
+    },
+    verifyButtonDisabled: {
+      opacity: 0.6,
+    },
+    verifyButtonText: {
+      fontSize: 17,
+      fontWeight: "600",
+      color: "white",
+    },
+    toggleButton: {
+      alignItems: "center",
+      marginTop: 20,
+    },
+    toggleText: {
+      fontSize: 15,
+      color: colors.primary,
+      fontWeight: "500",
+    },
+  });
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar
+        barStyle="dark-content"
+        backgroundColor="transparent"
+        translucent
+      />
+
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.replace("/(auth)/signin")}
+        >
+          <Ionicons name="chevron-back" size={20} color={colors.emerald500} />
+        </TouchableOpacity>
+      </View>
+
+      <KeyboardAvoidingView
+        style={{ flex: 1 }}
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+      >
+        <View style={styles.content}>
+          <View style={styles.iconSection}>
+            <View style={styles.iconContainer}>
+              <Ionicons name="shield-checkmark" size={40} color="white" />
+            </View>
+            <Text style={styles.title}>{t("auth.two_factor.title")}</Text>
+            <Text style={styles.subtitle}>
+              {useRecoveryCode
+                ? t("auth.two_factor.recovery_subtitle")
+                : t("auth.two_factor.subtitle")}
+            </Text>
+          </View>
+
+          <View style={styles.inputContainer}>
+            <TextInput
+              style={styles.input}
+              value={code}
+              onChangeText={setCode}
+              placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "000000"}
+              placeholderTextColor="#C7C7CC"
+              keyboardType={useRecoveryCode ? "default" : "number-pad"}
+              autoCapitalize="none"
+              autoCorrect={false}
+              autoComplete={useRecoveryCode ? "off" : "one-time-code"}
+              textContentType={useRecoveryCode ? "none" : "oneTimeCode"}
+              maxLength={useRecoveryCode ? 11 : 6}
+              autoFocus
+              editable={!isLoading}
+              onSubmitEditing={handleVerify}
+            />
+          </View>
+
+          <TouchableOpacity
+            style={[
+              styles.verifyButton,
+              (!isComplete || isLoading) && styles.verifyButtonDisabled,
+            ]}
+            onPress={handleVerify}
+            disabled={!isComplete || isLoading}
+          >
+            {isLoading ? (
+              <ActivityIndicator size="small" color="white" />
+            ) : (
+              <Text style={styles.verifyButtonText}>
+                {t("auth.two_factor.verify")}
+              </Text>
+            )}
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.toggleButton}
+            onPress={toggleRecoveryCode}
+          >
+            <Text style={styles.toggleText}>
+              {useRecoveryCode
+                ? t("auth.two_factor.use_authenticator")
+                : t("auth.two_factor.use_recovery_code")}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
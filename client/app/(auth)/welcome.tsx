@@ -13,6 +13,7 @@ import { Ionicons } from "@expo/vector-icons";
 import { Link, router } from "expo-router";
 import { useTranslation } from "react-i18next";
 import { useTheme } from "@/src/context/ThemeContext";
+import SocialSignInButtons from "@/components/SocialSignInButtons";
 
 const { width, height } = Dimensions.get("window");
 
@@ -183,6 +184,8 @@ export default function WelcomeScreen() {
             </TouchableOpacity>
           </Link>
 
+          <SocialSignInButtons variant="dark" />
+
           <Text style={styles.footerText}>
             {t("welcome.footer.agreementText")}
             {isRTL ? " " : "\n"}
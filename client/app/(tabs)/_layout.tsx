@@ -13,6 +13,7 @@ import { TabBarIcon } from "@/components/navigation/TabBarIcon";
 import { useOptimizedAuthSelector } from "@/hooks/useOptimizedAuthSelector";
 import { useRouter } from "expo-router";
 import { useColorScheme } from "react-native";
+import { isStaff } from "@/src/utils/permissions";
 
 // Enable RTL support
 I18nManager.allowRTL(true);
@@ -26,7 +27,7 @@ export default function TabLayout() {
 
   const canAccessDevices = user && user.subscription_type !== "FREE";
   const canAccessAIChat = user && user.subscription_type !== "FREE";
-  const canAccessDashboard = user && (user.is_admin || user.is_super_admin);
+  const canAccessDashboard = isStaff(user);
 
   // Since your tab bar is floating, calculate the space it occupies
   // From your ScrollableTabBar config:
@@ -42,20 +43,22 @@ export default function TabLayout() {
   const shouldShowAiChat = useMemo(() => {
     return (
       user?.subscription_type === "GOLD" ||
-      user?.subscription_type === "PLATINUM"
+      user?.subscription_type === "PREMIUM" ||
+      user?.subscription_type === "ADMIN"
     );
   }, [user?.subscription_type]);
 
   const shouldShowDevices = useMemo(() => {
     return (
       user?.subscription_type === "GOLD" ||
-      user?.subscription_type === "PLATINUM"
+      user?.subscription_type === "PREMIUM" ||
+      user?.subscription_type === "ADMIN"
     );
   }, [user?.subscription_type]);
 
   const shouldShowDashboard = useMemo(() => {
-    return user?.is_admin || user?.is_super_admin;
-  }, [user?.is_admin, user?.is_super_admin]);
+    return isStaff(user);
+  }, [user]);
 
   useEffect(() => {
     if (!user) {
@@ -24,16 +24,26 @@ import {
   Minus,
   X,
   Sparkles,
+  Square,
+  MessagesSquare,
+  Plus,
 } from "lucide-react-native";
 import { useTranslation } from "react-i18next";
 import { useLanguage } from "@/src/i18n/context/LanguageContext";
-import { chatAPI, nutritionAPI, questionnaireAPI } from "@/src/services/api";
+import {
+  chatAPI,
+  ChatStream,
+  questionnaireAPI,
+  userAPI,
+} from "@/src/services/api";
 import i18n from "@/src/i18n";
 import LoadingScreen from "@/components/LoadingScreen";
+import ConversationsSheet from "@/components/chat/ConversationsSheet";
 import Animated, { FadeInDown } from "react-native-reanimated";
 import { useRouter } from "expo-router";
 import { useSelector } from "react-redux";
 import { RootState } from "@/src/store";
+import { ChatAction } from "@/src/types";
 
 const { width } = Dimensions.get("window");
 
@@ -50,6 +60,7 @@ interface Message {
   hasWarning?: boolean;
   allergenWarning?: string[];
   suggestions?: string[];
+  actions?: ChatAction[];
 }
 
 interface UserProfile {
@@ -78,6 +89,12 @@ export default function AIChatScreen({
   });
   const [isLoading, setIsLoading] = useState(true);
   const scrollViewRef = useRef<ScrollView>(null);
+  const streamRef = useRef<ChatStream | null>(null);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [conversationTitle, setConversationTitle] = useState<string | null>(
+    null
+  );
+  const [showConversations, setShowConversations] = useState(false);
   const isRTL = i18n.language === "he";
 
   // Get common questions based on current language
@@ -98,7 +115,7 @@ export default function AIChatScreen({
           Alert.alert(
             t("common.upgradeRequired") || "Upgrade Required",
             t("ai_chat.upgrade_message") ||
-              "AI Chat is not available on the Free plan. Please upgrade to Gold or Platinum plan to access this feature.",
+              "AI Chat is not available on the Free plan. Please upgrade to the Gold or Premium plan to access this feature.",
             [
               {
                 text: t("common.cancel") || "Cancel",
@@ -115,12 +132,12 @@ export default function AIChatScreen({
         }
 
         // Additional server-side check
-        const stats = await nutritionAPI.getUsageStats();
-        if (stats.subscriptionType === "FREE") {
+        const entitlements = await userAPI.getEntitlements();
+        if (!entitlements.plan.features.aiChat) {
           Alert.alert(
             t("common.upgradeRequired") || "Upgrade Required",
             t("ai_chat.upgrade_message") ||
-              "AI Chat is not available on the Free plan. Please upgrade to Gold or Platinum plan to access this feature.",
+              "AI Chat is not available on the Free plan. Please upgrade to the Gold or Premium plan to access this feature.",
             [
               {
                 text: t("common.cancel") || "Cancel",
@@ -188,62 +205,87 @@ export default function AIChatScreen({
     }
   };
 
-  const loadChatHistory = async () => {
+  const getWelcomeMessage = (): Message => ({
+    id: "welcome",
+    type: "bot",
+    content: t("ai_chat.welcome_message"),
+    timestamp: new Date(),
+    suggestions: getCommonQuestions(),
+  });
+
+  const openConversation = async (conversation: {
+    conversation_id: string;
+    title: string;
+  }) => {
+    setShowConversations(false);
+    setConversationId(conversation.conversation_id);
+    setConversationTitle(conversation.title || null);
+
     try {
-      console.log("📜 Loading chat history...");
-      const response = await chatAPI.getChatHistory(20);
-
-      if (
-        response &&
-        response.success &&
-        response.data &&
-        response.data.length > 0
-      ) {
-        const chatMessages: Message[] = response.data
-          .map((msg: any) => [
-            {
-              id: `user-${msg.message_id}`,
-              type: "user" as const,
-              content: msg.user_message,
-              timestamp: new Date(msg.created_at),
-            },
-            {
-              id: `bot-${msg.message_id}`,
-              type: "bot" as const,
-              content: msg.ai_response,
-              timestamp: new Date(msg.created_at),
-              hasWarning: checkForAllergens(msg.ai_response).length > 0,
-              allergenWarning: checkForAllergens(msg.ai_response),
-            },
-          ])
-          .flat();
-
-        setMessages(chatMessages);
-        console.log("✅ Loaded", chatMessages.length, "chat messages");
-      } else {
-        // Show welcome message if no chat history
-        setMessages([
+      console.log("📜 Loading conversation:", conversation.conversation_id);
+      const rows = await chatAPI.getConversationMessages(
+        conversation.conversation_id
+      );
+
+      const chatMessages: Message[] = rows
+        .map((msg: any) => [
+          {
+            id: `user-${msg.message_id}`,
+            type: "user" as const,
+            content: msg.user_message,
+            timestamp: new Date(msg.created_at),
+          },
           {
-            id: "welcome",
-            type: "bot",
-            content: t("ai_chat.welcome_message"),
-            timestamp: new Date(),
-            suggestions: getCommonQuestions(),
+            id: `bot-${msg.message_id}`,
+            type: "bot" as const,
+            content: msg.ai_response,
+            timestamp: new Date(msg.created_at),
+            hasWarning: checkForAllergens(msg.ai_response).length > 0,
+            allergenWarning: checkForAllergens(msg.ai_response),
+            actions: msg.actions,
           },
-        ]);
+        ])
+        .flat();
+
+      setMessages(
+        chatMessages.length > 0 ? chatMessages : [getWelcomeMessage()]
+      );
+      console.log("✅ Loaded", chatMessages.length, "chat messages");
+    } catch (error) {
+      console.error("💥 Error loading conversation:", error);
+      setMessages([getWelcomeMessage()]);
+    }
+  };
+
+  const startNewConversation = () => {
+    stopStreaming();
+    setShowConversations(false);
+    setConversationId(null);
+    setConversationTitle(null);
+    setMessages([getWelcomeMessage()]);
+  };
+
+  // Reopen the most recently active conversation
+  const loadChatHistory = async () => {
+    try {
+      const conversations = await chatAPI.getConversations();
+      const latest = conversations.reduce<
+        (typeof conversations)[number] | null
+      >(
+        (best, c) =>
+          !best || c.last_message_at > best.last_message_at ? c : best,
+        null
+      );
+
+      if (latest) {
+        await openConversation(latest);
+      } else {
+        setMessages([getWelcomeMessage()]);
       }
     } catch (error) {
       console.error("💥 Error loading chat history:", error);
       // Show welcome message on error
-      setMessages([
-        {
-          id: "welcome",
-          type: "bot",
-          content: t("ai_chat.welcome_message"),
-          timestamp: new Date(),
-          suggestions: getCommonQuestions(),
-        },
-      ]);
+      setMessages([getWelcomeMessage()]);
     }
   };
 
@@ -326,6 +368,10 @@ export default function AIChatScreen({
     return foundAllergens;
   };
 
+  const stopStreaming = () => {
+    streamRef.current?.cancel();
+  };
+
   const sendMessage = async () => {
     if (!inputText.trim()) return;
 
@@ -336,114 +382,193 @@ export default function AIChatScreen({
       timestamp: new Date(),
     };
 
-    setMessages((prev) => [...prev, userMessage]);
+    // Placeholder that fills in as the reply streams
+    const botMessageId = `bot-${Date.now()}`;
+    const updateBotMessage = (update: (message: Message) => Message) =>
+      setMessages((prev) =>
+        prev.map((m) => (m.id === botMessageId ? update(m) : m))
+      );
+
+    setMessages((prev) => [
+      ...prev,
+      userMessage,
+      { id: botMessageId, type: "bot", content: "", timestamp: new Date() },
+    ]);
     const currentMessage = inputText.trim();
     setInputText("");
     setIsTyping(true);
 
     try {
-      console.log("💬 Sending message to AI:", currentMessage);
+      console.log("💬 Streaming message to AI:", currentMessage);
 
-      const response = await chatAPI.sendMessage(
+      const stream = chatAPI.streamMessage(
         currentMessage,
-        language === "he" ? "hebrew" : "english"
+        language === "he" ? "hebrew" : "english",
+        (text) =>
+          updateBotMessage((m) => ({ ...m, content: m.content + text })),
+        {
+          conversationId: conversationId ?? undefined,
+          onStart: (conversation) => {
+            setConversationId(conversation.conversation_id);
+            setConversationTitle(conversation.title);
+          },
+        }
       );
+      streamRef.current = stream;
 
-      console.log("🔍 Full API response structure:", response);
-
-      // Handle both direct response format and nested response format
-      let aiResponseContent = "";
-      let responseData = null;
-
-      if (response.success && response.response) {
-        // Handle nested response format
-        responseData = response.response;
-        aiResponseContent = response.response.response || response.response;
-      } else if (response.response && response.response.response) {
-        // Handle direct response format from server
-        responseData = response.response;
-        aiResponseContent = response.response.response;
-      } else if (response.response && typeof response.response === "string") {
-        // Handle simple string response
-        aiResponseContent = response.response;
-      } else if (typeof response === "string") {
-        // Handle direct string response
-        aiResponseContent = response;
-      } else {
-        console.error("🚨 Unexpected response format:", response);
-        throw new Error("Invalid response format from server");
-      }
+      const result = await stream.done;
 
-      if (!aiResponseContent || aiResponseContent.trim() === "") {
-        throw new Error("Empty response from AI");
+      if (!result) {
+        // Cancelled: keep whatever arrived, drop an empty bubble
+        const stoppedNote = `\n\n(${t("ai_chat.response_stopped")})`;
+        setMessages((prev) =>
+          prev
+            .filter((m) => m.id !== botMessageId || m.content.trim() !== "")
+            .map((m) =>
+              m.id === botMessageId
+                ? { ...m, content: m.content + stoppedNote }
+                : m
+            )
+        );
+        return;
       }
 
-      console.log("✅ Extracted AI response content:", aiResponseContent);
+      const allergens = checkForAllergens(result.response);
 
-      const allergens = checkForAllergens(aiResponseContent);
-
-      const aiMessage: Message = {
-        id: `bot-${Date.now()}`,
-        type: "bot",
-        content: aiResponseContent,
+      updateBotMessage((m) => ({
+        ...m,
+        content: result.response,
         timestamp: new Date(),
         hasWarning: allergens.length > 0,
         allergenWarning: allergens.length > 0 ? allergens : undefined,
+        actions: result.actions,
         suggestions:
           Math.random() > 0.7 ? getCommonQuestions().slice(0, 3) : undefined,
-      };
-
-      setMessages((prev) => [...prev, aiMessage]);
-      console.log("✅ AI response received and displayed successfully");
+      }));
+      console.log("✅ AI response streamed and displayed successfully");
     } catch (error) {
       console.error("💥 Error sending message:", error);
 
-      // Add error message
-      const errorMessage: Message = {
+      // Replace the placeholder with an error message
+      updateBotMessage((m) => ({
+        ...m,
         id: `error-${Date.now()}`,
-        type: "bot",
         content: t("ai_chat.error.serverError"),
-        timestamp: new Date(),
         hasWarning: true,
-      };
-
-      setMessages((prev) => [...prev, errorMessage]);
+      }));
 
       Alert.alert(t("ai_chat.error.title"), t("ai_chat.error.networkError"));
     } finally {
+      streamRef.current = null;
       setIsTyping(false);
     }
   };
 
-  const clearChat = () => {
-    Alert.alert(t("ai_chat.clearChat.title"), t("ai_chat.clearChat.message"), [
-      { text: t("ai_chat.clearChat.cancel"), style: "cancel" },
-      {
-        text: t("ai_chat.clearChat.confirm"),
-        style: "destructive",
-        onPress: async () => {
-          try {
-            await chatAPI.clearHistory();
-            setMessages([
-              {
-                id: "welcome",
-                type: "bot",
-                content: t("ai_chat.welcomeMessage"),
-                timestamp: new Date(),
-                suggestions: getCommonQuestions(),
-              },
-            ]);
-            console.log("🗑️ Chat history cleared");
-          } catch (error) {
-            console.error("💥 Error clearing chat:", error);
-            // Don't show error alert for clearing history
-            console.log("⚠️ Failed to clear chat history, but continuing");
-          }
+  const deleteConversation = () => {
+    if (!conversationId) {
+      startNewConversation();
+      return;
+    }
+
+    Alert.alert(
+      t("ai_chat.conversations.delete_title"),
+      t("ai_chat.conversations.delete_message", {
+        title: conversationTitle || "",
+      }),
+      [
+        { text: t("common.cancel"), style: "cancel" },
+        {
+          text: t("common.delete"),
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await chatAPI.deleteConversation(conversationId);
+              startNewConversation();
+              console.log("🗑️ Conversation deleted");
+            } catch (error) {
+              console.error("💥 Error deleting conversation:", error);
+              Alert.alert(t("common.error"), t("ai_chat.conversations.error"));
+            }
+          },
         },
-      },
-    ]);
+      ]
+    );
   };
 
+  // Writes proposed by the coach only run once the user confirms them
+  const resolveAction = async (
+    messageId: string,
+    action: ChatAction,
+    confirm: boolean
+  ) => {
+    const replaceAction = (updated: ChatAction) =>
+      setMessages((prev) =>
+        prev.map((m) =>
+          m.id === messageId
+            ? {
+                ...m,
+                actions: m.actions?.map((a) =>
+                  a.action_id === updated.action_id ? updated : a
+                ),
+              }
+            : m
+        )
+      );
+
+    try {
+      const updated = confirm
+        ? await chatAPI.confirmAction(action.action_id)
+        : await chatAPI.cancelAction(action.action_id);
+      replaceAction(updated);
+    } catch (error: any) {
+      if (error?.status === 410) {
+        replaceAction({ ...action, status: "EXPIRED" });
+      } else {
+        Alert.alert(t("common.error"), t("ai_chat.actions.error"));
+      }
+    }
+  };
+
+  const renderActions = (message: Message) => (
+    <View style={styles.actionsContainer}>
+      {message.actions!.map((action) => (
+        <View key={action.action_id} style={styles.actionCard}>
+          <Text style={styles.actionSummary}>{action.summary}</Text>
+          {action.status === "PENDING" ? (
+            <View style={styles.actionButtons}>
+              <TouchableOpacity
+                style={[styles.actionButton, styles.actionCancelButton]}
+                onPress={() => resolveAction(message.id, action, false)}
+              >
+                <Text style={styles.actionCancelText}>
+                  {t("ai_chat.actions.cancel")}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.actionButton, styles.actionConfirmButton]}
+                onPress={() => resolveAction(message.id, action, true)}
+              >
+                <Text style={styles.actionConfirmText}>
+                  {t("ai_chat.actions.confirm")}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <Text
+              style={[
+                styles.actionStatus,
+                action.status === "CONFIRMED" && styles.actionStatusDone,
+                action.status === "FAILED" && styles.actionStatusFailed,
+              ]}
+            >
+              {t(`ai_chat.actions.status.${action.status.toLowerCase()}`)}
+            </Text>
+          )}
+        </View>
+      ))}
+    </View>
+  );
+
   const selectSuggestion = (suggestion: string) => {
     setInputText(suggestion);
   };
@@ -497,6 +622,10 @@ export default function AIChatScreen({
               </Text>
             </View>
 
+            {message.actions &&
+              message.actions.length > 0 &&
+              renderActions(message)}
+
             {message.suggestions && (
               <View style={styles.suggestionsContainer}>
                 <Text style={styles.suggestionsLabel}>
@@ -549,20 +678,48 @@ export default function AIChatScreen({
             <Text style={styles.headerTitle}>
               {language === "he" ? "צ'אט AI תזונאי" : "AI Nutrition Assistant"}
             </Text>
-            <Text style={styles.headerSubtitle}>
-              {language === "he"
-                ? "שאל כל שאלה על תזונה"
-                : "Ask any nutrition question"}
+            <Text style={styles.headerSubtitle} numberOfLines={1}>
+              {conversationTitle ||
+                (language === "he"
+                  ? "שאל כל שאלה על תזונה"
+                  : "Ask any nutrition question")}
             </Text>
           </View>
         </View>
         <View style={styles.headerButtons}>
-          <TouchableOpacity style={styles.headerButton} onPress={clearChat}>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={() => setShowConversations(true)}
+            accessibilityLabel={t("ai_chat.conversations.title")}
+          >
+            <MessagesSquare size={22} color="#FFFFFF" />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={startNewConversation}
+            accessibilityLabel={t("ai_chat.conversations.new")}
+          >
+            <Plus size={22} color="#FFFFFF" />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={deleteConversation}
+          >
             <Trash2 size={22} color="#FFFFFF" />
           </TouchableOpacity>
         </View>
       </LinearGradient>
 
+      <ConversationsSheet
+        visible={showConversations}
+        activeConversationId={conversationId}
+        isRTL={isRTL}
+        onClose={() => setShowConversations(false)}
+        onSelect={openConversation}
+        onNewConversation={startNewConversation}
+        onActiveRemoved={startNewConversation}
+      />
+
       <ScrollView
         ref={scrollViewRef}
         style={styles.messagesContainer}
@@ -611,9 +768,9 @@ export default function AIChatScreen({
             </View>
           </View>
         )}
-        {messages.map(renderMessage)}
+        {messages.filter((m) => m.content !== "").map(renderMessage)}
 
-        {isTyping && (
+        {isTyping && messages[messages.length - 1]?.content === "" && (
           <View style={styles.typingIndicator}>
             <View style={styles.typingRow}>
               <View style={styles.botIconContainer}>
@@ -644,25 +801,40 @@ export default function AIChatScreen({
             maxLength={500}
             textAlign={language === "he" ? "right" : "left"}
           />
-          <TouchableOpacity
-            style={[
-              styles.sendButton,
-              (!inputText.trim() || isTyping) && styles.sendButtonDisabled,
-            ]}
-            onPress={sendMessage}
-            disabled={!inputText.trim() || isTyping}
-          >
-            <LinearGradient
-              colors={
-                !inputText.trim() || isTyping
-                  ? ["#BDC3C7", "#95A5A6"]
-                  : ["#16A085", "#1ABC9C"]
-              }
-              style={styles.sendGradient}
+          {isTyping ? (
+            <TouchableOpacity
+              style={styles.sendButton}
+              onPress={stopStreaming}
+              accessibilityLabel={t("ai_chat.stop_generating")}
             >
-              <Send size={20} color="#FFFFFF" />
-            </LinearGradient>
-          </TouchableOpacity>
+              <LinearGradient
+                colors={["#E74C3C", "#C0392B"]}
+                style={styles.sendGradient}
+              >
+                <Square size={18} color="#FFFFFF" fill="#FFFFFF" />
+              </LinearGradient>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity
+              style={[
+                styles.sendButton,
+                !inputText.trim() && styles.sendButtonDisabled,
+              ]}
+              onPress={sendMessage}
+              disabled={!inputText.trim()}
+            >
+              <LinearGradient
+                colors={
+                  !inputText.trim()
+                    ? ["#BDC3C7", "#95A5A6"]
+                    : ["#16A085", "#1ABC9C"]
+                }
+                style={styles.sendGradient}
+              >
+                <Send size={20} color="#FFFFFF" />
+              </LinearGradient>
+            </TouchableOpacity>
+          )}
         </View>
       </KeyboardAvoidingView>
     </SafeAreaView>
@@ -735,6 +907,59 @@ const styles = StyleSheet.create({
     justifyContent: "center",
     alignItems: "center",
   },
+  actionsContainer: {
+    marginTop: 8,
+    gap: 8,
+  },
+  actionCard: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: "#D5F5E3",
+    padding: 12,
+    gap: 10,
+  },
+  actionSummary: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#2C3E50",
+  },
+  actionButtons: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 8,
+  },
+  actionButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 10,
+  },
+  actionCancelButton: {
+    backgroundColor: "#ECF0F1",
+  },
+  actionConfirmButton: {
+    backgroundColor: "#16A085",
+  },
+  actionCancelText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#7F8C8D",
+  },
+  actionConfirmText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#FFFFFF",
+  },
+  actionStatus: {
+    fontSize: 13,
+    color: "#95A5A6",
+  },
+  actionStatusDone: {
+    color: "#16A085",
+  },
+  actionStatusFailed: {
+    color: "#E74C3C",
+  },
   profileCard: {
     backgroundColor: "#FFFFFF",
     marginHorizontal: 20,
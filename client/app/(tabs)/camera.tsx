@@ -58,7 +58,7 @@ import {
   MealTypeSelector,
   MealType,
 } from "@/components/camera/MealTypeSelector";
-import { nutritionAPI } from "@/src/services/api";
+import { userAPI } from "@/src/services/api";
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get("window");
 
@@ -394,8 +394,8 @@ function CameraScreenContent() {
 
     // Check usage limit first
     try {
-      const stats = await nutritionAPI.getUsageStats();
-      const { current, limit, remaining } = stats.mealScans;
+      const entitlements = await userAPI.getEntitlements();
+      const { limit, remaining } = entitlements.quotas.mealScans;
 
       if (remaining === 0) {
         Alert.alert(
@@ -416,7 +416,7 @@ function CameraScreenContent() {
         return;
       }
 
-      if (remaining <= 2) {
+      if (remaining !== null && remaining <= 2) {
         Alert.alert(
           t("common.lowOnScans") || "Low on Scans",
           `You have ${remaining} meal scan${
@@ -19,6 +19,9 @@ import { useLanguage } from "@/src/i18n/context/LanguageContext";
 import axios from "axios";
 import { Ionicons } from "@expo/vector-icons";
 import { Shield } from "lucide-react-native"; // Icon updated as per the changes.
+import { adminAPI } from "@/src/services/api";
+import { StaffRole } from "@/src/types";
+import { hasPermission, isStaff } from "@/src/utils/permissions";
 
 const ADMIN_PLAN = "ADMIN"; // Set the plan name that can access admin dashboard
 
@@ -52,8 +55,16 @@ interface User {
     meals: number;
     recommendedMenus: number;
   };
+  roles?: { role: StaffRole }[];
 }
 
+const STAFF_ROLES: StaffRole[] = [
+  "SUPPORT_AGENT",
+  "CONTENT_EDITOR",
+  "DIETITIAN",
+  "SUPER_ADMIN",
+];
+
 export default function AdminDashboard() {
   const { t } = useTranslation();
   const { language, isRTL } = useLanguage();
@@ -70,14 +81,14 @@ export default function AdminDashboard() {
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [deleteConfirmText, setDeleteConfirmText] = useState("");
+  const [updatingRole, setUpdatingRole] = useState<StaffRole | null>(null);
 
   useEffect(() => {
     // Check if user has admin access
     console.log("👤 Current user:", user);
-    console.log("🔑 Is admin:", user?.is_admin);
-    console.log("🔑 Is super admin:", user?.is_super_admin);
+    console.log("🔑 Staff roles:", user?.roles);
 
-    if (!user || (!user.is_admin && !user.is_super_admin)) {
+    if (!user || !isStaff(user)) {
       console.log("🚫 Unauthorized access attempt to admin dashboard");
       Alert.alert("Access Denied", "You do not have admin privileges", [
         { text: "OK", onPress: () => router.replace("/(tabs)") },
@@ -111,19 +122,22 @@ export default function AdminDashboard() {
         },
       };
 
+      // Content editors see the stats but not the user list
       const [statsRes, usersRes] = await Promise.all([
         axios.get(`${API_URL}/admin/stats`, config),
-        axios.get(
-          `${API_URL}/admin/users?page=${currentPage}&limit=20`,
-          config
-        ),
+        hasPermission(user, "users:read")
+          ? axios.get(
+              `${API_URL}/admin/users?page=${currentPage}&limit=20`,
+              config
+            )
+          : null,
       ]);
 
       if (statsRes.data.success) {
         setStats(statsRes.data.data);
       }
 
-      if (usersRes.data.success) {
+      if (usersRes?.data.success) {
         setUsers(usersRes.data.data.users);
         setTotalPages(usersRes.data.data.pagination.totalPages);
       }
@@ -202,6 +216,27 @@ export default function AdminDashboard() {
     }
   };
 
+  const handleToggleRole = async (role: StaffRole) => {
+    if (!selectedUser || updatingRole) return;
+
+    const granted = selectedUser.roles?.some((r) => r.role === role);
+    try {
+      setUpdatingRole(role);
+      const staff = granted
+        ? await adminAPI.revokeRole(selectedUser.user_id, role)
+        : await adminAPI.grantRole(selectedUser.user_id, role);
+      setSelectedUser({ ...selectedUser, roles: staff.roles });
+    } catch (error: any) {
+      console.error("Failed to update roles:", error);
+      Alert.alert(
+        t("common.error"),
+        error?.message || t("admin.roles.update_failed")
+      );
+    } finally {
+      setUpdatingRole(null);
+    }
+  };
+
   const filteredUsers = users.filter(
     (u) =>
       u.email.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -413,34 +448,83 @@ export default function AdminDashboard() {
                     • Streak {selectedUser.current_streak}
                   </Text>
 
+                  {/* Staff Roles Section */}
+                  {hasPermission(user, "roles:manage") &&
+                    selectedUser.user_id !== user?.user_id && (
+                      <View style={styles.rolesSection}>
+                        <Text style={styles.detailLabel}>
+                          {t("admin.roles.title")}
+                        </Text>
+                        <Text style={styles.rolesHint}>
+                          {t("admin.roles.hint")}
+                        </Text>
+                        <View style={styles.roleChips}>
+                          {STAFF_ROLES.map((role) => {
+                            const granted = selectedUser.roles?.some(
+                              (r) => r.role === role
+                            );
+                            return (
+                              <TouchableOpacity
+                                key={role}
+                                style={[
+                                  styles.roleChip,
+                                  granted && styles.roleChipActive,
+                                ]}
+                                disabled={!!updatingRole}
+                                onPress={() => handleToggleRole(role)}
+                              >
+                                {updatingRole === role ? (
+                                  <ActivityIndicator
+                                    size="small"
+                                    color={granted ? "#FFF" : "#007AFF"}
+                                  />
+                                ) : (
+                                  <Text
+                                    style={[
+                                      styles.roleChipText,
+                                      granted && styles.roleChipTextActive,
+                                    ]}
+                                  >
+                                    {t(`admin.roles.names.${role}`)}
+                                  </Text>
+                                )}
+                              </TouchableOpacity>
+                            );
+                          })}
+                        </View>
+                      </View>
+                    )}
+
                   {/* Delete User Section */}
-                  <View style={styles.dangerZone}>
-                    <Text style={styles.dangerTitle}>
-                      {language === "he" ? "מחיקת משתמש" : "Delete User"}
-                    </Text>
-                    <Text style={styles.dangerWarning}>
-                      {language === "he"
-                        ? `הקלד "${
-                            language === "he" ? "מחק" : "DELETE"
-                          }" לאישור`
-                        : 'Type "DELETE" to confirm'}
-                    </Text>
-                    <TextInput
-                      style={styles.dangerInput}
-                      value={deleteConfirmText}
-                      onChangeText={setDeleteConfirmText}
-                      placeholder={language === "he" ? "מחק" : "DELETE"}
-                      autoCapitalize="characters"
-                    />
-                    <TouchableOpacity
-                      style={styles.deleteButton}
-                      onPress={handleDeleteUser}
-                    >
-                      <Text style={styles.deleteButtonText}>
-                        {t("admin.deleteUser")}
+                  {hasPermission(user, "users:delete") && (
+                    <View style={styles.dangerZone}>
+                      <Text style={styles.dangerTitle}>
+                        {language === "he" ? "מחיקת משתמש" : "Delete User"}
+                      </Text>
+                      <Text style={styles.dangerWarning}>
+                        {language === "he"
+                          ? `הקלד "${
+                              language === "he" ? "מחק" : "DELETE"
+                            }" לאישור`
+                          : 'Type "DELETE" to confirm'}
                       </Text>
-                    </TouchableOpacity>
-                  </View>
+                      <TextInput
+                        style={styles.dangerInput}
+                        value={deleteConfirmText}
+                        onChangeText={setDeleteConfirmText}
+                        placeholder={language === "he" ? "מחק" : "DELETE"}
+                        autoCapitalize="characters"
+                      />
+                      <TouchableOpacity
+                        style={styles.deleteButton}
+                        onPress={handleDeleteUser}
+                      >
+                        <Text style={styles.deleteButtonText}>
+                          {t("admin.deleteUser")}
+                        </Text>
+                      </TouchableOpacity>
+                    </View>
+                  )}
                 </ScrollView>
               </>
             )}
@@ -645,6 +729,39 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: "#333",
   },
+  rolesSection: {
+    marginTop: 12,
+  },
+  rolesHint: {
+    fontSize: 12,
+    color: "#999",
+    marginBottom: 8,
+  },
+  roleChips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  roleChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#007AFF",
+    minWidth: 60,
+    alignItems: "center",
+  },
+  roleChipActive: {
+    backgroundColor: "#007AFF",
+  },
+  roleChipText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#007AFF",
+  },
+  roleChipTextActive: {
+    color: "#FFF",
+  },
   dangerZone: {
     marginTop: 24,
     padding: 16,
@@ -22,6 +22,9 @@ import {
   deviceAPI,
   ConnectedDevice,
   DailyBalance,
+  DeviceBackfill,
+  ActivityMetric,
+  SourcePriorities,
 } from "../../src/services/deviceAPI";
 import { HealthData } from "../../src/services/healthKit";
 import LoadingScreen from "@/components/LoadingScreen";
@@ -53,6 +56,17 @@ interface SupportedDevice {
   description: string;
 }
 
+const SOURCE_METRICS: ActivityMetric[] = [
+  "steps",
+  "calories_burned",
+  "active_minutes",
+  "distance_km",
+  "heart_rate",
+  "sleep_hours",
+  "weight_kg",
+  "body_fat_percentage",
+];
+
 const SUPPORTED_DEVICES: SupportedDevice[] = [
   {
     type: "APPLE_HEALTH",
@@ -131,6 +145,11 @@ export default function DevicesScreen() {
   const [connectingDevices, setConnectingDevices] = useState<Set<string>>(
     new Set()
   );
+  const [sourcePriorities, setSourcePriorities] =
+    useState<SourcePriorities | null>(null);
+  const [backfills, setBackfills] = useState<Record<string, DeviceBackfill>>(
+    {}
+  );
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
@@ -139,8 +158,8 @@ export default function DevicesScreen() {
       Alert.alert(
         language === "he" ? "שדרוג נדרש" : "Upgrade Required",
         language === "he"
-          ? "חיבור מכשירים זמין רק במנויי Gold ו-Platinum"
-          : "Device integration is only available on Gold and Platinum plans.",
+          ? "חיבור מכשירים זמין רק במנויי Gold ו-Premium"
+          : "Device integration is only available on Gold and Premium plans.",
         [
           {
             text: language === "he" ? "ביטול" : "Cancel",
@@ -177,6 +196,9 @@ export default function DevicesScreen() {
         ]);
         setActivityData(activity);
         setDailyBalance(balance);
+        setSourcePriorities(
+          devices.length > 1 ? await deviceAPI.getSourcePriorities() : null
+        );
       } else {
         setActivityData(null);
         setDailyBalance(null);
@@ -404,6 +426,105 @@ export default function DevicesScreen() {
     }
   };
 
+  const handleSetPrimary = async (device: ConnectedDevice) => {
+    const success = await deviceAPI.setPrimaryDevice(device.id);
+    if (success) {
+      await loadDeviceData();
+    } else {
+      Alert.alert("Error", t("devices.sources.update_failed"));
+    }
+  };
+
+  // Device each metric is currently taken from, mirroring the server's merge order
+  const getEffectiveSource = (metric: ActivityMetric) => {
+    if (!sourcePriorities) return undefined;
+    const byType = (type: string) =>
+      connectedDevices.find((device) => device.type === type);
+
+    const preferred = sourcePriorities.priorities[metric]
+      .map(byType)
+      .find(Boolean);
+    if (preferred) return preferred;
+
+    const primary = connectedDevices.find((device) => device.isPrimary);
+    if (primary) return primary;
+
+    return sourcePriorities.defaults[metric].map(byType).find(Boolean);
+  };
+
+  const handleChooseSource = (metric: ActivityMetric) => {
+    if (!sourcePriorities) return;
+
+    const update = async (deviceTypes: string[]) => {
+      const updated = await deviceAPI.setSourcePriority(metric, deviceTypes);
+      if (updated) {
+        setSourcePriorities(updated);
+        await loadDeviceData();
+      } else {
+        Alert.alert("Error", t("devices.sources.update_failed"));
+      }
+    };
+
+    Alert.alert(
+      t(`devices.sources.metrics.${metric}`),
+      t("devices.sources.choose_source"),
+      [
+        ...connectedDevices.map((device) => ({
+          text: device.name,
+          onPress: () =>
+            update([
+              device.type,
+              ...sourcePriorities.priorities[metric].filter(
+                (type) => type !== device.type
+              ),
+            ]),
+        })),
+        {
+          text: t("devices.sources.automatic"),
+          onPress: () => update([]),
+        },
+        { text: t("common.cancel"), style: "cancel" as const },
+      ]
+    );
+  };
+
+  const runBackfill = async (device: ConnectedDevice, days: number) => {
+    const track = (backfill: DeviceBackfill) =>
+      setBackfills((prev) => ({ ...prev, [device.id]: backfill }));
+
+    try {
+      const result = await deviceAPI.backfillDevice(device, days, track);
+      if (result.status === "COMPLETED") {
+        await loadDeviceData();
+      }
+    } catch (error: any) {
+      console.error("💥 Backfill error:", error);
+      Alert.alert(
+        t("devices.backfill.failed"),
+        error?.response?.data?.error || t("devices.sync_failed")
+      );
+      setBackfills((prev) => {
+        const next = { ...prev };
+        delete next[device.id];
+        return next;
+      });
+    }
+  };
+
+  const handleBackfillDevice = (device: ConnectedDevice) => {
+    Alert.alert(
+      t("devices.backfill.title"),
+      t("devices.backfill.description", { device: device.name }),
+      [
+        { text: t("common.cancel"), style: "cancel" },
+        ...[7, 30, 90].map((days) => ({
+          text: t("devices.backfill.last_days", { days }),
+          onPress: () => runBackfill(device, days),
+        })),
+      ]
+    );
+  };
+
   const handleSyncAllDevices = async () => {
     if (connectedDevices.length === 0) {
       Alert.alert("No Devices", "No connected devices to sync");
@@ -656,6 +777,8 @@ export default function DevicesScreen() {
                   (d) => d.type === device.type
                 );
                 const isSyncing = syncingDevices.has(device.id);
+                const backfill = backfills[device.id];
+                const isBackfilling = backfill?.status === "RUNNING";
 
                 return (
                   <View
@@ -735,6 +858,37 @@ export default function DevicesScreen() {
                           )}
                         </TouchableOpacity>
 
+                        {!device.isPrimary && connectedDevices.length > 1 && (
+                          <TouchableOpacity
+                            style={[
+                              styles.actionButton,
+                              { backgroundColor: colors.primary + "20" },
+                            ]}
+                            onPress={() => handleSetPrimary(device)}
+                          >
+                            <Ionicons
+                              name="star-outline"
+                              size={16}
+                              color={colors.primary}
+                            />
+                          </TouchableOpacity>
+                        )}
+
+                        <TouchableOpacity
+                          style={[
+                            styles.actionButton,
+                            { backgroundColor: colors.primary + "20" },
+                          ]}
+                          onPress={() => handleBackfillDevice(device)}
+                          disabled={isBackfilling}
+                        >
+                          <Ionicons
+                            name="time-outline"
+                            size={16}
+                            color={colors.primary}
+                          />
+                        </TouchableOpacity>
+
                         <TouchableOpacity
                           style={[
                             styles.actionButton,
@@ -753,12 +907,107 @@ export default function DevicesScreen() {
                         {new Date(device.lastSync).toLocaleString()}
                       </Text>
                     )}
+
+                    {backfill && (
+                      <View style={styles.backfillContainer}>
+                        <View
+                          style={[
+                            styles.backfillTrack,
+                            { backgroundColor: colors.border },
+                          ]}
+                        >
+                          <View
+                            style={[
+                              styles.backfillFill,
+                              {
+                                width: `${backfill.progress}%`,
+                                backgroundColor:
+                                  backfill.status === "FAILED"
+                                    ? "#ef4444"
+                                    : colors.primary,
+                              },
+                            ]}
+                          />
+                        </View>
+                        <Text
+                          style={[
+                            styles.backfillText,
+                            { color: colors.subtext },
+                            isRTL && styles.rtlText,
+                          ]}
+                        >
+                          {backfill.status === "RUNNING"
+                            ? t("devices.backfill.progress", {
+                                processed: backfill.days_processed,
+                                total: backfill.days_total,
+                              })
+                            : backfill.status === "COMPLETED"
+                              ? t("devices.backfill.completed", {
+                                  days: backfill.days_written,
+                                })
+                              : backfill.error || t("devices.backfill.failed")}
+                        </Text>
+                      </View>
+                    )}
                   </View>
                 );
               })}
             </View>
           )}
 
+          {/* Data Sources */}
+          {sourcePriorities && connectedDevices.length > 1 && (
+            <View style={[styles.section, { backgroundColor: colors.card }]}>
+              <Text
+                style={[
+                  styles.sectionTitle,
+                  { color: colors.text },
+                  isRTL && styles.rtlText,
+                ]}
+              >
+                {t("devices.sources.title")}
+              </Text>
+              <Text
+                style={[
+                  styles.sectionSubtitle,
+                  { color: colors.subtext },
+                  isRTL && styles.rtlText,
+                ]}
+              >
+                {t("devices.sources.subtitle")}
+              </Text>
+
+              {SOURCE_METRICS.map((metric) => {
+                const source = getEffectiveSource(metric);
+                const isAutomatic =
+                  sourcePriorities.priorities[metric].length === 0;
+
+                return (
+                  <TouchableOpacity
+                    key={metric}
+                    style={[
+                      styles.sourceRow,
+                      { borderBottomColor: colors.border },
+                      isRTL && styles.sourceRowRTL,
+                    ]}
+                    onPress={() => handleChooseSource(metric)}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={[styles.sourceMetric, { color: colors.text }]}>
+                      {t(`devices.sources.metrics.${metric}`)}
+                    </Text>
+                    <Text
+                      style={[styles.sourceDevice, { color: colors.subtext }]}
+                    >
+                      {source?.name || "—"}
+                      {isAutomatic && ` • ${t("devices.sources.automatic")}`}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+
           {/* Available Devices */}
           <View style={[styles.section, { backgroundColor: colors.card }]}>
             <Text style={[styles.sectionTitle, { color: colors.text }]}>
@@ -1037,6 +1286,39 @@ const styles = StyleSheet.create({
     marginTop: 12,
     fontStyle: "italic",
   },
+  sourceRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  sourceRowRTL: {
+    flexDirection: "row-reverse",
+  },
+  sourceMetric: {
+    fontSize: 15,
+    fontWeight: "500",
+  },
+  sourceDevice: {
+    fontSize: 13,
+  },
+  backfillContainer: {
+    marginTop: 10,
+  },
+  backfillTrack: {
+    height: 6,
+    borderRadius: 3,
+    overflow: "hidden",
+  },
+  backfillFill: {
+    height: "100%",
+    borderRadius: 3,
+  },
+  backfillText: {
+    fontSize: 12,
+    marginTop: 6,
+  },
   availableDeviceCard: {
     flexDirection: "row",
     alignItems: "center",
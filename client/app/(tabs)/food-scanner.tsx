@@ -512,6 +512,33 @@ export default function FoodScannerScreen() {
     }
   };
 
+  const handleAddToPantry = async () => {
+    if (!scanResult) return;
+
+    setIsLoading(true);
+    try {
+      const response = await api.post("/food-scanner/add-to-pantry", {
+        productData: scanResult.product,
+        quantity,
+        unit: isBeverage ? "ml" : "g",
+      });
+
+      if (response.data.success) {
+        ToastService.success(
+          t("pantry.updated_title"),
+          t("pantry.added_message", { name: scanResult.product.name })
+        );
+      } else {
+        ToastService.handleError(response.data.error, "Add to Pantry");
+      }
+    } catch (error) {
+      console.error("Add to pantry error:", error);
+      ToastService.handleError(error, "Add to Pantry");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleAddToMealHistory = async () => {
     if (!scanResult) return;
 
@@ -995,6 +1022,13 @@ export default function FoodScannerScreen() {
             >
               <ShoppingCart size={20} color="#6B7280" />
             </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.shopButton}
+              onPress={handleAddToPantry}
+            >
+              <Package size={20} color="#6B7280" />
+            </TouchableOpacity>
           </View>
 
           {/* Bottom Spacing */}
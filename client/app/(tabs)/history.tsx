@@ -417,7 +417,7 @@ const SwipeableMealCard = ({
             <View style={styles.cardImageContainer}>
               {meal.image_url ? (
                 <Image
-                  source={{ uri: meal.image_url }}
+                  source={{ uri: meal.thumbnail_url || meal.image_url }}
                   style={styles.cardImage}
                 />
               ) : (
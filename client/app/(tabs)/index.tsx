@@ -689,7 +689,7 @@ const HomeScreen = React.memo(() => {
                   >
                     {meal.image_url ? (
                       <Image
-                        source={{ uri: meal.image_url }}
+                        source={{ uri: meal.thumbnail_url || meal.image_url }}
                         style={styles.mealImage}
                       />
                     ) : (
@@ -31,10 +31,14 @@ import {
   ChevronRight,
   Camera,
   Image as ImageIcon,
+  Smartphone,
+  ShieldCheck,
 } from "lucide-react-native";
 import EditProfile from "@/components/EditProfile";
 import NotificationSettings from "@/components/NotificationSettings";
 import PrivacySettings from "@/components/PrivacySettings";
+import ActiveSessions from "@/components/ActiveSessions";
+import TwoFactorSettings from "@/components/TwoFactorSettings";
 import { useDispatch, useSelector } from "react-redux";
 import { AppDispatch, RootState } from "@/src/store";
 import { signOut, updateUser } from "@/src/store/authSlice";
@@ -376,6 +380,21 @@ export default function ProfileScreen() {
     {
       title: t("profile.account") || "Account",
       items: [
+        {
+          id: "sessions",
+          title: t("profile.sessions.title"),
+          icon: <Smartphone size={20} color="#2C3E50" />,
+          onPress: () => handleMenuPress("sessions"),
+        },
+        {
+          id: "twoFactor",
+          title: t("profile.two_factor.title"),
+          icon: <ShieldCheck size={20} color="#2C3E50" />,
+          subtitle: user?.two_factor_enabled
+            ? t("profile.two_factor.on")
+            : t("profile.two_factor.off"),
+          onPress: () => handleMenuPress("twoFactor"),
+        },
         {
           id: "signOut",
           title: t("profile.signout") || "Sign Out",
@@ -391,6 +410,10 @@ export default function ProfileScreen() {
     switch (activeSection) {
       case "editProfile":
         return <EditProfile onClose={() => setActiveSection(null)} />;
+      case "sessions":
+        return <ActiveSessions />;
+      case "twoFactor":
+        return <TwoFactorSettings />;
       case "notifications":
         return (
           <View style={styles.sectionContent}>
@@ -41,6 +41,7 @@ import {
   Award,
   Heart,
   Zap,
+  BookOpen,
 } from "lucide-react-native";
 import ShoppingList from "@/components/ShoppingList";
 import { api } from "@/src/services/api";
@@ -1136,6 +1137,20 @@ export default function RecommendedMenusScreen() {
             </Text>
           </TouchableOpacity>
 
+          {/* The user's own recipes */}
+          <TouchableOpacity
+            style={[
+              styles.myRecipesButton,
+              { backgroundColor: colors.surface, borderColor: colors.border },
+            ]}
+            onPress={() => router.push("/recipes")}
+          >
+            <BookOpen size={20} color={colors.emerald500} />
+            <Text style={[styles.myRecipesButtonText, { color: colors.text }]}>
+              {t("recipes.title")}
+            </Text>
+          </TouchableOpacity>
+
           {/* Quick Stats */}
           {filteredMenus.length > 0 && (
             <QuickStats
@@ -1400,6 +1415,24 @@ const styles = StyleSheet.create({
     fontWeight: "600",
   },
 
+  myRecipesButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: 24,
+    paddingVertical: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginTop: -12,
+    marginBottom: 24,
+    gap: 8,
+  },
+
+  myRecipesButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+
   // Quick Stats Card
   statsCard: {
     padding: 20,
@@ -64,7 +64,7 @@ import {
 } from "lucide-react-native";
 import { useTranslation } from "react-i18next";
 import { useLanguage } from "@/src/i18n/context/LanguageContext";
-import { api, userAPI } from "@/src/services/api";
+import { achievementsAPI, api, userAPI } from "@/src/services/api";
 import LoadingScreen from "@/components/LoadingScreen";
 import { StatisticsData } from "@/src/store/calendarSlice";
 import {
@@ -78,6 +78,7 @@ import * as Print from "expo-print";
 import * as Sharing from "expo-sharing";
 import { useSelector } from "react-redux";
 import { RootState } from "@/src/store";
+import { GamificationSummary } from "@/src/types";
 import { getStatusColor } from "@/src/utils/statisticsHelper";
 import { AIRecommendationsSection } from "@/components/statistics/AIRecommendationsSection";
 import Animated, { FadeInDown } from "react-native-reanimated";
@@ -838,6 +839,8 @@ export default function StatisticsScreen() {
   const [metrics, setMetrics] = useState<NutritionMetric[]>([]);
   const [weeklyData, setWeeklyData] = useState<ProgressData[]>([]);
   const [achievements, setAchievements] = useState<Achievement[]>([]);
+  const [gamificationSummary, setGamificationSummary] =
+    useState<GamificationSummary | null>(null);
 
   const { user } = useSelector((state: RootState) => state.auth);
 
@@ -871,6 +874,15 @@ export default function StatisticsScreen() {
     }
   };
 
+  // Level and XP come from the server's ledger so every section agrees
+  const fetchGamificationSummary = async () => {
+    try {
+      setGamificationSummary(await achievementsAPI.getSummary());
+    } catch (error) {
+      console.error("Failed to fetch gamification summary:", error);
+    }
+  };
+
   const fetchAIRecommendations = async () => {
     setIsLoadingRecommendations(true);
     try {
@@ -921,6 +933,7 @@ export default function StatisticsScreen() {
         api.get("/questionnaire"),
       ]);
       fetchAIRecommendations();
+      fetchGamificationSummary();
       if (statisticsResponse.data.success && statisticsResponse.data.data) {
         setStatisticsData(statisticsResponse.data.data);
       } else {
@@ -1358,35 +1371,19 @@ export default function StatisticsScreen() {
   };
 
   const calculateGamificationStats = () => {
-    if (!statisticsData) {
-      return {
-        level: 1,
-        currentXP: 0,
-        nextLevelXP: 1000,
-        totalPoints: 0,
-        dailyStreak: 0,
-        weeklyStreak: 0,
-        perfectDays: 0,
-        xpToNext: 1000,
-        xpProgress: 0,
-      };
-    }
-
-    const totalPoints = statisticsData.totalPoints || 0;
-    const level = Math.max(1, Math.floor(totalPoints / 1000) + 1);
-    const currentXP = totalPoints % 1000;
-    const nextLevelXP = 1000;
-
     return {
-      level,
-      currentXP,
-      nextLevelXP,
-      totalPoints,
-      dailyStreak: statisticsData.currentStreak || 0,
-      weeklyStreak: statisticsData.weeklyStreak || 0,
-      perfectDays: statisticsData.perfectDays || 0,
-      xpToNext: nextLevelXP - currentXP,
-      xpProgress: (currentXP / nextLevelXP) * 100,
+      level: gamificationSummary?.level || 1,
+      currentXP: gamificationSummary?.currentXP || 0,
+      nextLevelXP: gamificationSummary?.nextLevelXP || 100,
+      totalPoints: gamificationSummary?.totalPoints || 0,
+      dailyStreak:
+        gamificationSummary?.currentStreak ??
+        statisticsData?.currentStreak ??
+        0,
+      weeklyStreak: statisticsData?.weeklyStreak || 0,
+      perfectDays: statisticsData?.perfectDays || 0,
+      xpToNext: gamificationSummary?.xpToNextLevel ?? 100,
+      xpProgress: gamificationSummary?.xpProgress || 0,
     };
   };
 
@@ -1889,7 +1886,7 @@ export default function StatisticsScreen() {
                         {gamificationStats.level}
                       </Text>
                       <Text style={styles.xpText}>
-                        {user?.total_points?.toString()} /{" "}
+                        {gamificationStats.currentXP} /{" "}
                         {gamificationStats.nextLevelXP}{" "}
                         {t("statistics.xp") || "XP"}
                       </Text>
@@ -2001,6 +1998,7 @@ export default function StatisticsScreen() {
               <Text style={styles.sectionTitle}>Achievements</Text>
               <AchievementsSection
                 achievements={achievements}
+                summary={gamificationSummary}
                 period={"today"}
               />
             </Animated.View>
@@ -2008,7 +2006,7 @@ export default function StatisticsScreen() {
               entering={FadeInDown.delay(700)}
               style={styles.section}
             >
-              {/* AI Recommendations Section - Only for GOLD/PLATINUM users */}
+              {/* AI Recommendations Section - Only for GOLD/PREMIUM users */}
               {user?.subscription_type !== "FREE" && (
                 <AIRecommendationsSection
                   recommendations={aiRecommendations}
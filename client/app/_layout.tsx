@@ -1,7 +1,9 @@
 import { SplashScreen, Stack } from "expo-router";
-import { Provider } from "react-redux";
+import { Provider, useDispatch } from "react-redux";
 import { PersistGate } from "redux-persist/integration/react";
-import { store, persistor } from "@/src/store";
+import { store, persistor, AppDispatch } from "@/src/store";
+import { updateUser } from "@/src/store/authSlice";
+import { getDeviceTimeZone, userAPI } from "@/src/services/api";
 import { StatusBar } from "expo-status-bar";
 import {
   Text,
@@ -96,6 +98,8 @@ const StackScreens = React.memo(() => (
     <Stack.Screen name="questionnaire" />
     <Stack.Screen name="privacy-policy" />
     <Stack.Screen name="menu/[id]" />
+    <Stack.Screen name="pantry" />
+    <Stack.Screen name="recipes" />
     <Stack.Screen name="+not-found" />
   </Stack>
 ));
@@ -238,9 +242,26 @@ const AppContent = React.memo(() => {
   const { isAuthenticated = false, user = null } = authState || {};
   const segments = useSegments() as string[];
   const router = useRouter();
+  const dispatch = useDispatch<AppDispatch>();
 
   const authInitialized = true;
 
+  // Daily goals and reminders follow the user's timezone, so keep the
+  // server's copy in step with the device (e.g. after travelling)
+  const userId = user?.user_id;
+  const userTimeZone = user?.timezone;
+  useEffect(() => {
+    const timezone = getDeviceTimeZone();
+    if (!isAuthenticated || !userId || !timezone || userTimeZone === timezone) {
+      return;
+    }
+
+    userAPI
+      .updateProfile({ timezone })
+      .then(() => dispatch(updateUser({ timezone })))
+      .catch((error) => console.warn("⚠️ Failed to sync timezone:", error));
+  }, [isAuthenticated, userId, userTimeZone, dispatch]);
+
   useEffect(() => {
     const handleRouting = () => {
       if (!authInitialized) return;
@@ -282,6 +303,7 @@ const AppContent = React.memo(() => {
           "welcome",
           "signin",
           "signup",
+          "two-factor",
           "email-verification",
           "forgotPassword",
           "resetPassword",
@@ -1,9 +1,12 @@
-import { Stack } from "expo-router";
+import { Stack, router } from "expo-router";
+import { View, Text, TouchableOpacity, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
 import { useSelector } from "react-redux";
 import { RootState } from "@/src/store";
 import { Redirect } from "expo-router";
 import { useTranslation } from "react-i18next";
 import { useTheme } from "@/src/context/ThemeContext";
+import { isStaff } from "@/src/utils/permissions";
 import React from "react";
 
 export default function AdminLayout() {
@@ -13,16 +16,43 @@ export default function AdminLayout() {
 
   console.log("🔍 Admin Layout - Checking access:", {
     user: user?.email,
-    is_admin: user?.is_admin,
-    is_super_admin: user?.is_super_admin
+    roles: user?.roles
   });
 
-  // Redirect if not admin
-  if (!user || (!user.is_admin && !user.is_super_admin)) {
+  // Redirect if not staff
+  if (!user || !isStaff(user)) {
     console.log("❌ Admin Layout - Access denied, redirecting");
     return <Redirect href="/(tabs)" />;
   }
 
+  // The admin API refuses admins without two-factor authentication
+  if (!user.two_factor_enabled) {
+    return (
+      <View
+        style={[
+          styles.twoFactorContainer,
+          { backgroundColor: colors.background },
+        ]}
+      >
+        <Ionicons name="shield-checkmark" size={48} color={colors.primary} />
+        <Text style={[styles.twoFactorTitle, { color: colors.text }]}>
+          {t("admin.two_factor_required.title")}
+        </Text>
+        <Text style={styles.twoFactorMessage}>
+          {t("admin.two_factor_required.message")}
+        </Text>
+        <TouchableOpacity
+          style={[styles.twoFactorButton, { backgroundColor: colors.primary }]}
+          onPress={() => router.replace("/(tabs)/profile")}
+        >
+          <Text style={styles.twoFactorButtonText}>
+            {t("admin.two_factor_required.go_to_profile")}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
   console.log("✅ Admin Layout - Access granted");
 
   return (
@@ -58,6 +88,59 @@ export default function AdminLayout() {
           headerShown: true,
         }}
       />
+      <Stack.Screen
+        name="security"
+        options={{
+          title: t("admin.security.title"),
+          headerShown: true,
+        }}
+      />
+      <Stack.Screen
+        name="achievements"
+        options={{
+          title: t("admin.achievements.title"),
+          headerShown: true,
+        }}
+      />
+      <Stack.Screen
+        name="jobs"
+        options={{
+          title: t("admin.jobs.title"),
+          headerShown: true,
+        }}
+      />
     </Stack>
   );
 }
+
+const styles = StyleSheet.create({
+  twoFactorContainer: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 32,
+    gap: 12,
+  },
+  twoFactorTitle: {
+    fontSize: 20,
+    fontWeight: "700",
+    textAlign: "center",
+  },
+  twoFactorMessage: {
+    fontSize: 15,
+    color: "#7F8C8D",
+    textAlign: "center",
+    lineHeight: 22,
+  },
+  twoFactorButton: {
+    marginTop: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+  },
+  twoFactorButtonText: {
+    color: "#FFFFFF",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+});
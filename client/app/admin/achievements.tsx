@@ -0,0 +1,593 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  FlatList,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  RefreshControl,
+  ScrollView,
+  Modal,
+  Alert,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useTranslation } from "react-i18next";
+import { useTheme } from "@/src/context/ThemeContext";
+import { adminAPI } from "@/src/services/api";
+import {
+  AchievementAggregation,
+  AchievementCatalog,
+  AchievementDefinition,
+  AchievementDefinitionInput,
+} from "@/src/types";
+
+const CATEGORIES = ["MILESTONE", "GOAL", "STREAK", "LEVEL", "SPECIAL"];
+const RARITIES = ["COMMON", "UNCOMMON", "RARE", "EPIC", "LEGENDARY"];
+
+// Text inputs hold strings; numbers are parsed on save
+interface AchievementForm {
+  key: string;
+  title: string;
+  description: string;
+  icon: string;
+  category: string;
+  rarity: string;
+  points_awarded: string;
+  max_progress: string;
+  aggregation: AchievementAggregation | null;
+  condition: string;
+  stat: string;
+  window_days: string;
+}
+
+const EMPTY_FORM: AchievementForm = {
+  key: "",
+  title: "",
+  description: "",
+  icon: "🏆",
+  category: "MILESTONE",
+  rarity: "COMMON",
+  points_awarded: "100",
+  max_progress: "1",
+  aggregation: "DAYS",
+  condition: "",
+  stat: "",
+  window_days: "",
+};
+
+function toForm(achievement: AchievementDefinition): AchievementForm {
+  return {
+    key: achievement.key,
+    title: achievement.title,
+    description: achievement.description,
+    icon: achievement.icon,
+    category: achievement.category,
+    rarity: achievement.rarity,
+    points_awarded: String(achievement.points_awarded),
+    max_progress: String(achievement.max_progress),
+    aggregation: achievement.aggregation,
+    condition: achievement.condition || "",
+    stat: achievement.stat || "",
+    window_days: achievement.window_days ? String(achievement.window_days) : "",
+  };
+}
+
+function toInput(form: AchievementForm): AchievementDefinitionInput {
+  const isStat = form.aggregation === "STAT";
+  return {
+    key: form.key.trim(),
+    title: form.title.trim(),
+    description: form.description.trim(),
+    icon: form.icon.trim(),
+    category: form.category,
+    rarity: form.rarity,
+    points_awarded: parseInt(form.points_awarded, 10) || 0,
+    max_progress: parseInt(form.max_progress, 10) || 1,
+    aggregation: form.aggregation,
+    condition: !isStat && form.condition.trim() ? form.condition.trim() : null,
+    stat: isStat && form.stat ? form.stat : null,
+    window_days:
+      !isStat && form.window_days ? parseInt(form.window_days, 10) : null,
+  };
+}
+
+export default function AdminAchievements() {
+  const { t } = useTranslation();
+  const { colors } = useTheme();
+
+  const [catalog, setCatalog] = useState<AchievementCatalog | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  // null when the form is closed, "new" while creating
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<AchievementForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  const loadAchievements = useCallback(async () => {
+    try {
+      setCatalog(await adminAPI.getAchievements());
+    } catch (error) {
+      console.error("Failed to fetch achievements:", error);
+      Alert.alert(t("common.error"), t("admin.achievements.load_failed"));
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadAchievements();
+  }, [loadAchievements]);
+
+  const openForm = (achievement?: AchievementDefinition) => {
+    setForm(achievement ? toForm(achievement) : EMPTY_FORM);
+    setEditingId(achievement ? achievement.id : "new");
+  };
+
+  const updateForm = (changes: Partial<AchievementForm>) =>
+    setForm((current) => ({ ...current, ...changes }));
+
+  const handleSave = async () => {
+    if (!editingId) return;
+    try {
+      setSaving(true);
+      const input = toInput(form);
+      const saved =
+        editingId === "new"
+          ? await adminAPI.createAchievement(input)
+          : await adminAPI.updateAchievement(editingId, input);
+
+      setCatalog((current) =>
+        current
+          ? {
+              ...current,
+              achievements:
+                editingId === "new"
+                  ? [...current.achievements, saved]
+                  : current.achievements.map((achievement) =>
+                      achievement.id === saved.id
+                        ? { ...achievement, ...saved }
+                        : achievement
+                    ),
+            }
+          : current
+      );
+      setEditingId(null);
+      Alert.alert(t("common.success"), t("admin.achievements.saved"));
+    } catch (error: any) {
+      console.error("Failed to save achievement:", error);
+      Alert.alert(
+        t("common.error"),
+        error?.message || t("admin.achievements.save_failed")
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const describeRule = (achievement: AchievementDefinition) => {
+    if (!achievement.aggregation) return t("admin.achievements.no_rule");
+    const rule =
+      achievement.aggregation === "STAT"
+        ? achievement.stat
+        : achievement.condition;
+    return [
+      t(`admin.achievements.aggregations.${achievement.aggregation}`),
+      rule,
+      `≥ ${achievement.max_progress}`,
+      achievement.window_days ? `${achievement.window_days}d` : null,
+    ]
+      .filter(Boolean)
+      .join(" • ");
+  };
+
+  const renderChips = (
+    options: (string | null)[],
+    selected: string | null,
+    onSelect: (value: any) => void,
+    label: (value: string | null) => string = (value) => value || "—"
+  ) => (
+    <View style={styles.chips}>
+      {options.map((option) => {
+        const active = option === selected;
+        return (
+          <TouchableOpacity
+            key={option || "none"}
+            style={[
+              styles.chip,
+              { borderColor: colors.primary },
+              active && { backgroundColor: colors.primary },
+            ]}
+            onPress={() => onSelect(option)}
+          >
+            <Text
+              style={[
+                styles.chipText,
+                { color: active ? "#FFF" : colors.primary },
+              ]}
+            >
+              {label(option)}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderField = (
+    label: string,
+    field: keyof AchievementForm,
+    options: {
+      numeric?: boolean;
+      multiline?: boolean;
+      editable?: boolean;
+    } = {}
+  ) => (
+    <View style={styles.field}>
+      <Text style={[styles.fieldLabel, { color: colors.textSecondary }]}>
+        {label}
+      </Text>
+      <TextInput
+        style={[
+          styles.input,
+          { color: colors.text, borderColor: colors.border },
+          options.multiline && styles.inputMultiline,
+        ]}
+        value={(form[field] as string) || ""}
+        onChangeText={(value) => updateForm({ [field]: value })}
+        keyboardType={options.numeric ? "number-pad" : "default"}
+        multiline={options.multiline}
+        editable={options.editable !== false}
+        autoCapitalize="none"
+      />
+    </View>
+  );
+
+  const renderAchievement = ({ item }: { item: AchievementDefinition }) => (
+    <TouchableOpacity
+      style={[styles.row, { backgroundColor: colors.card }]}
+      onPress={() => openForm(item)}
+    >
+      <Text style={styles.rowIcon}>{item.icon}</Text>
+      <View style={styles.rowInfo}>
+        <View style={styles.rowHeader}>
+          <Text
+            style={[styles.rowTitle, { color: colors.text }]}
+            numberOfLines={1}
+          >
+            {item.title}
+          </Text>
+          <Text style={[styles.rowPoints, { color: colors.primary }]}>
+            +{item.points_awarded} XP
+          </Text>
+        </View>
+        <Text style={[styles.rowDetails, { color: colors.textSecondary }]}>
+          {item.key} • {item.category} • {item.rarity}
+        </Text>
+        <Text
+          style={[styles.rowDetails, { color: colors.textSecondary }]}
+          numberOfLines={2}
+        >
+          {describeRule(item)}
+        </Text>
+        {item._count && (
+          <Text style={[styles.rowDetails, { color: colors.textSecondary }]}>
+            {t("admin.achievements.unlocked_by", {
+              count: item._count.UserAchievements,
+            })}
+          </Text>
+        )}
+      </View>
+    </TouchableOpacity>
+  );
+
+  if (loading && !refreshing) {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        <ActivityIndicator
+          size="large"
+          color={colors.primary}
+          style={styles.loader}
+        />
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <FlatList
+        data={catalog?.achievements || []}
+        keyExtractor={(item) => item.id}
+        renderItem={renderAchievement}
+        contentContainerStyle={styles.list}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={() => {
+              setRefreshing(true);
+              loadAchievements();
+            }}
+          />
+        }
+        ListHeaderComponent={
+          <TouchableOpacity
+            style={[styles.addButton, { backgroundColor: colors.primary }]}
+            onPress={() => openForm()}
+          >
+            <Ionicons name="add" size={20} color="#FFF" />
+            <Text style={styles.addButtonText}>
+              {t("admin.achievements.new")}
+            </Text>
+          </TouchableOpacity>
+        }
+        ListEmptyComponent={
+          <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+            {t("admin.achievements.empty")}
+          </Text>
+        }
+      />
+
+      <Modal visible={editingId !== null} animationType="slide" transparent>
+        <View style={styles.modalContainer}>
+          <View style={[styles.modalContent, { backgroundColor: colors.card }]}>
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, { color: colors.text }]}>
+                {editingId === "new"
+                  ? t("admin.achievements.new")
+                  : t("admin.achievements.edit")}
+              </Text>
+              <TouchableOpacity onPress={() => setEditingId(null)}>
+                <Ionicons name="close" size={24} color={colors.text} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView contentContainerStyle={styles.modalBody}>
+              {renderField(t("admin.achievements.fields.key"), "key")}
+              {renderField(t("admin.achievements.fields.title"), "title")}
+              {renderField(
+                t("admin.achievements.fields.description"),
+                "description",
+                { multiline: true }
+              )}
+              {renderField(t("admin.achievements.fields.icon"), "icon")}
+
+              <Text
+                style={[styles.fieldLabel, { color: colors.textSecondary }]}
+              >
+                {t("admin.achievements.fields.category")}
+              </Text>
+              {renderChips(CATEGORIES, form.category, (category) =>
+                updateForm({ category })
+              )}
+
+              <Text
+                style={[styles.fieldLabel, { color: colors.textSecondary }]}
+              >
+                {t("admin.achievements.fields.rarity")}
+              </Text>
+              {renderChips(RARITIES, form.rarity, (rarity) =>
+                updateForm({ rarity })
+              )}
+
+              {renderField(
+                t("admin.achievements.fields.points"),
+                "points_awarded",
+                { numeric: true }
+              )}
+
+              <Text
+                style={[styles.fieldLabel, { color: colors.textSecondary }]}
+              >
+                {t("admin.achievements.fields.rule")}
+              </Text>
+              {renderChips(
+                [null, ...(catalog?.rules.aggregations || [])],
+                form.aggregation,
+                (aggregation) => updateForm({ aggregation }),
+                (value) =>
+                  value
+                    ? t(`admin.achievements.aggregations.${value}`)
+                    : t("admin.achievements.no_rule")
+              )}
+
+              {form.aggregation === "STAT" ? (
+                <>
+                  <Text
+                    style={[styles.fieldLabel, { color: colors.textSecondary }]}
+                  >
+                    {t("admin.achievements.fields.stat")}
+                  </Text>
+                  {renderChips(catalog?.rules.stats || [], form.stat, (stat) =>
+                    updateForm({ stat })
+                  )}
+                </>
+              ) : (
+                form.aggregation && (
+                  <>
+                    {renderField(
+                      t("admin.achievements.fields.condition"),
+                      "condition",
+                      { multiline: true }
+                    )}
+                    <Text
+                      style={[styles.hint, { color: colors.textSecondary }]}
+                    >
+                      {t("admin.achievements.fields.condition_hint")}
+                    </Text>
+                    <Text
+                      style={[styles.hint, { color: colors.textSecondary }]}
+                    >
+                      {t("admin.achievements.fields.metrics", {
+                        metrics: catalog?.rules.metrics.join(", "),
+                      })}
+                    </Text>
+                    {renderField(
+                      t("admin.achievements.fields.window_days"),
+                      "window_days",
+                      { numeric: true }
+                    )}
+                  </>
+                )
+              )}
+
+              {renderField(
+                t("admin.achievements.fields.target"),
+                "max_progress",
+                { numeric: true }
+              )}
+
+              <TouchableOpacity
+                style={[styles.saveButton, { backgroundColor: colors.primary }]}
+                onPress={handleSave}
+                disabled={saving}
+              >
+                {saving ? (
+                  <ActivityIndicator color="#FFF" />
+                ) : (
+                  <Text style={styles.saveButtonText}>{t("common.save")}</Text>
+                )}
+              </TouchableOpacity>
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loader: {
+    marginVertical: 24,
+  },
+  list: {
+    padding: 16,
+    gap: 8,
+  },
+  addButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    padding: 12,
+    borderRadius: 12,
+    marginBottom: 8,
+  },
+  addButtonText: {
+    color: "#FFF",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  row: {
+    flexDirection: "row",
+    padding: 12,
+    borderRadius: 12,
+    gap: 12,
+  },
+  rowIcon: {
+    fontSize: 28,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    gap: 8,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    flexShrink: 1,
+  },
+  rowPoints: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  rowDetails: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  emptyText: {
+    textAlign: "center",
+    marginTop: 40,
+    fontSize: 15,
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.5)",
+    justifyContent: "flex-end",
+  },
+  modalContent: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: "90%",
+  },
+  modalHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: 16,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+  },
+  modalBody: {
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+  },
+  field: {
+    marginBottom: 4,
+  },
+  fieldLabel: {
+    fontSize: 13,
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+  },
+  inputMultiline: {
+    minHeight: 60,
+    textAlignVertical: "top",
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  saveButton: {
+    marginTop: 24,
+    padding: 14,
+    borderRadius: 12,
+    alignItems: "center",
+  },
+  saveButtonText: {
+    color: "#FFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
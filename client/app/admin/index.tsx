@@ -15,6 +15,7 @@ import { RootState } from "@/src/store";
 import { useRouter } from "expo-router";
 import { useTranslation } from "react-i18next";
 import { useTheme } from "@/src/context/ThemeContext";
+import { hasPermission, isStaff } from "@/src/utils/permissions";
 import axios from "axios";
 import { Ionicons } from "@expo/vector-icons";
 import { Calendar, Flame, Target, Award, UserCheck } from "lucide-react-native";
@@ -62,12 +63,11 @@ export default function AdminDashboard() {
   useEffect(() => {
     console.log("🔍 Admin access check:", {
       user: user?.email,
-      is_admin: user?.is_admin,
-      is_super_admin: user?.is_super_admin,
-      hasAccess: user?.is_admin || user?.is_super_admin,
+      roles: user?.roles,
+      hasAccess: isStaff(user),
     });
 
-    if (!user || (!user.is_admin && !user.is_super_admin)) {
+    if (!user || !isStaff(user)) {
       console.log("❌ Admin access denied");
       Alert.alert(t("admin.accessDenied"), t("admin.noPermission"), [
         { text: "OK", onPress: () => router.replace("/(tabs)") },
@@ -149,13 +149,51 @@ export default function AdminDashboard() {
 
         {/* Quick Actions */}
         <View style={styles.quickActions}>
-          <TouchableOpacity
-            style={[styles.actionButton, { backgroundColor: colors.primary }]}
-            onPress={() => router.push("/admin/users")}
-          >
-            <Ionicons name="people" size={24} color="#FFF" />
-            <Text style={styles.actionButtonText}>{t("admin.users")}</Text>
-          </TouchableOpacity>
+          {hasPermission(user, "users:read") && (
+            <TouchableOpacity
+              style={[styles.actionButton, { backgroundColor: colors.primary }]}
+              onPress={() => router.push("/admin/users")}
+            >
+              <Ionicons name="people" size={24} color="#FFF" />
+              <Text style={styles.actionButtonText}>{t("admin.users")}</Text>
+            </TouchableOpacity>
+          )}
+
+          {hasPermission(user, "security:read") && (
+            <TouchableOpacity
+              style={[styles.actionButton, { backgroundColor: colors.warning }]}
+              onPress={() => router.push("/admin/security")}
+            >
+              <Ionicons name="shield-checkmark" size={24} color="#FFF" />
+              <Text style={styles.actionButtonText}>
+                {t("admin.security.title")}
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          {hasPermission(user, "content:manage") && (
+            <TouchableOpacity
+              style={[styles.actionButton, { backgroundColor: colors.primary }]}
+              onPress={() => router.push("/admin/achievements")}
+            >
+              <Ionicons name="trophy" size={24} color="#FFF" />
+              <Text style={styles.actionButtonText}>
+                {t("admin.achievements.title")}
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          {hasPermission(user, "system:view") && (
+            <TouchableOpacity
+              style={[styles.actionButton, { backgroundColor: colors.primary }]}
+              onPress={() => router.push("/admin/jobs")}
+            >
+              <Ionicons name="timer" size={24} color="#FFF" />
+              <Text style={styles.actionButtonText}>
+                {t("admin.jobs.title")}
+              </Text>
+            </TouchableOpacity>
+          )}
 
           <TouchableOpacity
             style={[styles.actionButton, { backgroundColor: colors.success }]}
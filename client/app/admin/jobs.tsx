@@ -0,0 +1,392 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  FlatList,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+  ScrollView,
+  Alert,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useSelector } from "react-redux";
+import { useTranslation } from "react-i18next";
+import { useTheme } from "@/src/context/ThemeContext";
+import { RootState } from "@/src/store";
+import { adminAPI } from "@/src/services/api";
+import { hasPermission } from "@/src/utils/permissions";
+import { JobQueueStatus, JobRun, JobStatus } from "@/src/types";
+
+const STATUS_STYLES: Record<
+  JobStatus,
+  { icon: keyof typeof Ionicons.glyphMap; color: string }
+> = {
+  PENDING: { icon: "time-outline", color: "#2980B9" },
+  RUNNING: { icon: "sync-outline", color: "#8E44AD" },
+  COMPLETED: { icon: "checkmark-circle-outline", color: "#27AE60" },
+  FAILED: { icon: "close-circle-outline", color: "#E74C3C" },
+};
+
+const FILTERS: (JobStatus | undefined)[] = [
+  undefined,
+  "FAILED",
+  "RUNNING",
+  "PENDING",
+  "COMPLETED",
+];
+
+export default function AdminJobs() {
+  const { t } = useTranslation();
+  const { colors } = useTheme();
+  const { user } = useSelector((state: RootState) => state.auth);
+  const canManage = hasPermission(user, "system:manage");
+
+  const [status, setStatus] = useState<JobQueueStatus | null>(null);
+  const [filter, setFilter] = useState<JobStatus | undefined>();
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [queueing, setQueueing] = useState<string | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      setStatus(await adminAPI.getJobStatus({ status: filter }));
+    } catch (error) {
+      console.error("Failed to fetch job status:", error);
+      Alert.alert(t("common.error"), t("admin.jobs.load_failed"));
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [filter, t]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadStatus();
+  }, [loadStatus]);
+
+  // key is the job type for "run now" and the job id for a re-run
+  const queueJob = async (key: string, queue: () => Promise<JobRun>) => {
+    try {
+      setQueueing(key);
+      await queue();
+      Alert.alert(t("common.success"), t("admin.jobs.queued"));
+      await loadStatus();
+    } catch (error: any) {
+      console.error("Failed to queue job:", error);
+      Alert.alert(
+        t("common.error"),
+        error?.message || t("admin.jobs.queue_failed")
+      );
+    } finally {
+      setQueueing(null);
+    }
+  };
+
+  const renderStatusBadge = (jobStatus: JobStatus) => {
+    const statusStyle = STATUS_STYLES[jobStatus];
+    return (
+      <View
+        style={[
+          styles.statusBadge,
+          { backgroundColor: `${statusStyle.color}1A` },
+        ]}
+      >
+        <Ionicons name={statusStyle.icon} size={14} color={statusStyle.color} />
+        <Text style={[styles.statusText, { color: statusStyle.color }]}>
+          {t(`admin.jobs.statuses.${jobStatus}`)}
+        </Text>
+      </View>
+    );
+  };
+
+  const renderJob = ({ item }: { item: JobRun }) => {
+    const children = Object.entries(item.children);
+    const finished = item.status === "COMPLETED" || item.status === "FAILED";
+
+    return (
+      <View style={[styles.card, { backgroundColor: colors.card }]}>
+        <View style={styles.cardHeader}>
+          <Text style={[styles.jobType, { color: colors.text }]}>
+            {item.type}
+          </Text>
+          {renderStatusBadge(item.status)}
+        </View>
+        <Text style={[styles.details, { color: colors.textSecondary }]}>
+          {new Date(item.created_at).toLocaleString()} •{" "}
+          {t("admin.jobs.attempts", {
+            attempts: item.attempts,
+            max: item.max_attempts,
+          })}
+        </Text>
+        {!!item.triggered_by && (
+          <Text style={[styles.details, { color: colors.textSecondary }]}>
+            {t("admin.jobs.triggered_by", { by: item.triggered_by })}
+          </Text>
+        )}
+        {children.length > 0 && (
+          <Text style={[styles.details, { color: colors.textSecondary }]}>
+            {t("admin.jobs.children")}{" "}
+            {children
+              .map(
+                ([childStatus, count]) =>
+                  `${t(`admin.jobs.statuses.${childStatus}`)} ${count}`
+              )
+              .join(" • ")}
+          </Text>
+        )}
+        {!!item.last_error && (
+          <Text
+            style={[styles.error, { color: colors.error }]}
+            numberOfLines={3}
+          >
+            {item.last_error}
+          </Text>
+        )}
+        {canManage && finished && (
+          <TouchableOpacity
+            style={[styles.actionButton, { borderColor: colors.primary }]}
+            disabled={queueing !== null}
+            onPress={() =>
+              queueJob(item.job_id, () => adminAPI.rerunJob(item.job_id))
+            }
+          >
+            {queueing === item.job_id ? (
+              <ActivityIndicator size="small" color={colors.primary} />
+            ) : (
+              <Text style={[styles.actionText, { color: colors.primary }]}>
+                {t("admin.jobs.rerun")}
+              </Text>
+            )}
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  const header = status && (
+    <View style={styles.header}>
+      <Text style={[styles.sectionTitle, { color: colors.text }]}>
+        {t("admin.jobs.schedules")}
+      </Text>
+      <Text style={[styles.details, { color: colors.textSecondary }]}>
+        {t("admin.jobs.worker", { id: status.worker.id })}
+      </Text>
+      {status.schedules.map((schedule) => (
+        <View
+          key={schedule.type}
+          style={[styles.card, { backgroundColor: colors.card }]}
+        >
+          <View style={styles.cardHeader}>
+            <View style={styles.scheduleInfo}>
+              <Text style={[styles.jobType, { color: colors.text }]}>
+                {schedule.type}
+              </Text>
+              <Text style={[styles.details, { color: colors.textSecondary }]}>
+                {schedule.description}
+              </Text>
+              <Text style={[styles.details, { color: colors.textSecondary }]}>
+                {schedule.lastRun
+                  ? t("admin.jobs.last_run", {
+                      date: new Date(
+                        schedule.lastRun.created_at
+                      ).toLocaleString(),
+                    })
+                  : t("admin.jobs.never_run")}
+              </Text>
+            </View>
+            {schedule.lastRun && renderStatusBadge(schedule.lastRun.status)}
+          </View>
+          {canManage && (
+            <TouchableOpacity
+              style={[styles.actionButton, { borderColor: colors.primary }]}
+              disabled={queueing !== null}
+              onPress={() =>
+                queueJob(schedule.type, () => adminAPI.runJob(schedule.type))
+              }
+            >
+              {queueing === schedule.type ? (
+                <ActivityIndicator size="small" color={colors.primary} />
+              ) : (
+                <Text style={[styles.actionText, { color: colors.primary }]}>
+                  {t("admin.jobs.run_now")}
+                </Text>
+              )}
+            </TouchableOpacity>
+          )}
+        </View>
+      ))}
+
+      <Text style={[styles.sectionTitle, { color: colors.text }]}>
+        {t("admin.jobs.history")}
+      </Text>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.filters}
+      >
+        {FILTERS.map((option) => {
+          const selected = option === filter;
+          const count = option
+            ? status.counts[option] || 0
+            : Object.values(status.counts).reduce(
+                (sum, value) => sum + (value || 0),
+                0
+              );
+          return (
+            <TouchableOpacity
+              key={option || "all"}
+              style={[
+                styles.filterChip,
+                { borderColor: colors.primary },
+                selected && { backgroundColor: colors.primary },
+              ]}
+              onPress={() => setFilter(option)}
+            >
+              <Text
+                style={[
+                  styles.filterText,
+                  { color: selected ? "#FFF" : colors.primary },
+                ]}
+              >
+                {option
+                  ? t(`admin.jobs.statuses.${option}`)
+                  : t("admin.jobs.all")}{" "}
+                ({count})
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      {loading && !refreshing ? (
+        <ActivityIndicator
+          size="large"
+          color={colors.primary}
+          style={styles.loader}
+        />
+      ) : (
+        <FlatList
+          data={status?.jobs || []}
+          keyExtractor={(item) => item.job_id}
+          renderItem={renderJob}
+          ListHeaderComponent={header}
+          contentContainerStyle={styles.list}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={() => {
+                setRefreshing(true);
+                loadStatus();
+              }}
+            />
+          }
+          ListEmptyComponent={
+            <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+              {t("admin.jobs.empty")}
+            </Text>
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loader: {
+    marginVertical: 24,
+  },
+  list: {
+    padding: 16,
+    gap: 8,
+  },
+  header: {
+    gap: 8,
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: "700",
+    marginTop: 8,
+  },
+  filters: {
+    gap: 8,
+    paddingVertical: 8,
+  },
+  filterChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  filterText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  card: {
+    padding: 12,
+    borderRadius: 12,
+    gap: 2,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+    gap: 8,
+  },
+  scheduleInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  jobType: {
+    fontSize: 15,
+    fontWeight: "600",
+    flexShrink: 1,
+  },
+  statusBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  details: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  error: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  actionButton: {
+    alignSelf: "flex-start",
+    marginTop: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    minWidth: 80,
+    alignItems: "center",
+  },
+  actionText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  emptyText: {
+    textAlign: "center",
+    marginTop: 24,
+    fontSize: 15,
+  },
+});
@@ -0,0 +1,375 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  FlatList,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  RefreshControl,
+  ScrollView,
+  Alert,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useTranslation } from "react-i18next";
+import { useTheme } from "@/src/context/ThemeContext";
+import { adminAPI } from "@/src/services/api";
+import { SecurityEvent, SecurityEventType } from "@/src/types";
+
+const PAGE_SIZE = 50;
+
+const EVENT_STYLES: Record<
+  SecurityEventType,
+  { icon: keyof typeof Ionicons.glyphMap; color: string }
+> = {
+  SIGN_IN: { icon: "log-in-outline", color: "#27AE60" },
+  SIGN_IN_FAILED: { icon: "close-circle-outline", color: "#E67E22" },
+  SUSPICIOUS_SIGN_IN: { icon: "warning-outline", color: "#E74C3C" },
+  TWO_FACTOR_FAILED: { icon: "shield-outline", color: "#E67E22" },
+  ACCOUNT_LOCKED: { icon: "lock-closed-outline", color: "#C0392B" },
+  PASSWORD_RESET_REQUESTED: { icon: "mail-outline", color: "#2980B9" },
+  PASSWORD_RESET_CODE_FAILED: { icon: "key-outline", color: "#E67E22" },
+  PASSWORD_RESET: { icon: "key-outline", color: "#27AE60" },
+  ADMIN_ROLE_CHANGED: { icon: "person-circle-outline", color: "#8E44AD" },
+  SUBSCRIPTION_CHANGED: { icon: "card-outline", color: "#16A085" },
+};
+
+const FILTERS: (SecurityEventType | undefined)[] = [
+  undefined,
+  "SUSPICIOUS_SIGN_IN",
+  "ACCOUNT_LOCKED",
+  "SIGN_IN_FAILED",
+  "SIGN_IN",
+  "TWO_FACTOR_FAILED",
+  "PASSWORD_RESET_REQUESTED",
+  "PASSWORD_RESET_CODE_FAILED",
+  "PASSWORD_RESET",
+  "ADMIN_ROLE_CHANGED",
+  "SUBSCRIPTION_CHANGED",
+];
+
+// Short summary of the event details worth seeing in the list
+function describeMetadata(event: SecurityEvent) {
+  const metadata = event.metadata || {};
+  switch (event.type) {
+    case "SIGN_IN":
+    case "SUSPICIOUS_SIGN_IN":
+      return [metadata.method, ...(metadata.reasons || [])]
+        .filter(Boolean)
+        .join(" • ");
+    case "SIGN_IN_FAILED":
+    case "PASSWORD_RESET_CODE_FAILED":
+      return metadata.reason;
+    case "ACCOUNT_LOCKED":
+      return `${metadata.action} • ${metadata.scope} • #${metadata.lockouts}`;
+    case "SUBSCRIPTION_CHANGED":
+      return [
+        metadata.reason,
+        metadata.from && metadata.to
+          ? `${metadata.from} → ${metadata.to}`
+          : metadata.plan,
+      ]
+        .filter(Boolean)
+        .join(" • ");
+    case "ADMIN_ROLE_CHANGED":
+      return [metadata.action, metadata.role, metadata.reason]
+        .filter(Boolean)
+        .join(" • ");
+    default:
+      return undefined;
+  }
+}
+
+export default function AdminSecurity() {
+  const { t } = useTranslation();
+  const { colors } = useTheme();
+
+  const [events, setEvents] = useState<SecurityEvent[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [type, setType] = useState<SecurityEventType | undefined>();
+  const [emailInput, setEmailInput] = useState("");
+  const [email, setEmail] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  const loadEvents = useCallback(async () => {
+    try {
+      const page = await adminAPI.getSecurityEvents({
+        type,
+        email: email || undefined,
+        limit: PAGE_SIZE,
+      });
+      setEvents(page.events);
+      setNextCursor(page.next_cursor);
+    } catch (error) {
+      console.error("Failed to fetch security events:", error);
+      Alert.alert(t("common.error"), t("admin.security.load_failed"));
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [type, email, t]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadEvents();
+  }, [loadEvents]);
+
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore) return;
+    try {
+      setLoadingMore(true);
+      const page = await adminAPI.getSecurityEvents({
+        type,
+        email: email || undefined,
+        limit: PAGE_SIZE,
+        cursor: nextCursor,
+      });
+      setEvents((current) => [...current, ...page.events]);
+      setNextCursor(page.next_cursor);
+    } catch (error) {
+      console.error("Failed to fetch more security events:", error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const renderEvent = ({ item }: { item: SecurityEvent }) => {
+    const eventStyle = EVENT_STYLES[item.type];
+    const details = describeMetadata(item);
+
+    return (
+      <View style={[styles.eventRow, { backgroundColor: colors.card }]}>
+        <View
+          style={[
+            styles.eventIcon,
+            { backgroundColor: `${eventStyle.color}1A` },
+          ]}
+        >
+          <Ionicons name={eventStyle.icon} size={20} color={eventStyle.color} />
+        </View>
+        <View style={styles.eventInfo}>
+          <View style={styles.eventHeader}>
+            <Text style={[styles.eventType, { color: colors.text }]}>
+              {t(`admin.security.types.${item.type}`)}
+            </Text>
+            <Text style={[styles.eventTime, { color: colors.textSecondary }]}>
+              {new Date(item.created_at).toLocaleString()}
+            </Text>
+          </View>
+          <Text
+            style={[styles.eventEmail, { color: colors.text }]}
+            numberOfLines={1}
+          >
+            {item.user?.email || item.email || t("admin.security.no_account")}
+          </Text>
+          {!!details && (
+            <Text
+              style={[styles.eventDetails, { color: colors.textSecondary }]}
+              numberOfLines={2}
+            >
+              {details}
+            </Text>
+          )}
+          {!!item.ip_address && (
+            <Text
+              style={[styles.eventDetails, { color: colors.textSecondary }]}
+            >
+              {t("admin.security.ip", { ip: item.ip_address })}
+            </Text>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.searchBar, { backgroundColor: colors.card }]}>
+        <Ionicons name="search" size={18} color={colors.textSecondary} />
+        <TextInput
+          style={[styles.searchInput, { color: colors.text }]}
+          value={emailInput}
+          onChangeText={setEmailInput}
+          onSubmitEditing={() => setEmail(emailInput.trim())}
+          placeholder={t("admin.security.search_email")}
+          placeholderTextColor={colors.textSecondary}
+          autoCapitalize="none"
+          keyboardType="email-address"
+          returnKeyType="search"
+        />
+        {!!emailInput && (
+          <TouchableOpacity
+            onPress={() => {
+              setEmailInput("");
+              setEmail("");
+            }}
+          >
+            <Ionicons
+              name="close-circle"
+              size={18}
+              color={colors.textSecondary}
+            />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <View>
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.filters}
+        >
+          {FILTERS.map((filter) => {
+            const selected = filter === type;
+            return (
+              <TouchableOpacity
+                key={filter || "all"}
+                style={[
+                  styles.filterChip,
+                  { borderColor: colors.primary },
+                  selected && { backgroundColor: colors.primary },
+                ]}
+                onPress={() => setType(filter)}
+              >
+                <Text
+                  style={[
+                    styles.filterText,
+                    { color: selected ? "#FFF" : colors.primary },
+                  ]}
+                >
+                  {filter
+                    ? t(`admin.security.types.${filter}`)
+                    : t("admin.security.all")}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      </View>
+
+      {loading && !refreshing ? (
+        <ActivityIndicator
+          size="large"
+          color={colors.primary}
+          style={styles.loader}
+        />
+      ) : (
+        <FlatList
+          data={events}
+          keyExtractor={(item) => item.event_id}
+          renderItem={renderEvent}
+          contentContainerStyle={styles.list}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={() => {
+                setRefreshing(true);
+                loadEvents();
+              }}
+            />
+          }
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            loadingMore ? (
+              <ActivityIndicator color={colors.primary} style={styles.loader} />
+            ) : null
+          }
+          ListEmptyComponent={
+            <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+              {t("admin.security.empty")}
+            </Text>
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  searchBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    margin: 16,
+    marginBottom: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 12,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 15,
+    paddingVertical: 0,
+  },
+  filters: {
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  filterChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  filterText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  loader: {
+    marginVertical: 24,
+  },
+  list: {
+    padding: 16,
+    gap: 8,
+  },
+  eventRow: {
+    flexDirection: "row",
+    padding: 12,
+    borderRadius: 12,
+    gap: 12,
+  },
+  eventIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  eventInfo: {
+    flex: 1,
+  },
+  eventHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    gap: 8,
+  },
+  eventType: {
+    fontSize: 15,
+    fontWeight: "600",
+    flexShrink: 1,
+  },
+  eventTime: {
+    fontSize: 12,
+  },
+  eventEmail: {
+    fontSize: 14,
+    marginTop: 2,
+  },
+  eventDetails: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  emptyText: {
+    textAlign: "center",
+    marginTop: 40,
+    fontSize: 15,
+  },
+});
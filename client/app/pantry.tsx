@@ -0,0 +1,357 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  ActivityIndicator,
+  RefreshControl,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { ArrowLeft, Package, Plus, Trash2 } from "lucide-react-native";
+import { useRouter } from "expo-router";
+import { useTranslation } from "react-i18next";
+import { useTheme } from "@/src/context/ThemeContext";
+import { usePantry } from "@/hooks/usePantry";
+import { PantryItem } from "@/src/types";
+
+const UNITS = ["pieces", "g", "ml"] as const;
+
+const formatQuantity = (quantity: number) =>
+  String(Math.round(quantity * 10) / 10);
+
+export default function PantryScreen() {
+  const { colors } = useTheme();
+  const { t, i18n } = useTranslation();
+  const router = useRouter();
+  const isRTL = i18n.language === "he";
+
+  const { items, isLoading, refetch, addItem, updateItem, removeItem } =
+    usePantry();
+
+  const [name, setName] = useState("");
+  const [quantity, setQuantity] = useState("1");
+  const [unit, setUnit] = useState<(typeof UNITS)[number]>("pieces");
+  const [refreshing, setRefreshing] = useState(false);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await refetch();
+    setRefreshing(false);
+  };
+
+  const handleAdd = () => {
+    const amount = parseFloat(quantity);
+    if (!name.trim() || !(amount > 0)) return;
+
+    addItem({ name: name.trim(), quantity: amount, unit });
+    setName("");
+    setQuantity("1");
+  };
+
+  const handleQuantityChange = (item: PantryItem, value: string) => {
+    const amount = parseFloat(value);
+    if (isNaN(amount) || amount === item.quantity) return;
+    updateItem({ item_id: item.item_id, quantity: Math.max(0, amount) });
+  };
+
+  const expiryLabel = (item: PantryItem) => {
+    if (!item.expires_at) return null;
+    if (item.expired) return t("pantry.expired");
+    return t("pantry.expires", {
+      date: new Date(item.expires_at).toLocaleDateString(i18n.language),
+    });
+  };
+
+  const renderItem = (item: PantryItem) => {
+    const expiry = expiryLabel(item);
+    const expiryColor = item.expired
+      ? "#ef4444"
+      : item.expiring_soon
+        ? "#f59e0b"
+        : colors.icon;
+
+    return (
+      <View
+        key={item.item_id}
+        style={[
+          styles.item,
+          { backgroundColor: colors.surface, borderColor: colors.border },
+          isRTL && styles.rowRTL,
+        ]}
+      >
+        <View style={styles.itemInfo}>
+          <Text
+            style={[
+              styles.itemName,
+              { color: colors.text },
+              isRTL && styles.textRTL,
+            ]}
+          >
+            {item.name}
+          </Text>
+          {expiry && (
+            <Text
+              style={[
+                styles.itemExpiry,
+                { color: expiryColor },
+                isRTL && styles.textRTL,
+              ]}
+            >
+              {expiry}
+            </Text>
+          )}
+        </View>
+        <TextInput
+          style={[
+            styles.quantityInput,
+            { color: colors.text, borderColor: colors.border },
+          ]}
+          defaultValue={formatQuantity(item.quantity)}
+          keyboardType="numeric"
+          onEndEditing={(event) =>
+            handleQuantityChange(item, event.nativeEvent.text)
+          }
+        />
+        <Text style={[styles.itemUnit, { color: colors.icon }]}>
+          {t(`pantry.units.${item.unit}`)}
+        </Text>
+        <TouchableOpacity
+          onPress={() => removeItem(item.item_id)}
+          style={styles.iconButton}
+          activeOpacity={0.7}
+        >
+          <Trash2 size={18} color="#ef4444" />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: colors.background }]}
+    >
+      {/* Header */}
+      <View
+        style={[
+          styles.header,
+          { borderBottomColor: colors.border },
+          isRTL && styles.rowRTL,
+        ]}
+      >
+        <TouchableOpacity
+          style={[styles.backButton, { backgroundColor: colors.card }]}
+          onPress={() => router.back()}
+        >
+          <ArrowLeft size={20} color={colors.emerald500} />
+        </TouchableOpacity>
+        <Package size={24} color={colors.emerald500} />
+        <Text style={[styles.headerTitle, { color: colors.text }]}>
+          {t("pantry.title")}
+        </Text>
+      </View>
+
+      {/* Add item */}
+      <View style={[styles.addForm, { borderBottomColor: colors.border }]}>
+        <View style={[styles.addRow, isRTL && styles.rowRTL]}>
+          <TextInput
+            style={[
+              styles.nameInput,
+              { color: colors.text, borderColor: colors.border },
+              isRTL && styles.textRTL,
+            ]}
+            placeholder={t("pantry.item_name")}
+            placeholderTextColor={colors.icon}
+            value={name}
+            onChangeText={setName}
+            onSubmitEditing={handleAdd}
+          />
+          <TextInput
+            style={[
+              styles.quantityInput,
+              { color: colors.text, borderColor: colors.border },
+            ]}
+            value={quantity}
+            onChangeText={setQuantity}
+            keyboardType="numeric"
+          />
+          <TouchableOpacity
+            style={[styles.addButton, { backgroundColor: colors.emerald500 }]}
+            onPress={handleAdd}
+            activeOpacity={0.7}
+          >
+            <Plus size={20} color="#ffffff" />
+          </TouchableOpacity>
+        </View>
+        <View style={[styles.unitRow, isRTL && styles.rowRTL]}>
+          {UNITS.map((option) => (
+            <TouchableOpacity
+              key={option}
+              style={[
+                styles.unitChip,
+                { borderColor: colors.border },
+                unit === option && {
+                  backgroundColor: colors.emerald500,
+                  borderColor: colors.emerald500,
+                },
+              ]}
+              onPress={() => setUnit(option)}
+            >
+              <Text
+                style={{ color: unit === option ? "#ffffff" : colors.text }}
+              >
+                {t(`pantry.units.${option}`)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
+        }
+      >
+        {isLoading ? (
+          <ActivityIndicator
+            size="large"
+            color={colors.emerald500}
+            style={styles.loading}
+          />
+        ) : items.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Package size={48} color={colors.icon} />
+            <Text style={[styles.emptyTitle, { color: colors.text }]}>
+              {t("pantry.empty_title")}
+            </Text>
+            <Text style={[styles.emptyText, { color: colors.icon }]}>
+              {t("pantry.empty_text")}
+            </Text>
+          </View>
+        ) : (
+          items.map(renderItem)
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    padding: 20,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    padding: 8,
+    borderRadius: 12,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: "700",
+  },
+  addForm: {
+    padding: 20,
+    gap: 12,
+    borderBottomWidth: 1,
+  },
+  addRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  nameInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  quantityInput: {
+    width: 64,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+    fontSize: 15,
+    textAlign: "center",
+  },
+  addButton: {
+    padding: 10,
+    borderRadius: 12,
+  },
+  unitRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  unitChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  loading: {
+    paddingVertical: 40,
+  },
+  item: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 10,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemName: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  itemExpiry: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  itemUnit: {
+    fontSize: 14,
+    minWidth: 40,
+  },
+  iconButton: {
+    padding: 4,
+  },
+  emptyState: {
+    alignItems: "center",
+    paddingVertical: 60,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: "center",
+    paddingHorizontal: 20,
+  },
+  rowRTL: {
+    flexDirection: "row-reverse",
+  },
+  textRTL: {
+    textAlign: "right",
+  },
+});
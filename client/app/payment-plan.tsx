@@ -1,26 +1,19 @@
-import React, { useMemo, useState, useEffect } from "react";
+import React, { useMemo, useEffect } from "react";
 import {
   View,
   Text,
   TouchableOpacity,
   StyleSheet,
   Alert,
-  ActivityIndicator,
   ScrollView,
-  TextInput,
-  Modal,
-  Dimensions,
 } from "react-native";
 import { ToastService } from "@/src/services/totastService";
 import { useLocalSearchParams, useRouter } from "expo-router";
 import { useDispatch, useSelector } from "react-redux";
 import { AppDispatch, RootState } from "@/src/store";
-import { userAPI } from "@/src/services/api";
+import { paymentsAPI, userAPI } from "@/src/services/api";
 import { Ionicons } from "@expo/vector-icons";
 import {
-  CreditCard,
-  Lock,
-  X,
   Check,
   Star,
   Zap,
@@ -28,8 +21,6 @@ import {
 } from "lucide-react-native";
 import { LinearGradient } from "expo-linear-gradient";
 
-const { width: screenWidth } = Dimensions.get("window");
-
 type PlanType = "FREE" | "GOLD" | "PREMIUM";
 
 interface Plan {
@@ -102,16 +93,6 @@ const plans: Plan[] = [
 ];
 
 export default function PaymentPlan() {
-  const [selectedPlan, setSelectedPlan] = useState<PlanType | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
-  const [showPaymentModal, setShowPaymentModal] = useState(false);
-  const [paymentData, setPaymentData] = useState({
-    cardNumber: "",
-    expiryDate: "",
-    cvv: "",
-    cardholderName: "",
-  });
-  const [cardType, setCardType] = useState("");
   const router = useRouter();
   const dispatch = useDispatch<AppDispatch>();
   const { user } = useSelector((state: RootState) => state.auth);
@@ -136,64 +117,6 @@ export default function PaymentPlan() {
     return plans;
   }, [mode, currentPlan]);
 
-  const detectCardType = (cardNumber: string) => {
-    const number = cardNumber.replace(/\s/g, "");
-
-    if (number.startsWith("4")) return "Visa";
-    if (
-      number.startsWith("5") ||
-      (number.startsWith("2") &&
-        number.length >= 2 &&
-        parseInt(number.substring(0, 2)) >= 22 &&
-        parseInt(number.substring(0, 2)) <= 27)
-    )
-      return "Mastercard";
-    if (number.startsWith("3")) return "American Express";
-    if (number.startsWith("6")) return "Discover";
-
-    return "";
-  };
-
-  const formatCardNumber = (text: string) => {
-    const cleaned = text.replace(/\s/g, "");
-    const match = cleaned.match(/.{1,4}/g);
-    return match ? match.join(" ") : cleaned;
-  };
-
-  const formatExpiryDate = (text: string) => {
-    const cleaned = text.replace(/\D/g, "");
-    if (cleaned.length >= 2) {
-      return cleaned.substring(0, 2) + "/" + cleaned.substring(2, 4);
-    }
-    return cleaned;
-  };
-
-  const validatePaymentData = () => {
-    const { cardNumber, expiryDate, cvv, cardholderName } = paymentData;
-
-    if (!cardNumber || cardNumber.replace(/\s/g, "").length < 13) {
-      Alert.alert("שגיאה", "מספר כרטיס אשראי לא תקין");
-      return false;
-    }
-
-    if (!expiryDate || expiryDate.length !== 5) {
-      Alert.alert("שגיאה", "תאריך תפוגה לא תקין");
-      return false;
-    }
-
-    if (!cvv || cvv.length < 3) {
-      Alert.alert("שגיאה", "קוד CVV לא תקין");
-      return false;
-    }
-
-    if (!cardholderName.trim()) {
-      Alert.alert("שגיאה", "שם בעל הכרטיס נדרש");
-      return false;
-    }
-
-    return true;
-  };
-
   const handlePayment = async (planId: PlanType) => {
     if (planId === "FREE") {
       return handlePlanSelection(planId);
@@ -213,32 +136,7 @@ export default function PaymentPlan() {
     });
   };
 
-  const processPayment = async () => {
-    if (!validatePaymentData() || !selectedPlan) return;
-
-    try {
-      setIsLoading(true);
-
-      // Simulate payment processing
-      await new Promise((resolve) => setTimeout(resolve, 2000));
-
-      // Process the plan selection
-      await handlePlanSelection(selectedPlan);
-
-      setShowPaymentModal(false);
-      setPaymentData({
-        cardNumber: "",
-        expiryDate: "",
-        cvv: "",
-        cardholderName: "",
-      });
-    } catch (error) {
-      Alert.alert("שגיאה", "התשלום נכשל. אנא נסה שוב.");
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
+  // Paid plans go through checkout on the payment screen; this only handles FREE
   const handlePlanSelection = async (planId: PlanType) => {
     try {
       // Check if user is authenticated
@@ -246,6 +144,26 @@ export default function PaymentPlan() {
         throw new Error("User not authenticated");
       }
 
+      // Leaving a paid plan stops renewal; access lasts until the period ends
+      if (
+        user.subscription_type === "GOLD" ||
+        user.subscription_type === "PREMIUM"
+      ) {
+        const result = await paymentsAPI.cancelSubscription();
+        const activeUntil = result?.active_until
+          ? new Date(result.active_until).toLocaleDateString()
+          : null;
+
+        Alert.alert(
+          "המנוי בוטל",
+          activeUntil
+            ? `התוכנית הנוכחית תישאר פעילה עד ${activeUntil}, ולאחר מכן תעבור לתוכנית החינמית.`
+            : "התוכנית תעבור לתוכנית החינמית בסוף תקופת החיוב."
+        );
+        router.replace("/(tabs)/profile");
+        return;
+      }
+
       console.log("🔄 Updating subscription to:", planId);
       const response = await userAPI.updateSubscription(planId);
       console.log("✅ Subscription update response:", response);
@@ -263,12 +181,7 @@ export default function PaymentPlan() {
       // Add small delay to prevent re-render conflicts
       await new Promise((resolve) => setTimeout(resolve, 200));
 
-      // Navigate based on plan type
-      if (planId === "FREE") {
-        router.replace("/(tabs)");
-      } else {
-        router.replace("/questionnaire");
-      }
+      router.replace("/(tabs)");
     } catch (error: any) {
       console.error("Plan selection error:", error);
       Alert.alert("שגיאה", error.message || "נכשל בעדכון התוכנית");
@@ -395,179 +308,6 @@ export default function PaymentPlan() {
     );
   };
 
-  const renderPaymentModal = () => (
-    <Modal
-      visible={showPaymentModal}
-      transparent
-      animationType="slide"
-      onRequestClose={() => setShowPaymentModal(false)}
-    >
-      <View style={styles.modalOverlay}>
-        <View style={styles.paymentModal}>
-          <LinearGradient
-            colors={["#f8f9fa", "#ffffff"]}
-            style={styles.modalGradient}
-          >
-            <View style={styles.modalHeader}>
-              <View style={styles.modalTitleContainer}>
-                <CreditCard size={24} color="#2196F3" />
-                <Text style={styles.modalTitle}>פרטי תשלום</Text>
-              </View>
-              <TouchableOpacity
-                onPress={() => setShowPaymentModal(false)}
-                style={styles.closeButton}
-              >
-                <X size={24} color="#666" />
-              </TouchableOpacity>
-            </View>
-
-            <ScrollView
-              style={styles.modalContent}
-              showsVerticalScrollIndicator={false}
-            >
-              <View style={styles.planSummary}>
-                <LinearGradient
-                  colors={["#2196F3", "#42A5F5"]}
-                  style={styles.summaryGradient}
-                >
-                  <Text style={styles.summaryTitle}>
-                    {plans.find((p) => p.id === selectedPlan)?.name}
-                  </Text>
-                  <Text style={styles.summaryPrice}>
-                    {plans.find((p) => p.id === selectedPlan)?.price}
-                  </Text>
-                  <Text style={styles.summarySubtext}>חיוב חודשי</Text>
-                </LinearGradient>
-              </View>
-
-              <View style={styles.paymentForm}>
-                <View style={styles.inputContainer}>
-                  <Text style={styles.inputLabel}>מספר כרטיס אשראי</Text>
-                  <View style={styles.cardInputContainer}>
-                    <TextInput
-                      style={styles.cardInput}
-                      value={paymentData.cardNumber}
-                      onChangeText={(text) => {
-                        const formatted = formatCardNumber(text);
-                        if (formatted.replace(/\s/g, "").length <= 16) {
-                          setPaymentData({
-                            ...paymentData,
-                            cardNumber: formatted,
-                          });
-                          setCardType(detectCardType(formatted));
-                        }
-                      }}
-                      placeholder="1234 5678 9012 3456"
-                      keyboardType="numeric"
-                      maxLength={19}
-                    />
-                    {cardType && (
-                      <View style={styles.cardTypeBadge}>
-                        <Text style={styles.cardTypeText}>{cardType}</Text>
-                      </View>
-                    )}
-                  </View>
-                </View>
-
-                <View style={styles.inputRow}>
-                  <View
-                    style={[
-                      styles.inputContainer,
-                      { flex: 1, marginRight: 12 },
-                    ]}
-                  >
-                    <Text style={styles.inputLabel}>תאריך תפוגה</Text>
-                    <TextInput
-                      style={styles.input}
-                      value={paymentData.expiryDate}
-                      onChangeText={(text) => {
-                        const formatted = formatExpiryDate(text);
-                        if (formatted.length <= 5) {
-                          setPaymentData({
-                            ...paymentData,
-                            expiryDate: formatted,
-                          });
-                        }
-                      }}
-                      placeholder="MM/YY"
-                      keyboardType="numeric"
-                      maxLength={5}
-                    />
-                  </View>
-
-                  <View style={[styles.inputContainer, { flex: 1 }]}>
-                    <Text style={styles.inputLabel}>CVV</Text>
-                    <TextInput
-                      style={styles.input}
-                      value={paymentData.cvv}
-                      onChangeText={(text) => {
-                        if (text.length <= 4) {
-                          setPaymentData({ ...paymentData, cvv: text });
-                        }
-                      }}
-                      placeholder="123"
-                      keyboardType="numeric"
-                      maxLength={4}
-                      secureTextEntry
-                    />
-                  </View>
-                </View>
-
-                <View style={styles.inputContainer}>
-                  <Text style={styles.inputLabel}>שם בעל הכרטיס</Text>
-                  <TextInput
-                    style={styles.input}
-                    value={paymentData.cardholderName}
-                    onChangeText={(text) =>
-                      setPaymentData({ ...paymentData, cardholderName: text })
-                    }
-                    placeholder="שם מלא כפי שמופיע על הכרטיס"
-                    autoCapitalize="words"
-                  />
-                </View>
-
-                <View style={styles.securityNotice}>
-                  <Lock size={16} color="#10b981" />
-                  <Text style={styles.securityText}>
-                    התשלום מאובטח ומוצפן ברמה הגבוהה ביותר
-                  </Text>
-                </View>
-              </View>
-            </ScrollView>
-
-            <View style={styles.modalActions}>
-              <TouchableOpacity
-                style={styles.cancelPaymentButton}
-                onPress={() => setShowPaymentModal(false)}
-              >
-                <Text style={styles.cancelPaymentText}>ביטול</Text>
-              </TouchableOpacity>
-              <TouchableOpacity
-                style={[styles.payButton, isLoading && styles.loadingButton]}
-                onPress={processPayment}
-                disabled={isLoading}
-              >
-                <LinearGradient
-                  colors={["#10b981", "#059669"]}
-                  style={styles.payButtonGradient}
-                >
-                  {isLoading ? (
-                    <ActivityIndicator color="white" size="small" />
-                  ) : (
-                    <>
-                      <CreditCard size={16} color="#ffffff" />
-                      <Text style={styles.payButtonText}>שלם עכשיו</Text>
-                    </>
-                  )}
-                </LinearGradient>
-              </TouchableOpacity>
-            </View>
-          </LinearGradient>
-        </View>
-      </View>
-    </Modal>
-  );
-
   return (
     <ScrollView
       style={styles.container}
@@ -615,7 +355,6 @@ export default function PaymentPlan() {
         </Text>
       </View>
 
-      {renderPaymentModal()}
     </ScrollView>
   );
 }
@@ -854,202 +593,4 @@ const styles = StyleSheet.create({
     lineHeight: 18,
     paddingHorizontal: 20,
   },
-  // Modal Styles
-  modalOverlay: {
-    flex: 1,
-    backgroundColor: "rgba(0, 0, 0, 0.6)",
-    justifyContent: "flex-end",
-  },
-  paymentModal: {
-    height: "95%",
-    borderTopLeftRadius: 24,
-    borderTopRightRadius: 24,
-    overflow: "hidden",
-    shadowColor: "#000",
-    shadowOffset: { width: 0, height: -4 },
-    shadowOpacity: 0.3,
-    shadowRadius: 12,
-  },
-  modalGradient: {
-    flex: 1,
-  },
-  modalHeader: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "center",
-    padding: 24,
-    borderBottomWidth: 1,
-    borderBottomColor: "#f0f0f0",
-  },
-  modalTitleContainer: {
-    flexDirection: "row",
-    alignItems: "center",
-    gap: 12,
-  },
-  modalTitle: {
-    fontSize: 22,
-    fontWeight: "700",
-    color: "#1a1a1a",
-  },
-  closeButton: {
-    width: 40,
-    height: 40,
-    borderRadius: 20,
-    backgroundColor: "#f5f5f5",
-    alignItems: "center",
-    justifyContent: "center",
-  },
-  modalContent: {
-    flex: 1,
-    padding: 24,
-  },
-  planSummary: {
-    marginBottom: 32,
-    borderRadius: 20,
-    overflow: "hidden",
-    shadowColor: "#2196F3",
-    shadowOffset: { width: 0, height: 4 },
-    shadowOpacity: 0.2,
-    shadowRadius: 8,
-  },
-  summaryGradient: {
-    padding: 24,
-    alignItems: "center",
-  },
-  summaryTitle: {
-    fontSize: 18,
-    fontWeight: "700",
-    color: "white",
-    marginBottom: 8,
-  },
-  summaryPrice: {
-    fontSize: 32,
-    fontWeight: "800",
-    color: "white",
-    marginBottom: 4,
-  },
-  summarySubtext: {
-    fontSize: 14,
-    color: "rgba(255, 255, 255, 0.8)",
-    fontWeight: "500",
-  },
-  paymentForm: {
-    gap: 20,
-  },
-  inputContainer: {
-    marginBottom: 4,
-  },
-  inputLabel: {
-    fontSize: 15,
-    fontWeight: "600",
-    color: "#1a1a1a",
-    marginBottom: 8,
-  },
-  cardInputContainer: {
-    flexDirection: "row",
-    alignItems: "center",
-    position: "relative",
-  },
-  cardInput: {
-    flex: 1,
-    borderWidth: 2,
-    borderColor: "#e0e0e0",
-    borderRadius: 12,
-    padding: 16,
-    fontSize: 16,
-    backgroundColor: "#fff",
-    fontWeight: "500",
-  },
-  cardTypeBadge: {
-    position: "absolute",
-    right: 16,
-    backgroundColor: "#f0f2f5",
-    paddingHorizontal: 10,
-    paddingVertical: 4,
-    borderRadius: 8,
-    borderWidth: 1,
-    borderColor: "#e0e0e0",
-  },
-  cardTypeText: {
-    fontSize: 12,
-    fontWeight: "600",
-    color: "#666",
-  },
-  input: {
-    borderWidth: 2,
-    borderColor: "#e0e0e0",
-    borderRadius: 12,
-    padding: 16,
-    fontSize: 16,
-    backgroundColor: "#fff",
-    fontWeight: "500",
-  },
-  inputRow: {
-    flexDirection: "row",
-    gap: 12,
-  },
-  securityNotice: {
-    flexDirection: "row",
-    alignItems: "center",
-    backgroundColor: "#f0fdf4",
-    padding: 16,
-    borderRadius: 12,
-    gap: 10,
-    borderWidth: 1,
-    borderColor: "#10b981",
-    borderStyle: "dashed",
-  },
-  securityText: {
-    fontSize: 13,
-    color: "#10b981",
-    flex: 1,
-    fontWeight: "600",
-  },
-  modalActions: {
-    flexDirection: "row",
-    padding: 24,
-    borderTopWidth: 1,
-    borderTopColor: "#f0f0f0",
-    gap: 12,
-    backgroundColor: "white",
-  },
-  cancelPaymentButton: {
-    flex: 1,
-    padding: 16,
-    borderRadius: 12,
-    backgroundColor: "#f8f9fa",
-    borderWidth: 2,
-    borderColor: "#e0e0e0",
-    alignItems: "center",
-    justifyContent: "center",
-  },
-  cancelPaymentText: {
-    fontSize: 16,
-    fontWeight: "600",
-    color: "#666",
-  },
-  payButton: {
-    flex: 2,
-    borderRadius: 12,
-    overflow: "hidden",
-    shadowColor: "#10b981",
-    shadowOffset: { width: 0, height: 4 },
-    shadowOpacity: 0.3,
-    shadowRadius: 8,
-  },
-  loadingButton: {
-    opacity: 0.7,
-  },
-  payButtonGradient: {
-    flexDirection: "row",
-    padding: 18,
-    alignItems: "center",
-    justifyContent: "center",
-    gap: 8,
-  },
-  payButtonText: {
-    fontSize: 16,
-    fontWeight: "700",
-    color: "white",
-  },
 });
@@ -3,19 +3,19 @@ import {
   View,
   Text,
   StyleSheet,
-  TextInput,
   TouchableOpacity,
   Alert,
   ActivityIndicator,
   ScrollView,
   Animated,
-  Dimensions,
 } from "react-native";
 import { useRouter, useLocalSearchParams } from "expo-router";
 import { LinearGradient } from "expo-linear-gradient";
-import { useDispatch, useSelector } from "react-redux";
-import { AppDispatch, RootState } from "@/src/store";
-import { userAPI } from "@/src/services/api";
+import * as WebBrowser from "expo-web-browser";
+import * as Linking from "expo-linking";
+import { useDispatch } from "react-redux";
+import { AppDispatch } from "@/src/store";
+import { paymentsAPI, userAPI } from "@/src/services/api";
 import {
   CreditCard,
   Lock,
@@ -25,255 +25,145 @@ import {
   Shield,
 } from "lucide-react-native";
 
-const { width } = Dimensions.get("window");
+const STATUS_POLL_ATTEMPTS = 10;
+const STATUS_POLL_INTERVAL_MS = 1500;
 
-// Card detection utilities
-const detectCardType = (cardNumber: string) => {
-  const number = cardNumber.replace(/\s/g, "");
+// The webhook may land a moment after the browser returns, so poll briefly
+const waitForPaymentResult = async (sessionId: string) => {
+  for (let attempt = 0; attempt < STATUS_POLL_ATTEMPTS; attempt++) {
+    const status = await paymentsAPI.getStatus();
+    const payment = status?.last_payment;
 
-  if (/^4/.test(number)) return "Visa";
-  if (/^5[1-5]/.test(number) || /^2[2-7]/.test(number)) return "Mastercard";
-  if (/^3[47]/.test(number)) return "American Express";
-  if (/^6/.test(number)) return "Discover";
-
-  return "";
-};
-
-const formatCardNumber = (value: string) => {
-  // Remove all non-digits (spaces, letters, special chars)
-  const number = value.replace(/\D/g, "");
-
-  // Limit to 16 digits maximum
-  const limitedNumber = number.substring(0, 16);
-
-  // Format in groups of 4 with spaces
-  const formatted = limitedNumber.replace(/(.{4})/g, "$1 ").trim();
-
-  return formatted;
-};
-
-const validateCardNumber = (cardNumber: string) => {
-  const number = cardNumber.replace(/\s/g, "");
-  if (number.length < 13 || number.length > 19) return false;
-
-  // Luhn algorithm
-  let sum = 0;
-  let isEven = false;
-
-  for (let i = number.length - 1; i >= 0; i--) {
-    let digit = parseInt(number.charAt(i));
-
-    if (isEven) {
-      digit *= 2;
-      if (digit > 9) digit -= 9;
+    if (
+      payment?.provider_session_id === sessionId &&
+      payment.status !== "PENDING"
+    ) {
+      return status;
     }
 
-    sum += digit;
-    isEven = !isEven;
+    await new Promise((resolve) =>
+      setTimeout(resolve, STATUS_POLL_INTERVAL_MS)
+    );
   }
 
-  return sum % 10 === 0;
-};
-
-const getCardIcon = (cardType: string) => {
-  const icons = {
-    Visa: "💳",
-    Mastercard: "💳",
-    "American Express": "💳",
-    Discover: "💳",
-  };
-  return icons[cardType] || "💳";
+  return null;
 };
 
 export default function PaymentScreen() {
   const router = useRouter();
   const dispatch = useDispatch<AppDispatch>();
-  const { user } = useSelector((state: RootState) => state.auth);
   const { planType, planName, planPrice, mode, currentPlan } =
     useLocalSearchParams();
 
-  const [paymentData, setPaymentData] = useState({
-    cardNumber: "",
-    expiryDate: "",
-    cvv: "",
-    cardholderName: "",
-  });
-
-  const [cardType, setCardType] = useState("");
   const [isLoading, setIsLoading] = useState(false);
-  const [isCardValid, setIsCardValid] = useState(false);
-  const [errors, setErrors] = useState<Record<string, string>>({});
 
   // Animation values
-  const [cardFlipAnimation] = useState(new Animated.Value(0));
   const [successAnimation] = useState(new Animated.Value(0));
 
   useEffect(() => {
-    // If in change mode, filter out current plan
-    if (mode === "change" && currentPlan) {
-      const availablePlans = [
-        { type: "FREE", name: "Free Plan", price: "Free" },
-        { type: "PREMIUM", name: "Premium Plan", price: "$49/month" },
-        { type: "GOLD", name: "Gold Plan", price: "$99/month" },
-      ].filter((plan) => plan.type !== currentPlan);
-
-      // If no plan selected yet, show plan selection
-      if (!planType) {
-        // Navigate to plan selection with filtered options
-        router.replace({
-          pathname: "/payment-plan",
-          params: { mode: "change", currentPlan },
-        });
-        return;
-      }
-    }
-
-    const detectedType = detectCardType(paymentData.cardNumber);
-    setCardType(detectedType);
-
-    // Validate card number
-    if (paymentData.cardNumber.replace(/\s/g, "").length >= 13) {
-      setIsCardValid(validateCardNumber(paymentData.cardNumber));
-    } else {
-      setIsCardValid(false);
-    }
-  }, [paymentData.cardNumber]);
-
-  const handleCardNumberChange = (text: string) => {
-    const formatted = formatCardNumber(text);
-    setPaymentData((prev) => ({ ...prev, cardNumber: formatted }));
-
-    // Clear error when user starts typing
-    if (errors.cardNumber) {
-      setErrors((prev) => ({ ...prev, cardNumber: "" }));
-    }
-  };
-
-  const handleExpiryChange = (text: string) => {
-    // Format as MM/YY
-    const cleaned = text.replace(/\D/g, "");
-    let formatted = cleaned;
-
-    if (cleaned.length >= 2) {
-      formatted = cleaned.substring(0, 2) + "/" + cleaned.substring(2, 4);
-    }
-
-    setPaymentData((prev) => ({ ...prev, expiryDate: formatted }));
-
-    if (errors.expiryDate) {
-      setErrors((prev) => ({ ...prev, expiryDate: "" }));
+    // In change mode without a chosen plan, go pick one first
+    if (mode === "change" && currentPlan && !planType) {
+      router.replace({
+        pathname: "/payment-plan",
+        params: { mode: "change", currentPlan },
+      });
     }
-  };
+  }, [mode, currentPlan, planType]);
 
-  const handleCvvChange = (text: string) => {
-    const cleaned = text.replace(/\D/g, "");
-    const maxLength = cardType === "American Express" ? 4 : 3;
-
-    setPaymentData((prev) => ({
-      ...prev,
-      cvv: cleaned.substring(0, maxLength),
-    }));
+  const showSuccess = (subscriptionEnd: string | null) => {
+    // Show success animation
+    Animated.spring(successAnimation, {
+      toValue: 1,
+      useNativeDriver: true,
+    }).start();
 
-    if (errors.cvv) {
-      setErrors((prev) => ({ ...prev, cvv: "" }));
-    }
+    // Delay and navigate
+    setTimeout(() => {
+      const message = subscriptionEnd
+        ? `Welcome to ${planName}! Your payment has been processed successfully.\n\n📅 Subscription renews on: ${new Date(
+            subscriptionEnd
+          ).toLocaleDateString()}\nYou can cancel anytime from your profile.`
+        : `Welcome to ${planName}!`;
+
+      Alert.alert("Payment Successful! 🎉", message, [
+        {
+          text: "Continue",
+          onPress: () => {
+            if (planType !== "FREE") {
+              router.replace("/(tabs)/questionnaire" as any);
+            } else {
+              router.replace("/(tabs)" as any);
+            }
+          },
+        },
+      ]);
+    }, 1000);
   };
 
-  const validateForm = () => {
-    const newErrors: Record<string, string> = {};
-
-    if (!paymentData.cardNumber || !isCardValid) {
-      newErrors.cardNumber = "Please enter a valid card number";
-    }
-
-    if (!paymentData.expiryDate || paymentData.expiryDate.length !== 5) {
-      newErrors.expiryDate = "Please enter a valid expiry date (MM/YY)";
-    }
-
-    const requiredCvvLength = cardType === "American Express" ? 4 : 3;
-    if (!paymentData.cvv || paymentData.cvv.length !== requiredCvvLength) {
-      newErrors.cvv = `Please enter a valid ${requiredCvvLength}-digit CVV`;
-    }
-
-    if (!paymentData.cardholderName.trim()) {
-      newErrors.cardholderName = "Please enter the cardholder name";
-    }
-
-    // Validate expiry date is not in the past
-    if (paymentData.expiryDate.length === 5) {
-      const [month, year] = paymentData.expiryDate.split("/");
-      const expiry = new Date(2000 + parseInt(year), parseInt(month) - 1);
-      const now = new Date();
+  const processPayment = async () => {
+    try {
+      setIsLoading(true);
 
-      if (expiry < now) {
-        newErrors.expiryDate = "Card has expired";
+      if (planType === "FREE") {
+        await userAPI.updateSubscription("FREE");
+        dispatch({
+          type: "auth/updateSubscription",
+          payload: { subscription_type: "FREE" },
+        });
+        showSuccess(null);
+        return;
       }
-    }
 
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
-  };
+      const returnUrl = Linking.createURL("payment");
+      const checkout = await paymentsAPI.createCheckout(
+        planType as string,
+        returnUrl
+      );
 
-  const processPayment = async () => {
-    if (!validateForm()) {
-      return;
-    }
+      // Card details are collected on the provider's hosted page
+      const result = await WebBrowser.openAuthSessionAsync(
+        checkout.checkout_url,
+        returnUrl
+      );
 
-    try {
-      setIsLoading(true);
+      if (result.type !== "success") {
+        Alert.alert(
+          "Payment Canceled",
+          "Checkout was closed before the payment was completed."
+        );
+        return;
+      }
 
-      // Simulate payment processing (always successful for now)
-      await new Promise((resolve) => setTimeout(resolve, 2000));
+      const status = await waitForPaymentResult(checkout.session_id);
 
-      // Update user subscription
-      await userAPI.updateSubscription(planType as string);
+      if (!status) {
+        Alert.alert(
+          "Payment Processing",
+          "We're still confirming your payment. Your plan will update as soon as it's confirmed."
+        );
+        return;
+      }
 
-      // Calculate subscription end date (30 days from now for non-FREE plans)
-      const subscriptionEndDate = new Date();
-      subscriptionEndDate.setDate(subscriptionEndDate.getDate() + 30);
+      if (status.last_payment.status !== "SUCCEEDED") {
+        Alert.alert(
+          "Payment Failed",
+          status.last_payment.failure_reason === "card_declined"
+            ? "Your card was declined. Please try another payment method."
+            : "There was an error processing your payment. Please try again."
+        );
+        return;
+      }
 
-      // Update Redux state
+      // Update Redux state with what the server recorded
       dispatch({
         type: "auth/updateSubscription",
-        payload: { 
-          subscription_type: planType,
-          subscription_end_date: planType !== "FREE" ? subscriptionEndDate.toISOString() : null
+        payload: {
+          subscription_type: status.subscription_type,
+          subscription_end: status.subscription_end,
         },
       });
 
-      // Show success animation
-      Animated.spring(successAnimation, {
-        toValue: 1,
-        useNativeDriver: true,
-      }).start();
-
-      // Delay and navigate
-      setTimeout(() => {
-        const subscriptionEndDate = new Date();
-        subscriptionEndDate.setDate(subscriptionEndDate.getDate() + 30);
-        const endDateFormatted = subscriptionEndDate.toLocaleDateString();
-
-        const message = planType !== "FREE" 
-          ? `Welcome to ${planName}! Your payment has been processed successfully.\n\n📅 Subscription expires: ${endDateFormatted}\nAfter this date, you will revert to the FREE plan.`
-          : `Welcome to ${planName}!`;
-
-        Alert.alert(
-          "Payment Successful! 🎉",
-          message,
-          [
-            {
-              text: "Continue",
-              onPress: () => {
-                if (planType !== "FREE") {
-                  router.replace("/(tabs)/questionnaire" as any);
-                } else {
-                  router.replace("/(tabs)" as any);
-                }
-              },
-            },
-          ]
-        );
-      }, 1000);
+      showSuccess(status.subscription_end);
     } catch (error: any) {
       console.error("Payment error:", error);
       Alert.alert(
@@ -285,34 +175,6 @@ export default function PaymentScreen() {
     }
   };
 
-  const handleCvvFocus = () => {
-    // Flip card animation
-    Animated.timing(cardFlipAnimation, {
-      toValue: 1,
-      duration: 600,
-      useNativeDriver: false,
-    }).start();
-  };
-
-  const handleCvvBlur = () => {
-    // Flip card back
-    Animated.timing(cardFlipAnimation, {
-      toValue: 0,
-      duration: 600,
-      useNativeDriver: false,
-    }).start();
-  };
-
-  const frontInterpolate = cardFlipAnimation.interpolate({
-    inputRange: [0, 1],
-    outputRange: ["0deg", "180deg"],
-  });
-
-  const backInterpolate = cardFlipAnimation.interpolate({
-    inputRange: [0, 1],
-    outputRange: ["180deg", "360deg"],
-  });
-
   return (
     <ScrollView style={styles.container} keyboardShouldPersistTaps="handled">
       <LinearGradient
@@ -343,220 +205,43 @@ export default function PaymentScreen() {
       </LinearGradient>
 
       <View style={styles.content}>
-        {/* Animated Credit Card */}
-        <View style={styles.cardContainer}>
-          <View style={styles.cardWrapper}>
-            {/* Front of Card */}
-            <Animated.View
-              style={[
-                styles.creditCard,
-                styles.cardFront,
-                { transform: [{ rotateY: frontInterpolate }] },
-              ]}
-            >
-              <LinearGradient
-                colors={["#047857", "#059669", "#10b981"]}
-                style={styles.cardGradient}
-                start={{ x: 0, y: 0 }}
-                end={{ x: 1, y: 1 }}
-              >
-                {/* Background Pattern */}
-                <View style={styles.cardPattern}>
-                  <View style={styles.patternCircle1} />
-                  <View style={styles.patternCircle2} />
-                </View>
-
-                <View style={styles.cardHeader}>
-                  <Text style={styles.cardBrand}>
-                    {getCardIcon(cardType)} {cardType || "CARD"}
-                  </Text>
-                  <View style={styles.chipIcon}>
-                    <LinearGradient
-                      colors={["#fbbf24", "#f59e0b"]}
-                      style={styles.chip}
-                    />
-                  </View>
-                </View>
-
-                <Text style={styles.cardNumber}>
-                  {paymentData.cardNumber || "•••• •••• •••• ••••"}
-                </Text>
-
-                <View style={styles.cardFooter}>
-                  <View>
-                    <Text style={styles.cardLabel}>CARDHOLDER NAME</Text>
-                    <Text style={styles.cardValue}>
-                      {paymentData.cardholderName.toUpperCase() || "YOUR NAME"}
-                    </Text>
-                  </View>
-                  <View>
-                    <Text style={styles.cardLabel}>EXPIRES</Text>
-                    <Text style={styles.cardValue}>
-                      {paymentData.expiryDate || "MM/YY"}
-                    </Text>
-                  </View>
-                </View>
-              </LinearGradient>
-            </Animated.View>
-
-            {/* Back of Card */}
-            <Animated.View
-              style={[
-                styles.creditCard,
-                styles.cardBack,
-                { transform: [{ rotateY: backInterpolate }] },
-              ]}
-            >
-              <LinearGradient
-                colors={["#10b981", "#059669", "#047857"]}
-                style={styles.cardGradient}
-              >
-                <View style={styles.magneticStripe} />
-                <View style={styles.cvvContainer}>
-                  <Text style={styles.cvvLabel}>CVV</Text>
-                  <View style={styles.cvvBox}>
-                    <Text style={styles.cvvValue}>
-                      {paymentData.cvv || "•••"}
-                    </Text>
-                  </View>
-                </View>
-              </LinearGradient>
-            </Animated.View>
-          </View>
-        </View>
-
-        {/* Payment Form */}
         <View style={styles.form}>
-          <View style={styles.inputGroup}>
-            <Text style={styles.inputLabel}>Card Number</Text>
-            <View
-              style={[
-                styles.inputContainer,
-                errors.cardNumber && styles.inputContainerError,
-              ]}
-            >
-              <CreditCard size={20} color="#047857" style={styles.inputIcon} />
-              <TextInput
-                style={styles.input}
-                value={paymentData.cardNumber}
-                onChangeText={handleCardNumberChange}
-                placeholder="1234 5678 9012 3456"
-                placeholderTextColor="#9CA3AF"
-                keyboardType="numeric"
-                maxLength={19}
-              />
-              {cardType && isCardValid && (
-                <CheckCircle
-                  size={20}
-                  color="#10b981"
-                  style={styles.validIcon}
-                />
-              )}
-            </View>
-            {errors.cardNumber && (
-              <Text style={styles.errorText}>{errors.cardNumber}</Text>
-            )}
-            {cardType && (
-              <Text style={styles.cardTypeText}>
-                {getCardIcon(cardType)} {cardType} detected
-              </Text>
-            )}
+          <Text style={styles.summaryTitle}>Order Summary</Text>
+
+          <View style={styles.summaryRow}>
+            <CreditCard size={20} color="#047857" />
+            <Text style={styles.summaryLabel}>Plan</Text>
+            <Text style={styles.summaryValue}>{planName}</Text>
           </View>
 
-          <View style={styles.inputRow}>
-            <View style={[styles.inputGroup, { flex: 1, marginRight: 12 }]}>
-              <Text style={styles.inputLabel}>Expiry Date</Text>
-              <View
-                style={[
-                  styles.inputContainer,
-                  errors.expiryDate && styles.inputContainerError,
-                ]}
-              >
-                <Calendar size={20} color="#047857" style={styles.inputIcon} />
-                <TextInput
-                  style={styles.input}
-                  value={paymentData.expiryDate}
-                  onChangeText={handleExpiryChange}
-                  placeholder="MM/YY"
-                  placeholderTextColor="#9CA3AF"
-                  keyboardType="numeric"
-                  maxLength={5}
-                />
-              </View>
-              {errors.expiryDate && (
-                <Text style={styles.errorText}>{errors.expiryDate}</Text>
-              )}
-            </View>
-
-            <View style={[styles.inputGroup, { flex: 1 }]}>
-              <Text style={styles.inputLabel}>CVV</Text>
-              <View
-                style={[
-                  styles.inputContainer,
-                  errors.cvv && styles.inputContainerError,
-                ]}
-              >
-                <Shield size={20} color="#047857" style={styles.inputIcon} />
-                <TextInput
-                  style={styles.input}
-                  value={paymentData.cvv}
-                  onChangeText={handleCvvChange}
-                  onFocus={handleCvvFocus}
-                  onBlur={handleCvvBlur}
-                  placeholder="123"
-                  placeholderTextColor="#9CA3AF"
-                  keyboardType="numeric"
-                  maxLength={cardType === "American Express" ? 4 : 3}
-                  secureTextEntry
-                />
-              </View>
-              {errors.cvv && <Text style={styles.errorText}>{errors.cvv}</Text>}
-            </View>
+          <View style={styles.summaryRow}>
+            <Calendar size={20} color="#047857" />
+            <Text style={styles.summaryLabel}>Billing</Text>
+            <Text style={styles.summaryValue}>
+              {planType === "FREE" ? "—" : "Monthly, cancel anytime"}
+            </Text>
           </View>
 
-          <View style={styles.inputGroup}>
-            <Text style={styles.inputLabel}>Cardholder Name</Text>
-            <View
-              style={[
-                styles.inputContainer,
-                errors.cardholderName && styles.inputContainerError,
-              ]}
-            >
-              <TextInput
-                style={[styles.input, { paddingLeft: 16 }]}
-                value={paymentData.cardholderName}
-                onChangeText={(text) => {
-                  setPaymentData((prev) => ({ ...prev, cardholderName: text }));
-                  if (errors.cardholderName) {
-                    setErrors((prev) => ({ ...prev, cardholderName: "" }));
-                  }
-                }}
-                placeholder="Full name as shown on card"
-                placeholderTextColor="#9CA3AF"
-                autoCapitalize="words"
-              />
-            </View>
-            {errors.cardholderName && (
-              <Text style={styles.errorText}>{errors.cardholderName}</Text>
-            )}
+          <View style={[styles.summaryRow, styles.summaryTotalRow]}>
+            <Shield size={20} color="#047857" />
+            <Text style={styles.summaryLabel}>Total today</Text>
+            <Text style={styles.summaryTotal}>{planPrice}</Text>
           </View>
 
           {/* Security Notice */}
           <View style={styles.securityNotice}>
             <Lock size={16} color="#047857" />
             <Text style={styles.securityText}>
-              Your payment information is encrypted and secure
+              You&apos;ll enter your card on our payment provider&apos;s secure
+              checkout page. We never see or store your card details.
             </Text>
           </View>
 
           {/* Pay Button */}
           <TouchableOpacity
-            style={[
-              styles.payButton,
-              (!isCardValid || isLoading) && styles.payButtonDisabled,
-            ]}
+            style={[styles.payButton, isLoading && styles.payButtonDisabled]}
             onPress={processPayment}
-            disabled={!isCardValid || isLoading}
+            disabled={isLoading}
           >
             <LinearGradient
               colors={["#047857", "#059669", "#10b981"]}
@@ -567,7 +252,11 @@ export default function PaymentScreen() {
               ) : (
                 <>
                   <Lock size={20} color="white" />
-                  <Text style={styles.payButtonText}>Pay {planPrice}</Text>
+                  <Text style={styles.payButtonText}>
+                    {planType === "FREE"
+                      ? "Switch to Free"
+                      : `Continue to checkout · ${planPrice}`}
+                  </Text>
                 </>
               )}
             </LinearGradient>
@@ -640,137 +329,6 @@ const styles = StyleSheet.create({
   content: {
     padding: 20,
   },
-  cardContainer: {
-    marginBottom: 32,
-    alignItems: "center",
-  },
-  cardWrapper: {
-    width: width - 60,
-    height: 200,
-  },
-  creditCard: {
-    position: "absolute",
-    width: "100%",
-    height: "100%",
-    borderRadius: 16,
-    overflow: "hidden",
-    shadowColor: "#000",
-    shadowOffset: { width: 0, height: 6 },
-    shadowOpacity: 0.3,
-    shadowRadius: 12,
-    backfaceVisibility: "hidden",
-  },
-  cardFront: {
-    zIndex: 2,
-  },
-  cardBack: {
-    zIndex: 1,
-  },
-  cardGradient: {
-    flex: 1,
-    padding: 20,
-    justifyContent: "space-between",
-  },
-  cardPattern: {
-    position: "absolute",
-    top: 0,
-    left: 0,
-    right: 0,
-    bottom: 0,
-    opacity: 0.1,
-  },
-  patternCircle1: {
-    position: "absolute",
-    top: 16,
-    right: 16,
-    width: 120,
-    height: 120,
-    borderRadius: 60,
-    borderWidth: 1,
-    borderColor: "white",
-  },
-  patternCircle2: {
-    position: "absolute",
-    bottom: 16,
-    left: 16,
-    width: 80,
-    height: 80,
-    borderRadius: 40,
-    borderWidth: 1,
-    borderColor: "white",
-  },
-  cardHeader: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "center",
-    zIndex: 1,
-  },
-  cardBrand: {
-    fontSize: 16,
-    fontWeight: "bold",
-    color: "white",
-  },
-  chipIcon: {
-    width: 40,
-    height: 30,
-    justifyContent: "center",
-    alignItems: "center",
-  },
-  chip: {
-    width: 32,
-    height: 24,
-    borderRadius: 4,
-  },
-  cardNumber: {
-    fontSize: 20,
-    fontWeight: "600",
-    color: "white",
-    letterSpacing: 2,
-    fontFamily: "monospace",
-    zIndex: 1,
-  },
-  cardFooter: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    zIndex: 1,
-  },
-  cardLabel: {
-    fontSize: 10,
-    color: "rgba(255, 255, 255, 0.7)",
-    marginBottom: 2,
-  },
-  cardValue: {
-    fontSize: 14,
-    fontWeight: "600",
-    color: "white",
-  },
-  magneticStripe: {
-    height: 40,
-    backgroundColor: "#000",
-    marginTop: 20,
-  },
-  cvvContainer: {
-    marginTop: 20,
-    alignItems: "flex-end",
-  },
-  cvvLabel: {
-    fontSize: 10,
-    color: "rgba(255, 255, 255, 0.7)",
-    marginBottom: 4,
-  },
-  cvvBox: {
-    width: 60,
-    height: 30,
-    backgroundColor: "white",
-    borderRadius: 4,
-    justifyContent: "center",
-    alignItems: "center",
-  },
-  cvvValue: {
-    fontSize: 14,
-    fontWeight: "bold",
-    color: "#333",
-  },
   form: {
     backgroundColor: "white",
     borderRadius: 20,
@@ -782,54 +340,38 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: "#d1fae5",
   },
-  inputGroup: {
-    marginBottom: 20,
-  },
-  inputLabel: {
-    fontSize: 14,
-    fontWeight: "600",
+  summaryTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
     color: "#374151",
-    marginBottom: 8,
+    marginBottom: 16,
   },
-  inputContainer: {
+  summaryRow: {
     flexDirection: "row",
     alignItems: "center",
-    borderWidth: 2,
-    borderColor: "#d1fae5",
-    borderRadius: 12,
-    backgroundColor: "#f9fafb",
-    minHeight: 50,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f3f4f6",
   },
-  inputContainerError: {
-    borderColor: "#ef4444",
+  summaryTotalRow: {
+    borderBottomWidth: 0,
+    marginBottom: 16,
   },
-  inputIcon: {
+  summaryLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: "#6b7280",
     marginLeft: 12,
-    marginRight: 8,
   },
-  input: {
-    flex: 1,
-    paddingHorizontal: 8,
-    paddingVertical: 12,
-    fontSize: 16,
+  summaryValue: {
+    fontSize: 14,
+    fontWeight: "600",
     color: "#374151",
   },
-  validIcon: {
-    marginRight: 12,
-  },
-  inputRow: {
-    flexDirection: "row",
-  },
-  errorText: {
-    fontSize: 12,
-    color: "#ef4444",
-    marginTop: 4,
-  },
-  cardTypeText: {
-    fontSize: 12,
+  summaryTotal: {
+    fontSize: 18,
+    fontWeight: "bold",
     color: "#047857",
-    marginTop: 4,
-    fontWeight: "500",
   },
   securityNotice: {
     flexDirection: "row",
@@ -0,0 +1,869 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  ActivityIndicator,
+  RefreshControl,
+  Modal,
+  Alert,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  BookOpen,
+  CalendarPlus,
+  Plus,
+  ShoppingCart,
+  Trash2,
+  Utensils,
+  X,
+} from "lucide-react-native";
+import { useRouter } from "expo-router";
+import { useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { useTheme } from "@/src/context/ThemeContext";
+import { api } from "@/src/services/api";
+import { useRecipes } from "@/hooks/useRecipes";
+import { MealTiming, UserRecipe } from "@/src/types";
+
+const MAX_SERVINGS = 20;
+const PLAN_TIMINGS: MealTiming[] = ["BREAKFAST", "LUNCH", "DINNER", "SNACK"];
+const DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+interface IngredientRow {
+  name: string;
+  quantity: string;
+  unit: string;
+}
+
+const emptyIngredient = (): IngredientRow => ({
+  name: "",
+  quantity: "",
+  unit: "g",
+});
+
+export default function RecipesScreen() {
+  const { colors } = useTheme();
+  const { t, i18n } = useTranslation();
+  const router = useRouter();
+  const isRTL = i18n.language === "he";
+
+  const {
+    recipes,
+    isLoading,
+    refetch,
+    createRecipe,
+    deleteRecipe,
+    logRecipe,
+    addToPlan,
+    addToShoppingList,
+    isCreating,
+  } = useRecipes();
+
+  // Recipes are scheduled in the active meal plan
+  const { data: activePlanId } = useQuery<string | null>({
+    queryKey: ["currentMealPlanId"],
+    queryFn: async () => {
+      const response = await api.get("/meal-plans/current");
+      return response.data.hasActivePlan ? response.data.planId : null;
+    },
+  });
+
+  const [refreshing, setRefreshing] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState("");
+  const [servings, setServings] = useState(1);
+  const [ingredients, setIngredients] = useState<IngredientRow[]>([
+    emptyIngredient(),
+  ]);
+  const [steps, setSteps] = useState("");
+  const [planRecipe, setPlanRecipe] = useState<UserRecipe | null>(null);
+  const [planDay, setPlanDay] = useState(new Date().getDay());
+  const [planTiming, setPlanTiming] = useState<MealTiming>("DINNER");
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await refetch();
+    setRefreshing(false);
+  };
+
+  const resetForm = () => {
+    setName("");
+    setServings(1);
+    setIngredients([emptyIngredient()]);
+    setSteps("");
+  };
+
+  const updateIngredient = (index: number, changes: Partial<IngredientRow>) =>
+    setIngredients((rows) =>
+      rows.map((row, i) => (i === index ? { ...row, ...changes } : row))
+    );
+
+  const handleSave = () => {
+    const validIngredients = ingredients
+      .map((row) => ({
+        name: row.name.trim(),
+        quantity: parseFloat(row.quantity),
+        unit: row.unit.trim() || "g",
+      }))
+      .filter((row) => row.name && row.quantity > 0);
+    if (!name.trim() || validIngredients.length === 0) {
+      Alert.alert(t("recipes.title"), t("recipes.form_incomplete"));
+      return;
+    }
+
+    createRecipe(
+      {
+        name: name.trim(),
+        servings,
+        ingredients: validIngredients,
+        steps: steps
+          .split("\n")
+          .map((step) => step.trim())
+          .filter(Boolean),
+      },
+      {
+        onSuccess: (recipe) => {
+          setShowForm(false);
+          resetForm();
+          if (recipe.unmatched_ingredients.length > 0) {
+            Alert.alert(
+              t("recipes.title"),
+              t("recipes.unmatched", {
+                names: recipe.unmatched_ingredients.join(", "),
+              })
+            );
+          }
+        },
+      }
+    );
+  };
+
+  const handleLog = (recipe: UserRecipe) =>
+    logRecipe(
+      { recipeId: recipe.user_recipe_id },
+      {
+        onSuccess: () =>
+          Alert.alert(
+            t("recipes.title"),
+            t("recipes.logged", { name: recipe.name })
+          ),
+      }
+    );
+
+  const handleShoppingList = (recipe: UserRecipe) =>
+    addToShoppingList(recipe.user_recipe_id, {
+      onSuccess: (result) =>
+        Alert.alert(
+          t("recipes.title"),
+          t("recipes.added_to_list", { count: result.added + result.updated })
+        ),
+    });
+
+  const handleOpenPlan = (recipe: UserRecipe) => {
+    if (!activePlanId) {
+      Alert.alert(t("recipes.title"), t("recipes.no_active_plan"));
+      return;
+    }
+    setPlanTiming(
+      recipe.meal_timing && PLAN_TIMINGS.includes(recipe.meal_timing)
+        ? recipe.meal_timing
+        : "DINNER"
+    );
+    setPlanRecipe(recipe);
+  };
+
+  const handleAddToPlan = () => {
+    if (!planRecipe || !activePlanId) return;
+
+    addToPlan(
+      {
+        recipeId: planRecipe.user_recipe_id,
+        plan_id: activePlanId,
+        day_of_week: planDay,
+        meal_timing: planTiming,
+      },
+      {
+        onSuccess: () => {
+          Alert.alert(
+            t("recipes.title"),
+            t("recipes.added_to_plan", { name: planRecipe.name })
+          );
+          setPlanRecipe(null);
+        },
+      }
+    );
+  };
+
+  const handleDelete = (recipe: UserRecipe) =>
+    Alert.alert(
+      t("recipes.delete_title"),
+      t("recipes.delete_message", { name: recipe.name }),
+      [
+        { text: t("common.cancel"), style: "cancel" },
+        {
+          text: t("common.delete"),
+          style: "destructive",
+          onPress: () => deleteRecipe(recipe.user_recipe_id),
+        },
+      ]
+    );
+
+  const dayName = (day: number) =>
+    // 7 January 2024 was a Sunday
+    new Date(2024, 0, 7 + day).toLocaleDateString(i18n.language, {
+      weekday: "short",
+    });
+
+  const renderRecipe = (recipe: UserRecipe) => (
+    <View
+      key={recipe.user_recipe_id}
+      style={[
+        styles.recipe,
+        { backgroundColor: colors.surface, borderColor: colors.border },
+      ]}
+    >
+      <View style={[styles.recipeHeader, isRTL && styles.rowRTL]}>
+        <Text
+          style={[
+            styles.recipeName,
+            { color: colors.text },
+            isRTL && styles.textRTL,
+          ]}
+        >
+          {recipe.name}
+        </Text>
+        <Text style={[styles.recipeServings, { color: colors.icon }]}>
+          {t("recipe.servings", { count: recipe.servings })}
+        </Text>
+      </View>
+
+      <Text
+        style={[
+          styles.recipeMacros,
+          { color: colors.text },
+          isRTL && styles.textRTL,
+        ]}
+      >
+        {t("recipes.per_serving", {
+          calories: Math.round(recipe.calories),
+          protein: Math.round(recipe.protein_g),
+          carbs: Math.round(recipe.carbs_g),
+          fat: Math.round(recipe.fats_g),
+        })}
+      </Text>
+
+      {recipe.unmatched_ingredients.length > 0 && (
+        <View style={[styles.warning, isRTL && styles.rowRTL]}>
+          <AlertTriangle size={14} color="#f59e0b" />
+          <Text style={styles.warningText}>
+            {t("recipes.unmatched", {
+              names: recipe.unmatched_ingredients.join(", "),
+            })}
+          </Text>
+        </View>
+      )}
+
+      <View
+        style={[
+          styles.actions,
+          { borderTopColor: colors.border },
+          isRTL && styles.rowRTL,
+        ]}
+      >
+        <TouchableOpacity
+          style={styles.action}
+          onPress={() => handleLog(recipe)}
+        >
+          <Utensils size={18} color={colors.emerald500} />
+          <Text style={[styles.actionText, { color: colors.text }]}>
+            {t("recipes.log")}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.action}
+          onPress={() => handleOpenPlan(recipe)}
+        >
+          <CalendarPlus size={18} color={colors.emerald500} />
+          <Text style={[styles.actionText, { color: colors.text }]}>
+            {t("recipes.plan")}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.action}
+          onPress={() => handleShoppingList(recipe)}
+        >
+          <ShoppingCart size={18} color={colors.emerald500} />
+          <Text style={[styles.actionText, { color: colors.text }]}>
+            {t("recipes.shop")}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.iconButton}
+          onPress={() => handleDelete(recipe)}
+        >
+          <Trash2 size={18} color="#ef4444" />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: colors.background }]}
+    >
+      {/* Header */}
+      <View
+        style={[
+          styles.header,
+          { borderBottomColor: colors.border },
+          isRTL && styles.rowRTL,
+        ]}
+      >
+        <TouchableOpacity
+          style={[styles.backButton, { backgroundColor: colors.card }]}
+          onPress={() => router.back()}
+        >
+          <ArrowLeft size={20} color={colors.emerald500} />
+        </TouchableOpacity>
+        <BookOpen size={24} color={colors.emerald500} />
+        <Text style={[styles.headerTitle, { color: colors.text }]}>
+          {t("recipes.title")}
+        </Text>
+        <TouchableOpacity
+          style={[styles.addButton, { backgroundColor: colors.emerald500 }]}
+          onPress={() => setShowForm(true)}
+          activeOpacity={0.7}
+        >
+          <Plus size={20} color="#ffffff" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
+        }
+      >
+        {isLoading ? (
+          <ActivityIndicator
+            size="large"
+            color={colors.emerald500}
+            style={styles.loading}
+          />
+        ) : recipes.length === 0 ? (
+          <View style={styles.emptyState}>
+            <BookOpen size={48} color={colors.icon} />
+            <Text style={[styles.emptyTitle, { color: colors.text }]}>
+              {t("recipes.empty_title")}
+            </Text>
+            <Text style={[styles.emptyText, { color: colors.icon }]}>
+              {t("recipes.empty_text")}
+            </Text>
+          </View>
+        ) : (
+          recipes.map(renderRecipe)
+        )}
+      </ScrollView>
+
+      {/* New recipe */}
+      <Modal
+        visible={showForm}
+        animationType="slide"
+        onRequestClose={() => setShowForm(false)}
+      >
+        <SafeAreaView
+          style={[styles.container, { backgroundColor: colors.background }]}
+        >
+          <View
+            style={[
+              styles.header,
+              { borderBottomColor: colors.border },
+              isRTL && styles.rowRTL,
+            ]}
+          >
+            <Text style={[styles.headerTitle, { color: colors.text }]}>
+              {t("recipes.new_recipe")}
+            </Text>
+            <TouchableOpacity
+              style={styles.iconButton}
+              onPress={() => setShowForm(false)}
+            >
+              <X size={22} color={colors.icon} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView
+            style={styles.content}
+            contentContainerStyle={styles.form}
+            keyboardShouldPersistTaps="handled"
+          >
+            <TextInput
+              style={[
+                styles.input,
+                { color: colors.text, borderColor: colors.border },
+                isRTL && styles.textRTL,
+              ]}
+              placeholder={t("recipes.name")}
+              placeholderTextColor={colors.icon}
+              value={name}
+              onChangeText={setName}
+            />
+
+            <View style={[styles.servingsRow, isRTL && styles.rowRTL]}>
+              <Text style={[styles.label, { color: colors.text }]}>
+                {t("recipe.servings", { count: servings })}
+              </Text>
+              <TouchableOpacity
+                style={[styles.stepperButton, { borderColor: colors.border }]}
+                disabled={servings <= 1}
+                onPress={() => setServings(servings - 1)}
+              >
+                <Text style={[styles.stepperText, { color: colors.text }]}>
+                  −
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.stepperButton, { borderColor: colors.border }]}
+                disabled={servings >= MAX_SERVINGS}
+                onPress={() => setServings(servings + 1)}
+              >
+                <Text style={[styles.stepperText, { color: colors.text }]}>
+                  +
+                </Text>
+              </TouchableOpacity>
+            </View>
+
+            <Text
+              style={[
+                styles.label,
+                { color: colors.text },
+                isRTL && styles.textRTL,
+              ]}
+            >
+              {t("recipes.ingredients")}
+            </Text>
+            {ingredients.map((row, index) => (
+              <View
+                key={index}
+                style={[styles.ingredientRow, isRTL && styles.rowRTL]}
+              >
+                <TextInput
+                  style={[
+                    styles.input,
+                    styles.ingredientName,
+                    { color: colors.text, borderColor: colors.border },
+                    isRTL && styles.textRTL,
+                  ]}
+                  placeholder={t("recipes.ingredient_name")}
+                  placeholderTextColor={colors.icon}
+                  value={row.name}
+                  onChangeText={(value) =>
+                    updateIngredient(index, { name: value })
+                  }
+                />
+                <TextInput
+                  style={[
+                    styles.input,
+                    styles.ingredientQuantity,
+                    { color: colors.text, borderColor: colors.border },
+                  ]}
+                  placeholder="0"
+                  placeholderTextColor={colors.icon}
+                  keyboardType="numeric"
+                  value={row.quantity}
+                  onChangeText={(value) =>
+                    updateIngredient(index, { quantity: value })
+                  }
+                />
+                <TextInput
+                  style={[
+                    styles.input,
+                    styles.ingredientUnit,
+                    { color: colors.text, borderColor: colors.border },
+                  ]}
+                  autoCapitalize="none"
+                  value={row.unit}
+                  onChangeText={(value) =>
+                    updateIngredient(index, { unit: value })
+                  }
+                />
+                <TouchableOpacity
+                  style={styles.iconButton}
+                  disabled={ingredients.length === 1}
+                  onPress={() =>
+                    setIngredients((rows) => rows.filter((_, i) => i !== index))
+                  }
+                >
+                  <X size={18} color={colors.icon} />
+                </TouchableOpacity>
+              </View>
+            ))}
+            <TouchableOpacity
+              style={[
+                styles.addIngredient,
+                { borderColor: colors.border },
+                isRTL && styles.rowRTL,
+              ]}
+              onPress={() =>
+                setIngredients((rows) => [...rows, emptyIngredient()])
+              }
+            >
+              <Plus size={16} color={colors.emerald500} />
+              <Text style={{ color: colors.emerald500 }}>
+                {t("recipes.add_ingredient")}
+              </Text>
+            </TouchableOpacity>
+
+            <Text
+              style={[
+                styles.label,
+                { color: colors.text },
+                isRTL && styles.textRTL,
+              ]}
+            >
+              {t("recipe.steps")}
+            </Text>
+            <TextInput
+              style={[
+                styles.input,
+                styles.stepsInput,
+                { color: colors.text, borderColor: colors.border },
+                isRTL && styles.textRTL,
+              ]}
+              placeholder={t("recipes.steps_placeholder")}
+              placeholderTextColor={colors.icon}
+              multiline
+              value={steps}
+              onChangeText={setSteps}
+            />
+
+            <TouchableOpacity
+              style={[
+                styles.saveButton,
+                { backgroundColor: colors.emerald500 },
+              ]}
+              disabled={isCreating}
+              onPress={handleSave}
+            >
+              {isCreating ? (
+                <ActivityIndicator size="small" color="#ffffff" />
+              ) : (
+                <Text style={styles.saveButtonText}>{t("recipes.save")}</Text>
+              )}
+            </TouchableOpacity>
+          </ScrollView>
+        </SafeAreaView>
+      </Modal>
+
+      {/* Add to meal plan */}
+      <Modal
+        visible={!!planRecipe}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setPlanRecipe(null)}
+      >
+        <View style={styles.overlay}>
+          <View style={[styles.sheet, { backgroundColor: colors.background }]}>
+            <Text style={[styles.sheetTitle, { color: colors.text }]}>
+              {t("recipes.add_to_plan_title", { name: planRecipe?.name })}
+            </Text>
+
+            <View style={[styles.chips, isRTL && styles.rowRTL]}>
+              {DAYS.map((day) => (
+                <TouchableOpacity
+                  key={day}
+                  style={[
+                    styles.chip,
+                    { borderColor: colors.border },
+                    planDay === day && {
+                      backgroundColor: colors.emerald500,
+                      borderColor: colors.emerald500,
+                    },
+                  ]}
+                  onPress={() => setPlanDay(day)}
+                >
+                  <Text
+                    style={{
+                      color: planDay === day ? "#ffffff" : colors.text,
+                    }}
+                  >
+                    {dayName(day)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <View style={[styles.chips, isRTL && styles.rowRTL]}>
+              {PLAN_TIMINGS.map((timing) => (
+                <TouchableOpacity
+                  key={timing}
+                  style={[
+                    styles.chip,
+                    { borderColor: colors.border },
+                    planTiming === timing && {
+                      backgroundColor: colors.emerald500,
+                      borderColor: colors.emerald500,
+                    },
+                  ]}
+                  onPress={() => setPlanTiming(timing)}
+                >
+                  <Text
+                    style={{
+                      color: planTiming === timing ? "#ffffff" : colors.text,
+                    }}
+                  >
+                    {t(`history.mealPeriods.${timing.toLowerCase()}`)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <View style={[styles.sheetButtons, isRTL && styles.rowRTL]}>
+              <TouchableOpacity
+                style={[styles.sheetButton, { borderColor: colors.border }]}
+                onPress={() => setPlanRecipe(null)}
+              >
+                <Text style={{ color: colors.text }}>{t("common.cancel")}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.sheetButton,
+                  {
+                    backgroundColor: colors.emerald500,
+                    borderColor: colors.emerald500,
+                  },
+                ]}
+                onPress={handleAddToPlan}
+              >
+                <Text style={styles.saveButtonText}>{t("recipes.add")}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    padding: 20,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    padding: 8,
+    borderRadius: 12,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: "700",
+  },
+  addButton: {
+    padding: 10,
+    borderRadius: 12,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  loading: {
+    paddingVertical: 40,
+  },
+  recipe: {
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 12,
+    gap: 8,
+  },
+  recipeHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  recipeName: {
+    flex: 1,
+    fontSize: 17,
+    fontWeight: "700",
+  },
+  recipeServings: {
+    fontSize: 13,
+  },
+  recipeMacros: {
+    fontSize: 14,
+  },
+  warning: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 12,
+    color: "#f59e0b",
+  },
+  actions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 16,
+    paddingTop: 10,
+    borderTopWidth: 1,
+  },
+  action: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  iconButton: {
+    padding: 4,
+    marginStart: "auto",
+  },
+  emptyState: {
+    alignItems: "center",
+    paddingVertical: 60,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: "center",
+    paddingHorizontal: 20,
+  },
+  form: {
+    gap: 12,
+    paddingBottom: 40,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  servingsRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  stepperButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  stepperText: {
+    fontSize: 20,
+    fontWeight: "600",
+  },
+  ingredientRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  ingredientName: {
+    flex: 1,
+  },
+  ingredientQuantity: {
+    width: 64,
+    textAlign: "center",
+  },
+  ingredientUnit: {
+    width: 64,
+  },
+  addIngredient: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    padding: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderStyle: "dashed",
+  },
+  stepsInput: {
+    minHeight: 120,
+    textAlignVertical: "top",
+  },
+  saveButton: {
+    alignItems: "center",
+    padding: 16,
+    borderRadius: 16,
+    marginTop: 8,
+  },
+  saveButtonText: {
+    color: "#ffffff",
+    fontSize: 16,
+    fontWeight: "700",
+  },
+  overlay: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+  },
+  sheet: {
+    padding: 24,
+    paddingBottom: 40,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    gap: 16,
+  },
+  sheetTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  sheetButtons: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  sheetButton: {
+    flex: 1,
+    alignItems: "center",
+    padding: 14,
+    borderRadius: 14,
+    borderWidth: 1,
+  },
+  rowRTL: {
+    flexDirection: "row-reverse",
+  },
+  textRTL: {
+    textAlign: "right",
+  },
+});
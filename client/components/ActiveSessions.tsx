@@ -0,0 +1,199 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { useTranslation } from "react-i18next";
+import { useDispatch } from "react-redux";
+import { Ionicons } from "@expo/vector-icons";
+import { useLanguage } from "@/src/i18n/context/LanguageContext";
+import { AppDispatch } from "@/src/store";
+import { signOutEverywhere } from "@/src/store/authSlice";
+import { authAPI } from "@/src/services/api";
+import { AuthSession } from "@/src/types";
+
+const PLATFORM_ICONS: Record<string, keyof typeof Ionicons.glyphMap> = {
+  ios: "phone-portrait-outline",
+  android: "phone-portrait-outline",
+  web: "desktop-outline",
+};
+
+export default function ActiveSessions() {
+  const { t } = useTranslation();
+  const { isRTL } = useLanguage();
+  const dispatch = useDispatch<AppDispatch>();
+  const [sessions, setSessions] = useState<AuthSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setSessions(await authAPI.getSessions());
+    } catch (error) {
+      console.error("Failed to load sessions:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleRevoke = (session: AuthSession) => {
+    Alert.alert(
+      t("profile.sessions.revoke_title"),
+      t("profile.sessions.revoke_message", {
+        device: session.device_name || t("profile.sessions.unknown_device"),
+      }),
+      [
+        { text: t("common.cancel"), style: "cancel" },
+        {
+          text: t("profile.sessions.revoke"),
+          style: "destructive",
+          onPress: async () => {
+            try {
+              setRevokingId(session.session_id);
+              await authAPI.revokeSession(session.session_id);
+              setSessions((current) =>
+                current.filter((s) => s.session_id !== session.session_id)
+              );
+            } catch (error: any) {
+              Alert.alert(t("common.error"), error.message);
+            } finally {
+              setRevokingId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleSignOutEverywhere = () => {
+    Alert.alert(
+      t("profile.sessions.sign_out_everywhere"),
+      t("profile.sessions.sign_out_everywhere_message"),
+      [
+        { text: t("common.cancel"), style: "cancel" },
+        {
+          text: t("profile.sessions.sign_out_everywhere"),
+          style: "destructive",
+          onPress: () => dispatch(signOutEverywhere()),
+        },
+      ]
+    );
+  };
+
+  if (isLoading) {
+    return <ActivityIndicator color="#16A085" style={styles.loader} />;
+  }
+
+  return (
+    <View>
+      {sessions.map((session) => (
+        <View
+          key={session.session_id}
+          style={[styles.sessionRow, isRTL && styles.sessionRowRTL]}
+        >
+          <Ionicons
+            name={
+              PLATFORM_ICONS[session.platform || ""] || "hardware-chip-outline"
+            }
+            size={22}
+            color="#2C3E50"
+          />
+          <View style={styles.sessionInfo}>
+            <Text style={[styles.deviceName, isRTL && styles.textRTL]}>
+              {session.device_name || t("profile.sessions.unknown_device")}
+            </Text>
+            <Text style={[styles.sessionMeta, isRTL && styles.textRTL]}>
+              {session.current
+                ? t("profile.sessions.this_device")
+                : t("profile.sessions.last_active", {
+                    date: new Date(session.last_seen_at).toLocaleString(),
+                  })}
+            </Text>
+          </View>
+          {!session.current &&
+            (revokingId === session.session_id ? (
+              <ActivityIndicator color="#E74C3C" />
+            ) : (
+              <TouchableOpacity onPress={() => handleRevoke(session)}>
+                <Text style={styles.revokeText}>
+                  {t("profile.sessions.revoke")}
+                </Text>
+              </TouchableOpacity>
+            ))}
+        </View>
+      ))}
+
+      <TouchableOpacity
+        style={styles.signOutEverywhereButton}
+        onPress={handleSignOutEverywhere}
+      >
+        <Ionicons name="log-out-outline" size={18} color="#FFFFFF" />
+        <Text style={styles.signOutEverywhereText}>
+          {t("profile.sessions.sign_out_everywhere")}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  loader: {
+    paddingVertical: 20,
+  },
+  sessionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F1F3F4",
+  },
+  sessionRowRTL: {
+    flexDirection: "row-reverse",
+  },
+  sessionInfo: {
+    flex: 1,
+  },
+  deviceName: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#2C3E50",
+  },
+  sessionMeta: {
+    fontSize: 13,
+    color: "#7F8C8D",
+    marginTop: 2,
+  },
+  textRTL: {
+    textAlign: "right",
+  },
+  revokeText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#E74C3C",
+  },
+  signOutEverywhereButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    marginTop: 16,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: "#E74C3C",
+  },
+  signOutEverywhereText: {
+    color: "#FFFFFF",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+});
@@ -29,7 +29,7 @@ import {
 import { useTheme } from "@/src/context/ThemeContext";
 import { useLanguage } from "@/src/i18n/context/LanguageContext";
 import { useTranslation } from "react-i18next";
-import { chatAPI } from "@/src/services/api";
+import { chatAPI, ChatStream } from "@/src/services/api";
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get("window");
 
@@ -69,6 +69,8 @@ export default function ChatInterface({ children }: ChatInterfaceProps) {
   ]);
   const [inputText, setInputText] = useState("");
   const [isTyping, setIsTyping] = useState(false);
+  const streamRef = useRef<ChatStream | null>(null);
+  const conversationIdRef = useRef<string | undefined>(undefined);
 
   const translateX = useRef(new Animated.Value(screenWidth)).current;
   const swipeProgress = useRef(new Animated.Value(0)).current;
@@ -156,6 +158,7 @@ export default function ChatInterface({ children }: ChatInterfaceProps) {
   };
 
   const closeChat = () => {
+    streamRef.current?.cancel();
     Animated.spring(translateX, {
       toValue: isRTL ? -screenWidth : screenWidth,
       useNativeDriver: true,
@@ -184,43 +187,64 @@ export default function ChatInterface({ children }: ChatInterfaceProps) {
       scrollViewRef.current?.scrollToEnd({ animated: true });
     }, 100);
 
-    // Send message to AI chat API
+    const botMessageId = (Date.now() + 1).toString();
+    setMessages((prev) => [
+      ...prev,
+      { id: botMessageId, text: "", isUser: false, timestamp: new Date() },
+    ]);
+
+    const updateBotMessage = (update: Partial<Message>) =>
+      setMessages((prev) =>
+        prev.map((message) =>
+          message.id === botMessageId ? { ...message, ...update } : message
+        )
+      );
+
+    // Stream the reply so text appears as it is generated
     try {
-      const response = await chatAPI.sendMessage(
+      let streamedText = "";
+      const stream = chatAPI.streamMessage(
         text.trim(),
-        isRTL ? "hebrew" : "english"
+        isRTL ? "hebrew" : "english",
+        (delta) => {
+          streamedText += delta;
+          updateBotMessage({ text: streamedText });
+          scrollViewRef.current?.scrollToEnd({ animated: false });
+        },
+        {
+          conversationId: conversationIdRef.current,
+          onStart: (conversation) => {
+            conversationIdRef.current = conversation.conversation_id;
+          },
+        }
       );
+      streamRef.current = stream;
 
-      if (response.success && response.response) {
-        const botMessage: Message = {
-          id: (Date.now() + 1).toString(),
-          text: response.response.response || response.response,
-          isUser: false,
-          timestamp: new Date(),
-          suggestions: isRTL
-            ? ["איך מכינים קינואה?", "אפשרויות חלבון", "עוד רעיונות לסלטים"]
-            : ["How to prepare quinoa?", "Protein options", "More salad ideas"],
-        };
-
-        setMessages((prev) => [...prev, botMessage]);
-      } else {
-        throw new Error("Invalid response from AI");
+      const result = await stream.done;
+      if (!result) {
+        if (!streamedText) {
+          setMessages((prev) => prev.filter((m) => m.id !== botMessageId));
+        }
+        return;
       }
+
+      updateBotMessage({
+        text: result.response || streamedText,
+        suggestions: isRTL
+          ? ["איך מכינים קינואה?", "אפשרויות חלבון", "עוד רעיונות לסלטים"]
+          : ["How to prepare quinoa?", "Protein options", "More salad ideas"],
+      });
     } catch (error) {
       console.error("💥 Chat API error:", error);
 
       // Fallback response
-      const botMessage: Message = {
-        id: (Date.now() + 1).toString(),
+      updateBotMessage({
         text: isRTL
           ? "מצטער, אירעה שגיאה. אנא נסה שוב."
           : "Sorry, there was an error. Please try again.",
-        isUser: false,
-        timestamp: new Date(),
-      };
-
-      setMessages((prev) => [...prev, botMessage]);
+      });
     } finally {
+      streamRef.current = null;
       setIsTyping(false);
       setTimeout(() => {
         scrollViewRef.current?.scrollToEnd({ animated: true });
@@ -395,98 +419,100 @@ export default function ChatInterface({ children }: ChatInterfaceProps) {
                 showsVerticalScrollIndicator={false}
                 contentContainerStyle={dynamicStyles.messagesContent}
               >
-                {messages.map((message) => (
-                  <View key={message.id} style={dynamicStyles.messageWrapper}>
-                    <View
-                      style={[
-                        dynamicStyles.messageBubble,
-                        message.isUser
-                          ? dynamicStyles.userMessage
-                          : dynamicStyles.botMessage,
-                        isRTL &&
-                          (message.isUser
-                            ? dynamicStyles.userMessageRTL
-                            : dynamicStyles.botMessageRTL),
-                      ]}
-                    >
-                      {!message.isUser && (
-                        <View style={dynamicStyles.botIconContainer}>
-                          <Sparkles
-                            size={16}
-                            color={colors.emerald600}
-                            strokeWidth={2}
-                          />
-                        </View>
-                      )}
-                      <Text
-                        style={[
-                          dynamicStyles.messageText,
-                          message.isUser
-                            ? dynamicStyles.userMessageText
-                            : dynamicStyles.botMessageText,
-                          { color: message.isUser ? "#FFFFFF" : colors.text },
-                          isRTL && dynamicStyles.rtlText,
-                        ]}
-                      >
-                        {message.text}
-                      </Text>
-                      <Text
+                {messages
+                  .filter((message) => message.isUser || message.text)
+                  .map((message) => (
+                    <View key={message.id} style={dynamicStyles.messageWrapper}>
+                      <View
                         style={[
-                          dynamicStyles.messageTime,
+                          dynamicStyles.messageBubble,
                           message.isUser
-                            ? dynamicStyles.userMessageTime
-                            : dynamicStyles.botMessageTime,
-                          isRTL && dynamicStyles.rtlText,
+                            ? dynamicStyles.userMessage
+                            : dynamicStyles.botMessage,
+                          isRTL &&
+                            (message.isUser
+                              ? dynamicStyles.userMessageRTL
+                              : dynamicStyles.botMessageRTL),
                         ]}
                       >
-                        {message.timestamp.toLocaleTimeString(
-                          isRTL ? "he-IL" : "en-US",
-                          {
-                            hour: "2-digit",
-                            minute: "2-digit",
-                          }
+                        {!message.isUser && (
+                          <View style={dynamicStyles.botIconContainer}>
+                            <Sparkles
+                              size={16}
+                              color={colors.emerald600}
+                              strokeWidth={2}
+                            />
+                          </View>
                         )}
-                      </Text>
-                    </View>
+                        <Text
+                          style={[
+                            dynamicStyles.messageText,
+                            message.isUser
+                              ? dynamicStyles.userMessageText
+                              : dynamicStyles.botMessageText,
+                            { color: message.isUser ? "#FFFFFF" : colors.text },
+                            isRTL && dynamicStyles.rtlText,
+                          ]}
+                        >
+                          {message.text}
+                        </Text>
+                        <Text
+                          style={[
+                            dynamicStyles.messageTime,
+                            message.isUser
+                              ? dynamicStyles.userMessageTime
+                              : dynamicStyles.botMessageTime,
+                            isRTL && dynamicStyles.rtlText,
+                          ]}
+                        >
+                          {message.timestamp.toLocaleTimeString(
+                            isRTL ? "he-IL" : "en-US",
+                            {
+                              hour: "2-digit",
+                              minute: "2-digit",
+                            }
+                          )}
+                        </Text>
+                      </View>
 
-                    {/* Enhanced Suggestions */}
-                    {message.suggestions && (
-                      <View
-                        style={[
-                          dynamicStyles.suggestionsContainer,
-                          isRTL && dynamicStyles.suggestionsContainerRTL,
-                        ]}
-                      >
-                        {message.suggestions.map((suggestion, index) => (
-                          <TouchableOpacity
-                            key={index}
-                            style={dynamicStyles.suggestionButton}
-                            onPress={() => handleSuggestionPress(suggestion)}
-                            activeOpacity={0.8}
-                          >
-                            <LinearGradient
-                              colors={[colors.emerald50, colors.emerald500]}
-                              style={dynamicStyles.suggestionGradient}
+                      {/* Enhanced Suggestions */}
+                      {message.suggestions && (
+                        <View
+                          style={[
+                            dynamicStyles.suggestionsContainer,
+                            isRTL && dynamicStyles.suggestionsContainerRTL,
+                          ]}
+                        >
+                          {message.suggestions.map((suggestion, index) => (
+                            <TouchableOpacity
+                              key={index}
+                              style={dynamicStyles.suggestionButton}
+                              onPress={() => handleSuggestionPress(suggestion)}
+                              activeOpacity={0.8}
                             >
-                              <Text
-                                style={[
-                                  dynamicStyles.suggestionText,
-                                  { color: colors.emerald700 },
-                                  isRTL && dynamicStyles.rtlText,
-                                ]}
+                              <LinearGradient
+                                colors={[colors.emerald50, colors.emerald500]}
+                                style={dynamicStyles.suggestionGradient}
                               >
-                                {suggestion}
-                              </Text>
-                            </LinearGradient>
-                          </TouchableOpacity>
-                        ))}
-                      </View>
-                    )}
-                  </View>
-                ))}
+                                <Text
+                                  style={[
+                                    dynamicStyles.suggestionText,
+                                    { color: colors.emerald700 },
+                                    isRTL && dynamicStyles.rtlText,
+                                  ]}
+                                >
+                                  {suggestion}
+                                </Text>
+                              </LinearGradient>
+                            </TouchableOpacity>
+                          ))}
+                        </View>
+                      )}
+                    </View>
+                  ))}
 
                 {/* Enhanced typing indicator */}
-                {isTyping && (
+                {isTyping && !messages[messages.length - 1]?.text && (
                   <View
                     style={[
                       dynamicStyles.typingContainer,
@@ -19,22 +19,20 @@ import {
   X,
   Edit3,
   Save,
+  Users,
+  UserPlus,
+  UserMinus,
+  LogOut,
+  Package,
 } from "lucide-react-native";
+import { useRouter } from "expo-router";
+import { useSelector } from "react-redux";
+import { useTranslation } from "react-i18next";
 import { useTheme } from "@/src/context/ThemeContext";
-import { useLanguage } from "@/src/i18n/context/LanguageContext";
 import { api, nutritionAPI } from "@/src/services/api";
-import { useShoppingList } from "@/hooks/useShoppingList"; // Assuming this hook exists
-
-interface ShoppingListItem {
-  id: string;
-  name: string;
-  quantity: number;
-  unit: string;
-  category?: string;
-  is_purchased: boolean;
-  added_from?: string; // 'menu', 'scanner', 'manual'
-  estimated_cost?: number; // Added for price integration
-}
+import { RootState } from "@/src/store";
+import { ShoppingListItem, ShoppingListUser } from "@/src/types";
+import { useShoppingList, useShoppingLists } from "@/hooks/useShoppingList"; // Assuming this hook exists
 
 interface ShoppingListProps {
   visible: boolean;
@@ -53,7 +51,9 @@ export default function ShoppingList({
   initialItems = [],
 }: ShoppingListProps) {
   const { colors } = useTheme();
-  const { t } = useLanguage();
+  const { t } = useTranslation();
+  const { user } = useSelector((state: RootState) => state.auth);
+  const router = useRouter();
 
   // Ensure modal can be closed properly
   const handleModalClose = useCallback(() => {
@@ -61,6 +61,22 @@ export default function ShoppingList({
     onClose();
   }, [onClose]);
 
+  const {
+    lists,
+    createList,
+    deleteList,
+    addMember,
+    removeMember,
+    isCreating,
+    isAddingMember,
+  } = useShoppingLists();
+  const [selectedListId, setSelectedListId] = useState<string>();
+  const activeList =
+    lists.find((list) => list.list_id === selectedListId) ||
+    lists.find((list) => list.is_default);
+  const isShared =
+    !!activeList && (activeList.members.length > 0 || !activeList.is_owner);
+
   const {
     shoppingList,
     isLoading,
@@ -69,13 +85,14 @@ export default function ShoppingList({
     updateItem,
     deleteItem,
     togglePurchased,
+    clearPurchased,
     forceRefresh,
     isAddingItem,
     isBulkAdding,
     isUpdating,
     isDeleting,
     isToggling,
-  } = useShoppingList();
+  } = useShoppingList(activeList?.list_id, { pollChanges: visible });
 
   const [showAddModal, setShowAddModal] = useState(false);
   const [editingItem, setEditingItem] = useState<ShoppingListItem | null>(null);
@@ -87,6 +104,10 @@ export default function ShoppingList({
     estimated_cost: 0, // Initialize estimated_cost
   });
   const [refreshing, setRefreshing] = useState(false);
+  const [showNewList, setShowNewList] = useState(false);
+  const [newListName, setNewListName] = useState("");
+  const [showMembers, setShowMembers] = useState(false);
+  const [memberEmail, setMemberEmail] = useState("");
 
   // Add initial items when component mounts (for meal ingredients)
   useEffect(() => {
@@ -158,6 +179,112 @@ export default function ShoppingList({
     setEditingItem(null);
   };
 
+  const displayName = (person: ShoppingListUser) =>
+    person.user_id === user?.user_id
+      ? t("shoppingList.lists.you")
+      : person.name || t("shoppingList.lists.someone");
+
+  const handleCreateList = async () => {
+    if (!newListName.trim()) return;
+    try {
+      const list = await createList(newListName.trim());
+      setSelectedListId(list.list_id);
+      setNewListName("");
+      setShowNewList(false);
+    } catch (error: any) {
+      Alert.alert(
+        t("common.error"),
+        error?.message || t("shoppingList.lists.action_failed")
+      );
+    }
+  };
+
+  const handleAddMember = async () => {
+    if (!activeList || !memberEmail.trim()) return;
+    try {
+      await addMember({
+        listId: activeList.list_id,
+        email: memberEmail.trim(),
+      });
+      setMemberEmail("");
+    } catch (error: any) {
+      Alert.alert(
+        t("common.error"),
+        error?.message || t("shoppingList.lists.action_failed")
+      );
+    }
+  };
+
+  const handleRemoveMember = (member: ShoppingListUser) => {
+    if (!activeList) return;
+    const leaving = member.user_id === user?.user_id;
+
+    Alert.alert(
+      leaving
+        ? t("shoppingList.lists.leave")
+        : t("shoppingList.lists.remove_member"),
+      leaving
+        ? t("shoppingList.lists.leave_confirm", { name: activeList.name })
+        : t("shoppingList.lists.remove_member_confirm", {
+            name: displayName(member),
+          }),
+      [
+        { text: t("common.cancel"), style: "cancel" },
+        {
+          text: leaving
+            ? t("shoppingList.lists.leave")
+            : t("shoppingList.lists.remove_member"),
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await removeMember({
+                listId: activeList.list_id,
+                userId: member.user_id,
+              });
+              if (leaving) {
+                setSelectedListId(undefined);
+                setShowMembers(false);
+              }
+            } catch (error: any) {
+              Alert.alert(
+                t("common.error"),
+                error?.message || t("shoppingList.lists.action_failed")
+              );
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleDeleteList = () => {
+    if (!activeList) return;
+
+    Alert.alert(
+      t("shoppingList.lists.delete"),
+      t("shoppingList.lists.delete_confirm", { name: activeList.name }),
+      [
+        { text: t("common.cancel"), style: "cancel" },
+        {
+          text: t("common.delete"),
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deleteList(activeList.list_id);
+              setSelectedListId(undefined);
+              setShowMembers(false);
+            } catch (error: any) {
+              Alert.alert(
+                t("common.error"),
+                error?.message || t("shoppingList.lists.action_failed")
+              );
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const handleTogglePurchased = (id: string) => {
     togglePurchased(id);
   };
@@ -285,6 +412,23 @@ export default function ShoppingList({
                 item.estimated_cost > 0 &&
                 ` • $${item.estimated_cost.toFixed(2)}`}
             </Text>
+            {isShared && (item.added_by || item.purchased_by) && (
+              <Text style={[styles.attribution, { color: colors.icon }]}>
+                {[
+                  item.added_by &&
+                    t("shoppingList.lists.added_by", {
+                      name: displayName(item.added_by),
+                    }),
+                  item.is_purchased &&
+                    item.purchased_by &&
+                    t("shoppingList.lists.bought_by", {
+                      name: displayName(item.purchased_by),
+                    }),
+                ]
+                  .filter(Boolean)
+                  .join(" • ")}
+              </Text>
+            )}
           </View>
         )}
       </View>
@@ -336,12 +480,7 @@ export default function ShoppingList({
         { text: "Cancel", style: "cancel" },
         {
           text: "Clear",
-          onPress: async () => {
-            const purchasedIds = shoppingList
-              .filter((item: { is_purchased: any }) => item.is_purchased)
-              .map((item: { id: any }) => item.id);
-            purchasedIds.forEach((id: any) => deleteItem(id));
-          },
+          onPress: () => clearPurchased(),
         },
       ]
     );
@@ -362,8 +501,11 @@ export default function ShoppingList({
           <View style={[styles.header, { borderBottomColor: colors.border }]}>
             <View style={styles.headerLeft}>
               <ShoppingCart size={24} color={colors.emerald500} />
-              <Text style={[styles.headerTitle, { color: colors.text }]}>
-                Shopping List (
+              <Text
+                style={[styles.headerTitle, { color: colors.text }]}
+                numberOfLines={1}
+              >
+                {activeList?.name || "Shopping List"} (
                 {
                   shoppingList.filter(
                     (item: { is_purchased: any }) => !item.is_purchased
@@ -372,6 +514,29 @@ export default function ShoppingList({
                 items)
               </Text>
             </View>
+            <TouchableOpacity
+              onPress={() => {
+                handleModalClose();
+                router.push("/pantry");
+              }}
+              style={styles.closeButton}
+              activeOpacity={0.7}
+              accessibilityLabel={t("pantry.title")}
+            >
+              <Package size={22} color={colors.icon} />
+            </TouchableOpacity>
+            {activeList && (
+              <TouchableOpacity
+                onPress={() => setShowMembers(!showMembers)}
+                style={styles.closeButton}
+                activeOpacity={0.7}
+              >
+                <Users
+                  size={22}
+                  color={isShared ? colors.emerald500 : colors.icon}
+                />
+              </TouchableOpacity>
+            )}
             <TouchableOpacity
               onPress={handleModalClose}
               style={styles.closeButton}
@@ -381,6 +546,167 @@ export default function ShoppingList({
             </TouchableOpacity>
           </View>
 
+          {/* Lists */}
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            style={styles.listChipsRow}
+            contentContainerStyle={styles.listChips}
+          >
+            {lists.map((list) => {
+              const selected = list.list_id === activeList?.list_id;
+              return (
+                <TouchableOpacity
+                  key={list.list_id}
+                  style={[
+                    styles.listChip,
+                    { borderColor: colors.emerald500 },
+                    selected && { backgroundColor: colors.emerald500 },
+                  ]}
+                  onPress={() => setSelectedListId(list.list_id)}
+                >
+                  {(list.members.length > 0 || !list.is_owner) && (
+                    <Users
+                      size={14}
+                      color={selected ? "#ffffff" : colors.emerald500}
+                    />
+                  )}
+                  <Text
+                    style={[
+                      styles.listChipText,
+                      { color: selected ? "#ffffff" : colors.emerald500 },
+                    ]}
+                  >
+                    {list.name} ({list.pending_items})
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+            <TouchableOpacity
+              style={[styles.listChip, { borderColor: colors.emerald500 }]}
+              onPress={() => setShowNewList(!showNewList)}
+            >
+              <Plus size={14} color={colors.emerald500} />
+              <Text style={[styles.listChipText, { color: colors.emerald500 }]}>
+                {t("shoppingList.lists.new_list")}
+              </Text>
+            </TouchableOpacity>
+          </ScrollView>
+
+          {showNewList && (
+            <View style={styles.inlineForm}>
+              <TextInput
+                style={[
+                  styles.inlineInput,
+                  { color: colors.text, borderColor: colors.border },
+                ]}
+                value={newListName}
+                onChangeText={setNewListName}
+                placeholder={t("shoppingList.lists.list_name")}
+                placeholderTextColor={colors.icon}
+                maxLength={60}
+              />
+              <TouchableOpacity
+                style={[
+                  styles.inlineButton,
+                  { backgroundColor: colors.emerald500 },
+                ]}
+                onPress={handleCreateList}
+                disabled={isCreating}
+              >
+                {isCreating ? (
+                  <ActivityIndicator size="small" color="#ffffff" />
+                ) : (
+                  <Text style={styles.formButtonText}>
+                    {t("shoppingList.lists.create")}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {/* Members */}
+          {showMembers && activeList && (
+            <View
+              style={[
+                styles.membersPanel,
+                { backgroundColor: colors.card, borderColor: colors.border },
+              ]}
+            >
+              <Text style={[styles.addFormTitle, { color: colors.text }]}>
+                {t("shoppingList.lists.members")}
+              </Text>
+              <View style={styles.memberRow}>
+                <Text style={[styles.memberName, { color: colors.text }]}>
+                  {displayName(activeList.owner)}
+                </Text>
+                <Text style={[styles.itemDetails, { color: colors.icon }]}>
+                  {t("shoppingList.lists.owner")}
+                </Text>
+              </View>
+              {activeList.members.map((member) => (
+                <View key={member.user_id} style={styles.memberRow}>
+                  <Text style={[styles.memberName, { color: colors.text }]}>
+                    {displayName(member)}
+                  </Text>
+                  {(activeList.is_owner ||
+                    member.user_id === user?.user_id) && (
+                    <TouchableOpacity
+                      style={[
+                        styles.actionButton,
+                        { backgroundColor: colors.surface },
+                      ]}
+                      onPress={() => handleRemoveMember(member)}
+                    >
+                      {member.user_id === user?.user_id ? (
+                        <LogOut size={16} color={colors.text} />
+                      ) : (
+                        <UserMinus size={16} color={colors.text} />
+                      )}
+                    </TouchableOpacity>
+                  )}
+                </View>
+              ))}
+              {activeList.is_owner && (
+                <View style={[styles.inlineForm, styles.memberForm]}>
+                  <TextInput
+                    style={[
+                      styles.inlineInput,
+                      { color: colors.text, borderColor: colors.border },
+                    ]}
+                    value={memberEmail}
+                    onChangeText={setMemberEmail}
+                    placeholder={t("shoppingList.lists.member_email")}
+                    placeholderTextColor={colors.icon}
+                    keyboardType="email-address"
+                    autoCapitalize="none"
+                  />
+                  <TouchableOpacity
+                    style={[
+                      styles.inlineButton,
+                      { backgroundColor: colors.emerald500 },
+                    ]}
+                    onPress={handleAddMember}
+                    disabled={isAddingMember}
+                  >
+                    {isAddingMember ? (
+                      <ActivityIndicator size="small" color="#ffffff" />
+                    ) : (
+                      <UserPlus size={16} color="#ffffff" />
+                    )}
+                  </TouchableOpacity>
+                </View>
+              )}
+              {activeList.is_owner && !activeList.is_default && (
+                <TouchableOpacity onPress={handleDeleteList}>
+                  <Text style={[styles.deleteListText, { color: "#ef4444" }]}>
+                    {t("shoppingList.lists.delete")}
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+
           {/* Content */}
           <ScrollView
             style={styles.content}
@@ -647,6 +973,79 @@ const styles = StyleSheet.create({
   itemDetails: {
     fontSize: 12,
   },
+  attribution: {
+    fontSize: 11,
+    marginTop: 2,
+    fontStyle: "italic",
+  },
+  listChipsRow: {
+    flexGrow: 0,
+  },
+  listChips: {
+    gap: 8,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  listChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  listChipText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  inlineForm: {
+    flexDirection: "row",
+    gap: 8,
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+  },
+  inlineInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+  },
+  inlineButton: {
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    minWidth: 48,
+  },
+  membersPanel: {
+    marginHorizontal: 20,
+    marginBottom: 12,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    gap: 8,
+  },
+  memberRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  memberForm: {
+    paddingHorizontal: 0,
+    paddingBottom: 0,
+  },
+  memberName: {
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  deleteListText: {
+    fontSize: 14,
+    fontWeight: "600",
+    marginTop: 4,
+  },
   itemActions: {
     flexDirection: "row",
     gap: 8,
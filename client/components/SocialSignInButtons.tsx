@@ -0,0 +1,277 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  Platform,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { router } from "expo-router";
+import { useTranslation } from "react-i18next";
+import { useDispatch } from "react-redux";
+import * as AppleAuthentication from "expo-apple-authentication";
+import * as Crypto from "expo-crypto";
+import * as Google from "expo-auth-session/providers/google";
+import * as WebBrowser from "expo-web-browser";
+import { AppDispatch } from "@/src/store";
+import { signInWithProvider } from "@/src/store/authSlice";
+import { IdentityProviderName, IdentitySignInData } from "@/src/types";
+
+WebBrowser.maybeCompleteAuthSession();
+
+const GOOGLE_CLIENT_IDS = {
+  webClientId: process.env.EXPO_PUBLIC_GOOGLE_WEB_CLIENT_ID,
+  iosClientId: process.env.EXPO_PUBLIC_GOOGLE_IOS_CLIENT_ID,
+  androidClientId: process.env.EXPO_PUBLIC_GOOGLE_ANDROID_CLIENT_ID,
+};
+
+// The Google auth request throws without a client ID for this platform
+const GOOGLE_ENABLED = !!Platform.select({
+  ios: GOOGLE_CLIENT_IDS.iosClientId,
+  android: GOOGLE_CLIENT_IDS.androidClientId,
+  default: GOOGLE_CLIENT_IDS.webClientId,
+});
+
+interface SocialSignInButtonsProps {
+  // "light" on white screens, "dark" on the welcome gradient
+  variant?: "light" | "dark";
+}
+
+function GoogleSignInButton({
+  variant,
+  disabled,
+  onIdToken,
+}: {
+  variant: "light" | "dark";
+  disabled: boolean;
+  onIdToken: (data: IdentitySignInData) => void;
+}) {
+  const { t } = useTranslation();
+  const [request, response, promptAsync] =
+    Google.useIdTokenAuthRequest(GOOGLE_CLIENT_IDS);
+
+  useEffect(() => {
+    if (response?.type === "success" && response.params.id_token) {
+      onIdToken({ id_token: response.params.id_token });
+    }
+  }, [response]);
+
+  return (
+    <TouchableOpacity
+      style={[
+        styles.button,
+        variant === "dark" ? styles.buttonOnDark : styles.buttonOnLight,
+        (!request || disabled) && styles.buttonDisabled,
+      ]}
+      onPress={() => promptAsync()}
+      disabled={!request || disabled}
+    >
+      <Ionicons name="logo-google" size={20} color="#DB4437" />
+      <Text style={styles.buttonText}>{t("auth.social.continue_google")}</Text>
+    </TouchableOpacity>
+  );
+}
+
+export default function SocialSignInButtons({
+  variant = "light",
+}: SocialSignInButtonsProps) {
+  const { t } = useTranslation();
+  const dispatch = useDispatch<AppDispatch>();
+  const [appleAvailable, setAppleAvailable] = useState(false);
+  const [pendingProvider, setPendingProvider] =
+    useState<IdentityProviderName | null>(null);
+
+  useEffect(() => {
+    if (Platform.OS === "ios") {
+      AppleAuthentication.isAvailableAsync().then(setAppleAvailable);
+    }
+  }, []);
+
+  const completeSignIn = async (
+    provider: IdentityProviderName,
+    data: IdentitySignInData
+  ) => {
+    try {
+      setPendingProvider(provider);
+      const result = await dispatch(
+        signInWithProvider({ provider, ...data })
+      ).unwrap();
+      if (result.two_factor_required) {
+        router.push({
+          pathname: "/(auth)/two-factor",
+          params: { challenge: result.challenge_token },
+        });
+      } else {
+        router.replace("/(tabs)");
+      }
+    } catch (error: any) {
+      Alert.alert(t("common.error"), error || t("auth.social.failed"));
+    } finally {
+      setPendingProvider(null);
+    }
+  };
+
+  const handleApple = async () => {
+    try {
+      // Apple embeds the hash of the nonce; the server checks the raw value
+      const rawNonce = Crypto.randomUUID();
+      const hashedNonce = await Crypto.digestStringAsync(
+        Crypto.CryptoDigestAlgorithm.SHA256,
+        rawNonce
+      );
+      const credential = await AppleAuthentication.signInAsync({
+        requestedScopes: [
+          AppleAuthentication.AppleAuthenticationScope.FULL_NAME,
+          AppleAuthentication.AppleAuthenticationScope.EMAIL,
+        ],
+        nonce: hashedNonce,
+      });
+      if (!credential.identityToken) return;
+
+      // Only present the first time the user signs in to the app
+      const name = [
+        credential.fullName?.givenName,
+        credential.fullName?.familyName,
+      ]
+        .filter(Boolean)
+        .join(" ");
+
+      await completeSignIn("apple", {
+        id_token: credential.identityToken,
+        nonce: rawNonce,
+        name: name || undefined,
+      });
+    } catch (error: any) {
+      if (error.code === "ERR_REQUEST_CANCELED") return;
+      console.error("💥 Apple sign in error:", error);
+      Alert.alert(t("common.error"), t("auth.social.failed"));
+    }
+  };
+
+  if (!GOOGLE_ENABLED && !appleAvailable) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.dividerRow}>
+        <View
+          style={[
+            styles.dividerLine,
+            variant === "dark" && styles.dividerLineOnDark,
+          ]}
+        />
+        <Text
+          style={[
+            styles.dividerText,
+            variant === "dark" && styles.dividerTextOnDark,
+          ]}
+        >
+          {t("auth.social.or")}
+        </Text>
+        <View
+          style={[
+            styles.dividerLine,
+            variant === "dark" && styles.dividerLineOnDark,
+          ]}
+        />
+      </View>
+
+      {appleAvailable && (
+        <AppleAuthentication.AppleAuthenticationButton
+          buttonType={
+            AppleAuthentication.AppleAuthenticationButtonType.CONTINUE
+          }
+          buttonStyle={
+            variant === "dark"
+              ? AppleAuthentication.AppleAuthenticationButtonStyle.WHITE
+              : AppleAuthentication.AppleAuthenticationButtonStyle.BLACK
+          }
+          cornerRadius={12}
+          style={styles.appleButton}
+          onPress={handleApple}
+        />
+      )}
+
+      {GOOGLE_ENABLED && (
+        <GoogleSignInButton
+          variant={variant}
+          disabled={pendingProvider !== null}
+          onIdToken={(data) => completeSignIn("google", data)}
+        />
+      )}
+
+      {pendingProvider && (
+        <ActivityIndicator
+          color={variant === "dark" ? "#FFFFFF" : "#10B981"}
+          style={styles.loader}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  dividerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    marginVertical: 4,
+  },
+  dividerLine: {
+    flex: 1,
+    height: 1,
+    backgroundColor: "#E5E5EA",
+  },
+  dividerLineOnDark: {
+    backgroundColor: "rgba(255, 255, 255, 0.4)",
+  },
+  dividerText: {
+    fontSize: 14,
+    color: "#8E8E93",
+  },
+  dividerTextOnDark: {
+    color: "rgba(255, 255, 255, 0.8)",
+  },
+  appleButton: {
+    height: 50,
+    width: "100%",
+  },
+  button: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 10,
+    height: 50,
+    borderRadius: 12,
+    backgroundColor: "white",
+  },
+  buttonOnLight: {
+    borderWidth: 1,
+    borderColor: "#E5E5EA",
+  },
+  buttonOnDark: {
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    fontSize: 17,
+    fontWeight: "600",
+    color: "#1C1C1E",
+  },
+  loader: {
+    marginTop: 4,
+  },
+});
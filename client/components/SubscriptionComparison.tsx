@@ -1,4 +1,4 @@
-import React, { useEffect, useRef } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import {
   View,
   Text,
@@ -13,9 +13,51 @@ import {
 import { BlurView } from "expo-blur";
 import { Check, X, Sparkles } from "lucide-react-native";
 import { useTheme } from "@/src/context/ThemeContext";
+import { userAPI } from "@/src/services/api";
+import { PlanSummary } from "@/src/types";
 
 const { width, height } = Dimensions.get("window");
 
+// Feature rows for a plan, built from the server's entitlement catalog
+const describePlan = (plan: PlanSummary) => {
+  const { limits, features } = plan;
+
+  return [
+    {
+      text:
+        limits.mealScansPerMonth === null
+          ? "Unlimited meal scans"
+          : `${limits.mealScansPerMonth} meal scans per month`,
+      included: true,
+    },
+    {
+      text:
+        limits.questionnaireRetentionDays === null
+          ? "Full questionnaire"
+          : `Basic questionnaire (${limits.questionnaireRetentionDays} days)`,
+      included: true,
+    },
+    { text: "Calorie tracking", included: true },
+    {
+      text: !features.aiChat
+        ? "AI Chat"
+        : limits.aiChatTokensPerMonth === null
+        ? "Unlimited AI chat"
+        : `Up to ${limits.aiChatMessagesEstimate} AI chat messages`,
+      included: features.aiChat,
+    },
+    {
+      text: !features.aiRecommendations
+        ? "AI Recommendations"
+        : limits.aiRecommendationsPerWeek >= 7
+        ? "Daily AI personalized recommendations"
+        : "Weekly AI personalized recommendations",
+      included: features.aiRecommendations,
+    },
+    { text: "Device integration", included: features.deviceIntegration },
+  ];
+};
+
 interface SubscriptionComparisonProps {
   visible: boolean;
   onClose: () => void;
@@ -28,9 +70,19 @@ export default function SubscriptionComparison({
   onUpgrade,
 }: SubscriptionComparisonProps) {
   const { colors, isDark, emeraldSpectrum } = useTheme();
+  const [catalog, setCatalog] = useState<PlanSummary[]>([]);
   const slideAnim = useRef(new Animated.Value(0)).current;
   const fadeAnim = useRef(new Animated.Value(0)).current;
 
+  useEffect(() => {
+    if (visible && catalog.length === 0) {
+      userAPI
+        .getPlans()
+        .then(setCatalog)
+        .catch((error) => console.error("Failed to load plans:", error));
+    }
+  }, [visible]);
+
   useEffect(() => {
     if (visible) {
       Animated.parallel([
@@ -52,58 +104,27 @@ export default function SubscriptionComparison({
     }
   }, [visible]);
 
-  const plans = [
-    {
-      id: "FREE",
-      name: "Free",
-      description: "Perfect for getting started",
-      color: colors.muted,
-      accentColor: colors.textSecondary,
-      features: [
-        { text: "5 meal scans per month", included: true },
-        { text: "Basic questionnaire (7 days)", included: true },
-        { text: "Calorie tracking", included: true },
-        { text: "Recipe access", included: true },
-        { text: "AI Chat", included: false },
-        { text: "AI Recommendations", included: false },
-        { text: "Device Integration", included: false },
-      ],
-    },
-    {
-      id: "GOLD",
-      name: "Gold",
-      description: "Most popular choice",
-      color: "#FF9500",
-      accentColor: "#FF9500",
-      recommended: true,
-      features: [
-        { text: "100 meal scans per month", included: true },
-        { text: "Full questionnaire", included: true },
-        { text: "Up to 100 AI chat messages", included: true },
-        { text: "Detailed macro & vitamin tracking", included: true },
-        { text: "AI personalized recommendations", included: true },
-        { text: "Device integration", included: true },
-        { text: "All recipes access", included: true },
-      ],
-    },
-    {
-      id: "PLATINUM",
-      name: "Platinum",
-      description: "Ultimate nutrition experience",
+  const planStyles: Record<
+    string,
+    { color: string; accentColor: string; recommended?: boolean }
+  > = {
+    FREE: { color: colors.muted, accentColor: colors.textSecondary },
+    GOLD: { color: "#FF9500", accentColor: "#FF9500", recommended: true },
+    PREMIUM: {
       color: emeraldSpectrum.emerald600,
       accentColor: emeraldSpectrum.emerald500,
-      features: [
-        { text: "Unlimited meal scans", included: true },
-        { text: "Full questionnaire", included: true },
-        { text: "Unlimited AI chat", included: true },
-        { text: "Advanced AI menu planning", included: true },
-        { text: "Full health tracking", included: true },
-        { text: "Personal nutrition consulting", included: true },
-        { text: "Priority support", included: true },
-        { text: "Device integration", included: true },
-      ],
     },
-  ];
+  };
+
+  const plans = catalog.map((plan) => ({
+    id: plan.type,
+    name: plan.name,
+    description: plan.price
+      ? `${plan.price.amount} ${plan.price.currency} / ${plan.price.billingPeriodDays} days`
+      : plan.description,
+    ...(planStyles[plan.type] || planStyles.FREE),
+    features: describePlan(plan),
+  }));
 
   const translateY = slideAnim.interpolate({
     inputRange: [0, 1],
@@ -0,0 +1,433 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Image,
+  Share,
+} from "react-native";
+import { useTranslation } from "react-i18next";
+import { useDispatch } from "react-redux";
+import { Ionicons } from "@expo/vector-icons";
+import { useLanguage } from "@/src/i18n/context/LanguageContext";
+import { AppDispatch } from "@/src/store";
+import { updateUser } from "@/src/store/authSlice";
+import { authAPI } from "@/src/services/api";
+import { TwoFactorSetup, TwoFactorStatus } from "@/src/types";
+
+// Actions on an enabled account that need a current code
+type CodeAction = "disable" | "regenerate";
+
+export default function TwoFactorSettings() {
+  const { t } = useTranslation();
+  const { isRTL } = useLanguage();
+  const dispatch = useDispatch<AppDispatch>();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [codeAction, setCodeAction] = useState<CodeAction | null>(null);
+  const [code, setCode] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setStatus(await authAPI.getTwoFactorStatus());
+    } catch (error) {
+      console.error("Failed to load two-factor status:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const runWithCode = async (action: () => Promise<void>) => {
+    try {
+      setIsSubmitting(true);
+      await action();
+      setCode("");
+    } catch (error: any) {
+      Alert.alert(t("common.error"), t("profile.two_factor.invalid_code"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleStartSetup = async () => {
+    try {
+      setIsSubmitting(true);
+      setSetup(await authAPI.setupTwoFactor());
+    } catch (error: any) {
+      Alert.alert(t("common.error"), error.message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleEnable = () =>
+    runWithCode(async () => {
+      const codes = await authAPI.enableTwoFactor(code.trim());
+      setSetup(null);
+      setRecoveryCodes(codes);
+      dispatch(updateUser({ two_factor_enabled: true }));
+      await loadStatus();
+    });
+
+  const handleCodeAction = () =>
+    runWithCode(async () => {
+      if (codeAction === "disable") {
+        await authAPI.disableTwoFactor(code.trim());
+        dispatch(updateUser({ two_factor_enabled: false }));
+      } else {
+        setRecoveryCodes(await authAPI.regenerateRecoveryCodes(code.trim()));
+      }
+      setCodeAction(null);
+      await loadStatus();
+    });
+
+  const handleShareCodes = () => {
+    if (!recoveryCodes) return;
+    Share.share({
+      message: `${t("profile.two_factor.recovery_codes_title")}\n\n${recoveryCodes.join("\n")}`,
+    });
+  };
+
+  const renderCodeInput = (onSubmit: () => void, submitLabel: string) => (
+    <View>
+      <TextInput
+        style={styles.codeInput}
+        value={code}
+        onChangeText={setCode}
+        placeholder="000000"
+        placeholderTextColor="#BDC3C7"
+        keyboardType="number-pad"
+        autoComplete="one-time-code"
+        textContentType="oneTimeCode"
+        maxLength={11}
+        editable={!isSubmitting}
+      />
+      <TouchableOpacity
+        style={[
+          styles.primaryButton,
+          (code.trim().length < 6 || isSubmitting) && styles.buttonDisabled,
+        ]}
+        onPress={onSubmit}
+        disabled={code.trim().length < 6 || isSubmitting}
+      >
+        {isSubmitting ? (
+          <ActivityIndicator color="#FFFFFF" />
+        ) : (
+          <Text style={styles.primaryButtonText}>{submitLabel}</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+
+  if (isLoading && !status) {
+    return <ActivityIndicator color="#16A085" style={styles.loader} />;
+  }
+
+  if (!status) return null;
+
+  if (recoveryCodes) {
+    return (
+      <View>
+        <Text style={[styles.heading, isRTL && styles.textRTL]}>
+          {t("profile.two_factor.recovery_codes_title")}
+        </Text>
+        <Text style={[styles.description, isRTL && styles.textRTL]}>
+          {t("profile.two_factor.recovery_codes_message")}
+        </Text>
+        <View style={styles.codesGrid}>
+          {recoveryCodes.map((recoveryCode) => (
+            <Text key={recoveryCode} style={styles.recoveryCode} selectable>
+              {recoveryCode}
+            </Text>
+          ))}
+        </View>
+        <TouchableOpacity
+          style={styles.secondaryButton}
+          onPress={handleShareCodes}
+        >
+          <Ionicons name="share-outline" size={18} color="#16A085" />
+          <Text style={styles.secondaryButtonText}>
+            {t("profile.two_factor.save_codes")}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.primaryButton}
+          onPress={() => setRecoveryCodes(null)}
+        >
+          <Text style={styles.primaryButtonText}>
+            {t("profile.two_factor.done")}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  if (setup) {
+    return (
+      <View>
+        <Text style={[styles.description, isRTL && styles.textRTL]}>
+          {t("profile.two_factor.scan_qr")}
+        </Text>
+        <Image source={{ uri: setup.qr_code }} style={styles.qrCode} />
+        <Text style={[styles.description, isRTL && styles.textRTL]}>
+          {t("profile.two_factor.manual_entry")}
+        </Text>
+        <Text style={styles.secret} selectable>
+          {setup.secret}
+        </Text>
+        <Text style={[styles.description, isRTL && styles.textRTL]}>
+          {t("profile.two_factor.enter_code")}
+        </Text>
+        {renderCodeInput(handleEnable, t("profile.two_factor.enable"))}
+      </View>
+    );
+  }
+
+  if (!status.enabled) {
+    return (
+      <View>
+        {status.required && (
+          <View style={[styles.notice, isRTL && styles.rowRTL]}>
+            <Ionicons name="warning-outline" size={18} color="#E67E22" />
+            <Text style={[styles.noticeText, isRTL && styles.textRTL]}>
+              {t("profile.two_factor.required_for_admins")}
+            </Text>
+          </View>
+        )}
+        <Text style={[styles.description, isRTL && styles.textRTL]}>
+          {t("profile.two_factor.description")}
+        </Text>
+        <TouchableOpacity
+          style={[styles.primaryButton, isSubmitting && styles.buttonDisabled]}
+          onPress={handleStartSetup}
+          disabled={isSubmitting}
+        >
+          {isSubmitting ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <Text style={styles.primaryButtonText}>
+              {t("profile.two_factor.set_up")}
+            </Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View>
+      <View style={[styles.statusRow, isRTL && styles.rowRTL]}>
+        <Ionicons name="shield-checkmark" size={22} color="#16A085" />
+        <Text style={[styles.statusText, isRTL && styles.textRTL]}>
+          {t("profile.two_factor.enabled")}
+        </Text>
+      </View>
+      <Text style={[styles.description, isRTL && styles.textRTL]}>
+        {t("profile.two_factor.recovery_codes_remaining", {
+          count: status.recovery_codes_remaining,
+        })}
+      </Text>
+
+      {codeAction ? (
+        <View>
+          <Text style={[styles.description, isRTL && styles.textRTL]}>
+            {t("profile.two_factor.confirm_with_code")}
+          </Text>
+          {renderCodeInput(
+            handleCodeAction,
+            codeAction === "disable"
+              ? t("profile.two_factor.turn_off")
+              : t("profile.two_factor.new_recovery_codes")
+          )}
+          <TouchableOpacity
+            style={styles.linkButton}
+            onPress={() => {
+              setCodeAction(null);
+              setCode("");
+            }}
+          >
+            <Text style={styles.linkButtonText}>{t("common.cancel")}</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <View>
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={() => setCodeAction("regenerate")}
+          >
+            <Ionicons name="key-outline" size={18} color="#16A085" />
+            <Text style={styles.secondaryButtonText}>
+              {t("profile.two_factor.new_recovery_codes")}
+            </Text>
+          </TouchableOpacity>
+          {!status.required && (
+            <TouchableOpacity
+              style={styles.dangerButton}
+              onPress={() => setCodeAction("disable")}
+            >
+              <Text style={styles.dangerButtonText}>
+                {t("profile.two_factor.turn_off")}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  loader: {
+    paddingVertical: 20,
+  },
+  heading: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#2C3E50",
+    marginBottom: 8,
+  },
+  description: {
+    fontSize: 14,
+    color: "#7F8C8D",
+    lineHeight: 20,
+    marginVertical: 8,
+  },
+  textRTL: {
+    textAlign: "right",
+  },
+  rowRTL: {
+    flexDirection: "row-reverse",
+  },
+  notice: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    padding: 12,
+    borderRadius: 10,
+    backgroundColor: "#FEF5E7",
+    marginBottom: 8,
+  },
+  noticeText: {
+    flex: 1,
+    fontSize: 14,
+    color: "#A04000",
+  },
+  statusRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingVertical: 8,
+  },
+  statusText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#2C3E50",
+  },
+  qrCode: {
+    width: 200,
+    height: 200,
+    alignSelf: "center",
+    marginVertical: 12,
+  },
+  secret: {
+    fontSize: 15,
+    fontFamily: "monospace",
+    color: "#2C3E50",
+    textAlign: "center",
+    paddingVertical: 8,
+    letterSpacing: 1,
+  },
+  codeInput: {
+    borderWidth: 1,
+    borderColor: "#E9ECEF",
+    borderRadius: 12,
+    paddingVertical: 12,
+    fontSize: 22,
+    fontWeight: "600",
+    color: "#2C3E50",
+    textAlign: "center",
+    letterSpacing: 4,
+    marginTop: 8,
+  },
+  codesGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "space-between",
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: "#F8F9FA",
+    marginVertical: 8,
+  },
+  recoveryCode: {
+    width: "48%",
+    fontSize: 15,
+    fontFamily: "monospace",
+    color: "#2C3E50",
+    paddingVertical: 4,
+    textAlign: "center",
+  },
+  primaryButton: {
+    alignItems: "center",
+    justifyContent: "center",
+    marginTop: 16,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: "#16A085",
+  },
+  primaryButtonText: {
+    color: "#FFFFFF",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  secondaryButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    marginTop: 12,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#16A085",
+  },
+  secondaryButtonText: {
+    color: "#16A085",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  dangerButton: {
+    alignItems: "center",
+    marginTop: 12,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: "#E74C3C",
+  },
+  dangerButtonText: {
+    color: "#FFFFFF",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  linkButton: {
+    alignItems: "center",
+    paddingVertical: 12,
+  },
+  linkButtonText: {
+    color: "#7F8C8D",
+    fontSize: 15,
+  },
+});
@@ -2,28 +2,15 @@ import React, { useEffect, useState } from "react";
 import { View, Text, StyleSheet } from "react-native";
 import { useTranslation } from "react-i18next";
 import { useTheme } from "@/src/context/ThemeContext";
-import { nutritionAPI } from "@/src/services/api";
+import { userAPI } from "@/src/services/api";
+import { UserEntitlements } from "@/src/types";
 import { MessageSquare, Camera } from "lucide-react-native";
 
-interface UsageStats {
-  subscriptionType: string;
-  mealScans: {
-    current: number;
-    limit: number;
-    remaining: number;
-  };
-  aiChat: {
-    current: number;
-    limit: number | null;
-    remaining: number | null;
-    messagesEstimate?: number;
-  };
-}
-
 export default function UsageStatsWidget() {
   const { t } = useTranslation();
   const { colors } = useTheme();
-  const [stats, setStats] = useState<UsageStats | null>(null);
+  const [entitlements, setEntitlements] =
+    useState<UserEntitlements | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -32,8 +19,8 @@ export default function UsageStatsWidget() {
 
   const fetchStats = async () => {
     try {
-      const data = await nutritionAPI.getUsageStats();
-      setStats(data);
+      const data = await userAPI.getEntitlements();
+      setEntitlements(data);
     } catch (error) {
       console.error("Failed to fetch usage stats:", error);
     } finally {
@@ -41,15 +28,17 @@ export default function UsageStatsWidget() {
     }
   };
 
-  if (loading || !stats) {
+  if (loading || !entitlements) {
     return null;
   }
 
-  const mealPercentage =
-    (stats.mealScans.current / stats.mealScans.limit) * 100;
-  const aiPercentage = stats.aiChat.limit
-    ? (stats.aiChat.current / stats.aiChat.limit) * 100
+  const { plan, quotas } = entitlements;
+  const mealScans = quotas.mealScans;
+  const aiChat = quotas.aiChatTokens;
+  const mealPercentage = mealScans.limit
+    ? (mealScans.used / mealScans.limit) * 100
     : 0;
+  const aiPercentage = aiChat.limit ? (aiChat.used / aiChat.limit) * 100 : 0;
 
   return (
     <View style={[styles.container, { backgroundColor: colors.card }]}>
@@ -66,7 +55,9 @@ export default function UsageStatsWidget() {
             {t("common.mealScans")}
           </Text>
           <Text style={[styles.statValue, { color: colors.text }]}>
-            {stats.mealScans.current}/{stats.mealScans.limit}
+            {mealScans.unlimited
+              ? `${mealScans.used}/∞`
+              : `${mealScans.used}/${mealScans.limit}`}
           </Text>
           <View style={styles.progressBar}>
             <View
@@ -78,7 +69,7 @@ export default function UsageStatsWidget() {
           </View>
         </View>
 
-        {stats.aiChat.limit && (
+        {plan.features.aiChat && (
           <View style={styles.statItem}>
             <View style={styles.iconContainer}>
               <MessageSquare size={20} color="#3B82F6" />
@@ -87,11 +78,9 @@ export default function UsageStatsWidget() {
               {t("common.aiChat")}
             </Text>
             <Text style={[styles.statValue, { color: colors.text }]}>
-              {stats.subscriptionType === "GOLD"
-                ? `${Math.floor(stats.aiChat.current / 100)}/${
-                    stats.aiChat.messagesEstimate
-                  }`
-                : `${stats.aiChat.current}/${stats.aiChat.limit} tokens`}
+              {aiChat.unlimited
+                ? `${aiChat.messagesUsed}/∞`
+                : `${aiChat.messagesUsed}/${aiChat.messagesEstimate}`}
             </Text>
             <View style={styles.progressBar}>
               <View
@@ -109,7 +98,7 @@ export default function UsageStatsWidget() {
       </View>
 
       <Text style={[styles.planBadge, { color: colors.textSecondary }]}>
-        {stats.subscriptionType} Plan
+        {plan.name}
       </Text>
     </View>
   );
@@ -0,0 +1,523 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+  FlatList,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import {
+  Archive,
+  ArchiveRestore,
+  Check,
+  MessageSquare,
+  Pencil,
+  Pin,
+  PinOff,
+  Plus,
+  Search,
+  Trash2,
+  X,
+} from "lucide-react-native";
+import { useTranslation } from "react-i18next";
+import { chatAPI } from "@/src/services/api";
+import { ChatConversation, ChatSearchResult } from "@/src/types";
+
+interface ConversationsSheetProps {
+  visible: boolean;
+  activeConversationId: string | null;
+  isRTL: boolean;
+  onClose: () => void;
+  onSelect: (conversation: { conversation_id: string; title: string }) => void;
+  onNewConversation: () => void;
+  // The open conversation was deleted or archived
+  onActiveRemoved: () => void;
+}
+
+export default function ConversationsSheet({
+  visible,
+  activeConversationId,
+  isRTL,
+  onClose,
+  onSelect,
+  onNewConversation,
+  onActiveRemoved,
+}: ConversationsSheetProps) {
+  const { t } = useTranslation();
+  const [conversations, setConversations] = useState<ChatConversation[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<ChatSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState("");
+
+  const loadConversations = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setConversations(await chatAPI.getConversations(showArchived));
+    } catch (error) {
+      console.error("💥 Error loading conversations:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showArchived]);
+
+  useEffect(() => {
+    if (visible) loadConversations();
+  }, [visible, loadConversations]);
+
+  // Debounced full-text search
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length < 2) {
+      setResults([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        setResults(await chatAPI.search(trimmed));
+      } catch (error) {
+        console.error("💥 Error searching chat:", error);
+      } finally {
+        setIsSearching(false);
+      }
+    }, 350);
+
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const updateConversation = async (
+    conversation: ChatConversation,
+    changes: { title?: string; is_pinned?: boolean; is_archived?: boolean }
+  ) => {
+    try {
+      await chatAPI.updateConversation(conversation.conversation_id, changes);
+      if (
+        changes.is_archived &&
+        conversation.conversation_id === activeConversationId
+      ) {
+        onActiveRemoved();
+      }
+      await loadConversations();
+    } catch {
+      Alert.alert(t("common.error"), t("ai_chat.conversations.error"));
+    }
+  };
+
+  const confirmDelete = (conversation: ChatConversation) => {
+    Alert.alert(
+      t("ai_chat.conversations.delete_title"),
+      t("ai_chat.conversations.delete_message", { title: conversation.title }),
+      [
+        { text: t("common.cancel"), style: "cancel" },
+        {
+          text: t("common.delete"),
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await chatAPI.deleteConversation(conversation.conversation_id);
+              if (conversation.conversation_id === activeConversationId) {
+                onActiveRemoved();
+              }
+              await loadConversations();
+            } catch {
+              Alert.alert(t("common.error"), t("ai_chat.conversations.error"));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const submitRename = (conversation: ChatConversation) => {
+    const title = renameText.trim();
+    setRenamingId(null);
+    if (title && title !== conversation.title) {
+      updateConversation(conversation, { title });
+    }
+  };
+
+  const select = (conversation: { conversation_id: string; title: string }) => {
+    setQuery("");
+    onSelect(conversation);
+  };
+
+  const renderConversation = ({ item }: { item: ChatConversation }) => {
+    const isActive = item.conversation_id === activeConversationId;
+    const isRenaming = renamingId === item.conversation_id;
+
+    return (
+      <TouchableOpacity
+        style={[styles.row, isActive && styles.activeRow]}
+        onPress={() => !isRenaming && select(item)}
+        disabled={isRenaming}
+      >
+        <View style={styles.rowText}>
+          {isRenaming ? (
+            <TextInput
+              style={styles.renameInput}
+              value={renameText}
+              onChangeText={setRenameText}
+              onSubmitEditing={() => submitRename(item)}
+              maxLength={120}
+              autoFocus
+              textAlign={isRTL ? "right" : "left"}
+            />
+          ) : (
+            <View style={styles.titleRow}>
+              {item.is_pinned && <Pin size={14} color="#16A085" />}
+              <Text style={styles.title} numberOfLines={1}>
+                {item.title}
+              </Text>
+            </View>
+          )}
+          {!isRenaming && item.preview && (
+            <Text style={styles.preview} numberOfLines={1}>
+              {item.preview}
+            </Text>
+          )}
+        </View>
+
+        <View style={styles.actions}>
+          {isRenaming ? (
+            <TouchableOpacity onPress={() => submitRename(item)}>
+              <Check size={18} color="#16A085" />
+            </TouchableOpacity>
+          ) : (
+            <>
+              <TouchableOpacity
+                onPress={() => {
+                  setRenamingId(item.conversation_id);
+                  setRenameText(item.title);
+                }}
+                accessibilityLabel={t("ai_chat.conversations.rename")}
+              >
+                <Pencil size={18} color="#7F8C8D" />
+              </TouchableOpacity>
+              {!item.is_archived && (
+                <TouchableOpacity
+                  onPress={() =>
+                    updateConversation(item, { is_pinned: !item.is_pinned })
+                  }
+                  accessibilityLabel={t(
+                    item.is_pinned
+                      ? "ai_chat.conversations.unpin"
+                      : "ai_chat.conversations.pin"
+                  )}
+                >
+                  {item.is_pinned ? (
+                    <PinOff size={18} color="#7F8C8D" />
+                  ) : (
+                    <Pin size={18} color="#7F8C8D" />
+                  )}
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity
+                onPress={() =>
+                  updateConversation(item, { is_archived: !item.is_archived })
+                }
+                accessibilityLabel={t(
+                  item.is_archived
+                    ? "ai_chat.conversations.unarchive"
+                    : "ai_chat.conversations.archive"
+                )}
+              >
+                {item.is_archived ? (
+                  <ArchiveRestore size={18} color="#7F8C8D" />
+                ) : (
+                  <Archive size={18} color="#7F8C8D" />
+                )}
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => confirmDelete(item)}
+                accessibilityLabel={t("common.delete")}
+              >
+                <Trash2 size={18} color="#E74C3C" />
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderResult = ({ item }: { item: ChatSearchResult }) => (
+    <TouchableOpacity
+      style={styles.row}
+      disabled={!item.conversation_id}
+      onPress={() =>
+        item.conversation_id &&
+        select({
+          conversation_id: item.conversation_id,
+          title: item.conversation_title || "",
+        })
+      }
+    >
+      <View style={styles.rowText}>
+        <Text style={styles.title} numberOfLines={1}>
+          {item.user_message}
+        </Text>
+        <Text style={styles.preview} numberOfLines={2}>
+          {item.snippet.replace(/\*\*/g, "")}
+        </Text>
+        {item.conversation_title && (
+          <Text style={styles.resultMeta} numberOfLines={1}>
+            {item.conversation_title}
+          </Text>
+        )}
+      </View>
+    </TouchableOpacity>
+  );
+
+  const isSearchMode = query.trim().length >= 2;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={styles.container}>
+        <View style={[styles.header, isRTL && styles.rtlRow]}>
+          <Text style={styles.headerTitle}>
+            {t("ai_chat.conversations.title")}
+          </Text>
+          <View style={[styles.actions, isRTL && styles.rtlRow]}>
+            <TouchableOpacity
+              style={styles.headerButton}
+              onPress={onNewConversation}
+              accessibilityLabel={t("ai_chat.conversations.new")}
+            >
+              <Plus size={20} color="#16A085" />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.headerButton} onPress={onClose}>
+              <X size={20} color="#2C3E50" />
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <View style={[styles.searchBox, isRTL && styles.rtlRow]}>
+          <Search size={18} color="#95A5A6" />
+          <TextInput
+            style={styles.searchInput}
+            value={query}
+            onChangeText={setQuery}
+            placeholder={t("ai_chat.conversations.search_placeholder")}
+            placeholderTextColor="#95A5A6"
+            textAlign={isRTL ? "right" : "left"}
+            returnKeyType="search"
+          />
+          {isSearching && <ActivityIndicator size="small" color="#16A085" />}
+        </View>
+
+        {!isSearchMode && (
+          <View style={[styles.tabs, isRTL && styles.rtlRow]}>
+            {[false, true].map((archived) => (
+              <TouchableOpacity
+                key={String(archived)}
+                style={[
+                  styles.tab,
+                  showArchived === archived && styles.activeTab,
+                ]}
+                onPress={() => setShowArchived(archived)}
+              >
+                <Text
+                  style={[
+                    styles.tabText,
+                    showArchived === archived && styles.activeTabText,
+                  ]}
+                >
+                  {t(
+                    archived
+                      ? "ai_chat.conversations.archived"
+                      : "ai_chat.conversations.active"
+                  )}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {isSearchMode ? (
+          <FlatList
+            data={results}
+            keyExtractor={(item) => String(item.message_id)}
+            renderItem={renderResult}
+            ListEmptyComponent={
+              !isSearching ? (
+                <Text style={styles.empty}>
+                  {t("ai_chat.conversations.no_results")}
+                </Text>
+              ) : null
+            }
+          />
+        ) : isLoading && conversations.length === 0 ? (
+          <ActivityIndicator style={styles.loader} color="#16A085" />
+        ) : (
+          <FlatList
+            data={conversations}
+            keyExtractor={(item) => item.conversation_id}
+            renderItem={renderConversation}
+            keyboardShouldPersistTaps="handled"
+            ListEmptyComponent={
+              <View style={styles.emptyContainer}>
+                <MessageSquare size={32} color="#BDC3C7" />
+                <Text style={styles.empty}>
+                  {t(
+                    showArchived
+                      ? "ai_chat.conversations.no_archived"
+                      : "ai_chat.conversations.empty"
+                  )}
+                </Text>
+              </View>
+            }
+          />
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F8F9FA",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  rtlRow: {
+    flexDirection: "row-reverse",
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#2C3E50",
+  },
+  headerButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: "#FFFFFF",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  searchBox: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginHorizontal: 20,
+    marginBottom: 12,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    backgroundColor: "#FFFFFF",
+    borderWidth: 1,
+    borderColor: "#E8F8F5",
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: "#2C3E50",
+  },
+  tabs: {
+    flexDirection: "row",
+    gap: 8,
+    marginHorizontal: 20,
+    marginBottom: 8,
+  },
+  tab: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: "#ECF0F1",
+  },
+  activeTab: {
+    backgroundColor: "#16A085",
+  },
+  tabText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#7F8C8D",
+  },
+  activeTabText: {
+    color: "#FFFFFF",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    marginHorizontal: 20,
+    marginVertical: 4,
+    padding: 14,
+    borderRadius: 12,
+    backgroundColor: "#FFFFFF",
+  },
+  activeRow: {
+    borderWidth: 1,
+    borderColor: "#16A085",
+  },
+  rowText: {
+    flex: 1,
+    gap: 4,
+  },
+  titleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  title: {
+    flexShrink: 1,
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#2C3E50",
+  },
+  preview: {
+    fontSize: 13,
+    color: "#7F8C8D",
+  },
+  resultMeta: {
+    fontSize: 12,
+    color: "#16A085",
+  },
+  renameInput: {
+    fontSize: 15,
+    color: "#2C3E50",
+    borderBottomWidth: 1,
+    borderBottomColor: "#16A085",
+    paddingVertical: 2,
+  },
+  actions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 14,
+  },
+  loader: {
+    marginTop: 40,
+  },
+  emptyContainer: {
+    alignItems: "center",
+    gap: 8,
+    marginTop: 40,
+  },
+  empty: {
+    textAlign: "center",
+    color: "#95A5A6",
+    fontSize: 14,
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,386 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  Vibration,
+} from "react-native";
+import {
+  X,
+  ChevronLeft,
+  ChevronRight,
+  Play,
+  Pause,
+  RotateCcw,
+  Timer,
+  Check,
+} from "lucide-react-native";
+import { useTheme } from "@/src/context/ThemeContext";
+import { useTranslation } from "react-i18next";
+import { RecipeStep } from "@/src/types";
+
+interface CookModeProps {
+  visible: boolean;
+  mealName: string;
+  steps: RecipeStep[];
+  onClose: () => void;
+}
+
+// A running timer counts down to `endsAt`; a paused one keeps `remaining`
+interface StepTimer {
+  remaining: number;
+  endsAt: number | null;
+}
+
+const formatTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+/**
+ * One step at a time, in large type. Steps with a duration get a timer that
+ * keeps running while the cook moves on to the next step.
+ */
+export const CookMode: React.FC<CookModeProps> = ({
+  visible,
+  mealName,
+  steps,
+  onClose,
+}) => {
+  const { colors } = useTheme();
+  const { t } = useTranslation();
+  const [index, setIndex] = useState(0);
+  const [timers, setTimers] = useState<Record<string, StepTimer>>({});
+  const [now, setNow] = useState(Date.now());
+
+  const step = steps[index];
+  const hasRunningTimer = Object.values(timers).some(
+    (timer) => timer.endsAt !== null
+  );
+
+  const remainingOf = (timer: StepTimer) =>
+    timer.endsAt === null
+      ? timer.remaining
+      : Math.max(0, Math.ceil((timer.endsAt - now) / 1000));
+
+  useEffect(() => {
+    if (!visible) {
+      setIndex(0);
+      setTimers({});
+    }
+  }, [visible]);
+
+  useEffect(() => {
+    if (!hasRunningTimer) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [hasRunningTimer]);
+
+  // Stop timers that ran out and let the cook know
+  useEffect(() => {
+    const finished = Object.entries(timers).filter(
+      ([, timer]) => timer.endsAt !== null && timer.endsAt <= now
+    );
+    if (finished.length === 0) return;
+
+    Vibration.vibrate([0, 500, 250, 500]);
+    setTimers((current) => {
+      const next = { ...current };
+      for (const [stepId] of finished) {
+        next[stepId] = { remaining: 0, endsAt: null };
+      }
+      return next;
+    });
+  }, [now, timers]);
+
+  if (!step) return null;
+
+  const timer: StepTimer | null = step.duration_minutes
+    ? (timers[step.step_id] ?? {
+        remaining: step.duration_minutes * 60,
+        endsAt: null,
+      })
+    : null;
+  const remaining = timer ? remainingOf(timer) : 0;
+
+  const setTimer = (stepId: string, value: StepTimer) =>
+    setTimers((current) => ({ ...current, [stepId]: value }));
+
+  const toggleTimer = (stepId: string, current: StepTimer) => {
+    const startedAt = Date.now();
+    setNow(startedAt);
+    setTimer(
+      stepId,
+      current.endsAt === null
+        ? {
+            remaining: current.remaining,
+            endsAt: startedAt + current.remaining * 1000,
+          }
+        : { remaining: remainingOf(current), endsAt: null }
+    );
+  };
+
+  const otherTimers = steps.filter(
+    (other) =>
+      other.step_id !== step.step_id && timers[other.step_id]?.endsAt != null
+  );
+  const isLast = index === steps.length - 1;
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        {/* Header */}
+        <View style={styles.header}>
+          <View style={styles.headerText}>
+            <Text
+              style={[styles.mealName, { color: colors.text }]}
+              numberOfLines={1}
+            >
+              {mealName}
+            </Text>
+            <Text style={[styles.progress, { color: colors.icon }]}>
+              {t("recipe.step_of", {
+                current: index + 1,
+                total: steps.length,
+              })}
+            </Text>
+          </View>
+          <TouchableOpacity onPress={onClose} style={styles.iconButton}>
+            <X size={24} color={colors.icon} />
+          </TouchableOpacity>
+        </View>
+
+        <View style={[styles.progressBar, { backgroundColor: colors.border }]}>
+          <View
+            style={[
+              styles.progressFill,
+              {
+                backgroundColor: colors.emerald500,
+                width: `${((index + 1) / steps.length) * 100}%`,
+              },
+            ]}
+          />
+        </View>
+
+        {/* Step */}
+        <View style={styles.stepContainer}>
+          <Text style={[styles.instruction, { color: colors.text }]}>
+            {step.instruction}
+          </Text>
+
+          {step.equipment.length > 0 && (
+            <Text style={[styles.equipment, { color: colors.icon }]}>
+              {step.equipment.join(" • ")}
+            </Text>
+          )}
+
+          {timer && (
+            <View
+              style={[styles.timerCard, { backgroundColor: colors.surface }]}
+            >
+              <Text
+                style={[
+                  styles.timerText,
+                  {
+                    color: remaining === 0 ? colors.emerald500 : colors.text,
+                  },
+                ]}
+              >
+                {remaining === 0
+                  ? t("recipe.timer_done")
+                  : formatTime(remaining)}
+              </Text>
+              <View style={styles.timerButtons}>
+                <TouchableOpacity
+                  style={[
+                    styles.timerButton,
+                    { backgroundColor: colors.emerald500 },
+                  ]}
+                  disabled={remaining === 0}
+                  onPress={() => toggleTimer(step.step_id, timer)}
+                >
+                  {timer.endsAt !== null ? (
+                    <Pause size={22} color="#ffffff" />
+                  ) : (
+                    <Play size={22} color="#ffffff" />
+                  )}
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.timerButton, { borderColor: colors.border }]}
+                  onPress={() =>
+                    setTimer(step.step_id, {
+                      remaining: (step.duration_minutes || 0) * 60,
+                      endsAt: null,
+                    })
+                  }
+                >
+                  <RotateCcw size={22} color={colors.icon} />
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+
+          {otherTimers.map((other) => (
+            <TouchableOpacity
+              key={other.step_id}
+              style={[styles.otherTimer, { borderColor: colors.border }]}
+              onPress={() => setIndex(steps.indexOf(other))}
+            >
+              <Timer size={16} color={colors.emerald500} />
+              <Text style={[styles.otherTimerText, { color: colors.text }]}>
+                {t("recipe.step_number", { number: other.position })} •{" "}
+                {formatTime(remainingOf(timers[other.step_id]))}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {/* Navigation */}
+        <View style={styles.navigation}>
+          <TouchableOpacity
+            style={[
+              styles.navButton,
+              { borderColor: colors.border, opacity: index === 0 ? 0.4 : 1 },
+            ]}
+            disabled={index === 0}
+            onPress={() => setIndex(index - 1)}
+          >
+            <ChevronLeft size={20} color={colors.text} />
+            <Text style={[styles.navText, { color: colors.text }]}>
+              {t("recipe.previous")}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              styles.navButton,
+              {
+                backgroundColor: colors.emerald500,
+                borderColor: colors.emerald500,
+              },
+            ]}
+            onPress={() => (isLast ? onClose() : setIndex(index + 1))}
+          >
+            <Text style={[styles.navText, { color: "#ffffff" }]}>
+              {isLast ? t("recipe.finish") : t("recipe.next")}
+            </Text>
+            {isLast ? (
+              <Check size={20} color="#ffffff" />
+            ) : (
+              <ChevronRight size={20} color="#ffffff" />
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingTop: 50,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 24,
+    paddingBottom: 16,
+  },
+  headerText: {
+    flex: 1,
+  },
+  mealName: {
+    fontSize: 18,
+    fontWeight: "700",
+  },
+  progress: {
+    fontSize: 14,
+    marginTop: 4,
+  },
+  iconButton: {
+    padding: 4,
+  },
+  progressBar: {
+    height: 4,
+    marginHorizontal: 24,
+    borderRadius: 2,
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: "100%",
+  },
+  stepContainer: {
+    flex: 1,
+    padding: 24,
+    justifyContent: "center",
+    gap: 20,
+  },
+  instruction: {
+    fontSize: 26,
+    fontWeight: "600",
+    lineHeight: 36,
+  },
+  equipment: {
+    fontSize: 15,
+    fontWeight: "500",
+  },
+  timerCard: {
+    alignItems: "center",
+    padding: 20,
+    borderRadius: 16,
+    gap: 16,
+  },
+  timerText: {
+    fontSize: 48,
+    fontWeight: "700",
+    fontVariant: ["tabular-nums"],
+  },
+  timerButtons: {
+    flexDirection: "row",
+    gap: 16,
+  },
+  timerButton: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    borderWidth: 1,
+    borderColor: "transparent",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  otherTimer: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  otherTimerText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  navigation: {
+    flexDirection: "row",
+    gap: 12,
+    padding: 24,
+    paddingBottom: 40,
+  },
+  navButton: {
+    flex: 1,
+    flexDirection: "row",
+    justifyContent: "center",
+    alignItems: "center",
+    gap: 8,
+    paddingVertical: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  navText: {
+    fontSize: 16,
+    fontWeight: "700",
+  },
+});
@@ -18,16 +18,27 @@ import {
   Heart,
   Share2,
   Activity,
+  Minus,
+  Plus,
+  Timer,
+  Play,
 } from "lucide-react-native";
 import { useTheme } from "@/src/context/ThemeContext";
 import { useTranslation } from "react-i18next";
 import { LinearGradient } from "expo-linear-gradient";
+import { useMealRecipe } from "@/hooks/useMealRecipe";
+import { CookMode } from "./CookMode";
 
 const { width, height } = Dimensions.get("window");
 
+// Matches the server's limit on servings
+const MAX_SERVINGS = 20;
+
 interface MealDetailViewProps {
   meal: {
     meal_id: string;
+    // Needed to load the recipe steps and scale servings
+    menu_id?: string;
     name: string;
     description?: string;
     image?: string;
@@ -64,6 +75,17 @@ export const MealDetailView: React.FC<MealDetailViewProps> = ({
   const { colors, isDark } = useTheme();
   const { t } = useTranslation();
   const [isFavorite, setIsFavorite] = useState(false);
+  const [isCooking, setIsCooking] = useState(false);
+
+  const {
+    meal: recipeMeal,
+    setServings,
+    isScaling,
+  } = useMealRecipe(meal.menu_id, meal.meal_id);
+  // Scaled ingredients and macros once the recipe has loaded
+  const nutrition = recipeMeal ?? meal;
+  const recipe = recipeMeal?.recipe;
+  const steps = recipe?.steps ?? [];
 
   const handleFavoriteToggle = () => {
     setIsFavorite(!isFavorite);
@@ -94,13 +116,14 @@ export const MealDetailView: React.FC<MealDetailViewProps> = ({
     return "https://via.placeholder.com/400x300/8b5cf6/ffffff?text=🍽️";
   };
 
-  const totalMacros = (meal.protein || 0) + (meal.carbs || 0) + (meal.fat || 0);
+  const totalMacros =
+    (nutrition.protein || 0) + (nutrition.carbs || 0) + (nutrition.fat || 0);
   const proteinPercentage =
-    totalMacros > 0 ? ((meal.protein || 0) / totalMacros) * 100 : 0;
+    totalMacros > 0 ? ((nutrition.protein || 0) / totalMacros) * 100 : 0;
   const carbsPercentage =
-    totalMacros > 0 ? ((meal.carbs || 0) / totalMacros) * 100 : 0;
+    totalMacros > 0 ? ((nutrition.carbs || 0) / totalMacros) * 100 : 0;
   const fatPercentage =
-    totalMacros > 0 ? ((meal.fat || 0) / totalMacros) * 100 : 0;
+    totalMacros > 0 ? ((nutrition.fat || 0) / totalMacros) * 100 : 0;
 
   const getMealTypeColor = (mealType: string) => {
     switch (mealType.toLowerCase()) {
@@ -166,7 +189,7 @@ export const MealDetailView: React.FC<MealDetailViewProps> = ({
         <View style={styles.priceBadge}>
           <Text style={styles.priceText}>
             ₪
-            {meal.ingredients
+            {nutrition.ingredients
               ?.reduce((sum, ing) => sum + (ing.estimated_cost || 0), 0)
               .toFixed(2) || "15.00"}
           </Text>
@@ -198,7 +221,7 @@ export const MealDetailView: React.FC<MealDetailViewProps> = ({
                 <Flame size={16} color="#f59e0b" />
               </View>
               <Text style={[styles.statValue, { color: colors.text }]}>
-                {meal.calories}
+                {nutrition.calories}
               </Text>
               <Text style={[styles.statLabel, { color: colors.icon }]}>
                 {t("menu.calories") || "Calories"}
@@ -227,7 +250,7 @@ export const MealDetailView: React.FC<MealDetailViewProps> = ({
                 <Activity size={16} color="#3b82f6" />
               </View>
               <Text style={[styles.statValue, { color: colors.text }]}>
-                {meal.protein}g
+                {nutrition.protein}g
               </Text>
               <Text style={[styles.statLabel, { color: colors.icon }]}>
                 {t("menu.protein") || "Protein"}
@@ -237,7 +260,7 @@ export const MealDetailView: React.FC<MealDetailViewProps> = ({
         </View>
 
         {/* Description */}
-        {(meal.description || meal.instructions) && (
+        {(meal.description || (steps.length === 0 && meal.instructions)) && (
           <View style={styles.section}>
             <Text style={[styles.sectionTitle, { color: colors.text }]}>
               {t("menu.details") || "Details"}
@@ -262,7 +285,7 @@ export const MealDetailView: React.FC<MealDetailViewProps> = ({
             >
               <View style={styles.nutritionHeader}>
                 <Text style={[styles.nutritionValue, { color: colors.text }]}>
-                  {meal.protein}g
+                  {nutrition.protein}g
                 </Text>
                 <View
                   style={[
@@ -294,7 +317,7 @@ export const MealDetailView: React.FC<MealDetailViewProps> = ({
             >
               <View style={styles.nutritionHeader}>
                 <Text style={[styles.nutritionValue, { color: colors.text }]}>
-                  {meal.carbs || 45}g
+                  {nutrition.carbs || 45}g
                 </Text>
                 <View
                   style={[
@@ -326,7 +349,7 @@ export const MealDetailView: React.FC<MealDetailViewProps> = ({
             >
               <View style={styles.nutritionHeader}>
                 <Text style={[styles.nutritionValue, { color: colors.text }]}>
-                  {meal.fat || 12}g
+                  {nutrition.fat || 12}g
                 </Text>
                 <View
                   style={[
@@ -354,11 +377,43 @@ export const MealDetailView: React.FC<MealDetailViewProps> = ({
 
         {/* Ingredients */}
         <View style={styles.section}>
-          <Text style={[styles.sectionTitle, { color: colors.text }]}>
-            {t("menu.ingredients") || "Ingredients"}
-          </Text>
+          <View style={styles.sectionHeader}>
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>
+              {t("menu.ingredients") || "Ingredients"}
+            </Text>
+            {recipe && (
+              <View style={styles.servingsControl}>
+                <TouchableOpacity
+                  style={[
+                    styles.servingsButton,
+                    { borderColor: colors.border },
+                  ]}
+                  disabled={isScaling || recipe.servings <= 1}
+                  onPress={() => setServings(recipe.servings - 1)}
+                >
+                  <Minus size={16} color={colors.text} />
+                </TouchableOpacity>
+                <View style={styles.servingsLabel}>
+                  <Users size={14} color={colors.icon} />
+                  <Text style={[styles.servingsText, { color: colors.text }]}>
+                    {t("recipe.servings", { count: recipe.servings })}
+                  </Text>
+                </View>
+                <TouchableOpacity
+                  style={[
+                    styles.servingsButton,
+                    { borderColor: colors.border },
+                  ]}
+                  disabled={isScaling || recipe.servings >= MAX_SERVINGS}
+                  onPress={() => setServings(recipe.servings + 1)}
+                >
+                  <Plus size={16} color={colors.text} />
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
           <View style={styles.ingredientsList}>
-            {meal.ingredients.map((ingredient, index) => (
+            {nutrition.ingredients.map((ingredient, index) => (
               <View
                 key={ingredient.ingredient_id}
                 style={[
@@ -394,6 +449,83 @@ export const MealDetailView: React.FC<MealDetailViewProps> = ({
           </View>
         </View>
 
+        {/* Recipe */}
+        {steps.length > 0 && (
+          <View style={styles.section}>
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>
+              {t("recipe.steps")}
+            </Text>
+
+            {recipe && recipe.equipment.length > 0 && (
+              <View style={styles.equipmentList}>
+                {recipe.equipment.map((item) => (
+                  <View
+                    key={item}
+                    style={[
+                      styles.equipmentChip,
+                      { backgroundColor: colors.surface },
+                    ]}
+                  >
+                    <Text
+                      style={[styles.equipmentText, { color: colors.text }]}
+                    >
+                      {item}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
+
+            <View style={styles.stepsList}>
+              {steps.map((step) => (
+                <View key={step.step_id} style={styles.stepItem}>
+                  <View
+                    style={[
+                      styles.stepNumber,
+                      { backgroundColor: colors.emerald500 },
+                    ]}
+                  >
+                    <Text style={styles.stepNumberText}>{step.position}</Text>
+                  </View>
+                  <View style={styles.stepContent}>
+                    <Text style={[styles.stepText, { color: colors.text }]}>
+                      {step.instruction}
+                    </Text>
+                    {!!step.duration_minutes && (
+                      <View style={styles.stepDuration}>
+                        <Timer size={12} color={colors.icon} />
+                        <Text
+                          style={[
+                            styles.stepDurationText,
+                            { color: colors.icon },
+                          ]}
+                        >
+                          {t("recipe.minutes", {
+                            count: step.duration_minutes,
+                          })}
+                        </Text>
+                      </View>
+                    )}
+                  </View>
+                </View>
+              ))}
+            </View>
+
+            <TouchableOpacity
+              style={[
+                styles.cookButton,
+                { backgroundColor: colors.emerald500 },
+              ]}
+              onPress={() => setIsCooking(true)}
+            >
+              <Play size={18} color="#ffffff" />
+              <Text style={styles.cookButtonText}>
+                {t("recipe.start_cooking")}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Cooking Method */}
         {meal.cooking_method && (
           <View style={styles.section}>
@@ -414,6 +546,13 @@ export const MealDetailView: React.FC<MealDetailViewProps> = ({
         {/* Bottom Padding */}
         <View style={{ height: 40 }} />
       </ScrollView>
+
+      <CookMode
+        visible={isCooking}
+        mealName={meal.name}
+        steps={steps}
+        onClose={() => setIsCooking(false)}
+      />
     </View>
   );
 };
@@ -531,6 +670,98 @@ const styles = StyleSheet.create({
     marginBottom: 16,
     letterSpacing: -0.2,
   },
+  sectionHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "baseline",
+  },
+  servingsControl: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  servingsButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  servingsLabel: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  servingsText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  equipmentList: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 16,
+  },
+  equipmentChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  equipmentText: {
+    fontSize: 13,
+    fontWeight: "500",
+  },
+  stepsList: {
+    gap: 16,
+  },
+  stepItem: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  stepNumber: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  stepNumberText: {
+    color: "#ffffff",
+    fontSize: 14,
+    fontWeight: "700",
+  },
+  stepContent: {
+    flex: 1,
+    gap: 4,
+  },
+  stepText: {
+    fontSize: 15,
+    lineHeight: 22,
+  },
+  stepDuration: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  stepDurationText: {
+    fontSize: 12,
+    fontWeight: "500",
+  },
+  cookButton: {
+    flexDirection: "row",
+    justifyContent: "center",
+    alignItems: "center",
+    gap: 8,
+    marginTop: 20,
+    paddingVertical: 14,
+    borderRadius: 14,
+  },
+  cookButtonText: {
+    color: "#ffffff",
+    fontSize: 16,
+    fontWeight: "700",
+  },
   description: {
     fontSize: 15,
     lineHeight: 22,
@@ -1,5 +1,6 @@
 export { MenuCreator } from "./MenuCreator";
 export { MealDetailView } from "./MealDetailView";
+export { CookMode } from "./CookMode";
 export { MealsListView } from "./MealsListView";
 export { EnhancedMenuCreator } from "./EnhancedMenuCreator";
 export { MenuReviewStatistics } from "./MenuReviewStatistics";
@@ -38,6 +38,7 @@ import Animated, {
   useSharedValue,
 } from "react-native-reanimated";
 import { useTheme } from "@/src/context/ThemeContext";
+import { GamificationSummary } from "@/src/types";
 
 const { width, height } = Dimensions.get("window");
 const isTablet = width >= 768;
@@ -71,6 +72,8 @@ const getLocalizedText = (
 
 interface AchievementsSectionProps {
   achievements: Achievement[];
+  // Totals from the XP ledger; falls back to counting `achievements`
+  summary?: GamificationSummary | null;
   period: "today" | "week" | "month";
   locale?: string;
 }
@@ -374,6 +377,7 @@ const AchievementFullCard: React.FC<{
 
 export const AchievementsSection: React.FC<AchievementsSectionProps> = ({
   achievements,
+  summary,
   period,
   locale = "en",
 }) => {
@@ -405,14 +409,17 @@ export const AchievementsSection: React.FC<AchievementsSectionProps> = ({
     [filteredAchievements]
   );
 
-  const totalUnlocked = achievements.filter((a) => a.unlocked).length;
-  const totalXP = achievements.reduce(
-    (sum, a) => sum + (a.unlocked ? a.xpReward : 0),
-    0
-  );
-  const completionPercentage = Math.round(
-    (totalUnlocked / achievements.length) * 100
-  );
+  const totalUnlocked =
+    summary?.unlockedAchievements ??
+    achievements.filter((a) => a.unlocked).length;
+  const totalAchievements = summary?.totalAchievements ?? achievements.length;
+  const totalXP =
+    summary?.totalPoints ??
+    achievements.reduce((sum, a) => sum + (a.unlocked ? a.xpReward : 0), 0);
+  const completionPercentage =
+    totalAchievements > 0
+      ? Math.round((totalUnlocked / totalAchievements) * 100)
+      : 0;
   const { colors } = useTheme();
   return (
     <>
@@ -434,7 +441,7 @@ export const AchievementsSection: React.FC<AchievementsSectionProps> = ({
         <View style={styles.sectionHeader}>
           <View>
             <Text style={styles.sectionSubtitle}>
-              {totalUnlocked} of {achievements.length} unlocked
+              {totalUnlocked} of {totalAchievements} unlocked
             </Text>
           </View>
 
@@ -544,7 +551,7 @@ export const AchievementsSection: React.FC<AchievementsSectionProps> = ({
                   />
                 </View>
                 <Text style={styles.overallProgressText}>
-                  {totalUnlocked} of {achievements.length} achievements unlocked
+                  {totalUnlocked} of {totalAchievements} achievements unlocked
                 </Text>
               </View>
             </View>
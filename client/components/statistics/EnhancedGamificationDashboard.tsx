@@ -14,26 +14,26 @@ import {
 import { useTheme } from "@/src/context/ThemeContext";
 import { useTranslation } from "react-i18next";
 import Animated, { FadeInUp, ZoomIn } from "react-native-reanimated";
-
-interface LevelInfo {
-  currentLevel: number;
-  currentXP: number;
-  nextLevelXP: number;
-  xpToNext: number;
-  xpProgress: number;
-  levelBenefits: string[];
-  nextLevelBenefits: string[];
-}
+import { GamificationSummary } from "@/src/types";
 
 interface EnhancedGamificationDashboardProps {
-  levelInfo: LevelInfo;
+  // Level, XP and streaks from the XP ledger
+  summary: GamificationSummary;
   statisticsData: any;
+  levelBenefits: string[];
+  nextLevelBenefits: string[];
   language: string;
 }
 
 export const EnhancedGamificationDashboard: React.FC<
   EnhancedGamificationDashboardProps
-> = ({ levelInfo, statisticsData, language }) => {
+> = ({
+  summary,
+  statisticsData,
+  levelBenefits,
+  nextLevelBenefits,
+  language,
+}) => {
   const { colors } = useTheme();
   const { t } = useTranslation();
 
@@ -71,22 +71,22 @@ export const EnhancedGamificationDashboard: React.FC<
             </LinearGradient>
             <View style={styles.levelDetails}>
               <Text style={[styles.levelText, { color: colors.text }]}>
-                {t("statistics.level") || "Level"} {levelInfo.currentLevel}
+                {t("statistics.level") || "Level"} {summary.level}
               </Text>
               <Text style={[styles.xpText, { color: colors.textSecondary }]}>
-                {levelInfo.currentXP.toLocaleString()} /{" "}
-                {levelInfo.nextLevelXP.toLocaleString()}{" "}
+                {summary.currentXP.toLocaleString()} /{" "}
+                {summary.nextLevelXP.toLocaleString()}{" "}
                 {t("statistics.xp") || "XP"}
               </Text>
             </View>
           </Animated.View>
 
           <View style={styles.progressContainer}>
-            {renderProgressBar(levelInfo.xpProgress, colors.warning)}
+            {renderProgressBar(summary.xpProgress, colors.warning)}
             <Text
               style={[styles.progressText, { color: colors.textSecondary }]}
             >
-              {levelInfo.xpToNext.toLocaleString()}{" "}
+              {summary.xpToNextLevel.toLocaleString()}{" "}
               {t("statistics.xp_to_next") || "XP to next level"}
             </Text>
           </View>
@@ -102,7 +102,7 @@ export const EnhancedGamificationDashboard: React.FC<
               <Flame size={20} color="#FFF" />
             </LinearGradient>
             <Text style={[styles.statValue, { color: colors.text }]}>
-              {statisticsData?.currentStreak || 0}
+              {summary.currentStreak}
             </Text>
             <Text style={[styles.statLabel, { color: colors.textSecondary }]}>
               {t("statistics.current_streak") || "Current Streak"}
@@ -132,7 +132,7 @@ export const EnhancedGamificationDashboard: React.FC<
               <Star size={20} color="#FFF" />
             </LinearGradient>
             <Text style={[styles.statValue, { color: colors.text }]}>
-              {statisticsData?.totalPoints?.toLocaleString() || "0"}
+              {summary.totalPoints.toLocaleString()}
             </Text>
             <Text style={[styles.statLabel, { color: colors.textSecondary }]}>
               {t("statistics.total_points") || "Total Points"}
@@ -147,7 +147,7 @@ export const EnhancedGamificationDashboard: React.FC<
               <Trophy size={20} color="#FFF" />
             </LinearGradient>
             <Text style={[styles.statValue, { color: colors.text }]}>
-              {statisticsData?.bestStreak || 0}
+              {summary.bestStreak}
             </Text>
             <Text style={[styles.statLabel, { color: colors.textSecondary }]}>
               {t("statistics.best_streak") || "Best Streak"}
@@ -164,7 +164,7 @@ export const EnhancedGamificationDashboard: React.FC<
             🎁 {t("statistics.level_benefits") || "Level Benefits"}
           </Text>
           <View style={styles.benefitsList}>
-            {levelInfo.levelBenefits.slice(0, 3).map((benefit, index) => (
+            {levelBenefits.slice(0, 3).map((benefit, index) => (
               <View key={index} style={styles.benefitItem}>
                 <Zap size={14} color={colors.success} />
                 <Text
@@ -186,7 +186,7 @@ export const EnhancedGamificationDashboard: React.FC<
             🚀 {t("statistics.next_level_unlocks") || "Next Level Unlocks"}
           </Text>
           <View style={styles.nextBenefitsList}>
-            {levelInfo.nextLevelBenefits.slice(0, 2).map((benefit, index) => (
+            {nextLevelBenefits.slice(0, 2).map((benefit, index) => (
               <View key={index} style={styles.nextBenefitItem}>
                 <Target size={14} color={colors.primary} />
                 <Text
@@ -96,8 +96,7 @@ export const useAppInitialization = (): AppInitializationState => {
           await PushNotificationService.registerForPushNotifications();
 
         if (token && user) {
-          // Send token to backend if needed
-          console.log("Push notification token:", token);
+          await PushNotificationService.syncTokenWithServer(token);
 
           // Schedule notifications based on user's questionnaire data
           try {
@@ -0,0 +1,53 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/src/services/api";
+import { Alert } from "react-native";
+import { MealWithRecipe } from "@/src/types";
+
+/**
+ * A recommended meal's recipe steps, and scaling it to a number of servings.
+ * Scaling saves the new ingredient quantities and macros on the server.
+ */
+export const useMealRecipe = (menuId?: string, mealId?: string) => {
+  const queryClient = useQueryClient();
+  const queryKey = ["mealRecipe", menuId, mealId];
+
+  const {
+    data: meal,
+    isLoading,
+    error,
+  } = useQuery<MealWithRecipe>({
+    queryKey,
+    queryFn: async () => {
+      const response = await api.get(
+        `/recommended-menus/${menuId}/meals/${mealId}/recipe`
+      );
+      return response.data.data;
+    },
+    enabled: !!menuId && !!mealId,
+  });
+
+  const scaleMutation = useMutation({
+    mutationFn: async (servings: number) => {
+      const response = await api.put(
+        `/recommended-menus/${menuId}/meals/${mealId}/servings`,
+        { servings }
+      );
+      return response.data.data as MealWithRecipe;
+    },
+    onSuccess: (scaled) => {
+      queryClient.setQueryData(queryKey, scaled);
+    },
+    onError: (error) => {
+      console.error("❌ Error scaling meal:", error);
+      Alert.alert("Error", "Failed to change servings");
+    },
+  });
+
+  return {
+    meal,
+    isLoading,
+    error,
+    setServings: scaleMutation.mutate,
+    isScaling: scaleMutation.isPending,
+  };
+};
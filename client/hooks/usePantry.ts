@@ -0,0 +1,132 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/src/services/api";
+import { Alert } from "react-native";
+import { PantryItem } from "@/src/types";
+
+interface NewPantryItem {
+  name: string;
+  quantity: number;
+  unit: string;
+  category?: string;
+  expires_at?: string | null;
+}
+
+interface PantryItemUpdate {
+  item_id: string;
+  name?: string;
+  quantity?: number;
+  expires_at?: string | null;
+}
+
+/**
+ * What the user has at home, soonest-expiring first. Checked-off shopping
+ * items and scanned products show up here on their own.
+ */
+export const usePantry = () => {
+  const queryClient = useQueryClient();
+  const queryKey = ["pantry"];
+
+  const {
+    data: items = [],
+    isLoading,
+    error,
+    refetch,
+  } = useQuery<PantryItem[]>({
+    queryKey,
+    queryFn: async () => {
+      const response = await api.get("/pantry");
+      return response.data.data || [];
+    },
+    staleTime: 30 * 1000,
+  });
+
+  const addItemMutation = useMutation({
+    mutationFn: async (item: NewPantryItem) => {
+      const response = await api.post("/pantry", item);
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error) => {
+      console.error("❌ Error adding pantry item:", error);
+      Alert.alert("Error", "Failed to add pantry item");
+    },
+  });
+
+  // A quantity of 0 removes the item
+  const updateItemMutation = useMutation({
+    mutationFn: async ({ item_id, ...updates }: PantryItemUpdate) => {
+      const response = await api.put(`/pantry/${item_id}`, updates);
+      return response.data;
+    },
+    onMutate: async ({ item_id, ...updates }) => {
+      await queryClient.cancelQueries({ queryKey });
+
+      const previousItems = queryClient.getQueryData<PantryItem[]>(queryKey);
+
+      queryClient.setQueryData<PantryItem[]>(queryKey, (old = []) =>
+        old
+          .map((item) =>
+            item.item_id === item_id ? { ...item, ...updates } : item
+          )
+          .filter((item) => item.quantity > 0)
+      );
+
+      return { previousItems };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error, variables, context) => {
+      console.error("❌ Error updating pantry item:", error);
+
+      if (context?.previousItems) {
+        queryClient.setQueryData(queryKey, context.previousItems);
+      }
+
+      Alert.alert("Error", "Failed to update pantry item");
+    },
+  });
+
+  const removeItemMutation = useMutation({
+    mutationFn: async (itemId: string) => {
+      const response = await api.delete(`/pantry/${itemId}`);
+      return response.data;
+    },
+    onMutate: async (itemId) => {
+      await queryClient.cancelQueries({ queryKey });
+
+      const previousItems = queryClient.getQueryData<PantryItem[]>(queryKey);
+
+      queryClient.setQueryData<PantryItem[]>(queryKey, (old = []) =>
+        old.filter((item) => item.item_id !== itemId)
+      );
+
+      return { previousItems };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error, variables, context) => {
+      console.error("❌ Error removing pantry item:", error);
+
+      if (context?.previousItems) {
+        queryClient.setQueryData(queryKey, context.previousItems);
+      }
+
+      Alert.alert("Error", "Failed to remove pantry item");
+    },
+  });
+
+  return {
+    items,
+    isLoading,
+    error,
+    refetch,
+    addItem: addItemMutation.mutate,
+    updateItem: updateItemMutation.mutate,
+    removeItem: removeItemMutation.mutate,
+    isAddingItem: addItemMutation.isPending,
+  };
+};
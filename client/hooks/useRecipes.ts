@@ -0,0 +1,151 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/src/services/api";
+import { Alert } from "react-native";
+import { MealTiming, UserRecipe } from "@/src/types";
+
+export interface NewRecipe {
+  name: string;
+  description?: string | null;
+  meal_timing?: MealTiming | null;
+  prep_time_minutes?: number | null;
+  servings: number;
+  ingredients: { name: string; quantity: number; unit: string }[];
+  steps: string[];
+}
+
+interface PlanPlacement {
+  recipeId: string;
+  plan_id: string;
+  day_of_week: number;
+  meal_timing: MealTiming;
+  servings?: number;
+}
+
+/**
+ * The user's own recipes. The server computes each recipe's nutrition per
+ * serving from its ingredients; recipes can be logged as meals, scheduled in
+ * the active meal plan and put on the shopping list.
+ */
+export const useRecipes = () => {
+  const queryClient = useQueryClient();
+  const queryKey = ["recipes"];
+
+  const {
+    data: recipes = [],
+    isLoading,
+    error,
+    refetch,
+  } = useQuery<UserRecipe[]>({
+    queryKey,
+    queryFn: async () => {
+      const response = await api.get("/recipes");
+      return response.data.data || [];
+    },
+    staleTime: 30 * 1000,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (recipe: NewRecipe) => {
+      const response = await api.post("/recipes", recipe);
+      return response.data.data as UserRecipe;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error) => {
+      console.error("❌ Error creating recipe:", error);
+      Alert.alert("Error", "Failed to save recipe");
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (recipeId: string) => {
+      const response = await api.delete(`/recipes/${recipeId}`);
+      return response.data;
+    },
+    onMutate: async (recipeId) => {
+      await queryClient.cancelQueries({ queryKey });
+
+      const previousRecipes = queryClient.getQueryData<UserRecipe[]>(queryKey);
+
+      queryClient.setQueryData<UserRecipe[]>(queryKey, (old = []) =>
+        old.filter((recipe) => recipe.user_recipe_id !== recipeId)
+      );
+
+      return { previousRecipes };
+    },
+    onError: (error, variables, context) => {
+      console.error("❌ Error deleting recipe:", error);
+
+      if (context?.previousRecipes) {
+        queryClient.setQueryData(queryKey, context.previousRecipes);
+      }
+
+      Alert.alert("Error", "Failed to delete recipe");
+    },
+  });
+
+  const logMutation = useMutation({
+    mutationFn: async ({
+      recipeId,
+      servings = 1,
+    }: {
+      recipeId: string;
+      servings?: number;
+    }) => {
+      const response = await api.post(`/recipes/${recipeId}/log`, {
+        servings,
+      });
+      return response.data.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["meals"] });
+    },
+    onError: (error) => {
+      console.error("❌ Error logging recipe:", error);
+      Alert.alert("Error", "Failed to log recipe");
+    },
+  });
+
+  const addToPlanMutation = useMutation({
+    mutationFn: async ({ recipeId, ...placement }: PlanPlacement) => {
+      const response = await api.post(
+        `/recipes/${recipeId}/add-to-plan`,
+        placement
+      );
+      return response.data.data;
+    },
+    onError: (error) => {
+      console.error("❌ Error adding recipe to meal plan:", error);
+      Alert.alert("Error", "Failed to add recipe to meal plan");
+    },
+  });
+
+  const addToShoppingListMutation = useMutation({
+    mutationFn: async (recipeId: string) => {
+      const response = await api.post(`/recipes/${recipeId}/shopping-list`);
+      return response.data.data as { added: number; updated: number };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["shoppingList"] });
+      queryClient.invalidateQueries({ queryKey: ["shoppingLists"] });
+    },
+    onError: (error) => {
+      console.error("❌ Error adding recipe to shopping list:", error);
+      Alert.alert("Error", "Failed to add recipe to shopping list");
+    },
+  });
+
+  return {
+    recipes,
+    isLoading,
+    error,
+    refetch,
+    createRecipe: createMutation.mutate,
+    deleteRecipe: deleteMutation.mutate,
+    logRecipe: logMutation.mutate,
+    addToPlan: addToPlanMutation.mutate,
+    addToShoppingList: addToShoppingListMutation.mutate,
+    isCreating: createMutation.isPending,
+  };
+};
@@ -1,6 +1,12 @@
+import { useEffect } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { api } from "@/src/services/api";
 import { Alert } from "react-native";
+import {
+  ShoppingListChanges,
+  ShoppingListSummary,
+  ShoppingListUser,
+} from "@/src/types";
 
 interface ShoppingListItem {
   is_purchased: any;
@@ -12,10 +18,28 @@ interface ShoppingListItem {
   added_from?: string;
   product_barcode?: string;
   estimated_price?: number;
+  added_by?: ShoppingListUser | null;
+  purchased_by?: ShoppingListUser | null;
 }
 
-export const useShoppingList = () => {
+// How often an open list asks the server what other members changed
+const CHANGES_POLL_INTERVAL = 5000;
+
+interface UseShoppingListOptions {
+  // Poll for changes made by other members of a shared list
+  pollChanges?: boolean;
+}
+
+/**
+ * Items on one shopping list: the given list, or the user's default list
+ * when no list id is passed.
+ */
+export const useShoppingList = (
+  listId?: string,
+  { pollChanges = false }: UseShoppingListOptions = {}
+) => {
   const queryClient = useQueryClient();
+  const queryKey = ["shoppingList", listId ?? "default"];
 
   // Get shopping list
   const {
@@ -24,10 +48,12 @@ export const useShoppingList = () => {
     error,
     refetch,
   } = useQuery({
-    queryKey: ["shoppingList"],
+    queryKey,
     queryFn: async () => {
       try {
-        const response = await api.get("/shopping-lists");
+        const response = await api.get("/shopping-lists", {
+          params: listId ? { list_id: listId } : undefined,
+        });
         return response.data.data || [];
       } catch (error) {
         console.error("Error fetching shopping list:", error);
@@ -38,30 +64,64 @@ export const useShoppingList = () => {
     gcTime: 2 * 60 * 1000, // 2 minutes cache time
   });
 
+  // Refetch when someone else changes the list. The first poll only
+  // fetches a cursor, so there is nothing to catch up on yet.
+  useEffect(() => {
+    if (!listId || !pollChanges) return;
+
+    let cursor: string | undefined;
+    let cancelled = false;
+
+    const poll = async () => {
+      try {
+        const response = await api.get(
+          `/shopping-lists/lists/${listId}/changes`,
+          { params: cursor ? { since: cursor } : undefined }
+        );
+        const changes: ShoppingListChanges = response.data.data;
+        if (cancelled) return;
+
+        if (cursor && changes.events.length > 0) {
+          queryClient.invalidateQueries({ queryKey: ["shoppingList"] });
+          queryClient.invalidateQueries({ queryKey: ["shoppingLists"] });
+        }
+        cursor = changes.cursor;
+      } catch (error) {
+        console.warn("⚠️ Failed to poll shopping list changes:", error);
+      }
+    };
+
+    poll();
+    const interval = setInterval(poll, CHANGES_POLL_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [listId, pollChanges, queryClient]);
+
   // Add single item
   const addItemMutation = useMutation({
     mutationFn: async (item: ShoppingListItem) => {
       console.log("🛒 Adding item to shopping list:", item);
-      const response = await api.post("/shopping-lists", item);
+      const response = await api.post("/shopping-lists", {
+        ...item,
+        list_id: listId,
+      });
       return response.data;
     },
     onMutate: async (newItem) => {
       // Cancel outgoing refetches
-      await queryClient.cancelQueries({ queryKey: ["shoppingList"] });
+      await queryClient.cancelQueries({ queryKey });
 
       // Snapshot previous value
-      const previousList = queryClient.getQueryData<ShoppingListItem[]>([
-        "shoppingList",
-      ]);
+      const previousList =
+        queryClient.getQueryData<ShoppingListItem[]>(queryKey);
 
       // Optimistically update the cache
-      queryClient.setQueryData<ShoppingListItem[]>(
-        ["shoppingList"],
-        (old = []) => [
-          ...old,
-          { ...newItem, id: `temp-${Date.now()}`, is_purchased: false },
-        ]
-      );
+      queryClient.setQueryData<ShoppingListItem[]>(queryKey, (old = []) => [
+        ...old,
+        { ...newItem, id: `temp-${Date.now()}`, is_purchased: false },
+      ]);
 
       return { previousList };
     },
@@ -70,7 +130,8 @@ export const useShoppingList = () => {
 
       // Invalidate and refetch to get the latest data
       queryClient.invalidateQueries({ queryKey: ["shoppingList"] });
-      queryClient.refetchQueries({ queryKey: ["shoppingList"] });
+      queryClient.refetchQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ["shoppingLists"] });
 
       Alert.alert("Success", "Item added to shopping list!");
     },
@@ -79,7 +140,7 @@ export const useShoppingList = () => {
 
       // Rollback optimistic update
       if (context?.previousList) {
-        queryClient.setQueryData(["shoppingList"], context.previousList);
+        queryClient.setQueryData(queryKey, context.previousList);
       }
 
       Alert.alert("Error", "Failed to add item to shopping list");
@@ -90,30 +151,29 @@ export const useShoppingList = () => {
   const bulkAddMutation = useMutation({
     mutationFn: async (items: ShoppingListItem[]) => {
       console.log("🛒 Bulk adding items to shopping list:", items.length);
-      const response = await api.post("/shopping-lists/bulk-add", { items });
+      const response = await api.post("/shopping-lists/bulk-add", {
+        items,
+        list_id: listId,
+      });
       return response.data;
     },
     onMutate: async (newItems) => {
       // Cancel outgoing refetches
-      await queryClient.cancelQueries({ queryKey: ["shoppingList"] });
+      await queryClient.cancelQueries({ queryKey });
 
       // Snapshot previous value
-      const previousList = queryClient.getQueryData<ShoppingListItem[]>([
-        "shoppingList",
-      ]);
+      const previousList =
+        queryClient.getQueryData<ShoppingListItem[]>(queryKey);
 
       // Optimistically update the cache
-      queryClient.setQueryData<ShoppingListItem[]>(
-        ["shoppingList"],
-        (old = []) => [
-          ...old,
-          ...newItems.map((item, index) => ({
-            ...item,
-            id: `temp-bulk-${Date.now()}-${index}`,
-            is_purchased: false,
-          })),
-        ]
-      );
+      queryClient.setQueryData<ShoppingListItem[]>(queryKey, (old = []) => [
+        ...old,
+        ...newItems.map((item, index) => ({
+          ...item,
+          id: `temp-bulk-${Date.now()}-${index}`,
+          is_purchased: false,
+        })),
+      ]);
 
       return { previousList };
     },
@@ -122,7 +182,8 @@ export const useShoppingList = () => {
 
       // Invalidate and refetch to get the latest data
       queryClient.invalidateQueries({ queryKey: ["shoppingList"] });
-      queryClient.refetchQueries({ queryKey: ["shoppingList"] });
+      queryClient.refetchQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ["shoppingLists"] });
 
       Alert.alert(
         "Success",
@@ -134,7 +195,7 @@ export const useShoppingList = () => {
 
       // Rollback optimistic update
       if (context?.previousList) {
-        queryClient.setQueryData(["shoppingList"], context.previousList);
+        queryClient.setQueryData(queryKey, context.previousList);
       }
 
       Alert.alert("Error", "Failed to add items to shopping list");
@@ -152,7 +213,7 @@ export const useShoppingList = () => {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["shoppingList"] });
-      queryClient.refetchQueries({ queryKey: ["shoppingList"] });
+      queryClient.refetchQueries({ queryKey });
     },
     onError: (error) => {
       console.error("❌ Error updating item:", error);
@@ -167,28 +228,27 @@ export const useShoppingList = () => {
       return response.data;
     },
     onMutate: async (deletedId) => {
-      await queryClient.cancelQueries({ queryKey: ["shoppingList"] });
+      await queryClient.cancelQueries({ queryKey });
 
-      const previousList = queryClient.getQueryData<ShoppingListItem[]>([
-        "shoppingList",
-      ]);
+      const previousList =
+        queryClient.getQueryData<ShoppingListItem[]>(queryKey);
 
-      queryClient.setQueryData<ShoppingListItem[]>(
-        ["shoppingList"],
-        (old = []) => old.filter((item) => item.id !== deletedId)
+      queryClient.setQueryData<ShoppingListItem[]>(queryKey, (old = []) =>
+        old.filter((item) => item.id !== deletedId)
       );
 
       return { previousList };
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["shoppingList"] });
+      queryClient.invalidateQueries({ queryKey: ["shoppingLists"] });
       Alert.alert("Success", "Item deleted from shopping list");
     },
     onError: (error, variables, context) => {
       console.error("❌ Error deleting item:", error);
 
       if (context?.previousList) {
-        queryClient.setQueryData(["shoppingList"], context.previousList);
+        queryClient.setQueryData(queryKey, context.previousList);
       }
 
       Alert.alert("Error", "Failed to delete item");
@@ -202,45 +262,62 @@ export const useShoppingList = () => {
       return response.data;
     },
     onMutate: async (toggledId) => {
-      await queryClient.cancelQueries({ queryKey: ["shoppingList"] });
+      await queryClient.cancelQueries({ queryKey });
 
-      const previousList = queryClient.getQueryData<ShoppingListItem[]>([
-        "shoppingList",
-      ]);
+      const previousList =
+        queryClient.getQueryData<ShoppingListItem[]>(queryKey);
 
-      queryClient.setQueryData<ShoppingListItem[]>(
-        ["shoppingList"],
-        (old = []) =>
-          old.map((item) =>
-            item.id === toggledId
-              ? { ...item, is_purchased: !item.is_purchased }
-              : item
-          )
+      queryClient.setQueryData<ShoppingListItem[]>(queryKey, (old = []) =>
+        old.map((item) =>
+          item.id === toggledId
+            ? { ...item, is_purchased: !item.is_purchased }
+            : item
+        )
       );
 
       return { previousList };
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["shoppingList"] });
+      queryClient.invalidateQueries({ queryKey: ["shoppingLists"] });
+      // Checked-off items go into the pantry
+      queryClient.invalidateQueries({ queryKey: ["pantry"] });
     },
     onError: (error, variables, context) => {
       console.error("❌ Error toggling item:", error);
 
       if (context?.previousList) {
-        queryClient.setQueryData(["shoppingList"], context.previousList);
+        queryClient.setQueryData(queryKey, context.previousList);
       }
 
       Alert.alert("Error", "Failed to update item status");
     },
   });
 
+  // Clear purchased items
+  const clearPurchasedMutation = useMutation({
+    mutationFn: async () => {
+      const response = await api.delete("/shopping-lists/purchased", {
+        params: listId ? { list_id: listId } : undefined,
+      });
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["shoppingList"] });
+    },
+    onError: (error) => {
+      console.error("❌ Error clearing purchased items:", error);
+      Alert.alert("Error", "Failed to clear purchased items");
+    },
+  });
+
   // Force refresh function
   const forceRefresh = async () => {
     try {
       console.log("🔄 Force refreshing shopping list...");
-      await queryClient.cancelQueries({ queryKey: ["shoppingList"] });
-      queryClient.removeQueries({ queryKey: ["shoppingList"] });
-      await queryClient.refetchQueries({ queryKey: ["shoppingList"] });
+      await queryClient.cancelQueries({ queryKey });
+      queryClient.removeQueries({ queryKey });
+      await queryClient.refetchQueries({ queryKey });
       console.log("✅ Shopping list refreshed");
     } catch (error) {
       console.error("❌ Error refreshing shopping list:", error);
@@ -258,10 +335,104 @@ export const useShoppingList = () => {
     updateItem: updateItemMutation.mutate,
     deleteItem: deleteItemMutation.mutate,
     togglePurchased: togglePurchasedMutation.mutate,
+    clearPurchased: clearPurchasedMutation.mutate,
     isAddingItem: addItemMutation.isPending,
     isBulkAdding: bulkAddMutation.isPending,
     isUpdating: updateItemMutation.isPending,
     isDeleting: deleteItemMutation.isPending,
     isToggling: togglePurchasedMutation.isPending,
+    isClearing: clearPurchasedMutation.isPending,
+  };
+};
+
+/**
+ * The lists the user owns or was added to, and managing them: creating,
+ * renaming, deleting and sharing with other users by email.
+ */
+export const useShoppingLists = () => {
+  const queryClient = useQueryClient();
+
+  const {
+    data: lists = [],
+    isLoading,
+    refetch,
+  } = useQuery<ShoppingListSummary[]>({
+    queryKey: ["shoppingLists"],
+    queryFn: async () => {
+      const response = await api.get("/shopping-lists/lists");
+      return response.data.data || [];
+    },
+  });
+
+  const onSuccess = () =>
+    queryClient.invalidateQueries({ queryKey: ["shoppingLists"] });
+
+  const createListMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await api.post("/shopping-lists/lists", { name });
+      return response.data.data as { list_id: string; name: string };
+    },
+    onSuccess,
+  });
+
+  const renameListMutation = useMutation({
+    mutationFn: async ({ listId, name }: { listId: string; name: string }) => {
+      const response = await api.patch(`/shopping-lists/lists/${listId}`, {
+        name,
+      });
+      return response.data.data;
+    },
+    onSuccess,
+  });
+
+  const deleteListMutation = useMutation({
+    mutationFn: async (listId: string) => {
+      await api.delete(`/shopping-lists/lists/${listId}`);
+    },
+    onSuccess,
+  });
+
+  const addMemberMutation = useMutation({
+    mutationFn: async ({
+      listId,
+      email,
+    }: {
+      listId: string;
+      email: string;
+    }) => {
+      const response = await api.post(
+        `/shopping-lists/lists/${listId}/members`,
+        { email }
+      );
+      return response.data.data as ShoppingListUser;
+    },
+    onSuccess,
+  });
+
+  // Removing yourself leaves a list someone shared with you
+  const removeMemberMutation = useMutation({
+    mutationFn: async ({
+      listId,
+      userId,
+    }: {
+      listId: string;
+      userId: string;
+    }) => {
+      await api.delete(`/shopping-lists/lists/${listId}/members/${userId}`);
+    },
+    onSuccess,
+  });
+
+  return {
+    lists,
+    isLoading,
+    refetch,
+    createList: createListMutation.mutateAsync,
+    renameList: renameListMutation.mutateAsync,
+    deleteList: deleteListMutation.mutateAsync,
+    addMember: addMemberMutation.mutateAsync,
+    removeMember: removeMemberMutation.mutateAsync,
+    isCreating: createListMutation.isPending,
+    isAddingMember: addMemberMutation.isPending,
   };
 };
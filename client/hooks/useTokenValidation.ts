@@ -2,7 +2,7 @@ import { useEffect, useCallback, useRef } from 'react';
 import { useSelector, useDispatch } from 'react-redux';
 import { useRouter } from 'expo-router';
 import { RootState, AppDispatch } from '@/src/store';
-import { signOut } from '@/src/store/authSlice';
+import { signOut, setToken } from '@/src/store/authSlice';
 import { authAPI } from '@/src/services/api';
 
 export const useTokenValidation = () => {
@@ -62,29 +62,20 @@ export const useTokenValidation = () => {
         return;
       }
 
-      // Check if we have a token stored locally
+      // Check if we have a token stored locally, refreshing it if it is
+      // about to expire
       if (isAuthenticated && token) {
-        const storedToken = await authAPI.getStoredToken();
+        const storedToken = await authAPI.getValidToken();
         
         if (!storedToken) {
-          await performLogout('Token missing from storage');
+          await performLogout('Session expired or was revoked');
           return;
         }
         
+        // A refresh replaced the token in storage; follow it
         if (storedToken !== token) {
-          await performLogout('Token mismatch detected');
-          return;
+          dispatch(setToken(storedToken));
         }
-
-        // Optional: Validate token with server (uncomment if needed)
-        // try {
-        //   await api.get('/auth/me');
-        // } catch (error: any) {
-        //   if (error.response?.status === 401) {
-        //     await performLogout('Server rejected token');
-        //     return;
-        //   }
-        // }
       }
 
       // If not authenticated and no token, redirect to signin
@@ -97,7 +88,7 @@ export const useTokenValidation = () => {
       console.error('🔒 Token validation error:', error);
       await performLogout('Token validation failed');
     }
-  }, [token, isAuthenticated, performLogout, router]);
+  }, [token, isAuthenticated, performLogout, router, dispatch]);
 
   useEffect(() => {
     // Initial validation
@@ -2,11 +2,35 @@ import axios, { AxiosInstance, AxiosResponse, AxiosError } from "axios";
 import { Platform } from "react-native";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import * as SecureStore from "expo-secure-store";
+import * as Device from "expo-device";
 import {
+  AuthResponse,
+  AuthSession,
+  IdentityProviderName,
+  IdentitySignInData,
+  LinkedIdentities,
+  TwoFactorSetup,
+  TwoFactorStatus,
+  SecurityEventFilters,
+  SecurityEventPage,
+  JobQueueStatus,
+  JobRun,
+  JobStatusFilters,
+  AchievementCatalog,
+  AchievementDefinition,
+  AchievementDefinitionInput,
+  GamificationSummary,
+  XpHistoryPage,
+  XpSource,
+  StaffMember,
+  StaffRole,
   SignUpData,
   SignInData,
   MealAnalysisData,
   QuestionnaireData,
+  ChatConversation,
+  ChatSearchResult,
+  ChatAction,
 } from "../types";
 
 // Enhanced error handling and retry logic
@@ -47,7 +71,7 @@ const createApiInstance = (): AxiosInstance => {
   instance.interceptors.request.use(
     async (config) => {
       try {
-        const token = await getStoredToken();
+        const token = await getValidToken();
         if (token) {
           config.headers.Authorization = `Bearer ${token}`;
         }
@@ -75,6 +99,16 @@ const createApiInstance = (): AxiosInstance => {
         return instance(originalRequest);
       }
 
+      // An expired access token is refreshed once and the request replayed
+      if (error.response?.status === 401 && !originalRequest._refreshed) {
+        originalRequest._refreshed = true;
+        const refreshedToken = await refreshAccessToken();
+        if (refreshedToken) {
+          originalRequest.headers.Authorization = `Bearer ${refreshedToken}`;
+          return instance(originalRequest);
+        }
+      }
+
       // Handle 401 errors (token expiration/invalid token)
       if (error.response?.status === 401 && !originalRequest._retry) {
         originalRequest._retry = true;
@@ -99,9 +133,15 @@ const createApiInstance = (): AxiosInstance => {
         }
       }
 
+      // Lockouts say how long to wait, so keep the server's message
+      const lockoutMessage =
+        error.response?.status === 429
+          ? (error.response.data as any)?.error
+          : undefined;
+
       // Transform error for better handling
       const apiError = new APIError(
-        error.message || "Network error",
+        lockoutMessage || error.message || "Network error",
         error.response?.status,
         error.code,
         error.response?.status ? error.response.status >= 500 : true
@@ -147,20 +187,148 @@ const clearStoredToken = async (): Promise<void> => {
   try {
     if (Platform.OS === "web") {
       localStorage.removeItem("auth_token");
+      localStorage.removeItem("refresh_token");
     } else {
       await SecureStore.deleteItemAsync("auth_token_secure");
+      await SecureStore.deleteItemAsync("refresh_token_secure");
     }
   } catch (error) {
     console.error("Error clearing token:", error);
   }
 };
 
+const getStoredRefreshToken = async (): Promise<string | null> => {
+  try {
+    if (Platform.OS === "web") {
+      return localStorage.getItem("refresh_token");
+    } else {
+      return await SecureStore.getItemAsync("refresh_token_secure");
+    }
+  } catch (error) {
+    console.error("Error getting stored refresh token:", error);
+    return null;
+  }
+};
+
+const storeSessionTokens = async (data: {
+  token: string;
+  refresh_token?: string;
+}): Promise<void> => {
+  await setStoredToken(data.token);
+  if (!data.refresh_token) return;
+  try {
+    if (Platform.OS === "web") {
+      localStorage.setItem("refresh_token", data.refresh_token);
+    } else {
+      await SecureStore.setItemAsync(
+        "refresh_token_secure",
+        data.refresh_token
+      );
+    }
+  } catch (error) {
+    console.error("Error storing refresh token:", error);
+    throw new APIError("Failed to store authentication token");
+  }
+};
+
+// Refresh a minute before the access token actually expires
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+// Expiry (ms) from the JWT payload; no verification, just scheduling
+const getTokenExpiry = (token: string): number | null => {
+  try {
+    const payload = token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/");
+    const { exp } = JSON.parse(
+      atob(payload.padEnd(Math.ceil(payload.length / 4) * 4, "="))
+    );
+    return typeof exp === "number" ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+// Each refresh token works only once, so concurrent callers share a refresh
+let refreshPromise: Promise<string | null> | null = null;
+
+const refreshAccessToken = (): Promise<string | null> => {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const refreshToken = await getStoredRefreshToken();
+      if (!refreshToken) return null;
+
+      try {
+        // Plain axios so a failed refresh doesn't go through the interceptors
+        const response = await axios.post(
+          `${getApiBaseUrl()}/auth/refresh`,
+          { refresh_token: refreshToken },
+          { timeout: 15000, withCredentials: Platform.OS === "web" }
+        );
+        const { token, refresh_token } = response.data;
+        await storeSessionTokens({ token, refresh_token });
+
+        // Keep Redux in step so useTokenValidation sees the same token
+        const { store } = await import("../store");
+        const { setToken } = await import("../store/authSlice");
+        store.dispatch(setToken(token));
+
+        console.log("🔄 Access token refreshed");
+        return token as string;
+      } catch (error: any) {
+        // Only a rejection from the server means the session is gone
+        if (error.response) {
+          await clearStoredToken();
+        }
+        console.warn("⚠️ Token refresh failed:", error.message);
+        return null;
+      }
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+// Stored access token, refreshed first if it is about to expire
+const getValidToken = async (): Promise<string | null> => {
+  const token = await getStoredToken();
+  if (!token) return null;
+
+  const expiresAt = getTokenExpiry(token);
+  if (expiresAt && expiresAt - Date.now() < TOKEN_REFRESH_MARGIN_MS) {
+    // Still the old token after a network failure, null if the server
+    // rejected the session
+    return (await refreshAccessToken()) || (await getStoredToken());
+  }
+  return token;
+};
+
+// The IANA timezone the device is set to, e.g. "Asia/Jerusalem"
+export const getDeviceTimeZone = (): string | undefined => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// Sent when a session is opened so the sessions list can name this device
+const getDeviceInfo = () => ({
+  device_name:
+    Device.deviceName ||
+    Device.modelName ||
+    (Platform.OS === "web" ? "Web browser" : undefined),
+  platform: Platform.OS,
+});
+
 // Enhanced API service with comprehensive error handling
 export const authAPI = {
   async signUp(data: SignUpData): Promise<any> {
     try {
       console.log("🔄 Signing up user...");
-      const response = await api.post("/auth/signup", data);
+      const response = await api.post("/auth/signup", {
+        ...data,
+        timezone: getDeviceTimeZone(),
+      });
 
       if (response.data.success) {
         console.log("✅ Signup successful");
@@ -183,10 +351,18 @@ export const authAPI = {
   async signIn(data: SignInData): Promise<any> {
     try {
       console.log("🔄 Signing in user...");
-      const response = await api.post("/auth/signin", data);
+      const response = await api.post("/auth/signin", {
+        ...data,
+        ...getDeviceInfo(),
+      });
+
+      if (response.data.success && response.data.two_factor_required) {
+        console.log("🔐 Two-factor code required");
+        return response.data;
+      }
 
       if (response.data.success && response.data.token) {
-        await setStoredToken(response.data.token);
+        await storeSessionTokens(response.data);
         console.log("✅ Signin successful, token stored");
         console.log(
           "📦 Raw signin response:",
@@ -196,10 +372,7 @@ export const authAPI = {
           "👤 User from signin:",
           JSON.stringify(response.data.user, null, 2)
         );
-        console.log("🔑 Admin fields from API:", {
-          is_admin: response.data.user?.is_admin,
-          is_super_admin: response.data.user?.is_super_admin,
-        });
+        console.log("🔑 Staff roles from API:", response.data.user?.roles);
         return response.data;
       }
 
@@ -216,13 +389,82 @@ export const authAPI = {
     }
   },
 
+  async signInWithProvider(
+    provider: IdentityProviderName,
+    data: IdentitySignInData
+  ): Promise<AuthResponse> {
+    try {
+      console.log(`🔄 Signing in with ${provider}...`);
+      const response = await api.post(`/auth/oauth/${provider}`, {
+        ...data,
+        ...getDeviceInfo(),
+      });
+
+      if (response.data.success && response.data.two_factor_required) {
+        return response.data;
+      }
+
+      if (response.data.success && response.data.token) {
+        await storeSessionTokens(response.data);
+        console.log(`✅ ${provider} signin successful, token stored`);
+        return response.data;
+      }
+
+      throw new APIError(response.data.error || "Signin failed");
+    } catch (error) {
+      console.error(`💥 ${provider} signin error:`, error);
+      if (error instanceof APIError) throw error;
+      throw new APIError(
+        "Network error during signin",
+        undefined,
+        undefined,
+        true
+      );
+    }
+  },
+
+  // Second sign-in step with an authenticator or recovery code
+  async verifyTwoFactor(
+    challengeToken: string,
+    code: string
+  ): Promise<AuthResponse> {
+    try {
+      const response = await api.post("/auth/2fa/verify", {
+        challenge_token: challengeToken,
+        code,
+        ...getDeviceInfo(),
+      });
+
+      if (response.data.success && response.data.token) {
+        await storeSessionTokens(response.data);
+        console.log("✅ Two-factor signin successful, token stored");
+        return response.data;
+      }
+
+      throw new APIError(response.data.error || "Verification failed");
+    } catch (error) {
+      console.error("💥 Two-factor verification error:", error);
+      if (error instanceof APIError) throw error;
+      throw new APIError(
+        "Network error during verification",
+        undefined,
+        undefined,
+        true
+      );
+    }
+  },
+
   async verifyEmail(email: string, code: string): Promise<any> {
     try {
       console.log("🔄 Verifying email...");
-      const response = await api.post("/auth/verify-email", { email, code });
+      const response = await api.post("/auth/verify-email", {
+        email,
+        code,
+        ...getDeviceInfo(),
+      });
 
       if (response.data.success && response.data.token) {
-        await setStoredToken(response.data.token);
+        await storeSessionTokens(response.data);
         console.log("✅ Email verification successful");
         return response.data;
       }
@@ -242,11 +484,26 @@ export const authAPI = {
 
   signOut: async (): Promise<void> => {
     try {
-      await AsyncStorage.removeItem("auth_token");
-      if (Platform.OS !== "web") {
-        const SecureStore = require("expo-secure-store");
-        await SecureStore.deleteItemAsync("auth_token_secure");
+      // Stop pushes to this device while the session can still authenticate
+      const syncedPushToken = await AsyncStorage.getItem(
+        "expo_push_token_synced"
+      );
+      if (syncedPushToken) {
+        await userAPI.unregisterPushToken(syncedPushToken);
+        await AsyncStorage.removeItem("expo_push_token_synced");
+      }
+
+      // End the session on the server so its refresh token stops working
+      if (await getStoredToken()) {
+        try {
+          await api.post("/auth/signout");
+        } catch (error) {
+          console.warn("⚠️ Server signout failed:", error);
+        }
       }
+
+      await AsyncStorage.removeItem("auth_token");
+      await clearStoredToken();
       delete api.defaults.headers.common["Authorization"];
     } catch (error) {
       console.error("Error during sign out:", error);
@@ -274,6 +531,74 @@ export const authAPI = {
     return getStoredToken();
   },
 
+  // Current access token, refreshed if it is about to expire; null once the
+  // session can no longer be refreshed
+  async getValidToken(): Promise<string | null> {
+    return getValidToken();
+  },
+
+  async getSessions(): Promise<AuthSession[]> {
+    const response = await api.get("/auth/sessions");
+    return response.data.data;
+  },
+
+  async revokeSession(sessionId: string): Promise<void> {
+    await api.delete(`/auth/sessions/${sessionId}`);
+  },
+
+  // Signs out every device, this one included unless keepCurrent is set
+  async signOutEverywhere(keepCurrent: boolean = false): Promise<number> {
+    const response = await api.delete("/auth/sessions", {
+      params: keepCurrent ? { keep_current: true } : undefined,
+    });
+    return response.data.data.revoked;
+  },
+
+  async getIdentities(): Promise<LinkedIdentities> {
+    const response = await api.get("/auth/identities");
+    return response.data.data;
+  },
+
+  async linkIdentity(
+    provider: IdentityProviderName,
+    data: IdentitySignInData
+  ): Promise<LinkedIdentities> {
+    const response = await api.post(`/auth/identities/${provider}`, data);
+    return response.data.data;
+  },
+
+  async unlinkIdentity(
+    provider: IdentityProviderName
+  ): Promise<LinkedIdentities> {
+    const response = await api.delete(`/auth/identities/${provider}`);
+    return response.data.data;
+  },
+
+  async getTwoFactorStatus(): Promise<TwoFactorStatus> {
+    const response = await api.get("/auth/2fa");
+    return response.data.data;
+  },
+
+  // Starts enrollment; 2FA is only on once enableTwoFactor confirms a code
+  async setupTwoFactor(): Promise<TwoFactorSetup> {
+    const response = await api.post("/auth/2fa/setup");
+    return response.data.data;
+  },
+
+  async enableTwoFactor(code: string): Promise<string[]> {
+    const response = await api.post("/auth/2fa/enable", { code });
+    return response.data.data.recovery_codes;
+  },
+
+  async disableTwoFactor(code: string): Promise<void> {
+    await api.post("/auth/2fa/disable", { code });
+  },
+
+  async regenerateRecoveryCodes(code: string): Promise<string[]> {
+    const response = await api.post("/auth/2fa/recovery-codes", { code });
+    return response.data.data.recovery_codes;
+  },
+
   // Added getCurrentUser function to fetch user data from /auth/me
   async getCurrentUser(): Promise<any> {
     try {
@@ -860,6 +1185,51 @@ export const userAPI = {
     return response.data;
   },
 
+  async getEntitlements(): Promise<any> {
+    try {
+      const response = await api.get("/user/entitlements");
+      return response.data.data;
+    } catch (error) {
+      console.error("💥 Get entitlements error:", error);
+      throw new APIError("Failed to get plan entitlements");
+    }
+  },
+
+  async getPlans(): Promise<any[]> {
+    try {
+      const response = await api.get("/user/plans");
+      return response.data.data || [];
+    } catch (error) {
+      console.error("💥 Get plans error:", error);
+      throw new APIError("Failed to get plans");
+    }
+  },
+
+  async registerPushToken(
+    pushToken: string,
+    previousToken?: string | null
+  ): Promise<any> {
+    try {
+      const response = await api.post("/user/push-token", {
+        pushToken,
+        previousToken: previousToken || undefined,
+        platform: Platform.OS,
+      });
+      return response.data;
+    } catch (error) {
+      console.error("💥 Register push token error:", error);
+      throw new APIError("Failed to register push token");
+    }
+  },
+
+  async unregisterPushToken(pushToken: string): Promise<void> {
+    try {
+      await api.delete("/user/push-token", { data: { pushToken } });
+    } catch (error) {
+      console.warn("⚠️ Failed to unregister push token:", error);
+    }
+  },
+
   getUserProfile: async (): Promise<any> => {
     try {
       const response = await api.get("/user/profile");
@@ -1003,6 +1373,120 @@ export const userAPI = {
   },
 };
 
+// Subscription payments API
+export const paymentsAPI = {
+  async createCheckout(planType: string, returnUrl: string): Promise<any> {
+    try {
+      const response = await api.post("/payments/checkout", {
+        plan_type: planType,
+        return_url: returnUrl,
+      });
+
+      if (response.data.success) {
+        return response.data.data;
+      }
+
+      throw new APIError(response.data.error || "Failed to start checkout");
+    } catch (error) {
+      console.error("💥 Create checkout error:", error);
+      if (error instanceof APIError) throw error;
+      throw new APIError("Network error while starting checkout");
+    }
+  },
+
+  async getStatus(): Promise<any> {
+    try {
+      const response = await api.get("/payments/status");
+      return response.data.data;
+    } catch (error) {
+      console.error("💥 Get subscription status error:", error);
+      throw new APIError("Failed to get subscription status");
+    }
+  },
+
+  async cancelSubscription(): Promise<any> {
+    try {
+      const response = await api.post("/payments/cancel");
+      return response.data.data;
+    } catch (error) {
+      console.error("💥 Cancel subscription error:", error);
+      throw new APIError("Failed to cancel subscription");
+    }
+  },
+};
+
+// Admin panel API
+export const adminAPI = {
+  async getSecurityEvents(
+    filters: SecurityEventFilters = {}
+  ): Promise<SecurityEventPage> {
+    try {
+      const response = await api.get("/admin/security-events", {
+        params: filters,
+      });
+      return response.data.data;
+    } catch (error) {
+      console.error("💥 Get security events error:", error);
+      throw new APIError("Failed to load security events");
+    }
+  },
+
+  async grantRole(userId: string, role: StaffRole): Promise<StaffMember> {
+    const response = await api.post(`/admin/users/${userId}/roles`, { role });
+    return response.data.data;
+  },
+
+  async revokeRole(userId: string, role: StaffRole): Promise<StaffMember> {
+    const response = await api.delete(`/admin/users/${userId}/roles/${role}`);
+    return response.data.data;
+  },
+
+  async getAchievements(): Promise<AchievementCatalog> {
+    const response = await api.get("/admin/achievements");
+    return response.data.data;
+  },
+
+  async createAchievement(
+    achievement: AchievementDefinitionInput
+  ): Promise<AchievementDefinition> {
+    const response = await api.post("/admin/achievements", achievement);
+    return response.data.data;
+  },
+
+  async updateAchievement(
+    id: string,
+    achievement: Partial<AchievementDefinitionInput>
+  ): Promise<AchievementDefinition> {
+    const response = await api.patch(`/admin/achievements/${id}`, achievement);
+    return response.data.data;
+  },
+
+  async getJobStatus(filters: JobStatusFilters = {}): Promise<JobQueueStatus> {
+    try {
+      const response = await api.get("/database/cron-status", {
+        params: filters,
+      });
+      return response.data.data;
+    } catch (error) {
+      console.error("💥 Get job status error:", error);
+      throw new APIError("Failed to load jobs");
+    }
+  },
+
+  async runJob(
+    type: string,
+    payload: Record<string, any> = {}
+  ): Promise<JobRun> {
+    const response = await api.post("/database/jobs", { type, payload });
+    return response.data.data;
+  },
+
+  async rerunJob(jobId: string): Promise<JobRun> {
+    const response = await api.post(`/database/jobs/${jobId}/rerun`);
+    return response.data.data;
+  },
+};
+
 // Enhanced questionnaire API
 export const questionnaireAPI = {
   async saveQuestionnaire(data: QuestionnaireData): Promise<any> {
@@ -1034,11 +1518,56 @@ export const questionnaireAPI = {
   },
 };
 
+export interface ChatStreamDone {
+  conversationId: string;
+  messageId: string;
+  response: string;
+  actions: ChatAction[];
+  usage?: {
+    tokensUsed: number;
+    current: number;
+    limit: number | null;
+    remaining: number | null;
+  };
+}
+
+export interface ChatStream {
+  // Resolves with the final message, or null when cancelled
+  done: Promise<ChatStreamDone | null>;
+  cancel: () => void;
+}
+
+// Split buffered Server-Sent Events text into complete events
+const parseSSEEvents = (buffer: string) => {
+  const events: { event: string; data: any }[] = [];
+  const blocks = buffer.split("\n\n");
+  const rest = blocks.pop() || "";
+
+  for (const block of blocks) {
+    let event = "message";
+    const dataLines: string[] = [];
+    for (const line of block.split("\n")) {
+      if (line.startsWith("event:")) event = line.slice(6).trim();
+      else if (line.startsWith("data:")) dataLines.push(line.slice(5).trim());
+    }
+    if (dataLines.length > 0) {
+      try {
+        events.push({ event, data: JSON.parse(dataLines.join("\n")) });
+      } catch {
+        console.warn("⚠️ Skipping malformed stream event:", block);
+      }
+    }
+  }
+
+  return { events, rest };
+};
+
 // Enhanced chat API
 export const chatAPI = {
   async sendMessage(
     message: string,
-    language: string = "hebrew"
+    language: string = "hebrew",
+    conversationId?: string
   ): Promise<any> {
     try {
       console.log("🔄 Sending chat message...");
@@ -1050,6 +1579,7 @@ export const chatAPI = {
       const response = await api.post("/chat/message", {
         message: message.trim(),
         language,
+        conversation_id: conversationId,
       });
 
       if (response.data.success) {
@@ -1065,6 +1595,102 @@ export const chatAPI = {
     }
   },
 
+  /**
+   * Send a message and receive the reply incrementally over SSE.
+   * Uses XMLHttpRequest because React Native's fetch cannot read a body stream.
+   */
+  streamMessage(
+    message: string,
+    language: string = "hebrew",
+    onDelta: (text: string) => void,
+    options: {
+      // Omit to start a new conversation
+      conversationId?: string;
+      onStart?: (
+        conversation: Pick<ChatConversation, "conversation_id" | "title">
+      ) => void;
+    } = {}
+  ): ChatStream {
+    let xhr: XMLHttpRequest | null = null;
+    let cancelled = false;
+
+    const done = new Promise<ChatStreamDone | null>(async (resolve, reject) => {
+      if (!message || message.trim() === "") {
+        return reject(new APIError("Message cannot be empty"));
+      }
+
+      const token = await getValidToken();
+      if (cancelled) return resolve(null);
+
+      let processed = 0;
+      let pending = "";
+      let result: ChatStreamDone | null = null;
+      let streamError: string | null = null;
+
+      const consume = () => {
+        if (!xhr || xhr.status !== 200) return;
+        pending += xhr.responseText.slice(processed);
+        processed = xhr.responseText.length;
+
+        const { events, rest } = parseSSEEvents(pending);
+        pending = rest;
+        for (const { event, data } of events) {
+          if (event === "start") options.onStart?.(data.conversation);
+          else if (event === "delta") onDelta(data.text);
+          else if (event === "done") result = data;
+          else if (event === "error") streamError = data.error;
+        }
+      };
+
+      xhr = new XMLHttpRequest();
+      xhr.open("POST", `${getApiBaseUrl()}/chat/message`);
+      xhr.setRequestHeader("Content-Type", "application/json");
+      xhr.setRequestHeader("Accept", "text/event-stream");
+      if (token) xhr.setRequestHeader("Authorization", `Bearer ${token}`);
+      xhr.withCredentials = Platform.OS === "web";
+
+      xhr.onprogress = consume;
+      xhr.onabort = () => resolve(null);
+      xhr.onerror = () =>
+        reject(new APIError("Network error while sending message"));
+      xhr.onload = () => {
+        if (xhr!.status !== 200) {
+          let error = "Failed to send message";
+          try {
+            error = JSON.parse(xhr!.responseText).error || error;
+          } catch {}
+          return reject(new APIError(error, xhr!.status));
+        }
+
+        consume();
+        if (streamError || !result) {
+          return reject(
+            new APIError(streamError || "Stream ended unexpectedly")
+          );
+        }
+        console.log("✅ Chat stream completed");
+        resolve(result);
+      };
+
+      xhr.send(
+        JSON.stringify({
+          message: message.trim(),
+          language,
+          conversation_id: options.conversationId,
+          stream: true,
+        })
+      );
+    });
+
+    return {
+      done,
+      cancel: () => {
+        cancelled = true;
+        xhr?.abort();
+      },
+    };
+  },
+
   async getChatHistory(limit: number = 50): Promise<any> {
     try {
       const response = await api.get(`/chat/history?limit=${limit}`);
@@ -1084,6 +1710,105 @@ export const chatAPI = {
       throw new APIError("Failed to clear chat history");
     }
   },
+
+  async getConversations(
+    archived: boolean = false
+  ): Promise<ChatConversation[]> {
+    try {
+      const response = await api.get("/chat/conversations", {
+        params: { archived },
+      });
+      return response.data.success ? response.data.data : [];
+    } catch (error) {
+      console.error("💥 Get conversations error:", error);
+      throw new APIError("Failed to load conversations");
+    }
+  },
+
+  async createConversation(title?: string): Promise<ChatConversation> {
+    try {
+      const response = await api.post("/chat/conversations", { title });
+      return response.data.data;
+    } catch (error) {
+      console.error("💥 Create conversation error:", error);
+      throw new APIError("Failed to create conversation");
+    }
+  },
+
+  async updateConversation(
+    conversationId: string,
+    changes: { title?: string; is_pinned?: boolean; is_archived?: boolean }
+  ): Promise<ChatConversation> {
+    try {
+      const response = await api.patch(
+        `/chat/conversations/${conversationId}`,
+        changes
+      );
+      return response.data.data;
+    } catch (error) {
+      console.error("💥 Update conversation error:", error);
+      throw new APIError("Failed to update conversation");
+    }
+  },
+
+  async deleteConversation(conversationId: string): Promise<void> {
+    try {
+      await api.delete(`/chat/conversations/${conversationId}`);
+    } catch (error) {
+      console.error("💥 Delete conversation error:", error);
+      throw new APIError("Failed to delete conversation");
+    }
+  },
+
+  async getConversationMessages(
+    conversationId: string,
+    limit: number = 50
+  ): Promise<any[]> {
+    try {
+      const response = await api.get(
+        `/chat/conversations/${conversationId}/messages`,
+        { params: { limit } }
+      );
+      return response.data.success ? response.data.data.messages : [];
+    } catch (error) {
+      console.error("💥 Get conversation messages error:", error);
+      throw new APIError("Failed to load conversation");
+    }
+  },
+
+  async confirmAction(actionId: string): Promise<ChatAction> {
+    try {
+      const response = await api.post(`/chat/actions/${actionId}/confirm`);
+      return response.data.data;
+    } catch (error: any) {
+      console.error("💥 Confirm chat action error:", error);
+      // 409/410 mean the action was already resolved or has expired
+      throw new APIError("Failed to run action", error?.status);
+    }
+  },
+
+  async cancelAction(actionId: string): Promise<ChatAction> {
+    try {
+      const response = await api.post(`/chat/actions/${actionId}/cancel`);
+      return response.data.data;
+    } catch (error: any) {
+      console.error("💥 Cancel chat action error:", error);
+      // 409/410 mean the action was already resolved or has expired
+      throw new APIError("Failed to cancel action", error?.status);
+    }
+  },
+
+  async search(query: string): Promise<ChatSearchResult[]> {
+    try {
+      const response = await api.get("/chat/search", {
+        params: { q: query },
+      });
+      return response.data.success ? response.data.data : [];
+    } catch (error) {
+      console.error("💥 Chat search error:", error);
+      throw new APIError("Failed to search chat history");
+    }
+  },
 };
 
 // Enhanced calendar API
@@ -1173,6 +1898,30 @@ export const mealAPI = {
   },
 };
 
+export const achievementsAPI = {
+  async getSummary(): Promise<GamificationSummary> {
+    try {
+      const response = await api.get("/achievements/summary");
+      return response.data.data;
+    } catch (error) {
+      console.error("💥 Get gamification summary error:", error);
+      throw new APIError("Failed to load XP summary");
+    }
+  },
+
+  async getXpHistory(
+    params: { source?: XpSource; cursor?: string; limit?: number } = {}
+  ): Promise<XpHistoryPage> {
+    try {
+      const response = await api.get("/achievements/xp-history", { params });
+      return response.data.data;
+    } catch (error) {
+      console.error("💥 Get XP history error:", error);
+      throw new APIError("Failed to load XP history");
+    }
+  },
+};
+
 // Enhanced meal plan API
 export const mealPlanAPI = {
   async getCurrentMealPlan(): Promise<any> {
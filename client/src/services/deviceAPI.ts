@@ -26,6 +26,40 @@ export interface DailyBalance {
   balance: number;
   balanceStatus: "balanced" | "slight_imbalance" | "significant_imbalance";
 }
+
+export interface DeviceBackfill {
+  backfill_id: string;
+  device_id: string;
+  source: "PROVIDER" | "CLIENT";
+  status: "RUNNING" | "COMPLETED" | "FAILED";
+  start_date: string;
+  end_date: string;
+  days_total: number;
+  days_processed: number;
+  days_written: number;
+  progress: number;
+  next_date: string;
+  error: string | null;
+}
+
+export type ActivityMetric =
+  | "steps"
+  | "calories_burned"
+  | "active_minutes"
+  | "distance_km"
+  | "heart_rate"
+  | "sleep_hours"
+  | "weight_kg"
+  | "body_fat_percentage";
+
+export interface SourcePriorities {
+  priorities: Record<ActivityMetric, string[]>;
+  defaults: Record<ActivityMetric, string[]>;
+}
+
+const BACKFILL_BATCH_DAYS = 7;
+const BACKFILL_POLL_MS = 2000;
+
 const API_URL = process.env.EXPO_PUBLIC_API_URL;
 // Get the correct API URL based on platform
 const getApiBaseUrl = () => {
@@ -415,6 +449,176 @@ class DeviceAPIService {
     }
   }
 
+  // SOURCE PRIORITY
+  async setPrimaryDevice(deviceId: string): Promise<boolean> {
+    try {
+      await deviceAxios.put(`/devices/${deviceId}/primary`);
+      return true;
+    } catch (error) {
+      console.error("💥 Error setting primary device:", error);
+      return false;
+    }
+  }
+
+  async getSourcePriorities(): Promise<SourcePriorities | null> {
+    try {
+      const response = await deviceAxios.get("/devices/source-priorities");
+      return response.data.data;
+    } catch (error) {
+      console.error("💥 Error getting source priorities:", error);
+      return null;
+    }
+  }
+
+  // An empty list puts the metric back on automatic
+  async setSourcePriority(
+    metric: ActivityMetric,
+    deviceTypes: string[]
+  ): Promise<SourcePriorities | null> {
+    try {
+      const response = await deviceAxios.put("/devices/source-priorities", {
+        priorities: { [metric]: deviceTypes },
+      });
+      return response.data.data;
+    } catch (error) {
+      console.error("💥 Error updating source priority:", error);
+      return null;
+    }
+  }
+
+  // HISTORICAL BACKFILL
+  async startBackfill(
+    deviceId: string,
+    startDate: string,
+    endDate: string
+  ): Promise<DeviceBackfill> {
+    const response = await deviceAxios.post(`/devices/${deviceId}/backfill`, {
+      startDate,
+      endDate,
+    });
+    return response.data.data;
+  }
+
+  async getBackfill(
+    deviceId: string,
+    backfillId: string
+  ): Promise<DeviceBackfill> {
+    const response = await deviceAxios.get(
+      `/devices/${deviceId}/backfill/${backfillId}`
+    );
+    return response.data.data;
+  }
+
+  /**
+   * Import the last `days` days for a device. Provider devices are pulled by
+   * the server and polled here; on-phone sources are read day by day and
+   * pushed in batches. Progress is reported after every step.
+   */
+  async backfillDevice(
+    device: ConnectedDevice,
+    days: number,
+    onProgress: (backfill: DeviceBackfill) => void
+  ): Promise<DeviceBackfill> {
+    const end = new Date();
+    const start = new Date(end);
+    start.setDate(start.getDate() - (days - 1));
+
+    let backfill = await this.startBackfill(
+      device.id,
+      toYmd(start),
+      toYmd(end)
+    );
+    onProgress(backfill);
+
+    if (backfill.source === "PROVIDER") {
+      while (backfill.status === "RUNNING") {
+        await new Promise((resolve) => setTimeout(resolve, BACKFILL_POLL_MS));
+        backfill = await this.getBackfill(device.id, backfill.backfill_id);
+        onProgress(backfill);
+      }
+      return backfill;
+    }
+
+    let cursor = backfill.next_date;
+    while (backfill.status === "RUNNING" && cursor <= backfill.end_date) {
+      const batch = [];
+      let through = cursor;
+
+      for (
+        let i = 0;
+        i < BACKFILL_BATCH_DAYS && cursor <= backfill.end_date;
+        i++
+      ) {
+        const day = await this.readLocalDay(device, cursor);
+        if (day) batch.push(day);
+        through = cursor;
+        cursor = addDaysYmd(cursor, 1);
+      }
+
+      // `through` also covers days that had no data to send
+      const response = await deviceAxios.post(
+        `/devices/${device.id}/backfill/${backfill.backfill_id}/days`,
+        { days: batch, through }
+      );
+      backfill = response.data.data;
+      onProgress(backfill);
+    }
+
+    return backfill;
+  }
+
+  // One day of on-phone data in the shape the sync endpoints accept
+  private async readLocalDay(device: ConnectedDevice, date: string) {
+    try {
+      let data: any = null;
+
+      if (device.type === "APPLE_HEALTH") {
+        data = await HealthKitService.getDailyHealthData(
+          new Date(`${date}T12:00:00`)
+        );
+      } else {
+        const tokens = await deviceConnectionService.getDeviceTokens(
+          device.type
+        );
+        if (!tokens.accessToken) return null;
+
+        switch (device.type) {
+          case "GOOGLE_FIT":
+            data = await deviceConnectionService.fetchGoogleFitData(
+              tokens.accessToken,
+              date
+            );
+            break;
+          case "WHOOP":
+            data = await deviceConnectionService.fetchWhoopData(
+              tokens.accessToken,
+              date
+            );
+            break;
+          case "POLAR":
+            data = await deviceConnectionService.fetchPolarData(
+              tokens.accessToken,
+              date
+            );
+            break;
+        }
+      }
+
+      if (!data) return null;
+      return {
+        date,
+        steps: data.steps || 0,
+        caloriesBurned: data.caloriesBurned || 0,
+        activeMinutes: data.activeMinutes || 0,
+        heartRate: data.heartRate || undefined,
+        distance: data.distance || undefined,
+      };
+    } catch (error) {
+      console.warn("⚠️ Could not read activity for", date, error);
+      return null;
+    }
+  }
+
   // BATCH SYNC ALL DEVICES
   async syncAllDevices(): Promise<{ success: number; failed: number }> {
     try {
@@ -449,4 +653,16 @@ class DeviceAPIService {
   }
 }
 
+function toYmd(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function addDaysYmd(ymd: string, days: number): string {
+  const date = new Date(`${ymd}T12:00:00`);
+  date.setDate(date.getDate() + days);
+  return toYmd(date);
+}
+
 export const deviceAPI = new DeviceAPIService();
@@ -92,6 +92,25 @@ export class PushNotificationService {
     }
   }
 
+  /**
+   * Send the device token to the server, retiring the last one it knew about
+   */
+  static async syncTokenWithServer(token: string) {
+    try {
+      const previousToken = await AsyncStorage.getItem(
+        "expo_push_token_synced"
+      );
+      if (previousToken === token) return;
+
+      const { userAPI } = await import("./api");
+      await userAPI.registerPushToken(token, previousToken);
+      await AsyncStorage.setItem("expo_push_token_synced", token);
+      console.log("✅ Push token registered with server");
+    } catch (error) {
+      console.error("Error registering push token with server:", error);
+    }
+  }
+
   static async scheduleMealReminders(userQuestionnaire: any) {
     try {
       // Cancel existing notifications first
@@ -1,6 +1,13 @@
 import { createSlice, createAsyncThunk, PayloadAction } from "@reduxjs/toolkit";
 import { authAPI } from "../services/api";
-import type { User, SignUpData, SignInData, AuthResponse } from "../types";
+import type {
+  User,
+  SignUpData,
+  SignInData,
+  AuthResponse,
+  IdentityProviderName,
+  IdentitySignInData,
+} from "../types";
 
 // Import clearAllQueries dynamically to avoid cycles
 const clearQueries = async () => {
@@ -59,6 +66,11 @@ export const signIn = createAsyncThunk(
       console.log("🔄 Starting sign in process...");
       const response = await authAPI.signIn(data);
 
+      // The screen asks for the code; the user isn't signed in yet
+      if (response.success && response.two_factor_required) {
+        return response;
+      }
+
       if (response.success && response.token && response.user) {
         console.log("✅ Sign in successful");
         return response;
@@ -81,6 +93,74 @@ export const signIn = createAsyncThunk(
   }
 );
 
+export const signInWithProvider = createAsyncThunk(
+  "auth/signInWithProvider",
+  async (
+    {
+      provider,
+      ...data
+    }: IdentitySignInData & { provider: IdentityProviderName },
+    { rejectWithValue }
+  ) => {
+    try {
+      const response = await authAPI.signInWithProvider(provider, data);
+
+      if (response.success && response.two_factor_required) {
+        return response;
+      }
+
+      if (response.success && response.token && response.user) {
+        return response;
+      }
+
+      return rejectWithValue(response.error || "Login failed");
+    } catch (error: any) {
+      console.error(`💥 ${provider} sign in error:`, error);
+
+      let errorMessage = "Login failed";
+      if (error.response?.data?.error) {
+        errorMessage = error.response.data.error;
+      } else if (error.message) {
+        errorMessage = error.message;
+      }
+
+      return rejectWithValue(errorMessage);
+    }
+  }
+);
+
+export const verifyTwoFactor = createAsyncThunk(
+  "auth/verifyTwoFactor",
+  async (
+    data: { challengeToken: string; code: string },
+    { rejectWithValue }
+  ) => {
+    try {
+      const response = await authAPI.verifyTwoFactor(
+        data.challengeToken,
+        data.code
+      );
+
+      if (response.success && response.token && response.user) {
+        return response;
+      }
+
+      return rejectWithValue(response.error || "Verification failed");
+    } catch (error: any) {
+      console.error("💥 Two-factor verification error:", error);
+
+      let errorMessage = "Verification failed";
+      if (error.response?.data?.error) {
+        errorMessage = error.response.data.error;
+      } else if (error.message) {
+        errorMessage = error.message;
+      }
+
+      return rejectWithValue(errorMessage);
+    }
+  }
+);
+
 export const verifyEmail = createAsyncThunk(
   "auth/verifyEmail",
   async (data: { email: string; code: string }, { rejectWithValue }) => {
@@ -131,7 +211,12 @@ export const signOut = createAsyncThunk(
       if (Platform.OS !== "web") {
         try {
           const SecureStore = require("expo-secure-store");
-          const keys = ["auth_token_secure", "user_data", "questionnaire_data"];
+          const keys = [
+            "auth_token_secure",
+            "refresh_token_secure",
+            "user_data",
+            "questionnaire_data",
+          ];
           for (const key of keys) {
             try {
               await SecureStore.deleteItemAsync(key);
@@ -184,7 +269,12 @@ export const signOut = createAsyncThunk(
         const { Platform } = require("react-native");
         if (Platform.OS !== "web") {
           const SecureStore = require("expo-secure-store");
-          const keys = ["auth_token_secure", "user_data", "questionnaire_data"];
+          const keys = [
+            "auth_token_secure",
+            "refresh_token_secure",
+            "user_data",
+            "questionnaire_data",
+          ];
           for (const key of keys) {
             try {
               await SecureStore.deleteItemAsync(key);
@@ -204,12 +294,35 @@ export const signOut = createAsyncThunk(
   }
 );
 
+export const signOutEverywhere = createAsyncThunk(
+  "auth/signOutEverywhere",
+  async (_, { rejectWithValue, dispatch }) => {
+    try {
+      console.log("🔄 Signing out of all devices...");
+      const revoked = await authAPI.signOutEverywhere();
+      console.log(`✅ Revoked ${revoked} sessions`);
+    } catch (error: any) {
+      console.error("💥 Sign out everywhere error:", error);
+      return rejectWithValue(
+        error.response?.data?.error ||
+          error.message ||
+          "Failed to sign out everywhere"
+      );
+    }
+
+    // This device's session is gone too, so clear it locally
+    await dispatch(signOut());
+    return true;
+  }
+);
+
 export const loadStoredAuth = createAsyncThunk(
   "auth/loadStoredAuth",
   async (_, { rejectWithValue }) => {
     try {
       console.log("🔄 Loading stored auth...");
-      const token = await authAPI.getStoredToken();
+      // Refreshes the access token first if it expired while the app was closed
+      const token = await authAPI.getValidToken();
       if (token) {
         console.log("✅ Found stored token");
         return token;
@@ -258,6 +371,9 @@ const authSlice = createSlice({
       ) {
         state.user.subscription_type = action.payload.subscription_type;
       }
+      if (state.user && action.payload.subscription_end !== undefined) {
+        state.user.subscription_end = action.payload.subscription_end;
+      }
     },
     loginSuccess: (state, action) => {
       state.isAuthenticated = true;
@@ -280,8 +396,8 @@ const authSlice = createSlice({
         currentUserData.is_questionnaire_completed !==
           newUserData.is_questionnaire_completed ||
         currentUserData.avatar_url !== newUserData.avatar_url ||
-        currentUserData.is_admin !== newUserData.is_admin ||
-        currentUserData.is_super_admin !== newUserData.is_super_admin ||
+        currentUserData.permissions?.join() !==
+          newUserData.permissions?.join() ||
         currentUserData.level !== newUserData.level ||
         currentUserData.total_points !== newUserData.total_points ||
         currentUserData.current_xp !== newUserData.current_xp ||
@@ -354,6 +470,10 @@ const authSlice = createSlice({
       })
       .addCase(signIn.fulfilled, (state, action) => {
         state.isLoading = false;
+        if (action.payload.two_factor_required) {
+          console.log("🔐 Waiting for two-factor code");
+          return;
+        }
         state.user = action.payload.user || null;
         state.token = action.payload.token || null;
         state.isAuthenticated = true;
@@ -363,10 +483,7 @@ const authSlice = createSlice({
           "👤 User data stored in Redux:",
           JSON.stringify(action.payload.user, null, 2)
         );
-        console.log("🔑 Admin fields:", {
-          is_admin: action.payload.user?.is_admin,
-          is_super_admin: action.payload.user?.is_super_admin,
-        });
+        console.log("🔑 Staff roles:", action.payload.user?.roles);
       })
       .addCase(signIn.rejected, (state, action) => {
         state.isLoading = false;
@@ -374,6 +491,38 @@ const authSlice = createSlice({
         state.isAuthenticated = false;
         console.log("❌ Sign in failed:", action.payload);
       })
+      .addCase(signInWithProvider.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(signInWithProvider.fulfilled, (state, action) => {
+        state.isLoading = false;
+        if (action.payload.two_factor_required) return;
+        state.user = action.payload.user || null;
+        state.token = action.payload.token || null;
+        state.isAuthenticated = true;
+        state.error = null;
+      })
+      .addCase(signInWithProvider.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+        state.isAuthenticated = false;
+      })
+      .addCase(verifyTwoFactor.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(verifyTwoFactor.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.user = action.payload.user || null;
+        state.token = action.payload.token || null;
+        state.isAuthenticated = true;
+        state.error = null;
+      })
+      .addCase(verifyTwoFactor.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      })
       .addCase(signOut.pending, (state) => {
         state.isLoading = true;
       })
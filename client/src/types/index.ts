@@ -71,6 +71,8 @@ export interface User {
   email: string;
   name?: string;
   birth_date?: string;
+  // IANA timezone the server counts the user's days in
+  timezone?: string;
   avatar_url?: string;
   subscription_type: string;
   signup_date: string;
@@ -95,8 +97,42 @@ export interface User {
   active_meal_plan_id?: string;
   active_menu_id?: string;
   meals_per_day?: number;
-  is_admin?: boolean;
-  is_super_admin?: boolean;
+  roles?: StaffRole[];
+  permissions?: Permission[];
+  two_factor_enabled?: boolean;
+}
+
+// A device the user is signed in on
+export interface AuthSession {
+  session_id: string;
+  device_name: string | null;
+  platform: string | null;
+  user_agent: string | null;
+  ip_address: string | null;
+  last_seen_at: string;
+  created_at: string;
+  current: boolean;
+}
+
+export type IdentityProviderName = "google" | "apple";
+
+// ID token from Google / Apple sign-in, exchanged for our own session
+export interface IdentitySignInData {
+  id_token: string;
+  nonce?: string;
+  name?: string;
+}
+
+export interface LinkedIdentity {
+  provider: IdentityProviderName;
+  email: string | null;
+  created_at: string;
+  last_used_at: string;
+}
+
+export interface LinkedIdentities {
+  has_password: boolean;
+  identities: LinkedIdentity[];
 }
 
 export interface Meal {
@@ -104,6 +140,7 @@ export interface Meal {
   meal_id: number;
   user_id: string;
   image_url?: string;
+  thumbnail_url?: string;
   upload_time: string;
   analysis_status: "PENDING" | "COMPLETED";
   meal_name: string | null;
@@ -176,9 +213,379 @@ export interface AuthResponse {
   success: boolean;
   user?: User;
   token?: string;
+  refresh_token?: string;
+  expires_in?: number;
+  is_new_user?: boolean;
+  // Set instead of tokens when the account needs a two-factor code
+  two_factor_required?: boolean;
+  challenge_token?: string;
   error?: string;
 }
 
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabled_at: string | null;
+  required: boolean;
+  recovery_codes_remaining: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauth_url: string;
+  qr_code: string;
+}
+
+// Staff roles and what they allow, as in the server's config/roles.ts
+export type StaffRole =
+  "SUPPORT_AGENT" | "CONTENT_EDITOR" | "DIETITIAN" | "SUPER_ADMIN";
+
+export type Permission =
+  | "dashboard:view"
+  | "users:read"
+  | "health:read"
+  | "users:delete"
+  | "subscriptions:manage"
+  | "payments:refund"
+  | "security:read"
+  | "roles:manage"
+  | "content:manage"
+  | "system:view"
+  | "system:manage";
+
+export interface StaffRoleGrant {
+  role: StaffRole;
+  granted_by: string | null;
+  granted_at: string;
+}
+
+export interface StaffMember {
+  user_id: string;
+  email: string;
+  name: string | null;
+  totp_enabled: boolean;
+  roles: StaffRoleGrant[];
+  permissions: Permission[];
+}
+
+// How an achievement rule turns days meeting its condition into progress
+export type AchievementAggregation =
+  "DAYS" | "CONSECUTIVE_DAYS" | "CURRENT_STREAK" | "WEEKENDS" | "STAT";
+
+// An achievement as stored, with its unlock rule, for the admin panel
+export interface AchievementDefinition {
+  id: string;
+  key: string;
+  title: string;
+  description: string;
+  icon: string;
+  category: string;
+  rarity: string;
+  points_awarded: number;
+  max_progress: number;
+  aggregation: AchievementAggregation | null;
+  condition: string | null;
+  stat: string | null;
+  window_days: number | null;
+  _count?: { UserAchievements: number };
+}
+
+export type AchievementDefinitionInput = Omit<
+  AchievementDefinition,
+  "id" | "_count"
+>;
+
+export interface AchievementCatalog {
+  achievements: AchievementDefinition[];
+  rules: {
+    aggregations: AchievementAggregation[];
+    metrics: string[];
+    stats: string[];
+  };
+}
+
+export type XpSource =
+  | "ACHIEVEMENT"
+  | "MEAL_COMPLETION"
+  | "MENU_MEAL_COMPLETION"
+  | "MEAL_PLAN_COMPLETION"
+  | "MIGRATION"
+  | "ADJUSTMENT";
+
+// Level and XP totals from the server's XP ledger. Every screen showing XP
+// should read these rather than summing achievements itself.
+export interface GamificationSummary {
+  level: number;
+  totalPoints: number;
+  currentXP: number;
+  nextLevelXP: number;
+  xpToNextLevel: number;
+  xpProgress: number;
+  unlockedAchievements: number;
+  totalAchievements: number;
+  achievementXP: number;
+  currentStreak: number;
+  bestStreak: number;
+  totalCompleteDays: number;
+}
+
+export interface XpTransaction {
+  transaction_id: string;
+  amount: number;
+  balance_after: number;
+  source: XpSource;
+  achievement_id: string | null;
+  reference_id: string | null;
+  description: string | null;
+  created_at: string;
+  achievement: { key: string; title: string; icon: string } | null;
+}
+
+export interface XpHistoryPage {
+  transactions: XpTransaction[];
+  next_cursor: string | null;
+}
+
+export type SecurityEventType =
+  | "SIGN_IN"
+  | "SIGN_IN_FAILED"
+  | "SUSPICIOUS_SIGN_IN"
+  | "TWO_FACTOR_FAILED"
+  | "ACCOUNT_LOCKED"
+  | "PASSWORD_RESET_REQUESTED"
+  | "PASSWORD_RESET_CODE_FAILED"
+  | "PASSWORD_RESET"
+  | "ADMIN_ROLE_CHANGED"
+  | "SUBSCRIPTION_CHANGED";
+
+export interface SecurityEvent {
+  event_id: string;
+  type: SecurityEventType;
+  user_id: string | null;
+  email: string | null;
+  actor_id: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  metadata: Record<string, any> | null;
+  created_at: string;
+  user: { name: string | null; email: string } | null;
+}
+
+export interface SecurityEventFilters {
+  type?: SecurityEventType;
+  email?: string;
+  user_id?: string;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface SecurityEventPage {
+  events: SecurityEvent[];
+  next_cursor: string | null;
+}
+
+export type JobStatus = "PENDING" | "RUNNING" | "COMPLETED" | "FAILED";
+
+export interface JobRun {
+  job_id: string;
+  type: string;
+  payload: Record<string, any>;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  locked_by: string | null;
+  last_error: string | null;
+  result: any;
+  triggered_by: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+  // Status counts of the per-user jobs this run fanned out to
+  children: Partial<Record<JobStatus, number>>;
+}
+
+export interface JobScheduleStatus {
+  type: string;
+  cron: string;
+  description: string;
+  lastRun: Pick<
+    JobRun,
+    "job_id" | "type" | "status" | "created_at" | "completed_at"
+  > | null;
+}
+
+export interface JobQueueStatus {
+  worker: { id: string; running: boolean; isProcessing: boolean };
+  schedules: JobScheduleStatus[];
+  counts: Partial<Record<JobStatus, number>>;
+  jobs: JobRun[];
+}
+
+export interface JobStatusFilters {
+  type?: string;
+  status?: JobStatus;
+  limit?: number;
+}
+
+export interface ShoppingListUser {
+  user_id: string;
+  name: string | null;
+}
+
+export interface ShoppingListSummary {
+  list_id: string;
+  name: string;
+  is_default: boolean;
+  is_owner: boolean;
+  owner: ShoppingListUser;
+  members: ShoppingListUser[];
+  pending_items: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ShoppingListItem {
+  id: string;
+  list_id?: string | null;
+  name: string;
+  quantity: number;
+  unit: string;
+  category?: string;
+  is_purchased: boolean;
+  added_from?: string;
+  estimated_cost?: number;
+  barcode?: string;
+  added_by?: ShoppingListUser | null;
+  purchased_by?: ShoppingListUser | null;
+  purchased_at?: string | null;
+  created_at?: string;
+}
+
+export type ShoppingListEventType =
+  | "ITEM_ADDED"
+  | "ITEM_UPDATED"
+  | "ITEM_REMOVED"
+  | "LIST_UPDATED"
+  | "MEMBER_ADDED"
+  | "MEMBER_REMOVED";
+
+export interface ShoppingListEvent {
+  event_id: string;
+  type: ShoppingListEventType;
+  item_id: string | null;
+  actor: ShoppingListUser | null;
+  data: Record<string, any> | null;
+  created_at: string;
+}
+
+export interface ShoppingListChanges {
+  events: ShoppingListEvent[];
+  // Pass back as `since` on the next poll
+  cursor: string;
+  has_more: boolean;
+}
+
+export type PantrySource = "shopping_list" | "scanner" | "manual";
+
+export interface PantryItem {
+  item_id: string;
+  name: string;
+  quantity: number;
+  unit: "g" | "ml" | "pieces";
+  category: string | null;
+  barcode: string | null;
+  expires_at: string | null;
+  source: PantrySource;
+  expired: boolean;
+  expiring_soon: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RecipeStep {
+  step_id: string;
+  position: number;
+  instruction: string;
+  duration_minutes: number | null;
+  equipment: string[];
+}
+
+export interface Recipe {
+  recipe_id: string;
+  servings: number;
+  equipment: string[];
+  steps: RecipeStep[];
+}
+
+// A recommended meal with its ingredients and recipe, as scaled
+export interface MealWithRecipe {
+  meal_id: string;
+  menu_id: string;
+  name: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number | null;
+  prep_time_minutes: number | null;
+  cooking_method: string | null;
+  instructions: string | null;
+  ingredients: Array<{
+    ingredient_id: string;
+    name: string;
+    quantity: number;
+    unit: string;
+    category: string | null;
+    estimated_cost: number | null;
+  }>;
+  recipe: Recipe;
+}
+
+export type MealTiming =
+  | "BREAKFAST"
+  | "LUNCH"
+  | "DINNER"
+  | "SNACK"
+  | "MORNING_SNACK"
+  | "AFTERNOON_SNACK";
+
+export interface UserRecipeIngredient {
+  ingredient_id: string;
+  position: number;
+  name: string;
+  quantity: number;
+  unit: string;
+  barcode: string | null;
+  // Of the whole quantity; null when no nutrition data was found for it
+  grams: number | null;
+  calories: number | null;
+  protein_g: number | null;
+  carbs_g: number | null;
+  fats_g: number | null;
+  fiber_g: number | null;
+  nutrition_source: "catalog" | "food_product" | null;
+}
+
+// A recipe the user wrote, with nutrition per serving
+export interface UserRecipe {
+  user_recipe_id: string;
+  name: string;
+  description: string | null;
+  meal_timing: MealTiming | null;
+  prep_time_minutes: number | null;
+  servings: number;
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fats_g: number;
+  fiber_g: number;
+  ingredients: UserRecipeIngredient[];
+  unmatched_ingredients: string[];
+  recipe: Recipe | null;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface AIResponse {
   success: boolean;
   data?: MealAnalysisData;
@@ -319,3 +726,84 @@ export interface MealAnalysis {
     sugar?: number;
   }>;
 }
+
+// AI chat threads, as returned by /chat/conversations
+export interface ChatConversation {
+  conversation_id: string;
+  title: string;
+  title_is_custom: boolean;
+  is_pinned: boolean;
+  is_archived: boolean;
+  archived_at: string | null;
+  last_message_at: string;
+  created_at: string;
+  message_count?: number;
+  preview?: string | null;
+}
+
+// A write proposed by the chat coach; nothing changes until it is confirmed
+export interface ChatAction {
+  action_id: string;
+  tool: string;
+  summary: string;
+  status: "PENDING" | "CONFIRMED" | "CANCELLED" | "FAILED" | "EXPIRED";
+  expires_at: string;
+  result?: any;
+  error?: string | null;
+}
+
+export interface ChatSearchResult {
+  message_id: number;
+  conversation_id: string | null;
+  conversation_title: string | null;
+  user_message: string;
+  ai_response: string;
+  snippet: string;
+  created_at: string;
+}
+
+// Plan entitlements, as returned by /user/entitlements and /user/plans
+export interface QuotaStatus {
+  used: number;
+  limit: number | null; // null = unlimited
+  remaining: number | null;
+  unlimited: boolean;
+  resetAt: string | null;
+}
+
+export interface PlanSummary {
+  type: string;
+  name: string;
+  description: string;
+  price: { amount: number; currency: string; billingPeriodDays: number } | null;
+  features: {
+    aiChat: boolean;
+    aiRecommendations: boolean;
+    dailyGoals: boolean;
+    deviceIntegration: boolean;
+    fullQuestionnaire: boolean;
+  };
+  limits: {
+    mealScansPerMonth: number | null;
+    aiChatTokensPerMonth: number | null;
+    aiChatMessagesEstimate: number | null;
+    aiRecommendationsPerWeek: number;
+    dailyGoalsPerWeek: number;
+    questionnaireRetentionDays: number | null;
+  };
+}
+
+export interface UserEntitlements {
+  plan: PlanSummary;
+  subscription: {
+    start: string | null;
+    end: string | null;
+  };
+  quotas: {
+    mealScans: QuotaStatus;
+    aiChatTokens: QuotaStatus & {
+      messagesUsed: number;
+      messagesEstimate: number | null;
+    };
+  };
+}
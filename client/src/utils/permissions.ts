@@ -0,0 +1,14 @@
+import { Permission, User } from "../types";
+
+// Staff accounts hold at least one role; the server checks permissions on
+// every admin request, these only decide what to show
+export function isStaff(user: User | null | undefined) {
+  return !!user?.roles?.length;
+}
+
+export function hasPermission(
+  user: User | null | undefined,
+  permission: Permission
+) {
+  return !!user?.permissions?.includes(permission);
+}
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "public"."push_tokens" (
+    "push_token_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "platform" TEXT,
+    "device_name" TEXT,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "last_seen_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "invalidated_at" TIMESTAMP(3),
+    "invalid_reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "push_tokens_pkey" PRIMARY KEY ("push_token_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "push_tokens_token_key" ON "public"."push_tokens"("token");
+
+-- CreateIndex
+CREATE INDEX "push_tokens_user_id_is_active_idx" ON "public"."push_tokens"("user_id", "is_active");
+
+-- AddForeignKey
+ALTER TABLE "public"."push_tokens" ADD CONSTRAINT "push_tokens_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
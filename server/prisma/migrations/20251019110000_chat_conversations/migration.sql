@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "public"."chat_conversations" (
+    "conversation_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "title_is_custom" BOOLEAN NOT NULL DEFAULT false,
+    "is_pinned" BOOLEAN NOT NULL DEFAULT false,
+    "is_archived" BOOLEAN NOT NULL DEFAULT false,
+    "archived_at" TIMESTAMP(3),
+    "last_message_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "chat_conversations_pkey" PRIMARY KEY ("conversation_id")
+);
+
+-- AlterTable
+ALTER TABLE "public"."ChatMessage" ADD COLUMN "conversation_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "chat_conversations_user_id_is_archived_last_message_at_idx" ON "public"."chat_conversations"("user_id", "is_archived", "last_message_at");
+
+-- CreateIndex
+CREATE INDEX "ChatMessage_conversation_id_created_at_idx" ON "public"."ChatMessage"("conversation_id", "created_at");
+
+-- Full-text search over past exchanges (queried with raw SQL, not managed by Prisma)
+CREATE INDEX "ChatMessage_search_idx" ON "public"."ChatMessage" USING GIN (to_tsvector('simple', "user_message" || ' ' || "ai_response"));
+
+-- AddForeignKey
+ALTER TABLE "public"."chat_conversations" ADD CONSTRAINT "chat_conversations_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ChatMessage" ADD CONSTRAINT "ChatMessage_conversation_id_fkey" FOREIGN KEY ("conversation_id") REFERENCES "public"."chat_conversations"("conversation_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Move each user's existing flat history into a single conversation
+INSERT INTO "public"."chat_conversations" ("conversation_id", "user_id", "title", "last_message_at", "created_at", "updated_at")
+SELECT 'legacy_' || m."user_id", m."user_id", 'Previous conversation', MAX(m."created_at"), MIN(m."created_at"), CURRENT_TIMESTAMP
+FROM "public"."ChatMessage" m
+JOIN "public"."User" u ON u."user_id" = m."user_id"
+GROUP BY m."user_id";
+
+UPDATE "public"."ChatMessage" SET "conversation_id" = 'legacy_' || "user_id"
+WHERE "conversation_id" IS NULL
+  AND EXISTS (SELECT 1 FROM "public"."chat_conversations" c WHERE c."conversation_id" = 'legacy_' || "ChatMessage"."user_id");
@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "public"."DeviceBackfillSource" AS ENUM ('PROVIDER', 'CLIENT');
+
+-- CreateEnum
+CREATE TYPE "public"."DeviceBackfillStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "public"."device_backfills" (
+    "backfill_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "device_id" TEXT NOT NULL,
+    "source" "public"."DeviceBackfillSource" NOT NULL,
+    "status" "public"."DeviceBackfillStatus" NOT NULL DEFAULT 'RUNNING',
+    "start_date" DATE NOT NULL,
+    "end_date" DATE NOT NULL,
+    "days_total" INTEGER NOT NULL,
+    "processed_through" DATE,
+    "days_written" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "completed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "device_backfills_pkey" PRIMARY KEY ("backfill_id")
+);
+
+-- CreateIndex
+CREATE INDEX "device_backfills_device_id_status_idx" ON "public"."device_backfills"("device_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "public"."device_backfills" ADD CONSTRAINT "device_backfills_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."device_backfills" ADD CONSTRAINT "device_backfills_device_id_fkey" FOREIGN KEY ("device_id") REFERENCES "public"."connected_devices"("connected_device_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "public"."sessions" ALTER COLUMN "token" DROP NOT NULL,
+ADD COLUMN     "refresh_token_hash" TEXT,
+ADD COLUMN     "device_name" TEXT,
+ADD COLUMN     "platform" TEXT,
+ADD COLUMN     "user_agent" TEXT,
+ADD COLUMN     "ip_address" TEXT,
+ADD COLUMN     "last_seen_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sessions_refresh_token_hash_key" ON "public"."sessions"("refresh_token_hash");
+
+-- CreateIndex
+CREATE INDEX "sessions_user_id_idx" ON "public"."sessions"("user_id");
@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "public"."IdentityProvider" AS ENUM ('GOOGLE', 'APPLE');
+
+-- AlterTable
+ALTER TABLE "public"."User" ALTER COLUMN "password_hash" DROP NOT NULL;
+
+-- CreateTable
+CREATE TABLE "public"."user_identities" (
+    "identity_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "provider" "public"."IdentityProvider" NOT NULL,
+    "subject" TEXT NOT NULL,
+    "email" TEXT,
+    "last_used_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_identities_pkey" PRIMARY KEY ("identity_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_identities_provider_subject_key" ON "public"."user_identities"("provider", "subject");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_identities_user_id_provider_key" ON "public"."user_identities"("user_id", "provider");
+
+-- AddForeignKey
+ALTER TABLE "public"."user_identities" ADD CONSTRAINT "user_identities_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "totp_secret" TEXT,
+ADD COLUMN     "totp_enabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "totp_enabled_at" TIMESTAMP(3),
+ADD COLUMN     "totp_last_used_step" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."two_factor_recovery_codes" (
+    "code_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "code_hash" TEXT NOT NULL,
+    "used_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "two_factor_recovery_codes_pkey" PRIMARY KEY ("code_id")
+);
+
+-- CreateIndex
+CREATE INDEX "two_factor_recovery_codes_user_id_idx" ON "public"."two_factor_recovery_codes"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."two_factor_recovery_codes" ADD CONSTRAINT "two_factor_recovery_codes_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "public"."SecurityEventType" AS ENUM ('SIGN_IN', 'SIGN_IN_FAILED', 'SUSPICIOUS_SIGN_IN', 'TWO_FACTOR_FAILED', 'ACCOUNT_LOCKED', 'PASSWORD_RESET_REQUESTED', 'PASSWORD_RESET_CODE_FAILED', 'PASSWORD_RESET', 'ADMIN_ROLE_CHANGED', 'SUBSCRIPTION_CHANGED');
+
+-- CreateTable
+CREATE TABLE "public"."security_events" (
+    "event_id" TEXT NOT NULL,
+    "type" "public"."SecurityEventType" NOT NULL,
+    "user_id" TEXT,
+    "email" TEXT,
+    "actor_id" TEXT,
+    "ip_address" TEXT,
+    "user_agent" TEXT,
+    "metadata" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "security_events_pkey" PRIMARY KEY ("event_id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."login_throttles" (
+    "throttle_key" TEXT NOT NULL,
+    "failures" INTEGER NOT NULL DEFAULT 0,
+    "lockouts" INTEGER NOT NULL DEFAULT 0,
+    "locked_until" TIMESTAMP(3),
+    "last_failure_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "login_throttles_pkey" PRIMARY KEY ("throttle_key")
+);
+
+-- CreateIndex
+CREATE INDEX "security_events_user_id_created_at_idx" ON "public"."security_events"("user_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "security_events_type_created_at_idx" ON "public"."security_events"("type", "created_at");
+
+-- CreateIndex
+CREATE INDEX "security_events_created_at_idx" ON "public"."security_events"("created_at");
+
+-- CreateIndex
+CREATE INDEX "login_throttles_last_failure_at_idx" ON "public"."login_throttles"("last_failure_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."security_events" ADD CONSTRAINT "security_events_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "public"."StaffRole" AS ENUM ('SUPPORT_AGENT', 'CONTENT_EDITOR', 'DIETITIAN', 'SUPER_ADMIN');
+
+-- CreateTable
+CREATE TABLE "public"."user_roles" (
+    "user_id" TEXT NOT NULL,
+    "role" "public"."StaffRole" NOT NULL,
+    "granted_by" TEXT,
+    "granted_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_roles_pkey" PRIMARY KEY ("user_id","role")
+);
+
+-- Carry over the old flags: super admins keep full access, plain admins
+-- become support agents
+INSERT INTO "public"."user_roles" ("user_id", "role")
+SELECT "user_id", 'SUPER_ADMIN' FROM "public"."User" WHERE "is_super_admin" = true;
+
+INSERT INTO "public"."user_roles" ("user_id", "role")
+SELECT "user_id", 'SUPPORT_AGENT' FROM "public"."User" WHERE "is_admin" = true AND "is_super_admin" = false;
+
+-- AlterTable
+ALTER TABLE "public"."User" DROP COLUMN "is_admin",
+DROP COLUMN "is_super_admin";
+
+-- AddForeignKey
+ALTER TABLE "public"."user_roles" ADD CONSTRAINT "user_roles_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
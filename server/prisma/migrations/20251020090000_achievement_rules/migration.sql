@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "public"."AchievementAggregation" AS ENUM ('DAYS', 'CONSECUTIVE_DAYS', 'CURRENT_STREAK', 'WEEKENDS', 'STAT');
+
+-- AlterTable
+ALTER TABLE "public"."Achievement" ADD COLUMN     "aggregation" "public"."AchievementAggregation",
+ADD COLUMN     "condition" TEXT,
+ADD COLUMN     "stat" TEXT,
+ADD COLUMN     "window_days" INTEGER;
+
+-- Rules for the seeded achievements (prisma/seed-achievements.csv)
+UPDATE "public"."Achievement" AS a
+SET "aggregation" = r."aggregation"::"public"."AchievementAggregation",
+    "condition" = r."condition",
+    "stat" = r."stat"
+FROM (VALUES
+    ('first_scan', 'DAYS', 'meals_logged >= 1', NULL),
+    ('first_water_goal', 'DAYS', 'water_cups >= 8', NULL),
+    ('first_complete_day', 'STAT', NULL, 'total_complete_days'),
+    ('streak_3_days', 'STAT', NULL, 'current_streak'),
+    ('streak_7_days', 'STAT', NULL, 'current_streak'),
+    ('streak_14_days', 'STAT', NULL, 'current_streak'),
+    ('streak_30_days', 'STAT', NULL, 'current_streak'),
+    ('streak_100_days', 'STAT', NULL, 'current_streak'),
+    ('water_warrior', 'DAYS', 'water_cups >= 10', NULL),
+    ('hydration_habit', 'CONSECUTIVE_DAYS', 'water_cups >= 8', NULL),
+    ('aqua_master', 'DAYS', 'water_cups >= 8', NULL),
+    ('total_5_days', 'STAT', NULL, 'total_complete_days'),
+    ('total_10_days', 'STAT', NULL, 'total_complete_days'),
+    ('total_25_days', 'STAT', NULL, 'total_complete_days'),
+    ('total_50_days', 'STAT', NULL, 'total_complete_days'),
+    ('total_100_days', 'STAT', NULL, 'total_complete_days'),
+    ('calorie_champion', 'CONSECUTIVE_DAYS', 'calorie_goal_pct >= 90 && calorie_goal_pct <= 110', NULL),
+    ('protein_power', 'DAYS', 'protein_g >= 100', NULL),
+    ('balanced_week', 'CONSECUTIVE_DAYS', 'macro_goals_met >= 3', NULL),
+    ('level_5', 'STAT', NULL, 'level'),
+    ('level_10', 'STAT', NULL, 'level'),
+    ('level_25', 'STAT', NULL, 'level'),
+    ('level_50', 'STAT', NULL, 'level'),
+    ('early_bird', 'DAYS', 'first_meal_hour < 8', NULL),
+    ('night_owl', 'DAYS', 'last_meal_hour >= 22', NULL),
+    ('weekend_warrior', 'WEEKENDS', 'water_cups >= 8 && calorie_goal_pct >= 90 && calorie_goal_pct <= 110', NULL),
+    ('consistency_king', 'CONSECUTIVE_DAYS', 'meals_logged >= 1', NULL),
+    ('macro_master', 'DAYS', 'carbs_pct >= 35 && carbs_pct <= 45 && protein_pct >= 25 && protein_pct <= 35 && fats_pct >= 25 && fats_pct <= 35', NULL),
+    ('fiber_friend', 'DAYS', 'fiber_g >= 35', NULL),
+    ('iron_will', 'STAT', NULL, 'total_complete_days')
+) AS r ("key", "aggregation", "condition", "stat")
+WHERE a."key" = r."key";
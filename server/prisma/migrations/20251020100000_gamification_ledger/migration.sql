@@ -0,0 +1,93 @@
+-- CreateEnum
+CREATE TYPE "public"."XpSource" AS ENUM ('ACHIEVEMENT', 'MEAL_COMPLETION', 'MENU_MEAL_COMPLETION', 'MEAL_PLAN_COMPLETION', 'MIGRATION', 'ADJUSTMENT');
+
+-- CreateTable
+CREATE TABLE "public"."xp_transactions" (
+    "transaction_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "balance_after" INTEGER NOT NULL,
+    "source" "public"."XpSource" NOT NULL,
+    "achievement_id" TEXT,
+    "reference_id" TEXT,
+    "description" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "xp_transactions_pkey" PRIMARY KEY ("transaction_id")
+);
+
+-- CreateIndex
+CREATE INDEX "xp_transactions_user_id_created_at_idx" ON "public"."xp_transactions"("user_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."xp_transactions" ADD CONSTRAINT "xp_transactions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."xp_transactions" ADD CONSTRAINT "xp_transactions_achievement_id_fkey" FOREIGN KEY ("achievement_id") REFERENCES "public"."Achievement"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Calendar badges become catalog achievements. "Week Warrior" and "Monthly
+-- Master" already exist as streak_7_days and streak_30_days.
+INSERT INTO "public"."Achievement" ("id", "key", "title", "description", "icon", "rarity", "category", "points_awarded", "max_progress", "aggregation", "condition", "window_days", "updated_at")
+VALUES
+    ('ach_031', 'monthly_champion', 'Monthly Champion', 'Meet your calorie goal on 27 of the last 30 days', '🥇', 'EPIC', 'GOAL', 200, 27, 'DAYS', 'calorie_goal_pct >= 90', 30, CURRENT_TIMESTAMP),
+    ('ach_032', 'quality_king', 'Quality King', 'Hit your calorie and all macro goals on 5 days', '💎', 'RARE', 'GOAL', 150, 5, 'DAYS', 'macro_goals_met >= 3 && calorie_goal_pct >= 90 && calorie_goal_pct <= 110', NULL, CURRENT_TIMESTAMP),
+    ('ach_033', 'consistency_master', 'Consistency Master', 'Meet your calorie goal on 15 of the last 30 days', '⭐', 'UNCOMMON', 'GOAL', 120, 15, 'DAYS', 'calorie_goal_pct >= 90', 30, CURRENT_TIMESTAMP)
+ON CONFLICT ("key") DO NOTHING;
+
+-- Calendar badges were re-awarded every 30 days; the first award is the unlock
+INSERT INTO "public"."UserAchievement" ("id", "user_id", "achievement_id", "progress", "unlocked", "unlocked_date")
+SELECT gen_random_uuid()::text, g."user_id", a."id", a."max_progress", true, MIN(g."achieved_at")
+FROM "public"."gamification_badges" g
+JOIN (VALUES
+    ('Week Warrior', 'streak_7_days'),
+    ('Monthly Master', 'streak_30_days'),
+    ('Monthly Champion', 'monthly_champion'),
+    ('Quality King', 'quality_king'),
+    ('Consistency Master', 'consistency_master')
+) AS m ("name", "key") ON m."name" = g."name"
+JOIN "public"."Achievement" a ON a."key" = m."key"
+GROUP BY g."user_id", a."id", a."max_progress"
+ON CONFLICT ("user_id", "achievement_id") DO UPDATE
+SET "unlocked" = true,
+    "progress" = EXCLUDED."progress",
+    "unlocked_date" = LEAST(COALESCE("UserAchievement"."unlocked_date", EXCLUDED."unlocked_date"), EXCLUDED."unlocked_date");
+
+-- Manually granted badges join the catalog without a rule, so they are
+-- never unlocked automatically
+INSERT INTO "public"."Achievement" ("id", "key", "title", "description", "icon", "rarity", "category", "points_awarded", "max_progress", "created_at", "updated_at")
+SELECT b."id", 'badge_' || trim(BOTH '_' FROM lower(regexp_replace(b."name", '[^a-zA-Z0-9]+', '_', 'g'))), b."name", b."description", b."icon", b."rarity"::text, upper(b."category"), b."points_awarded", 1, b."created_at", CURRENT_TIMESTAMP
+FROM "public"."Badge" b
+ON CONFLICT DO NOTHING;
+
+INSERT INTO "public"."UserAchievement" ("id", "user_id", "achievement_id", "progress", "unlocked", "unlocked_date")
+SELECT gen_random_uuid()::text, ub."user_id", a."id", 1, true, MIN(ub."earned_date")
+FROM "public"."UserBadge" ub
+JOIN "public"."Badge" b ON b."id" = ub."badge_id"
+JOIN "public"."Achievement" a ON a."key" = 'badge_' || trim(BOTH '_' FROM lower(regexp_replace(b."name", '[^a-zA-Z0-9]+', '_', 'g')))
+GROUP BY ub."user_id", a."id"
+ON CONFLICT ("user_id", "achievement_id") DO NOTHING;
+
+-- Existing XP becomes the opening balance of the ledger. Level and current_xp
+-- are recomputed from it (100 XP per level) since some writers only bumped
+-- current_xp.
+INSERT INTO "public"."xp_transactions" ("transaction_id", "user_id", "amount", "balance_after", "source", "description")
+SELECT gen_random_uuid()::text, "user_id", "total_points", "total_points", 'MIGRATION', 'Opening balance'
+FROM "public"."User"
+WHERE "total_points" > 0;
+
+UPDATE "public"."User"
+SET "total_points" = GREATEST(COALESCE("total_points", 0), 0),
+    "current_xp" = GREATEST(COALESCE("total_points", 0), 0) % 100,
+    "level" = GREATEST(COALESCE("total_points", 0), 0) / 100 + 1;
+
+-- DropTable
+DROP TABLE "public"."gamification_badges";
+
+-- DropTable
+DROP TABLE "public"."UserBadge";
+
+-- DropTable
+DROP TABLE "public"."Badge";
+
+-- DropEnum
+DROP TYPE "public"."BadgeRarity";
@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "public"."JobStatus" AS ENUM ('PENDING', 'RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "public"."jobs" (
+    "job_id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "payload" JSONB NOT NULL DEFAULT '{}',
+    "status" "public"."JobStatus" NOT NULL DEFAULT 'PENDING',
+    "dedupe_key" TEXT,
+    "parent_id" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "max_attempts" INTEGER NOT NULL DEFAULT 5,
+    "run_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "locked_by" TEXT,
+    "locked_until" TIMESTAMP(3),
+    "last_error" TEXT,
+    "result" JSONB,
+    "triggered_by" TEXT,
+    "started_at" TIMESTAMP(3),
+    "completed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "jobs_pkey" PRIMARY KEY ("job_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "jobs_dedupe_key_key" ON "public"."jobs"("dedupe_key");
+
+-- CreateIndex
+CREATE INDEX "jobs_status_run_at_idx" ON "public"."jobs"("status", "run_at");
+
+-- CreateIndex
+CREATE INDEX "jobs_type_created_at_idx" ON "public"."jobs"("type", "created_at");
+
+-- CreateIndex
+CREATE INDEX "jobs_parent_id_status_idx" ON "public"."jobs"("parent_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "public"."jobs" ADD CONSTRAINT "jobs_parent_id_fkey" FOREIGN KEY ("parent_id") REFERENCES "public"."jobs"("job_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,90 @@
+-- CreateEnum
+CREATE TYPE "public"."ShoppingListEventType" AS ENUM ('ITEM_ADDED', 'ITEM_UPDATED', 'ITEM_REMOVED', 'LIST_UPDATED', 'MEMBER_ADDED', 'MEMBER_REMOVED');
+
+-- AlterTable
+ALTER TABLE "public"."shopping_list" ADD COLUMN     "added_by" TEXT,
+ADD COLUMN     "list_id" TEXT,
+ADD COLUMN     "purchased_at" TIMESTAMP(3),
+ADD COLUMN     "purchased_by" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."shopping_lists" (
+    "list_id" TEXT NOT NULL,
+    "owner_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "is_default" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "shopping_lists_pkey" PRIMARY KEY ("list_id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."shopping_list_members" (
+    "list_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "added_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "shopping_list_members_pkey" PRIMARY KEY ("list_id","user_id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."shopping_list_events" (
+    "event_id" TEXT NOT NULL,
+    "list_id" TEXT NOT NULL,
+    "item_id" TEXT,
+    "actor_id" TEXT,
+    "type" "public"."ShoppingListEventType" NOT NULL,
+    "data" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "shopping_list_events_pkey" PRIMARY KEY ("event_id")
+);
+
+-- CreateIndex
+CREATE INDEX "shopping_lists_owner_id_idx" ON "public"."shopping_lists"("owner_id");
+
+-- One default list per owner
+CREATE UNIQUE INDEX "shopping_lists_owner_id_default_key" ON "public"."shopping_lists"("owner_id") WHERE "is_default";
+
+-- CreateIndex
+CREATE INDEX "shopping_list_members_user_id_idx" ON "public"."shopping_list_members"("user_id");
+
+-- CreateIndex
+CREATE INDEX "shopping_list_events_list_id_created_at_idx" ON "public"."shopping_list_events"("list_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "shopping_list_list_id_idx" ON "public"."shopping_list"("list_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."shopping_lists" ADD CONSTRAINT "shopping_lists_owner_id_fkey" FOREIGN KEY ("owner_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."shopping_list_members" ADD CONSTRAINT "shopping_list_members_list_id_fkey" FOREIGN KEY ("list_id") REFERENCES "public"."shopping_lists"("list_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."shopping_list_members" ADD CONSTRAINT "shopping_list_members_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."shopping_list" ADD CONSTRAINT "shopping_list_list_id_fkey" FOREIGN KEY ("list_id") REFERENCES "public"."shopping_lists"("list_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."shopping_list" ADD CONSTRAINT "shopping_list_added_by_fkey" FOREIGN KEY ("added_by") REFERENCES "public"."User"("user_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."shopping_list" ADD CONSTRAINT "shopping_list_purchased_by_fkey" FOREIGN KEY ("purchased_by") REFERENCES "public"."User"("user_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."shopping_list_events" ADD CONSTRAINT "shopping_list_events_list_id_fkey" FOREIGN KEY ("list_id") REFERENCES "public"."shopping_lists"("list_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing items move to a default list per user, attributed to that user
+INSERT INTO "public"."shopping_lists" ("list_id", "owner_id", "name", "is_default", "updated_at")
+SELECT gen_random_uuid()::text, "user_id", 'Shopping list', true, CURRENT_TIMESTAMP
+FROM "public"."shopping_list"
+GROUP BY "user_id";
+
+UPDATE "public"."shopping_list" i
+SET "list_id" = l."list_id", "added_by" = i."user_id"
+FROM "public"."shopping_lists" l
+WHERE l."owner_id" = i."user_id" AND l."is_default" = true;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "public"."pantry_items" (
+    "item_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "ingredient_key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "quantity" DOUBLE PRECISION NOT NULL,
+    "unit" TEXT NOT NULL,
+    "category" TEXT,
+    "barcode" TEXT,
+    "expires_at" TIMESTAMP(3),
+    "source" TEXT NOT NULL DEFAULT 'manual',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "pantry_items_pkey" PRIMARY KEY ("item_id")
+);
+
+-- CreateIndex
+CREATE INDEX "pantry_items_user_id_ingredient_key_idx" ON "public"."pantry_items"("user_id", "ingredient_key");
+
+-- AddForeignKey
+ALTER TABLE "public"."pantry_items" ADD CONSTRAINT "pantry_items_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "public"."recipes" (
+    "recipe_id" TEXT NOT NULL,
+    "meal_id" TEXT,
+    "template_id" TEXT,
+    "servings" INTEGER NOT NULL DEFAULT 1,
+    "equipment" TEXT[],
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "recipes_pkey" PRIMARY KEY ("recipe_id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."recipe_steps" (
+    "step_id" TEXT NOT NULL,
+    "recipe_id" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "instruction" TEXT NOT NULL,
+    "duration_minutes" INTEGER,
+    "equipment" TEXT[],
+
+    CONSTRAINT "recipe_steps_pkey" PRIMARY KEY ("step_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "recipes_meal_id_key" ON "public"."recipes"("meal_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "recipes_template_id_key" ON "public"."recipes"("template_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "recipe_steps_recipe_id_position_key" ON "public"."recipe_steps"("recipe_id", "position");
+
+-- AddForeignKey
+ALTER TABLE "public"."recipes" ADD CONSTRAINT "recipes_meal_id_fkey" FOREIGN KEY ("meal_id") REFERENCES "public"."recommended_meals"("meal_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."recipes" ADD CONSTRAINT "recipes_template_id_fkey" FOREIGN KEY ("template_id") REFERENCES "public"."meal_templates"("template_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."recipe_steps" ADD CONSTRAINT "recipe_steps_recipe_id_fkey" FOREIGN KEY ("recipe_id") REFERENCES "public"."recipes"("recipe_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,59 @@
+-- AlterTable
+ALTER TABLE "public"."recipes" ADD COLUMN     "user_recipe_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."user_recipes" (
+    "user_recipe_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "meal_timing" "public"."MealTiming",
+    "prep_time_minutes" INTEGER,
+    "calories" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "protein_g" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "carbs_g" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "fats_g" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "fiber_g" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "user_recipes_pkey" PRIMARY KEY ("user_recipe_id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."user_recipe_ingredients" (
+    "ingredient_id" TEXT NOT NULL,
+    "user_recipe_id" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "quantity" DOUBLE PRECISION NOT NULL,
+    "unit" TEXT NOT NULL,
+    "barcode" TEXT,
+    "grams" DOUBLE PRECISION,
+    "calories" DOUBLE PRECISION,
+    "protein_g" DOUBLE PRECISION,
+    "carbs_g" DOUBLE PRECISION,
+    "fats_g" DOUBLE PRECISION,
+    "fiber_g" DOUBLE PRECISION,
+    "nutrition_source" TEXT,
+
+    CONSTRAINT "user_recipe_ingredients_pkey" PRIMARY KEY ("ingredient_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "recipes_user_recipe_id_key" ON "public"."recipes"("user_recipe_id");
+
+-- CreateIndex
+CREATE INDEX "user_recipes_user_id_idx" ON "public"."user_recipes"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_recipe_ingredients_user_recipe_id_position_key" ON "public"."user_recipe_ingredients"("user_recipe_id", "position");
+
+-- AddForeignKey
+ALTER TABLE "public"."recipes" ADD CONSTRAINT "recipes_user_recipe_id_fkey" FOREIGN KEY ("user_recipe_id") REFERENCES "public"."user_recipes"("user_recipe_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."user_recipes" ADD CONSTRAINT "user_recipes_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."user_recipe_ingredients" ADD CONSTRAINT "user_recipe_ingredients_user_recipe_id_fkey" FOREIGN KEY ("user_recipe_id") REFERENCES "public"."user_recipes"("user_recipe_id") ON DELETE CASCADE ON UPDATE CASCADE;
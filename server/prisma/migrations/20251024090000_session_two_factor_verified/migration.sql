@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."sessions" ADD COLUMN     "two_factor_verified" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,125 @@
+import * as dotenv from "dotenv";
+import * as fs from "fs";
+import * as path from "path";
+
+// Load environment variables from the project root .env file
+const envPath = path.resolve(__dirname, "../../.env");
+dotenv.config({ path: envPath });
+
+// Also try to load from server/.env if it exists
+dotenv.config();
+
+const ACHIEVEMENTS_CSV = path.resolve(__dirname, "seed-achievements.csv");
+
+// Minimal CSV reader: comma separated, double quotes around fields that
+// contain commas or quotes
+function parseCsv(content: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...records] = rows.filter((cells) => cells.some(Boolean));
+  return records.map((cells) =>
+    Object.fromEntries(header.map((name, index) => [name, cells[index] ?? ""]))
+  );
+}
+
+// Achievements are matched by key, so re-running the seed updates titles,
+// rewards and rules without touching what users have unlocked
+async function seedAchievements() {
+  const { prisma } = await import("../src/lib/database");
+  const { AchievementRuleEngine } = await import(
+    "../src/services/achievementRules"
+  );
+  const { achievementSchema } = await import("../src/types/achivements");
+
+  try {
+    const rows = parseCsv(fs.readFileSync(ACHIEVEMENTS_CSV, "utf8"));
+    console.log(`🏆 Seeding ${rows.length} achievements...`);
+
+    let failed = 0;
+    for (const row of rows) {
+      const validation = achievementSchema.safeParse({
+        ...row,
+        points_awarded: Number(row.points_awarded),
+        max_progress: Number(row.max_progress),
+        aggregation: row.aggregation || null,
+        condition: row.condition || null,
+        stat: row.stat || null,
+        window_days: row.window_days ? Number(row.window_days) : null,
+      });
+      if (!validation.success) {
+        console.error(
+          `❌ ${row.key}: ${validation.error.errors
+            .map((issue) => `${issue.path.join(".")} ${issue.message}`)
+            .join(", ")}`
+        );
+        failed++;
+        continue;
+      }
+
+      try {
+        AchievementRuleEngine.validate(validation.data);
+      } catch (error) {
+        console.error(
+          `❌ ${row.key}: ${error instanceof Error ? error.message : error}`
+        );
+        failed++;
+        continue;
+      }
+
+      await prisma.achievement.upsert({
+        where: { key: validation.data.key },
+        update: validation.data,
+        create: { ...(row.id && { id: row.id }), ...validation.data },
+      });
+    }
+
+    if (failed > 0) {
+      console.log(`⚠️  ${failed} achievements were skipped.`);
+      process.exitCode = 1;
+    } else {
+      console.log("\n🎉 Done!");
+    }
+  } catch (error) {
+    console.error("❌ Error seeding achievements:", error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Usage: npm run db:seed
+seedAchievements();
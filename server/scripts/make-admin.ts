@@ -1,4 +1,4 @@
-import { PrismaClient } from "@prisma/client";
+import { PrismaClient, StaffRole } from "@prisma/client";
 import * as dotenv from "dotenv";
 import * as path from "path";
 
@@ -14,9 +14,9 @@ console.log("🔍 DATABASE_URL exists:", !!process.env.DATABASE_URL);
 
 const prisma = new PrismaClient();
 
-async function makeUserAdmin(email: string) {
+async function grantRole(email: string, role: StaffRole) {
   try {
-    console.log(`🔧 Making user ${email} an admin...`);
+    console.log(`🔧 Granting ${role} to ${email}...`);
 
     const user = await prisma.user.findUnique({
       where: { email },
@@ -24,8 +24,8 @@ async function makeUserAdmin(email: string) {
         user_id: true,
         email: true,
         name: true,
-        is_admin: true,
-        is_super_admin: true,
+        totp_enabled: true,
+        roles: { select: { role: true } },
       },
     });
 
@@ -37,56 +37,63 @@ async function makeUserAdmin(email: string) {
     console.log("📋 Current user status:");
     console.log(`   Name: ${user.name}`);
     console.log(`   Email: ${user.email}`);
-    console.log(`   Is Admin: ${user.is_admin}`);
-    console.log(`   Is Super Admin: ${user.is_super_admin}`);
+    console.log(
+      `   Roles: ${user.roles.map(({ role }) => role).join(", ") || "none"}`
+    );
 
-    if (user.is_admin && user.is_super_admin) {
-      console.log("✅ User is already a super admin");
+    if (user.roles.some((existing) => existing.role === role)) {
+      console.log(`✅ User already has ${role}`);
       process.exit(0);
     }
 
-    const updatedUser = await prisma.user.update({
-      where: { email },
-      data: {
-        is_admin: true,
-        is_super_admin: true,
-      },
-      select: {
-        user_id: true,
-        email: true,
-        name: true,
-        is_admin: true,
-        is_super_admin: true,
-      },
-    });
+    // Same audit trail as grants from the admin panel; no actor since this
+    // runs with direct database access
+    await prisma.$transaction([
+      prisma.userRole.create({
+        data: { user_id: user.user_id, role },
+      }),
+      prisma.securityEvent.create({
+        data: {
+          type: "ADMIN_ROLE_CHANGED",
+          user_id: user.user_id,
+          email: user.email,
+          metadata: {
+            action: "grant",
+            role,
+            roles: [...user.roles.map((existing) => existing.role), role],
+            source: "make-admin",
+          },
+        },
+      }),
+    ]);
 
-    console.log("✅ User updated successfully!");
-    console.log("📋 Updated user status:");
-    console.log(`   Name: ${updatedUser.name}`);
-    console.log(`   Email: ${updatedUser.email}`);
-    console.log(`   Is Admin: ${updatedUser.is_admin}`);
-    console.log(`   Is Super Admin: ${updatedUser.is_super_admin}`);
+    console.log(`✅ ${role} granted to ${user.email}`);
 
-    console.log("\n🎉 Done! User can now access admin features.");
-    console.log(
-      "⚠️  Please log out and log back in for changes to take effect."
-    );
+    if (!user.totp_enabled) {
+      console.log(
+        "⚠️  Staff access also needs two-factor authentication. Turn it on from the profile screen before opening the admin panel."
+      );
+    }
   } catch (error) {
-    console.error("❌ Error making user admin:", error);
+    console.error("❌ Error granting role:", error);
     process.exit(1);
   } finally {
     await prisma.$disconnect();
   }
 }
 
-// Get email from command line arguments
+// Get email and optional role from command line arguments
 const email = process.argv[2];
+const role = (process.argv[3] || "SUPER_ADMIN").toUpperCase();
 
-if (!email) {
-  console.error("❌ Please provide an email address");
-  console.error("Usage: npm run make-admin <email>");
+if (!email || !(role in StaffRole)) {
+  console.error("❌ Please provide an email address and a valid role");
+  console.error("Usage: npm run make-admin <email> [role]");
+  console.error(
+    `Roles: ${Object.keys(StaffRole).join(", ")} (default SUPER_ADMIN)`
+  );
   console.error("Example: npm run make-admin user@example.com");
   process.exit(1);
 }
 
-makeUserAdmin(email);
+grantRole(email, role as StaffRole);
@@ -0,0 +1,50 @@
+import * as dotenv from "dotenv";
+import * as path from "path";
+
+// Load environment variables from the project root .env file
+const envPath = path.resolve(__dirname, "../../.env");
+dotenv.config({ path: envPath });
+
+// Also try to load from server/.env if it exists
+dotenv.config();
+
+async function migrateMedia(dryRun: boolean) {
+  // Imported after dotenv so the storage driver sees STORAGE_* settings
+  const { prisma } = await import("../src/lib/database");
+  const { MediaMigrationService } = await import(
+    "../src/services/mediaMigration"
+  );
+
+  try {
+    console.log(
+      `🔧 Moving inline meal photos and avatars to ${
+        process.env.STORAGE_DRIVER || "local"
+      } storage${dryRun ? " (dry run)" : ""}...`
+    );
+
+    const summary = await MediaMigrationService.migrateAll({ dryRun });
+
+    console.log("📋 Migration summary:");
+    console.log(
+      `   Meals: ${summary.meals.migrated} migrated, ${summary.meals.failed} failed`
+    );
+    console.log(
+      `   Avatars: ${summary.avatars.migrated} migrated, ${summary.avatars.failed} failed`
+    );
+
+    if (summary.meals.failed > 0 || summary.avatars.failed > 0) {
+      console.log("⚠️  Some images failed; re-run the script to retry them.");
+      process.exitCode = 1;
+    } else {
+      console.log("\n🎉 Done!");
+    }
+  } catch (error) {
+    console.error("❌ Error migrating media:", error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Usage: npm run media:migrate [-- --dry-run]
+migrateMedia(process.argv.includes("--dry-run"));
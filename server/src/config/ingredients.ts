@@ -0,0 +1,547 @@
+import { BaseUnit, ShoppingCategory } from "../types/shoppingLists";
+
+// Every unit a recipe or the AI may use, in the base unit it converts to
+export const UNITS: Record<string, { base: BaseUnit; factor: number }> = {
+  g: { base: "g", factor: 1 },
+  gr: { base: "g", factor: 1 },
+  gram: { base: "g", factor: 1 },
+  kg: { base: "g", factor: 1000 },
+  kilo: { base: "g", factor: 1000 },
+  kilogram: { base: "g", factor: 1000 },
+  mg: { base: "g", factor: 0.001 },
+  oz: { base: "g", factor: 28.35 },
+  ounce: { base: "g", factor: 28.35 },
+  lb: { base: "g", factor: 453.6 },
+  lbs: { base: "g", factor: 453.6 },
+  pound: { base: "g", factor: 453.6 },
+  גרם: { base: "g", factor: 1 },
+  'ק"ג': { base: "g", factor: 1000 },
+  קילו: { base: "g", factor: 1000 },
+
+  ml: { base: "ml", factor: 1 },
+  milliliter: { base: "ml", factor: 1 },
+  l: { base: "ml", factor: 1000 },
+  liter: { base: "ml", factor: 1000 },
+  litre: { base: "ml", factor: 1000 },
+  tsp: { base: "ml", factor: 5 },
+  teaspoon: { base: "ml", factor: 5 },
+  tbsp: { base: "ml", factor: 15 },
+  tablespoon: { base: "ml", factor: 15 },
+  cup: { base: "ml", factor: 240 },
+  "fl oz": { base: "ml", factor: 29.57 },
+  'מ"ל': { base: "ml", factor: 1 },
+  ליטר: { base: "ml", factor: 1000 },
+  כפית: { base: "ml", factor: 5 },
+  כפיות: { base: "ml", factor: 5 },
+  כף: { base: "ml", factor: 15 },
+  כפות: { base: "ml", factor: 15 },
+  כוס: { base: "ml", factor: 240 },
+  כוסות: { base: "ml", factor: 240 },
+
+  piece: { base: "pieces", factor: 1 },
+  pcs: { base: "pieces", factor: 1 },
+  unit: { base: "pieces", factor: 1 },
+  item: { base: "pieces", factor: 1 },
+  whole: { base: "pieces", factor: 1 },
+  clove: { base: "pieces", factor: 1 },
+  slice: { base: "pieces", factor: 1 },
+  יחידה: { base: "pieces", factor: 1 },
+  יחידות: { base: "pieces", factor: 1 },
+};
+
+// Loose categories from recipes, the AI and the app mapped onto the
+// shopping categories
+export const CATEGORY_ALIASES: Record<string, ShoppingCategory> = {
+  produce: "Produce",
+  vegetable: "Produce",
+  vegetables: "Produce",
+  fruit: "Produce",
+  fruits: "Produce",
+  herb: "Produce",
+  protein: "Meat & Fish",
+  meat: "Meat & Fish",
+  poultry: "Meat & Fish",
+  fish: "Meat & Fish",
+  seafood: "Meat & Fish",
+  dairy: "Dairy & Eggs",
+  eggs: "Dairy & Eggs",
+  grain: "Grains & Bakery",
+  grains: "Grains & Bakery",
+  carbs: "Grains & Bakery",
+  bakery: "Grains & Bakery",
+  bread: "Grains & Bakery",
+  legume: "Legumes",
+  legumes: "Legumes",
+  nuts: "Nuts & Seeds",
+  seeds: "Nuts & Seeds",
+  fat: "Oils & Condiments",
+  fats: "Oils & Condiments",
+  oil: "Oils & Condiments",
+  condiment: "Oils & Condiments",
+  condiments: "Oils & Condiments",
+  sauce: "Oils & Condiments",
+  spice: "Spices",
+  spices: "Spices",
+  seasoning: "Spices",
+  frozen: "Frozen",
+  beverage: "Beverages",
+  beverages: "Beverages",
+  drink: "Beverages",
+};
+
+// Rough days an unopened item keeps, for pantry items added without an
+// expiry date. Categories that keep for months get no date at all.
+export const SHELF_LIFE_DAYS: Partial<Record<ShoppingCategory, number>> = {
+  Produce: 7,
+  "Meat & Fish": 3,
+  "Dairy & Eggs": 10,
+  "Grains & Bakery": 5,
+  Frozen: 90,
+};
+
+export interface IngredientDefinition {
+  // Canonical English name, singular
+  key: string;
+  // Synonyms, plurals and Hebrew names
+  names: string[];
+  category: ShoppingCategory;
+  // The unit the item is bought and listed in
+  unit: BaseUnit;
+  // Grams per ml, so volume and mass can be added up
+  density?: number;
+  // Grams per piece, so counts and mass can be added up
+  pieceWeight?: number;
+  // What the store sells, in `unit`, and its typical price in ILS
+  pack?: { size: number; price: number };
+}
+
+export const INGREDIENTS: IngredientDefinition[] = [
+  // Produce
+  {
+    key: "tomato",
+    names: ["tomatoes", "עגבנייה", "עגבניה", "עגבניות"],
+    category: "Produce",
+    unit: "g",
+    pieceWeight: 120,
+    pack: { size: 1000, price: 8 },
+  },
+  {
+    key: "cucumber",
+    names: ["cucumbers", "מלפפון", "מלפפונים"],
+    category: "Produce",
+    unit: "g",
+    pieceWeight: 150,
+    pack: { size: 1000, price: 7 },
+  },
+  {
+    key: "onion",
+    names: ["onions", "yellow onion", "בצל", "בצלים"],
+    category: "Produce",
+    unit: "g",
+    pieceWeight: 150,
+    pack: { size: 1000, price: 6 },
+  },
+  {
+    key: "garlic",
+    names: ["garlic clove", "garlic cloves", "שום", "שן שום"],
+    category: "Produce",
+    unit: "pieces",
+    pack: { size: 10, price: 5 },
+  },
+  {
+    key: "bell pepper",
+    names: ["pepper", "red pepper", "bell peppers", "פלפל", "פלפלים", "גמבה"],
+    category: "Produce",
+    unit: "g",
+    pieceWeight: 160,
+    pack: { size: 1000, price: 12 },
+  },
+  {
+    key: "carrot",
+    names: ["carrots", "גזר"],
+    category: "Produce",
+    unit: "g",
+    pieceWeight: 70,
+    pack: { size: 1000, price: 5 },
+  },
+  {
+    key: "broccoli",
+    names: ["ברוקולי"],
+    category: "Produce",
+    unit: "g",
+    pack: { size: 500, price: 10 },
+  },
+  {
+    key: "spinach",
+    names: ["baby spinach", "תרד"],
+    category: "Produce",
+    unit: "g",
+    density: 0.13,
+    pack: { size: 250, price: 9 },
+  },
+  {
+    key: "lettuce",
+    names: ["חסה"],
+    category: "Produce",
+    unit: "pieces",
+    pack: { size: 1, price: 6 },
+  },
+  {
+    key: "potato",
+    names: ["potatoes", "תפוח אדמה", "תפוחי אדמה"],
+    category: "Produce",
+    unit: "g",
+    pieceWeight: 200,
+    pack: { size: 1000, price: 5 },
+  },
+  {
+    key: "sweet potato",
+    names: ["sweet potatoes", "בטטה", "בטטות"],
+    category: "Produce",
+    unit: "g",
+    pieceWeight: 250,
+    pack: { size: 1000, price: 9 },
+  },
+  {
+    key: "avocado",
+    names: ["avocados", "אבוקדו"],
+    category: "Produce",
+    unit: "pieces",
+    pieceWeight: 170,
+    pack: { size: 1, price: 4 },
+  },
+  {
+    key: "lemon",
+    names: ["lemons", "לימון", "לימונים"],
+    category: "Produce",
+    unit: "pieces",
+    pieceWeight: 100,
+    pack: { size: 1, price: 1.5 },
+  },
+  {
+    key: "banana",
+    names: ["bananas", "בננה", "בננות"],
+    category: "Produce",
+    unit: "pieces",
+    pieceWeight: 120,
+    pack: { size: 1, price: 1 },
+  },
+  {
+    key: "apple",
+    names: ["apples", "תפוח", "תפוחים", "תפוח עץ"],
+    category: "Produce",
+    unit: "pieces",
+    pieceWeight: 180,
+    pack: { size: 1, price: 1.5 },
+  },
+  {
+    key: "berries",
+    names: ["blueberries", "strawberries", "mixed berries", "פירות יער"],
+    category: "Produce",
+    unit: "g",
+    density: 0.6,
+    pack: { size: 250, price: 15 },
+  },
+  {
+    key: "parsley",
+    names: ["פטרוזיליה"],
+    category: "Produce",
+    unit: "pieces",
+    pack: { size: 1, price: 3 },
+  },
+
+  // Meat & fish
+  {
+    key: "chicken breast",
+    names: [
+      "chicken",
+      "chicken breasts",
+      "chicken fillet",
+      "grilled chicken",
+      "חזה עוף",
+      "עוף",
+    ],
+    category: "Meat & Fish",
+    unit: "g",
+    pieceWeight: 200,
+    // Diced chicken
+    density: 0.6,
+    pack: { size: 500, price: 25 },
+  },
+  {
+    key: "ground beef",
+    names: ["minced beef", "beef", "בשר טחון", "בקר טחון"],
+    category: "Meat & Fish",
+    unit: "g",
+    pack: { size: 500, price: 30 },
+  },
+  {
+    key: "turkey breast",
+    names: ["turkey", "חזה הודו", "הודו"],
+    category: "Meat & Fish",
+    unit: "g",
+    pack: { size: 500, price: 28 },
+  },
+  {
+    key: "salmon",
+    names: ["salmon fillet", "סלמון"],
+    category: "Meat & Fish",
+    unit: "g",
+    pieceWeight: 150,
+    pack: { size: 300, price: 35 },
+  },
+  {
+    key: "tuna",
+    names: ["canned tuna", "טונה"],
+    category: "Meat & Fish",
+    unit: "pieces",
+    pack: { size: 4, price: 22 },
+  },
+
+  // Dairy & eggs
+  {
+    key: "egg",
+    names: ["eggs", "whole egg", "ביצה", "ביצים"],
+    category: "Dairy & Eggs",
+    unit: "pieces",
+    pieceWeight: 55,
+    pack: { size: 12, price: 13 },
+  },
+  {
+    key: "milk",
+    names: ["חלב"],
+    category: "Dairy & Eggs",
+    unit: "ml",
+    density: 1.03,
+    pack: { size: 1000, price: 7 },
+  },
+  {
+    key: "greek yogurt",
+    names: ["yogurt", "yoghurt", "יוגורט", "יוגורט יווני"],
+    category: "Dairy & Eggs",
+    unit: "g",
+    density: 1.05,
+    pack: { size: 500, price: 12 },
+  },
+  {
+    key: "cottage cheese",
+    names: ["קוטג'", "קוטג"],
+    category: "Dairy & Eggs",
+    unit: "g",
+    density: 1,
+    pack: { size: 250, price: 6 },
+  },
+  {
+    key: "feta cheese",
+    names: ["feta", "גבינה בולגרית", "פטה"],
+    category: "Dairy & Eggs",
+    unit: "g",
+    density: 0.6,
+    pack: { size: 250, price: 14 },
+  },
+  {
+    key: "cheese",
+    names: ["yellow cheese", "cheddar", "mozzarella", "גבינה צהובה"],
+    category: "Dairy & Eggs",
+    unit: "g",
+    density: 0.45,
+    pack: { size: 200, price: 15 },
+  },
+  {
+    key: "butter",
+    names: ["חמאה"],
+    category: "Dairy & Eggs",
+    unit: "g",
+    density: 0.96,
+    pack: { size: 200, price: 9 },
+  },
+
+  // Grains & bakery
+  {
+    key: "rice",
+    names: ["white rice", "brown rice", "אורז"],
+    category: "Grains & Bakery",
+    unit: "g",
+    density: 0.85,
+    pack: { size: 1000, price: 10 },
+  },
+  {
+    key: "quinoa",
+    names: ["קינואה"],
+    category: "Grains & Bakery",
+    unit: "g",
+    density: 0.72,
+    pack: { size: 500, price: 15 },
+  },
+  {
+    key: "oats",
+    names: ["oatmeal", "rolled oats", "שיבולת שועל"],
+    category: "Grains & Bakery",
+    unit: "g",
+    density: 0.34,
+    pack: { size: 500, price: 9 },
+  },
+  {
+    key: "pasta",
+    names: ["spaghetti", "penne", "whole wheat pasta", "פסטה"],
+    category: "Grains & Bakery",
+    unit: "g",
+    pack: { size: 500, price: 6 },
+  },
+  {
+    key: "bread",
+    names: [
+      "whole wheat bread",
+      "whole grain bread",
+      "bread slice",
+      "לחם",
+      "לחם מלא",
+    ],
+    category: "Grains & Bakery",
+    unit: "pieces",
+    // Counted in slices
+    pack: { size: 20, price: 12 },
+  },
+  {
+    key: "pita",
+    names: ["pita bread", "פיתה", "פיתות"],
+    category: "Grains & Bakery",
+    unit: "pieces",
+    pack: { size: 10, price: 9 },
+  },
+  {
+    key: "flour",
+    names: ["all-purpose flour", "קמח"],
+    category: "Grains & Bakery",
+    unit: "g",
+    density: 0.53,
+    pack: { size: 1000, price: 6 },
+  },
+
+  // Legumes
+  {
+    key: "chickpeas",
+    names: ["chickpea", "חומוס", "גרגרי חומוס"],
+    category: "Legumes",
+    unit: "g",
+    density: 0.7,
+    pack: { size: 500, price: 8 },
+  },
+  {
+    key: "lentils",
+    names: ["lentil", "red lentils", "עדשים"],
+    category: "Legumes",
+    unit: "g",
+    density: 0.8,
+    pack: { size: 500, price: 8 },
+  },
+  {
+    key: "tofu",
+    names: ["טופו"],
+    category: "Legumes",
+    unit: "g",
+    pack: { size: 300, price: 12 },
+  },
+
+  // Nuts & seeds
+  {
+    key: "almonds",
+    names: ["almond", "שקדים"],
+    category: "Nuts & Seeds",
+    unit: "g",
+    density: 0.6,
+    pack: { size: 200, price: 15 },
+  },
+  {
+    key: "walnuts",
+    names: ["walnut", "אגוזי מלך"],
+    category: "Nuts & Seeds",
+    unit: "g",
+    density: 0.5,
+    pack: { size: 200, price: 18 },
+  },
+  {
+    key: "tahini",
+    names: ["טחינה"],
+    category: "Nuts & Seeds",
+    unit: "g",
+    density: 1.05,
+    pack: { size: 500, price: 14 },
+  },
+  {
+    key: "peanut butter",
+    names: ["חמאת בוטנים"],
+    category: "Nuts & Seeds",
+    unit: "g",
+    density: 1.1,
+    pack: { size: 350, price: 16 },
+  },
+
+  // Oils & condiments
+  {
+    key: "olive oil",
+    names: ["extra virgin olive oil", "שמן זית"],
+    category: "Oils & Condiments",
+    unit: "ml",
+    density: 0.91,
+    pack: { size: 750, price: 35 },
+  },
+  {
+    key: "vegetable oil",
+    names: ["canola oil", "oil", "שמן", "שמן קנולה"],
+    category: "Oils & Condiments",
+    unit: "ml",
+    density: 0.92,
+    pack: { size: 1000, price: 12 },
+  },
+  {
+    key: "honey",
+    names: ["דבש"],
+    category: "Oils & Condiments",
+    unit: "g",
+    density: 1.42,
+    pack: { size: 350, price: 18 },
+  },
+  {
+    key: "soy sauce",
+    names: ["רוטב סויה"],
+    category: "Oils & Condiments",
+    unit: "ml",
+    pack: { size: 250, price: 9 },
+  },
+
+  // Spices
+  {
+    key: "salt",
+    names: ["מלח"],
+    category: "Spices",
+    unit: "g",
+    density: 1.2,
+    pack: { size: 1000, price: 3 },
+  },
+  {
+    key: "black pepper",
+    names: ["pepper powder", "פלפל שחור"],
+    category: "Spices",
+    unit: "g",
+    density: 0.5,
+    pack: { size: 100, price: 8 },
+  },
+  {
+    key: "cinnamon",
+    names: ["קינמון"],
+    category: "Spices",
+    unit: "g",
+    density: 0.55,
+    pack: { size: 100, price: 8 },
+  },
+
+  // Beverages
+  {
+    key: "water",
+    names: ["מים"],
+    category: "Beverages",
+    unit: "ml",
+    density: 1,
+  },
+];
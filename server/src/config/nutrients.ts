@@ -0,0 +1,98 @@
+// Nutrients per 100 g of a catalog ingredient (see config/ingredients.ts),
+// as bought: raw meat and vegetables, dry grains and legumes
+export interface Nutrients {
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fats_g: number;
+  fiber_g: number;
+}
+
+const per100g = (
+  calories: number,
+  protein_g: number,
+  carbs_g: number,
+  fats_g: number,
+  fiber_g: number
+): Nutrients => ({ calories, protein_g, carbs_g, fats_g, fiber_g });
+
+export const NUTRIENTS_PER_100G: Record<string, Nutrients> = {
+  // Produce
+  tomato: per100g(18, 0.9, 3.9, 0.2, 1.2),
+  cucumber: per100g(15, 0.7, 3.6, 0.1, 0.5),
+  onion: per100g(40, 1.1, 9.3, 0.1, 1.7),
+  garlic: per100g(149, 6.4, 33.1, 0.5, 2.1),
+  "bell pepper": per100g(31, 1, 6, 0.3, 2.1),
+  carrot: per100g(41, 0.9, 9.6, 0.2, 2.8),
+  broccoli: per100g(34, 2.8, 6.6, 0.4, 2.6),
+  spinach: per100g(23, 2.9, 3.6, 0.4, 2.2),
+  lettuce: per100g(15, 1.4, 2.9, 0.2, 1.3),
+  potato: per100g(77, 2, 17.5, 0.1, 2.2),
+  "sweet potato": per100g(86, 1.6, 20.1, 0.1, 3),
+  avocado: per100g(160, 2, 8.5, 14.7, 6.7),
+  lemon: per100g(29, 1.1, 9.3, 0.3, 2.8),
+  banana: per100g(89, 1.1, 22.8, 0.3, 2.6),
+  apple: per100g(52, 0.3, 13.8, 0.2, 2.4),
+  berries: per100g(57, 0.7, 14.5, 0.3, 2.4),
+  parsley: per100g(36, 3, 6.3, 0.8, 3.3),
+
+  // Meat & fish
+  "chicken breast": per100g(120, 22.5, 0, 2.6, 0),
+  "ground beef": per100g(254, 17.2, 0, 20, 0),
+  "turkey breast": per100g(114, 23.7, 0.1, 1.5, 0),
+  salmon: per100g(208, 20, 0, 13.4, 0),
+  tuna: per100g(116, 25.5, 0, 0.8, 0),
+
+  // Dairy & eggs
+  egg: per100g(143, 12.6, 0.7, 9.5, 0),
+  milk: per100g(61, 3.2, 4.8, 3.3, 0),
+  "greek yogurt": per100g(73, 10, 3.9, 1.9, 0),
+  "cottage cheese": per100g(98, 11.1, 3.4, 4.3, 0),
+  "feta cheese": per100g(264, 14.2, 4.1, 21.3, 0),
+  cheese: per100g(402, 24.9, 1.3, 33.1, 0),
+  butter: per100g(717, 0.9, 0.1, 81.1, 0),
+
+  // Grains & bakery
+  rice: per100g(365, 7.1, 80, 0.7, 1.3),
+  quinoa: per100g(368, 14.1, 64.2, 6.1, 7),
+  oats: per100g(389, 16.9, 66.3, 6.9, 10.6),
+  pasta: per100g(371, 13, 74.7, 1.5, 3.2),
+  bread: per100g(265, 9, 49, 3.2, 2.7),
+  pita: per100g(275, 9.1, 55.7, 1.2, 2.2),
+  flour: per100g(364, 10.3, 76.3, 1, 2.7),
+
+  // Legumes
+  chickpeas: per100g(364, 19.3, 60.7, 6, 17.4),
+  lentils: per100g(352, 24.6, 63.4, 1.1, 10.7),
+  tofu: per100g(76, 8, 1.9, 4.8, 0.3),
+
+  // Nuts & seeds
+  almonds: per100g(579, 21.2, 21.6, 49.9, 12.5),
+  walnuts: per100g(654, 15.2, 13.7, 65.2, 6.7),
+  tahini: per100g(595, 17, 21.2, 53.8, 9.3),
+  "peanut butter": per100g(588, 25, 20, 50, 6),
+
+  // Oils & condiments
+  "olive oil": per100g(884, 0, 0, 100, 0),
+  "vegetable oil": per100g(884, 0, 0, 100, 0),
+  honey: per100g(304, 0.3, 82.4, 0, 0.2),
+  "soy sauce": per100g(53, 8.1, 4.9, 0.6, 0.8),
+
+  // Spices
+  salt: per100g(0, 0, 0, 0, 0),
+  "black pepper": per100g(251, 10.4, 64, 3.3, 25.3),
+  cinnamon: per100g(247, 4, 80.6, 1.2, 53.1),
+
+  water: per100g(0, 0, 0, 0, 0),
+};
+
+// Grams in one piece of catalog ingredients that are sold by the piece but
+// have no piece weight there (a clove, a head, a bunch, a can, a slice)
+export const GRAMS_PER_PIECE: Record<string, number> = {
+  garlic: 5,
+  lettuce: 400,
+  parsley: 50,
+  tuna: 120,
+  bread: 30,
+  pita: 60,
+};
@@ -1,79 +1,109 @@
+import { SubscriptionType } from "@prisma/client";
+
+// Rough size of one chat exchange as billed (a question and a few paragraphs
+// of reply), used to size token quotas and present them as messages
+export const CHAT_TOKENS_PER_MESSAGE = 300;
+
 export interface PlanLimits {
-  mealScansPerMonth: number;
-  aiChatTokensPerMonth: number | null;
+  mealScansPerMonth: number | null; // null = unlimited
+  aiChatEnabled: boolean;
+  aiChatTokensPerMonth: number | null; // null = unlimited
   aiChatMessagesEstimate: number | null;
   hasQuestionnaireAccess: boolean;
-  questionnaireRetentionDays: number | null;
+  questionnaireRetentionDays: number | null; // null = kept indefinitely
   aiRecommendationsPerWeek: number; // 0 = none, 1 = weekly, 7 = daily
   dailyGoalsPerWeek: number; // 0 = none, 1 = weekly, 7 = daily
+  deviceIntegration: boolean;
   name: string;
   description: string;
 }
 
-export const PLAN_LIMITS: Record<string, PlanLimits> = {
+/**
+ * Single source of truth for what each subscription type is entitled to.
+ * Keyed by the Prisma SubscriptionType enum so every plan must be covered.
+ */
+export const PLAN_LIMITS: Record<SubscriptionType, PlanLimits> = {
   FREE: {
     mealScansPerMonth: 5,
-    aiChatTokensPerMonth: null,
-    aiChatMessagesEstimate: null,
+    aiChatEnabled: false,
+    aiChatTokensPerMonth: 0,
+    aiChatMessagesEstimate: 0,
     hasQuestionnaireAccess: true,
     questionnaireRetentionDays: 7,
     aiRecommendationsPerWeek: 0, // No AI recommendations
     dailyGoalsPerWeek: 0, // No daily goals
+    deviceIntegration: false,
     name: "Free Plan",
     description: "Basic features to get started",
   },
   GOLD: {
     mealScansPerMonth: 100,
+    aiChatEnabled: true,
     aiChatTokensPerMonth: null,
     aiChatMessagesEstimate: 100,
     hasQuestionnaireAccess: true,
     questionnaireRetentionDays: null,
     aiRecommendationsPerWeek: 7, // Daily AI recommendations
     dailyGoalsPerWeek: 7, // Daily goals every day
+    deviceIntegration: true,
     name: "Gold Plan",
     description: "Full features with generous limits",
   },
-  PLATINUM: {
+  PREMIUM: {
     mealScansPerMonth: 50,
-    aiChatTokensPerMonth: 1000,
+    aiChatEnabled: true,
+    aiChatTokensPerMonth: 20 * CHAT_TOKENS_PER_MESSAGE,
     aiChatMessagesEstimate: 20,
     hasQuestionnaireAccess: true,
     questionnaireRetentionDays: null,
     aiRecommendationsPerWeek: 1, // Weekly AI recommendations
     dailyGoalsPerWeek: 1, // Weekly daily goals
-    name: "Platinum Plan",
+    deviceIntegration: true,
+    name: "Premium Plan",
     description: "Premium AI experience",
   },
+  ADMIN: {
+    mealScansPerMonth: null,
+    aiChatEnabled: true,
+    aiChatTokensPerMonth: null,
+    aiChatMessagesEstimate: null,
+    hasQuestionnaireAccess: true,
+    questionnaireRetentionDays: null,
+    aiRecommendationsPerWeek: 7,
+    dailyGoalsPerWeek: 7,
+    deviceIntegration: true,
+    name: "Admin",
+    description: "Internal access without limits",
+  },
 };
 
-export function getPlanLimit(
+export function getPlanLimit<K extends keyof PlanLimits>(
   subscriptionType: string,
-  limitType: keyof PlanLimits
-): number | boolean | null | string {
-  const plan = PLAN_LIMITS[subscriptionType] || PLAN_LIMITS.FREE;
-  return plan[limitType];
+  limitType: K
+): PlanLimits[K] {
+  return getPlanLimits(subscriptionType)[limitType];
 }
 
 export function getPlanLimits(subscriptionType: string): PlanLimits {
-  return PLAN_LIMITS[subscriptionType] || PLAN_LIMITS.FREE;
+  return (
+    PLAN_LIMITS[subscriptionType as SubscriptionType] || PLAN_LIMITS.FREE
+  );
 }
 
 export function canAccessAIChat(subscriptionType: string): boolean {
-  return subscriptionType === "GOLD" || subscriptionType === "PLATINUM";
+  return getPlanLimits(subscriptionType).aiChatEnabled;
 }
 
 export function canAccessFullQuestionnaire(subscriptionType: string): boolean {
-  return subscriptionType === "GOLD" || subscriptionType === "PLATINUM";
+  return getPlanLimits(subscriptionType).questionnaireRetentionDays === null;
 }
 
 export function canReceiveAIRecommendations(subscriptionType: string): boolean {
-  const plan = PLAN_LIMITS[subscriptionType] || PLAN_LIMITS.FREE;
-  return plan.aiRecommendationsPerWeek > 0;
+  return getPlanLimits(subscriptionType).aiRecommendationsPerWeek > 0;
 }
 
 export function canReceiveDailyGoals(subscriptionType: string): boolean {
-  const plan = PLAN_LIMITS[subscriptionType] || PLAN_LIMITS.FREE;
-  return plan.dailyGoalsPerWeek > 0;
+  return getPlanLimits(subscriptionType).dailyGoalsPerWeek > 0;
 }
 
 export function shouldCreateAIRecommendationToday(
@@ -81,7 +111,7 @@ export function shouldCreateAIRecommendationToday(
   signupDate: Date,
   today: Date = new Date()
 ): boolean {
-  const plan = PLAN_LIMITS[subscriptionType] || PLAN_LIMITS.FREE;
+  const plan = getPlanLimits(subscriptionType);
 
   if (plan.aiRecommendationsPerWeek === 0) return false;
   if (plan.aiRecommendationsPerWeek === 7) return true; // Daily
@@ -97,7 +127,7 @@ export function shouldCreateDailyGoalToday(
   signupDate: Date,
   today: Date = new Date()
 ): boolean {
-  const plan = PLAN_LIMITS[subscriptionType] || PLAN_LIMITS.FREE;
+  const plan = getPlanLimits(subscriptionType);
 
   if (plan.dailyGoalsPerWeek === 0) return false;
   if (plan.dailyGoalsPerWeek === 7) return true; // Daily
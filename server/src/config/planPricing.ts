@@ -0,0 +1,28 @@
+import { PaidPlanType } from "../types/payments";
+
+export interface PlanPrice {
+  amount: number;
+  currency: string;
+  billingPeriodDays: number;
+}
+
+export const PLAN_PRICES: Record<PaidPlanType, PlanPrice> = {
+  GOLD: {
+    amount: 99,
+    currency: "ILS",
+    billingPeriodDays: 30,
+  },
+  PREMIUM: {
+    amount: 49,
+    currency: "ILS",
+    billingPeriodDays: 30,
+  },
+};
+
+export function isPaidPlan(subscriptionType: string): subscriptionType is PaidPlanType {
+  return subscriptionType in PLAN_PRICES;
+}
+
+export function getPlanPrice(planType: PaidPlanType): PlanPrice {
+  return PLAN_PRICES[planType];
+}
@@ -0,0 +1,26 @@
+// Words in a step that tell which equipment it needs, in English and Hebrew
+export const EQUIPMENT_KEYWORDS: Record<string, string[]> = {
+  pan: ["pan", "skillet", "fry", "sauté", "saute", "scramble", "מחבת", "טגן"],
+  pot: ["pot", "saucepan", "boil", "simmer", "סיר", "הרתיח", "בשל"],
+  oven: ["oven", "bake", "roast", "broil", "תנור", "אפה", "צלה בתנור"],
+  grill: ["grill", "גריל"],
+  "baking sheet": ["baking sheet", "baking tray", "תבנית"],
+  blender: ["blender", "blend", "puree", "smoothie", "בלנדר", "טחן"],
+  bowl: ["bowl", "whisk", "toss", "קערה"],
+  "cutting board": ["chop", "dice", "slice", "mince", "cut", "קצוץ", "חתוך"],
+  steamer: ["steam", "אדה"],
+  toaster: ["toast", "טוסטר"],
+};
+
+// "10 minutes", "5-7 min", "1 hour", "20 דקות"
+export const DURATION_PATTERN =
+  /(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*(\d+(?:\.\d+)?))?\s*(minutes?|mins?|hours?|hrs?|דקות|דקה|שעות|שעה)(?![\p{L}])/iu;
+
+export const HOUR_UNITS = new Set([
+  "hour",
+  "hours",
+  "hr",
+  "hrs",
+  "שעות",
+  "שעה",
+]);
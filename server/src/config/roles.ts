@@ -0,0 +1,46 @@
+import { StaffRole } from "@prisma/client";
+
+export const PERMISSIONS = [
+  "dashboard:view", // Admin dashboard and aggregate stats
+  "users:read", // User accounts, subscriptions and payments
+  "health:read", // Questionnaires, meals and menus of a user
+  "users:delete",
+  "subscriptions:manage",
+  "payments:refund",
+  "security:read", // Security audit log
+  "roles:manage", // Grant and revoke staff roles
+  "content:manage", // Shared recipes, templates and other app content
+  "system:view", // Database health and scheduled job status
+  "system:manage", // Database cleanup and recovery
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+/**
+ * Single source of truth for what each staff role may do. Keyed by the Prisma
+ * StaffRole enum so every role must be covered. A user holding several roles
+ * gets the union of their permissions.
+ */
+export const ROLE_PERMISSIONS: Record<StaffRole, readonly Permission[]> = {
+  SUPPORT_AGENT: ["dashboard:view", "users:read", "security:read"],
+  CONTENT_EDITOR: ["dashboard:view", "content:manage"],
+  DIETITIAN: ["dashboard:view", "users:read", "health:read"],
+  SUPER_ADMIN: PERMISSIONS,
+};
+
+// Roles as loaded with `roles: { select: { role: true } }`
+export function staffRoles(user: { roles?: { role: StaffRole }[] }) {
+  return user.roles?.map(({ role }) => role) ?? [];
+}
+
+export function getPermissions(roles: StaffRole[]): Permission[] {
+  const permissions = new Set<Permission>();
+  for (const role of roles) {
+    ROLE_PERMISSIONS[role].forEach((permission) => permissions.add(permission));
+  }
+  return PERMISSIONS.filter((permission) => permissions.has(permission));
+}
+
+export function hasPermission(roles: StaffRole[], permission: Permission) {
+  return roles.some((role) => ROLE_PERMISSIONS[role].includes(permission));
+}
@@ -19,7 +19,7 @@ import recommendedMenuRoutes from "./routes/recommendedMenu";
 import { calendarRoutes } from "./routes/calendar";
 import statisticsRoutes from "./routes/statistics";
 import foodScannerRoutes from "./routes/foodScanner";
-import { EnhancedCronJobService } from "./services/cron/enhanced";
+import { JobSchedulerService } from "./services/jobs/scheduler";
 // User cleanup is now manual-only via profile deletion
 import { enhancedDailyGoalsRoutes } from "./routes/enhanced/dailyGoals";
 import { enhancedRecommendationsRoutes } from "./routes/enhanced/recommendations";
@@ -27,12 +27,16 @@ import { enhancedDatabaseRoutes } from "./routes/enhanced/database";
 import { dailyGoalsRoutes } from "./routes/dailyGoal";
 import achievementsRouter from "./routes/achievements";
 import shoppingListRoutes from "./routes/shoppingLists";
+import pantryRoutes from "./routes/pantry";
+import recipeRoutes from "./routes/recipes";
 import mealCompletionRouter from "./routes/mealCompletion";
 import { schemaValidationRoutes } from "./routes/schema-validation";
 import { authenticateToken, AuthRequest } from "./middleware/auth";
 import enhancedMenuRouter from "./routes/enhancedMenu";
 import adminRoutes from "./routes/admin";
-import { promoteAdminRoutes } from "./routes/promote-admin";
+import { paymentRoutes } from "./routes/payments";
+import { getPaymentConfigError } from "./services/payments";
+import { mediaRoutes } from "./routes/media";
 
 // Load environment variables
 dotenv.config();
@@ -121,6 +125,10 @@ app.use(
   express.json({
     limit: "10mb",
     type: ["application/json", "text/plain"],
+    // Payment webhooks verify their signature against the exact bytes received
+    verify: (req, _res, buf) => {
+      (req as express.Request).rawBody = buf;
+    },
   })
 );
 app.use(
@@ -185,6 +193,10 @@ apiRouter.use("/meal-plans", mealPlansRoutes);
 apiRouter.use("/chat", chatRoutes);
 apiRouter.use("/food-scanner", foodScannerRoutes);
 apiRouter.use("/shopping-lists", shoppingListRoutes);
+apiRouter.use("/pantry", pantryRoutes);
+apiRouter.use("/recipes", recipeRoutes);
+apiRouter.use("/payments", paymentRoutes);
+apiRouter.use("/media", mediaRoutes);
 apiRouter.use("/", statisticsRoutes);
 apiRouter.use("/daily-goals", enhancedDailyGoalsRoutes);
 apiRouter.use("/recommendations", enhancedRecommendationsRoutes);
@@ -194,7 +206,6 @@ apiRouter.use("/", achievementsRouter);
 apiRouter.use("/meal-completions", mealCompletionRouter);
 apiRouter.use("/schema", schemaValidationRoutes);
 apiRouter.use("/menu/enhanced", enhancedMenuRouter);
-apiRouter.use("/", promoteAdminRoutes); // One-time admin promotion endpoint
 
 // Add a test endpoint to manually trigger daily goals creation
 apiRouter.post("/test/create-daily-goals", async (req, res) => {
@@ -310,6 +321,7 @@ const logStartup = () => {
 // Graceful shutdown
 const gracefulShutdown = (signal: string) => {
   log.info(`Received ${signal}, shutting down gracefully...`);
+  JobSchedulerService.stop();
 
   if (server) {
     server.close(async () => {
@@ -329,15 +341,18 @@ const gracefulShutdown = (signal: string) => {
 
 // Start server
 async function startServer() {
+  const paymentConfigError = getPaymentConfigError();
+  if (paymentConfigError) {
+    log.warn(`Payments disabled: ${paymentConfigError}`);
+  }
+
   try {
     // Test database connection
     await prisma.$connect();
     log.success("Database connection successful");
 
-    // Initialize enhanced cron jobs on server startup
-    console.log("🚀 Initializing enhanced cron jobs...");
-    EnhancedCronJobService.initializeEnhancedCronJobs();
-    console.log("✅ Enhanced cron jobs initialized");
+    // Schedule background jobs and start working the job queue
+    JobSchedulerService.start();
 
     // Store the server instance
     server = app.listen(config.port, "0.0.0.0", () => {
@@ -1,8 +1,11 @@
 import { Request, Response, NextFunction } from "express";
 import { AuthService } from "../services/auth";
+import { hasPermission, Permission, staffRoles } from "../config/roles";
 
 export interface AuthRequest extends Request {
   user?: any;
+  sessionId?: string;
+  twoFactorVerified?: boolean;
 }
 
 export async function authenticateToken(
@@ -13,16 +16,16 @@ export async function authenticateToken(
   try {
     console.log("🔐 Authenticating request...");
 
-    // Try to get token from cookies first (web), then fallback to Authorization header (mobile)
-    let token = req.cookies.auth_token;
+    // Prefer the Authorization header, which the app keeps refreshed, and
+    // fall back to the cookie (web)
+    let token: string | undefined;
 
-    if (!token) {
-      const authHeader = req.headers.authorization;
-      if (authHeader && authHeader.startsWith("Bearer ")) {
-        token = authHeader.substring(7);
-        console.log("📱 Using Bearer token from header (mobile)");
-      }
-    } else {
+    const authHeader = req.headers.authorization;
+    if (authHeader && authHeader.startsWith("Bearer ")) {
+      token = authHeader.substring(7);
+      console.log("📱 Using Bearer token from header");
+    } else if (req.cookies.auth_token) {
+      token = req.cookies.auth_token;
       console.log("🍪 Using token from cookie (web)");
     }
 
@@ -35,10 +38,15 @@ export async function authenticateToken(
     }
 
     console.log("🔍 Verifying token...");
-    const user = await AuthService.verifyToken(token);
+    const { user, sessionId, twoFactorVerified } =
+      await AuthService.verifyToken(token, {
+        ip_address: req.ip,
+      });
     console.log("✅ Token verified for user:", user.user_id);
 
     req.user = user;
+    req.sessionId = sessionId;
+    req.twoFactorVerified = twoFactorVerified;
     next();
   } catch (error: any) {
     console.error("💥 Token verification failed:", error.message);
@@ -61,7 +69,9 @@ export async function authenticateToken(
     });
   }
 }
-export const requireAdmin = async (
+// Staff access: the account holds at least one role and is secured enough
+// to be trusted with other users' data
+export const requireStaff = async (
   req: AuthRequest,
   res: Response,
   next: NextFunction
@@ -74,14 +84,13 @@ export const requireAdmin = async (
       });
     }
 
-    // Check if user has admin privileges
-    if (!req.user.is_admin && !req.user.is_super_admin) {
+    if (staffRoles(req.user).length === 0) {
       console.warn(
-        `⚠️ Unauthorized admin access attempt by user: ${req.user.email}`
+        `⚠️ Unauthorized staff access attempt by user: ${req.user.email}`
       );
       return res.status(403).json({
         success: false,
-        error: "Insufficient permissions. Admin access required.",
+        error: "Insufficient permissions. Staff access required.",
       });
     }
 
@@ -89,60 +98,57 @@ export const requireAdmin = async (
     if (!req.user.email_verified) {
       return res.status(403).json({
         success: false,
-        error: "Email verification required for admin access",
+        error: "Email verification required for staff access",
       });
     }
 
-    console.log(`✅ Admin access granted to: ${req.user.email}`);
-    next();
-  } catch (error) {
-    console.error("Admin authorization error:", error);
-    res.status(500).json({
-      success: false,
-      error: "Authorization failed",
-    });
-  }
-};
-// Super admin middleware for sensitive operations
-export const requireSuperAdmin = async (
-  req: AuthRequest,
-  res: Response,
-  next: NextFunction
-) => {
-  try {
-    if (!req.user) {
-      return res.status(401).json({
-        success: false,
-        error: "Authentication required",
-      });
-    }
-
-    // Must have super admin flag
-    if (!req.user.is_super_admin) {
-      console.warn(
-        `⚠️ Unauthorized super admin access attempt by: ${req.user.email}`
-      );
+    // Staff accounts can reach data of every user, so they must use
+    // two-factor authentication
+    if (!req.user.totp_enabled) {
       return res.status(403).json({
         success: false,
-        error: "Super admin access required",
+        error: "Two-factor authentication is required for staff access",
+        code: "TWO_FACTOR_REQUIRED",
       });
     }
 
-    // Additional security check
-    if (!req.user.email_verified) {
+    // ...and this session must have been opened with the second factor,
+    // not just a password from before 2FA was turned on
+    if (!req.twoFactorVerified) {
       return res.status(403).json({
         success: false,
-        error: "Email verification required for super admin access",
+        error: "Sign in again with your verification code for staff access",
+        code: "TWO_FACTOR_VERIFICATION_REQUIRED",
       });
     }
 
-    console.log(`✅ Super admin access granted to: ${req.user.email}`);
     next();
   } catch (error) {
-    console.error("Super admin authorization error:", error);
+    console.error("Staff authorization error:", error);
     res.status(500).json({
       success: false,
       error: "Authorization failed",
     });
   }
 };
+
+// Permission check for a single endpoint; runs the staff checks first
+export function requirePermission(permission: Permission) {
+  return (req: AuthRequest, res: Response, next: NextFunction) =>
+    requireStaff(req, res, () => {
+      if (!hasPermission(staffRoles(req.user), permission)) {
+        console.warn(
+          `⚠️ ${req.user.email} lacks ${permission} for ${req.method} ${req.originalUrl}`
+        );
+        return res.status(403).json({
+          success: false,
+          error: "You don't have permission to do this",
+          code: "PERMISSION_DENIED",
+          permission,
+        });
+      }
+
+      console.log(`✅ ${permission} granted to: ${req.user.email}`);
+      next();
+    });
+}
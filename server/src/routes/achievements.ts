@@ -1,6 +1,8 @@
 import express from "express";
 import { AchievementService } from "../services/achievements";
+import { GamificationService } from "../services/gamification";
 import { authenticateToken } from "../middleware/auth";
+import { xpHistoryQuerySchema } from "../types/gamification";
 
 const router = express.Router();
 router.use(authenticateToken);
@@ -34,6 +36,72 @@ router.get("/", async (req, res) => {
   }
 });
 
+// Level, XP and achievement totals from the ledger
+router.get("/achievements/summary", async (req, res) => {
+  try {
+    const userId = req.user?.user_id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const summary = await GamificationService.getSummary(userId);
+
+    res.json({
+      success: true,
+      data: summary,
+    });
+  } catch (error) {
+    console.error("Error fetching gamification summary:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch gamification summary",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+// XP transaction history, newest first
+router.get("/achievements/xp-history", async (req, res) => {
+  try {
+    const userId = req.user?.user_id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const validation = xpHistoryQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid filters",
+        details: validation.error.errors,
+      });
+    }
+
+    const history = await GamificationService.getHistory(
+      userId,
+      validation.data
+    );
+
+    res.json({
+      success: true,
+      data: history,
+    });
+  } catch (error) {
+    console.error("Error fetching XP history:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch XP history",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
 // Check and award new achievements
 router.post("/check", async (req, res) => {
   try {
@@ -1,16 +1,30 @@
 
 import { Router, Response } from "express";
-import { authenticateToken, requireAdmin, requireSuperAdmin, AuthRequest } from "../middleware/auth";
+import { AchievementAggregation } from "@prisma/client";
+import { authenticateToken, requireStaff, requirePermission, AuthRequest } from "../middleware/auth";
 import { prisma } from "../lib/database";
+import { SubscriptionService } from "../services/subscriptions";
+import { SecurityEventService } from "../services/securityEvents";
+import { RoleService } from "../services/roles";
+import { AchievementService } from "../services/achievements";
+import { AchievementRuleEngine } from "../services/achievementRules";
+import { securityEventQuerySchema } from "../types/security";
+import { RoleError, roleGrantSchema } from "../types/roles";
+import {
+  AchievementRuleError,
+  achievementSchema,
+  achievementUpdateSchema
+} from "../types/achivements";
+import { hasPermission, PERMISSIONS, ROLE_PERMISSIONS, staffRoles } from "../config/roles";
 
 const router = Router();
 
-// Apply admin authentication to all routes
+// Every route needs a staff account; each one then checks its own permission
 router.use(authenticateToken);
-router.use(requireAdmin);
+router.use(requireStaff);
 
-// Get dashboard statistics (Admin access)
-router.get("/stats", async (req: AuthRequest, res: Response) => {
+// Get dashboard statistics
+router.get("/stats", requirePermission("dashboard:view"), async (req: AuthRequest, res: Response) => {
   try {
     const now = new Date();
     const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
@@ -43,6 +57,7 @@ router.get("/stats", async (req: AuthRequest, res: Response) => {
         _count: true,
       }),
       prisma.subscriptionPayment.aggregate({
+        where: { status: 'SUCCEEDED' },
         _sum: { amount: true },
         _count: true,
       }),
@@ -117,8 +132,8 @@ router.get("/stats", async (req: AuthRequest, res: Response) => {
   }
 });
 
-// Get all users with pagination (Admin access)
-router.get("/users", async (req: AuthRequest, res: Response) => {
+// Get all users with pagination
+router.get("/users", requirePermission("users:read"), async (req: AuthRequest, res: Response) => {
   try {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 20;
@@ -178,19 +193,24 @@ router.get("/users", async (req: AuthRequest, res: Response) => {
   }
 });
 
-// Get user details (Admin access)
-router.get("/users/:userId", async (req: AuthRequest, res: Response) => {
+// Get user details; questionnaire, meals and menus only for staff allowed
+// to see health data
+router.get("/users/:userId", requirePermission("users:read"), async (req: AuthRequest, res: Response) => {
   try {
     const { userId } = req.params;
+    const canReadHealth = hasPermission(staffRoles(req.user), "health:read");
 
     const user = await prisma.user.findUnique({
       where: { user_id: userId },
       include: {
-        questionnaires: { take: 1, orderBy: { date_completed: 'desc' } },
-        meals: { take: 10, orderBy: { created_at: 'desc' } },
-        recommendedMenus: { take: 5, orderBy: { created_at: 'desc' } },
+        ...(canReadHealth && {
+          questionnaires: { take: 1, orderBy: { date_completed: 'desc' } },
+          meals: { take: 10, orderBy: { created_at: 'desc' } },
+          recommendedMenus: { take: 5, orderBy: { created_at: 'desc' } },
+        }),
         payments: { orderBy: { payment_date: 'desc' } },
         achievements: { include: { achievement: true } },
+        roles: { select: { role: true, granted_by: true, granted_at: true } },
       }
     });
 
@@ -205,8 +225,8 @@ router.get("/users/:userId", async (req: AuthRequest, res: Response) => {
   }
 });
 
-// Delete user (Super Admin only - most sensitive operation)
-router.delete("/users/:userId", requireSuperAdmin, async (req: AuthRequest, res: Response) => {
+// Delete user (most sensitive operation)
+router.delete("/users/:userId", requirePermission("users:delete"), async (req: AuthRequest, res: Response) => {
   try {
     const { userId } = req.params;
     
@@ -233,8 +253,8 @@ router.delete("/users/:userId", requireSuperAdmin, async (req: AuthRequest, res:
   }
 });
 
-// Update user subscription (Super Admin only)
-router.patch("/users/:userId/subscription", requireSuperAdmin, async (req: AuthRequest, res: Response) => {
+// Update user subscription
+router.patch("/users/:userId/subscription", requirePermission("subscriptions:manage"), async (req: AuthRequest, res: Response) => {
   try {
     const { userId } = req.params;
     const { subscription_type } = req.body;
@@ -247,6 +267,11 @@ router.patch("/users/:userId/subscription", requireSuperAdmin, async (req: AuthR
       });
     }
 
+    const previous = await prisma.user.findUnique({
+      where: { user_id: userId },
+      select: { subscription_type: true }
+    });
+
     const updatedUser = await prisma.user.update({
       where: { user_id: userId },
       data: { subscription_type },
@@ -257,6 +282,19 @@ router.patch("/users/:userId/subscription", requireSuperAdmin, async (req: AuthR
       }
     });
 
+    await SecurityEventService.record({
+      type: "SUBSCRIPTION_CHANGED",
+      user_id: updatedUser.user_id,
+      email: updatedUser.email,
+      actor_id: req.user.user_id,
+      context: { ip_address: req.ip, user_agent: req.get("user-agent") },
+      metadata: {
+        reason: "admin",
+        from: previous?.subscription_type,
+        to: updatedUser.subscription_type
+      }
+    });
+
     console.log(`✅ User ${userId} subscription updated to ${subscription_type} by ${req.user?.email}`);
 
     res.json({
@@ -269,13 +307,44 @@ router.patch("/users/:userId/subscription", requireSuperAdmin, async (req: AuthR
   }
 });
 
-// Get recent activity (Admin access)
-router.get("/activity", async (req: AuthRequest, res: Response) => {
+// Refund a subscription payment
+router.post("/payments/:paymentId/refund", requirePermission("payments:refund"), async (req: AuthRequest, res: Response) => {
+  try {
+    const paymentId = parseInt(req.params.paymentId);
+    const amount = req.body.amount !== undefined ? Number(req.body.amount) : undefined;
+
+    if (isNaN(paymentId) || (amount !== undefined && isNaN(amount))) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid payment id or amount"
+      });
+    }
+
+    const payment = await SubscriptionService.refundPayment(paymentId, amount);
+
+    console.log(`↩️ Payment ${paymentId} refunded by ${req.user?.email}`);
+
+    res.json({
+      success: true,
+      data: payment
+    });
+  } catch (error) {
+    console.error("Refund payment error:", error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to refund payment"
+    });
+  }
+});
+
+// Get recent activity; logged meals only for staff allowed to see health data
+router.get("/activity", requirePermission("users:read"), async (req: AuthRequest, res: Response) => {
   try {
     const limit = parseInt(req.query.limit as string) || 50;
+    const canReadHealth = hasPermission(staffRoles(req.user), "health:read");
 
     const [recentMeals, recentSignups, recentPayments] = await Promise.all([
-      prisma.meal.findMany({
+      !canReadHealth ? [] : prisma.meal.findMany({
         take: limit,
         orderBy: { created_at: 'desc' },
         select: {
@@ -324,8 +393,115 @@ router.get("/activity", async (req: AuthRequest, res: Response) => {
   }
 });
 
-// Get system health (Admin access)
-router.get("/system/health", async (req: AuthRequest, res: Response) => {
+// Security audit log
+router.get("/security-events", requirePermission("security:read"), async (req: AuthRequest, res: Response) => {
+  try {
+    const validation = securityEventQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid filters",
+        details: validation.error.errors
+      });
+    }
+
+    const data = await SecurityEventService.list(validation.data);
+
+    res.json({
+      success: true,
+      data
+    });
+  } catch (error) {
+    console.error("Security events error:", error);
+    res.status(500).json({ success: false, error: "Failed to fetch security events" });
+  }
+});
+
+// Achievement definitions and the building blocks for their rules
+router.get("/achievements", requirePermission("content:manage"), async (req: AuthRequest, res: Response) => {
+  try {
+    const achievements = await AchievementService.listDefinitions();
+
+    res.json({
+      success: true,
+      data: {
+        achievements,
+        rules: {
+          aggregations: Object.values(AchievementAggregation),
+          metrics: AchievementRuleEngine.metrics,
+          stats: AchievementRuleEngine.stats
+        }
+      }
+    });
+  } catch (error) {
+    console.error("List achievements error:", error);
+    res.status(500).json({ success: false, error: "Failed to fetch achievements" });
+  }
+});
+
+// Add an achievement; it's checked for every user from then on
+router.post("/achievements", requirePermission("content:manage"), async (req: AuthRequest, res: Response) => {
+  try {
+    const validation = achievementSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid achievement",
+        details: validation.error.errors
+      });
+    }
+
+    const achievement = await AchievementService.createDefinition(validation.data);
+
+    console.log(`🏆 Achievement ${achievement.key} created by ${req.user?.email}`);
+
+    res.status(201).json({
+      success: true,
+      data: achievement
+    });
+  } catch (error) {
+    if (error instanceof AchievementRuleError) {
+      return res.status(error.statusCode).json({ success: false, error: error.message });
+    }
+    console.error("Create achievement error:", error);
+    res.status(500).json({ success: false, error: "Failed to create achievement" });
+  }
+});
+
+// Edit an achievement; already unlocked ones stay unlocked
+router.patch("/achievements/:id", requirePermission("content:manage"), async (req: AuthRequest, res: Response) => {
+  try {
+    const validation = achievementUpdateSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid achievement",
+        details: validation.error.errors
+      });
+    }
+
+    const achievement = await AchievementService.updateDefinition(
+      req.params.id,
+      validation.data
+    );
+
+    console.log(`🏆 Achievement ${achievement.key} updated by ${req.user?.email}`);
+
+    res.json({
+      success: true,
+      data: achievement
+    });
+  } catch (error) {
+    if (error instanceof AchievementRuleError) {
+      return res.status(error.statusCode).json({ success: false, error: error.message });
+    }
+    console.error("Update achievement error:", error);
+    res.status(500).json({ success: false, error: "Failed to update achievement" });
+  }
+});
+
+// Get system health
+router.get("/system/health", requirePermission("system:view"), async (req: AuthRequest, res: Response) => {
   try {
     const dbHealth = await prisma.$queryRaw`SELECT 1`;
     
@@ -347,37 +523,86 @@ router.get("/system/health", async (req: AuthRequest, res: Response) => {
   }
 });
 
-// Promote user to admin (Super Admin only)
-router.patch("/users/:userId/promote-admin", requireSuperAdmin, async (req: AuthRequest, res: Response) => {
+// Staff accounts and what each role may do
+router.get("/roles", requirePermission("roles:manage"), async (req: AuthRequest, res: Response) => {
   try {
-    const { userId } = req.params;
-    const { is_admin, is_super_admin } = req.body;
-
-    // Build update data object conditionally
-    const updateData: any = {};
-    if (is_admin !== undefined) updateData.is_admin = is_admin;
-    if (is_super_admin !== undefined) updateData.is_super_admin = is_super_admin;
+    const staff = await RoleService.listStaff();
 
-    const updatedUser = await prisma.user.update({
-      where: { user_id: userId },
-      data: updateData,
-      select: {
-        user_id: true,
-        email: true,
-        is_admin: true,
-        is_super_admin: true,
+    res.json({
+      success: true,
+      data: {
+        roles: ROLE_PERMISSIONS,
+        permissions: PERMISSIONS,
+        staff
       }
     });
+  } catch (error) {
+    console.error("List roles error:", error);
+    res.status(500).json({ success: false, error: "Failed to fetch roles" });
+  }
+});
 
-    console.log(`✅ User ${userId} admin status updated by ${req.user?.email}`);
+// Grant a staff role
+router.post("/users/:userId/roles", requirePermission("roles:manage"), async (req: AuthRequest, res: Response) => {
+  try {
+    const validation = roleGrantSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid role",
+        details: validation.error.errors
+      });
+    }
+
+    const data = await RoleService.grant(
+      req.params.userId,
+      validation.data.role,
+      req.user.user_id,
+      { ip_address: req.ip, user_agent: req.get("user-agent") }
+    );
 
     res.json({
       success: true,
-      data: updatedUser
+      data
     });
   } catch (error) {
-    console.error("Promote admin error:", error);
-    res.status(500).json({ success: false, error: "Failed to update admin status" });
+    if (error instanceof RoleError) {
+      return res.status(error.statusCode).json({ success: false, error: error.message });
+    }
+    console.error("Grant role error:", error);
+    res.status(500).json({ success: false, error: "Failed to grant role" });
+  }
+});
+
+// Revoke a staff role
+router.delete("/users/:userId/roles/:role", requirePermission("roles:manage"), async (req: AuthRequest, res: Response) => {
+  try {
+    const validation = roleGrantSchema.safeParse({ role: req.params.role });
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid role",
+        details: validation.error.errors
+      });
+    }
+
+    const data = await RoleService.revoke(
+      req.params.userId,
+      validation.data.role,
+      req.user.user_id,
+      { ip_address: req.ip, user_agent: req.get("user-agent") }
+    );
+
+    res.json({
+      success: true,
+      data
+    });
+  } catch (error) {
+    if (error instanceof RoleError) {
+      return res.status(error.statusCode).json({ success: false, error: error.message });
+    }
+    console.error("Revoke role error:", error);
+    res.status(500).json({ success: false, error: "Failed to revoke role" });
   }
 });
 
@@ -1,12 +1,116 @@
-import { Router } from "express";
+import { Request, Response, Router } from "express";
 import crypto from "crypto";
-import { AuthService } from "../services/auth";
-import { signUpSchema, signInSchema } from "../types/auth";
+import { AuthService, AuthUser } from "../services/auth";
+import { isIdentityProvider } from "../services/identity";
+import { TwoFactorService } from "../services/twoFactor";
+import {
+  signUpSchema,
+  signInSchema,
+  identitySignInSchema,
+  IdentityError,
+  twoFactorChallengeSchema,
+  twoFactorCodeSchema,
+  TwoFactorError,
+  SessionContext,
+  SessionError,
+  SessionTokens,
+} from "../types/auth";
+import { LoginThrottleError } from "../types/security";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
 import { prisma } from "../lib/database";
+import { MediaService } from "../services/media";
+import { getPermissions, staffRoles } from "../config/roles";
 
 const router = Router();
 
+// The app sends device_name and platform when signing in so the session list
+// can name the device
+function sessionContext(req: Request): SessionContext {
+  const { device_name, platform } = req.body || {};
+  return {
+    device_name: typeof device_name === "string" ? device_name : undefined,
+    platform: typeof platform === "string" ? platform : undefined,
+    user_agent: req.get("user-agent"),
+    ip_address: req.ip,
+  };
+}
+
+function setSessionCookies(res: Response, tokens: SessionTokens) {
+  res.cookie("auth_token", tokens.token, AuthService.getCookieOptions());
+  res.cookie(
+    "refresh_token",
+    tokens.refresh_token,
+    AuthService.getRefreshCookieOptions()
+  );
+}
+
+// Web clients also get the tokens as HTTP-only cookies
+function isWebClient(req: Request) {
+  return (
+    req.headers.origin?.includes("localhost:19006") ||
+    req.headers.origin?.includes("localhost:8081") ||
+    req.headers["user-agent"]?.includes("Mozilla")
+  );
+}
+
+// User payload returned when signing in
+async function signedInUser(user: AuthUser) {
+  // Get questionnaire data for meals_per_day
+  const questionnaire = await prisma.userQuestionnaire.findFirst({
+    where: { user_id: user.user_id },
+    select: { meals_per_day: true },
+  });
+
+  return {
+    user_id: user.user_id,
+    name: user.name,
+    email: user.email,
+    email_verified: user.email_verified,
+    subscription_type: user.subscription_type,
+    is_questionnaire_completed: user.is_questionnaire_completed,
+    avatar_url: await MediaService.resolveUrl(user.avatar_url),
+    meals_per_day: questionnaire?.meals_per_day || 3,
+    created_at: user.created_at,
+    roles: staffRoles(user),
+    permissions: getPermissions(staffRoles(user)),
+    level: user.level,
+    total_points: user.total_points,
+    current_xp: user.current_xp,
+    current_streak: user.current_streak,
+    best_streak: user.best_streak,
+    total_complete_days: user.total_complete_days,
+    last_complete_date: user.last_complete_date,
+    active_meal_plan_id: user.active_meal_plan_id,
+    active_menu_id: user.active_menu_id,
+    birth_date: user.birth_date,
+    timezone: user.timezone,
+    signup_date: user.signup_date,
+    subscription_start: user.subscription_start,
+    subscription_end: user.subscription_end,
+    ai_requests_count: user.ai_requests_count,
+    ai_requests_reset_at: user.ai_requests_reset_at,
+    two_factor_enabled: user.totp_enabled,
+  };
+}
+
+// 429 with Retry-After while the account or IP is locked out
+function sendThrottleError(res: Response, error: LoginThrottleError) {
+  res.set("Retry-After", String(error.retryAfterSeconds));
+  return res.status(error.statusCode).json({
+    success: false,
+    error: error.message,
+    retry_after: error.retryAfterSeconds,
+  });
+}
+
+function clearSessionCookies(res: Response) {
+  const { maxAge: _maxAge, ...cookieOptions } = AuthService.getCookieOptions();
+  const { maxAge: _refreshMaxAge, ...refreshCookieOptions } =
+    AuthService.getRefreshCookieOptions();
+  res.clearCookie("auth_token", cookieOptions);
+  res.clearCookie("refresh_token", refreshCookieOptions);
+}
+
 router.post("/signup", async (req, res, next) => {
   try {
     console.log("🔄 Processing signup request...");
@@ -70,17 +174,18 @@ router.post("/verify-email", async (req, res, next) => {
     }
 
     console.log(`🔒 Verifying code ${code} for email: ${email}`);
-    const result = await AuthService.verifyEmail(email, code);
+    const result = await AuthService.verifyEmail(
+      email,
+      code,
+      sessionContext(req)
+    );
 
-    // Set secure HTTP-only cookie for web clients
-    const isWebClient =
-      req.headers.origin?.includes("localhost:19006") ||
-      req.headers.origin?.includes("localhost:8081") ||
-      req.headers["user-agent"]?.includes("Mozilla");
+    if ("two_factor_required" in result) {
+      return res.json({ success: true, ...result });
+    }
 
-    if (isWebClient) {
-      const cookieOptions = AuthService.getCookieOptions();
-      res.cookie("auth_token", result.token, cookieOptions);
+    if (isWebClient(req)) {
+      setSessionCookies(res, result);
       console.log("🍪 Cookie set for web client");
     }
 
@@ -91,6 +196,8 @@ router.post("/verify-email", async (req, res, next) => {
       success: true,
       user: result.user,
       token: result.token,
+      refresh_token: result.refresh_token,
+      expires_in: result.expires_in,
       message: "Email verified successfully",
     });
   } catch (error) {
@@ -182,17 +289,15 @@ router.post("/signin", async (req, res, next) => {
     console.log("🔍 User-Agent:", req.headers["user-agent"]);
 
     const validatedData = signInSchema.parse(req.body);
-    const result = await AuthService.signIn(validatedData);
+    const result = await AuthService.signIn(validatedData, sessionContext(req));
 
-    // Set secure HTTP-only cookie for web clients
-    const isWebClient =
-      req.headers.origin?.includes("localhost:19006") ||
-      req.headers.origin?.includes("localhost:8081") ||
-      req.headers["user-agent"]?.includes("Mozilla");
+    if ("two_factor_required" in result) {
+      console.log("🔐 Password accepted, waiting for two-factor code");
+      return res.json({ success: true, ...result });
+    }
 
-    if (isWebClient) {
-      const cookieOptions = AuthService.getCookieOptions();
-      res.cookie("auth_token", result.token, cookieOptions);
+    if (isWebClient(req)) {
+      setSessionCookies(res, result);
       console.log("🍪 Cookie set for web client");
     } else {
       console.log(
@@ -202,48 +307,18 @@ router.post("/signin", async (req, res, next) => {
 
     console.log("✅ Signin successful");
 
-    // Get questionnaire data for meals_per_day
-    const questionnaire = await prisma.userQuestionnaire.findFirst({
-      where: { user_id: result.user.user_id },
-      select: { meals_per_day: true },
-    });
-
-    const userData = {
-      user_id: result.user.user_id,
-      name: result.user.name,
-      email: result.user.email,
-      email_verified: result.user.email_verified,
-      subscription_type: result.user.subscription_type,
-      is_questionnaire_completed: result.user.is_questionnaire_completed,
-      avatar_url: result.user.avatar_url,
-      meals_per_day: questionnaire?.meals_per_day || 3,
-      created_at: result.user.created_at,
-      is_admin: result.user.is_admin,
-      is_super_admin: result.user.is_super_admin,
-      level: result.user.level,
-      total_points: result.user.total_points,
-      current_xp: result.user.current_xp,
-      current_streak: result.user.current_streak,
-      best_streak: result.user.best_streak,
-      total_complete_days: result.user.total_complete_days,
-      last_complete_date: result.user.last_complete_date,
-      active_meal_plan_id: result.user.active_meal_plan_id,
-      active_menu_id: result.user.active_menu_id,
-      birth_date: result.user.birth_date,
-      signup_date: result.user.signup_date,
-      subscription_start: result.user.subscription_start,
-      subscription_end: result.user.subscription_end,
-      ai_requests_count: result.user.ai_requests_count,
-      ai_requests_reset_at: result.user.ai_requests_reset_at,
-    };
-
     res.json({
       success: true,
-      user: userData,
+      user: await signedInUser(result.user),
       token: result.token, // Always send token for mobile compatibility
+      refresh_token: result.refresh_token,
+      expires_in: result.expires_in,
     });
   } catch (error) {
     console.error("💥 Signin error:", error);
+    if (error instanceof LoginThrottleError) {
+      return sendThrottleError(res, error);
+    }
     if (error instanceof Error) {
       res.status(401).json({
         success: false,
@@ -255,6 +330,115 @@ router.post("/signin", async (req, res, next) => {
   }
 });
 
+// Sign in with a Google or Apple ID token obtained by the app
+router.post("/oauth/:provider", async (req, res) => {
+  try {
+    const { provider } = req.params;
+    if (!isIdentityProvider(provider)) {
+      return res.status(404).json({
+        success: false,
+        error: "Unknown sign-in provider",
+      });
+    }
+
+    const validation = identitySignInSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid sign-in data",
+        details: validation.error.errors,
+      });
+    }
+
+    console.log(`🔄 Processing ${provider} signin request...`);
+    const result = await AuthService.signInWithIdentity(
+      provider,
+      validation.data,
+      sessionContext(req)
+    );
+
+    if ("two_factor_required" in result) {
+      return res.json({ success: true, ...result });
+    }
+
+    if (isWebClient(req)) {
+      setSessionCookies(res, result);
+    }
+
+    console.log(`✅ ${provider} signin successful`);
+
+    res.json({
+      success: true,
+      user: await signedInUser(result.user),
+      token: result.token,
+      refresh_token: result.refresh_token,
+      expires_in: result.expires_in,
+      is_new_user: result.is_new_user,
+    });
+  } catch (error) {
+    console.error("💥 Provider signin error:", error);
+    if (error instanceof IdentityError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: "Sign-in failed",
+    });
+  }
+});
+
+// Second sign-in step for accounts with two-factor authentication
+router.post("/2fa/verify", async (req, res) => {
+  try {
+    const validation = twoFactorChallengeSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid verification data",
+        details: validation.error.errors,
+      });
+    }
+
+    const result = await AuthService.verifyTwoFactorChallenge(
+      validation.data.challenge_token,
+      validation.data.code,
+      sessionContext(req)
+    );
+
+    if (isWebClient(req)) {
+      setSessionCookies(res, result);
+    }
+
+    console.log("✅ Two-factor signin successful");
+
+    res.json({
+      success: true,
+      user: await signedInUser(result.user),
+      token: result.token,
+      refresh_token: result.refresh_token,
+      expires_in: result.expires_in,
+    });
+  } catch (error) {
+    console.error("💥 Two-factor verification error:", error);
+    if (error instanceof LoginThrottleError) {
+      return sendThrottleError(res, error);
+    }
+    if (error instanceof TwoFactorError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: "Verification failed",
+    });
+  }
+});
+
 router.get("/me", authenticateToken, async (req: AuthRequest, res) => {
   try {
     // Get questionnaire data for meals_per_day
@@ -270,11 +454,11 @@ router.get("/me", authenticateToken, async (req: AuthRequest, res) => {
       email_verified: req.user.email_verified,
       subscription_type: req.user.subscription_type,
       is_questionnaire_completed: req.user.is_questionnaire_completed,
-      avatar_url: req.user.avatar_url,
+      avatar_url: await MediaService.resolveUrl(req.user.avatar_url),
       meals_per_day: questionnaire?.meals_per_day || 3,
       created_at: req.user.created_at,
-      is_admin: req.user.is_admin,
-      is_super_admin: req.user.is_super_admin,
+      roles: staffRoles(req.user),
+      permissions: getPermissions(staffRoles(req.user)),
       level: req.user.level,
       total_points: req.user.total_points,
       current_xp: req.user.current_xp,
@@ -285,11 +469,13 @@ router.get("/me", authenticateToken, async (req: AuthRequest, res) => {
       active_meal_plan_id: req.user.active_meal_plan_id,
       active_menu_id: req.user.active_menu_id,
       birth_date: req.user.birth_date,
+      timezone: req.user.timezone,
       signup_date: req.user.signup_date,
       subscription_start: req.user.subscription_start,
       subscription_end: req.user.subscription_end,
       ai_requests_count: req.user.ai_requests_count,
       ai_requests_reset_at: req.user.ai_requests_reset_at,
+      two_factor_enabled: req.user.totp_enabled,
     };
 
     res.json({
@@ -310,21 +496,11 @@ router.post(
   authenticateToken,
   async (req: AuthRequest, res, next) => {
     try {
-      // Get token from cookie or header
-      const token =
-        req.cookies.auth_token || req.headers.authorization?.substring(7);
-
-      if (token) {
-        await AuthService.signOut(token);
+      if (req.sessionId) {
+        await AuthService.signOut(req.sessionId);
       }
 
-      // Clear the cookie
-      res.clearCookie("auth_token", {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === "production",
-        sameSite: "lax",
-        path: "/",
-      });
+      clearSessionCookies(res);
 
       console.log("✅ Signout successful, cookie cleared");
 
@@ -338,6 +514,344 @@ router.post(
   }
 );
 
+// Exchange a refresh token for a new token pair
+router.post("/refresh", async (req, res) => {
+  try {
+    const refreshToken = req.body?.refresh_token || req.cookies.refresh_token;
+    if (!refreshToken || typeof refreshToken !== "string") {
+      return res.status(400).json({
+        success: false,
+        error: "Refresh token is required",
+      });
+    }
+
+    const tokens = await AuthService.refreshSession(
+      refreshToken,
+      sessionContext(req)
+    );
+
+    if (req.cookies.refresh_token) {
+      setSessionCookies(res, tokens);
+    }
+
+    res.json({
+      success: true,
+      token: tokens.token,
+      refresh_token: tokens.refresh_token,
+      expires_in: tokens.expires_in,
+    });
+  } catch (error) {
+    if (error instanceof SessionError) {
+      clearSessionCookies(res);
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    }
+    console.error("💥 Token refresh error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to refresh session",
+    });
+  }
+});
+
+// Devices the user is signed in on
+router.get("/sessions", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const sessions = await AuthService.listSessions(
+      req.user.user_id,
+      req.sessionId
+    );
+    res.json({ success: true, data: sessions });
+  } catch (error) {
+    console.error("💥 List sessions error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch sessions",
+    });
+  }
+});
+
+// Sign out everywhere; ?keep_current=true keeps this device signed in
+router.delete("/sessions", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const keepCurrent = req.query.keep_current === "true";
+    const revoked = await AuthService.revokeAllSessions(
+      req.user.user_id,
+      keepCurrent ? req.sessionId : undefined
+    );
+
+    if (!keepCurrent) {
+      clearSessionCookies(res);
+    }
+
+    console.log(`✅ Revoked ${revoked} sessions for user ${req.user.user_id}`);
+    res.json({ success: true, data: { revoked } });
+  } catch (error) {
+    console.error("💥 Revoke all sessions error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to sign out everywhere",
+    });
+  }
+});
+
+router.delete(
+  "/sessions/:sessionId",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const revoked = await AuthService.revokeSession(
+        req.user.user_id,
+        req.params.sessionId
+      );
+      if (!revoked) {
+        return res.status(404).json({
+          success: false,
+          error: "Session not found",
+        });
+      }
+
+      if (req.params.sessionId === req.sessionId) {
+        clearSessionCookies(res);
+      }
+
+      res.json({ success: true, message: "Session revoked" });
+    } catch (error) {
+      console.error("💥 Revoke session error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to revoke session",
+      });
+    }
+  }
+);
+
+router.get("/identities", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const data = await AuthService.listIdentities(req.user.user_id);
+    res.json({ success: true, data });
+  } catch (error) {
+    console.error("💥 List identities error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to load linked accounts",
+    });
+  }
+});
+
+router.post(
+  "/identities/:provider",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const { provider } = req.params;
+      if (!isIdentityProvider(provider)) {
+        return res.status(404).json({
+          success: false,
+          error: "Unknown sign-in provider",
+        });
+      }
+
+      const validation = identitySignInSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid sign-in data",
+          details: validation.error.errors,
+        });
+      }
+
+      await AuthService.linkIdentity(
+        req.user.user_id,
+        provider,
+        validation.data
+      );
+      console.log(`🔗 Linked ${provider} account for ${req.user.user_id}`);
+
+      res.json({
+        success: true,
+        data: await AuthService.listIdentities(req.user.user_id),
+      });
+    } catch (error) {
+      console.error("💥 Link identity error:", error);
+      if (error instanceof IdentityError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      }
+      res.status(500).json({
+        success: false,
+        error: "Failed to link account",
+      });
+    }
+  }
+);
+
+router.delete(
+  "/identities/:provider",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const { provider } = req.params;
+      if (!isIdentityProvider(provider)) {
+        return res.status(404).json({
+          success: false,
+          error: "Unknown sign-in provider",
+        });
+      }
+
+      await AuthService.unlinkIdentity(req.user.user_id, provider);
+      console.log(`✅ Unlinked ${provider} account for ${req.user.user_id}`);
+
+      res.json({
+        success: true,
+        data: await AuthService.listIdentities(req.user.user_id),
+      });
+    } catch (error) {
+      console.error("💥 Unlink identity error:", error);
+      if (error instanceof IdentityError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      }
+      res.status(500).json({
+        success: false,
+        error: "Failed to unlink account",
+      });
+    }
+  }
+);
+
+function sendTwoFactorError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof LoginThrottleError) {
+    return sendThrottleError(res, error);
+  }
+  if (error instanceof TwoFactorError) {
+    return res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+    });
+  }
+  res.status(500).json({ success: false, error: fallback });
+}
+
+router.get("/2fa", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const data = await TwoFactorService.getStatus(req.user.user_id);
+    res.json({ success: true, data });
+  } catch (error) {
+    console.error("💥 Two-factor status error:", error);
+    sendTwoFactorError(res, error, "Failed to load two-factor status");
+  }
+});
+
+router.post("/2fa/setup", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const data = await TwoFactorService.startEnrollment(req.user.user_id);
+    res.json({ success: true, data });
+  } catch (error) {
+    console.error("💥 Two-factor setup error:", error);
+    sendTwoFactorError(res, error, "Failed to start two-factor setup");
+  }
+});
+
+router.post("/2fa/enable", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const validation = twoFactorCodeSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid verification code",
+        details: validation.error.errors,
+      });
+    }
+
+    const recoveryCodes = await TwoFactorService.enable(
+      req.user.user_id,
+      validation.data.code
+    );
+    // Other devices signed in with just a password; make them sign in again
+    await AuthService.revokeAllSessions(req.user.user_id, req.sessionId);
+    if (req.sessionId) {
+      await AuthService.markTwoFactorVerified(req.sessionId);
+    }
+
+    res.json({ success: true, data: { recovery_codes: recoveryCodes } });
+  } catch (error) {
+    console.error("💥 Enable two-factor error:", error);
+    sendTwoFactorError(
+      res,
+      error,
+      "Failed to enable two-factor authentication"
+    );
+  }
+});
+
+router.post(
+  "/2fa/disable",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const validation = twoFactorCodeSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid verification code",
+          details: validation.error.errors,
+        });
+      }
+
+      await TwoFactorService.disable(
+        req.user.user_id,
+        validation.data.code,
+        sessionContext(req)
+      );
+      res.json({
+        success: true,
+        message: "Two-factor authentication disabled",
+      });
+    } catch (error) {
+      console.error("💥 Disable two-factor error:", error);
+      sendTwoFactorError(
+        res,
+        error,
+        "Failed to disable two-factor authentication"
+      );
+    }
+  }
+);
+
+router.post(
+  "/2fa/recovery-codes",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const validation = twoFactorCodeSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid verification code",
+          details: validation.error.errors,
+        });
+      }
+
+      const recoveryCodes = await TwoFactorService.regenerateRecoveryCodes(
+        req.user.user_id,
+        validation.data.code,
+        sessionContext(req)
+      );
+      res.json({ success: true, data: { recovery_codes: recoveryCodes } });
+    } catch (error) {
+      console.error("💥 Regenerate recovery codes error:", error);
+      sendTwoFactorError(res, error, "Failed to create new recovery codes");
+    }
+  }
+);
+
 // Forgot password endpoint
 router.post("/forgot-password", async (req, res) => {
   try {
@@ -352,7 +866,7 @@ router.post("/forgot-password", async (req, res) => {
 
     console.log("🔄 Processing forgot password request for:", email);
 
-    const result = await AuthService.sendPasswordResetEmail(email);
+    await AuthService.sendPasswordResetEmail(email, sessionContext(req));
 
     res.json({
       success: true,
@@ -360,6 +874,9 @@ router.post("/forgot-password", async (req, res) => {
     });
   } catch (error) {
     console.error("💥 Forgot password error:", error);
+    if (error instanceof LoginThrottleError) {
+      return sendThrottleError(res, error);
+    }
     if (error instanceof Error) {
       res.status(400).json({
         success: false,
@@ -388,7 +905,11 @@ router.post("/verify-reset-code", async (req, res) => {
 
     console.log("🔄 Verifying reset code for:", email);
 
-    const resetToken = await AuthService.verifyResetCode(email, code);
+    const resetToken = await AuthService.verifyResetCode(
+      email,
+      code,
+      sessionContext(req)
+    );
 
     res.json({
       success: true,
@@ -397,6 +918,9 @@ router.post("/verify-reset-code", async (req, res) => {
     });
   } catch (error) {
     console.error("💥 Reset code verification error:", error);
+    if (error instanceof LoginThrottleError) {
+      return sendThrottleError(res, error);
+    }
     if (error instanceof Error) {
       res.status(400).json({
         success: false,
@@ -425,7 +949,7 @@ router.post("/reset-password", async (req, res) => {
 
     console.log("🔄 Processing password reset with token");
 
-    await AuthService.resetPassword(token, newPassword);
+    await AuthService.resetPassword(token, newPassword, sessionContext(req));
 
     res.json({
       success: true,
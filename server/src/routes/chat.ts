@@ -1,7 +1,15 @@
 import { Router, Request, Response } from "express";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
 import { ChatService } from "../services/chat";
+import {
+  ChatConversationService,
+  MessageConversation,
+} from "../services/chatConversations";
+import { ChatToolService } from "../services/chatTools";
+import { ChatActionError } from "../types/chat";
 import { UsageTrackingService } from "../services/usageTracking";
+import { EntitlementService } from "../services/entitlements";
+import { QuotaCheck } from "../types/entitlements";
 import { z } from "zod";
 import { prisma } from "../lib/database";
 
@@ -20,6 +28,103 @@ const healthBasedRecommendationSchema = z.object({
   prompt: z.string().optional(),
 });
 
+const createConversationSchema = z.object({
+  title: z.string().trim().max(120).optional(),
+});
+
+const updateConversationSchema = z
+  .object({
+    title: z.string().trim().min(1).max(120).optional(),
+    is_pinned: z.boolean().optional(),
+    is_archived: z.boolean().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "Nothing to update",
+  });
+
+function writeEvent(res: Response, event: string, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Streaming variant of POST /message: token deltas are sent as Server-Sent
+ * Events and usage is charged once the stream ends or the client disconnects.
+ */
+async function streamChatReply(
+  res: Response,
+  userId: string,
+  message: string,
+  language: string,
+  limitCheck: QuotaCheck,
+  conversation: MessageConversation
+) {
+  res.status(200).set({
+    "Content-Type": "text/event-stream",
+    // no-transform keeps the compression middleware from buffering events
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  try {
+    console.log("🔄 Streaming chat message for user:", userId);
+    writeEvent(res, "start", {
+      conversation: {
+        conversation_id: conversation.conversation_id,
+        title: conversation.title,
+      },
+      timestamp: new Date().toISOString(),
+    });
+
+    const result = await ChatService.streamMessage(userId, message, language, {
+      signal: controller.signal,
+      conversation,
+      onDelta: (text) => writeEvent(res, "delta", { text }),
+    });
+
+    await UsageTrackingService.incrementAIChatTokens(
+      userId,
+      result.tokensCharged
+    );
+
+    if (result.aborted) return;
+    if (result.failed) {
+      writeEvent(res, "error", { error: "Failed to process message" });
+      return;
+    }
+
+    writeEvent(res, "done", {
+      conversationId: conversation.conversation_id,
+      messageId: result.messageId,
+      response: result.response,
+      actions: result.actions,
+      usage: {
+        tokensUsed: result.tokensCharged,
+        current: limitCheck.used + result.tokensCharged,
+        limit: limitCheck.limit,
+        remaining:
+          limitCheck.remaining !== null
+            ? Math.max(0, limitCheck.remaining - result.tokensCharged)
+            : null,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("💥 Chat stream error:", error);
+    if (!controller.signal.aborted) {
+      writeEvent(res, "error", { error: "Failed to process message" });
+    }
+  } finally {
+    res.end();
+  }
+}
+
 // Send chat message
 router.post(
   "/message",
@@ -32,22 +137,7 @@ router.post(
     }
 
     try {
-      // Check user subscription first
-      const user = await prisma.user.findUnique({
-        where: { user_id: userId },
-        select: { subscription_type: true },
-      });
-
-      if (!user || user.subscription_type === "FREE") {
-        return res.status(403).json({
-          success: false,
-          error:
-            "AI Chat is not available on the Free plan. Please upgrade to Gold or Platinum plan.",
-          subscriptionRequired: true,
-        });
-      }
-
-      const { message, language = "hebrew" } = req.body;
+      const { message, language = "hebrew", conversation_id } = req.body;
 
       if (!message || typeof message !== "string" || message.trim() === "") {
         return res.status(400).json({
@@ -57,8 +147,9 @@ router.post(
       }
 
       const estimatedTokens = Math.ceil(message.length / 4) + 100;
-      const limitCheck = await UsageTrackingService.checkAIChatLimit(
+      const limitCheck = await EntitlementService.checkQuota(
         userId,
+        "aiChatTokens",
         estimatedTokens
       );
 
@@ -66,14 +157,41 @@ router.post(
         return res.status(403).json({
           success: false,
           error: limitCheck.message,
+          subscriptionRequired: limitCheck.limit === 0,
           usage: {
-            current: limitCheck.current,
+            current: limitCheck.used,
             limit: limitCheck.limit,
             remaining: limitCheck.remaining,
           },
         });
       }
 
+      const conversation = await ChatConversationService.resolveForMessage(
+        userId,
+        typeof conversation_id === "string" ? conversation_id : undefined,
+        message
+      );
+      if (!conversation) {
+        return res.status(404).json({
+          success: false,
+          error: "Conversation not found",
+        });
+      }
+
+      if (
+        req.body.stream === true ||
+        req.headers.accept?.includes("text/event-stream")
+      ) {
+        return streamChatReply(
+          res,
+          userId,
+          message,
+          language,
+          limitCheck,
+          conversation
+        );
+      }
+
       console.log("🔄 Processing chat message for user:", userId);
       console.log("📝 Message:", message);
       console.log("🌐 Language:", language);
@@ -81,14 +199,16 @@ router.post(
       const response = await ChatService.processMessage(
         userId,
         message,
-        language
+        language,
+        conversation
       );
 
       console.log("✅ Chat service response:", response);
 
-      const actualTokens =
-        Math.ceil(message.length / 4) +
-        Math.ceil((response.response?.length || 0) / 4);
+      const actualTokens = ChatService.billedTokens(
+        message,
+        response.response || ""
+      );
       await UsageTrackingService.incrementAIChatTokens(userId, actualTokens);
 
       res.json({
@@ -96,14 +216,17 @@ router.post(
         response: {
           response: response.response,
           messageId: response.messageId,
+          conversationId: conversation.conversation_id,
+          actions: response.actions,
         },
         usage: {
           tokensUsed: actualTokens,
-          current: limitCheck.current + actualTokens,
+          current: limitCheck.used + actualTokens,
           limit: limitCheck.limit,
-          remaining: limitCheck.remaining
-            ? limitCheck.remaining - actualTokens
-            : null,
+          remaining:
+            limitCheck.remaining !== null
+              ? Math.max(0, limitCheck.remaining - actualTokens)
+              : null,
         },
         timestamp: new Date().toISOString(),
       });
@@ -171,6 +294,9 @@ router.delete(
       await prisma.chatMessage.deleteMany({
         where: { user_id: userId },
       });
+      await prisma.chatConversation.deleteMany({
+        where: { user_id: userId },
+      });
 
       console.log("✅ Chat history cleared successfully");
 
@@ -188,6 +314,245 @@ router.delete(
   }
 );
 
+// List conversations, pinned first, then most recently active
+router.get(
+  "/conversations",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const conversations = await ChatConversationService.listConversations(
+        req.user.user_id,
+        {
+          archived: req.query.archived === "true",
+          limit: parseInt(req.query.limit as string) || 50,
+        }
+      );
+
+      res.json({ success: true, data: conversations });
+    } catch (error) {
+      console.error("💥 List conversations error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to get conversations",
+      });
+    }
+  }
+);
+
+router.post(
+  "/conversations",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const parsed = createConversationSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid conversation",
+          details: parsed.error.errors,
+        });
+      }
+
+      const conversation = await ChatConversationService.createConversation(
+        req.user.user_id,
+        parsed.data.title
+      );
+
+      res.status(201).json({ success: true, data: conversation });
+    } catch (error) {
+      console.error("💥 Create conversation error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to create conversation",
+      });
+    }
+  }
+);
+
+// Rename, pin/unpin, archive/unarchive
+router.patch(
+  "/conversations/:conversationId",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const parsed = updateConversationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid conversation update",
+          details: parsed.error.errors,
+        });
+      }
+
+      const conversation = await ChatConversationService.updateConversation(
+        req.user.user_id,
+        req.params.conversationId,
+        parsed.data
+      );
+      if (!conversation) {
+        return res.status(404).json({
+          success: false,
+          error: "Conversation not found",
+        });
+      }
+
+      res.json({ success: true, data: conversation });
+    } catch (error) {
+      console.error("💥 Update conversation error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to update conversation",
+      });
+    }
+  }
+);
+
+router.delete(
+  "/conversations/:conversationId",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const deleted = await ChatConversationService.deleteConversation(
+        req.user.user_id,
+        req.params.conversationId
+      );
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          error: "Conversation not found",
+        });
+      }
+
+      res.json({ success: true, message: "Conversation deleted" });
+    } catch (error) {
+      console.error("💥 Delete conversation error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to delete conversation",
+      });
+    }
+  }
+);
+
+router.get(
+  "/conversations/:conversationId/messages",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const conversation = await ChatConversationService.getConversation(
+        req.user.user_id,
+        req.params.conversationId
+      );
+      if (!conversation) {
+        return res.status(404).json({
+          success: false,
+          error: "Conversation not found",
+        });
+      }
+
+      const messages = await ChatConversationService.getMessages(
+        conversation.conversation_id,
+        {
+          limit: parseInt(req.query.limit as string) || 50,
+          before: parseInt(req.query.before as string) || undefined,
+        }
+      );
+
+      res.json({ success: true, data: { conversation, messages } });
+    } catch (error) {
+      console.error("💥 Conversation messages error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to get conversation messages",
+      });
+    }
+  }
+);
+
+// Full-text search across past questions and answers
+router.get(
+  "/search",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+    if (query.length < 2) {
+      return res.status(400).json({
+        success: false,
+        error: "Search query must be at least 2 characters",
+      });
+    }
+
+    try {
+      const results = await ChatConversationService.search(
+        req.user.user_id,
+        query,
+        Math.min(parseInt(req.query.limit as string) || 20, 50)
+      );
+
+      res.json({ success: true, data: results });
+    } catch (error) {
+      console.error("💥 Chat search error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to search chat history",
+      });
+    }
+  }
+);
+
+// Run a write the coach proposed, after the user confirmed it
+router.post(
+  "/actions/:actionId/confirm",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const action = await ChatToolService.confirmAction(
+        req.user.user_id,
+        req.params.actionId
+      );
+
+      res.json({ success: action.status === "CONFIRMED", data: action });
+    } catch (error) {
+      if (error instanceof ChatActionError) {
+        return res
+          .status(error.statusCode)
+          .json({ success: false, error: error.message });
+      }
+      console.error("💥 Confirm chat action error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to run action",
+      });
+    }
+  }
+);
+
+router.post(
+  "/actions/:actionId/cancel",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const action = await ChatToolService.cancelAction(
+        req.user.user_id,
+        req.params.actionId
+      );
+
+      res.json({ success: true, data: action });
+    } catch (error) {
+      if (error instanceof ChatActionError) {
+        return res
+          .status(error.statusCode)
+          .json({ success: false, error: error.message });
+      }
+      console.error("💥 Cancel chat action error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to cancel action",
+      });
+    }
+  }
+);
+
 // Health-based recommendation
 router.post(
   "/health-based-recommendation",
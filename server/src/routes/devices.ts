@@ -1,11 +1,125 @@
-import { Router } from "express";
+import { NextFunction, Response, Router } from "express";
+import { z } from "zod";
 import { DeviceService } from "../services/devices";
+import { DeviceSyncService } from "../services/deviceSync";
+import { EntitlementService } from "../services/entitlements";
+import {
+  ActivityTimelineService,
+  DEFAULT_SOURCE_PRIORITY,
+} from "../services/activityTimeline";
+import {
+  BACKFILL_BATCH_MAX_DAYS,
+  DeviceBackfillService,
+} from "../services/deviceBackfill";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { ACTIVITY_METRICS, DeviceBackfillError } from "../types/devices";
 
 const router = Router();
 
+const ymd = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD");
+const metric = z.number().nonnegative().optional();
+
+const backfillRangeSchema = z.object({
+  startDate: ymd,
+  endDate: ymd,
+});
+
+// Same field names as the single-day activityData push
+const backfillBatchSchema = z.object({
+  days: z
+    .array(
+      z.object({
+        date: ymd,
+        steps: metric,
+        caloriesBurned: metric,
+        activeMinutes: metric,
+        bmr: metric,
+        heartRate: metric,
+        heartRateMax: metric,
+        weight: metric,
+        bodyFat: metric,
+        sleepHours: metric,
+        distance: metric,
+      })
+    )
+    .max(BACKFILL_BATCH_MAX_DAYS),
+  through: ymd.optional(),
+});
+
+const deviceTypeSchema = z.enum([
+  "APPLE_HEALTH",
+  "GOOGLE_FIT",
+  "FITBIT",
+  "GARMIN",
+  "WHOOP",
+  "SAMSUNG_HEALTH",
+  "POLAR",
+  "SUUNTO",
+  "WITHINGS",
+  "OURA",
+  "AMAZFIT",
+  "HUAWEI_HEALTH",
+]);
+
+const sourcePrioritySchema = z.object({
+  priorities: z.record(z.enum(ACTIVITY_METRICS), z.array(deviceTypeSchema)),
+});
+
+function sendBackfillError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof DeviceBackfillError) {
+    return res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+    });
+  }
+  res.status(500).json({
+    success: false,
+    error: fallback,
+  });
+}
+
+// Connecting and syncing need a plan with device integration; listing and
+// disconnecting stay open so a downgraded user can still clean up
+async function requireDeviceIntegration(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) {
+  try {
+    const { allowed, plan } = await EntitlementService.checkFeature(
+      req.user.user_id,
+      "deviceIntegration"
+    );
+
+    if (!allowed) {
+      return res.status(403).json({
+        success: false,
+        error: `Device integration is not included in the ${plan.name}. Upgrade your plan to connect devices.`,
+        subscriptionRequired: true,
+      });
+    }
+
+    next();
+  } catch (error) {
+    console.error("💥 Device entitlement check error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to check device access",
+    });
+  }
+}
+
 // Apply auth middleware to all routes
 router.use(authenticateToken);
+router.post(
+  [
+    "/connect",
+    "/:deviceId/sync",
+    "/:deviceId/backfill",
+    "/:deviceId/backfill/:backfillId/days",
+  ],
+  requireDeviceIntegration
+);
 
 // Get user's connected devices
 router.get("/", async (req: AuthRequest, res) => {
@@ -51,6 +165,18 @@ router.post("/connect", async (req: AuthRequest, res) => {
       refreshToken
     );
 
+    // connectDevice stamps last_sync_time, so pull provider data right away
+    // instead of waiting out sync_frequency_hours
+    if (accessToken) {
+      DeviceSyncService.syncDevice(
+        req.user.user_id,
+        device.connected_device_id,
+        { force: true }
+      ).catch((error) =>
+        console.error("💥 Initial device sync failed:", error)
+      );
+    }
+
     res.json({
       success: true,
       data: device,
@@ -66,6 +192,83 @@ router.post("/connect", async (req: AuthRequest, res) => {
   }
 });
 
+// Per-metric source priority for the merged activity timeline
+router.get("/source-priorities", async (req: AuthRequest, res) => {
+  try {
+    const priorities = await ActivityTimelineService.getPriorities(
+      req.user.user_id
+    );
+
+    res.json({
+      success: true,
+      data: { priorities, defaults: DEFAULT_SOURCE_PRIORITY },
+    });
+  } catch (error) {
+    console.error("💥 Get source priorities error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch source priorities",
+    });
+  }
+});
+
+router.put("/source-priorities", async (req: AuthRequest, res) => {
+  try {
+    const parsed = sourcePrioritySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid source priorities",
+        details: parsed.error.errors,
+      });
+    }
+
+    const priorities = await ActivityTimelineService.setPriorities(
+      req.user.user_id,
+      parsed.data.priorities
+    );
+
+    res.json({
+      success: true,
+      data: { priorities, defaults: DEFAULT_SOURCE_PRIORITY },
+    });
+  } catch (error) {
+    console.error("💥 Update source priorities error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to update source priorities",
+    });
+  }
+});
+
+// Make a device the primary source
+router.put("/:deviceId/primary", async (req: AuthRequest, res) => {
+  try {
+    const device = await DeviceService.setPrimaryDevice(
+      req.user.user_id,
+      req.params.deviceId
+    );
+
+    if (!device) {
+      return res.status(404).json({
+        success: false,
+        error: "Device not found",
+      });
+    }
+
+    res.json({
+      success: true,
+      data: device,
+    });
+  } catch (error) {
+    console.error("💥 Set primary device error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to set primary device",
+    });
+  }
+});
+
 // Disconnect a device
 router.delete("/:deviceId", async (req: AuthRequest, res) => {
   try {
@@ -94,19 +297,41 @@ router.delete("/:deviceId", async (req: AuthRequest, res) => {
 router.post("/:deviceId/sync", async (req: AuthRequest, res) => {
   try {
     const { deviceId } = req.params;
-    const { activityData } = req.body;
+    const { activityData, force } = req.body || {};
 
     console.log("🔄 Sync device data request:", deviceId);
 
-    const result = await DeviceService.syncDeviceData(
+    // Apps that read health data on the phone push it; otherwise pull from the provider
+    if (activityData) {
+      const result = await DeviceService.syncDeviceData(
+        req.user.user_id,
+        deviceId,
+        activityData
+      );
+
+      return res.json({
+        success: true,
+        data: result,
+      });
+    }
+
+    const result = await DeviceSyncService.syncDevice(
       req.user.user_id,
       deviceId,
-      activityData
+      { force: force !== false }
     );
 
+    if (!result) {
+      return res.status(404).json({
+        success: false,
+        error: "Device not found",
+      });
+    }
+
     res.json({
-      success: true,
+      success: result.status !== "failed",
       data: result,
+      ...(result.error && { error: result.error }),
     });
   } catch (error) {
     console.error("💥 Sync device error:", error);
@@ -119,6 +344,112 @@ router.post("/:deviceId/sync", async (req: AuthRequest, res) => {
   }
 });
 
+// Start importing history for a date range. Provider devices are pulled by
+// the server; other devices get a backfill the app fills with day batches.
+router.post("/:deviceId/backfill", async (req: AuthRequest, res) => {
+  try {
+    const parsed = backfillRangeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid backfill request",
+        details: parsed.error.errors,
+      });
+    }
+
+    console.log("⏪ Backfill request:", req.params.deviceId, parsed.data);
+
+    const backfill = await DeviceBackfillService.startBackfill(
+      req.user.user_id,
+      req.params.deviceId,
+      parsed.data.startDate,
+      parsed.data.endDate
+    );
+
+    res.status(202).json({
+      success: true,
+      data: backfill,
+    });
+  } catch (error) {
+    console.error("💥 Start backfill error:", error);
+    sendBackfillError(res, error, "Failed to start backfill");
+  }
+});
+
+// Push one batch of historical days into a running backfill
+router.post(
+  "/:deviceId/backfill/:backfillId/days",
+  async (req: AuthRequest, res) => {
+    try {
+      const parsed = backfillBatchSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid backfill batch",
+          details: parsed.error.errors,
+        });
+      }
+
+      const backfill = await DeviceBackfillService.ingestDays(
+        req.user.user_id,
+        req.params.deviceId,
+        req.params.backfillId,
+        parsed.data.days.map((day) => ({
+          date: day.date,
+          steps: day.steps,
+          caloriesBurned: day.caloriesBurned,
+          activeMinutes: day.activeMinutes,
+          bmrEstimate: day.bmr,
+          heartRateAvg: day.heartRate,
+          heartRateMax: day.heartRateMax,
+          weightKg: day.weight,
+          bodyFatPercentage: day.bodyFat,
+          sleepHours: day.sleepHours,
+          distanceKm: day.distance,
+        })),
+        parsed.data.through
+      );
+
+      res.json({
+        success: true,
+        data: backfill,
+      });
+    } catch (error) {
+      console.error("💥 Backfill batch error:", error);
+      sendBackfillError(res, error, "Failed to store backfill batch");
+    }
+  }
+);
+
+// Backfill progress
+router.get("/:deviceId/backfill/:backfillId", async (req: AuthRequest, res) => {
+  try {
+    const backfill = await DeviceBackfillService.getBackfill(
+      req.user.user_id,
+      req.params.deviceId,
+      req.params.backfillId
+    );
+
+    if (!backfill) {
+      return res.status(404).json({
+        success: false,
+        error: "Backfill not found",
+      });
+    }
+
+    res.json({
+      success: true,
+      data: backfill,
+    });
+  } catch (error) {
+    console.error("💥 Get backfill error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch backfill",
+    });
+  }
+});
+
 // Get activity data for a date range
 router.get("/activity/:startDate/:endDate", async (req: AuthRequest, res) => {
   try {
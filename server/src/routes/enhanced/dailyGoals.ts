@@ -4,6 +4,7 @@ import { EnhancedDailyGoalsService } from "../../services/database/dailyGoals";
 import { DatabaseOptimizationService } from "../../services/database/optimization";
 import { ApiResponse } from "../../types/api";
 import { prisma } from "../../lib/database";
+import { getUserDay, getUserTimeZone } from "../../utils/userDay";
 
 const router = Router();
 
@@ -20,7 +21,7 @@ router.get("/", authenticateToken, async (req: AuthRequest, res) => {
       success: true,
       data: {
         ...goals,
-        date: new Date().toISOString().split("T")[0],
+        date: getUserDay(await getUserTimeZone(userId)),
       },
       timestamp: new Date().toISOString(),
     };
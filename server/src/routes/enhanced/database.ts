@@ -1,161 +1,263 @@
 import { Router } from "express";
-import { authenticateToken, AuthRequest } from "../../middleware/auth";
+import {
+  authenticateToken,
+  AuthRequest,
+  requirePermission,
+} from "../../middleware/auth";
 import { DatabaseOptimizationService } from "../../services/database/optimization";
-import { EnhancedCronJobService } from "../../services/cron/enhanced";
+import { JobQueueService } from "../../services/jobs/queue";
+import { JobSchedulerService } from "../../services/jobs/scheduler";
 import { ApiResponse } from "../../types/api";
+import { JobError, jobStatusQuerySchema, runJobSchema } from "../../types/jobs";
 
 const router = Router();
 
 // GET /api/database/health - Check database health
-router.get("/health", authenticateToken, async (req: AuthRequest, res) => {
-  try {
-    console.log("🔍 Database health check requested");
-
-    const health = await DatabaseOptimizationService.checkDatabaseHealth();
-
-    const response: ApiResponse = {
-      success: true,
-      data: health,
-      message: `Database status: ${health.status}`,
-      timestamp: new Date().toISOString(),
-    };
-
-    res.json(response);
-  } catch (error) {
-    console.error("Error checking database health:", error);
-
-    const errorResponse: ApiResponse = {
-      success: false,
-      error: "Failed to check database health",
-      details: error instanceof Error ? error.message : "Unknown error",
-      timestamp: new Date().toISOString(),
-    };
-
-    res.status(500).json(errorResponse);
+router.get(
+  "/health",
+  authenticateToken,
+  requirePermission("system:view"),
+  async (req: AuthRequest, res) => {
+    try {
+      console.log("🔍 Database health check requested");
+
+      const health = await DatabaseOptimizationService.checkDatabaseHealth();
+
+      const response: ApiResponse = {
+        success: true,
+        data: health,
+        message: `Database status: ${health.status}`,
+        timestamp: new Date().toISOString(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error("Error checking database health:", error);
+
+      const errorResponse: ApiResponse = {
+        success: false,
+        error: "Failed to check database health",
+        details: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      };
+
+      res.status(500).json(errorResponse);
+    }
   }
-});
+);
 
 // POST /api/database/cleanup - Trigger database cleanup
-router.post("/cleanup", authenticateToken, async (req: AuthRequest, res) => {
-  try {
-    // Only allow admin users to trigger cleanup
-    if (req.user.subscription_type !== "GOLD") {
-      return res.status(403).json({
+router.post(
+  "/cleanup",
+  authenticateToken,
+  requirePermission("system:manage"),
+  async (req: AuthRequest, res) => {
+    try {
+      console.log(
+        "🧹 Manual database cleanup triggered by user:",
+        req.user.user_id
+      );
+
+      const cleanupResult =
+        await DatabaseOptimizationService.performIntelligentCleanup();
+
+      const response: ApiResponse = {
+        success: true,
+        data: cleanupResult,
+        message: `Cleanup completed: ${cleanupResult.deletedRecords} records deleted`,
+        timestamp: new Date().toISOString(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error("Error performing database cleanup:", error);
+
+      const errorResponse: ApiResponse = {
         success: false,
-        error: "Insufficient permissions for database cleanup",
-      });
-    }
+        error: "Failed to perform database cleanup",
+        details: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      };
 
-    console.log(
-      "🧹 Manual database cleanup triggered by user:",
-      req.user.user_id
-    );
-
-    const cleanupResult =
-      await DatabaseOptimizationService.performIntelligentCleanup();
-
-    const response: ApiResponse = {
-      success: true,
-      data: cleanupResult,
-      message: `Cleanup completed: ${cleanupResult.deletedRecords} records deleted`,
-      timestamp: new Date().toISOString(),
-    };
-
-    res.json(response);
-  } catch (error) {
-    console.error("Error performing database cleanup:", error);
-
-    const errorResponse: ApiResponse = {
-      success: false,
-      error: "Failed to perform database cleanup",
-      details: error instanceof Error ? error.message : "Unknown error",
-      timestamp: new Date().toISOString(),
-    };
-
-    res.status(500).json(errorResponse);
+      res.status(500).json(errorResponse);
+    }
   }
-});
+);
 
 // POST /api/database/optimize - Trigger database optimization
-router.post("/optimize", authenticateToken, async (req: AuthRequest, res) => {
-  try {
-    // Only allow admin users to trigger optimization
-    if (req.user.subscription_type !== "GOLD") {
-      return res.status(403).json({
+router.post(
+  "/optimize",
+  authenticateToken,
+  requirePermission("system:manage"),
+  async (req: AuthRequest, res) => {
+    try {
+      console.log(
+        "⚡ Manual database optimization triggered by user:",
+        req.user.user_id
+      );
+
+      await DatabaseOptimizationService.optimizeDatabase();
+
+      const response: ApiResponse = {
+        success: true,
+        message: "Database optimization completed successfully",
+        timestamp: new Date().toISOString(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error("Error optimizing database:", error);
+
+      const errorResponse: ApiResponse = {
         success: false,
-        error: "Insufficient permissions for database optimization",
-      });
+        error: "Failed to optimize database",
+        details: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      };
+
+      res.status(500).json(errorResponse);
     }
+  }
+);
 
-    console.log(
-      "⚡ Manual database optimization triggered by user:",
-      req.user.user_id
-    );
+// GET /api/database/cron-status - Job schedules and run history
+router.get(
+  "/cron-status",
+  authenticateToken,
+  requirePermission("system:view"),
+  async (req: AuthRequest, res) => {
+    try {
+      const validation = jobStatusQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid filters",
+          details: validation.error.errors,
+        });
+      }
 
-    await DatabaseOptimizationService.optimizeDatabase();
+      const status = await JobSchedulerService.getStatus(validation.data);
 
-    const response: ApiResponse = {
-      success: true,
-      message: "Database optimization completed successfully",
-      timestamp: new Date().toISOString(),
-    };
+      const response: ApiResponse = {
+        success: true,
+        data: status,
+        message: "Cron job status retrieved",
+        timestamp: new Date().toISOString(),
+      };
 
-    res.json(response);
-  } catch (error) {
-    console.error("Error optimizing database:", error);
+      res.json(response);
+    } catch (error) {
+      console.error("Error getting cron status:", error);
 
-    const errorResponse: ApiResponse = {
-      success: false,
-      error: "Failed to optimize database",
-      details: error instanceof Error ? error.message : "Unknown error",
-      timestamp: new Date().toISOString(),
-    };
+      const errorResponse: ApiResponse = {
+        success: false,
+        error: "Failed to get cron status",
+        details: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      };
 
-    res.status(500).json(errorResponse);
-  }
-});
-
-// GET /api/database/cron-status - Get cron job status
-router.get("/cron-status", authenticateToken, async (req: AuthRequest, res) => {
-  try {
-    const status = EnhancedCronJobService.getJobStatus();
-
-    const response: ApiResponse = {
-      success: true,
-      data: status,
-      message: "Cron job status retrieved",
-      timestamp: new Date().toISOString(),
-    };
-
-    res.json(response);
-  } catch (error) {
-    console.error("Error getting cron status:", error);
-
-    const errorResponse: ApiResponse = {
-      success: false,
-      error: "Failed to get cron status",
-      details: error instanceof Error ? error.message : "Unknown error",
-      timestamp: new Date().toISOString(),
-    };
-
-    res.status(500).json(errorResponse);
+      res.status(500).json(errorResponse);
+    }
   }
-});
+);
 
-// POST /api/database/emergency-recovery - Emergency database recovery
+// POST /api/database/jobs - Queue a job to run now
 router.post(
-  "/emergency-recovery",
+  "/jobs",
   authenticateToken,
+  requirePermission("system:manage"),
   async (req: AuthRequest, res) => {
     try {
-      // Only allow admin users to trigger emergency recovery
-      if (req.user.subscription_type !== "GOLD") {
-        return res.status(403).json({
+      const validation = runJobSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
           success: false,
-          error: "Insufficient permissions for emergency recovery",
+          error: "Invalid job",
+          details: validation.error.errors,
         });
       }
 
+      const job = await JobQueueService.enqueue(
+        validation.data.type,
+        validation.data.payload,
+        { triggeredBy: req.user.user_id }
+      );
+
+      const response: ApiResponse = {
+        success: true,
+        data: job,
+        message: "Job queued",
+        timestamp: new Date().toISOString(),
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      if (error instanceof JobError) {
+        return res
+          .status(error.statusCode)
+          .json({ success: false, error: error.message });
+      }
+      console.error("Error queueing job:", error);
+
+      const errorResponse: ApiResponse = {
+        success: false,
+        error: "Failed to queue job",
+        details: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      };
+
+      res.status(500).json(errorResponse);
+    }
+  }
+);
+
+// POST /api/database/jobs/:jobId/rerun - Run a finished job again
+router.post(
+  "/jobs/:jobId/rerun",
+  authenticateToken,
+  requirePermission("system:manage"),
+  async (req: AuthRequest, res) => {
+    try {
+      const job = await JobQueueService.rerun(
+        req.params.jobId,
+        req.user.user_id
+      );
+
+      const response: ApiResponse = {
+        success: true,
+        data: job,
+        message: "Job queued",
+        timestamp: new Date().toISOString(),
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      if (error instanceof JobError) {
+        return res
+          .status(error.statusCode)
+          .json({ success: false, error: error.message });
+      }
+      console.error("Error re-running job:", error);
+
+      const errorResponse: ApiResponse = {
+        success: false,
+        error: "Failed to re-run job",
+        details: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      };
+
+      res.status(500).json(errorResponse);
+    }
+  }
+);
+
+// POST /api/database/emergency-recovery - Emergency database recovery
+router.post(
+  "/emergency-recovery",
+  authenticateToken,
+  requirePermission("system:manage"),
+  async (req: AuthRequest, res) => {
+    try {
       console.log(
         "🚨 Emergency database recovery triggered by user:",
         req.user.user_id
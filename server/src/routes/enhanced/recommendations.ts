@@ -4,6 +4,7 @@ import { EnhancedAIRecommendationService } from "../../services/database/aiRecom
 import { DatabaseOptimizationService } from "../../services/database/optimization";
 import { ApiResponse } from "../../types/api";
 import { prisma } from "../../lib/database";
+import { getUserDay, getUserTimeZone } from "../../utils/userDay";
 
 const router = Router();
 
@@ -66,7 +67,7 @@ router.post("/generate", authenticateToken, async (req: AuthRequest, res) => {
     console.log("🔄 Manual recommendation generation for user:", userId);
 
     // Check for duplicates first
-    const today = new Date().toISOString().split("T")[0];
+    const today = getUserDay(await getUserTimeZone(userId));
     const duplicateCheck = await DatabaseOptimizationService.checkForDuplicates(
       userId,
       today
@@ -152,7 +153,7 @@ router.put("/:id/read", authenticateToken, async (req: AuthRequest, res) => {
 router.get("/today", authenticateToken, async (req: AuthRequest, res) => {
   try {
     const userId = req.user.user_id;
-    const today = new Date().toISOString().split("T")[0];
+    const today = getUserDay(await getUserTimeZone(userId));
 
     console.log("📅 Getting today's recommendation for user:", userId);
 
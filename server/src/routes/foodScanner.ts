@@ -2,6 +2,7 @@ import { Router, Response } from "express";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
 import { FoodScannerService } from "../services/foodScanner";
 import { UsageTrackingService } from "../services/usageTracking";
+import { EntitlementService } from "../services/entitlements";
 import { z } from "zod";
 
 const router = Router();
@@ -44,6 +45,12 @@ const addToMealSchema = z.object({
   mealTiming: z.string().optional().default("SNACK"),
 });
 
+const addToPantrySchema = addToMealSchema.pick({ productData: true }).extend({
+  quantity: z.number().positive("Quantity must be positive"),
+  unit: z.enum(["g", "ml", "pieces"]).optional(),
+  expires_at: z.coerce.date().nullable().optional(),
+});
+
 // Scan barcode endpoint
 router.post(
   "/barcode",
@@ -102,13 +109,16 @@ router.post(
         });
       }
 
-      const limitCheck = await UsageTrackingService.checkMealScanLimit(userId);
+      const limitCheck = await EntitlementService.checkQuota(
+        userId,
+        "mealScans"
+      );
       if (!limitCheck.allowed) {
         return res.status(403).json({
           success: false,
           error: limitCheck.message,
           usage: {
-            current: limitCheck.current,
+            current: limitCheck.used,
             limit: limitCheck.limit,
             remaining: limitCheck.remaining,
           },
@@ -140,9 +150,10 @@ router.post(
         success: true,
         data: result,
         usage: {
-          current: limitCheck.current + 1,
+          current: limitCheck.used + 1,
           limit: limitCheck.limit,
-          remaining: limitCheck.remaining - 1,
+          remaining:
+            limitCheck.remaining !== null ? limitCheck.remaining - 1 : null,
         },
       });
     } catch (error) {
@@ -205,6 +216,54 @@ router.post(
   }
 );
 
+// Add product to pantry endpoint
+router.post(
+  "/add-to-pantry",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user?.user_id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: "User not authenticated",
+        });
+      }
+
+      const validationResult = addToPantrySchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid pantry data",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const { productData, quantity, unit, expires_at } = validationResult.data;
+
+      const item = await FoodScannerService.addProductToPantry(
+        userId,
+        productData,
+        quantity,
+        { unit, expiresAt: expires_at }
+      );
+
+      res.json({
+        success: true,
+        data: item,
+      });
+    } catch (error) {
+      console.error("❌ Add to pantry error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to add product to pantry",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
 // Get scan history
 router.get(
   "/history",
@@ -1,6 +1,8 @@
 import express, { Response } from "express";
 import { PrismaClient } from "@prisma/client";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { GamificationService } from "../services/gamification";
+import { PantryService } from "../services/pantry";
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -61,6 +63,8 @@ router.post(
         },
       });
 
+      await PantryService.consumeForCompletion(completion);
+
       // Update plan progress if plan_id is provided
       if (plan_id) {
         const plan = await prisma.userMealPlan.findUnique({
@@ -87,27 +91,19 @@ router.post(
       }
 
       // Award XP for meal completion
-      const user = await prisma.user.findUnique({
-        where: { user_id: userId },
-      });
-
-      if (user) {
-        const xpGained = 10; // Base XP for completing a meal
-        const bonusXp = rating && rating >= 4 ? 5 : 0; // Bonus for high rating
-
-        await prisma.user.update({
-          where: { user_id: userId },
-          data: {
-            current_xp: (user.current_xp || 0) + xpGained + bonusXp,
-            total_points: (user.total_points || 0) + xpGained + bonusXp,
-          },
-        });
-      }
+      const xpGained = 10; // Base XP for completing a meal
+      const bonusXp = rating && rating >= 4 ? 5 : 0; // Bonus for high rating
+      await GamificationService.awardXp(
+        userId,
+        xpGained + bonusXp,
+        "MEAL_COMPLETION",
+        { referenceId: completion.id, description: meal_name }
+      );
 
       res.json({
         success: true,
         data: completion,
-        xp_gained: 10 + (rating && rating >= 4 ? 5 : 0),
+        xp_gained: xpGained + bonusXp,
         message: "Meal marked as completed successfully!",
       });
     } catch (error) {
@@ -2,7 +2,11 @@ import { Router, Response, Request } from "express"; // Import Request and Respo
 import { authenticateToken, AuthRequest } from "../middleware/auth";
 import { prisma } from "../lib/database";
 import { MealPlanService } from "../services/mealPlans";
+import { GamificationService } from "../services/gamification";
+import { RecipeService } from "../services/recipes";
+import { RecipeError, servingsSchema } from "../types/recipes";
 import { MealTiming } from "@prisma/client";
+import { getDayOfWeek, getUserDay, getUserTimeZone } from "../utils/userDay";
 
 const router = Router();
 
@@ -1179,14 +1183,10 @@ router.post(
         completedAt: new Date(),
       };
 
-      // Award XP for completing meal plan
-      await prisma.user.update({
-        where: { user_id: userId }, // Use user_id field
-        data: {
-          current_xp: {
-            increment: 100, // Award 100 XP for completing a meal plan
-          },
-        },
+      // Award 100 XP for completing a meal plan
+      await GamificationService.awardXp(userId, 100, "MEAL_PLAN_COMPLETION", {
+        referenceId: planId,
+        description: completedPlan.name,
       });
 
       res.json({
@@ -1309,9 +1309,8 @@ router.get("/today", authenticateToken, async (req: AuthRequest, res) => {
       });
     }
 
-    // Get today's day of week (0 = Sunday)
-    const today = new Date();
-    const dayOfWeek = today.getDay();
+    // Get today's day of week in the user's timezone (0 = Sunday)
+    const dayOfWeek = getDayOfWeek(getUserDay(await getUserTimeZone(user_id)));
 
     let todayMeals: any[] = [];
 
@@ -1388,6 +1387,45 @@ router.get("/today", authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
+// Get a meal template's recipe, optionally scaled to ?servings=
+router.get(
+  "/templates/:templateId/recipe",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const validationResult = servingsSchema.partial().safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid servings",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const template = await RecipeService.getTemplateRecipe(
+        req.params.templateId,
+        validationResult.data.servings
+      );
+
+      res.json({
+        success: true,
+        data: template,
+      });
+    } catch (error) {
+      if (error instanceof RecipeError) {
+        return res
+          .status(error.statusCode)
+          .json({ success: false, error: error.message });
+      }
+      console.error("💥 Error getting template recipe:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to get recipe",
+      });
+    }
+  }
+);
+
 // Get meal plan by ID
 router.get("/:planId", authenticateToken, async (req: AuthRequest, res) => {
   try {
@@ -0,0 +1,52 @@
+import { Router } from "express";
+import { getStorageDriver, LocalStorageDriver } from "../services/storage";
+
+const router = Router();
+
+// Serve objects from the local storage driver. There is no auth token here:
+// the signed, expiring URL handed out by MediaService is the credential.
+router.get("/*", async (req, res) => {
+  try {
+    const driver = getStorageDriver();
+    if (!(driver instanceof LocalStorageDriver)) {
+      return res.status(404).json({
+        success: false,
+        error: "Media is served directly by object storage",
+      });
+    }
+
+    const key = decodeURIComponent(req.path.slice(1));
+    const expires = parseInt(String(req.query.expires || ""), 10);
+    const signature = String(req.query.signature || "");
+    if (!key || !driver.verifySignature(key, expires, signature)) {
+      return res.status(403).json({
+        success: false,
+        error: "Invalid or expired media link",
+      });
+    }
+
+    const object = await driver.get(key);
+    if (!object) {
+      return res.status(404).json({
+        success: false,
+        error: "Media not found",
+      });
+    }
+
+    // Keys are content hashes, so the bytes behind a key never change
+    res.set({
+      "Content-Type": object.contentType,
+      "Cache-Control": "private, max-age=86400, immutable",
+      "Cross-Origin-Resource-Policy": "cross-origin",
+    });
+    res.send(object.body);
+  } catch (error) {
+    console.error("💥 Serve media error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to load media",
+    });
+  }
+});
+
+export { router as mediaRoutes };
@@ -6,6 +6,15 @@ import { mealAnalysisSchema, mealUpdateSchema } from "../types/nutrition";
 import { NutritionService } from "../services/nutrition";
 import { AchievementService } from "../services/achievements";
 import { UsageTrackingService } from "../services/usageTracking";
+import { EntitlementService } from "../services/entitlements";
+import { MediaService } from "../services/media";
+import {
+  addDays,
+  dayKeyToDate,
+  getDayBounds,
+  getUserDay,
+  getUserTimeZone,
+} from "../utils/userDay";
 
 const router = Router();
 
@@ -42,19 +51,17 @@ router.post(
       }
 
       const { cups_consumed, date } = validationResult.data;
-      const trackingDate = date ? new Date(date) : new Date();
+      // Without a date the intake counts for today in the user's timezone
+      const timeZone = await getUserTimeZone(userId);
+      const trackingDay = date ? date.split("T")[0] : getUserDay(timeZone);
 
       // Limit water intake to maximum goal (10 cups/2500ml)
       const maxCups = 10;
       const limitedCups = Math.min(cups_consumed, maxCups);
       const limitedMilliliters = limitedCups * 250;
 
-      // Set date to start of day for consistent comparison
-      const startOfDay = new Date(
-        trackingDate.getFullYear(),
-        trackingDate.getMonth(),
-        trackingDate.getDate()
-      );
+      // WaterIntake.date is a plain date, stored as UTC midnight
+      const startOfDay = dayKeyToDate(trackingDay);
 
       // Use transaction with proper error handling for race conditions
       let waterRecord;
@@ -159,30 +166,13 @@ router.post(
 
         // Check for complete day if water goal is met
         if (waterGoalComplete) {
-          const today = new Date();
-          const startOfDayToday = new Date(
-            today.getFullYear(),
-            today.getMonth(),
-            today.getDate()
-          );
-          const endOfDayToday = new Date(
-            today.getFullYear(),
-            today.getMonth(),
-            today.getDate(),
-            23,
-            59,
-            59,
-            999
-          );
+          const { start, end } = getDayBounds(timeZone, getUserDay(timeZone));
 
           // Check if calorie goal is also complete
           const todayMeals = await prisma.meal.findMany({
             where: {
               user_id: userId,
-              created_at: {
-                gte: startOfDayToday,
-                lte: endOfDayToday,
-              },
+              created_at: { gte: start, lt: end },
             },
           });
 
@@ -274,17 +264,9 @@ router.get(
     }
 
     try {
-      const trackingDate = new Date(date);
-      const startOfDay = new Date(
-        trackingDate.getFullYear(),
-        trackingDate.getMonth(),
-        trackingDate.getDate()
-      );
-      const endOfDay = new Date(
-        trackingDate.getFullYear(),
-        trackingDate.getMonth(),
-        trackingDate.getDate() + 1
-      );
+      const trackingDay = date.split("T")[0];
+      const startOfDay = dayKeyToDate(trackingDay);
+      const endOfDay = dayKeyToDate(addDays(trackingDay, 1));
 
       const waterRecord = await prisma.waterIntake.findFirst({
         where: {
@@ -323,15 +305,16 @@ router.post("/analyze", authenticateToken, async (req: AuthRequest, res) => {
       req.body.editedIngredients?.length || 0
     );
 
-    const limitCheck = await UsageTrackingService.checkMealScanLimit(
-      req.user.user_id
+    const limitCheck = await EntitlementService.checkQuota(
+      req.user.user_id,
+      "mealScans"
     );
     if (!limitCheck.allowed) {
       return res.status(403).json({
         success: false,
         error: limitCheck.message,
         usage: {
-          current: limitCheck.current,
+          current: limitCheck.used,
           limit: limitCheck.limit,
           remaining: limitCheck.remaining,
         },
@@ -422,7 +405,9 @@ router.post("/analyze", authenticateToken, async (req: AuthRequest, res) => {
     const result = await NutritionService.analyzeMeal(req.user.user_id, {
       imageBase64: validatedData.imageBase64,
       language: validatedData.language,
-      date: validatedData.date || new Date().toISOString().split("T")[0],
+      date:
+        validatedData.date ||
+        getUserDay(await getUserTimeZone(req.user.user_id)),
       updateText: validatedData.updateText,
       editedIngredients: validatedData.editedIngredients,
       mealType: validatedData.mealType,
@@ -443,9 +428,10 @@ router.post("/analyze", authenticateToken, async (req: AuthRequest, res) => {
     res.json({
       ...result,
       usage: {
-        current: limitCheck.current + 1,
+        current: limitCheck.used + 1,
         limit: limitCheck.limit,
-        remaining: limitCheck.remaining - 1,
+        remaining:
+          limitCheck.remaining !== null ? limitCheck.remaining - 1 : null,
       },
     });
   } catch (error) {
@@ -587,7 +573,7 @@ router.put(
       res.json({
         success: true,
         message: "Meal updated successfully",
-        data: updatedMeal,
+        data: await MediaService.withMealImageUrls(updatedMeal),
       });
     } catch (error) {
       console.error("Direct meal update error:", error);
@@ -710,9 +696,10 @@ router.post(
           sodium_mg: sodium ? parseFloat(sodium) : null,
           ingredients: ingredients || null,
           meal_period: mealPeriod || "other",
-          image_url:
-            imageUrl ||
-            "https://via.placeholder.com/400x300.png?text=Manual+Entry",
+          image_url: MediaService.isDataUri(imageUrl)
+            ? await MediaService.storeReference(imageUrl, "meal")
+            : imageUrl ||
+              "https://via.placeholder.com/400x300.png?text=Manual+Entry",
           analysis_status: "COMPLETED",
           upload_time: date ? new Date(date) : new Date(),
           created_at: new Date(),
@@ -721,7 +708,7 @@ router.post(
 
       res.json({
         success: true,
-        data: meal,
+        data: await MediaService.withMealImageUrls(meal),
       });
     } catch (error) {
       console.error("Add manual meal error:", error);
@@ -744,7 +731,7 @@ router.get("/usage-stats", authenticateToken, async (req: AuthRequest, res) => {
       });
     }
 
-    const stats = await UsageTrackingService.getUserUsageStats(userId);
+    const stats = await EntitlementService.getUsageStats(userId);
 
     res.json({
       success: true,
@@ -1038,7 +1025,7 @@ router.get(
 
       res.json({
         success: true,
-        data: fullMealData,
+        data: await MediaService.withMealImageUrls(fullMealData),
       });
     } catch (error) {
       console.error("💥 Get meal details error:", error);
@@ -1078,7 +1065,7 @@ router.get(
 
       res.json({
         success: true,
-        data: meal,
+        data: await MediaService.withMealImageUrls(meal),
       });
     } catch (error) {
       console.error("💥 Get meal error:", error);
@@ -1126,7 +1113,7 @@ router.put("/meals/:id", authenticateToken, async (req: AuthRequest, res) => {
     res.json({
       success: true,
       message: "Meal updated successfully",
-      data: updatedMeal,
+      data: await MediaService.withMealImageUrls(updatedMeal),
     });
   } catch (error) {
     console.error("💥 Error updating meal:", error);
@@ -1230,9 +1217,11 @@ router.get(
       let startDate = new Date();
 
       switch (period) {
-        case "today":
-          startDate.setHours(0, 0, 0, 0);
+        case "today": {
+          const timeZone = await getUserTimeZone(req.user.user_id);
+          startDate = getDayBounds(timeZone, getUserDay(timeZone)).start;
           break;
+        }
         case "week":
           startDate.setDate(now.getDate() - 7);
           break;
@@ -1282,7 +1271,9 @@ router.get(
       console.log("✅ Retrieved", meals.length, "meal history items");
       res.json({
         success: true,
-        data: meals,
+        data: await Promise.all(
+          meals.map((meal) => MediaService.withMealImageUrls(meal))
+        ),
       });
     } catch (error) {
       console.error("💥 Get meal history error:", error);
@@ -1310,7 +1301,7 @@ router.get(
         });
       }
 
-      const stats = await UsageTrackingService.getUserUsageStats(userId);
+      const stats = await EntitlementService.getUsageStats(userId);
 
       res.json({
         success: true,
@@ -1380,7 +1371,9 @@ router.post(
             )
           : null,
         meal_period: mealPeriod || "other",
-        image_url: imageUrl || "",
+        image_url: MediaService.isDataUri(imageUrl)
+          ? await MediaService.storeReference(imageUrl, "meal")
+          : imageUrl || "",
         analysis_status: "COMPLETED",
         upload_time: date ? new Date(date) : new Date(),
         created_at: date ? new Date(date) : new Date(),
@@ -1395,7 +1388,7 @@ router.post(
 
       res.json({
         success: true,
-        data: meal,
+        data: await MediaService.withMealImageUrls(meal),
         message: "Meal added successfully",
       });
     } catch (error) {
@@ -0,0 +1,148 @@
+import { Router, Response } from "express";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { PantryService } from "../services/pantry";
+import {
+  PantryError,
+  pantryItemSchema,
+  updatePantryItemSchema,
+} from "../types/pantry";
+
+const router = Router();
+
+// Get the user's pantry, soonest-expiring first
+router.get("/", authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.user_id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "User not authenticated",
+      });
+    }
+
+    const items = await PantryService.getItems(userId);
+
+    res.json({ success: true, data: items });
+  } catch (error) {
+    console.error("❌ Get pantry error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch pantry",
+    });
+  }
+});
+
+// Add an item by hand
+router.post("/", authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.user_id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "User not authenticated",
+      });
+    }
+
+    const validationResult = pantryItemSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid pantry item",
+        details: validationResult.error.errors,
+      });
+    }
+
+    const [item] = await PantryService.addItems(userId, [
+      validationResult.data,
+    ]);
+
+    res.status(201).json({ success: true, data: PantryService.toView(item) });
+  } catch (error) {
+    console.error("❌ Add pantry item error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to add pantry item",
+    });
+  }
+});
+
+// Update an item; a quantity of 0 removes it
+router.put(
+  "/:itemId",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user?.user_id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: "User not authenticated",
+        });
+      }
+
+      const validationResult = updatePantryItemSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid pantry item",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const item = await PantryService.updateItem(
+        userId,
+        req.params.itemId,
+        validationResult.data
+      );
+
+      res.json({
+        success: true,
+        data: item && PantryService.toView(item),
+      });
+    } catch (error) {
+      if (error instanceof PantryError) {
+        return res
+          .status(error.statusCode)
+          .json({ success: false, error: error.message });
+      }
+      console.error("❌ Update pantry item error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to update pantry item",
+      });
+    }
+  }
+);
+
+router.delete(
+  "/:itemId",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user?.user_id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: "User not authenticated",
+        });
+      }
+
+      await PantryService.removeItem(userId, req.params.itemId);
+
+      res.json({ success: true, message: "Pantry item removed" });
+    } catch (error) {
+      if (error instanceof PantryError) {
+        return res
+          .status(error.statusCode)
+          .json({ success: false, error: error.message });
+      }
+      console.error("❌ Remove pantry item error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to remove pantry item",
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,183 @@
+import { NextFunction, Request, Response, Router } from "express";
+import { z } from "zod";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { SubscriptionService } from "../services/subscriptions";
+import {
+  FAKE_SIGNATURE_HEADER,
+  FakePaymentProvider,
+  getPaymentConfigError,
+  getPaymentProvider,
+  getPaymentProviderName,
+  isAllowedReturnUrl,
+} from "../services/payments";
+import { PaymentSignatureError } from "../types/payments";
+
+const router = Router();
+
+const checkoutSchema = z.object({
+  plan_type: z.enum(["GOLD", "PREMIUM"]),
+  return_url: z
+    .string()
+    .min(1)
+    .refine(isAllowedReturnUrl, "Return URL must point back to the app"),
+});
+
+// Checkout and webhooks are turned off while no provider is configured
+function requirePayments(req: Request, res: Response, next: NextFunction) {
+  if (getPaymentConfigError()) {
+    return res.status(503).json({
+      success: false,
+      error: "Payments are not available",
+    });
+  }
+  next();
+}
+
+router.post(["/checkout", "/webhook"], requirePayments);
+
+// Start a hosted checkout for a paid plan
+router.post("/checkout", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const parsed = checkoutSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid checkout request",
+        details: parsed.error.errors,
+      });
+    }
+
+    const checkout = await SubscriptionService.createCheckout(
+      req.user.user_id,
+      parsed.data.plan_type,
+      parsed.data.return_url
+    );
+
+    res.json({ success: true, data: checkout });
+  } catch (error) {
+    console.error("💥 Create checkout error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to start checkout",
+    });
+  }
+});
+
+// Provider webhook - authenticated by signature, not by user token
+router.post("/webhook", async (req, res) => {
+  // Events signed by the fake provider are never trusted in production
+  if (
+    process.env.NODE_ENV === "production" &&
+    (getPaymentProviderName() === "fake" || req.headers[FAKE_SIGNATURE_HEADER])
+  ) {
+    return res.status(404).json({ success: false, error: "Not found" });
+  }
+
+  if (!req.rawBody) {
+    return res.status(400).json({ success: false, error: "Missing body" });
+  }
+
+  try {
+    const result = await SubscriptionService.handleWebhook(
+      req.rawBody,
+      req.headers
+    );
+    res.json({ success: true, received: true, duplicate: result.duplicate });
+  } catch (error) {
+    if (error instanceof PaymentSignatureError) {
+      console.warn("⚠️ Rejected payment webhook:", error.message);
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    console.error("💥 Payment webhook error:", error);
+    // Non-2xx makes the provider retry; the event id keeps retries idempotent
+    res.status(500).json({
+      success: false,
+      error: "Failed to process webhook",
+    });
+  }
+});
+
+// Current plan, renewal state and the latest payment attempt
+router.get("/status", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const status = await SubscriptionService.getSubscriptionStatus(
+      req.user.user_id
+    );
+    res.json({ success: true, data: status });
+  } catch (error) {
+    console.error("💥 Get subscription status error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch subscription status",
+    });
+  }
+});
+
+// Turn off auto-renew; the plan stays active until the period ends
+router.post("/cancel", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const result = await SubscriptionService.cancelSubscription(
+      req.user.user_id
+    );
+    res.json({ success: true, data: result });
+  } catch (error) {
+    console.error("💥 Cancel subscription error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to cancel subscription",
+    });
+  }
+});
+
+// Hosted checkout page of the fake provider (development only)
+router.get("/fake-checkout/:sessionId", async (req, res) => {
+  if (process.env.NODE_ENV === "production") {
+    return res.status(404).json({ success: false, error: "Not found" });
+  }
+
+  const provider = getPaymentProvider();
+  if (!(provider instanceof FakePaymentProvider)) {
+    return res.status(404).json({ success: false, error: "Not found" });
+  }
+
+  const { sessionId } = req.params;
+  const session = provider.getSession(sessionId);
+  if (!session) {
+    return res
+      .status(404)
+      .json({ success: false, error: "Checkout session not found" });
+  }
+
+  const outcome = req.query.outcome;
+  if (outcome !== "success" && outcome !== "fail") {
+    const { planType, amount, currency } = session.request;
+    return res.send(
+      `<html><body style="font-family:sans-serif;padding:24px">` +
+        `<h2>Test checkout</h2><p>${planType} plan - ${amount} ${currency}</p>` +
+        `<p><a href="?outcome=success">Pay</a> | <a href="?outcome=fail">Decline card</a></p>` +
+        `</body></html>`
+    );
+  }
+
+  try {
+    const webhook = provider.completeCheckout(sessionId, outcome);
+    await SubscriptionService.handleWebhook(webhook.rawBody, webhook.headers);
+
+    const returnUrl =
+      outcome === "success"
+        ? session.request.successUrl
+        : session.request.cancelUrl;
+    const separator = returnUrl.includes("?") ? "&" : "?";
+    res.redirect(
+      `${returnUrl}${separator}session_id=${sessionId}&status=${outcome}`
+    );
+  } catch (error) {
+    console.error("💥 Fake checkout error:", error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Checkout failed",
+    });
+  }
+});
+
+export { router as paymentRoutes };
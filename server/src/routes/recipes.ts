@@ -0,0 +1,321 @@
+import { Router, Response } from "express";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { RecipeLibraryService } from "../services/recipeLibrary";
+import {
+  RecipeLibraryError,
+  addRecipeToPlanSchema,
+  logRecipeSchema,
+  recipeShoppingListSchema,
+  updateUserRecipeSchema,
+  userRecipeSchema,
+} from "../types/recipeLibrary";
+import { ShoppingListError } from "../types/shoppingLists";
+
+const router = Router();
+
+// The user's recipes, most recently edited first
+router.get("/", authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.user_id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "User not authenticated",
+      });
+    }
+
+    const recipes = await RecipeLibraryService.getRecipes(userId);
+
+    res.json({ success: true, data: recipes });
+  } catch (error) {
+    console.error("❌ Get recipes error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch recipes",
+    });
+  }
+});
+
+router.get(
+  "/:recipeId",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user?.user_id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: "User not authenticated",
+        });
+      }
+
+      const recipe = await RecipeLibraryService.getRecipe(
+        userId,
+        req.params.recipeId
+      );
+
+      res.json({ success: true, data: recipe });
+    } catch (error) {
+      if (error instanceof RecipeLibraryError) {
+        return res
+          .status(error.statusCode)
+          .json({ success: false, error: error.message });
+      }
+      console.error("❌ Get recipe error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to fetch recipe",
+      });
+    }
+  }
+);
+
+// Create a recipe; its nutrition is computed from the ingredients
+router.post("/", authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.user_id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "User not authenticated",
+      });
+    }
+
+    const validationResult = userRecipeSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid recipe",
+        details: validationResult.error.errors,
+      });
+    }
+
+    const recipe = await RecipeLibraryService.createRecipe(
+      userId,
+      validationResult.data
+    );
+
+    res.status(201).json({ success: true, data: recipe });
+  } catch (error) {
+    console.error("❌ Create recipe error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to create recipe",
+    });
+  }
+});
+
+router.put(
+  "/:recipeId",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user?.user_id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: "User not authenticated",
+        });
+      }
+
+      const validationResult = updateUserRecipeSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid recipe",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const recipe = await RecipeLibraryService.updateRecipe(
+        userId,
+        req.params.recipeId,
+        validationResult.data
+      );
+
+      res.json({ success: true, data: recipe });
+    } catch (error) {
+      if (error instanceof RecipeLibraryError) {
+        return res
+          .status(error.statusCode)
+          .json({ success: false, error: error.message });
+      }
+      console.error("❌ Update recipe error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to update recipe",
+      });
+    }
+  }
+);
+
+router.delete(
+  "/:recipeId",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user?.user_id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: "User not authenticated",
+        });
+      }
+
+      await RecipeLibraryService.deleteRecipe(userId, req.params.recipeId);
+
+      res.json({ success: true, message: "Recipe deleted" });
+    } catch (error) {
+      if (error instanceof RecipeLibraryError) {
+        return res
+          .status(error.statusCode)
+          .json({ success: false, error: error.message });
+      }
+      console.error("❌ Delete recipe error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to delete recipe",
+      });
+    }
+  }
+);
+
+// Log servings of a recipe as a meal
+router.post(
+  "/:recipeId/log",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user?.user_id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: "User not authenticated",
+        });
+      }
+
+      const validationResult = logRecipeSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid request",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const meal = await RecipeLibraryService.logRecipe(
+        userId,
+        req.params.recipeId,
+        validationResult.data
+      );
+
+      res.status(201).json({ success: true, data: meal });
+    } catch (error) {
+      if (error instanceof RecipeLibraryError) {
+        return res
+          .status(error.statusCode)
+          .json({ success: false, error: error.message });
+      }
+      console.error("❌ Log recipe error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to log recipe",
+      });
+    }
+  }
+);
+
+// Schedule a recipe in one of the user's meal plans
+router.post(
+  "/:recipeId/add-to-plan",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user?.user_id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: "User not authenticated",
+        });
+      }
+
+      const validationResult = addRecipeToPlanSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid request",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const schedule = await RecipeLibraryService.addToPlan(
+        userId,
+        req.params.recipeId,
+        validationResult.data
+      );
+
+      res.status(201).json({ success: true, data: schedule });
+    } catch (error) {
+      if (error instanceof RecipeLibraryError) {
+        return res
+          .status(error.statusCode)
+          .json({ success: false, error: error.message });
+      }
+      console.error("❌ Add recipe to plan error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to add recipe to meal plan",
+      });
+    }
+  }
+);
+
+// Add what a recipe needs beyond the pantry to a shopping list
+router.post(
+  "/:recipeId/shopping-list",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user?.user_id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: "User not authenticated",
+        });
+      }
+
+      const validationResult = recipeShoppingListSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid request",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const result = await RecipeLibraryService.addToShoppingList(
+        userId,
+        req.params.recipeId,
+        validationResult.data
+      );
+
+      res.json({ success: true, data: result });
+    } catch (error) {
+      if (
+        error instanceof RecipeLibraryError ||
+        error instanceof ShoppingListError
+      ) {
+        return res
+          .status(error.statusCode)
+          .json({ success: false, error: error.message });
+      }
+      console.error("❌ Recipe shopping list error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to add recipe to shopping list",
+      });
+    }
+  }
+);
+
+export default router;
@@ -1,6 +1,9 @@
 import { Router } from "express";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
 import { RecommendedMenuService } from "../services/recommendedMenu";
+import { PantryService } from "../services/pantry";
+import { RecipeService } from "../services/recipes";
+import { RecipeError, servingsSchema } from "../types/recipes";
 import { prisma } from "../lib/database";
 import { Response } from "express";
 import { $Enums } from "@prisma/client";
@@ -441,6 +444,80 @@ router.post(
   }
 );
 
+// GET /api/recommended-menus/:menuId/meals/:mealId/recipe - Meal with its recipe steps
+router.get(
+  "/:menuId/meals/:mealId/recipe",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user.user_id;
+      const { menuId, mealId } = req.params;
+
+      const meal = await RecipeService.getMealRecipe(userId, menuId, mealId);
+
+      res.json({
+        success: true,
+        data: meal,
+      });
+    } catch (error) {
+      if (error instanceof RecipeError) {
+        return res
+          .status(error.statusCode)
+          .json({ success: false, error: error.message });
+      }
+      console.error("💥 Error fetching recipe:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to fetch recipe",
+      });
+    }
+  }
+);
+
+// PUT /api/recommended-menus/:menuId/meals/:mealId/servings - Scale a meal to a number of servings
+router.put(
+  "/:menuId/meals/:mealId/servings",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user.user_id;
+      const { menuId, mealId } = req.params;
+
+      const validationResult = servingsSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid servings",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const meal = await RecipeService.scaleMeal(
+        userId,
+        menuId,
+        mealId,
+        validationResult.data.servings
+      );
+
+      res.json({
+        success: true,
+        data: meal,
+      });
+    } catch (error) {
+      if (error instanceof RecipeError) {
+        return res
+          .status(error.statusCode)
+          .json({ success: false, error: error.message });
+      }
+      console.error("💥 Error scaling meal:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to scale meal",
+      });
+    }
+  }
+);
+
 // POST /api/recommended-menus/:menuId/favorite-meal - Mark meal as favorite
 router.post(
   "/:menuId/favorite-meal",
@@ -1178,13 +1255,15 @@ router.post(
         });
       }
 
-      const { preferences, ingredients, user_ingredients } = req.body;
+      const { preferences, user_ingredients } = req.body;
+      const ingredients: any[] = Array.isArray(req.body.ingredients)
+        ? req.body.ingredients
+        : [];
 
-      if (
-        !ingredients ||
-        !Array.isArray(ingredients) ||
-        ingredients.length === 0
-      ) {
+      // The pantry counts as available too, so the list can be left empty
+      const pantry = await PantryService.describeForPrompt(userId);
+
+      if (ingredients.length === 0 && !pantry) {
         return res.status(400).json({
           success: false,
           error: "At least one ingredient is required",
@@ -1204,23 +1283,31 @@ router.post(
       });
 
       // Detect language based on ingredients
-      const hasHebrew = ingredients.some((ing: any) =>
-        /[\u0590-\u05FF]/.test(ing.name)
-      );
+      const hasHebrew =
+        ingredients.some((ing: any) => /[\u0590-\u05FF]/.test(ing.name)) ||
+        /[\u0590-\u05FF]/.test(pantry);
       const menuLanguage = hasHebrew ? "Hebrew" : "English";
 
       // Create enhanced prompt with user ingredients
       const ingredientsList = ingredients
         .map((ing: any) => `${ing.name} (${ing.quantity} ${ing.unit})`)
         .join(", ");
+      const pantrySection = pantry
+        ? `
+Also available at home (use these first, especially items expiring soon):
+${pantry}
+`
+        : "";
 
       const sanitizedDuration = Math.max(
         1,
         Math.min(30, parseInt(preferences.duration_days?.toString() || "7"))
       );
 
-      const prompt = `Create a personalized ${sanitizedDuration}-day meal plan using these available ingredients: ${ingredientsList}.
-
+      const prompt = `Create a personalized ${sanitizedDuration}-day meal plan using these available ingredients: ${
+        ingredientsList || "what is already at home, listed below"
+      }.
+${pantrySection}
 IMPORTANT LANGUAGE RULES:
 - The ingredients contain ${menuLanguage} text
 - You MUST respond in ${menuLanguage} for ALL text fields (menu_name, description, meal names, instructions)
@@ -1273,7 +1360,15 @@ Return VALID JSON in this format:
       "fat": number,
       "prep_time_minutes": number,
       "cooking_method": "method",
-      "instructions": "detailed instructions",
+      "instructions": "short summary of how it is made",
+      "servings": 1,
+      "steps": [
+        {
+          "instruction": "one step",
+          "duration_minutes": number or null,
+          "equipment": ["pan"]
+        }
+      ],
       "ingredients": [
         {
           "name": "ingredient name",
@@ -1432,6 +1527,7 @@ Return VALID JSON in this format:
 
       // Save meals
       for (const meal of parsedMenu.meals) {
+        const recipe = RecipeService.fromMealData(meal);
         const savedMeal = await prisma.recommendedMeal.create({
           data: {
             menu_id: savedMenu.menu_id,
@@ -1444,9 +1540,11 @@ Return VALID JSON in this format:
             fat: meal.fat || 0,
             prep_time_minutes: meal.prep_time_minutes || 30,
             cooking_method: meal.cooking_method || "",
-            instructions: meal.instructions || "",
+            instructions:
+              meal.instructions || RecipeService.toInstructions(recipe),
           },
         });
+        await RecipeService.save({ meal_id: savedMeal.meal_id }, recipe);
 
         // Save ingredients
         if (meal.ingredients && Array.isArray(meal.ingredients)) {
@@ -2,6 +2,14 @@ import express, { Request, Response } from "express";
 import { PrismaClient } from "@prisma/client";
 import { authenticateToken } from "../middleware/auth";
 import { z } from "zod";
+import { ShoppingListService } from "../services/shoppingLists";
+import {
+  ShoppingItemInput,
+  ShoppingListError,
+  addMemberSchema,
+  listChangesQuerySchema,
+  listNameSchema,
+} from "../types/shoppingLists";
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -18,10 +26,11 @@ interface AuthenticatedRequest extends Request {
 
 // Validation schemas
 const createSchema = z.object({
+  list_id: z.string().optional(),
   name: z.string().min(1, "Name is required"),
   quantity: z.number().positive("Quantity must be positive").default(1),
   unit: z.string().default("pieces"),
-  category: z.string().default("Manual"),
+  category: z.string().optional(),
   added_from: z.string().optional(),
   product_barcode: z.string().optional(),
   estimated_price: z.number().optional(),
@@ -35,6 +44,25 @@ const updateSchema = z.object({
   estimated_cost: z.number().optional().nullable(),
 });
 
+const toItemInput = (
+  data: z.infer<typeof createSchema>
+): ShoppingItemInput => ({
+  name: data.name,
+  quantity: data.quantity,
+  unit: data.unit,
+  category: data.category,
+  added_from: data.added_from,
+  estimated_cost: data.estimated_price,
+  barcode: data.product_barcode,
+});
+
+// Items and stats default to the user's default list
+const listIdOf = (req: Request): string | undefined =>
+  typeof req.query.list_id === "string" ? req.query.list_id : undefined;
+
+const sendListError = (res: Response, error: ShoppingListError) =>
+  res.status(error.statusCode).json({ success: false, error: error.message });
+
 // Validation helpers
 const validateShoppingItem = (item: any) => {
   const errors: string[] = [];
@@ -69,9 +97,249 @@ const validateShoppingItem = (item: any) => {
   return errors;
 };
 
-// Get user's shopping list
+// Get the lists the user owns or is a member of
 router.get(
-  "/",
+  "/lists",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.user_id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: "User not authenticated",
+        });
+      }
+
+      const lists = await ShoppingListService.getLists(userId);
+
+      res.json({ success: true, data: lists });
+    } catch (error) {
+      console.error("Error fetching shopping lists:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to fetch shopping lists",
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
+// Create a named list
+router.post(
+  "/lists",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.user_id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: "User not authenticated",
+        });
+      }
+
+      const validation = listNameSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          details: validation.error.errors,
+        });
+      }
+
+      const list = await ShoppingListService.createList(
+        userId,
+        validation.data.name
+      );
+
+      res.status(201).json({
+        success: true,
+        data: list,
+        message: "List created successfully",
+      });
+    } catch (error) {
+      console.error("Error creating shopping list:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to create list",
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
+// Rename a list (owner only)
+router.patch(
+  "/lists/:listId",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.user_id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: "User not authenticated",
+        });
+      }
+
+      const validation = listNameSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          details: validation.error.errors,
+        });
+      }
+
+      const list = await ShoppingListService.renameList(
+        userId,
+        req.params.listId,
+        validation.data.name
+      );
+
+      res.json({
+        success: true,
+        data: list,
+        message: "List updated successfully",
+      });
+    } catch (error) {
+      if (error instanceof ShoppingListError) {
+        return sendListError(res, error);
+      }
+      console.error("Error renaming shopping list:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to update list",
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
+// Delete a list and its items (owner only, not the default list)
+router.delete(
+  "/lists/:listId",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.user_id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: "User not authenticated",
+        });
+      }
+
+      await ShoppingListService.deleteList(userId, req.params.listId);
+
+      res.json({
+        success: true,
+        message: "List deleted successfully",
+      });
+    } catch (error) {
+      if (error instanceof ShoppingListError) {
+        return sendListError(res, error);
+      }
+      console.error("Error deleting shopping list:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to delete list",
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
+// Share a list with another user by email (owner only)
+router.post(
+  "/lists/:listId/members",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.user_id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: "User not authenticated",
+        });
+      }
+
+      const validation = addMemberSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          details: validation.error.errors,
+        });
+      }
+
+      const member = await ShoppingListService.addMember(
+        userId,
+        req.params.listId,
+        validation.data.email
+      );
+
+      res.status(201).json({
+        success: true,
+        data: member,
+        message: "Member added successfully",
+      });
+    } catch (error) {
+      if (error instanceof ShoppingListError) {
+        return sendListError(res, error);
+      }
+      console.error("Error adding shopping list member:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to add member",
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
+// Remove a member, or leave a list shared with you
+router.delete(
+  "/lists/:listId/members/:userId",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.user_id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: "User not authenticated",
+        });
+      }
+
+      await ShoppingListService.removeMember(
+        userId,
+        req.params.listId,
+        req.params.userId
+      );
+
+      res.json({
+        success: true,
+        message: "Member removed successfully",
+      });
+    } catch (error) {
+      if (error instanceof ShoppingListError) {
+        return sendListError(res, error);
+      }
+      console.error("Error removing shopping list member:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to remove member",
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
+// Poll for changes to a list since the cursor from the previous poll
+router.get(
+  "/lists/:listId/changes",
   authenticateToken,
   async (req: AuthenticatedRequest, res: Response) => {
     try {
@@ -83,33 +351,64 @@ router.get(
         });
       }
 
-      const shoppingList = await prisma.shoppingList.findMany({
-        where: { user_id: userId },
-        orderBy: [{ is_purchased: "asc" }, { created_at: "desc" }],
+      const validation = listChangesQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid query parameters",
+          details: validation.error.errors,
+        });
+      }
+
+      const changes = await ShoppingListService.getChanges(
+        userId,
+        req.params.listId,
+        validation.data.since
+      );
+
+      res.json({ success: true, data: changes });
+    } catch (error) {
+      if (error instanceof ShoppingListError) {
+        return sendListError(res, error);
+      }
+      console.error("Error fetching shopping list changes:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to fetch changes",
+        details: error instanceof Error ? error.message : "Unknown error",
       });
+    }
+  }
+);
+
+// Get the items on a list
+router.get(
+  "/",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.user_id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: "User not authenticated",
+        });
+      }
+
+      const { list, items } = await ShoppingListService.getItems(
+        userId,
+        listIdOf(req)
+      );
 
       res.json({
         success: true,
-        data: shoppingList.map((item) => ({
-          id: item.id,
-          name: item.name,
-          quantity: item.quantity,
-          unit: item.unit,
-          category: item.category,
-          is_purchased: item.is_purchased,
-          added_from: item.added_from,
-          estimated_cost: item.estimated_cost,
-          created_at: item.created_at,
-          updated_at: item.updated_at,
-          barcode:
-            item.metadata &&
-            typeof item.metadata === "object" &&
-            "barcode" in item.metadata
-              ? item.metadata.barcode
-              : undefined,
-        })),
+        data: items,
+        list: { list_id: list.list_id, name: list.name },
       });
     } catch (error) {
+      if (error instanceof ShoppingListError) {
+        return sendListError(res, error);
+      }
       console.error("Error fetching shopping list:", error);
       res.status(500).json({
         success: false,
@@ -139,55 +438,21 @@ router.post(
       // Validate input using zod schema
       const validatedData = createSchema.parse(req.body);
 
-      // Check for duplicate items
-      const existingItem = await prisma.shoppingList.findFirst({
-        where: {
-          user_id: userId,
-          name: {
-            equals: validatedData.name.trim(),
-            mode: "insensitive",
-          },
-          is_purchased: false,
-        },
-      });
-
-      if (existingItem) {
-        // Update existing item quantity
-        const updatedItem = await prisma.shoppingList.update({
-          where: { id: existingItem.id },
-          data: {
-            quantity: existingItem.quantity + validatedData.quantity,
-            updated_at: new Date(),
-          },
-        });
+      const { added, updated } = await ShoppingListService.addItems(
+        userId,
+        [toItemInput(validatedData)],
+        { listId: validatedData.list_id }
+      );
 
+      if (updated.length > 0) {
         return res.json({
           success: true,
-          data: updatedItem,
+          data: ShoppingListService.toView(updated[0]),
           message: "Existing item quantity updated",
         });
       }
 
-      const createData: any = {
-        user_id: userId,
-        name: validatedData.name.trim(),
-        quantity: validatedData.quantity,
-        unit: validatedData.unit,
-        category: validatedData.category,
-        added_from: validatedData.added_from || "manual",
-        estimated_cost: validatedData.estimated_price || null,
-        is_purchased: false,
-      };
-
-      // Add metadata if barcode is provided
-      if (validatedData.product_barcode) {
-        createData.metadata = { barcode: validatedData.product_barcode };
-      }
-
-      const item = await prisma.shoppingList.create({
-        data: createData,
-      });
-
+      const item = ShoppingListService.toView(added[0]);
       console.log("✅ Shopping list item created:", item);
 
       res.status(201).json({
@@ -197,6 +462,9 @@ router.post(
       });
     } catch (error) {
       console.error("❌ Error adding item to shopping list:", error);
+      if (error instanceof ShoppingListError) {
+        return sendListError(res, error);
+      }
       if (error instanceof z.ZodError) {
         return res.status(400).json({
           success: false,
@@ -227,7 +495,7 @@ router.post(
         });
       }
 
-      const { items } = req.body;
+      const { items, list_id } = req.body;
 
       if (!Array.isArray(items) || items.length === 0) {
         return res.status(400).json({
@@ -238,8 +506,7 @@ router.post(
 
       console.log("📦 Bulk adding shopping list items:", items.length);
 
-      const addedItems: any[] = [];
-      const updatedItems: any[] = [];
+      const validItems: ShoppingItemInput[] = [];
       const errors: string[] = [];
 
       for (let i = 0; i < items.length; i++) {
@@ -248,50 +515,7 @@ router.post(
         try {
           // Validate each item
           const validatedData = createSchema.parse(itemData);
-
-          // Check for existing item
-          const existingItem = await prisma.shoppingList.findFirst({
-            where: {
-              user_id: userId,
-              name: {
-                equals: validatedData.name.trim(),
-                mode: "insensitive",
-              },
-              is_purchased: false,
-            },
-          });
-
-          if (existingItem) {
-            const updated = await prisma.shoppingList.update({
-              where: { id: existingItem.id },
-              data: {
-                quantity: existingItem.quantity + validatedData.quantity,
-                updated_at: new Date(),
-              },
-            });
-            updatedItems.push(updated);
-          } else {
-            const createData: any = {
-              user_id: userId,
-              name: validatedData.name.trim(),
-              quantity: validatedData.quantity,
-              unit: validatedData.unit,
-              category: validatedData.category,
-              added_from: validatedData.added_from || "manual",
-              estimated_cost: validatedData.estimated_price || null,
-              is_purchased: false,
-            };
-
-            // Add metadata if barcode is provided
-            if (validatedData.product_barcode) {
-              createData.metadata = { barcode: validatedData.product_barcode };
-            }
-
-            const newItem = await prisma.shoppingList.create({
-              data: createData,
-            });
-            addedItems.push(newItem);
-          }
+          validItems.push(toItemInput(validatedData));
         } catch (itemError) {
           console.error(`Error processing item ${i + 1}:`, itemError);
           if (itemError instanceof z.ZodError) {
@@ -310,6 +534,12 @@ router.post(
         }
       }
 
+      // Items naming the same ingredient are merged into one row
+      const { added: addedItems, updated: updatedItems } =
+        await ShoppingListService.addItems(userId, validItems, {
+          listId: typeof list_id === "string" ? list_id : undefined,
+        });
+
       if (
         errors.length > 0 &&
         addedItems.length === 0 &&
@@ -340,6 +570,9 @@ router.post(
       });
     } catch (error) {
       console.error("❌ Error bulk adding items:", error);
+      if (error instanceof ShoppingListError) {
+        return sendListError(res, error);
+      }
       if (error instanceof z.ZodError) {
         return res.status(400).json({
           success: false,
@@ -356,6 +589,44 @@ router.post(
   }
 );
 
+// Clear all purchased items
+router.delete(
+  "/purchased",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.user_id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: "User not authenticated",
+        });
+      }
+
+      const deleted = await ShoppingListService.clearPurchased(
+        userId,
+        listIdOf(req)
+      );
+
+      res.json({
+        success: true,
+        data: { deleted },
+        message: `${deleted} purchased items cleared`,
+      });
+    } catch (error) {
+      if (error instanceof ShoppingListError) {
+        return sendListError(res, error);
+      }
+      console.error("Error clearing purchased items:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to clear purchased items",
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
 // Update item
 router.put(
   "/:id",
@@ -379,60 +650,29 @@ router.put(
         });
       }
 
-      // Check if item exists and belongs to user
-      const existingItem = await prisma.shoppingList.findFirst({
-        where: {
-          id: itemId,
-          user_id: userId,
-        },
-      });
-
-      if (!existingItem) {
-        return res.status(404).json({
-          success: false,
-          error: "Item not found or access denied",
-        });
-      }
-
       // Validate input using zod schema
       const validatedData = updateSchema.parse(req.body);
 
-      const updateData: any = { updated_at: new Date() };
-
-      if (validatedData.name !== undefined)
-        updateData.name = validatedData.name.trim();
-      if (validatedData.quantity !== undefined)
-        updateData.quantity = validatedData.quantity;
-      if (validatedData.unit !== undefined)
-        updateData.unit = validatedData.unit.trim();
-      if (validatedData.category !== undefined)
-        updateData.category = validatedData.category.trim();
-      if (validatedData.estimated_cost !== undefined)
-        updateData.estimated_cost = validatedData.estimated_cost;
-
-      // Handle potential metadata updates if provided, e.g., barcode
-      if (req.body.metadata?.barcode !== undefined) {
-        updateData.metadata = {
-          ...existingItem.metadata,
-          barcode: req.body.metadata.barcode,
-        };
-      } else if (req.body.metadata === null) {
-        // Allow clearing metadata if needed
-        updateData.metadata = null;
-      }
-
-      const updatedItem = await prisma.shoppingList.update({
-        where: { id: itemId },
-        data: updateData,
+      const updatedItem = await ShoppingListService.updateItem(userId, itemId, {
+        name: validatedData.name?.trim(),
+        quantity: validatedData.quantity,
+        unit: validatedData.unit?.trim(),
+        category: validatedData.category?.trim(),
+        estimated_cost: validatedData.estimated_cost,
+        // metadata: null clears the barcode
+        barcode: req.body.metadata === null ? null : req.body.metadata?.barcode,
       });
 
       res.json({
         success: true,
-        data: updatedItem,
+        data: ShoppingListService.toView(updatedItem),
         message: "Item updated successfully",
       });
     } catch (error) {
       console.error("Error updating shopping list item:", error);
+      if (error instanceof ShoppingListError) {
+        return sendListError(res, error);
+      }
       if (error instanceof z.ZodError) {
         return res.status(400).json({
           success: false,
@@ -472,33 +712,19 @@ router.put(
         });
       }
 
-      const item = await prisma.shoppingList.findFirst({
-        where: { id: itemId, user_id: userId },
-      });
-
-      if (!item) {
-        return res.status(404).json({
-          success: false,
-          error: "Item not found or access denied",
-        });
-      }
-
-      const updatedItem = await prisma.shoppingList.update({
-        where: { id: itemId },
-        data: {
-          is_purchased: !item.is_purchased,
-          updated_at: new Date(),
-        },
-      });
+      const updatedItem = await ShoppingListService.toggleItem(userId, itemId);
 
       res.json({
         success: true,
-        data: updatedItem,
+        data: ShoppingListService.toView(updatedItem),
         message: `Item marked as ${
           updatedItem.is_purchased ? "purchased" : "not purchased"
         }`,
       });
     } catch (error) {
+      if (error instanceof ShoppingListError) {
+        return sendListError(res, error);
+      }
       console.error("Error toggling item status:", error);
       res.status(500).json({
         success: false,
@@ -532,29 +758,16 @@ router.delete(
         });
       }
 
-      const existingItem = await prisma.shoppingList.findFirst({
-        where: {
-          id: itemId,
-          user_id: userId,
-        },
-      });
-
-      if (!existingItem) {
-        return res.status(404).json({
-          success: false,
-          error: "Item not found or access denied",
-        });
-      }
-
-      await prisma.shoppingList.delete({
-        where: { id: itemId },
-      });
+      await ShoppingListService.removeItem(userId, itemId);
 
       res.json({
         success: true,
         message: "Item deleted successfully",
       });
     } catch (error) {
+      if (error instanceof ShoppingListError) {
+        return sendListError(res, error);
+      }
       console.error("Error deleting shopping list item:", error);
       res.status(500).json({
         success: false,
@@ -565,43 +778,6 @@ router.delete(
   }
 );
 
-// Clear all purchased items
-router.delete(
-  "/purchased",
-  authenticateToken,
-  async (req: AuthenticatedRequest, res: Response) => {
-    try {
-      const userId = req.user?.user_id;
-      if (!userId) {
-        return res.status(401).json({
-          success: false,
-          error: "User not authenticated",
-        });
-      }
-
-      const deletedItems = await prisma.shoppingList.deleteMany({
-        where: {
-          user_id: userId,
-          is_purchased: true,
-        },
-      });
-
-      res.json({
-        success: true,
-        data: { deleted: deletedItems.count },
-        message: `${deletedItems.count} purchased items cleared`,
-      });
-    } catch (error) {
-      console.error("Error clearing purchased items:", error);
-      res.status(500).json({
-        success: false,
-        error: "Failed to clear purchased items",
-        details: error instanceof Error ? error.message : "Unknown error",
-      });
-    }
-  }
-);
-
 // Get shopping list statistics
 router.get(
   "/stats",
@@ -616,22 +792,27 @@ router.get(
         });
       }
 
+      const { list_id } = await ShoppingListService.resolveList(
+        userId,
+        listIdOf(req)
+      );
+
       const [total, purchased, categories] = await Promise.all([
-        prisma.shoppingList.count({
-          where: { user_id: userId },
+        prisma.shoppingListItem.count({
+          where: { list_id },
         }),
-        prisma.shoppingList.count({
-          where: { user_id: userId, is_purchased: true },
+        prisma.shoppingListItem.count({
+          where: { list_id, is_purchased: true },
         }),
-        prisma.shoppingList.groupBy({
+        prisma.shoppingListItem.groupBy({
           by: ["category"],
-          where: { user_id: userId },
+          where: { list_id },
           _count: true,
         }),
       ]);
 
-      const totalCost = await prisma.shoppingList.aggregate({
-        where: { user_id: userId },
+      const totalCost = await prisma.shoppingListItem.aggregate({
+        where: { list_id },
         _sum: { estimated_cost: true },
       });
 
@@ -651,6 +832,9 @@ router.get(
         },
       });
     } catch (error) {
+      if (error instanceof ShoppingListError) {
+        return sendListError(res, error);
+      }
       console.error("Error fetching shopping list stats:", error);
       res.status(500).json({
         success: false,
@@ -9,6 +9,34 @@ const router = Router();
 
 const periodSchema = z.enum(["today", "week", "month", "custom"]);
 
+const MAX_REPORT_DAYS = 366;
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+const reportQuerySchema = z
+  .object({
+    period: periodSchema.default("month"),
+    start_date: isoDateSchema.optional(),
+    end_date: isoDateSchema.optional(),
+  })
+  .refine(
+    (query) =>
+      query.period !== "custom" || (!!query.start_date && !!query.end_date),
+    { message: "start_date and end_date are required for a custom period" }
+  )
+  .refine(
+    (query) => {
+      if (query.period !== "custom" || !query.start_date || !query.end_date) {
+        return true;
+      }
+      const days =
+        (new Date(query.end_date).getTime() -
+          new Date(query.start_date).getTime()) /
+        (24 * 60 * 60 * 1000);
+      return days >= 0 && days < MAX_REPORT_DAYS;
+    },
+    { message: `Custom period must span 1 to ${MAX_REPORT_DAYS} days` }
+  );
+
 // Get nutrition statistics
 router.get(
   "/statistics",
@@ -181,7 +209,7 @@ router.post(
   }
 );
 
-// Export report as PDF
+// Export report as PDF (?period=today|week|month|custom&start_date&end_date)
 router.get(
   "/export-report",
   authenticateToken,
@@ -193,16 +221,35 @@ router.get(
     }
 
     try {
-      const pdfBuffer = await StatisticsService.generatePDFReport(userId);
+      const { period, start_date, end_date } = reportQuerySchema.parse(
+        req.query
+      );
 
-      res.setHeader("Content-Type", "application/pdf");
-      res.setHeader(
-        "Content-Disposition",
-        "attachment; filename=nutrition-report.pdf"
+      const pdfBuffer = await StatisticsService.generatePDFReport(
+        userId,
+        period,
+        start_date ? new Date(start_date) : undefined,
+        end_date ? new Date(end_date) : undefined
       );
+
+      const filename = `nutrition-report-${
+        period === "custom" ? `${start_date}_${end_date}` : period
+      }.pdf`;
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename=${filename}`);
+      res.setHeader("Content-Length", pdfBuffer.length);
       res.send(pdfBuffer);
     } catch (error) {
       console.error("Error generating PDF report:", error);
+
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Invalid report parameters",
+          details: error.errors,
+        });
+      }
+
       res.status(500).json({ error: "Failed to generate report" });
     }
   }
@@ -270,9 +317,11 @@ router.get(
 router.post("/debug/force-setup", async (req: any, res: Response) => {
   try {
     console.log("🚨 Manual emergency setup triggered");
-    const { CronJobService } = await import("../services/cronJobs");
-    await CronJobService.runImmediateCleanupAndSetup();
-    res.json({ success: true, message: "Emergency setup completed" });
+    const { JobQueueService } = await import("../services/jobs/queue");
+    const { JobSchedulerService } = await import("../services/jobs/scheduler");
+    await JobQueueService.enqueue("data-cleanup", {}, { triggeredBy: "debug" });
+    await JobSchedulerService.enqueueCatchUp("debug");
+    res.json({ success: true, message: "Emergency setup queued" });
   } catch (error) {
     console.error("❌ Manual emergency setup failed:", error);
     res.status(500).json({
@@ -3,12 +3,26 @@ import { prisma } from "../lib/database";
 import { updateProfileSchema } from "../types/auth";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
 import { StatisticsService } from "../services/statistics";
+import { PushNotificationService } from "../services/pushNotifications";
+import { SubscriptionService } from "../services/subscriptions";
+import { EntitlementService } from "../services/entitlements";
+import { isPaidPlan } from "../config/planPricing";
+import { MediaService } from "../services/media";
+import { StorageError } from "../types/storage";
+import { getUserTimeZone, getUserToday } from "../utils/userDay";
 import { z } from "zod";
 
 const avatarUploadSchema = z.object({
   avatar_base64: z.string().min(100, "Avatar image data is required"),
 });
 
+const pushTokenSchema = z.object({
+  pushToken: z.string().min(1).max(200, "Push token is too long"),
+  previousToken: z.string().max(200).optional(),
+  platform: z.enum(["ios", "android", "web"]).optional(),
+  deviceName: z.string().max(100).optional(),
+});
+
 const router = Router();
 
 router.put(
@@ -28,6 +42,7 @@ router.put(
           avatar_url: true,
           subscription_type: true,
           birth_date: true,
+          timezone: true,
           ai_requests_count: true,
           ai_requests_reset_at: true,
           created_at: true,
@@ -38,7 +53,10 @@ router.put(
 
       res.json({
         success: true,
-        user: updatedUser,
+        user: {
+          ...updatedUser,
+          avatar_url: await MediaService.resolveUrl(updatedUser.avatar_url),
+        },
       });
     } catch (error) {
       if (error instanceof Error) {
@@ -84,13 +102,15 @@ router.post("/avatar", authenticateToken, async (req: AuthRequest, res) => {
       });
     }
 
-    // Create data URL for storage
-    const avatarUrl = `data:image/jpeg;base64,${cleanBase64}`;
+    const avatarReference = await MediaService.storeReference(
+      cleanBase64,
+      "avatar"
+    );
 
     // Update user avatar in database
     const updatedUser = await prisma.user.update({
       where: { user_id: userId },
-      data: { avatar_url: avatarUrl },
+      data: { avatar_url: avatarReference },
       select: {
         user_id: true,
         email: true,
@@ -105,14 +125,21 @@ router.post("/avatar", authenticateToken, async (req: AuthRequest, res) => {
 
     console.log("✅ Avatar uploaded successfully for user:", userId);
 
+    const avatarUrl = await MediaService.resolveUrl(avatarReference);
     res.json({
       success: true,
       message: "Avatar uploaded successfully",
       avatar_url: avatarUrl,
-      user: updatedUser,
+      user: { ...updatedUser, avatar_url: avatarUrl },
     });
   } catch (error) {
     console.error("💥 Avatar upload error:", error);
+    if (error instanceof StorageError && error.statusCode) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    }
     res.status(500).json({
       success: false,
       error: "Failed to upload avatar",
@@ -136,9 +163,38 @@ router.put(
           .json({ success: false, error: "Invalid subscription type" });
       }
 
+      // Paid plans are only granted by a confirmed payment webhook
+      if (subscription_type !== "FREE") {
+        return res.status(402).json({
+          success: false,
+          error: "Paid plans require checkout",
+          checkout_url: "/api/payments/checkout",
+        });
+      }
+
+      const current = await prisma.user.findUnique({
+        where: { user_id: userId },
+        select: { subscription_type: true, subscription_end: true },
+      });
+
+      // Switching to FREE from an active paid plan cancels at period end
+      if (
+        current &&
+        isPaidPlan(current.subscription_type) &&
+        current.subscription_end &&
+        current.subscription_end > new Date()
+      ) {
+        const result = await SubscriptionService.cancelSubscription(userId);
+        return res.json({
+          success: true,
+          message: "Subscription will end at the current period",
+          data: result,
+        });
+      }
+
       await prisma.user.update({
         where: { user_id: userId },
-        data: { subscription_type },
+        data: { subscription_type, subscription_auto_renew: false },
       });
 
       return res.json({ success: true, message: "Subscription updated" });
@@ -154,69 +210,50 @@ router.put(
 router.get(
   "/subscription-info",
   authenticateToken,
-  async (req: AuthRequest, res) => {
-    const subscriptionInfo = {
-      FREE: { dailyRequests: 2, name: "Free Plan" },
-      BASIC: { dailyRequests: 20, name: "Basic Plan" },
-      PREMIUM: { dailyRequests: 50, name: "Premium Plan" },
-    };
-
-    const userSubscriptionType = req.user?.subscription_type;
-    const info =
-      subscriptionInfo[userSubscriptionType as keyof typeof subscriptionInfo] ||
-      subscriptionInfo.FREE;
-
-    res.json({
-      success: true,
-      subscription: {
-        ...info,
-        currentRequests: req.user?.ai_requests_count,
-        resetAt: req.user?.ai_requests_reset_at,
-      },
-    });
-  }
-);
-
-// Promote user to admin (use with caution - should be restricted)
-router.post(
-  "/promote-admin",
-  authenticateToken,
   async (req: AuthRequest, res) => {
     try {
-      const { secret_key, user_email } = req.body;
-      const ADMIN_SECRET =
-        process.env.ADMIN_PROMOTION_SECRET || "change-this-secret-key";
-
-      if (secret_key !== ADMIN_SECRET) {
-        return res.status(403).json({
-          success: false,
-          error: "Invalid secret key",
-        });
-      }
-
-      const targetUser = await prisma.user.update({
-        where: { email: user_email },
-        data: { 
-          is_admin: true,
-          subscription_type: "PREMIUM" // Give them premium access
-        },
-      });
+      const { plan, quotas } = await EntitlementService.getEntitlements(
+        req.user.user_id
+      );
 
-      return res.json({
+      res.json({
         success: true,
-        message: `User ${user_email} promoted to ADMIN`,
-        data: targetUser,
+        subscription: {
+          type: plan.type,
+          name: plan.name,
+          mealScans: quotas.mealScans,
+          aiChatTokens: quotas.aiChatTokens,
+        },
       });
     } catch (error) {
-      console.error("Admin promotion error:", error);
-      return res.status(500).json({
-        success: false,
-        error: "Failed to promote user",
-      });
+      console.error("💥 Get subscription info error:", error);
+      res
+        .status(500)
+        .json({ success: false, error: "Failed to get subscription info" });
     }
   }
 );
 
+// Effective plan features, limits and remaining quota for the caller
+router.get("/entitlements", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const entitlements = await EntitlementService.getEntitlements(
+      req.user.user_id
+    );
+    res.json({ success: true, data: entitlements });
+  } catch (error) {
+    console.error("💥 Get entitlements error:", error);
+    res
+      .status(500)
+      .json({ success: false, error: "Failed to get entitlements" });
+  }
+});
+
+// Plans available for purchase, for plan comparison screens
+router.get("/plans", authenticateToken, async (_req: AuthRequest, res) => {
+  res.json({ success: true, data: EntitlementService.getPlanCatalog() });
+});
+
 // NEW ENDPOINT: Get global nutritional statistics
 router.get(
   "/global-statistics",
@@ -305,7 +342,10 @@ router.patch(
       res.json({
         success: true,
         message: "User updated successfully",
-        user: updatedUser,
+        user: {
+          ...updatedUser,
+          avatar_url: await MediaService.resolveUrl(updatedUser.avatar_url),
+        },
       });
     } catch (error) {
       console.error("💥 Edit user error:", error);
@@ -372,7 +412,7 @@ router.delete(
         });
 
         // Delete user notifications
-        await tx.shoppingList.deleteMany({
+        await tx.shoppingListItem.deleteMany({
           where: { user_id: req.user?.user_id },
         });
 
@@ -418,30 +458,44 @@ router.delete(
 // STORE PUSH TOKEN ENDPOINT
 router.post("/push-token", authenticateToken, async (req: AuthRequest, res) => {
   try {
-    const { pushToken } = req.body;
-    
-    if (!pushToken || typeof pushToken !== 'string') {
+    const validationResult = pushTokenSchema.safeParse(req.body);
+    if (!validationResult.success) {
       return res.status(400).json({
         success: false,
         error: "Valid push token is required",
+        details: validationResult.error.errors,
       });
     }
 
-    // Validate token length (Expo push tokens are around 40-50 characters)
-    if (pushToken.length > 200) {
+    const { pushToken, previousToken, platform, deviceName } =
+      validationResult.data;
+
+    if (!PushNotificationService.isValidToken(pushToken)) {
       return res.status(400).json({
         success: false,
-        error: "Push token is too long",
+        error: "Unsupported push token format",
       });
     }
 
-    // Store push token in user metadata or create a separate tokens table
-    // For now, just log it (implement proper storage based on your schema)
-    console.log(`📱 Push token received for user ${req.user?.user_id}:`, pushToken.substring(0, 20) + "...");
+    const registered = await PushNotificationService.registerToken(
+      req.user?.user_id,
+      pushToken,
+      { platform, deviceName, previousToken }
+    );
+
+    console.log(
+      `📱 Push token registered for user ${req.user?.user_id}:`,
+      pushToken.substring(0, 20) + "..."
+    );
 
     res.json({
       success: true,
-      message: "Push token received (local notifications only in Expo Go)",
+      message: "Push token registered",
+      data: {
+        push_token_id: registered.push_token_id,
+        platform: registered.platform,
+        is_active: registered.is_active,
+      },
     });
   } catch (error) {
     console.error("💥 Error storing push token:", error);
@@ -452,6 +506,40 @@ router.post("/push-token", authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
+// REMOVE PUSH TOKEN ENDPOINT (sign-out or notifications disabled)
+router.delete(
+  "/push-token",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const { pushToken } = req.body || {};
+
+      if (!pushToken || typeof pushToken !== "string") {
+        return res.status(400).json({
+          success: false,
+          error: "Valid push token is required",
+        });
+      }
+
+      const removed = await PushNotificationService.unregisterToken(
+        req.user?.user_id,
+        pushToken
+      );
+
+      res.json({
+        success: true,
+        message: removed ? "Push token removed" : "Push token was not active",
+      });
+    } catch (error) {
+      console.error("💥 Error removing push token:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to remove push token",
+      });
+    }
+  }
+);
+
 // GET USER PROFILE ENDPOINT
 router.get("/profile", authenticateToken, async (req: AuthRequest, res) => {
   try {
@@ -492,7 +580,10 @@ router.get("/profile", authenticateToken, async (req: AuthRequest, res) => {
     console.log("✅ Profile fetched successfully", user);
     res.json({
       success: true,
-      data: user,
+      data: {
+        ...user,
+        avatar_url: await MediaService.resolveUrl(user.avatar_url),
+      },
     });
   } catch (error) {
     console.error("💥 Error fetching profile:", error);
@@ -568,19 +659,13 @@ router.get("/stats", authenticateToken, async (req: AuthRequest, res) => {
 
     try {
       // Get today's water intake with timeout
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const tomorrow = new Date(today);
-      tomorrow.setDate(tomorrow.getDate() + 1);
+      const today = getUserToday(await getUserTimeZone(userId));
 
       const todayWaterIntake = await Promise.race([
         prisma.waterIntake.aggregate({
           where: {
             user_id: userId,
-            date: {
-              gte: today,
-              lt: tomorrow,
-            },
+            date: today,
           },
           _sum: {
             milliliters_consumed: true,
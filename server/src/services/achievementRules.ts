@@ -0,0 +1,413 @@
+import { prisma } from "../lib/database";
+import {
+  AchievementRule,
+  AchievementRuleError,
+  RuleClause,
+} from "../types/achivements";
+import {
+  DEFAULT_TIME_ZONE,
+  getLocalTimeOfDay,
+  getUserDay,
+  isValidTimeZone,
+} from "../utils/userDay";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Intake within this share of the day's goal counts as meeting it
+const GOAL_TOLERANCE = 0.1;
+
+// What one user did on one day, from Meal, WaterIntake, DailyGoal and
+// MealCompletion
+interface DayTotals {
+  meals: number;
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fats_g: number;
+  fiber_g: number;
+  sugar_g: number;
+  first_meal_hour?: number;
+  last_meal_hour?: number;
+  water_cups: number;
+  water_ml: number;
+  planned_meals_completed: number;
+  goal?: {
+    calories: number;
+    protein_g: number;
+    carbs_g: number;
+    fats_g: number;
+    fiber_g: number;
+    water_ml: number;
+  };
+}
+
+export interface RuleContext {
+  // Keyed by YYYY-MM-DD
+  days: Map<string, DayTotals>;
+  stats: Record<UserStat, number>;
+  today: string;
+}
+
+function percent(value: number, total: number | undefined) {
+  return total ? (value / total) * 100 : undefined;
+}
+
+// Share of the day's calories coming from one macro
+function macroShare(day: DayTotals, grams: number, kcalPerGram: number) {
+  const total = day.protein_g * 4 + day.carbs_g * 4 + day.fats_g * 9;
+  return percent(grams * kcalPerGram, total);
+}
+
+function withinGoal(value: number, goal: number | undefined) {
+  return (
+    !!goal &&
+    value >= goal * (1 - GOAL_TOLERANCE) &&
+    value <= goal * (1 + GOAL_TOLERANCE)
+  );
+}
+
+/**
+ * Per-day values a rule condition can test. A metric that can't be worked out
+ * for a day (a goal percentage without a goal, an hour without meals) never
+ * satisfies a condition.
+ */
+const DAILY_METRICS: Record<string, (day: DayTotals) => number | undefined> = {
+  meals_logged: (day) => day.meals,
+  calories: (day) => day.calories,
+  protein_g: (day) => day.protein_g,
+  carbs_g: (day) => day.carbs_g,
+  fats_g: (day) => day.fats_g,
+  fiber_g: (day) => day.fiber_g,
+  sugar_g: (day) => day.sugar_g,
+  // Hour of day with minutes as a fraction, e.g. 7.5 for 07:30
+  first_meal_hour: (day) => day.first_meal_hour,
+  last_meal_hour: (day) => day.last_meal_hour,
+  protein_pct: (day) => macroShare(day, day.protein_g, 4),
+  carbs_pct: (day) => macroShare(day, day.carbs_g, 4),
+  fats_pct: (day) => macroShare(day, day.fats_g, 9),
+  water_cups: (day) => day.water_cups,
+  water_ml: (day) => day.water_ml,
+  calorie_goal_pct: (day) => percent(day.calories, day.goal?.calories),
+  protein_goal_pct: (day) => percent(day.protein_g, day.goal?.protein_g),
+  carbs_goal_pct: (day) => percent(day.carbs_g, day.goal?.carbs_g),
+  fats_goal_pct: (day) => percent(day.fats_g, day.goal?.fats_g),
+  fiber_goal_pct: (day) => percent(day.fiber_g, day.goal?.fiber_g),
+  water_goal_pct: (day) => percent(day.water_ml, day.goal?.water_ml),
+  // How many of protein, carbs and fats landed within 10% of the goal
+  macro_goals_met: (day) =>
+    day.goal
+      ? [
+          withinGoal(day.protein_g, day.goal.protein_g),
+          withinGoal(day.carbs_g, day.goal.carbs_g),
+          withinGoal(day.fats_g, day.goal.fats_g),
+        ].filter(Boolean).length
+      : undefined,
+  planned_meals_completed: (day) => day.planned_meals_completed,
+};
+
+// User counters a STAT rule can read
+const USER_STATS = [
+  "level",
+  "current_streak",
+  "best_streak",
+  "total_complete_days",
+  "total_points",
+  "ai_requests_count",
+] as const;
+
+type UserStat = (typeof USER_STATS)[number];
+
+const OPERATORS: Record<
+  RuleClause["operator"],
+  (a: number, b: number) => boolean
+> = {
+  ">=": (a, b) => a >= b,
+  ">": (a, b) => a > b,
+  "<=": (a, b) => a <= b,
+  "<": (a, b) => a < b,
+  "=": (a, b) => a === b,
+};
+
+const CLAUSE_PATTERN = /^([a-z_]+)\s*(>=|<=|>|<|=)\s*(-?\d+(?:\.\d+)?)$/;
+
+// DailyGoal.date and WaterIntake.date are plain dates, stored as UTC midnight.
+// Timestamps fall on the user's local day (getUserDay).
+function utcDayKey(date: Date) {
+  return date.toISOString().split("T")[0];
+}
+
+function dayNumber(key: string) {
+  return Math.round(Date.parse(`${key}T00:00:00Z`) / DAY_MS);
+}
+
+function emptyDay(): DayTotals {
+  return {
+    meals: 0,
+    calories: 0,
+    protein_g: 0,
+    carbs_g: 0,
+    fats_g: 0,
+    fiber_g: 0,
+    sugar_g: 0,
+    water_cups: 0,
+    water_ml: 0,
+    planned_meals_completed: 0,
+  };
+}
+
+// Runs of consecutive calendar days, oldest first
+function consecutiveRuns(keys: string[]) {
+  const runs: { end: number; length: number }[] = [];
+  for (const day of keys.map(dayNumber).sort((a, b) => a - b)) {
+    const last = runs[runs.length - 1];
+    if (last && day === last.end + 1) {
+      last.end = day;
+      last.length++;
+    } else if (!last || day !== last.end) {
+      runs.push({ end: day, length: 1 });
+    }
+  }
+  return runs;
+}
+
+/**
+ * Evaluates achievement rules stored on the Achievement rows, so achievements
+ * can be added from seed-achievements.csv or the admin panel without code
+ * changes. A rule is either a per-day condition over DAILY_METRICS combined
+ * with an aggregation, or a STAT rule reading one of USER_STATS.
+ */
+export class AchievementRuleEngine {
+  static readonly metrics = Object.keys(DAILY_METRICS);
+  static readonly stats: readonly string[] = USER_STATS;
+
+  /**
+   * Parse a condition such as "water_cups >= 8 && calorie_goal_pct <= 110"
+   */
+  static parseCondition(condition: string): RuleClause[] {
+    return condition.split("&&").map((part) => {
+      const match = part.trim().match(CLAUSE_PATTERN);
+      if (!match) {
+        throw new AchievementRuleError(
+          `Invalid condition "${part.trim()}", expected e.g. "water_cups >= 8"`
+        );
+      }
+      const [, metric, operator, value] = match;
+      if (!(metric in DAILY_METRICS)) {
+        throw new AchievementRuleError(`Unknown metric "${metric}"`);
+      }
+      return {
+        metric,
+        operator: operator as RuleClause["operator"],
+        value: Number(value),
+      };
+    });
+  }
+
+  /**
+   * Check a rule is complete and refers to known metrics before saving it
+   */
+  static validate(rule: AchievementRule) {
+    if (!rule.aggregation) return;
+
+    if (rule.aggregation === "STAT") {
+      if (!rule.stat || !USER_STATS.includes(rule.stat as UserStat)) {
+        throw new AchievementRuleError(
+          `STAT rules need a stat, one of: ${USER_STATS.join(", ")}`
+        );
+      }
+      return;
+    }
+
+    if (!rule.condition) {
+      throw new AchievementRuleError(
+        `${rule.aggregation} rules need a condition`
+      );
+    }
+    this.parseCondition(rule.condition);
+  }
+
+  /**
+   * Load what the given rules need to know about a user. Day data only goes
+   * back as far as the widest rule window.
+   */
+  static async loadContext(
+    userId: string,
+    rules: AchievementRule[]
+  ): Promise<RuleContext> {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { user_id: userId },
+      select: {
+        level: true,
+        current_streak: true,
+        best_streak: true,
+        total_complete_days: true,
+        total_points: true,
+        ai_requests_count: true,
+        timezone: true,
+      },
+    });
+    const timeZone = isValidTimeZone(user.timezone)
+      ? user.timezone
+      : DEFAULT_TIME_ZONE;
+
+    const context: RuleContext = {
+      days: new Map(),
+      stats: {
+        level: user.level || 1,
+        current_streak: user.current_streak || 0,
+        best_streak: user.best_streak || 0,
+        total_complete_days: user.total_complete_days || 0,
+        total_points: user.total_points || 0,
+        ai_requests_count: user.ai_requests_count || 0,
+      },
+      today: getUserDay(timeZone),
+    };
+
+    const dayRules = rules.filter(
+      (rule) => rule.aggregation && rule.aggregation !== "STAT"
+    );
+    if (dayRules.length === 0) return context;
+
+    const windows = dayRules.map((rule) => rule.window_days);
+    const since = windows.every((days) => days)
+      ? new Date(Date.now() - Math.max(...(windows as number[])) * DAY_MS)
+      : undefined;
+
+    const [meals, water, goals, completions] = await Promise.all([
+      prisma.meal.findMany({
+        where: {
+          user_id: userId,
+          analysis_status: "COMPLETED",
+          ...(since && { upload_time: { gte: since } }),
+        },
+        select: {
+          upload_time: true,
+          calories: true,
+          protein_g: true,
+          carbs_g: true,
+          fats_g: true,
+          fiber_g: true,
+          sugar_g: true,
+        },
+      }),
+      prisma.waterIntake.findMany({
+        where: { user_id: userId, ...(since && { date: { gte: since } }) },
+        select: { date: true, cups_consumed: true, milliliters_consumed: true },
+      }),
+      prisma.dailyGoal.findMany({
+        where: { user_id: userId, ...(since && { date: { gte: since } }) },
+        select: {
+          date: true,
+          calories: true,
+          protein_g: true,
+          carbs_g: true,
+          fats_g: true,
+          fiber_g: true,
+          water_ml: true,
+        },
+      }),
+      prisma.mealCompletion.findMany({
+        where: {
+          user_id: userId,
+          ...(since && { completed_date: { gte: since } }),
+        },
+        select: { completed_date: true },
+      }),
+    ]);
+
+    const dayFor = (key: string) => {
+      let day = context.days.get(key);
+      if (!day) {
+        day = emptyDay();
+        context.days.set(key, day);
+      }
+      return day;
+    };
+
+    for (const meal of meals) {
+      const day = dayFor(getUserDay(timeZone, meal.upload_time));
+      const hour = getLocalTimeOfDay(timeZone, meal.upload_time);
+      day.meals++;
+      day.calories += meal.calories || 0;
+      day.protein_g += meal.protein_g || 0;
+      day.carbs_g += meal.carbs_g || 0;
+      day.fats_g += meal.fats_g || 0;
+      day.fiber_g += meal.fiber_g || 0;
+      day.sugar_g += meal.sugar_g || 0;
+      day.first_meal_hour = Math.min(day.first_meal_hour ?? hour, hour);
+      day.last_meal_hour = Math.max(day.last_meal_hour ?? hour, hour);
+    }
+    for (const entry of water) {
+      const day = dayFor(utcDayKey(entry.date));
+      day.water_cups += entry.cups_consumed;
+      day.water_ml += entry.milliliters_consumed;
+    }
+    for (const { date, ...goal } of goals) {
+      dayFor(utcDayKey(date)).goal = goal;
+    }
+    for (const completion of completions) {
+      dayFor(getUserDay(timeZone, completion.completed_date))
+        .planned_meals_completed++;
+    }
+
+    return context;
+  }
+
+  /**
+   * Progress towards the rule's target, capped at max_progress. Achievements
+   * without a rule never progress on their own.
+   */
+  static evaluate(rule: AchievementRule, context: RuleContext): number {
+    const value = this.rawValue(rule, context);
+    return Math.max(0, Math.min(Math.floor(value), rule.max_progress));
+  }
+
+  private static rawValue(rule: AchievementRule, context: RuleContext) {
+    if (!rule.aggregation) return 0;
+
+    if (rule.aggregation === "STAT") {
+      return context.stats[rule.stat as UserStat] ?? 0;
+    }
+
+    if (!rule.condition) return 0;
+    const clauses = this.parseCondition(rule.condition);
+    const oldest = rule.window_days
+      ? dayNumber(context.today) - rule.window_days + 1
+      : -Infinity;
+
+    const qualifying: string[] = [];
+    for (const [key, day] of context.days) {
+      if (dayNumber(key) < oldest) continue;
+      const met = clauses.every(({ metric, operator, value }) => {
+        const actual = DAILY_METRICS[metric](day);
+        return actual !== undefined && OPERATORS[operator](actual, value);
+      });
+      if (met) qualifying.push(key);
+    }
+
+    switch (rule.aggregation) {
+      case "DAYS":
+        return qualifying.length;
+      case "CONSECUTIVE_DAYS":
+        return Math.max(
+          0,
+          ...consecutiveRuns(qualifying).map((run) => run.length)
+        );
+      case "CURRENT_STREAK": {
+        // Today still counts as open, so a streak through yesterday holds
+        const last = consecutiveRuns(qualifying).pop();
+        return last && last.end >= dayNumber(context.today) - 1
+          ? last.length
+          : 0;
+      }
+      case "WEEKENDS": {
+        const days = new Set(qualifying.map(dayNumber));
+        // Day 0 (1970-01-01) was a Thursday, so Saturdays are 2 mod 7
+        return [...days].filter(
+          (day) => (((day - 2) % 7) + 7) % 7 === 0 && days.has(day + 1)
+        ).length;
+      }
+      default:
+        return 0;
+    }
+  }
+}
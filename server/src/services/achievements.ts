@@ -1,15 +1,20 @@
+import { Prisma } from "@prisma/client";
 import { prisma } from "../lib/database";
-
-export interface UserStats {
-  currentStreak: number;
-  bestStreak: number;
-  totalCompleteDays: number;
-  level: number;
-  totalWaterGoals: number;
-  totalCalorieGoals: number;
-  totalXP: number;
-  aiRequestsCount: number;
-}
+import { PushNotificationService } from "./pushNotifications";
+import { GamificationService } from "./gamification";
+import { AchievementRuleEngine, RuleContext } from "./achievementRules";
+import {
+  AchievementInput,
+  AchievementRuleError,
+  AchievementRule,
+} from "../types/achivements";
+import {
+  addDays,
+  dayKeyToDate,
+  getDayBounds,
+  getUserDay,
+  getUserTimeZone,
+} from "../utils/userDay";
 
 export interface Achievement {
   id: string;
@@ -85,84 +90,20 @@ export class AchievementService {
     });
   }
 
-  // Calculate current progress for an achievement
+  // Calculate current progress for an achievement from its stored rule. A
+  // rule that no longer parses is skipped rather than failing every check.
   private static calculateAchievementProgress(
-    achievement: any,
-    userStats: UserStats
+    achievement: AchievementRule & { key: string },
+    context: RuleContext
   ): number {
-    switch (achievement.key) {
-      case "first_scan":
-        return Math.min(userStats.aiRequestsCount, achievement.max_progress);
-      case "first_water_goal":
-        return Math.min(userStats.totalWaterGoals, achievement.max_progress);
-      case "water_warrior":
-        return Math.min(userStats.totalWaterGoals, 10);
-      case "hydration_habit":
-        return Math.min(userStats.totalWaterGoals, 7);
-      case "aqua_master":
-        return Math.min(userStats.totalWaterGoals, 30);
-      case "water_warrior":
-        return Math.min(userStats.totalWaterGoals, 10);
-      case "hydration_habit":
-        return Math.min(userStats.totalWaterGoals, 7);
-      case "aqua_master":
-        return Math.min(userStats.totalWaterGoals, 30);
-      case "first_complete_day":
-        return Math.min(userStats.totalCompleteDays, 1);
-      case "total_5_days":
-        return Math.min(userStats.totalCompleteDays, 5);
-      case "total_10_days":
-        return Math.min(userStats.totalCompleteDays, 10);
-      case "total_25_days":
-        return Math.min(userStats.totalCompleteDays, 25);
-      case "total_50_days":
-        return Math.min(userStats.totalCompleteDays, 50);
-      case "total_100_days":
-        return Math.min(userStats.totalCompleteDays, 100);
-      case "total_5_days":
-        return Math.min(userStats.totalCompleteDays, 5);
-      case "total_10_days":
-        return Math.min(userStats.totalCompleteDays, 10);
-      case "total_25_days":
-        return Math.min(userStats.totalCompleteDays, 25);
-      case "total_50_days":
-        return Math.min(userStats.totalCompleteDays, 50);
-      case "total_100_days":
-        return Math.min(userStats.totalCompleteDays, 100);
-      case "streak_3_days":
-        return Math.min(userStats.currentStreak, 3);
-      case "streak_7_days":
-        return Math.min(userStats.currentStreak, 7);
-      case "streak_14_days":
-        return Math.min(userStats.currentStreak, 14);
-      case "streak_30_days":
-        return Math.min(userStats.currentStreak, 30);
-      case "streak_100_days":
-        return Math.min(userStats.currentStreak, 100);
-      case "level_5":
-        return Math.min(userStats.level, 5);
-      case "level_10":
-        return Math.min(userStats.level, 10);
-      case "level_25":
-        return Math.min(userStats.level, 25);
-      case "level_50":
-        return Math.min(userStats.level, 50);
-      case "streak_14_days":
-        return Math.min(userStats.currentStreak, 14);
-      case "streak_30_days":
-        return Math.min(userStats.currentStreak, 30);
-      case "streak_100_days":
-        return Math.min(userStats.currentStreak, 100);
-      case "level_5":
-        return Math.min(userStats.level, 5);
-      case "level_10":
-        return Math.min(userStats.level, 10);
-      case "level_25":
-        return Math.min(userStats.level, 25);
-      case "level_50":
-        return Math.min(userStats.level, 50);
-      default:
-        return 0;
+    try {
+      return AchievementRuleEngine.evaluate(achievement, context);
+    } catch (error) {
+      console.error(
+        `⚠️ Invalid rule on achievement ${achievement.key}:`,
+        error instanceof Error ? error.message : error
+      );
+      return 0;
     }
   }
 
@@ -175,53 +116,6 @@ export class AchievementService {
     try {
       console.log("🏆 Checking achievements for user:", userId);
 
-      // Get user stats
-      const user = await prisma.user.findUnique({
-        where: { user_id: userId },
-        select: {
-          current_streak: true,
-          best_streak: true,
-          total_complete_days: true,
-          level: true,
-          current_xp: true,
-          total_points: true,
-          ai_requests_count: true,
-        },
-      });
-
-      if (!user) {
-        throw new Error("User not found");
-      }
-
-      // Get water intake count
-      const waterIntakeCount = await prisma.waterIntake.count({
-        where: {
-          user_id: userId,
-          cups_consumed: { gte: 8 },
-        },
-      });
-
-      // Get calorie goal completions
-      const mealDays = await prisma.meal.groupBy({
-        by: ["upload_time"],
-        where: { user_id: userId },
-        _sum: { calories: true },
-        having: {
-          calories: { _sum: { gte: 1800 } },
-        },
-      });
-
-      const userStats: UserStats = {
-        currentStreak: user.current_streak || 0,
-        bestStreak: user.best_streak || 0,
-        totalCompleteDays: user.total_complete_days || 0,
-        level: user.level || 1,
-        totalWaterGoals: waterIntakeCount,
-        totalCalorieGoals: mealDays.length,
-        totalXP: user.total_points || 0,
-        aiRequestsCount: user.ai_requests_count || 0,
-      };
-
       // Get existing achievements
       const existingAchievements = await prisma.userAchievement.findMany({
         where: { user_id: userId, unlocked: true },
@@ -231,42 +125,79 @@ export class AchievementService {
       const existingIds = existingAchievements.map((a) => a.achievement_id);
       const newAchievements: Achievement[] = [];
       let totalXPGained = 0;
+      let previousLevel: number | undefined;
+      let newLevel: number | undefined;
 
       // Fetch all active achievements from the database
-      const activeAchievements = await this.getAllAchievements();
+      const pendingAchievements = (await this.getAllAchievements()).filter(
+        (achievement) => !existingIds.includes(achievement.id)
+      );
+      const context = await AchievementRuleEngine.loadContext(
+        userId,
+        pendingAchievements
+      );
 
       // Check each achievement
-      for (const achievement of activeAchievements) {
-        if (existingIds.includes(achievement.id)) continue;
-
+      for (const achievement of pendingAchievements) {
         const currentProgress = this.calculateAchievementProgress(
           achievement,
-          userStats
+          context
         );
         const shouldUnlock = currentProgress >= achievement.max_progress;
 
         if (shouldUnlock) {
-          // Award achievement to user
-          await prisma.userAchievement.upsert({
-            where: {
-              user_id_achievement_id: {
-                user_id: userId,
-                achievement_id: achievement.id,
-              },
-            },
-            update: {
-              unlocked: true,
-              unlocked_date: new Date(),
-              progress: achievement.max_progress,
-            },
-            create: {
-              user_id: userId,
-              achievement_id: achievement.id,
-              progress: achievement.max_progress,
-              unlocked: true,
-              unlocked_date: new Date(),
-            },
-          });
+          // The unlock and its XP are recorded together. Only a row that is
+          // still locked is claimed, so a check running at the same time
+          // can't award the XP twice.
+          let award;
+          try {
+            award = await prisma.$transaction(async (tx) => {
+              const claimed = await tx.userAchievement.updateMany({
+                where: {
+                  user_id: userId,
+                  achievement_id: achievement.id,
+                  unlocked: false,
+                },
+                data: {
+                  unlocked: true,
+                  unlocked_date: new Date(),
+                  progress: achievement.max_progress,
+                },
+              });
+              if (claimed.count === 0) {
+                await tx.userAchievement.create({
+                  data: {
+                    user_id: userId,
+                    achievement_id: achievement.id,
+                    progress: achievement.max_progress,
+                    unlocked: true,
+                    unlocked_date: new Date(),
+                  },
+                });
+              }
+
+              return GamificationService.awardXp(
+                userId,
+                achievement.points_awarded,
+                "ACHIEVEMENT",
+                {
+                  achievementId: achievement.id,
+                  description: achievement.title,
+                },
+                tx
+              );
+            });
+          } catch (error) {
+            if (
+              error instanceof Prisma.PrismaClientKnownRequestError &&
+              error.code === "P2002"
+            ) {
+              continue;
+            }
+            throw error;
+          }
+          previousLevel ??= award.previousLevel;
+          newLevel = award.newLevel;
 
           newAchievements.push({
             id: achievement.id,
@@ -299,40 +230,19 @@ export class AchievementService {
         }
       }
 
-      // Update user XP and level with proper level-up detection
-      let leveledUp = false;
-      let newLevel = user.level || 1;
-      let previousLevel = user.level || 1;
-
-      if (totalXPGained > 0) {
-        const newTotalPoints = (user.total_points || 0) + totalXPGained;
-        const newCurrentXP = (user.current_xp || 0) + totalXPGained;
-
-        // Calculate new level (100 XP per level)
-        const calculatedLevel = Math.floor(newTotalPoints / 100) + 1;
-
-        // Only mark as leveled up if level actually increases
-        if (calculatedLevel > previousLevel) {
-          leveledUp = true;
-          newLevel = calculatedLevel;
-          console.log(
-            `🎉 User leveled up from ${previousLevel} to ${newLevel}!`
-          );
-        }
-
-        const finalCurrentXP = newCurrentXP % 100;
-
-        await prisma.user.update({
-          where: { user_id: userId },
-          data: {
-            total_points: newTotalPoints,
-            current_xp: finalCurrentXP,
-            level: newLevel,
-          },
-        });
+      const leveledUp =
+        newLevel !== undefined && newLevel > (previousLevel ?? newLevel);
+      if (leveledUp) {
+        console.log(`🎉 User leveled up from ${previousLevel} to ${newLevel}!`);
+      }
 
-        console.log(
-          `✅ Updated user XP: +${totalXPGained} XP, Level: ${newLevel}/${previousLevel}, Current XP: ${finalCurrentXP}/100`
+      if (newAchievements.length > 0) {
+        // Delivery is best-effort and must not hold up the response
+        PushNotificationService.notifyAchievementsUnlocked(
+          userId,
+          newAchievements
+        ).catch((pushError) =>
+          console.error("⚠️ Achievement notification failed:", pushError)
         );
       }
 
@@ -363,13 +273,10 @@ export class AchievementService {
       const user = await prisma.user.findUnique({
         where: { user_id: userId },
         select: {
-          level: true,
-          current_xp: true,
           total_points: true,
           current_streak: true,
           best_streak: true,
           total_complete_days: true,
-          ai_requests_count: true,
         },
       });
 
@@ -377,34 +284,6 @@ export class AchievementService {
         throw new Error("User not found");
       }
 
-      // Get current user progress for achievements
-      const waterIntakeCount = await prisma.waterIntake.count({
-        where: {
-          user_id: userId,
-          cups_consumed: { gte: 8 },
-        },
-      });
-
-      const mealDays = await prisma.meal.groupBy({
-        by: ["created_at"],
-        where: { user_id: userId },
-        _sum: { calories: true },
-        having: {
-          calories: { _sum: { gte: 1800 } },
-        },
-      });
-
-      const userStats: UserStats = {
-        currentStreak: user.current_streak || 0,
-        bestStreak: user.best_streak || 0,
-        totalCompleteDays: user.total_complete_days || 0,
-        level: user.level || 1,
-        totalWaterGoals: waterIntakeCount,
-        totalCalorieGoals: mealDays.length,
-        totalXP: user.total_points || 0,
-        aiRequestsCount: user.ai_requests_count || 0,
-      };
-
       const userAchievements = await prisma.userAchievement.findMany({
         where: { user_id: userId },
         include: { achievement: true },
@@ -416,6 +295,12 @@ export class AchievementService {
 
       // Fetch all active achievements from the database
       const allAchievements = await this.getAllAchievements();
+      const context = await AchievementRuleEngine.loadContext(
+        userId,
+        allAchievements.filter(
+          (achievement) => !unlockedIds.includes(achievement.id)
+        )
+      );
 
       const unlockedAchievements: Achievement[] = allAchievements
         .filter((achievement) => unlockedIds.includes(achievement.id))
@@ -447,7 +332,7 @@ export class AchievementService {
             progress: achievement.max_progress,
             maxProgress: achievement.max_progress,
             unlocked: true,
-            unlockedDate: userAchievement?.unlocked_date,
+            unlockedDate: userAchievement?.unlocked_date ?? undefined,
           };
         });
 
@@ -456,7 +341,7 @@ export class AchievementService {
         .map((achievement) => {
           const currentProgress = this.calculateAchievementProgress(
             achievement,
-            userStats
+            context
           );
           return {
             id: achievement.id,
@@ -489,14 +374,10 @@ export class AchievementService {
         unlockedAchievements,
         lockedAchievements,
         userStats: {
-          level: user?.level || 1,
-          currentXP: user?.current_xp || 0,
-          totalPoints: user?.total_points || 0,
-          currentStreak: user?.current_streak || 0,
-          bestStreak: user?.best_streak || 0,
-          totalCompleteDays: user?.total_complete_days || 0,
-          xpToNextLevel: 100 - (user?.current_xp || 0),
-          xpProgress: ((user?.current_xp || 0) / 100) * 100,
+          ...GamificationService.levelProgress(user.total_points || 0),
+          currentStreak: user.current_streak || 0,
+          bestStreak: user.best_streak || 0,
+          totalCompleteDays: user.total_complete_days || 0,
         },
       };
     } catch (error) {
@@ -505,34 +386,77 @@ export class AchievementService {
         unlockedAchievements: [],
         lockedAchievements: [],
         userStats: {
-          level: 1,
-          currentXP: 0,
-          totalPoints: 0,
+          ...GamificationService.levelProgress(0),
           currentStreak: 0,
           bestStreak: 0,
           totalCompleteDays: 0,
-          xpToNextLevel: 100,
-          xpProgress: 0,
         },
       };
     }
   }
 
+  // Achievement definitions with their rules, for the admin panel
+  static async listDefinitions() {
+    return prisma.achievement.findMany({
+      orderBy: [{ category: "asc" }, { max_progress: "asc" }],
+      include: {
+        _count: { select: { UserAchievements: { where: { unlocked: true } } } },
+      },
+    });
+  }
+
+  static async createDefinition(input: AchievementInput) {
+    AchievementRuleEngine.validate(input);
+
+    const existing = await prisma.achievement.findUnique({
+      where: { key: input.key },
+      select: { id: true },
+    });
+    if (existing) {
+      throw new AchievementRuleError(
+        `An achievement with key "${input.key}" already exists`,
+        409
+      );
+    }
+
+    return prisma.achievement.create({ data: input });
+  }
+
+  static async updateDefinition(id: string, input: Partial<AchievementInput>) {
+    const existing = await prisma.achievement.findUnique({ where: { id } });
+    if (!existing) {
+      throw new AchievementRuleError("Achievement not found", 404);
+    }
+    AchievementRuleEngine.validate({ ...existing, ...input });
+
+    if (input.key && input.key !== existing.key) {
+      const clash = await prisma.achievement.findUnique({
+        where: { key: input.key },
+        select: { id: true },
+      });
+      if (clash) {
+        throw new AchievementRuleError(
+          `An achievement with key "${input.key}" already exists`,
+          409
+        );
+      }
+    }
+
+    return prisma.achievement.update({ where: { id }, data: input });
+  }
+
   // Helper function to check if yesterday was a completed day
   private static async wasYesterDayComplete(
     userId: string,
-    date: Date
+    timeZone: string,
+    yesterday: string
   ): Promise<boolean> {
-    const yesterday = new Date(date);
-    yesterday.setHours(0, 0, 0, 0);
+    const { start, end } = getDayBounds(timeZone, yesterday);
 
     const completedMeals = await prisma.meal.count({
       where: {
         user_id: userId,
-        upload_time: {
-          gte: yesterday,
-          lt: new Date(yesterday.getTime() + 24 * 60 * 60 * 1000),
-        },
+        upload_time: { gte: start, lt: end },
         calories: { gte: 1800 },
       },
     });
@@ -540,10 +464,7 @@ export class AchievementService {
     const completedWaterIntake = await prisma.waterIntake.count({
       where: {
         user_id: userId,
-        date: {
-          gte: yesterday,
-          lt: new Date(yesterday.getTime() + 24 * 60 * 60 * 1000),
-        },
+        date: dayKeyToDate(yesterday),
         cups_consumed: { gte: 8 },
       },
     });
@@ -581,13 +502,11 @@ export class AchievementService {
         });
 
         if (user) {
-          const today = new Date();
-          const yesterday = new Date(today);
-          yesterday.setDate(yesterday.getDate() - 1);
-
+          const timeZone = await getUserTimeZone(userId);
           const yesterdayComplete = await this.wasYesterDayComplete(
             userId,
-            yesterday
+            timeZone,
+            addDays(getUserDay(timeZone), -1)
           );
           const newStreak = yesterdayComplete
             ? (user.current_streak || 0) + 1
@@ -0,0 +1,216 @@
+import {
+  ConnectedDevice,
+  DailyActivitySummary,
+  DeviceType,
+} from "@prisma/client";
+import { prisma } from "../lib/database";
+import {
+  ACTIVITY_METRICS,
+  ActivityMetric,
+  MergedDailyActivity,
+} from "../types/devices";
+
+type SummaryWithDevice = DailyActivitySummary & { device: ConnectedDevice };
+type SummaryColumn = Exclude<keyof MergedDailyActivity, "date" | "sources">;
+
+// Columns that travel together: BMR stays with the calories it was reported
+// alongside, and heart rate average and max come from the same device
+const METRIC_COLUMNS: Record<ActivityMetric, SummaryColumn[]> = {
+  steps: ["steps"],
+  calories_burned: ["calories_burned", "bmr_estimate"],
+  active_minutes: ["active_minutes"],
+  distance_km: ["distance_km"],
+  heart_rate: ["heart_rate_avg", "heart_rate_max"],
+  sleep_hours: ["sleep_hours"],
+  weight_kg: ["weight_kg"],
+  body_fat_percentage: ["body_fat_percentage"],
+};
+
+// Counters default to 0 when a device pushes a partial day, so 0 means "not
+// reported" for them
+const COUNTER_METRICS: ActivityMetric[] = [
+  "steps",
+  "calories_burned",
+  "active_minutes",
+  "distance_km",
+];
+
+const WEARABLES: DeviceType[] = [
+  "GARMIN",
+  "FITBIT",
+  "POLAR",
+  "SUUNTO",
+  "WHOOP",
+  "OURA",
+  "AMAZFIT",
+  "SAMSUNG_HEALTH",
+  "HUAWEI_HEALTH",
+  "APPLE_HEALTH",
+  "GOOGLE_FIT",
+];
+
+// Used when the user has no preference and no primary device reports the metric
+export const DEFAULT_SOURCE_PRIORITY: Record<ActivityMetric, DeviceType[]> = {
+  steps: WEARABLES,
+  calories_burned: WEARABLES,
+  active_minutes: WEARABLES,
+  distance_km: WEARABLES,
+  heart_rate: ["POLAR", "GARMIN", "WHOOP", "OURA", ...WEARABLES],
+  sleep_hours: ["OURA", "WHOOP", "FITBIT", "GARMIN", "WITHINGS", ...WEARABLES],
+  weight_kg: ["WITHINGS", "FITBIT", "GARMIN", ...WEARABLES],
+  body_fat_percentage: ["WITHINGS", "FITBIT", "GARMIN", ...WEARABLES],
+};
+
+/**
+ * Merges per-device DailyActivitySummary rows into one value per metric per
+ * day. A metric comes from the first device in this order that reported it:
+ * the user's priority for that metric, the primary device, the default
+ * priority above, then the most recently synced row.
+ */
+export class ActivityTimelineService {
+  static async getPriorities(
+    userId: string
+  ): Promise<Record<ActivityMetric, DeviceType[]>> {
+    const saved = await prisma.activitySourcePriority.findMany({
+      where: { user_id: userId },
+    });
+
+    const priorities = {} as Record<ActivityMetric, DeviceType[]>;
+    for (const metric of ACTIVITY_METRICS) {
+      priorities[metric] =
+        saved.find((priority) => priority.metric === metric)?.device_types ||
+        [];
+    }
+    return priorities;
+  }
+
+  /**
+   * Replace the priority of the given metrics; an empty list goes back to the
+   * defaults
+   */
+  static async setPriorities(
+    userId: string,
+    changes: Partial<Record<ActivityMetric, DeviceType[]>>
+  ) {
+    await prisma.$transaction(
+      Object.entries(changes).map(([metric, deviceTypes]) =>
+        deviceTypes && deviceTypes.length > 0
+          ? prisma.activitySourcePriority.upsert({
+              where: { user_id_metric: { user_id: userId, metric } },
+              update: { device_types: Array.from(new Set(deviceTypes)) },
+              create: {
+                user_id: userId,
+                metric,
+                device_types: Array.from(new Set(deviceTypes)),
+              },
+            })
+          : prisma.activitySourcePriority.deleteMany({
+              where: { user_id: userId, metric },
+            })
+      )
+    );
+
+    return this.getPriorities(userId);
+  }
+
+  /**
+   * Merged days between two YYYY-MM-DD dates, newest first
+   */
+  static async getTimeline(
+    userId: string,
+    startDate: string,
+    endDate: string
+  ): Promise<MergedDailyActivity[]> {
+    const [rows, priorities] = await Promise.all([
+      prisma.dailyActivitySummary.findMany({
+        where: {
+          user_id: userId,
+          date: { gte: new Date(startDate), lte: new Date(endDate) },
+        },
+        include: { device: true },
+      }),
+      this.getPriorities(userId),
+    ]);
+
+    const byDate = new Map<string, SummaryWithDevice[]>();
+    for (const row of rows) {
+      const date = row.date.toISOString().split("T")[0];
+      byDate.set(date, [...(byDate.get(date) || []), row]);
+    }
+
+    return Array.from(byDate.entries())
+      .map(([date, dayRows]) => this.mergeDay(date, dayRows, priorities))
+      .sort((a, b) => b.date.localeCompare(a.date));
+  }
+
+  static async getMergedDay(
+    userId: string,
+    date: string
+  ): Promise<MergedDailyActivity | null> {
+    const [day] = await this.getTimeline(userId, date, date);
+    return day || null;
+  }
+
+  private static mergeDay(
+    date: string,
+    rows: SummaryWithDevice[],
+    priorities: Record<ActivityMetric, DeviceType[]>
+  ): MergedDailyActivity {
+    const merged: MergedDailyActivity = {
+      date,
+      steps: null,
+      calories_burned: null,
+      bmr_estimate: null,
+      active_minutes: null,
+      distance_km: null,
+      heart_rate_avg: null,
+      heart_rate_max: null,
+      sleep_hours: null,
+      weight_kg: null,
+      body_fat_percentage: null,
+      sources: {},
+    };
+
+    for (const metric of ACTIVITY_METRICS) {
+      const [leadColumn] = METRIC_COLUMNS[metric];
+      const reported = rows.filter((row) => {
+        const value = row[leadColumn];
+        return (
+          value !== null && !(COUNTER_METRICS.includes(metric) && value === 0)
+        );
+      });
+      if (reported.length === 0) continue;
+
+      const rank = (row: SummaryWithDevice) => {
+        const userRank = priorities[metric].indexOf(row.device.device_type);
+        const defaultRank = DEFAULT_SOURCE_PRIORITY[metric].indexOf(
+          row.device.device_type
+        );
+        return [
+          userRank === -1 ? Infinity : userRank,
+          row.device.is_primary_device ? 0 : 1,
+          defaultRank === -1 ? Infinity : defaultRank,
+          -row.sync_timestamp.getTime(),
+        ];
+      };
+      const compare = (a: SummaryWithDevice, b: SummaryWithDevice) => {
+        const rankA = rank(a);
+        const rankB = rank(b);
+        const index = rankA.findIndex((value, i) => value !== rankB[i]);
+        return index === -1 ? 0 : rankA[index] < rankB[index] ? -1 : 1;
+      };
+
+      const winner = [...reported].sort(compare)[0];
+      for (const column of METRIC_COLUMNS[metric]) {
+        merged[column] = winner[column];
+      }
+      merged.sources[metric] = {
+        device_id: winner.device.connected_device_id,
+        device_type: winner.device.device_type,
+        device_name: winner.device.device_name,
+      };
+    }
+
+    return merged;
+  }
+}
@@ -1,6 +1,12 @@
 import { OpenAIService } from "./openai";
 import { prisma } from "../lib/database";
 import { StatisticsService } from "./statistics";
+import {
+  addDays,
+  getDayBounds,
+  getUserDay,
+  getUserTimeZone,
+} from "../utils/userDay";
 
 export interface DailyRecommendation {
   id: string;
@@ -36,16 +42,12 @@ export class AIRecommendationService {
         "week"
       );
 
-      // Get yesterday's performance specifically
-      const yesterday = new Date();
-      yesterday.setDate(yesterday.getDate() - 1);
-      const yesterdayStart = new Date(
-        yesterday.getFullYear(),
-        yesterday.getMonth(),
-        yesterday.getDate()
+      // Get yesterday's performance specifically, in the user's timezone
+      const timeZone = await getUserTimeZone(userId);
+      const { start: yesterdayStart, end: yesterdayEnd } = getDayBounds(
+        timeZone,
+        addDays(getUserDay(timeZone), -1)
       );
-      const yesterdayEnd = new Date(yesterdayStart);
-      yesterdayEnd.setDate(yesterdayEnd.getDate() + 1);
 
       const yesterdayStats = await StatisticsService.getPeriodConsumption(
         userId,
@@ -158,7 +160,7 @@ Be specific, actionable, and encouraging. Focus on realistic improvements.
     recommendations: any
   ): Promise<DailyRecommendation> {
     try {
-      const today = new Date().toISOString().split("T")[0];
+      const today = getUserDay(await getUserTimeZone(userId));
 
       // Check if recommendations already exist for today
       const existing = await prisma.aiRecommendation.findFirst({
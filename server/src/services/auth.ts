@@ -1,13 +1,36 @@
 import bcrypt from "bcryptjs";
 import jwt from "jsonwebtoken";
 import crypto from "crypto";
+import { IdentityProvider, Prisma } from "@prisma/client";
 import { prisma } from "../lib/database";
-import { SignUpInput, SignInInput } from "../types/auth";
+import {
+  SignUpInput,
+  SignInInput,
+  SessionContext,
+  SessionError,
+  SessionTokens,
+  IdentityError,
+  IdentityProviderName,
+  IdentitySignInInput,
+  VerifiedIdentity,
+  TwoFactorChallenge,
+  TwoFactorError,
+} from "../types/auth";
+import { getPlanLimits } from "../config/planLimits";
+import { getIdentityVerifier } from "./identity";
+import { TwoFactorService } from "./twoFactor";
+import { LoginThrottleService } from "./loginThrottle";
+import { SecurityEventService } from "./securityEvents";
 
 const JWT_SECRET = process.env.JWT_SECRET!;
-const JWT_EXPIRES_IN = "7d";
-const SESSION_EXPIRES_DAYS = 7;
+const ACCESS_TOKEN_EXPIRES_SECONDS = 15 * 60;
+// Refresh token lifetime; every refresh pushes it out again
+const SESSION_EXPIRES_DAYS = 30;
 const PASSWORD_RESET_EXPIRES = "15m";
+// Only write last_seen_at once in a while, not on every request
+const LAST_SEEN_UPDATE_MS = 5 * 60 * 1000;
+// Time to enter the second factor after the password
+const TWO_FACTOR_CHALLENGE_EXPIRES_SECONDS = 5 * 60;
 
 const userSelectFields = {
   user_id: true,
@@ -16,13 +39,14 @@ const userSelectFields = {
   avatar_url: true,
   subscription_type: true,
   birth_date: true,
+  timezone: true,
   ai_requests_count: true,
   ai_requests_reset_at: true,
   created_at: true,
   email_verified: true,
   is_questionnaire_completed: true,
-  is_admin: true,
-  is_super_admin: true,
+  roles: { select: { role: true } },
+  totp_enabled: true,
   level: true,
   total_points: true,
   current_xp: true,
@@ -35,7 +59,11 @@ const userSelectFields = {
   signup_date: true,
   subscription_start: true,
   subscription_end: true,
-};
+} satisfies Prisma.UserSelect;
+
+export type AuthUser = Prisma.UserGetPayload<{
+  select: typeof userSelectFields;
+}>;
 
 function generatePasswordResetToken(email: string) {
   return jwt.sign(
@@ -67,8 +95,38 @@ function verifyPasswordResetToken(token: string) {
   }
 }
 
-function generateToken(payload: object) {
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: JWT_EXPIRES_IN });
+function generateAccessToken(
+  user: { user_id: string; email: string },
+  sessionId: string
+) {
+  return jwt.sign(
+    {
+      user_id: user.user_id,
+      email: user.email,
+      session_id: sessionId,
+      type: "access",
+    },
+    JWT_SECRET,
+    { expiresIn: ACCESS_TOKEN_EXPIRES_SECONDS }
+  );
+}
+
+// Refresh tokens are "<session_id>.<secret>"; only a hash of the whole token
+// is stored
+function generateRefreshToken(sessionId: string) {
+  return `${sessionId}.${crypto.randomBytes(32).toString("base64url")}`;
+}
+
+function hashRefreshToken(refreshToken: string) {
+  return crypto.createHash("sha256").update(refreshToken).digest("hex");
+}
+
+function truncate(value: string | undefined, length: number) {
+  return value ? value.substring(0, length) : null;
+}
+
+function toIdentityProvider(provider: IdentityProviderName) {
+  return provider.toUpperCase() as IdentityProvider;
 }
 
 function getSessionExpiryDate() {
@@ -79,7 +137,7 @@ function getSessionExpiryDate() {
 
 export class AuthService {
   static async signUp(data: SignUpInput) {
-    const { email, name, password, birth_date } = data;
+    const { email, name, password, birth_date, timezone } = data;
 
     const existingUser = await prisma.user.findFirst({
       where: { email },
@@ -132,6 +190,7 @@ export class AuthService {
         password_hash: hashedPassword,
         subscription_type: "FREE",
         birth_date: new Date(),
+        timezone,
         ai_requests_count: 0,
         ai_requests_reset_at: new Date(),
         email_verified: false,
@@ -392,7 +451,11 @@ export class AuthService {
     }
   }
 
-  static async verifyEmail(email: string, code: string) {
+  static async verifyEmail(
+    email: string,
+    code: string,
+    context: SessionContext = {}
+  ) {
     console.log(`🔒 Verifying email ${email} with code ${code}`);
 
     const user = await prisma.user.findUnique({
@@ -458,52 +521,492 @@ export class AuthService {
 
     console.log("✅ User updated with gamification defaults:", updatedUser);
 
-    const token = generateToken({
-      user_id: updatedUser.user_id,
-      email: updatedUser.email,
+    return this.startSession(updatedUser, context, "email_verification");
+  }
+
+  static async signIn(data: SignInInput, context: SessionContext = {}) {
+    const { email, password } = data;
+    const subject = { email, ip_address: context.ip_address };
+    await LoginThrottleService.assertNotLocked("signin", subject);
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      include: { roles: { select: { role: true } } },
+    });
+    if (!user) {
+      await SecurityEventService.recordFailedAttempt("signin", subject, {
+        type: "SIGN_IN_FAILED",
+        email,
+        context,
+        metadata: { reason: "unknown_email" },
+      });
+      throw new Error("Invalid email or password");
+    }
+
+    if (!user.password_hash) {
+      throw new Error(
+        "This account signs in with Google or Apple. Continue with one of them, or reset your password to add one."
+      );
+    }
+
+    const isValid = await bcrypt.compare(password, user.password_hash);
+    if (!isValid) {
+      await SecurityEventService.recordFailedAttempt("signin", subject, {
+        type: "SIGN_IN_FAILED",
+        user_id: user.user_id,
+        email: user.email,
+        context,
+        metadata: { reason: "wrong_password" },
+      });
+      throw new Error("Invalid email or password");
+    }
+
+    const {
+      password_hash: _,
+      totp_secret: _totpSecret,
+      ...userWithoutSecrets
+    } = user;
+    return this.startSession(userWithoutSecrets, context, "password");
+  }
+
+  /**
+   * Finish signing in: open a session, or hand back a two-factor challenge
+   * when the account has 2FA on
+   */
+  private static async startSession<
+    T extends {
+      user_id: string;
+      email: string;
+      name: string | null;
+      totp_enabled: boolean;
+    },
+  >(
+    user: T,
+    context: SessionContext,
+    method: string
+  ): Promise<TwoFactorChallenge | ({ user: T } & SessionTokens)> {
+    if (user.totp_enabled) {
+      const challengeToken = jwt.sign(
+        { user_id: user.user_id, type: "two_factor", method },
+        JWT_SECRET,
+        {
+          expiresIn: TWO_FACTOR_CHALLENGE_EXPIRES_SECONDS,
+          jwtid: crypto.randomUUID(),
+        }
+      );
+      return {
+        two_factor_required: true,
+        challenge_token: challengeToken,
+        expires_in: TWO_FACTOR_CHALLENGE_EXPIRES_SECONDS,
+      };
+    }
+
+    const tokens = await this.completeSignIn(user, context, method);
+    return { user, ...tokens };
+  }
+
+  /**
+   * Open the session once every sign-in step has passed, clear the account's
+   * failed attempts and log the sign-in
+   */
+  private static async completeSignIn(
+    user: { user_id: string; email: string; name: string | null },
+    context: SessionContext,
+    method: string,
+    twoFactorVerified = false
+  ) {
+    const tokens = await this.createSession(user, context, twoFactorVerified);
+    await LoginThrottleService.reset("signin", user.email);
+    await SecurityEventService.recordSignIn(user, context, method).catch(
+      (error) => console.error("💥 Failed to log sign-in:", error)
+    );
+    return tokens;
+  }
+
+  /**
+   * Second sign-in step: trade a challenge and an authenticator or recovery
+   * code for a session
+   */
+  static async verifyTwoFactorChallenge(
+    challengeToken: string,
+    code: string,
+    context: SessionContext = {}
+  ) {
+    let challenge: {
+      user_id: string;
+      type: string;
+      method?: string;
+      jti?: string;
+      exp: number;
+    };
+    try {
+      challenge = jwt.verify(challengeToken, JWT_SECRET) as typeof challenge;
+    } catch {
+      throw new TwoFactorError("Sign-in expired, please sign in again", 401);
+    }
+    if (challenge.type !== "two_factor" || !challenge.jti) {
+      throw new TwoFactorError("Invalid sign-in challenge", 401);
+    }
+
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { user_id: challenge.user_id },
+      select: userSelectFields,
+    });
+    // Wrong codes count against the account like wrong passwords, so guesses
+    // are capped by the sign-in lockout whichever challenge they come with.
+    // Codes themselves are single use, so a replayed challenge gains nothing.
+    const subject = { email: user.email, ip_address: context.ip_address };
+    await LoginThrottleService.assertNotLocked("signin", subject);
+
+    const valid = await TwoFactorService.verifyCode(challenge.user_id, code);
+    if (!valid) {
+      console.warn(`⚠️ Invalid two-factor code for ${challenge.user_id}`);
+      await SecurityEventService.recordFailedAttempt("signin", subject, {
+        type: "TWO_FACTOR_FAILED",
+        user_id: user.user_id,
+        email: user.email,
+        context,
+      });
+      throw new TwoFactorError("Invalid verification code");
+    }
+
+    const tokens = await this.completeSignIn(
+      user,
+      context,
+      challenge.method || "password",
+      true
+    );
+    return { user, ...tokens };
+  }
+
+  /**
+   * Sign in with a Google or Apple ID token. A known identity signs in its
+   * user; otherwise the identity is linked to the account with the same
+   * verified email, or a new passwordless account is created.
+   */
+  static async signInWithIdentity(
+    provider: IdentityProviderName,
+    input: IdentitySignInInput,
+    context: SessionContext = {}
+  ) {
+    const identity = await getIdentityVerifier(provider).verify(
+      input.id_token,
+      input.nonce
+    );
+
+    const existing = await prisma.userIdentity.findUnique({
+      where: {
+        provider_subject: {
+          provider: toIdentityProvider(provider),
+          subject: identity.subject,
+        },
+      },
+      include: { user: { select: userSelectFields } },
+    });
+
+    if (existing) {
+      await prisma.userIdentity.update({
+        where: { identity_id: existing.identity_id },
+        data: {
+          last_used_at: new Date(),
+          ...(identity.email && { email: identity.email }),
+        },
+      });
+
+      return {
+        ...(await this.startSession(existing.user, context, provider)),
+        is_new_user: false,
+      };
+    }
+
+    if (!identity.email || !identity.email_verified) {
+      throw new IdentityError(
+        "Your account has no verified email address to sign in with",
+        400
+      );
+    }
+
+    const user = await prisma.user.findFirst({
+      where: { email: { equals: identity.email, mode: "insensitive" } },
+      select: { user_id: true },
     });
 
-    await prisma.session.create({
+    if (user) {
+      const linkedUser = await this.linkVerifiedIdentity(
+        user.user_id,
+        identity
+      );
+      console.log(`🔗 Linked ${provider} sign-in to ${linkedUser.email}`);
+
+      return {
+        ...(await this.startSession(linkedUser, context, provider)),
+        is_new_user: false,
+      };
+    }
+
+    const newUser = await prisma.user.create({
       data: {
-        user_id: updatedUser.user_id,
-        token,
-        expiresAt: getSessionExpiryDate(),
+        email: identity.email,
+        name: input.name || identity.name || identity.email.split("@")[0],
+        subscription_type: "FREE",
+        birth_date: new Date(),
+        ai_requests_count: 0,
+        ai_requests_reset_at: new Date(),
+        email_verified: true,
+        identities: {
+          create: {
+            provider: toIdentityProvider(provider),
+            subject: identity.subject,
+            email: identity.email,
+          },
+        },
       },
+      select: userSelectFields,
     });
 
-    console.log(`✅ Session created for user: ${email}`);
+    console.log(`✅ Created user ${newUser.email} from ${provider} sign-in`);
 
-    return { user: updatedUser, token };
+    return {
+      ...(await this.startSession(newUser, context, provider)),
+      is_new_user: true,
+    };
   }
 
-  static async signIn(data: SignInInput) {
-    const { email, password } = data;
+  /**
+   * Link a Google or Apple account to a signed-in user
+   */
+  static async linkIdentity(
+    userId: string,
+    provider: IdentityProviderName,
+    input: IdentitySignInInput
+  ) {
+    const identity = await getIdentityVerifier(provider).verify(
+      input.id_token,
+      input.nonce
+    );
+
+    const existing = await prisma.userIdentity.findUnique({
+      where: {
+        provider_subject: {
+          provider: toIdentityProvider(provider),
+          subject: identity.subject,
+        },
+      },
+    });
+    if (existing) {
+      if (existing.user_id === userId) return;
+      throw new IdentityError(
+        "This account is already linked to another user",
+        409
+      );
+    }
 
-    const user = await prisma.user.findUnique({ where: { email } });
-    if (!user) throw new Error("Invalid email or password");
+    await this.linkVerifiedIdentity(userId, identity);
+  }
 
-    const isValid = await bcrypt.compare(password, user.password_hash);
-    if (!isValid) throw new Error("Invalid email or password");
+  private static async linkVerifiedIdentity(
+    userId: string,
+    identity: VerifiedIdentity
+  ) {
+    const provider = toIdentityProvider(identity.provider);
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { user_id: userId },
+      select: {
+        email_verified: true,
+        identities: { where: { provider }, select: { identity_id: true } },
+      },
+    });
+
+    if (user.identities.length > 0) {
+      throw new IdentityError(
+        `A different ${identity.provider} account is already linked`,
+        409
+      );
+    }
+
+    const [, linkedUser] = await prisma.$transaction([
+      prisma.userIdentity.create({
+        data: {
+          user_id: userId,
+          provider,
+          subject: identity.subject,
+          email: identity.email,
+        },
+      }),
+      prisma.user.update({
+        where: { user_id: userId },
+        data: {
+          // The provider just proved ownership of the email. A password set
+          // on a never-verified account may belong to someone else who
+          // registered the address first, so drop it.
+          ...(!user.email_verified &&
+            identity.email_verified && {
+              email_verified: true,
+              email_verification_code: null,
+              email_verification_expires: null,
+              password_hash: null,
+            }),
+        },
+        select: userSelectFields,
+      }),
+    ]);
+
+    return linkedUser;
+  }
+
+  static async listIdentities(userId: string) {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { user_id: userId },
+      select: {
+        password_hash: true,
+        identities: {
+          orderBy: { created_at: "asc" },
+          select: {
+            provider: true,
+            email: true,
+            created_at: true,
+            last_used_at: true,
+          },
+        },
+      },
+    });
+
+    return {
+      has_password: !!user.password_hash,
+      identities: user.identities.map((identity) => ({
+        ...identity,
+        provider: identity.provider.toLowerCase() as IdentityProviderName,
+      })),
+    };
+  }
+
+  /**
+   * Unlink a provider, as long as the user keeps some way to sign in
+   */
+  static async unlinkIdentity(userId: string, provider: IdentityProviderName) {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { user_id: userId },
+      select: {
+        password_hash: true,
+        identities: { select: { provider: true } },
+      },
+    });
+
+    const linked = user.identities.some(
+      (identity) => identity.provider === toIdentityProvider(provider)
+    );
+    if (!linked) {
+      throw new IdentityError(`No ${provider} account is linked`, 404);
+    }
+    if (!user.password_hash && user.identities.length === 1) {
+      throw new IdentityError(
+        "Set a password before unlinking your only sign-in method",
+        400
+      );
+    }
 
-    const token = generateToken({ user_id: user.user_id, email: user.email });
+    await prisma.userIdentity.deleteMany({
+      where: { user_id: userId, provider: toIdentityProvider(provider) },
+    });
+  }
 
-    await prisma.session.create({
+  /**
+   * Open a session for a device and mint its first token pair
+   */
+  private static async createSession(
+    user: { user_id: string; email: string },
+    context: SessionContext,
+    twoFactorVerified = false
+  ): Promise<SessionTokens> {
+    const session = await prisma.session.create({
       data: {
         user_id: user.user_id,
-        token,
         expiresAt: getSessionExpiryDate(),
+        two_factor_verified: twoFactorVerified,
+        device_name: truncate(context.device_name, 100),
+        platform: truncate(context.platform, 20),
+        user_agent: truncate(context.user_agent, 300),
+        ip_address: truncate(context.ip_address, 64),
+      },
+    });
+
+    const refreshToken = generateRefreshToken(session.session_id);
+    await prisma.session.update({
+      where: { session_id: session.session_id },
+      data: { refresh_token_hash: hashRefreshToken(refreshToken) },
+    });
+
+    return {
+      session_id: session.session_id,
+      token: generateAccessToken(user, session.session_id),
+      refresh_token: refreshToken,
+      expires_in: ACCESS_TOKEN_EXPIRES_SECONDS,
+    };
+  }
+
+  /**
+   * Swap a refresh token for a new token pair. Each refresh token works once:
+   * presenting one that was already rotated means it leaked (or the app lost
+   * track of its tokens), so the whole session is revoked.
+   */
+  static async refreshSession(
+    refreshToken: string,
+    context: SessionContext = {}
+  ): Promise<SessionTokens> {
+    const sessionId = refreshToken.split(".")[0];
+    const session = await prisma.session.findUnique({
+      where: { session_id: sessionId },
+      include: { user: { select: { user_id: true, email: true } } },
+    });
+
+    if (!session || !session.refresh_token_hash) {
+      throw new SessionError("Invalid refresh token");
+    }
+    if (session.expiresAt < new Date()) {
+      await prisma.session.deleteMany({ where: { session_id: sessionId } });
+      throw new SessionError("Session expired");
+    }
+
+    const presentedHash = hashRefreshToken(refreshToken);
+    const nextRefreshToken = generateRefreshToken(sessionId);
+
+    // Compare-and-swap so two refreshes racing with the same token can't
+    // both succeed
+    const rotated = await prisma.session.updateMany({
+      where: { session_id: sessionId, refresh_token_hash: presentedHash },
+      data: {
+        refresh_token_hash: hashRefreshToken(nextRefreshToken),
+        expiresAt: getSessionExpiryDate(),
+        last_seen_at: new Date(),
+        ...(context.ip_address && {
+          ip_address: truncate(context.ip_address, 64),
+        }),
       },
     });
 
-    const { password_hash: _, ...userWithoutPassword } = user;
-    return { user: userWithoutPassword, token };
+    if (rotated.count === 0) {
+      console.warn(
+        `🚨 Refresh token reuse detected, revoking session ${sessionId} of user ${session.user_id}`
+      );
+      await prisma.session.deleteMany({ where: { session_id: sessionId } });
+      throw new SessionError("Refresh token reuse detected");
+    }
+
+    return {
+      session_id: sessionId,
+      token: generateAccessToken(session.user, sessionId),
+      refresh_token: nextRefreshToken,
+      expires_in: ACCESS_TOKEN_EXPIRES_SECONDS,
+    };
   }
 
-  static async verifyToken(token: string) {
+  static async verifyToken(token: string, context: SessionContext = {}) {
     try {
       const decoded = jwt.verify(token, JWT_SECRET) as {
         user_id: string;
         email: string;
+        session_id?: string;
+        type?: string;
       };
 
       if (
@@ -515,34 +1018,140 @@ export class AuthService {
         throw new Error("Invalid token payload");
       }
 
-      const session = await prisma.session.findUnique({
-        where: { token },
-        include: {
-          user: { select: userSelectFields },
-        },
-      });
+      // Tokens minted before refresh tokens are looked up by value
+      const session =
+        decoded.type === "access" && decoded.session_id
+          ? await prisma.session.findUnique({
+              where: { session_id: decoded.session_id },
+              include: { user: { select: userSelectFields } },
+            })
+          : await prisma.session.findUnique({
+              where: { token },
+              include: { user: { select: userSelectFields } },
+            });
 
-      if (!session || session.expiresAt < new Date()) {
+      if (
+        !session ||
+        session.expiresAt < new Date() ||
+        session.user_id !== decoded.user_id
+      ) {
         throw new Error("Session expired");
       }
 
-      return session.user;
+      if (Date.now() - session.last_seen_at.getTime() > LAST_SEEN_UPDATE_MS) {
+        prisma.session
+          .update({
+            where: { session_id: session.session_id },
+            data: {
+              last_seen_at: new Date(),
+              ...(context.ip_address && {
+                ip_address: truncate(context.ip_address, 64),
+              }),
+            },
+          })
+          .catch((error) =>
+            console.warn("⚠️ Failed to update session last seen:", error)
+          );
+      }
+
+      return {
+        user: session.user,
+        sessionId: session.session_id,
+        twoFactorVerified: session.two_factor_verified,
+      };
     } catch {
       throw new Error("Invalid token");
     }
   }
 
-  static async signOut(token: string) {
-    await prisma.session.deleteMany({ where: { token } });
+  /**
+   * The session a code was just confirmed in counts as verified, e.g. the
+   * one two-factor authentication was enabled from
+   */
+  static async markTwoFactorVerified(sessionId: string) {
+    await prisma.session.updateMany({
+      where: { session_id: sessionId },
+      data: { two_factor_verified: true },
+    });
+  }
+
+  static async signOut(sessionId: string) {
+    await prisma.session.deleteMany({ where: { session_id: sessionId } });
+  }
+
+  static async listSessions(userId: string, currentSessionId?: string) {
+    const sessions = await prisma.session.findMany({
+      where: { user_id: userId, expiresAt: { gt: new Date() } },
+      orderBy: { last_seen_at: "desc" },
+      select: {
+        session_id: true,
+        device_name: true,
+        platform: true,
+        user_agent: true,
+        ip_address: true,
+        last_seen_at: true,
+        created_at: true,
+      },
+    });
+
+    return sessions.map((session) => ({
+      ...session,
+      current: session.session_id === currentSessionId,
+    }));
+  }
+
+  static async revokeSession(
+    userId: string,
+    sessionId: string
+  ): Promise<boolean> {
+    const result = await prisma.session.deleteMany({
+      where: { session_id: sessionId, user_id: userId },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Sign out everywhere, optionally keeping the session making the request
+   */
+  static async revokeAllSessions(userId: string, exceptSessionId?: string) {
+    const result = await prisma.session.deleteMany({
+      where: {
+        user_id: userId,
+        ...(exceptSessionId && { session_id: { not: exceptSessionId } }),
+      },
+    });
+    return result.count;
   }
-  static async sendPasswordResetEmail(email: string): Promise<void> {
+  static async sendPasswordResetEmail(
+    email: string,
+    context: SessionContext = {}
+  ): Promise<void> {
     console.log("🔄 Sending password reset email to:", email);
 
+    // Every request sends an email, so all of them count
+    const subject = { email, ip_address: context.ip_address };
+    await LoginThrottleService.assertNotLocked(
+      "password_reset_request",
+      subject
+    );
+
     // Check if user exists
     const user = await prisma.user.findUnique({
       where: { email },
     });
 
+    await SecurityEventService.recordFailedAttempt(
+      "password_reset_request",
+      subject,
+      {
+        type: "PASSWORD_RESET_REQUESTED",
+        user_id: user?.user_id,
+        email,
+        context,
+        ...(!user && { metadata: { reason: "unknown_email" } }),
+      }
+    );
+
     if (!user) {
       throw new Error("User not found");
     }
@@ -807,18 +1416,35 @@ export class AuthService {
     }
   }
 
-  static async verifyResetCode(email: string, code: string): Promise<string> {
+  static async verifyResetCode(
+    email: string,
+    code: string,
+    context: SessionContext = {}
+  ): Promise<string> {
     console.log("🔒 Verifying reset code for:", email);
 
     if (!code || code.trim() === "") {
       throw new Error("Reset code is required");
     }
 
+    const subject = { email, ip_address: context.ip_address };
+    await LoginThrottleService.assertNotLocked("password_reset_code", subject);
+
     const user = await prisma.user.findUnique({
       where: { email },
     });
 
     if (!user) {
+      await SecurityEventService.recordFailedAttempt(
+        "password_reset_code",
+        subject,
+        {
+          type: "PASSWORD_RESET_CODE_FAILED",
+          email,
+          context,
+          metadata: { reason: "unknown_email" },
+        }
+      );
       throw new Error("User not found");
     }
 
@@ -827,6 +1453,25 @@ export class AuthService {
     }
 
     if (user.password_reset_code !== code.trim()) {
+      const lockouts = await SecurityEventService.recordFailedAttempt(
+        "password_reset_code",
+        subject,
+        {
+          type: "PASSWORD_RESET_CODE_FAILED",
+          user_id: user.user_id,
+          email: user.email,
+          context,
+          metadata: { reason: "wrong_code" },
+        }
+      );
+      // Once the account is locked the code is burnt; guessing has to start
+      // over against a new one
+      if (lockouts.some((lockout) => lockout.scope === "account")) {
+        await prisma.user.update({
+          where: { user_id: user.user_id },
+          data: { password_reset_code: null, password_reset_expires: null },
+        });
+      }
       throw new Error("Invalid reset code");
     }
 
@@ -834,6 +1479,8 @@ export class AuthService {
       throw new Error("Reset code has expired");
     }
 
+    await LoginThrottleService.reset("password_reset_code", email);
+
     // Generate simple reset token (like email verification)
     const resetToken = jwt.sign(
       { userId: user.user_id, email: user.email, type: "password_reset" },
@@ -847,7 +1494,8 @@ export class AuthService {
 
   static async resetPassword(
     token: string,
-    newPassword: string
+    newPassword: string,
+    context: SessionContext = {}
   ): Promise<void> {
     console.log("🔑 Resetting password with token");
 
@@ -884,6 +1532,15 @@ export class AuthService {
         where: { user_id: user.user_id },
       });
 
+      // The owner proved access to the inbox; lift any sign-in lockout
+      await LoginThrottleService.reset("signin", user.email);
+      await SecurityEventService.record({
+        type: "PASSWORD_RESET",
+        user_id: user.user_id,
+        email: user.email,
+        context,
+      });
+
       console.log("✅ Password reset successfully for:", decoded.email);
     } catch (error) {
       console.error("💥 Password reset error:", error);
@@ -915,13 +1572,7 @@ export class AuthService {
     }
   }
   static async getRolePermissions(role: string) {
-    const permissions = {
-      FREE: { dailyRequests: 10 },
-      PREMIUM: { dailyRequests: 50 },
-      GOLD: { dailyRequests: -1 },
-    };
-
-    return permissions[role as keyof typeof permissions] ?? permissions.FREE;
+    return getPlanLimits(role);
   }
 
   static getCookieOptions() {
@@ -933,4 +1584,9 @@ export class AuthService {
       path: "/",
     };
   }
+
+  // The refresh token cookie is only sent to the auth routes
+  static getRefreshCookieOptions() {
+    return { ...this.getCookieOptions(), path: "/api/auth" };
+  }
 }
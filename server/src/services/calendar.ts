@@ -4,8 +4,15 @@ import {
   DayData,
   WeeklyAnalysis,
   CalendarEvent,
-  GamificationBadge,
 } from "../types/calendar";
+import { AchievementService } from "./achievements";
+import {
+  addDays,
+  dayKeyToDate,
+  getDayBounds,
+  getUserDay,
+  getUserTimeZone,
+} from "../utils/userDay";
 
 export class CalendarService {
   // Default nutritional goals (can be customized per user later)
@@ -27,18 +34,26 @@ export class CalendarService {
     try {
       console.log("📅 Fetching calendar data for user:", user_id, year, month);
 
-      const startDate = new Date(year, month - 1, 1);
-      const endDate = new Date(year, month, 0, 23, 59, 59, 999);
+      // Days are the user's local days. Meals are timestamps, so they are
+      // fetched between the instants the month starts and ends locally.
+      const timeZone = await getUserTimeZone(user_id);
+      const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+      const dayKey = (day: number) =>
+        `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+      const startDate = dayKeyToDate(dayKey(1));
+      const endDate = dayKeyToDate(dayKey(daysInMonth));
+      const monthStart = getDayBounds(timeZone, dayKey(1)).start;
+      const monthEnd = getDayBounds(timeZone, dayKey(daysInMonth)).end;
 
-      console.log("📊 Date range:", startDate, "to", endDate);
+      console.log("📊 Date range:", monthStart, "to", monthEnd);
 
       // Fetch meals for the month (using upload_time instead of created_at)
       const meals = await prisma.meal.findMany({
         where: {
           user_id: user_id,
           upload_time: {
-            gte: startDate,
-            lte: endDate,
+            gte: monthStart,
+            lt: monthEnd,
           },
         },
         orderBy: {
@@ -74,7 +89,7 @@ export class CalendarService {
           user_id: user_id,
           date: {
             gte: startDate,
-            lte: endDate,
+            lt: dayKeyToDate(addDays(dayKey(daysInMonth), 1)),
           },
         },
         orderBy: {
@@ -91,7 +106,7 @@ export class CalendarService {
       // Group meals by date
       const mealsByDate: Record<string, any[]> = {};
       meals.forEach((meal) => {
-        const dateStr = new Date(meal.upload_time).toISOString().split("T")[0];
+        const dateStr = getUserDay(timeZone, meal.upload_time);
         if (!mealsByDate[dateStr]) {
           mealsByDate[dateStr] = [];
         }
@@ -124,11 +139,8 @@ export class CalendarService {
 
       // Generate calendar data for each day of the month
       const calendarData: Record<string, DayData> = {};
-      const daysInMonth = endDate.getDate();
-
       for (let day = 1; day <= daysInMonth; day++) {
-        const date = new Date(year, month - 1, day);
-        const dateStr = date.toISOString().split("T")[0];
+        const dateStr = dayKey(day);
         const dayMeals = mealsByDate[dateStr] || [];
         const dayGoal = goalsByDate[dateStr];
         const dayWater = waterByDate[dateStr];
@@ -281,12 +293,7 @@ export class CalendarService {
       );
 
       // Get gamification badges
-      const badges = await this.checkAndAwardBadges(
-        user_id,
-        currentDays,
-        monthlyProgress,
-        streakDays
-      );
+      const badges = await this.getRecentBadges(user_id);
 
       const statistics: CalendarStats = {
         monthlyProgress: Math.round(monthlyProgress),
@@ -633,107 +640,33 @@ export class CalendarService {
     }
   }
 
-  private static async checkAndAwardBadges(
-    user_id: string,
-    days: DayData[],
-    monthlyProgress: number,
-    streakDays: number
-  ): Promise<any[]> {
+  // Badges are achievements from the shared catalog: run the regular check,
+  // then list what was unlocked in the last 30 days
+  private static async getRecentBadges(user_id: string) {
     try {
-      const badges = [];
-
-      const goalDays = days.filter(
-        (day) => day.calories_actual >= day.calories_goal * 0.9
-      ).length;
-      const perfectDays = days.filter((day) => day.quality_score >= 9).length;
-
-      const badgeConditions = [
-        {
-          condition: streakDays >= 7,
-          name: "Week Warrior",
-          description: "7 days streak of meeting goals",
-          icon: "🔥",
-          points: 100,
-        },
-        {
-          condition: streakDays >= 30,
-          name: "Monthly Master",
-          description: "30 days streak - incredible!",
-          icon: "🏆",
-          points: 500,
-        },
-        {
-          condition: monthlyProgress >= 90,
-          name: "Monthly Champion",
-          description: "90%+ monthly goal achievement",
-          icon: "🥇",
-          points: 200,
-        },
-        {
-          condition: perfectDays >= 5,
-          name: "Quality King",
-          description: "5+ days of perfect nutrition",
-          icon: "💎",
-          points: 150,
-        },
-        {
-          condition: goalDays >= 15,
-          name: "Consistency Master",
-          description: "15+ days of goal achievement",
-          icon: "⭐",
-          points: 120,
-        },
-      ];
-
-      const existingBadges = await prisma.gamificationBadge.findMany({
-        where: {
-          user_id,
-          achieved_at: {
-            gte: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
-          },
-        },
-      });
-
-      const existingBadgeNames = existingBadges.map((badge) => badge.name);
-
-      for (const badgeCondition of badgeConditions) {
-        if (
-          badgeCondition.condition &&
-          !existingBadgeNames.includes(badgeCondition.name)
-        ) {
-          const newBadge = await prisma.gamificationBadge.create({
-            data: {
-              user_id,
-              name: badgeCondition.name,
-              description: badgeCondition.description,
-              icon: badgeCondition.icon,
-              condition: JSON.stringify(badgeCondition),
-              points: badgeCondition.points,
-            },
-          });
-          badges.push(newBadge);
-        }
-      }
+      await AchievementService.checkAndAwardAchievements(user_id);
 
-      const recentBadges = await prisma.gamificationBadge.findMany({
+      const recentUnlocks = await prisma.userAchievement.findMany({
         where: {
           user_id,
-          achieved_at: {
+          unlocked: true,
+          unlocked_date: {
             gte: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
           },
         },
+        include: { achievement: true },
         orderBy: {
-          achieved_at: "desc",
+          unlocked_date: "desc",
         },
         take: 10,
       });
 
-      return recentBadges.map((badge) => ({
-        id: badge.badge_id,
-        name: badge.name,
-        description: badge.description,
-        icon: badge.icon,
-        achieved_at: badge.achieved_at.toISOString(),
+      return recentUnlocks.map(({ achievement, unlocked_date }) => ({
+        id: achievement.id,
+        name: achievement.title,
+        description: achievement.description,
+        icon: achievement.icon,
+        achieved_at: (unlocked_date ?? new Date()).toISOString(),
       }));
     } catch (error) {
       console.error("💥 Error checking badges:", error);
@@ -1,5 +1,38 @@
 import OpenAI from "openai";
+import {
+  ChatCompletionMessageParam,
+  ChatCompletionMessageToolCall,
+} from "openai/resources/chat/completions";
 import { prisma } from "../lib/database";
+import {
+  ChatConversationService,
+  MessageConversation,
+} from "./chatConversations";
+import { CHAT_TOOLS, ChatToolService } from "./chatTools";
+import { ChatActionView } from "../types/chat";
+import { getDayBounds, getUserDay, getUserTimeZone } from "../utils/userDay";
+
+export interface ChatStreamResult {
+  response: string;
+  messageId: string;
+  aborted: boolean;
+  // The model failed part-way through; the partial reply was not saved
+  failed: boolean;
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  } | null;
+  actions: ChatActionView[];
+  // Billed in the same unit as the non-streaming path, see billedTokens
+  tokensCharged: number;
+}
+
+// Context window sent to the model from the current conversation only
+const CONTEXT_MAX_EXCHANGES = 10;
+const CONTEXT_MAX_CHARS = 12000;
+// Tool-call rounds before the model has to answer in text
+const MAX_TOOL_ROUNDS = 3;
 
 const openai = process.env.OPENAI_API_KEY
   ? new OpenAI({
@@ -11,98 +44,278 @@ export class ChatService {
   static async processMessage(
     userId: string,
     message: string,
-    language: string = "hebrew"
+    language: string = "hebrew",
+    conversation?: MessageConversation
   ): Promise<{
     response: string;
     messageId: string;
+    actions: ChatActionView[];
   }> {
     try {
       console.log("🤖 Processing chat message:", message);
       console.log("🌐 Language:", language);
 
-      // Get user context for personalized advice
-      const userContext = await this.getUserNutritionContext(userId);
+      // Same tool loop as streaming, with the deltas simply not forwarded
+      const result = await this.streamMessage(userId, message, language, {
+        conversation,
+        onDelta: () => {},
+      });
+      if (result.failed) {
+        throw new Error("Chat reply was cut off");
+      }
 
-      // Get recent chat history for context
-      const recentHistory = await this.getChatHistory(userId, 10);
+      console.log("✅ Chat processing completed successfully");
 
-      // Create system prompt
-      const systemPrompt = this.createNutritionSystemPrompt(
-        language,
-        userContext
-      );
+      return {
+        response: result.response,
+        messageId: result.messageId,
+        actions: result.actions,
+      };
+    } catch (error) {
+      console.error("💥 Chat service error:", error);
 
-      // Build conversation context
-      const conversationHistory = this.buildConversationHistory(
-        recentHistory,
-        message
-      );
+      const fallbackResponse = this.getFallbackResponse(message, language);
 
-      let aiResponse: string;
+      return {
+        response: fallbackResponse,
+        messageId: "",
+        actions: [],
+      };
+    }
+  }
 
-      if (!openai || !process.env.OPENAI_API_KEY) {
-        console.log("⚠️ No OpenAI API key, using fallback response");
-        aiResponse = this.getFallbackResponse(message, language);
-      } else {
-        try {
-          console.log("🔄 Calling OpenAI API...");
-
-          // Call OpenAI with improved error handling
-          const response = await openai.chat.completions.create({
-            model: "gpt-4o",
-            messages: [
-              { role: "system", content: systemPrompt },
-              ...conversationHistory,
-            ],
-            max_completion_tokens: 1000,
-            temperature: 0.7,
-          });
+  /**
+   * Stream the assistant reply token by token. The exchange is saved only when
+   * the stream finishes; a cancelled stream, or one the model broke off after
+   * some text was sent, is not persisted.
+   *
+   * The model may call tools between rounds of text. Reads are answered
+   * inline; writes come back as pending actions the user has to confirm.
+   */
+  static async streamMessage(
+    userId: string,
+    message: string,
+    language: string = "hebrew",
+    options: {
+      onDelta: (text: string) => void;
+      signal?: AbortSignal;
+      conversation?: MessageConversation;
+    }
+  ): Promise<ChatStreamResult> {
+    const { conversation } = options;
+    const conversationId = conversation?.conversation_id;
+    const { systemPrompt, conversationHistory } =
+      await this.prepareConversation(userId, message, language, conversationId);
+
+    let aiResponse = "";
+    let failed = false;
+    // Summed over tool rounds; cast keeps TS from narrowing it to null
+    let usage = null as ChatStreamResult["usage"];
+    const actions: ChatActionView[] = [];
+
+    if (!openai || !process.env.OPENAI_API_KEY) {
+      console.log("⚠️ No OpenAI API key, streaming fallback response");
+      aiResponse = this.getFallbackResponse(message, language);
+      options.onDelta(aiResponse);
+    } else {
+      const messages: ChatCompletionMessageParam[] = [
+        { role: "system", content: systemPrompt },
+        ...conversationHistory,
+      ];
+
+      try {
+        for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+          console.log(
+            `🔄 Calling OpenAI API (streaming, round ${round + 1})...`
+          );
+
+          const stream = await openai.chat.completions.create(
+            {
+              model: "gpt-4o",
+              messages,
+              tools: CHAT_TOOLS,
+              // Last round must answer in text
+              tool_choice: round < MAX_TOOL_ROUNDS ? "auto" : "none",
+              max_completion_tokens: 1000,
+              temperature: 0.7,
+              stream: true,
+              stream_options: { include_usage: true },
+            },
+            { signal: options.signal }
+          );
+
+          let roundText = "";
+          const toolCalls: ChatCompletionMessageToolCall[] = [];
+
+          for await (const chunk of stream) {
+            const delta = chunk.choices[0]?.delta;
+            if (delta?.content) {
+              roundText += delta.content;
+              aiResponse += delta.content;
+              options.onDelta(delta.content);
+            }
+            for (const call of delta?.tool_calls || []) {
+              const entry = (toolCalls[call.index] ??= {
+                id: "",
+                type: "function",
+                function: { name: "", arguments: "" },
+              });
+              if (call.id) entry.id = call.id;
+              if (call.function?.name) {
+                entry.function.name += call.function.name;
+              }
+              if (call.function?.arguments) {
+                entry.function.arguments += call.function.arguments;
+              }
+            }
+            if (chunk.usage) {
+              usage = {
+                promptTokens:
+                  (usage?.promptTokens || 0) + chunk.usage.prompt_tokens,
+                completionTokens:
+                  (usage?.completionTokens || 0) +
+                  chunk.usage.completion_tokens,
+                totalTokens:
+                  (usage?.totalTokens || 0) + chunk.usage.total_tokens,
+              };
+            }
+          }
 
-          const aiContent = response.choices[0]?.message?.content;
+          if (toolCalls.length === 0) break;
 
-          if (!aiContent || aiContent.trim() === "") {
-            console.log("⚠️ Empty response from OpenAI, using fallback");
-            aiResponse = this.getFallbackResponse(message, language);
-          } else {
-            aiResponse = aiContent.trim();
-            console.log(
-              "✅ OpenAI response received:",
-              aiResponse.substring(0, 100) + "..."
+          messages.push({
+            role: "assistant",
+            content: roundText || null,
+            tool_calls: toolCalls,
+          });
+          for (const call of toolCalls) {
+            console.log("🛠️ Chat tool call:", call.function.name);
+            const result = await ChatToolService.handleToolCall(
+              userId,
+              call.function.name,
+              call.function.arguments,
+              actions
             );
+            messages.push({
+              role: "tool",
+              tool_call_id: call.id,
+              content: JSON.stringify(result),
+            });
           }
-        } catch (openaiError) {
-          console.error("💥 OpenAI API error:", openaiError);
-          aiResponse = this.getFallbackResponse(message, language);
         }
-      }
+      } catch (openaiError) {
+        if (options.signal?.aborted) {
+          console.log("🛑 Chat stream cancelled by client");
+          return {
+            response: aiResponse,
+            messageId: "",
+            aborted: true,
+            failed: false,
+            usage: null,
+            actions,
+            tokensCharged: this.billedTokens(message, aiResponse),
+          };
+        }
 
-      // Ensure we have a valid response
-      if (!aiResponse || aiResponse.trim() === "") {
-        aiResponse =
-          language === "hebrew"
-            ? "מצטער, אירעה שגיאה בעיבוד השאלה שלך. אנא נסה שוב."
-            : "Sorry, there was an error processing your question. Please try again.";
+        console.error("💥 OpenAI streaming error:", openaiError);
+        failed = aiResponse.trim().length > 0;
       }
 
-      // Save conversation to database
-      const messageId = await this.saveChatMessage(userId, message, aiResponse);
-
-      console.log("✅ Chat processing completed successfully");
+      // Nothing was shown yet, so the fallback can stand in for the reply
+      if (!aiResponse.trim()) {
+        aiResponse = this.getFallbackResponse(message, language);
+        options.onDelta(aiResponse);
+      }
+    }
 
+    // A half-written reply would read as complete in history and context
+    if (failed) {
       return {
         response: aiResponse,
-        messageId: messageId,
-      };
-    } catch (error) {
-      console.error("💥 Chat service error:", error);
-
-      const fallbackResponse = this.getFallbackResponse(message, language);
-
-      return {
-        response: fallbackResponse,
         messageId: "",
+        aborted: false,
+        failed: true,
+        usage,
+        actions,
+        tokensCharged: this.billedTokens(message, aiResponse),
       };
     }
+
+    aiResponse = aiResponse.trim();
+    if (conversation?.is_new) {
+      await ChatConversationService.saveNewConversation(userId, conversation);
+    }
+    const messageId = await this.saveChatMessage(
+      userId,
+      message,
+      aiResponse,
+      conversationId
+    );
+    if (messageId) {
+      await ChatToolService.attachToMessage(
+        actions.map((action) => action.action_id),
+        Number(messageId)
+      );
+    }
+    if (conversationId) {
+      await ChatConversationService.recordExchange(
+        conversationId,
+        message,
+        aiResponse,
+        language
+      );
+    }
+
+    return {
+      response: aiResponse,
+      messageId,
+      aborted: false,
+      failed: false,
+      usage,
+      actions,
+      tokensCharged: this.billedTokens(message, aiResponse),
+    };
+  }
+
+  /**
+   * What an exchange costs against the chat quota: the question and the
+   * reply at about 4 characters a token. The system prompt, history and tool
+   * rounds the model is sent are not billed, so a reply costs the same
+   * streamed or not.
+   */
+  static billedTokens(message: string, reply: string): number {
+    return Math.ceil(message.length / 4) + Math.ceil(reply.length / 4);
+  }
+
+  private static async prepareConversation(
+    userId: string,
+    message: string,
+    language: string,
+    conversationId?: string
+  ) {
+    // Get user context for personalized advice
+    const userContext = await this.getUserNutritionContext(userId);
+
+    // Get recent history of this conversation for context
+    const recentHistory = await this.getChatHistory(
+      userId,
+      CONTEXT_MAX_EXCHANGES,
+      conversationId
+    );
+
+    // Create system prompt
+    const systemPrompt = this.createNutritionSystemPrompt(
+      language,
+      userContext
+    );
+
+    // Build conversation context
+    const conversationHistory = this.buildConversationHistory(
+      recentHistory,
+      message
+    );
+
+    return { systemPrompt, conversationHistory };
   }
 
   private static createNutritionSystemPrompt(
@@ -188,7 +401,21 @@ For food questions: provide information about calories, protein, carbs, fat, and
 For meal recommendations: consider goals, restrictions, allergies and what's left to consume today.
 For cooking questions: give suggestions for nutritional improvement of the recipe.`;
 
-    return basePrompt + contextInfo + instructions;
+    const toolInstructions = isHebrew
+      ? `
+
+🛠️ כלים:
+- השתמש ב-get_daily_progress וב-get_active_menu כדי לבדוק נתונים עדכניים במקום לנחש
+- רישום ארוחה, הוספה לרשימת קניות, החלפת ארוחה בתפריט ורישום מים דורשים אישור של המשתמש
+- אחרי שהצעת פעולה כזו, תאר אותה בקצרה ובקש מהמשתמש ללחוץ "אישור". לעולם אל תאמר שהפעולה בוצעה`
+      : `
+
+🛠️ Tools:
+- Use get_daily_progress and get_active_menu to check current data instead of guessing
+- Logging a meal, adding to the shopping list, swapping a menu meal and logging water need the user's confirmation
+- After proposing such an action, describe it briefly and ask the user to tap "Confirm". Never say it has already been done`;
+
+    return basePrompt + contextInfo + instructions + toolInstructions;
   }
 
   private static async getUserNutritionContext(userId: string): Promise<any> {
@@ -199,14 +426,12 @@ For cooking questions: give suggestions for nutritional improvement of the recip
       });
 
       // Get today's intake
-      const today = new Date().toISOString().split("T")[0];
+      const timeZone = await getUserTimeZone(userId);
+      const { start, end } = getDayBounds(timeZone, getUserDay(timeZone));
       const todayMeals = await prisma.meal.findMany({
         where: {
           user_id: userId,
-          created_at: {
-            gte: new Date(today),
-            lt: new Date(new Date(today).getTime() + 24 * 60 * 60 * 1000),
-          },
+          created_at: { gte: start, lt: end },
         },
       });
 
@@ -254,8 +479,18 @@ For cooking questions: give suggestions for nutritional improvement of the recip
   ): Array<{ role: "user" | "assistant"; content: string }> {
     const history: Array<{ role: "user" | "assistant"; content: string }> = [];
 
+    // Keep the newest exchanges that fit in the context budget
+    let budget = CONTEXT_MAX_CHARS - currentMessage.length;
+    const included = [];
+    for (let i = recentHistory.length - 1; i >= 0; i--) {
+      const msg = recentHistory[i];
+      budget -= msg.user_message.length + msg.ai_response.length;
+      if (budget < 0) break;
+      included.unshift(msg);
+    }
+
     // Add recent history
-    recentHistory.forEach((msg) => {
+    included.forEach((msg) => {
       history.push({ role: "user", content: msg.user_message });
       history.push({ role: "assistant", content: msg.ai_response });
     });
@@ -301,12 +536,14 @@ For cooking questions: give suggestions for nutritional improvement of the recip
   static async saveChatMessage(
     userId: string,
     userMessage: string,
-    aiResponse: string
+    aiResponse: string,
+    conversationId?: string
   ): Promise<string> {
     try {
       const chatMessage = await prisma.chatMessage.create({
         data: {
           user_id: userId,
+          conversation_id: conversationId,
           user_message: userMessage,
           ai_response: aiResponse,
           created_at: new Date(),
@@ -322,11 +559,15 @@ For cooking questions: give suggestions for nutritional improvement of the recip
 
   static async getChatHistory(
     userId: string,
-    limit: number = 50
+    limit: number = 50,
+    conversationId?: string
   ): Promise<any[]> {
     try {
       const messages = await prisma.chatMessage.findMany({
-        where: { user_id: userId },
+        where: {
+          user_id: userId,
+          ...(conversationId && { conversation_id: conversationId }),
+        },
         orderBy: { created_at: "desc" },
         take: limit,
       });
@@ -343,6 +584,9 @@ For cooking questions: give suggestions for nutritional improvement of the recip
       await prisma.chatMessage.deleteMany({
         where: { user_id: userId },
       });
+      await prisma.chatConversation.deleteMany({
+        where: { user_id: userId },
+      });
     } catch (error) {
       console.error("Error clearing chat history:", error);
     }
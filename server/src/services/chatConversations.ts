@@ -0,0 +1,318 @@
+import crypto from "crypto";
+import OpenAI from "openai";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/database";
+
+export interface ChatSearchResult {
+  message_id: number;
+  conversation_id: string | null;
+  conversation_title: string | null;
+  user_message: string;
+  ai_response: string;
+  snippet: string;
+  created_at: Date;
+  rank: number;
+}
+
+// The thread a chat message goes to. A new thread gets its id up front so
+// the client can follow it, but is stored only with its first exchange.
+export interface MessageConversation {
+  conversation_id: string;
+  title: string;
+  is_new: boolean;
+}
+
+const PROVISIONAL_TITLE_LENGTH = 60;
+// Page size for conversation and message lists
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const openai = process.env.OPENAI_API_KEY
+  ? new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+    })
+  : null;
+
+/**
+ * Chat threads: each conversation keeps its own history, title and flags.
+ */
+export class ChatConversationService {
+  static async listConversations(
+    userId: string,
+    options: { archived?: boolean; limit?: number } = {}
+  ) {
+    const conversations = await prisma.chatConversation.findMany({
+      where: { user_id: userId, is_archived: options.archived ?? false },
+      orderBy: [{ is_pinned: "desc" }, { last_message_at: "desc" }],
+      take: this.pageSize(options.limit),
+      include: {
+        _count: { select: { messages: true } },
+        messages: {
+          orderBy: { created_at: "desc" },
+          take: 1,
+          select: { ai_response: true },
+        },
+      },
+    });
+
+    return conversations.map(({ _count, messages, ...conversation }) => ({
+      ...conversation,
+      message_count: _count.messages,
+      preview: messages[0]?.ai_response.substring(0, 120) ?? null,
+    }));
+  }
+
+  static async createConversation(userId: string, title?: string) {
+    return prisma.chatConversation.create({
+      data: {
+        user_id: userId,
+        title: title?.trim() || "New conversation",
+        title_is_custom: !!title?.trim(),
+      },
+    });
+  }
+
+  static async getConversation(userId: string, conversationId: string) {
+    return prisma.chatConversation.findFirst({
+      where: { conversation_id: conversationId, user_id: userId },
+    });
+  }
+
+  /**
+   * Conversation a new message belongs to. Without an id a new thread with a
+   * provisional title is handed out; returns null for an id the user does
+   * not own.
+   */
+  static async resolveForMessage(
+    userId: string,
+    conversationId: string | undefined,
+    message: string
+  ): Promise<MessageConversation | null> {
+    const newThread = (id: string) => ({
+      conversation_id: id,
+      title: this.provisionalTitle(message),
+      is_new: true,
+    });
+    if (!conversationId) return newThread(crypto.randomUUID());
+
+    const conversation = await prisma.chatConversation.findUnique({
+      where: { conversation_id: conversationId },
+    });
+    if (!conversation) {
+      // Handed out earlier, but its first reply never got saved
+      return UUID_PATTERN.test(conversationId)
+        ? newThread(conversationId)
+        : null;
+    }
+    if (conversation.user_id !== userId) return null;
+
+    // Writing into an archived thread brings it back to the list
+    if (conversation.is_archived) {
+      await prisma.chatConversation.update({
+        where: { conversation_id: conversationId },
+        data: { is_archived: false, archived_at: null },
+      });
+    }
+    return {
+      conversation_id: conversation.conversation_id,
+      title: conversation.title,
+      is_new: false,
+    };
+  }
+
+  /**
+   * Store a thread from resolveForMessage before its first exchange is saved
+   */
+  static async saveNewConversation(
+    userId: string,
+    conversation: MessageConversation
+  ) {
+    await prisma.chatConversation.upsert({
+      where: { conversation_id: conversation.conversation_id },
+      update: {},
+      create: {
+        conversation_id: conversation.conversation_id,
+        user_id: userId,
+        title: conversation.title,
+      },
+    });
+  }
+
+  static async updateConversation(
+    userId: string,
+    conversationId: string,
+    changes: { title?: string; is_pinned?: boolean; is_archived?: boolean }
+  ) {
+    const conversation = await this.getConversation(userId, conversationId);
+    if (!conversation) return null;
+
+    return prisma.chatConversation.update({
+      where: { conversation_id: conversationId },
+      data: {
+        ...(changes.title !== undefined && {
+          title: changes.title.trim(),
+          title_is_custom: true,
+        }),
+        ...(changes.is_pinned !== undefined && {
+          is_pinned: changes.is_pinned,
+        }),
+        ...(changes.is_archived !== undefined && {
+          is_archived: changes.is_archived,
+          archived_at: changes.is_archived ? new Date() : null,
+        }),
+      },
+    });
+  }
+
+  static async deleteConversation(
+    userId: string,
+    conversationId: string
+  ): Promise<boolean> {
+    const result = await prisma.chatConversation.deleteMany({
+      where: { conversation_id: conversationId, user_id: userId },
+    });
+    return result.count > 0;
+  }
+
+  static async getMessages(
+    conversationId: string,
+    options: { limit?: number; before?: number } = {}
+  ) {
+    const messages = await prisma.chatMessage.findMany({
+      where: {
+        conversation_id: conversationId,
+        ...(options.before && { message_id: { lt: options.before } }),
+      },
+      orderBy: { created_at: "desc" },
+      take: this.pageSize(options.limit),
+      include: {
+        actions: {
+          orderBy: { created_at: "asc" },
+          select: {
+            action_id: true,
+            tool: true,
+            summary: true,
+            status: true,
+            expires_at: true,
+            result: true,
+            error: true,
+          },
+        },
+      },
+    });
+
+    return messages.reverse(); // Return in chronological order
+  }
+
+  /**
+   * Bump the thread after an exchange and title it from the first one
+   */
+  static async recordExchange(
+    conversationId: string,
+    userMessage: string,
+    aiResponse: string,
+    language: string
+  ) {
+    const conversation = await prisma.chatConversation.update({
+      where: { conversation_id: conversationId },
+      data: { last_message_at: new Date() },
+      include: { _count: { select: { messages: true } } },
+    });
+
+    if (conversation.title_is_custom || conversation._count.messages !== 1) {
+      return;
+    }
+
+    // Titling is best effort and must not hold up the reply
+    this.generateTitle(userMessage, aiResponse, language)
+      .then((title) =>
+        prisma.chatConversation.updateMany({
+          where: { conversation_id: conversationId, title_is_custom: false },
+          data: { title },
+        })
+      )
+      .catch((error) =>
+        console.error("💥 Failed to generate conversation title:", error)
+      );
+  }
+
+  /**
+   * Full-text search over the user's past questions and answers
+   */
+  static async search(
+    userId: string,
+    query: string,
+    limit: number = 20
+  ): Promise<ChatSearchResult[]> {
+    const document = Prisma.sql`to_tsvector('simple', m."user_message" || ' ' || m."ai_response")`;
+    const tsQuery = Prisma.sql`plainto_tsquery('simple', ${query})`;
+
+    return prisma.$queryRaw<ChatSearchResult[]>`
+      SELECT
+        m."message_id",
+        m."conversation_id",
+        c."title" AS "conversation_title",
+        m."user_message",
+        m."ai_response",
+        ts_headline('simple', m."ai_response", ${tsQuery},
+          'MaxFragments=1, MaxWords=25, MinWords=8, StartSel=**, StopSel=**') AS "snippet",
+        m."created_at",
+        ts_rank(${document}, ${tsQuery})::float AS "rank"
+      FROM "ChatMessage" m
+      LEFT JOIN "chat_conversations" c ON c."conversation_id" = m."conversation_id"
+      WHERE m."user_id" = ${userId}
+        AND ${document} @@ ${tsQuery}
+      ORDER BY "rank" DESC, m."created_at" DESC
+      LIMIT ${limit}
+    `;
+  }
+
+  private static pageSize(limit?: number): number {
+    return Math.min(Math.max(limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  }
+
+  private static provisionalTitle(message: string): string {
+    const singleLine = message.replace(/\s+/g, " ").trim();
+    return singleLine.length > PROVISIONAL_TITLE_LENGTH
+      ? `${singleLine.substring(0, PROVISIONAL_TITLE_LENGTH - 1)}…`
+      : singleLine || "New conversation";
+  }
+
+  private static async generateTitle(
+    userMessage: string,
+    aiResponse: string,
+    language: string
+  ): Promise<string> {
+    if (!openai) {
+      return this.provisionalTitle(userMessage);
+    }
+
+    const completion = await openai.chat.completions.create({
+      model: "gpt-4o",
+      messages: [
+        {
+          role: "system",
+          content: `Write a short title (max 6 words) for a nutrition chat that starts with the exchange below. Answer in ${
+            language === "hebrew" ? "Hebrew" : "English"
+          } with the title only, no quotes.`,
+        },
+        {
+          role: "user",
+          content: `User: ${userMessage}\nAssistant: ${aiResponse.substring(
+            0,
+            500
+          )}`,
+        },
+      ],
+      max_completion_tokens: 20,
+      temperature: 0.3,
+    });
+
+    const title = completion.choices[0]?.message?.content
+      ?.replace(/^["'\s]+|["'\s.]+$/g, "")
+      .trim();
+    return title || this.provisionalTitle(userMessage);
+  }
+}
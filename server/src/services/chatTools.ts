@@ -0,0 +1,544 @@
+import { z } from "zod";
+import { ChatCompletionTool } from "openai/resources/chat/completions";
+import { prisma } from "../lib/database";
+import { NutritionService } from "./nutrition";
+import { RecommendedMenuService } from "./recommendedMenu";
+import { DailyGoalsService } from "./dailyGoal";
+import { ShoppingListService } from "./shoppingLists";
+import { ChatActionError, ChatActionView } from "../types/chat";
+import {
+  dayKeyToDate,
+  getDayBounds,
+  getUserDay,
+  getUserTimeZone,
+} from "../utils/userDay";
+
+const ACTION_TTL_MS = 15 * 60 * 1000;
+const MAX_WATER_CUPS = 10;
+const ML_PER_CUP = 250;
+
+const logMealArgs = z.object({
+  meal_name: z.string().min(1).max(120),
+  calories: z.number().min(0).max(5000),
+  protein_g: z.number().min(0).max(500).default(0),
+  carbs_g: z.number().min(0).max(1000).default(0),
+  fats_g: z.number().min(0).max(500).default(0),
+  fiber_g: z.number().min(0).max(200).optional(),
+  meal_period: z
+    .enum(["breakfast", "lunch", "dinner", "snack", "late_night", "other"])
+    .default("other"),
+});
+
+const shoppingListArgs = z.object({
+  items: z
+    .array(
+      z.object({
+        name: z.string().min(1).max(100),
+        quantity: z.number().positive().default(1),
+        unit: z.string().max(20).default("pieces"),
+        category: z.string().max(40).optional(),
+      })
+    )
+    .min(1)
+    .max(30),
+});
+
+const replaceMealArgs = z.object({
+  meal_id: z.string().min(1),
+  reason: z.string().max(200).optional(),
+});
+
+const logWaterArgs = z.object({
+  cups: z.number().int().min(1).max(MAX_WATER_CUPS),
+});
+
+// Writes are proposed by the model and executed only once the user confirms
+const WRITE_TOOLS = {
+  log_meal: {
+    schema: logMealArgs,
+    summarize: (args: z.infer<typeof logMealArgs>) =>
+      `Log "${args.meal_name}" (${Math.round(args.calories)} kcal) as ${
+        args.meal_period
+      }`,
+  },
+  add_to_shopping_list: {
+    schema: shoppingListArgs,
+    summarize: (args: z.infer<typeof shoppingListArgs>) =>
+      `Add ${args.items.length} item(s) to your shopping list: ${args.items
+        .map((item) => item.name)
+        .join(", ")}`,
+  },
+  replace_menu_meal: {
+    schema: replaceMealArgs,
+    summarize: (args: z.infer<typeof replaceMealArgs>) =>
+      `Replace a meal in your active menu${
+        args.reason ? ` (${args.reason})` : ""
+      }`,
+  },
+  log_water: {
+    schema: logWaterArgs,
+    summarize: (args: z.infer<typeof logWaterArgs>) =>
+      `Log ${args.cups} cup(s) of water`,
+  },
+} as const;
+
+type WriteToolName = keyof typeof WRITE_TOOLS;
+
+export const CHAT_TOOLS: ChatCompletionTool[] = [
+  {
+    type: "function",
+    function: {
+      name: "get_daily_progress",
+      description:
+        "Today's nutrition goals and how much the user has eaten and drunk so far.",
+      parameters: { type: "object", properties: {} },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_active_menu",
+      description:
+        "The meals of the user's active recommended menu, with ids usable by replace_menu_meal.",
+      parameters: { type: "object", properties: {} },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "log_meal",
+      description:
+        "Log a meal the user ate. Requires user confirmation before it is saved.",
+      parameters: {
+        type: "object",
+        properties: {
+          meal_name: { type: "string" },
+          calories: { type: "number" },
+          protein_g: { type: "number" },
+          carbs_g: { type: "number" },
+          fats_g: { type: "number" },
+          fiber_g: { type: "number" },
+          meal_period: {
+            type: "string",
+            enum: [
+              "breakfast",
+              "lunch",
+              "dinner",
+              "snack",
+              "late_night",
+              "other",
+            ],
+          },
+        },
+        required: ["meal_name", "calories"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "add_to_shopping_list",
+      description:
+        "Add items to the user's shopping list. Requires user confirmation.",
+      parameters: {
+        type: "object",
+        properties: {
+          items: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                name: { type: "string" },
+                quantity: { type: "number" },
+                unit: { type: "string" },
+                category: { type: "string" },
+              },
+              required: ["name"],
+            },
+          },
+        },
+        required: ["items"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "replace_menu_meal",
+      description:
+        "Swap one meal of the active recommended menu for an alternative. Requires user confirmation.",
+      parameters: {
+        type: "object",
+        properties: {
+          meal_id: { type: "string" },
+          reason: { type: "string" },
+        },
+        required: ["meal_id"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "log_water",
+      description:
+        "Add cups of water (250 ml each) to today's intake. Requires user confirmation.",
+      parameters: {
+        type: "object",
+        properties: { cups: { type: "integer", minimum: 1 } },
+        required: ["cups"],
+      },
+    },
+  },
+];
+
+/**
+ * Runs the chat coach's tools. Reads answer immediately; writes are stored as
+ * pending ChatActions and only touch user data through confirmAction.
+ */
+export class ChatToolService {
+  /**
+   * Handle a tool call from the model and return the JSON it gets back
+   */
+  static async handleToolCall(
+    userId: string,
+    name: string,
+    rawArguments: string,
+    createdActions: ChatActionView[]
+  ): Promise<Record<string, unknown>> {
+    let args: unknown;
+    try {
+      args = rawArguments ? JSON.parse(rawArguments) : {};
+    } catch {
+      return { error: "Arguments must be valid JSON" };
+    }
+
+    try {
+      switch (name) {
+        case "get_daily_progress":
+          return await this.getDailyProgress(userId);
+        case "get_active_menu":
+          return await this.getActiveMenu(userId);
+      }
+
+      if (!(name in WRITE_TOOLS)) {
+        return { error: `Unknown tool: ${name}` };
+      }
+
+      const action = await this.proposeAction(
+        userId,
+        name as WriteToolName,
+        args
+      );
+      createdActions.push(action);
+      return {
+        status: "awaiting_user_confirmation",
+        action_id: action.action_id,
+        summary: action.summary,
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return {
+          error: "Invalid arguments",
+          details: error.errors.map((e) => `${e.path.join(".")}: ${e.message}`),
+        };
+      }
+      if (error instanceof ChatActionError) {
+        return { error: error.message };
+      }
+      console.error(`💥 Chat tool ${name} failed:`, error);
+      return { error: "Tool failed" };
+    }
+  }
+
+  static async proposeAction(
+    userId: string,
+    tool: WriteToolName,
+    rawArgs: unknown
+  ): Promise<ChatActionView> {
+    const definition = WRITE_TOOLS[tool];
+    const args = definition.schema.parse(rawArgs);
+
+    if (tool === "replace_menu_meal") {
+      // Check ownership now so the user is not asked to confirm a dead action
+      await this.findActiveMenuMeal(
+        userId,
+        (args as z.infer<typeof replaceMealArgs>).meal_id
+      );
+    }
+
+    const action = await prisma.chatAction.create({
+      data: {
+        user_id: userId,
+        tool,
+        arguments: args,
+        summary: (definition.summarize as (a: typeof args) => string)(args),
+        expires_at: new Date(Date.now() + ACTION_TTL_MS),
+      },
+    });
+
+    console.log(`📝 Chat action proposed: ${tool} (${action.action_id})`);
+    return this.toView(action);
+  }
+
+  static async attachToMessage(actionIds: string[], messageId: number) {
+    if (actionIds.length === 0) return;
+    await prisma.chatAction.updateMany({
+      where: { action_id: { in: actionIds } },
+      data: { message_id: messageId },
+    });
+  }
+
+  /**
+   * Execute a pending action once. A conditional status update guards against
+   * double taps and concurrent confirmations.
+   */
+  static async confirmAction(
+    userId: string,
+    actionId: string
+  ): Promise<ChatActionView> {
+    const action = await prisma.chatAction.findFirst({
+      where: { action_id: actionId, user_id: userId },
+    });
+    if (!action) {
+      throw new ChatActionError("Action not found", 404);
+    }
+
+    if (action.status === "PENDING" && action.expires_at < new Date()) {
+      await prisma.chatAction.update({
+        where: { action_id: actionId },
+        data: { status: "EXPIRED", resolved_at: new Date() },
+      });
+      throw new ChatActionError("This action has expired", 410);
+    }
+
+    const claimed = await prisma.chatAction.updateMany({
+      where: { action_id: actionId, status: "PENDING" },
+      data: { status: "CONFIRMED", resolved_at: new Date() },
+    });
+    if (claimed.count === 0) {
+      throw new ChatActionError(
+        `This action was already ${action.status.toLowerCase()}`,
+        409
+      );
+    }
+
+    try {
+      const result = await this.executeAction(
+        userId,
+        action.tool as WriteToolName,
+        action.arguments
+      );
+      const updated = await prisma.chatAction.update({
+        where: { action_id: actionId },
+        data: { result: JSON.parse(JSON.stringify(result)) },
+      });
+      console.log(`✅ Chat action executed: ${action.tool} (${actionId})`);
+      return this.toView(updated);
+    } catch (error) {
+      console.error(`💥 Chat action ${action.tool} failed:`, error);
+      const updated = await prisma.chatAction.update({
+        where: { action_id: actionId },
+        data: {
+          status: "FAILED",
+          error: error instanceof Error ? error.message : "Action failed",
+        },
+      });
+      return this.toView(updated);
+    }
+  }
+
+  static async cancelAction(
+    userId: string,
+    actionId: string
+  ): Promise<ChatActionView> {
+    const cancelled = await prisma.chatAction.updateMany({
+      where: { action_id: actionId, user_id: userId, status: "PENDING" },
+      data: { status: "CANCELLED", resolved_at: new Date() },
+    });
+
+    const action = await prisma.chatAction.findFirst({
+      where: { action_id: actionId, user_id: userId },
+    });
+    if (!action) {
+      throw new ChatActionError("Action not found", 404);
+    }
+    if (cancelled.count === 0) {
+      throw new ChatActionError(
+        `This action was already ${action.status.toLowerCase()}`,
+        409
+      );
+    }
+    return this.toView(action);
+  }
+
+  static toView(action: {
+    action_id: string;
+    tool: string;
+    summary: string;
+    status: string;
+    expires_at: Date;
+    result?: unknown;
+    error?: string | null;
+  }): ChatActionView {
+    return {
+      action_id: action.action_id,
+      tool: action.tool,
+      summary: action.summary,
+      status: action.status,
+      expires_at: action.expires_at,
+      result: action.result ?? undefined,
+      error: action.error ?? null,
+    };
+  }
+
+  private static async executeAction(
+    userId: string,
+    tool: WriteToolName,
+    rawArgs: unknown
+  ) {
+    switch (tool) {
+      case "log_meal": {
+        const args = logMealArgs.parse(rawArgs);
+        const meal = await NutritionService.saveMeal(userId, {
+          ...args,
+          mealPeriod: args.meal_period,
+        });
+        return { meal_id: meal.id, meal_name: args.meal_name };
+      }
+
+      case "add_to_shopping_list": {
+        const { items } = shoppingListArgs.parse(rawArgs);
+        const { added, updated } = await ShoppingListService.addItems(
+          userId,
+          items,
+          { addedFrom: "chat" }
+        );
+        return { added: added.length + updated.length };
+      }
+
+      case "replace_menu_meal": {
+        const args = replaceMealArgs.parse(rawArgs);
+        const meal = await this.findActiveMenuMeal(userId, args.meal_id);
+        const replacement = await RecommendedMenuService.replaceMeal(
+          userId,
+          meal.menu_id,
+          meal.meal_id,
+          { reason: args.reason }
+        );
+        return {
+          meal_id: replacement.meal_id,
+          replaced: meal.name,
+          new_meal: replacement.name,
+        };
+      }
+
+      case "log_water": {
+        const { cups } = logWaterArgs.parse(rawArgs);
+        const timeZone = await getUserTimeZone(userId);
+        const today = dayKeyToDate(getUserDay(timeZone));
+
+        const existing = await prisma.waterIntake.findUnique({
+          where: { user_id_date: { user_id: userId, date: today } },
+        });
+        const total = Math.min(
+          (existing?.cups_consumed || 0) + cups,
+          MAX_WATER_CUPS
+        );
+
+        const record = await prisma.waterIntake.upsert({
+          where: { user_id_date: { user_id: userId, date: today } },
+          update: {
+            cups_consumed: total,
+            milliliters_consumed: total * ML_PER_CUP,
+          },
+          create: {
+            user_id: userId,
+            date: today,
+            cups_consumed: total,
+            milliliters_consumed: total * ML_PER_CUP,
+          },
+        });
+        return { cups_today: record.cups_consumed };
+      }
+    }
+  }
+
+  private static async findActiveMenuMeal(userId: string, mealId: string) {
+    const meal = await prisma.recommendedMeal.findFirst({
+      where: { meal_id: mealId, menu: { user_id: userId, is_active: true } },
+      select: { meal_id: true, menu_id: true, name: true },
+    });
+    if (!meal) {
+      throw new ChatActionError("Meal not found in the active menu", 404);
+    }
+    return meal;
+  }
+
+  private static async getDailyProgress(userId: string) {
+    const timeZone = await getUserTimeZone(userId);
+    const today = getUserDay(timeZone);
+    const { start: startOfDay, end: endOfDay } = getDayBounds(timeZone, today);
+
+    const [goals, consumed, water] = await Promise.all([
+      DailyGoalsService.getDailyGoals(userId),
+      prisma.meal.aggregate({
+        where: {
+          user_id: userId,
+          created_at: { gte: startOfDay, lt: endOfDay },
+        },
+        _sum: {
+          calories: true,
+          protein_g: true,
+          carbs_g: true,
+          fats_g: true,
+          fiber_g: true,
+        },
+        _count: true,
+      }),
+      prisma.waterIntake.findUnique({
+        where: {
+          user_id_date: { user_id: userId, date: dayKeyToDate(today) },
+        },
+      }),
+    ]);
+
+    return {
+      goals,
+      consumed: {
+        meals_logged: consumed._count,
+        calories: consumed._sum.calories || 0,
+        protein_g: consumed._sum.protein_g || 0,
+        carbs_g: consumed._sum.carbs_g || 0,
+        fats_g: consumed._sum.fats_g || 0,
+        fiber_g: consumed._sum.fiber_g || 0,
+        water_ml: water?.milliliters_consumed || 0,
+      },
+    };
+  }
+
+  private static async getActiveMenu(userId: string) {
+    const menu = await prisma.recommendedMenu.findFirst({
+      where: { user_id: userId, is_active: true },
+      orderBy: { created_at: "desc" },
+      select: {
+        menu_id: true,
+        title: true,
+        days_count: true,
+        meals: {
+          orderBy: [{ day_number: "asc" }, { meal_type: "asc" }],
+          select: {
+            meal_id: true,
+            name: true,
+            meal_type: true,
+            day_number: true,
+            calories: true,
+            protein: true,
+          },
+        },
+      },
+    });
+
+    return menu ? { menu } : { menu: null, message: "No active menu" };
+  }
+}
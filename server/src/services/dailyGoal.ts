@@ -1,4 +1,12 @@
 import { prisma } from "../lib/database";
+import {
+  addDays,
+  dayKeyToDate,
+  getDayOfWeek,
+  getUserDay,
+  getUserTimeZone,
+  getUserToday,
+} from "../utils/userDay";
 
 // Define activity level type
 type ActivityLevel = "NONE" | "LIGHT" | "MODERATE" | "HIGH";
@@ -30,17 +38,16 @@ export class DailyGoalsService {
       }
 
       const questionnaire = user.questionnaires[0];
-      const today = new Date();
+      const today = getUserToday(user.timezone);
 
       // Calculate daily goals based on questionnaire
       const dailyGoals = this.calculateDailyGoals(questionnaire);
 
       // Check if daily goals already exist for today
-      const todayString = today.toISOString().split("T")[0];
       const existingGoals = await prisma.dailyGoal.findFirst({
         where: {
           user_id: userId,
-          date: new Date(todayString),
+          date: today,
         },
       });
 
@@ -60,7 +67,7 @@ export class DailyGoalsService {
         savedGoals = await prisma.dailyGoal.create({
           data: {
             user_id: userId,
-            date: new Date(todayString),
+            date: today,
             ...dailyGoals,
           },
         });
@@ -83,10 +90,7 @@ export class DailyGoalsService {
     }
   }
 
-  private static async shouldCreateDailyGoals(
-    user: any,
-    today: Date
-  ): Promise<boolean> {
+  private static async shouldCreateDailyGoals(user: any): Promise<boolean> {
     try {
       // Premium users get daily goals every day
       if (
@@ -97,29 +101,23 @@ export class DailyGoalsService {
       }
 
       // Free users get new daily goals every 7 days based on signup day
-      const signupDate = new Date(user.signup_date);
-      const signupDayOfWeek = signupDate.getDay(); // 0 = Sunday, 1 = Monday, etc.
-      const todayDayOfWeek = today.getDay();
+      const today = getUserDay(user.timezone);
+      const signupDayOfWeek = getDayOfWeek(
+        getUserDay(user.timezone, new Date(user.signup_date))
+      ); // 0 = Sunday, 1 = Monday, etc.
 
       // Check if today is the user's "goal creation day"
-      if (todayDayOfWeek !== signupDayOfWeek) {
+      if (getDayOfWeek(today) !== signupDayOfWeek) {
         return false;
       }
 
       // Check if goals were already created this week
-      const weekStart = new Date(today);
-      weekStart.setDate(today.getDate() - todayDayOfWeek + signupDayOfWeek);
-      weekStart.setHours(0, 0, 0, 0);
-
-      const weekEnd = new Date(weekStart);
-      weekEnd.setDate(weekStart.getDate() + 7);
-
       const existingGoalsThisWeek = await prisma.dailyGoal.findFirst({
         where: {
           user_id: user.user_id,
-          created_at: {
-            gte: weekStart,
-            lt: weekEnd,
+          date: {
+            gte: dayKeyToDate(today),
+            lt: dayKeyToDate(addDays(today, 7)),
           },
         },
       });
@@ -133,7 +131,7 @@ export class DailyGoalsService {
 
   private static async createDefaultGoals(userId: string, questionnaire: any) {
     const defaultGoals = this.calculateDailyGoals(questionnaire);
-    const today = new Date().toISOString().split("T")[0];
+    const today = getUserToday(await getUserTimeZone(userId));
 
     return await prisma.dailyGoal.create({
       data: {
@@ -218,13 +216,13 @@ export class DailyGoalsService {
     try {
       console.log(`📊 Getting daily goals for user: ${userId}`);
 
-      const today = new Date().toISOString().split("T")[0];
+      const today = getUserToday(await getUserTimeZone(userId));
 
       // First try to get today's goals
       const todayGoals = await prisma.dailyGoal.findFirst({
         where: {
           user_id: userId,
-          date: new Date(today),
+          date: today,
         },
       });
 
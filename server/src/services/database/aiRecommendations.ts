@@ -6,6 +6,12 @@ import {
   AIRecommendationResponse,
 } from "../../types/recommendations";
 import { StatisticsService } from "../statistics";
+import {
+  addDays,
+  getDayBounds,
+  getUserDay,
+  getUserTimeZone,
+} from "../../utils/userDay";
 export interface RecommendationCreationResult {
   created: number;
   updated: number;
@@ -15,9 +21,12 @@ export interface RecommendationCreationResult {
 
 export class EnhancedAIRecommendationService {
   /**
-   * Generate AI recommendations for all eligible users
+   * Generate AI recommendations for all eligible users, or only for those in
+   * the given timezones
    */
-  static async generateRecommendationsForAllUsers(): Promise<RecommendationCreationResult> {
+  static async generateRecommendationsForAllUsers(
+    timeZones?: string[]
+  ): Promise<RecommendationCreationResult> {
     console.log("🤖 Starting enhanced AI recommendations generation...");
 
     const result: RecommendationCreationResult = {
@@ -28,15 +37,10 @@ export class EnhancedAIRecommendationService {
     };
 
     try {
-      const today = new Date().toISOString().split("T")[0];
-
-      // Get all users with signup date
+      // Get all users, or those in the given timezones
       const users = await prisma.user.findMany({
-        select: {
-          user_id: true,
-          subscription_type: true,
-          signup_date: true,
-        },
+        where: timeZones ? { timezone: { in: timeZones } } : undefined,
+        select: { user_id: true },
       });
 
       console.log(`🎯 Found ${users.length} users to process.`);
@@ -54,55 +58,13 @@ export class EnhancedAIRecommendationService {
         await Promise.all(
           batch.map(async (user) => {
             try {
-              // Import plan limits
-              const { shouldCreateAIRecommendationToday } = await import(
-                "../../config/planLimits"
+              const created = await this.generateRecommendationForUser(
+                user.user_id
               );
-
-              // Check if user is eligible based on their tier
-              if (
-                !shouldCreateAIRecommendationToday(
-                  user.subscription_type,
-                  user.signup_date
-                )
-              ) {
-                result.skipped++;
-                console.log(
-                  `⏭️ Skipped user ${user.user_id} - tier not eligible for AI recommendations today.`
-                );
-                return;
-              }
-
-              // Double-check for duplicates
-              const duplicateCheck =
-                await DatabaseOptimizationService.checkForDuplicates(
-                  user.user_id,
-                  today
-                );
-
-              if (duplicateCheck.hasRecommendation) {
-                result.skipped++;
-                console.log(
-                  `⏭️ Skipped user ${user.user_id} - recommendation already exists`
-                );
-                return;
-              }
-
-              // Generate personalized recommendations
-              const recommendation =
-                await this.generatePersonalizedRecommendation(
-                  user.user_id,
-                  // Assuming questionnaire data can be fetched here if needed,
-                  // or passed if available in the user object.
-                  // For now, let's assume it's fetched within generatePersonalizedRecommendation.
-                  null // Placeholder, as questionnaire is not directly fetched here.
-                );
-
-              if (recommendation) {
+              if (created) {
                 result.created++;
-                console.log(
-                  `✅ Generated recommendation for user: ${user.user_id}`
-                );
+              } else {
+                result.skipped++;
               }
             } catch (error) {
               result.errors.push(
@@ -135,6 +97,54 @@ export class EnhancedAIRecommendationService {
     }
   }
 
+  /**
+   * Generate today's recommendation for one user, unless their tier doesn't
+   * get one today or it already exists. Returns whether one was created.
+   */
+  static async generateRecommendationForUser(userId: string): Promise<boolean> {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { user_id: userId },
+      select: { subscription_type: true, signup_date: true, timezone: true },
+    });
+
+    // Import plan limits
+    const { shouldCreateAIRecommendationToday } = await import(
+      "../../config/planLimits"
+    );
+
+    // Check if user is eligible based on their tier
+    if (
+      !shouldCreateAIRecommendationToday(
+        user.subscription_type,
+        user.signup_date
+      )
+    ) {
+      console.log(
+        `⏭️ Skipped user ${userId} - tier not eligible for AI recommendations today.`
+      );
+      return false;
+    }
+
+    // Double-check for duplicates
+    const duplicateCheck = await DatabaseOptimizationService.checkForDuplicates(
+      userId,
+      getUserDay(user.timezone)
+    );
+    if (duplicateCheck.hasRecommendation) {
+      console.log(`⏭️ Skipped user ${userId} - recommendation already exists`);
+      return false;
+    }
+
+    const recommendation = await this.generatePersonalizedRecommendation(
+      userId,
+      null
+    );
+    if (recommendation) {
+      console.log(`✅ Generated recommendation for user: ${userId}`);
+    }
+    return !!recommendation;
+  }
+
   /**
    * Generate daily recommendations for a specific user
    */
@@ -158,12 +168,14 @@ export class EnhancedAIRecommendationService {
       }
 
       // Import plan limits
-      const { shouldCreateDailyGoals } = await import(
+      const { shouldCreateDailyGoalToday } = await import(
         "../../config/planLimits"
       );
 
       // Check if user is eligible for daily goals based on their tier
-      if (!shouldCreateDailyGoals(user.subscription_type, user.signup_date)) {
+      if (
+        !shouldCreateDailyGoalToday(user.subscription_type, user.signup_date)
+      ) {
         console.log(
           `⏭️ Skipping daily goals for user ${userId} - tier not eligible.`
         );
@@ -177,16 +189,12 @@ export class EnhancedAIRecommendationService {
         "week"
       );
 
-      // Get yesterday's performance specifically
-      const yesterday = new Date();
-      yesterday.setDate(yesterday.getDate() - 1);
-      const yesterdayStart = new Date(
-        yesterday.getFullYear(),
-        yesterday.getMonth(),
-        yesterday.getDate()
+      // Get yesterday's performance specifically, in the user's timezone
+      const timeZone = await getUserTimeZone(userId);
+      const { start: yesterdayStart, end: yesterdayEnd } = getDayBounds(
+        timeZone,
+        addDays(getUserDay(timeZone), -1)
       );
-      const yesterdayEnd = new Date(yesterdayStart);
-      yesterdayEnd.setDate(yesterdayEnd.getDate() + 1);
 
       const yesterdayStats = await StatisticsService.getPeriodConsumption(
         userId,
@@ -653,7 +661,7 @@ Be specific, actionable, and encouraging. Consider the user's allergies and diet
     recommendations: AIRecommendationResponse
   ): Promise<DailyRecommendation> {
     try {
-      const today = new Date().toISOString().split("T")[0];
+      const today = getUserDay(await getUserTimeZone(userId));
 
       const saved = await prisma.aiRecommendation.create({
         data: {
@@ -1,5 +1,11 @@
 import { prisma } from "../../lib/database";
 import { NutritionGoals } from "../../types/statistics";
+import {
+  getUserDay,
+  getUserTimeZone,
+  getUserToday,
+  dayKeyToDate,
+} from "../../utils/userDay";
 
 export interface DailyGoalCreationResult {
   created: number;
@@ -15,9 +21,14 @@ export interface DailyGoalCreationResult {
 
 export class EnhancedDailyGoalsService {
   /**
-   * FIXED - Create daily goals for all users with PROPER upsert operations
+   * FIXED - Create daily goals for all users with PROPER upsert operations.
+   * Each user gets the goal for their own local day; pass timeZones to only
+   * process users in those zones (the scheduler runs it as each zone reaches
+   * midnight).
    */
-  static async createDailyGoalsForAllUsers(): Promise<DailyGoalCreationResult> {
+  static async createDailyGoalsForAllUsers(
+    timeZones?: string[]
+  ): Promise<DailyGoalCreationResult> {
     console.log(`📊 === STARTING DAILY GOALS CREATION (ENHANCED VERSION) ===`);
 
     const result: DailyGoalCreationResult = {
@@ -33,26 +44,29 @@ export class EnhancedDailyGoalsService {
       await prisma.$queryRaw`SELECT 1`;
       console.log("✅ Database connection verified");
 
-      // Step 1: Get today's date in the correct format (UTC midnight)
-      const now = new Date();
-      const todayString = now.toISOString().split("T")[0];
-      const todayDate = new Date(todayString + "T00:00:00.000Z");
-
-      console.log(`📅 TODAY: ${todayString}`);
-      console.log(`📅 TODAY DATE OBJECT: ${todayDate.toISOString()}`);
-
-      // Step 2: Get ALL users from database
+      // Step 1: Get ALL users from database
       console.log("👥 FETCHING ALL USERS...");
       const allUsers = await prisma.user.findMany({
+        where: timeZones && { timezone: { in: timeZones } },
         select: {
           user_id: true,
           email: true,
           subscription_type: true,
           is_questionnaire_completed: true,
           created_at: true,
+          timezone: true,
         },
       });
 
+      // Step 2: Today's date for each user, stored as UTC midnight
+      const now = new Date();
+      const todayKeys = new Map(
+        allUsers.map((user) => [user.user_id, getUserDay(user.timezone, now)])
+      );
+      const todayDates = [...new Set(todayKeys.values())].map(dayKeyToDate);
+
+      console.log(`📅 TODAY: ${[...new Set(todayKeys.values())].join(", ")}`);
+
       console.log(`👥 TOTAL USERS FOUND: ${allUsers.length}`);
 
       if (allUsers.length === 0) {
@@ -90,17 +104,25 @@ export class EnhancedDailyGoalsService {
       console.log("🔍 CHECKING EXISTING GOALS FOR TODAY...");
       const existingGoals = await prisma.dailyGoal.findMany({
         where: {
-          date: todayDate,
+          date: { in: todayDates },
         },
         select: {
           user_id: true,
           id: true,
           calories: true,
+          date: true,
         },
       });
 
-      console.log(`📊 EXISTING GOALS FOR TODAY: ${existingGoals.length}`);
-      const existingUserIds = new Set(existingGoals.map((g) => g.user_id));
+      const existingUserIds = new Set(
+        existingGoals
+          .filter(
+            (g) =>
+              todayKeys.get(g.user_id) === g.date.toISOString().split("T")[0]
+          )
+          .map((g) => g.user_id)
+      );
+      console.log(`📊 EXISTING GOALS FOR TODAY: ${existingUserIds.size}`);
 
       // Step 5: Process EACH user individually with UPSERT operations
       for (let i = 0; i < allUsers.length; i++) {
@@ -119,6 +141,8 @@ export class EnhancedDailyGoalsService {
             `📋 Questionnaire found for ${user.user_id}: ${!!questionnaire}`
           );
 
+          const todayDate = dayKeyToDate(todayKeys.get(user.user_id)!);
+
           // Calculate personalized goals
           const goals = this.calculatePersonalizedGoals(questionnaire);
           console.log(`🎯 Calculated goals for ${user.user_id}:`, goals);
@@ -222,7 +246,8 @@ export class EnhancedDailyGoalsService {
       console.log("\n🔍 FINAL VERIFICATION: Counting all goals for today...");
       const finalGoalCount = await prisma.dailyGoal.count({
         where: {
-          date: todayDate,
+          date: { in: todayDates },
+          user_id: { in: allUsers.map((user) => user.user_id) },
         },
       });
 
@@ -231,7 +256,8 @@ export class EnhancedDailyGoalsService {
       // List all goals for today for verification
       const allTodayGoals = await prisma.dailyGoal.findMany({
         where: {
-          date: todayDate,
+          date: { in: todayDates },
+          user_id: { in: allUsers.map((user) => user.user_id) },
         },
         select: {
           id: true,
@@ -283,13 +309,6 @@ export class EnhancedDailyGoalsService {
     };
 
     try {
-      const today = new Date();
-      const todayString = today.toISOString().split("T")[0];
-      const todayDate = new Date(todayString);
-
-      console.log(`📅 Force creating goals for date: ${todayString}`);
-      console.log(`📅 Date object: ${todayDate.toISOString()}`);
-
       // Get ALL users with questionnaires
       const allUsers = await prisma.user.findMany({
         include: {
@@ -302,17 +321,35 @@ export class EnhancedDailyGoalsService {
 
       console.log(`👥 FORCE processing ${allUsers.length} users`);
 
+      // Each user's own today, stored as UTC midnight
+      const now = new Date();
+      const todayKeys = new Map(
+        allUsers.map((user) => [user.user_id, getUserDay(user.timezone, now)])
+      );
+      const todayDates = [...new Set(todayKeys.values())].map(dayKeyToDate);
+      console.log(
+        `📅 Force creating goals for dates: ${[...new Set(todayKeys.values())].join(", ")}`
+      );
+
       // Get existing goals to determine create vs update
       const existingGoals = await prisma.dailyGoal.findMany({
         where: {
-          date: todayDate,
+          date: { in: todayDates },
         },
         select: {
           user_id: true,
+          date: true,
         },
       });
 
-      const existingUserIds = new Set(existingGoals.map((g) => g.user_id));
+      const existingUserIds = new Set(
+        existingGoals
+          .filter(
+            (g) =>
+              todayKeys.get(g.user_id) === g.date.toISOString().split("T")[0]
+          )
+          .map((g) => g.user_id)
+      );
       console.log(`📊 Users with existing goals: ${existingUserIds.size}`);
 
       for (let i = 0; i < allUsers.length; i++) {
@@ -327,6 +364,7 @@ export class EnhancedDailyGoalsService {
 
           const questionnaire = user.questionnaires[0];
           const goals = this.calculatePersonalizedGoals(questionnaire);
+          const todayDate = dayKeyToDate(todayKeys.get(user.user_id)!);
 
           console.log(`🎯 Goals calculated for ${user.user_id}:`, goals);
 
@@ -426,7 +464,7 @@ export class EnhancedDailyGoalsService {
       // Final verification
       const finalCount = await prisma.dailyGoal.count({
         where: {
-          date: todayDate,
+          date: { in: todayDates },
         },
       });
 
@@ -439,7 +477,7 @@ export class EnhancedDailyGoalsService {
 
       // List all goals for verification
       const allGoals = await prisma.dailyGoal.findMany({
-        where: { date: todayDate },
+        where: { date: { in: todayDates } },
         select: {
           id: true,
           user_id: true,
@@ -476,9 +514,8 @@ export class EnhancedDailyGoalsService {
     try {
       console.log(`📊 === GETTING DAILY GOALS FOR USER: ${userId} ===`);
 
-      const today = new Date();
-      const todayString = today.toISOString().split("T")[0];
-      const todayDate = new Date(todayString);
+      const todayDate = getUserToday(await getUserTimeZone(userId));
+      const todayString = todayDate.toISOString().split("T")[0];
 
       console.log(`📅 Looking for goals on date: ${todayString}`);
       console.log(`📅 Date object: ${todayDate.toISOString()}`);
@@ -584,9 +621,8 @@ export class EnhancedDailyGoalsService {
       const questionnaire = user.questionnaires[0];
       const goals = this.calculatePersonalizedGoals(questionnaire);
 
-      const today = new Date();
-      const todayString = today.toISOString().split("T")[0];
-      const todayDate = new Date(todayString);
+      const todayDate = getUserToday(user.timezone);
+      const todayString = todayDate.toISOString().split("T")[0];
 
       console.log(`🎯 Calculated goals for ${userId}:`, goals);
       console.log(`📅 Creating for date: ${todayString}`);
@@ -817,9 +853,8 @@ export class EnhancedDailyGoalsService {
     try {
       console.log(`📊 === CREATING DAILY GOAL FOR SINGLE USER: ${userId} ===`);
 
-      const today = new Date();
-      const todayString = today.toISOString().split("T")[0];
-      const todayDate = new Date(todayString);
+      const todayDate = getUserToday(await getUserTimeZone(userId));
+      const todayString = todayDate.toISOString().split("T")[0];
 
       console.log(`📅 Creating goal for date: ${todayString}`);
 
@@ -0,0 +1,257 @@
+import { DeviceBackfill } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { DeviceBackfillError, ProviderDailyMetrics } from "../types/devices";
+import { getProviderAdapter } from "./deviceProviders";
+import { addDays, chunkRange, toYmd } from "./deviceProviders/utils";
+import { DeviceSyncService } from "./deviceSync";
+
+export const BACKFILL_MAX_DAYS = 365;
+export const BACKFILL_BATCH_MAX_DAYS = 31;
+// Provider pulls are stored a week at a time so progress moves steadily
+const PROVIDER_CHUNK_DAYS = 7;
+// A running backfill with no progress for this long is treated as abandoned
+const STALE_BACKFILL_MS = 30 * 60 * 1000;
+
+function toDbDate(ymd: string): Date {
+  return new Date(`${ymd}T00:00:00.000Z`);
+}
+
+/**
+ * Historical imports into DailyActivitySummary. Devices with a server-side
+ * adapter are pulled in the background; the rest (e.g. Apple Health) are
+ * pushed by the app in per-day batches. Every day is an idempotent upsert on
+ * (user_id, device_id, date), so retrying a batch or a whole range is safe.
+ */
+export class DeviceBackfillService {
+  static async startBackfill(
+    userId: string,
+    deviceId: string,
+    startDate: string,
+    endDate: string
+  ) {
+    const device = await prisma.connectedDevice.findFirst({
+      where: { connected_device_id: deviceId, user_id: userId },
+    });
+    if (!device) {
+      throw new DeviceBackfillError("Device not found", 404);
+    }
+
+    const start = toDbDate(startDate);
+    const end = toDbDate(endDate);
+    const today = toDbDate(toYmd(new Date()));
+    if (start > end) {
+      throw new DeviceBackfillError("startDate must not be after endDate");
+    }
+    // One day of slack for users in time zones ahead of UTC
+    if (end > addDays(today, 1)) {
+      throw new DeviceBackfillError("Cannot backfill future dates");
+    }
+    const daysTotal =
+      Math.round((end.getTime() - start.getTime()) / 86400000) + 1;
+    if (daysTotal > BACKFILL_MAX_DAYS) {
+      throw new DeviceBackfillError(
+        `A backfill can cover at most ${BACKFILL_MAX_DAYS} days`
+      );
+    }
+
+    const running = await prisma.deviceBackfill.findFirst({
+      where: {
+        device_id: deviceId,
+        status: "RUNNING",
+        updated_at: { gt: new Date(Date.now() - STALE_BACKFILL_MS) },
+      },
+    });
+    if (running) {
+      throw new DeviceBackfillError(
+        "A backfill is already running for this device",
+        409
+      );
+    }
+
+    const adapter = getProviderAdapter(device.device_type);
+    const backfill = await prisma.deviceBackfill.create({
+      data: {
+        user_id: userId,
+        device_id: deviceId,
+        source: adapter ? "PROVIDER" : "CLIENT",
+        start_date: start,
+        end_date: end,
+        days_total: daysTotal,
+      },
+    });
+
+    if (adapter) {
+      // Runs after the response; progress is read back through getBackfill
+      this.runProviderBackfill(backfill).catch((error) =>
+        console.error("💥 Provider backfill crashed:", error)
+      );
+    }
+
+    return this.toView(backfill);
+  }
+
+  /**
+   * Store one batch of days pushed by the app for a CLIENT backfill
+   */
+  static async ingestDays(
+    userId: string,
+    deviceId: string,
+    backfillId: string,
+    days: ProviderDailyMetrics[],
+    through?: string
+  ) {
+    const backfill = await prisma.deviceBackfill.findFirst({
+      where: { backfill_id: backfillId, device_id: deviceId, user_id: userId },
+      include: { device: true },
+    });
+    if (!backfill) {
+      throw new DeviceBackfillError("Backfill not found", 404);
+    }
+    if (backfill.source !== "CLIENT") {
+      throw new DeviceBackfillError("This backfill is pulled by the server");
+    }
+    if (backfill.status !== "RUNNING") {
+      throw new DeviceBackfillError("Backfill is no longer running", 409);
+    }
+
+    const outOfRange = [...days.map((day) => day.date), through].find(
+      (ymd) =>
+        ymd !== undefined &&
+        (toDbDate(ymd) < backfill.start_date ||
+          toDbDate(ymd) > backfill.end_date)
+    );
+    if (outOfRange) {
+      throw new DeviceBackfillError(
+        `${outOfRange} is outside the backfill range`
+      );
+    }
+
+    for (const day of days) {
+      await DeviceSyncService.saveDailyMetrics(userId, backfill.device, day);
+    }
+
+    // `through` lets the app advance past days it had no data for
+    const latest = [
+      ...days.map((day) => day.date),
+      ...(through ? [through] : []),
+    ]
+      .sort()
+      .pop();
+    const updated = await this.recordProgress(backfill, latest, days.length);
+    return this.toView(updated);
+  }
+
+  static async getBackfill(
+    userId: string,
+    deviceId: string,
+    backfillId: string
+  ) {
+    const backfill = await prisma.deviceBackfill.findFirst({
+      where: { backfill_id: backfillId, device_id: deviceId, user_id: userId },
+    });
+    return backfill ? this.toView(backfill) : null;
+  }
+
+  private static async runProviderBackfill(backfill: DeviceBackfill) {
+    const device = await prisma.connectedDevice.findUniqueOrThrow({
+      where: { connected_device_id: backfill.device_id },
+    });
+    const adapter = getProviderAdapter(device.device_type)!;
+    let current = backfill;
+
+    try {
+      for (const chunk of chunkRange(
+        { start: backfill.start_date, end: backfill.end_date },
+        PROVIDER_CHUNK_DAYS
+      )) {
+        const days = await DeviceSyncService.pullRange(
+          backfill.user_id,
+          device,
+          adapter,
+          { start: chunk.start, end: chunk.end }
+        );
+        current = await this.recordProgress(
+          current,
+          toYmd(chunk.end),
+          days.length
+        );
+      }
+      console.log(
+        `✅ Backfilled ${current.days_written} days from ${device.device_type}`
+      );
+    } catch (error) {
+      console.error(`💥 ${device.device_type} backfill failed:`, error);
+      await prisma.deviceBackfill.update({
+        where: { backfill_id: backfill.backfill_id },
+        data: {
+          status: "FAILED",
+          error: error instanceof Error ? error.message : "Backfill failed",
+          completed_at: new Date(),
+        },
+      });
+    }
+  }
+
+  /**
+   * Progress is the latest day covered rather than a running count, so a
+   * retried batch does not push it past 100%
+   */
+  private static async recordProgress(
+    backfill: DeviceBackfill,
+    latestDate: string | undefined,
+    daysWritten: number
+  ) {
+    const reached = latestDate ? toDbDate(latestDate) : null;
+    const processedThrough =
+      reached &&
+      (!backfill.processed_through || reached > backfill.processed_through)
+        ? reached
+        : backfill.processed_through;
+    const done =
+      !!processedThrough &&
+      processedThrough.getTime() >= backfill.end_date.getTime();
+
+    return prisma.deviceBackfill.update({
+      where: { backfill_id: backfill.backfill_id },
+      data: {
+        processed_through: processedThrough,
+        days_written: { increment: daysWritten },
+        ...(done && { status: "COMPLETED", completed_at: new Date() }),
+      },
+    });
+  }
+
+  static toView(backfill: DeviceBackfill) {
+    const daysProcessed = backfill.processed_through
+      ? Math.round(
+          (backfill.processed_through.getTime() -
+            backfill.start_date.getTime()) /
+            86400000
+        ) + 1
+      : 0;
+
+    return {
+      backfill_id: backfill.backfill_id,
+      device_id: backfill.device_id,
+      source: backfill.source,
+      status: backfill.status,
+      start_date: toYmd(backfill.start_date),
+      end_date: toYmd(backfill.end_date),
+      days_total: backfill.days_total,
+      days_processed: daysProcessed,
+      days_written: backfill.days_written,
+      progress: Math.min(
+        100,
+        Math.round((daysProcessed / backfill.days_total) * 100)
+      ),
+      next_date: toYmd(
+        addDays(
+          backfill.processed_through || addDays(backfill.start_date, -1),
+          1
+        )
+      ),
+      error: backfill.error,
+      completed_at: backfill.completed_at,
+    };
+  }
+}
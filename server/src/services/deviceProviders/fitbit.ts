@@ -0,0 +1,147 @@
+import {
+  DeviceProviderAdapter,
+  ProviderDailyMetrics,
+  ProviderDateRange,
+  ProviderHttpClient,
+  ProviderTokens,
+} from "../../types/devices";
+import {
+  chunkRange,
+  DailyMetricsCollector,
+  secondsFromNow,
+  toYmd,
+} from "./utils";
+
+const API_BASE = "https://api.fitbit.com";
+export const FITBIT_TOKEN_URL = `${API_BASE}/oauth2/token`;
+
+// Longest range each Fitbit endpoint accepts per request
+const ACTIVITY_MAX_DAYS = 365;
+const SLEEP_MAX_DAYS = 100;
+const WEIGHT_MAX_DAYS = 31;
+
+/**
+ * Fitbit Web API. Units default to metric because no Accept-Language is sent.
+ */
+export class FitbitAdapter implements DeviceProviderAdapter {
+  readonly deviceType = "FITBIT";
+
+  constructor(
+    private http: ProviderHttpClient,
+    private clientId: string = process.env.FITBIT_CLIENT_ID || "",
+    private clientSecret: string = process.env.FITBIT_CLIENT_SECRET || ""
+  ) {}
+
+  async refreshTokens(refreshToken: string): Promise<ProviderTokens> {
+    const credentials = Buffer.from(
+      `${this.clientId}:${this.clientSecret}`
+    ).toString("base64");
+    const data = await this.http.postForm(
+      FITBIT_TOKEN_URL,
+      { grant_type: "refresh_token", refresh_token: refreshToken },
+      { Authorization: `Basic ${credentials}` }
+    );
+
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+      expiresAt: secondsFromNow(data.expires_in),
+    };
+  }
+
+  async fetchDailyMetrics(
+    accessToken: string,
+    range: ProviderDateRange
+  ): Promise<ProviderDailyMetrics[]> {
+    const headers = { Authorization: `Bearer ${accessToken}` };
+    const collector = new DailyMetricsCollector();
+
+    for (const chunk of chunkRange(range, ACTIVITY_MAX_DAYS)) {
+      const span = `${toYmd(chunk.start)}/${toYmd(chunk.end)}`;
+
+      const series = async (resource: string) => {
+        const data = await this.http.get(
+          `${API_BASE}/1/user/-/activities/${resource}/date/${span}.json`,
+          { headers }
+        );
+        return (data[`activities-${resource}`] || []) as {
+          dateTime: string;
+          value: string;
+        }[];
+      };
+
+      for (const point of await series("steps")) {
+        collector.add(point.dateTime, { steps: Number(point.value) });
+      }
+      for (const point of await series("calories")) {
+        collector.add(point.dateTime, { caloriesBurned: Number(point.value) });
+      }
+      for (const point of await series("distance")) {
+        collector.add(point.dateTime, { distanceKm: Number(point.value) });
+      }
+
+      const fairly = await series("minutesFairlyActive");
+      const very = new Map(
+        (await series("minutesVeryActive")).map((point) => [
+          point.dateTime,
+          Number(point.value),
+        ])
+      );
+      for (const point of fairly) {
+        collector.add(point.dateTime, {
+          activeMinutes: Number(point.value) + (very.get(point.dateTime) || 0),
+        });
+      }
+
+      const heart = await this.http.get(
+        `${API_BASE}/1/user/-/activities/heart/date/${span}.json`,
+        { headers }
+      );
+      // Daily summaries only expose the resting rate; zone bounds are not a real max
+      for (const day of heart["activities-heart"] || []) {
+        collector.add(day.dateTime, {
+          heartRateAvg: day.value?.restingHeartRate,
+        });
+      }
+    }
+
+    for (const chunk of chunkRange(range, SLEEP_MAX_DAYS)) {
+      const data = await this.http.get(
+        `${API_BASE}/1.2/user/-/sleep/date/${toYmd(chunk.start)}/${toYmd(
+          chunk.end
+        )}.json`,
+        { headers }
+      );
+      const minutesByDay = new Map<string, number>();
+      for (const log of data.sleep || []) {
+        minutesByDay.set(
+          log.dateOfSleep,
+          (minutesByDay.get(log.dateOfSleep) || 0) + (log.minutesAsleep || 0)
+        );
+      }
+      for (const [date, minutes] of minutesByDay) {
+        collector.add(date, {
+          sleepHours: Math.round((minutes / 60) * 10) / 10,
+        });
+      }
+    }
+
+    for (const chunk of chunkRange(range, WEIGHT_MAX_DAYS)) {
+      const data = await this.http.get(
+        `${API_BASE}/1/user/-/body/log/weight/date/${toYmd(
+          chunk.start
+        )}/${toYmd(chunk.end)}.json`,
+        { headers }
+      );
+      // Logs come oldest first, so the last entry of a day wins
+      for (const log of data.weight || []) {
+        collector.add(log.date, {
+          weightKg: log.weight,
+          bodyFatPercentage: log.fat,
+        });
+      }
+    }
+
+    return collector.toArray();
+  }
+}
@@ -0,0 +1,116 @@
+import {
+  DeviceProviderAdapter,
+  ProviderDailyMetrics,
+  ProviderDateRange,
+  ProviderHttpClient,
+  ProviderTokens,
+} from "../../types/devices";
+import { addDays, DailyMetricsCollector, secondsFromNow, toYmd } from "./utils";
+
+const API_BASE = "https://apis.garmin.com/wellness-api/rest";
+export const GARMIN_TOKEN_URL =
+  "https://diauth.garmin.com/di-oauth2-service/oauth/token";
+
+/**
+ * Garmin Health API. Summaries are queried by upload time and each request may
+ * span at most 24 hours, so the range is walked one day at a time.
+ */
+export class GarminAdapter implements DeviceProviderAdapter {
+  readonly deviceType = "GARMIN";
+
+  constructor(
+    private http: ProviderHttpClient,
+    private clientId: string = process.env.GARMIN_CLIENT_ID || "",
+    private clientSecret: string = process.env.GARMIN_CLIENT_SECRET || ""
+  ) {}
+
+  async refreshTokens(refreshToken: string): Promise<ProviderTokens> {
+    const data = await this.http.postForm(GARMIN_TOKEN_URL, {
+      grant_type: "refresh_token",
+      refresh_token: refreshToken,
+      client_id: this.clientId,
+      client_secret: this.clientSecret,
+    });
+
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+      expiresAt: secondsFromNow(data.expires_in),
+    };
+  }
+
+  async fetchDailyMetrics(
+    accessToken: string,
+    range: ProviderDateRange
+  ): Promise<ProviderDailyMetrics[]> {
+    const headers = { Authorization: `Bearer ${accessToken}` };
+    const collector = new DailyMetricsCollector();
+
+    for (
+      let day = new Date(`${toYmd(range.start)}T00:00:00.000Z`);
+      day <= range.end;
+      day = addDays(day, 1)
+    ) {
+      const params = {
+        uploadStartTimeInSeconds: Math.floor(day.getTime() / 1000),
+        uploadEndTimeInSeconds: Math.floor(addDays(day, 1).getTime() / 1000),
+      };
+
+      const dailies = await this.http.get(`${API_BASE}/dailies`, {
+        headers,
+        params,
+      });
+      for (const daily of dailies || []) {
+        collector.add(daily.calendarDate, {
+          steps: daily.steps,
+          caloriesBurned: daily.activeKilocalories,
+          activeMinutes: Math.round(
+            ((daily.moderateIntensityDurationInSeconds || 0) +
+              (daily.vigorousIntensityDurationInSeconds || 0)) /
+              60
+          ),
+          distanceKm:
+            daily.distanceInMeters !== undefined
+              ? daily.distanceInMeters / 1000
+              : undefined,
+          heartRateAvg: daily.averageHeartRateInBeatsPerMinute,
+          heartRateMax: daily.maxHeartRateInBeatsPerMinute,
+        });
+      }
+
+      const sleeps = await this.http.get(`${API_BASE}/sleeps`, {
+        headers,
+        params,
+      });
+      for (const sleep of sleeps || []) {
+        collector.add(sleep.calendarDate, {
+          sleepHours: Math.round((sleep.durationInSeconds / 3600) * 10) / 10,
+        });
+      }
+
+      const bodyComps = await this.http.get(`${API_BASE}/bodyComps`, {
+        headers,
+        params,
+      });
+      for (const body of bodyComps || []) {
+        // Measurements carry a UTC timestamp plus the device's local offset
+        const localDate = toYmd(
+          new Date(
+            (body.measurementTimeInSeconds +
+              (body.measurementTimeOffsetInSeconds || 0)) *
+              1000
+          )
+        );
+        collector.add(localDate, {
+          weightKg:
+            body.weightInGrams !== undefined
+              ? body.weightInGrams / 1000
+              : undefined,
+          bodyFatPercentage: body.bodyFatInPercent,
+        });
+      }
+    }
+
+    return collector.toArray();
+  }
+}
@@ -0,0 +1,155 @@
+import axios from "axios";
+import {
+  ProviderAuthError,
+  ProviderHttpClient,
+  ProviderRequestError,
+} from "../../types/devices";
+
+const REQUEST_TIMEOUT_MS = 20000;
+
+function toProviderError(error: any): Error {
+  const status: number | undefined = error?.response?.status;
+  if (status === 401) {
+    return new ProviderAuthError();
+  }
+  const detail =
+    error?.response?.data?.errors?.[0]?.message ||
+    error?.response?.data?.message ||
+    error?.message ||
+    "Provider request failed";
+  return new ProviderRequestError(detail, status);
+}
+
+/**
+ * Live HTTP client; 401s surface as ProviderAuthError so callers can refresh
+ */
+export class AxiosProviderHttpClient implements ProviderHttpClient {
+  async get(
+    url: string,
+    options: {
+      headers?: Record<string, string>;
+      params?: Record<string, any>;
+    } = {}
+  ) {
+    try {
+      const response = await axios.get(url, {
+        headers: options.headers,
+        params: options.params,
+        timeout: REQUEST_TIMEOUT_MS,
+      });
+      return response.data;
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  }
+
+  async postForm(
+    url: string,
+    form: Record<string, string>,
+    headers: Record<string, string> = {}
+  ) {
+    try {
+      const response = await axios.post(
+        url,
+        new URLSearchParams(form).toString(),
+        {
+          headers: {
+            ...headers,
+            "Content-Type": "application/x-www-form-urlencoded",
+          },
+          timeout: REQUEST_TIMEOUT_MS,
+        }
+      );
+      return response.data;
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  }
+}
+
+export interface RecordedExchange {
+  method: "GET" | "POST";
+  url: string; // "*" stands for one path segment, e.g. a date
+
+  // Request params (GET) or form fields (POST) the recording must match; omitted keys match anything
+  match?: Record<string, string>;
+  status?: number;
+  body: any;
+}
+
+function urlMatches(pattern: string, url: string): boolean {
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join("[^/]+");
+  return new RegExp(`^${source}$`).test(url);
+}
+
+/**
+ * Replays recorded provider responses instead of calling the network.
+ *
+ * Each request is answered by the first recording with the same method and
+ * URL whose `match` fields all equal the outgoing params, which is enough to
+ * walk paginated responses in order.
+ */
+export class FixtureHttpClient implements ProviderHttpClient {
+  readonly requests: {
+    method: string;
+    url: string;
+    fields: Record<string, string>;
+  }[] = [];
+
+  constructor(private recordings: RecordedExchange[]) {}
+
+  async get(
+    url: string,
+    options: {
+      headers?: Record<string, string>;
+      params?: Record<string, any>;
+    } = {}
+  ) {
+    return this.replay("GET", url, options.params || {});
+  }
+
+  async postForm(url: string, form: Record<string, string>) {
+    return this.replay("POST", url, form);
+  }
+
+  private replay(
+    method: "GET" | "POST",
+    url: string,
+    raw: Record<string, any>
+  ) {
+    const fields: Record<string, string> = {};
+    for (const [key, value] of Object.entries(raw)) {
+      if (value !== undefined && value !== null) fields[key] = String(value);
+    }
+    this.requests.push({ method, url, fields });
+
+    const recording = this.recordings.find(
+      (candidate) =>
+        candidate.method === method &&
+        urlMatches(candidate.url, url) &&
+        Object.entries(candidate.match || {}).every(
+          ([key, value]) => fields[key] === value
+        )
+    );
+
+    if (!recording) {
+      throw new ProviderRequestError(
+        `No recorded response for ${method} ${url}`,
+        404
+      );
+    }
+    if (recording.status === 401) {
+      throw new ProviderAuthError();
+    }
+    if (recording.status && recording.status >= 400) {
+      throw new ProviderRequestError(
+        recording.body?.message || "Provider request failed",
+        recording.status
+      );
+    }
+    return recording.body;
+  }
+}
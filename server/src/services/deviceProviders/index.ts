@@ -0,0 +1,78 @@
+import { DeviceProviderAdapter, ProviderHttpClient } from "../../types/devices";
+import { FitbitAdapter } from "./fitbit";
+import { GarminAdapter } from "./garmin";
+import {
+  AxiosProviderHttpClient,
+  FixtureHttpClient,
+  RecordedExchange,
+} from "./http";
+import { OuraAdapter } from "./oura";
+import { WithingsAdapter } from "./withings";
+import fitbitFixtures from "./fixtures/fitbit.json";
+import garminFixtures from "./fixtures/garmin.json";
+import ouraFixtures from "./fixtures/oura.json";
+import withingsFixtures from "./fixtures/withings.json";
+
+const FIXTURES: Record<string, RecordedExchange[]> = {
+  FITBIT: fitbitFixtures as RecordedExchange[],
+  GARMIN: garminFixtures as RecordedExchange[],
+  WITHINGS: withingsFixtures as RecordedExchange[],
+  OURA: ouraFixtures as RecordedExchange[],
+};
+
+const adapters = new Map<string, DeviceProviderAdapter>();
+
+function createHttpClient(deviceType: string): ProviderHttpClient {
+  if (process.env.DEVICE_PROVIDER_MODE === "fixtures") {
+    if (process.env.NODE_ENV === "production") {
+      console.warn(
+        "⚠️ Device providers are replaying recorded fixtures in production"
+      );
+    }
+    return new FixtureHttpClient(FIXTURES[deviceType] || []);
+  }
+  return new AxiosProviderHttpClient();
+}
+
+function createAdapter(deviceType: string): DeviceProviderAdapter | null {
+  switch (deviceType) {
+    case "FITBIT":
+      return new FitbitAdapter(createHttpClient(deviceType));
+    case "GARMIN":
+      return new GarminAdapter(createHttpClient(deviceType));
+    case "WITHINGS":
+      return new WithingsAdapter(createHttpClient(deviceType));
+    case "OURA":
+      return new OuraAdapter(createHttpClient(deviceType));
+    default:
+      return null;
+  }
+}
+
+/**
+ * Server-side sync adapter for a device type, or null when that provider only
+ * pushes data from the app (e.g. Apple Health). DEVICE_PROVIDER_MODE=fixtures
+ * swaps the network for recorded responses.
+ */
+export function getProviderAdapter(
+  deviceType: string
+): DeviceProviderAdapter | null {
+  if (!adapters.has(deviceType)) {
+    const adapter = createAdapter(deviceType);
+    if (!adapter) return null;
+    adapters.set(deviceType, adapter);
+  }
+  return adapters.get(deviceType)!;
+}
+
+export function setProviderAdapter(adapter: DeviceProviderAdapter) {
+  adapters.set(adapter.deviceType, adapter);
+}
+
+export {
+  FitbitAdapter,
+  GarminAdapter,
+  WithingsAdapter,
+  OuraAdapter,
+  FixtureHttpClient,
+};
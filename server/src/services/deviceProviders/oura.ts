@@ -0,0 +1,111 @@
+import {
+  DeviceProviderAdapter,
+  ProviderDailyMetrics,
+  ProviderDateRange,
+  ProviderHttpClient,
+  ProviderTokens,
+} from "../../types/devices";
+import { addDays, DailyMetricsCollector, secondsFromNow, toYmd } from "./utils";
+
+const API_BASE = "https://api.ouraring.com";
+export const OURA_TOKEN_URL = `${API_BASE}/oauth/token`;
+
+/**
+ * Oura API v2. Collections page with `next_token`; the ring does not track
+ * weight, so only activity, sleep and heart rate are reported.
+ */
+export class OuraAdapter implements DeviceProviderAdapter {
+  readonly deviceType = "OURA";
+
+  constructor(
+    private http: ProviderHttpClient,
+    private clientId: string = process.env.OURA_CLIENT_ID || "",
+    private clientSecret: string = process.env.OURA_CLIENT_SECRET || ""
+  ) {}
+
+  async refreshTokens(refreshToken: string): Promise<ProviderTokens> {
+    const data = await this.http.postForm(OURA_TOKEN_URL, {
+      grant_type: "refresh_token",
+      refresh_token: refreshToken,
+      client_id: this.clientId,
+      client_secret: this.clientSecret,
+    });
+
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+      expiresAt: secondsFromNow(data.expires_in),
+    };
+  }
+
+  async fetchDailyMetrics(
+    accessToken: string,
+    range: ProviderDateRange
+  ): Promise<ProviderDailyMetrics[]> {
+    const headers = { Authorization: `Bearer ${accessToken}` };
+    const collector = new DailyMetricsCollector();
+    const params = {
+      start_date: toYmd(range.start),
+      // end_date is exclusive
+      end_date: toYmd(addDays(range.end, 1)),
+    };
+
+    const activities = await this.collection("daily_activity", params, headers);
+    for (const activity of activities) {
+      collector.add(activity.day, {
+        steps: activity.steps,
+        caloriesBurned: activity.active_calories,
+        activeMinutes: Math.round(
+          ((activity.medium_activity_time || 0) +
+            (activity.high_activity_time || 0)) /
+            60
+        ),
+        distanceKm:
+          activity.equivalent_walking_distance !== undefined
+            ? activity.equivalent_walking_distance / 1000
+            : undefined,
+      });
+    }
+
+    // Only the main sleep period of each night counts towards the day
+    const sleeps = (await this.collection("sleep", params, headers)).filter(
+      (sleep) => sleep.type === "long_sleep"
+    );
+    for (const sleep of sleeps) {
+      collector.add(sleep.day, {
+        sleepHours:
+          Math.round(((sleep.total_sleep_duration || 0) / 3600) * 10) / 10,
+        heartRateAvg:
+          sleep.average_heart_rate !== undefined &&
+          sleep.average_heart_rate !== null
+            ? Math.round(sleep.average_heart_rate)
+            : undefined,
+      });
+    }
+
+    return collector.toArray();
+  }
+
+  private async collection(
+    name: string,
+    params: Record<string, string>,
+    headers: Record<string, string>
+  ): Promise<any[]> {
+    const items: any[] = [];
+    let nextToken: string | undefined;
+
+    do {
+      const data = await this.http.get(
+        `${API_BASE}/v2/usercollection/${name}`,
+        {
+          headers,
+          params: nextToken ? { ...params, next_token: nextToken } : params,
+        }
+      );
+      items.push(...(data.data || []));
+      nextToken = data.next_token || undefined;
+    } while (nextToken);
+
+    return items;
+  }
+}
@@ -0,0 +1,57 @@
+import { ProviderDailyMetrics, ProviderDateRange } from "../../types/devices";
+
+export function toYmd(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+export function addDays(date: Date, days: number): Date {
+  const next = new Date(date);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next;
+}
+
+/**
+ * Split a range into windows of at most `maxDays` calendar days, for endpoints
+ * that cap how much history one request may cover
+ */
+export function chunkRange(
+  range: ProviderDateRange,
+  maxDays: number
+): ProviderDateRange[] {
+  const chunks: ProviderDateRange[] = [];
+  let start = new Date(range.start);
+  while (start <= range.end) {
+    const candidateEnd = addDays(start, maxDays - 1);
+    const end = candidateEnd < range.end ? candidateEnd : new Date(range.end);
+    chunks.push({ start, end });
+    start = addDays(end, 1);
+  }
+  return chunks;
+}
+
+/**
+ * Collects per-day metrics from several endpoints into one record per date
+ */
+export class DailyMetricsCollector {
+  private days = new Map<string, ProviderDailyMetrics>();
+
+  add(date: string, metrics: Omit<ProviderDailyMetrics, "date">) {
+    const current = this.days.get(date) || { date };
+    for (const [key, value] of Object.entries(metrics)) {
+      if (typeof value === "number" && Number.isFinite(value)) {
+        (current as any)[key] = value;
+      }
+    }
+    this.days.set(date, current);
+  }
+
+  toArray(): ProviderDailyMetrics[] {
+    return Array.from(this.days.values())
+      .filter((day) => Object.keys(day).length > 1)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+}
+
+export function secondsFromNow(seconds?: number): Date | undefined {
+  return seconds ? new Date(Date.now() + seconds * 1000) : undefined;
+}
@@ -0,0 +1,162 @@
+import {
+  DeviceProviderAdapter,
+  ProviderAuthError,
+  ProviderDailyMetrics,
+  ProviderDateRange,
+  ProviderHttpClient,
+  ProviderRequestError,
+  ProviderTokens,
+} from "../../types/devices";
+import { DailyMetricsCollector, secondsFromNow, toYmd } from "./utils";
+
+const API_BASE = "https://wbsapi.withings.net";
+export const WITHINGS_TOKEN_URL = `${API_BASE}/v2/oauth2`;
+
+// Withings measure types
+const MEASURE_WEIGHT = 1;
+const MEASURE_FAT_RATIO = 6;
+
+/**
+ * Withings Public API. Every call is a form POST answered with HTTP 200 and a
+ * `status` field; list endpoints page with `more` and `offset`.
+ */
+export class WithingsAdapter implements DeviceProviderAdapter {
+  readonly deviceType = "WITHINGS";
+
+  constructor(
+    private http: ProviderHttpClient,
+    private clientId: string = process.env.WITHINGS_CLIENT_ID || "",
+    private clientSecret: string = process.env.WITHINGS_CLIENT_SECRET || ""
+  ) {}
+
+  async refreshTokens(refreshToken: string): Promise<ProviderTokens> {
+    const body = await this.call(WITHINGS_TOKEN_URL, {
+      action: "requesttoken",
+      grant_type: "refresh_token",
+      client_id: this.clientId,
+      client_secret: this.clientSecret,
+      refresh_token: refreshToken,
+    });
+
+    return {
+      accessToken: body.access_token,
+      refreshToken: body.refresh_token,
+      expiresAt: secondsFromNow(body.expires_in),
+    };
+  }
+
+  async fetchDailyMetrics(
+    accessToken: string,
+    range: ProviderDateRange
+  ): Promise<ProviderDailyMetrics[]> {
+    const headers = { Authorization: `Bearer ${accessToken}` };
+    const collector = new DailyMetricsCollector();
+    const ymdRange = {
+      startdateymd: toYmd(range.start),
+      enddateymd: toYmd(range.end),
+    };
+
+    const activities = await this.paginate(
+      `${API_BASE}/v2/measure`,
+      { action: "getactivity", ...ymdRange },
+      headers,
+      "activities"
+    );
+    for (const activity of activities) {
+      collector.add(activity.date, {
+        steps: activity.steps,
+        caloriesBurned: activity.calories,
+        activeMinutes: Math.round(
+          ((activity.moderate || 0) + (activity.intense || 0)) / 60
+        ),
+        distanceKm:
+          activity.distance !== undefined
+            ? Math.round(activity.distance) / 1000
+            : undefined,
+        heartRateAvg: activity.hr_average,
+        heartRateMax: activity.hr_max,
+      });
+    }
+
+    const sleeps = await this.paginate(
+      `${API_BASE}/v2/sleep`,
+      { action: "getsummary", data_fields: "total_sleep_time", ...ymdRange },
+      headers,
+      "series"
+    );
+    for (const sleep of sleeps) {
+      const seconds = sleep.data?.total_sleep_time;
+      if (seconds !== undefined) {
+        collector.add(sleep.date, {
+          sleepHours: Math.round((seconds / 3600) * 10) / 10,
+        });
+      }
+    }
+
+    const groups = await this.paginate(
+      `${API_BASE}/measure`,
+      {
+        action: "getmeas",
+        meastypes: `${MEASURE_WEIGHT},${MEASURE_FAT_RATIO}`,
+        category: "1", // real measurements, not user objectives
+        startdate: String(Math.floor(range.start.getTime() / 1000)),
+        enddate: String(Math.floor(range.end.getTime() / 1000) + 86399),
+      },
+      headers,
+      "measuregrps"
+    );
+    for (const group of groups) {
+      const value = (type: number) => {
+        const measure = group.measures?.find((m: any) => m.type === type);
+        return measure
+          ? Math.round(measure.value * Math.pow(10, measure.unit) * 100) / 100
+          : undefined;
+      };
+      collector.add(toYmd(new Date(group.date * 1000)), {
+        weightKg: value(MEASURE_WEIGHT),
+        bodyFatPercentage: value(MEASURE_FAT_RATIO),
+      });
+    }
+
+    return collector.toArray();
+  }
+
+  private async paginate(
+    url: string,
+    form: Record<string, string>,
+    headers: Record<string, string>,
+    listKey: string
+  ): Promise<any[]> {
+    const items: any[] = [];
+    let offset: number | undefined;
+
+    do {
+      const body = await this.call(
+        url,
+        offset !== undefined ? { ...form, offset: String(offset) } : form,
+        headers
+      );
+      items.push(...(body[listKey] || []));
+      offset = body.more ? body.offset : undefined;
+    } while (offset !== undefined);
+
+    return items;
+  }
+
+  private async call(
+    url: string,
+    form: Record<string, string>,
+    headers: Record<string, string> = {}
+  ) {
+    const data = await this.http.postForm(url, form, headers);
+    if (data.status === 401) {
+      throw new ProviderAuthError();
+    }
+    if (data.status !== 0) {
+      throw new ProviderRequestError(
+        data.error || `Withings request failed with status ${data.status}`
+      );
+    }
+    return data.body;
+  }
+}
@@ -0,0 +1,267 @@
+import { ConnectedDevice, Prisma } from "@prisma/client";
+import { prisma } from "../lib/database";
+import {
+  DeviceProviderAdapter,
+  DeviceSyncResult,
+  ProviderAuthError,
+  ProviderDailyMetrics,
+  ProviderDateRange,
+} from "../types/devices";
+import { DeviceService } from "./devices";
+import { EntitlementService } from "./entitlements";
+import { getProviderAdapter } from "./deviceProviders";
+import { addDays, toYmd } from "./deviceProviders/utils";
+
+const DEFAULT_SYNC_FREQUENCY_HOURS = 24;
+const INITIAL_SYNC_DAYS = 7;
+// Re-read the last synced day since providers keep updating it
+const SYNC_OVERLAP_DAYS = 1;
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+// A sync that has been "running" this long is assumed to have crashed
+const STALE_SYNC_MS = 30 * 60 * 1000;
+
+/**
+ * Pulls daily metrics from provider APIs into DailyActivitySummary.
+ */
+export class DeviceSyncService {
+  static nextSyncAt(device: ConnectedDevice): Date | undefined {
+    if (!device.last_sync_time) return undefined;
+    const hours = device.sync_frequency_hours ?? DEFAULT_SYNC_FREQUENCY_HOURS;
+    return new Date(device.last_sync_time.getTime() + hours * 3600000);
+  }
+
+  /**
+   * Sync one device. Unless forced, a device is skipped until its
+   * sync_frequency_hours have passed since the last successful sync.
+   */
+  static async syncDevice(
+    userId: string,
+    deviceId: string,
+    options: { force?: boolean } = {}
+  ): Promise<DeviceSyncResult | null> {
+    const device = await prisma.connectedDevice.findFirst({
+      where: { connected_device_id: deviceId, user_id: userId },
+    });
+    if (!device) return null;
+
+    const result: DeviceSyncResult = {
+      deviceId,
+      deviceType: device.device_type,
+      status: "skipped",
+      daysSynced: 0,
+      nextSyncAt: this.nextSyncAt(device),
+    };
+
+    const adapter = getProviderAdapter(device.device_type);
+    if (!adapter) {
+      return { ...result, error: "This device syncs from the app" };
+    }
+    if (device.connection_status === "DISCONNECTED") {
+      return { ...result, error: "Device is disconnected" };
+    }
+    const { allowed } = await EntitlementService.checkFeature(
+      userId,
+      "deviceIntegration"
+    );
+    if (!allowed) {
+      return {
+        ...result,
+        error: "Device integration is not included in your plan",
+      };
+    }
+    if (!options.force && result.nextSyncAt && result.nextSyncAt > new Date()) {
+      return result;
+    }
+
+    // Claim the device so overlapping cron runs and manual syncs don't race
+    const claimed = await prisma.connectedDevice.updateMany({
+      where: {
+        connected_device_id: deviceId,
+        OR: [
+          { connection_status: { not: "SYNCING" } },
+          { updated_at: { lt: new Date(Date.now() - STALE_SYNC_MS) } },
+        ],
+      },
+      data: { connection_status: "SYNCING" },
+    });
+    if (claimed.count === 0) {
+      return { ...result, error: "Sync already in progress" };
+    }
+
+    const start = device.last_sync_time
+      ? addDays(device.last_sync_time, -SYNC_OVERLAP_DAYS)
+      : addDays(new Date(), -INITIAL_SYNC_DAYS);
+
+    try {
+      const days = await this.pullRange(userId, device, adapter, {
+        start: new Date(`${toYmd(start)}T00:00:00.000Z`),
+        end: new Date(),
+      });
+
+      const updated = await prisma.connectedDevice.update({
+        where: { connected_device_id: deviceId },
+        data: { connection_status: "CONNECTED", last_sync_time: new Date() },
+      });
+
+      console.log(
+        `✅ Synced ${days.length} days from ${device.device_type} for user ${userId}`
+      );
+      return {
+        ...result,
+        status: "synced",
+        daysSynced: days.length,
+        nextSyncAt: this.nextSyncAt(updated),
+      };
+    } catch (error) {
+      console.error(`💥 ${device.device_type} sync failed:`, error);
+      await prisma.connectedDevice.update({
+        where: { connected_device_id: deviceId },
+        data: { connection_status: "ERROR" },
+      });
+      return {
+        ...result,
+        status: "failed",
+        error: error instanceof Error ? error.message : "Sync failed",
+      };
+    }
+  }
+
+  /**
+   * Fetch a date range from the provider and store it, refreshing the access
+   * token up front when it is about to expire and once more if it is rejected
+   */
+  static async pullRange(
+    userId: string,
+    device: ConnectedDevice,
+    adapter: DeviceProviderAdapter,
+    range: ProviderDateRange
+  ): Promise<ProviderDailyMetrics[]> {
+    const tokens = await DeviceService.getDeviceTokens(
+      userId,
+      device.connected_device_id
+    );
+    let accessToken = tokens.accessToken;
+    let refreshed = false;
+
+    const refresh = async () => {
+      if (!tokens.refreshToken) {
+        throw new ProviderAuthError("Reconnect the device to continue syncing");
+      }
+      const next = await adapter.refreshTokens(tokens.refreshToken);
+      await DeviceService.updateDeviceTokens(
+        userId,
+        device.connected_device_id,
+        next.accessToken,
+        next.refreshToken,
+        next.expiresAt
+      );
+      accessToken = next.accessToken;
+      tokens.refreshToken = next.refreshToken || tokens.refreshToken;
+      refreshed = true;
+    };
+
+    const expiresSoon =
+      device.token_expires_at &&
+      device.token_expires_at.getTime() - Date.now() < TOKEN_REFRESH_MARGIN_MS;
+    if (!accessToken || expiresSoon) {
+      await refresh();
+    }
+
+    let days: ProviderDailyMetrics[];
+    try {
+      days = await adapter.fetchDailyMetrics(accessToken!, range);
+    } catch (error) {
+      if (!(error instanceof ProviderAuthError) || refreshed) throw error;
+      await refresh();
+      days = await adapter.fetchDailyMetrics(accessToken!, range);
+    }
+
+    for (const day of days) {
+      await this.saveDailyMetrics(userId, device, day);
+    }
+    return days;
+  }
+
+  /**
+   * Upsert one provider day; metrics the provider did not report are left as
+   * they are so partial days never wipe earlier values
+   */
+  static async saveDailyMetrics(
+    userId: string,
+    device: ConnectedDevice,
+    metrics: ProviderDailyMetrics
+  ) {
+    const round = (value?: number) =>
+      value === undefined ? undefined : Math.round(value);
+    const values = {
+      steps: round(metrics.steps),
+      calories_burned: metrics.caloriesBurned,
+      active_minutes: round(metrics.activeMinutes),
+      bmr_estimate: metrics.bmrEstimate,
+      distance_km: metrics.distanceKm,
+      heart_rate_avg: round(metrics.heartRateAvg),
+      heart_rate_max: round(metrics.heartRateMax),
+      sleep_hours: metrics.sleepHours,
+      weight_kg: metrics.weightKg,
+      body_fat_percentage: metrics.bodyFatPercentage,
+    };
+    const date = new Date(`${metrics.date}T00:00:00.000Z`);
+
+    return prisma.dailyActivitySummary.upsert({
+      where: {
+        user_id_device_id_date: {
+          user_id: userId,
+          device_id: device.connected_device_id,
+          date,
+        },
+      },
+      update: {
+        ...values,
+        sync_timestamp: new Date(),
+        raw_data: metrics as unknown as Prisma.InputJsonValue,
+      },
+      create: {
+        user_id: userId,
+        device_id: device.connected_device_id,
+        date,
+        ...values,
+        source_device: device.device_name,
+        raw_data: metrics as unknown as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  /**
+   * Cron entry point: sync every connected provider device that is due.
+   * Devices of users whose plan lost device integration are left alone.
+   */
+  static async syncDueDevices() {
+    const devices = await prisma.connectedDevice.findMany({
+      where: {
+        connection_status: { in: ["CONNECTED", "ERROR"] },
+        device_type: { in: ["FITBIT", "GARMIN", "WITHINGS", "OURA"] },
+        user: {
+          subscription_type: {
+            in: EntitlementService.plansWithFeature("deviceIntegration"),
+          },
+        },
+        OR: [
+          { access_token_encrypted: { not: null } },
+          { refresh_token_encrypted: { not: null } },
+        ],
+      },
+    });
+
+    const summary = { synced: 0, skipped: 0, failed: 0 };
+    for (const device of devices) {
+      const result = await this.syncDevice(
+        device.user_id,
+        device.connected_device_id
+      );
+      if (result) summary[result.status]++;
+    }
+
+    console.log("📲 Device sync run:", summary);
+    return summary;
+  }
+}
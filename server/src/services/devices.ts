@@ -1,5 +1,7 @@
 import { prisma } from "../lib/database";
 import { ActivityData, DailyBalance } from "../types/devices";
+import { ActivityTimelineService } from "./activityTimeline";
+import { getDayBounds, getUserDay, getUserTimeZone } from "../utils/userDay";
 
 export class DeviceService {
   static async getUserDevices(user_id: string) {
@@ -84,6 +86,10 @@ export class DeviceService {
         console.log("✅ Updated existing device");
         return updatedDevice;
       } else {
+        const hasPrimary = await prisma.connectedDevice.count({
+          where: { user_id, is_primary_device: true },
+        });
+
         // Create new device
         const newDevice = await prisma.connectedDevice.create({
           data: {
@@ -92,7 +98,7 @@ export class DeviceService {
             device_type: deviceType as any,
             connection_status: "CONNECTED",
             last_sync_time: new Date(),
-            is_primary_device: true, // First device is primary
+            is_primary_device: !hasPrimary, // First device is primary
             access_token_encrypted: accessToken
               ? this.encryptToken(accessToken)
               : null,
@@ -134,6 +140,7 @@ export class DeviceService {
         where: { connected_device_id: deviceId },
         data: {
           connection_status: "DISCONNECTED",
+          is_primary_device: false,
           access_token_encrypted: null,
           refresh_token_encrypted: null,
           token_expires_at: null,
@@ -141,6 +148,17 @@ export class DeviceService {
         },
       });
 
+      // Hand the primary role to the most recently synced remaining device
+      if (device.is_primary_device) {
+        const successor = await prisma.connectedDevice.findFirst({
+          where: { user_id, connection_status: { not: "DISCONNECTED" } },
+          orderBy: { last_sync_time: { sort: "desc", nulls: "last" } },
+        });
+        if (successor) {
+          await this.setPrimaryDevice(user_id, successor.connected_device_id);
+        }
+      }
+
       console.log("✅ Device disconnected");
     } catch (error) {
       console.error("💥 Error disconnecting device:", error);
@@ -148,6 +166,35 @@ export class DeviceService {
     }
   }
 
+  static async setPrimaryDevice(user_id: string, deviceId: string) {
+    try {
+      const device = await prisma.connectedDevice.findFirst({
+        where: { connected_device_id: deviceId, user_id },
+      });
+
+      if (!device) {
+        return null;
+      }
+
+      const [, primary] = await prisma.$transaction([
+        prisma.connectedDevice.updateMany({
+          where: { user_id, connected_device_id: { not: deviceId } },
+          data: { is_primary_device: false },
+        }),
+        prisma.connectedDevice.update({
+          where: { connected_device_id: deviceId },
+          data: { is_primary_device: true },
+        }),
+      ]);
+
+      console.log("⭐ Primary device set:", deviceId);
+      return primary;
+    } catch (error) {
+      console.error("💥 Error setting primary device:", error);
+      throw new Error("Failed to set primary device");
+    }
+  }
+
   static async syncDeviceData(
     user_id: string,
     deviceId: string,
@@ -167,7 +214,10 @@ export class DeviceService {
         throw new Error("Device not found");
       }
 
-      const today = new Date().toISOString().split("T")[0];
+      // Apps that were offline push the day the data belongs to; otherwise
+      // it is today in the user's timezone
+      const day =
+        activityData.date || getUserDay(await getUserTimeZone(user_id));
 
       // Upsert daily activity summary
       const activitySummary = await prisma.dailyActivitySummary.upsert({
@@ -175,7 +225,7 @@ export class DeviceService {
           user_id_device_id_date: {
             user_id,
             device_id: deviceId,
-            date: new Date(today),
+            date: new Date(day),
           },
         },
         update: {
@@ -195,7 +245,7 @@ export class DeviceService {
         create: {
           user_id,
           device_id: deviceId,
-          date: new Date(today),
+          date: new Date(day),
           steps: activityData.steps || 0,
           calories_burned: activityData.caloriesBurned || 0,
           active_minutes: activityData.activeMinutes || 0,
@@ -240,23 +290,14 @@ export class DeviceService {
         endDate,
       });
 
-      const activityData = await prisma.dailyActivitySummary.findMany({
-        where: {
-          user_id,
-          date: {
-            gte: new Date(startDate),
-            lte: new Date(endDate),
-          },
-        },
-        include: {
-          device: true,
-        },
-        orderBy: {
-          date: "desc",
-        },
-      });
+      // One merged row per day so overlapping devices are not double counted
+      const activityData = await ActivityTimelineService.getTimeline(
+        user_id,
+        startDate,
+        endDate
+      );
 
-      console.log("✅ Found", activityData.length, "activity records");
+      console.log("✅ Found", activityData.length, "activity days");
       return activityData;
     } catch (error) {
       console.error("💥 Error getting activity data:", error);
@@ -276,10 +317,11 @@ export class DeviceService {
         date
       );
 
-      // Get calories consumed from meals
-      const startDate = new Date(date);
-      const endDate = new Date(date);
-      endDate.setDate(endDate.getDate() + 1);
+      // Get calories consumed from meals during the user's local day
+      const { start: startDate, end: endDate } = getDayBounds(
+        await getUserTimeZone(user_id),
+        date
+      );
 
       const meals = await prisma.meal.findMany({
         where: {
@@ -296,16 +338,11 @@ export class DeviceService {
         0
       );
 
-      // Get calories burned from activity data
-      const activityData = await prisma.dailyActivitySummary.findFirst({
-        where: {
-          user_id,
-          date: new Date(date),
-        },
-        orderBy: {
-          sync_timestamp: "desc",
-        },
-      });
+      // Get calories burned from the merged activity day
+      const activityData = await ActivityTimelineService.getMergedDay(
+        user_id,
+        date
+      );
 
       if (!activityData) {
         console.log("⚠️ No activity data found for date");
@@ -395,7 +432,8 @@ export class DeviceService {
     user_id: string,
     deviceId: string,
     accessToken?: string,
-    refreshToken?: string
+    refreshToken?: string,
+    expiresAt?: Date
   ) {
     try {
       await prisma.connectedDevice.updateMany({
@@ -411,7 +449,7 @@ export class DeviceService {
             ? this.encryptToken(refreshToken)
             : undefined,
           token_expires_at: accessToken
-            ? new Date(Date.now() + 3600000)
+            ? expiresAt ?? new Date(Date.now() + 3600000)
             : undefined,
           updated_at: new Date(),
         },
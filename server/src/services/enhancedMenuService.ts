@@ -1,6 +1,8 @@
 
 import { prisma } from "../lib/database";
 import { OpenAIService } from "./openai";
+import { PantryService } from "./pantry";
+import { GamificationService } from "./gamification";
 
 export interface MenuAnalytics {
   completion_rate: number;
@@ -188,15 +190,16 @@ Respond in JSON format:
       },
     });
 
+    await PantryService.consumeForCompletion(completion, meal.ingredients);
+
     // Award XP for meal completion
     const xpGained = verification.score >= 70 ? 15 : 10;
-    await prisma.user.update({
-      where: { user_id: userId },
-      data: {
-        current_xp: { increment: xpGained },
-        total_points: { increment: xpGained },
-      },
-    });
+    await GamificationService.awardXp(
+      userId,
+      xpGained,
+      "MENU_MEAL_COMPLETION",
+      { referenceId: completion.id, description: mealName }
+    );
 
     return {
       completion,
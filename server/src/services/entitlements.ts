@@ -0,0 +1,229 @@
+import { SubscriptionType } from "@prisma/client";
+import { prisma } from "../lib/database";
+import {
+  CHAT_TOKENS_PER_MESSAGE,
+  getPlanLimits,
+  PLAN_LIMITS,
+} from "../config/planLimits";
+import { getPlanPrice, isPaidPlan } from "../config/planPricing";
+import { UsageTrackingService } from "./usageTracking";
+import {
+  PlanFeatures,
+  PlanSummary,
+  QuotaCheck,
+  QuotaKey,
+  QuotaStatus,
+  UserEntitlements,
+} from "../types/entitlements";
+
+const QUOTA_EXCEEDED_MESSAGES: Record<QuotaKey, (limit: number) => string> = {
+  mealScans: (limit) =>
+    `You have reached your monthly limit of ${limit} meal scans. Upgrade your plan for more scans.`,
+  aiChatTokens: (limit) =>
+    `You have reached your monthly limit of ${limit} AI chat tokens. Your limit will reset next month.`,
+};
+
+/**
+ * Resolves what a user may do from their subscription type and usage counters.
+ * Routes ask this service instead of comparing subscription_type themselves.
+ */
+export class EntitlementService {
+  static getPlanSummary(subscriptionType: string): PlanSummary {
+    const limits = getPlanLimits(subscriptionType);
+
+    return {
+      type: subscriptionType in PLAN_LIMITS ? subscriptionType : "FREE",
+      name: limits.name,
+      description: limits.description,
+      price: isPaidPlan(subscriptionType) ? getPlanPrice(subscriptionType) : null,
+      features: {
+        aiChat: limits.aiChatEnabled,
+        aiRecommendations: limits.aiRecommendationsPerWeek > 0,
+        dailyGoals: limits.dailyGoalsPerWeek > 0,
+        deviceIntegration: limits.deviceIntegration,
+        fullQuestionnaire: limits.questionnaireRetentionDays === null,
+      },
+      limits: {
+        mealScansPerMonth: limits.mealScansPerMonth,
+        aiChatTokensPerMonth: limits.aiChatTokensPerMonth,
+        aiChatMessagesEstimate: limits.aiChatMessagesEstimate,
+        aiRecommendationsPerWeek: limits.aiRecommendationsPerWeek,
+        dailyGoalsPerWeek: limits.dailyGoalsPerWeek,
+        questionnaireRetentionDays: limits.questionnaireRetentionDays,
+      },
+    };
+  }
+
+  /**
+   * Plans a user can subscribe to, in display order
+   */
+  static getPlanCatalog(): PlanSummary[] {
+    return (["FREE", "GOLD", "PREMIUM"] as const).map((type) =>
+      this.getPlanSummary(type)
+    );
+  }
+
+  /**
+   * Plans that include a feature, for queries over many users
+   */
+  static plansWithFeature(feature: keyof PlanFeatures): SubscriptionType[] {
+    return (Object.keys(PLAN_LIMITS) as SubscriptionType[]).filter(
+      (type) => this.getPlanSummary(type).features[feature]
+    );
+  }
+
+  static async checkFeature(
+    userId: string,
+    feature: keyof PlanFeatures
+  ): Promise<{ allowed: boolean; plan: PlanSummary }> {
+    const user = await prisma.user.findUnique({
+      where: { user_id: userId },
+      select: { subscription_type: true },
+    });
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const plan = this.getPlanSummary(user.subscription_type);
+    return { allowed: plan.features[feature], plan };
+  }
+
+  static async getEntitlements(userId: string): Promise<UserEntitlements> {
+    await UsageTrackingService.checkAndResetIfNeeded(userId);
+
+    const user = await prisma.user.findUnique({
+      where: { user_id: userId },
+      select: {
+        subscription_type: true,
+        subscription_start: true,
+        subscription_end: true,
+        meal_scans_count: true,
+        meal_scans_reset_at: true,
+        ai_chat_tokens_used: true,
+        ai_chat_tokens_reset_at: true,
+      },
+    });
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const plan = this.getPlanSummary(user.subscription_type);
+
+    return {
+      plan,
+      subscription: {
+        start: user.subscription_start,
+        end: user.subscription_end,
+      },
+      quotas: {
+        mealScans: this.quotaStatus(
+          plan.limits.mealScansPerMonth,
+          user.meal_scans_count,
+          user.meal_scans_reset_at
+        ),
+        aiChatTokens: {
+          ...this.quotaStatus(
+            plan.limits.aiChatTokensPerMonth,
+            user.ai_chat_tokens_used,
+            user.ai_chat_tokens_reset_at
+          ),
+          messagesUsed: Math.floor(
+            user.ai_chat_tokens_used / this.tokensPerMessage(plan)
+          ),
+          messagesEstimate: plan.limits.aiChatMessagesEstimate,
+        },
+      },
+    };
+  }
+
+  /**
+   * Check whether the user can consume `requested` units of a quota
+   */
+  static async checkQuota(
+    userId: string,
+    quota: QuotaKey,
+    requested: number = 1
+  ): Promise<QuotaCheck> {
+    let entitlements: UserEntitlements;
+    try {
+      entitlements = await this.getEntitlements(userId);
+    } catch {
+      return {
+        allowed: false,
+        used: 0,
+        limit: 0,
+        remaining: 0,
+        unlimited: false,
+        resetAt: null,
+        message: "User not found",
+      };
+    }
+
+    if (quota === "aiChatTokens" && !entitlements.plan.features.aiChat) {
+      return {
+        ...entitlements.quotas.aiChatTokens,
+        allowed: false,
+        message: `AI Chat is not available on the ${entitlements.plan.name}. Please upgrade to the Gold or Premium plan.`,
+      };
+    }
+
+    const status = entitlements.quotas[quota];
+    if (status.limit === null || status.used + requested <= status.limit) {
+      return { ...status, allowed: true };
+    }
+
+    return {
+      ...status,
+      allowed: false,
+      message: QUOTA_EXCEEDED_MESSAGES[quota](status.limit),
+    };
+  }
+
+  /**
+   * Legacy usage summary served by /nutrition/usage-stats
+   */
+  static async getUsageStats(userId: string) {
+    const { plan, quotas } = await this.getEntitlements(userId);
+
+    return {
+      subscriptionType: plan.type,
+      mealScans: {
+        current: quotas.mealScans.used,
+        limit: quotas.mealScans.limit,
+        remaining: quotas.mealScans.remaining,
+        resetDate: quotas.mealScans.resetAt,
+      },
+      aiChat: {
+        current: quotas.aiChatTokens.used,
+        limit: quotas.aiChatTokens.limit,
+        remaining: quotas.aiChatTokens.remaining,
+        resetDate: quotas.aiChatTokens.resetAt,
+        messagesEstimate: quotas.aiChatTokens.messagesEstimate ?? undefined,
+      },
+    };
+  }
+
+  // Plans quote chat as "about N messages"; spread the token quota accordingly
+  private static tokensPerMessage(plan: PlanSummary): number {
+    const { aiChatTokensPerMonth, aiChatMessagesEstimate } = plan.limits;
+    return aiChatTokensPerMonth && aiChatMessagesEstimate
+      ? aiChatTokensPerMonth / aiChatMessagesEstimate
+      : CHAT_TOKENS_PER_MESSAGE;
+  }
+
+  private static quotaStatus(
+    limit: number | null,
+    used: number,
+    resetAt: Date | null
+  ): QuotaStatus {
+    return {
+      used,
+      limit,
+      remaining: limit === null ? null : Math.max(0, limit - used),
+      unlimited: limit === null,
+      resetAt,
+    };
+  }
+}
@@ -1,6 +1,8 @@
 import { prisma } from "../lib/database";
 import { openai } from "./openai";
 import axios from "axios";
+import { AchievementService } from "./achievements";
+import { PantryService } from "./pantry";
 
 interface ProductData {
   barcode?: string;
@@ -279,8 +281,7 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
         },
       });
 
-      // Award achievement for first scan
-      await this.checkAndAwardAchievements(userId);
+      await AchievementService.checkAndAwardAchievements(userId);
 
       return meal;
     } catch (error) {
@@ -289,6 +290,41 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
     }
   }
 
+  /**
+   * Stock a scanned product in the user's pantry. Quantity is in grams
+   * unless a unit is given, as for the meal log.
+   */
+  static async addProductToPantry(
+    userId: string,
+    productData: ProductData,
+    quantity: number,
+    options: { unit?: string; expiresAt?: Date | null } = {}
+  ) {
+    try {
+      console.log("🥫 Adding product to pantry...");
+
+      const [item] = await PantryService.addItems(
+        userId,
+        [
+          {
+            name: productData.name,
+            quantity,
+            unit: options.unit || "g",
+            category: productData.category,
+            barcode: productData.barcode,
+            expires_at: options.expiresAt,
+          },
+        ],
+        "scanner"
+      );
+
+      return item;
+    } catch (error) {
+      console.error("💥 Add to pantry error:", error);
+      throw error;
+    }
+  }
+
   static async getScanHistory(userId: string): Promise<any[]> {
     try {
       // Get both scanned food products and meals created from scanned items
@@ -610,50 +646,4 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
       };
     }
   }
-
-  private static async checkAndAwardAchievements(
-    userId: string
-  ): Promise<void> {
-    try {
-      // Check for first scan achievement
-      const scanCount = await prisma.meal.count({
-        where: { user_id: userId },
-      });
-
-      if (scanCount === 1) {
-        // This is the first scan, award achievement
-        await prisma.userAchievement.upsert({
-          where: {
-            user_id_achievement_id: {
-              user_id: userId,
-              achievement_id: "first_scan",
-            },
-          },
-          update: {
-            progress: 1,
-            unlocked: true,
-            unlocked_date: new Date(),
-          },
-          create: {
-            user_id: userId,
-            achievement_id: "first_scan",
-            progress: 1,
-            unlocked: true,
-            unlocked_date: new Date(),
-          },
-        });
-
-        // Award XP
-        await prisma.user.update({
-          where: { user_id: userId },
-          data: {
-            current_xp: { increment: 50 },
-            total_points: { increment: 50 },
-          },
-        });
-      }
-    } catch (error) {
-      console.error("Error checking achievements:", error);
-    }
-  }
 }
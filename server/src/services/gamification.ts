@@ -0,0 +1,147 @@
+import { Prisma, XpSource } from "@prisma/client";
+import { prisma } from "../lib/database";
+import {
+  GamificationSummary,
+  LevelProgress,
+  XpAward,
+  XpAwardDetails,
+  XpHistoryQuery,
+} from "../types/gamification";
+
+export const XP_PER_LEVEL = 100;
+
+/**
+ * The XP ledger. Every XP change goes through awardXp, which records an
+ * XpTransaction and keeps the cached total_points, current_xp and level on
+ * User in step with it.
+ */
+export class GamificationService {
+  static levelProgress(totalPoints: number): LevelProgress {
+    const total = Math.max(totalPoints, 0);
+    const currentXP = total % XP_PER_LEVEL;
+
+    return {
+      level: Math.floor(total / XP_PER_LEVEL) + 1,
+      totalPoints: total,
+      currentXP,
+      nextLevelXP: XP_PER_LEVEL,
+      xpToNextLevel: XP_PER_LEVEL - currentXP,
+      xpProgress: Math.round((currentXP / XP_PER_LEVEL) * 100),
+    };
+  }
+
+  // Pass tx to record the XP as part of a larger transaction
+  static async awardXp(
+    userId: string,
+    amount: number,
+    source: XpSource,
+    details: XpAwardDetails = {},
+    tx?: Prisma.TransactionClient
+  ): Promise<XpAward> {
+    const record = async (db: Prisma.TransactionClient) => {
+      // Incrementing in the database keeps concurrent awards from losing XP
+      const user = await db.user.update({
+        where: { user_id: userId },
+        data: { total_points: { increment: amount } },
+        select: { total_points: true, level: true },
+      });
+
+      const progress = this.levelProgress(user.total_points ?? amount);
+      await db.user.update({
+        where: { user_id: userId },
+        data: { level: progress.level, current_xp: progress.currentXP },
+      });
+
+      await db.xpTransaction.create({
+        data: {
+          user_id: userId,
+          amount,
+          balance_after: progress.totalPoints,
+          source,
+          achievement_id: details.achievementId,
+          reference_id: details.referenceId,
+          description: details.description,
+        },
+      });
+
+      const previousLevel = user.level || 1;
+      return {
+        xpGained: amount,
+        totalPoints: progress.totalPoints,
+        leveledUp: progress.level > previousLevel,
+        previousLevel,
+        newLevel: progress.level,
+      };
+    };
+
+    const award = tx ? await record(tx) : await prisma.$transaction(record);
+    console.log(
+      `✨ ${source}: ${amount > 0 ? "+" : ""}${amount} XP for user ${userId} (total ${award.totalPoints})`
+    );
+    return award;
+  }
+
+  static async getSummary(userId: string): Promise<GamificationSummary> {
+    const [user, unlocked, totalAchievements] = await Promise.all([
+      prisma.user.findUnique({
+        where: { user_id: userId },
+        select: {
+          total_points: true,
+          current_streak: true,
+          best_streak: true,
+          total_complete_days: true,
+        },
+      }),
+      prisma.userAchievement.findMany({
+        where: { user_id: userId, unlocked: true },
+        select: { achievement: { select: { points_awarded: true } } },
+      }),
+      prisma.achievement.count(),
+    ]);
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    return {
+      ...this.levelProgress(user.total_points || 0),
+      unlockedAchievements: unlocked.length,
+      totalAchievements,
+      achievementXP: unlocked.reduce(
+        (sum, { achievement }) => sum + achievement.points_awarded,
+        0
+      ),
+      currentStreak: user.current_streak || 0,
+      bestStreak: user.best_streak || 0,
+      totalCompleteDays: user.total_complete_days || 0,
+    };
+  }
+
+  /**
+   * Newest entries first
+   */
+  static async getHistory(userId: string, query: XpHistoryQuery) {
+    const transactions = await prisma.xpTransaction.findMany({
+      where: {
+        user_id: userId,
+        ...(query.source && { source: query.source }),
+      },
+      orderBy: [{ created_at: "desc" }, { transaction_id: "desc" }],
+      take: query.limit + 1,
+      ...(query.cursor && {
+        cursor: { transaction_id: query.cursor },
+        skip: 1,
+      }),
+      include: {
+        achievement: { select: { key: true, title: true, icon: true } },
+      },
+    });
+
+    const hasMore = transactions.length > query.limit;
+    const page = hasMore ? transactions.slice(0, query.limit) : transactions;
+    return {
+      transactions: page,
+      next_cursor: hasMore ? page[page.length - 1].transaction_id : null,
+    };
+  }
+}
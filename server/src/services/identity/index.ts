@@ -0,0 +1,157 @@
+import crypto from "crypto";
+import jwt, { JwtPayload } from "jsonwebtoken";
+import {
+  IdentityError,
+  IdentityProviderConfig,
+  IdentityProviderName,
+  VerifiedIdentity,
+} from "../../types/auth";
+import { JwksKeySet } from "./jwks";
+
+const SUPPORTED_ALGORITHMS = ["RS256", "ES256"] as const;
+// Allowed drift between our clock and the provider's
+const CLOCK_TOLERANCE_SECONDS = 60;
+
+const PROVIDER_DEFAULTS: Record<
+  IdentityProviderName,
+  { issuers: string[]; jwksUri: string; env: string }
+> = {
+  google: {
+    issuers: ["https://accounts.google.com", "accounts.google.com"],
+    jwksUri: "https://www.googleapis.com/oauth2/v3/certs",
+    env: "GOOGLE",
+  },
+  apple: {
+    issuers: ["https://appleid.apple.com"],
+    jwksUri: "https://appleid.apple.com/auth/keys",
+    env: "APPLE",
+  },
+};
+
+function parseList(value?: string) {
+  return (value || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+export function isIdentityProvider(
+  value: string
+): value is IdentityProviderName {
+  return value in PROVIDER_DEFAULTS;
+}
+
+/**
+ * Provider settings from the environment: <PROVIDER>_CLIENT_IDS (comma
+ * separated) and an optional <PROVIDER>_JWKS_URI override
+ */
+export function getIdentityProviderConfig(
+  provider: IdentityProviderName
+): IdentityProviderConfig {
+  const defaults = PROVIDER_DEFAULTS[provider];
+  return {
+    provider,
+    issuers: defaults.issuers,
+    audiences: parseList(process.env[`${defaults.env}_CLIENT_IDS`]),
+    jwksUri: process.env[`${defaults.env}_JWKS_URI`] || defaults.jwksUri,
+  };
+}
+
+/**
+ * Verifies ID tokens the app got from Google or Apple sign-in: signature
+ * against the provider's published keys, issuer, audience, expiry and nonce.
+ */
+export class IdentityTokenVerifier {
+  private keySet: JwksKeySet;
+
+  constructor(private config: IdentityProviderConfig) {
+    this.keySet = new JwksKeySet(config.jwksUri);
+  }
+
+  async verify(idToken: string, nonce?: string): Promise<VerifiedIdentity> {
+    if (this.config.audiences.length === 0) {
+      throw new IdentityError(
+        `${this.config.provider} sign-in is not configured`,
+        503
+      );
+    }
+
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === "string") {
+      throw new IdentityError("Malformed ID token");
+    }
+
+    const { alg, kid } = decoded.header;
+    const algorithm = SUPPORTED_ALGORITHMS.find((a) => a === alg);
+    if (!algorithm || !kid) {
+      throw new IdentityError("Unsupported ID token signature");
+    }
+
+    const key = await this.keySet.getKey(kid);
+
+    let payload: JwtPayload;
+    try {
+      payload = jwt.verify(idToken, key, {
+        algorithms: [algorithm],
+        // Both lists are non-empty: defaults, and the check above
+        issuer: this.config.issuers as [string, ...string[]],
+        audience: this.config.audiences as [string, ...string[]],
+        clockTolerance: CLOCK_TOLERANCE_SECONDS,
+      }) as JwtPayload;
+    } catch (error) {
+      console.warn(
+        `⚠️ Rejected ${this.config.provider} ID token:`,
+        error instanceof Error ? error.message : error
+      );
+      throw new IdentityError("Invalid or expired ID token");
+    }
+
+    if (!payload.sub) {
+      throw new IdentityError("ID token has no subject");
+    }
+
+    // Apple sign-in on iOS embeds the SHA-256 of the nonce the app generated
+    if (nonce) {
+      const hashedNonce = crypto
+        .createHash("sha256")
+        .update(nonce)
+        .digest("hex");
+      if (payload.nonce !== nonce && payload.nonce !== hashedNonce) {
+        throw new IdentityError("ID token nonce mismatch");
+      }
+    }
+
+    return {
+      provider: this.config.provider,
+      subject: payload.sub,
+      email: typeof payload.email === "string" ? payload.email : null,
+      // Apple sends the boolean claims as strings
+      email_verified:
+        payload.email_verified === true || payload.email_verified === "true",
+      name: typeof payload.name === "string" ? payload.name : null,
+    };
+  }
+}
+
+const verifiers = new Map<IdentityProviderName, IdentityTokenVerifier>();
+
+export function getIdentityVerifier(
+  provider: IdentityProviderName
+): IdentityTokenVerifier {
+  if (!verifiers.has(provider)) {
+    verifiers.set(
+      provider,
+      new IdentityTokenVerifier(getIdentityProviderConfig(provider))
+    );
+  }
+  return verifiers.get(provider)!;
+}
+
+export function setIdentityVerifier(
+  provider: IdentityProviderName,
+  verifier: IdentityTokenVerifier
+) {
+  verifiers.set(provider, verifier);
+}
+
+export { JwksKeySet };
@@ -0,0 +1,93 @@
+import axios from "axios";
+import crypto, { JsonWebKey, KeyObject } from "crypto";
+import { promises as fs } from "fs";
+import { fileURLToPath } from "url";
+import { IdentityError } from "../../types/auth";
+
+const CACHE_TTL_MS = 60 * 60 * 1000;
+// Providers rotate keys, so an unknown kid triggers a refetch, but no more
+// often than this
+const REFETCH_COOLDOWN_MS = 60 * 1000;
+
+interface Jwk extends JsonWebKey {
+  kid?: string;
+  use?: string;
+}
+
+/**
+ * Public keys from a provider's JWKS endpoint, cached by kid. The URI may also
+ * be a file path or file:// URL so tests can sign tokens with a local key set.
+ */
+export class JwksKeySet {
+  private keys = new Map<string, KeyObject>();
+  private fetchedAt = 0;
+  private attemptedAt = 0;
+  private pending: Promise<void> | null = null;
+
+  constructor(private uri: string) {}
+
+  async getKey(kid: string): Promise<KeyObject> {
+    const now = Date.now();
+    const expired = now - this.fetchedAt > CACHE_TTL_MS;
+    const unknownKid =
+      !this.keys.has(kid) && now - this.attemptedAt > REFETCH_COOLDOWN_MS;
+
+    if (expired || unknownKid) {
+      await this.refresh();
+    }
+
+    const key = this.keys.get(kid);
+    if (!key) {
+      throw new IdentityError("ID token is signed with an unknown key");
+    }
+    return key;
+  }
+
+  private refresh() {
+    if (!this.pending) {
+      this.pending = this.load().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  private async load() {
+    this.attemptedAt = Date.now();
+
+    let keySet: { keys?: Jwk[] };
+    try {
+      keySet = await this.fetchKeySet();
+    } catch (error) {
+      console.error(`💥 Failed to load signing keys from ${this.uri}:`, error);
+      // Keep verifying with the keys we have rather than failing every sign-in
+      if (this.keys.size > 0) return;
+      throw new IdentityError("Sign-in provider is unavailable", 503);
+    }
+
+    const keys = new Map<string, KeyObject>();
+    for (const jwk of keySet.keys || []) {
+      if (!jwk.kid || (jwk.use && jwk.use !== "sig")) continue;
+      try {
+        keys.set(jwk.kid, crypto.createPublicKey({ key: jwk, format: "jwk" }));
+      } catch (error) {
+        console.warn(`⚠️ Skipping unusable signing key ${jwk.kid}:`, error);
+      }
+    }
+
+    this.keys = keys;
+    this.fetchedAt = Date.now();
+  }
+
+  private async fetchKeySet(): Promise<{ keys?: Jwk[] }> {
+    if (/^https?:\/\//.test(this.uri)) {
+      const response = await axios.get(this.uri, { timeout: 10000 });
+      return response.data;
+    }
+
+    const filePath = this.uri.startsWith("file:")
+      ? fileURLToPath(this.uri)
+      : this.uri;
+    return JSON.parse(await fs.readFile(filePath, "utf8"));
+  }
+}
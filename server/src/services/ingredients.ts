@@ -0,0 +1,249 @@
+import {
+  CATEGORY_ALIASES,
+  INGREDIENTS,
+  IngredientDefinition,
+  UNITS,
+} from "../config/ingredients";
+import {
+  AggregatedIngredient,
+  BaseUnit,
+  IngredientInput,
+  SHOPPING_CATEGORIES,
+  ShoppingCategory,
+  ShoppingItem,
+} from "../types/shoppingLists";
+
+// Preparation words that don't change what is bought
+const DESCRIPTORS = new Set([
+  "fresh",
+  "raw",
+  "cooked",
+  "boiled",
+  "grilled",
+  "baked",
+  "roasted",
+  "chopped",
+  "diced",
+  "sliced",
+  "minced",
+  "grated",
+  "shredded",
+  "large",
+  "medium",
+  "small",
+  "organic",
+  "lean",
+  "skinless",
+  "boneless",
+  "טרי",
+  "טרייה",
+  "טריים",
+  "קצוץ",
+  "קצוצה",
+  "מבושל",
+  "מבושלת",
+]);
+
+const HEBREW_POINTS = /[\u0591-\u05C7]/g;
+
+function singularize(word: string): string {
+  if (!/^[a-z]+$/.test(word) || word.length <= 3) return word;
+  if (word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (/(oes|ches|shes|sses|xes)$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(HEBREW_POINTS, "")
+    .replace(/\(.*?\)/g, " ")
+    .replace(/[^\p{L}\p{N}'"\s-]/gu, " ")
+    .split(/\s+/)
+    .filter((word) => word && !DESCRIPTORS.has(word))
+    .map(singularize)
+    .join(" ");
+}
+
+let catalog: Map<string, IngredientDefinition> | null = null;
+
+function getCatalog() {
+  if (!catalog) {
+    catalog = new Map();
+    for (const definition of INGREDIENTS) {
+      for (const name of [definition.key, ...definition.names]) {
+        catalog.set(normalizeName(name), definition);
+      }
+    }
+  }
+  return catalog;
+}
+
+const round = (value: number, digits = 2) =>
+  Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Turns ingredients written any which way ("2 cups spinach", "תרד 100 גרם",
+ * "Tomatoes") into shopping items: one per ingredient, in the unit it is sold
+ * in, rounded up to whole packs and priced from the ingredient catalog.
+ */
+export class IngredientService {
+  static lookup(name: string): IngredientDefinition | undefined {
+    return getCatalog().get(normalizeName(name));
+  }
+
+  /**
+   * The key ingredients are merged under: the catalog key when the name is
+   * known, otherwise the normalized name
+   */
+  static keyFor(name: string): string {
+    return this.lookup(name)?.key ?? normalizeName(name);
+  }
+
+  // Unknown units ("bunch", "can") are counted as pieces
+  static parseUnit(unit?: string | null): { base: BaseUnit; factor: number } {
+    const normalized = (unit || "").trim().toLowerCase().replace(/\.$/, "");
+    return (
+      UNITS[normalized] ||
+      UNITS[singularize(normalized)] || { base: "pieces", factor: 1 }
+    );
+  }
+
+  /**
+   * Convert between base units. Volume and mass need the ingredient's
+   * density, pieces need its piece weight; returns null without them.
+   */
+  static convert(
+    quantity: number,
+    from: BaseUnit,
+    to: BaseUnit,
+    definition?: IngredientDefinition
+  ): number | null {
+    if (from === to) return quantity;
+
+    const toGrams: Partial<Record<BaseUnit, number>> = {
+      g: 1,
+      ml: definition?.density,
+      pieces: definition?.pieceWeight,
+    };
+    const fromFactor = toGrams[from];
+    const toFactor = toGrams[to];
+    if (!fromFactor || !toFactor) return null;
+    return (quantity * fromFactor) / toFactor;
+  }
+
+  static normalizeCategory(
+    category?: string | null,
+    definition?: IngredientDefinition
+  ): ShoppingCategory {
+    if (definition) return definition.category;
+
+    const trimmed = (category || "").trim();
+    const known = SHOPPING_CATEGORIES.find(
+      (name) => name.toLowerCase() === trimmed.toLowerCase()
+    );
+    return known || CATEGORY_ALIASES[trimmed.toLowerCase()] || "Other";
+  }
+
+  /**
+   * Merge ingredients by normalized name. Quantities are converted to the
+   * unit the ingredient is sold in; ones that can't be converted (an unknown
+   * ingredient given in both cups and grams) stay on a line of their own.
+   */
+  static combine(ingredients: IngredientInput[]): AggregatedIngredient[] {
+    const combined = new Map<string, AggregatedIngredient>();
+
+    for (const ingredient of ingredients) {
+      const name = ingredient.name?.trim();
+      if (!name) continue;
+
+      const definition = this.lookup(name);
+      const key = definition?.key ?? normalizeName(name);
+      const unit = this.parseUnit(ingredient.unit);
+      const amount = (ingredient.quantity || 1) * unit.factor;
+
+      const target = definition?.unit ?? combined.get(key)?.unit ?? unit.base;
+      let quantity = this.convert(amount, unit.base, target, definition);
+      let lineKey = key;
+      let lineUnit = target;
+      if (quantity === null) {
+        quantity = amount;
+        lineKey = `${key}:${unit.base}`;
+        lineUnit = unit.base;
+      }
+
+      const line = combined.get(lineKey);
+      if (line) {
+        line.quantity += quantity;
+        if (ingredient.estimated_cost != null) {
+          line.estimated_cost =
+            (line.estimated_cost ?? 0) + ingredient.estimated_cost;
+        }
+      } else {
+        combined.set(lineKey, {
+          key,
+          name,
+          quantity,
+          unit: lineUnit,
+          category: this.normalizeCategory(ingredient.category, definition),
+          estimated_cost: ingredient.estimated_cost ?? null,
+        });
+      }
+    }
+
+    return Array.from(combined.values());
+  }
+
+  /**
+   * Round an ingredient up to what the store sells. Catalog items are priced
+   * per pack; other items keep the cost their source estimated, if any.
+   */
+  static toShoppingItem(ingredient: AggregatedIngredient): ShoppingItem {
+    const definition = this.lookup(ingredient.key);
+    const pack = definition?.unit === ingredient.unit ? definition.pack : null;
+
+    if (pack) {
+      // Ignore float noise so 2 × 250 g doesn't become three packs
+      const packs = Math.max(
+        1,
+        Math.ceil(round(ingredient.quantity / pack.size, 3))
+      );
+      return {
+        ...ingredient,
+        needed: round(ingredient.quantity),
+        quantity: packs * pack.size,
+        packs,
+        pack_size: pack.size,
+        estimated_cost: round(packs * pack.price),
+      };
+    }
+
+    return {
+      ...ingredient,
+      needed: round(ingredient.quantity),
+      quantity:
+        ingredient.unit === "pieces"
+          ? Math.ceil(round(ingredient.quantity))
+          : Math.round(ingredient.quantity),
+      packs: null,
+      pack_size: null,
+      estimated_cost:
+        ingredient.estimated_cost === null
+          ? null
+          : round(ingredient.estimated_cost),
+    };
+  }
+
+  static aggregate(ingredients: IngredientInput[]): ShoppingItem[] {
+    return this.combine(ingredients).map((ingredient) =>
+      this.toShoppingItem(ingredient)
+    );
+  }
+
+  static totalCost(items: { estimated_cost: number | null }[]): number {
+    return round(
+      items.reduce((sum, item) => sum + (item.estimated_cost ?? 0), 0)
+    );
+  }
+}
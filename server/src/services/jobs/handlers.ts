@@ -0,0 +1,158 @@
+import { prisma } from "../../lib/database";
+import {
+  JobHandler,
+  JobPayloads,
+  JobType,
+  UserJobPayload,
+} from "../../types/jobs";
+import { EnhancedDailyGoalsService } from "../database/dailyGoals";
+import { EnhancedAIRecommendationService } from "../database/aiRecommendations";
+import { DatabaseOptimizationService } from "../database/optimization";
+import { PushNotificationService } from "../pushNotifications";
+import { SubscriptionService } from "../subscriptions";
+import { DeviceSyncService } from "../deviceSync";
+import { LoginThrottleService } from "../loginThrottle";
+import { ShoppingListService } from "../shoppingLists";
+
+// Finished jobs are kept this long for the admin run history
+const JOB_HISTORY_DAYS = 30;
+
+// The users a fan-out job covers, one child job each
+async function userPayloads(timeZones?: string[]): Promise<UserJobPayload[]> {
+  const users = await prisma.user.findMany({
+    where: timeZones && { timezone: { in: timeZones } },
+    select: { user_id: true },
+  });
+  return users.map((user) => ({ userId: user.user_id }));
+}
+
+const handlers: { [T in JobType]: JobHandler<JobPayloads[T]> } = {
+  "daily-goals": {
+    run: async ({ timeZones }, { enqueueChildren }) => ({
+      queued: await enqueueChildren(
+        "daily-goals.user",
+        await userPayloads(timeZones)
+      ),
+    }),
+  },
+
+  "daily-goals.user": {
+    run: async ({ userId }) => {
+      const created =
+        await EnhancedDailyGoalsService.createDailyGoalForUser(userId);
+      if (!created) {
+        throw new Error(`Daily goal was not created for user ${userId}`);
+      }
+      return { created };
+    },
+  },
+
+  "ai-recommendations": {
+    run: async ({ timeZones }, { enqueueChildren }) => ({
+      queued: await enqueueChildren(
+        "ai-recommendations.user",
+        await userPayloads(timeZones)
+      ),
+    }),
+  },
+
+  "ai-recommendations.user": {
+    leaseMs: 5 * 60 * 1000,
+    maxAttempts: 3,
+    run: async ({ userId }, { job }) => {
+      const created =
+        await EnhancedAIRecommendationService.generateRecommendationForUser(
+          userId
+        );
+      if (created) {
+        await PushNotificationService.notifyNewRecommendations(
+          job.started_at ?? job.created_at,
+          [userId]
+        );
+      }
+      return { created };
+    },
+  },
+
+  "goal-reminders": {
+    // A retry would remind the users who already got one again
+    maxAttempts: 1,
+    run: ({ timeZones }) =>
+      PushNotificationService.sendGoalReminders(timeZones),
+  },
+
+  "subscription-expiry": {
+    run: async () => ({
+      downgraded: await SubscriptionService.downgradeExpiredSubscriptions(),
+    }),
+  },
+
+  "device-sync": {
+    leaseMs: 30 * 60 * 1000,
+    run: () => DeviceSyncService.syncDueDevices(),
+  },
+
+  "data-cleanup": {
+    run: async () => {
+      const cleanup =
+        await DatabaseOptimizationService.performIntelligentCleanup();
+      const throttles = await LoginThrottleService.pruneStale();
+      const shoppingListEvents = await ShoppingListService.pruneEvents();
+
+      const cutoff = new Date();
+      cutoff.setDate(cutoff.getDate() - JOB_HISTORY_DAYS);
+      // Children go with their parent run
+      const jobs = await prisma.job.deleteMany({
+        where: {
+          parent_id: null,
+          status: { in: ["COMPLETED", "FAILED"] },
+          created_at: { lt: cutoff },
+        },
+      });
+
+      return { ...cleanup, throttles, shoppingListEvents, jobs: jobs.count };
+    },
+  },
+
+  "database-optimization": {
+    run: async () => {
+      const health = await DatabaseOptimizationService.checkDatabaseHealth();
+      if (health.needsCleanup) {
+        await DatabaseOptimizationService.performIntelligentCleanup();
+      }
+      await DatabaseOptimizationService.optimizeDatabase();
+      return { status: health.status, cleaned: health.needsCleanup };
+    },
+  },
+
+  "database-health-check": {
+    run: async () => {
+      const health = await DatabaseOptimizationService.checkDatabaseHealth();
+      if (health.status !== "critical") {
+        return { status: health.status };
+      }
+
+      console.log(
+        "🚨 Critical database state detected, running emergency recovery"
+      );
+      if (!(await DatabaseOptimizationService.emergencyRecovery())) {
+        throw new Error(
+          "Emergency recovery failed - manual intervention required"
+        );
+      }
+      return { status: health.status, recovered: true };
+    },
+  },
+};
+
+export function isJobType(type: string): type is JobType {
+  return Object.prototype.hasOwnProperty.call(handlers, type);
+}
+
+export function getJobHandler(type: string): JobHandler | undefined {
+  return isJobType(type) ? handlers[type] : undefined;
+}
+
+export function getJobTypes(): string[] {
+  return Object.keys(handlers);
+}
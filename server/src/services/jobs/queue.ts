@@ -0,0 +1,297 @@
+import os from "os";
+import { Job, JobStatus, Prisma } from "@prisma/client";
+import { prisma } from "../../lib/database";
+import {
+  EnqueueOptions,
+  JobContext,
+  JobError,
+  JobPayload,
+  JobStatusQuery,
+} from "../../types/jobs";
+import { getJobHandler } from "./handlers";
+
+const DEFAULT_LEASE_MS = 10 * 60 * 1000;
+// Renew a running job's lease this many times per lease period
+const LEASE_RENEWALS_PER_PERIOD = 3;
+const DEFAULT_MAX_ATTEMPTS = 5;
+// Failed runs wait 30s, 1m, 2m, ... before the next attempt
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+// Another worker may claim the same candidate first; try a few before giving up
+const CLAIM_TRIES = 5;
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * The persisted job queue. Jobs are claimed with a conditional update, so
+ * several API instances can work the same table without running a job twice,
+ * and a job held by a crashed worker is taken over once its lease runs out.
+ *
+ * The worker renews the lease while a handler runs, so a slow job is never
+ * taken over from a live worker. A worker that stalls past its lease can
+ * still be overtaken, so handlers must be safe to run twice.
+ */
+export class JobQueueService {
+  static readonly workerId = `${os.hostname()}:${process.pid}`;
+
+  /**
+   * Returns null when a job with the same dedupe key already exists
+   */
+  static async enqueue(
+    type: string,
+    payload: JobPayload = {},
+    options: EnqueueOptions = {}
+  ): Promise<Job | null> {
+    const handler = getJobHandler(type);
+    if (!handler) {
+      throw new JobError(`Unknown job type "${type}"`);
+    }
+
+    try {
+      return await prisma.job.create({
+        data: {
+          type,
+          payload: payload as Prisma.InputJsonObject,
+          dedupe_key: options.dedupeKey,
+          parent_id: options.parentId,
+          run_at: options.runAt,
+          triggered_by: options.triggeredBy,
+          max_attempts: handler.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+        },
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Lease the next job that is due, or one whose lease has run out
+   */
+  static async claimNext(): Promise<Job | null> {
+    for (let i = 0; i < CLAIM_TRIES; i++) {
+      const now = new Date();
+      const candidate = await prisma.job.findFirst({
+        where: {
+          OR: [
+            { status: "PENDING", run_at: { lte: now } },
+            { status: "RUNNING", locked_until: { lt: now } },
+          ],
+        },
+        orderBy: { run_at: "asc" },
+      });
+      if (!candidate) return null;
+
+      // The worker that held it crashed on the last allowed attempt
+      if (
+        candidate.status === "RUNNING" &&
+        candidate.attempts >= candidate.max_attempts
+      ) {
+        await prisma.job.updateMany({
+          where: { job_id: candidate.job_id, attempts: candidate.attempts },
+          data: {
+            status: "FAILED",
+            last_error: candidate.last_error || "Lease expired",
+            locked_by: null,
+            locked_until: null,
+            completed_at: now,
+          },
+        });
+        continue;
+      }
+
+      const leaseMs =
+        getJobHandler(candidate.type)?.leaseMs ?? DEFAULT_LEASE_MS;
+      const claimed = await prisma.job.updateMany({
+        where: {
+          job_id: candidate.job_id,
+          status: candidate.status,
+          attempts: candidate.attempts,
+        },
+        data: {
+          status: "RUNNING",
+          locked_by: this.workerId,
+          locked_until: new Date(now.getTime() + leaseMs),
+          attempts: { increment: 1 },
+          started_at: now,
+        },
+      });
+      if (claimed.count === 1) {
+        return prisma.job.findUnique({ where: { job_id: candidate.job_id } });
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Run a claimed job. Failures are retried with backoff until max_attempts.
+   */
+  static async run(job: Job): Promise<JobStatus> {
+    const handler = getJobHandler(job.type);
+    // Only the worker still holding the lease may record the outcome
+    const ownLease = {
+      job_id: job.job_id,
+      status: "RUNNING" as const,
+      locked_by: this.workerId,
+    };
+
+    const leaseMs = handler?.leaseMs ?? DEFAULT_LEASE_MS;
+    const renewal = setInterval(() => {
+      prisma.job
+        .updateMany({
+          where: ownLease,
+          data: { locked_until: new Date(Date.now() + leaseMs) },
+        })
+        .then(({ count }) => {
+          if (count === 0) {
+            console.warn(
+              `⚠️ Job ${job.type} (${job.job_id}) lost its lease while running`
+            );
+          }
+        })
+        .catch((error) =>
+          console.error(`💥 Failed to renew lease of job ${job.job_id}:`, error)
+        );
+    }, leaseMs / LEASE_RENEWALS_PER_PERIOD);
+
+    try {
+      if (!handler) {
+        throw new JobError(`Unknown job type "${job.type}"`);
+      }
+
+      const context: JobContext = {
+        job,
+        enqueueChildren: async (type, payloads) => {
+          const jobs = await Promise.all(
+            payloads.map((payload) =>
+              this.enqueue(type, payload, {
+                parentId: job.job_id,
+                dedupeKey: `${job.job_id}:${type}:${JSON.stringify(payload)}`,
+              })
+            )
+          );
+          return jobs.filter(Boolean).length;
+        },
+      };
+
+      const result = await handler.run(job.payload as JobPayload, context);
+      clearInterval(renewal);
+      await prisma.job.updateMany({
+        where: ownLease,
+        data: {
+          status: "COMPLETED",
+          result: (result ?? undefined) as Prisma.InputJsonValue | undefined,
+          last_error: null,
+          locked_by: null,
+          locked_until: null,
+          completed_at: new Date(),
+        },
+      });
+      console.log(`✅ Job ${job.type} (${job.job_id}) completed`);
+      return "COMPLETED";
+    } catch (error) {
+      clearInterval(renewal);
+      const retry = !!handler && job.attempts < job.max_attempts;
+      const delay = Math.min(
+        RETRY_BASE_MS * 2 ** (job.attempts - 1),
+        RETRY_MAX_MS
+      );
+
+      await prisma.job.updateMany({
+        where: ownLease,
+        data: {
+          status: retry ? "PENDING" : "FAILED",
+          last_error: errorMessage(error),
+          run_at: retry ? new Date(Date.now() + delay) : undefined,
+          locked_by: null,
+          locked_until: null,
+          completed_at: retry ? null : new Date(),
+        },
+      });
+      console.error(
+        `💥 Job ${job.type} (${job.job_id}) failed, attempt ${job.attempts}/${job.max_attempts}${
+          retry ? `, retrying in ${Math.round(delay / 1000)}s` : ""
+        }:`,
+        error
+      );
+      return retry ? "PENDING" : "FAILED";
+    }
+  }
+
+  /**
+   * Claim and run due jobs one at a time. Returns how many ran.
+   */
+  static async processDue(limit: number): Promise<number> {
+    let processed = 0;
+    while (processed < limit) {
+      const job = await this.claimNext();
+      if (!job) break;
+      await this.run(job);
+      processed++;
+    }
+    return processed;
+  }
+
+  /**
+   * Run a finished job again as a new job, keeping the old one as history
+   */
+  static async rerun(jobId: string, triggeredBy: string): Promise<Job> {
+    const job = await prisma.job.findUnique({ where: { job_id: jobId } });
+    if (!job) {
+      throw new JobError("Job not found", 404);
+    }
+    if (job.status === "PENDING" || job.status === "RUNNING") {
+      throw new JobError("Job has not finished yet", 409);
+    }
+
+    return (await this.enqueue(job.type, job.payload as JobPayload, {
+      triggeredBy,
+    }))!;
+  }
+
+  /**
+   * Run history for the admin panel. Lists scheduled and manual runs; the
+   * per-user jobs they fanned out to are summed up under each run.
+   */
+  static async getHistory(query: JobStatusQuery) {
+    const [jobs, counts] = await Promise.all([
+      prisma.job.findMany({
+        where: {
+          parent_id: null,
+          ...(query.type && { type: query.type }),
+          ...(query.status && { status: query.status }),
+        },
+        orderBy: { created_at: "desc" },
+        take: query.limit,
+      }),
+      prisma.job.groupBy({ by: ["status"], _count: { _all: true } }),
+    ]);
+
+    const children = await prisma.job.groupBy({
+      by: ["parent_id", "status"],
+      where: { parent_id: { in: jobs.map((job) => job.job_id) } },
+      _count: { _all: true },
+    });
+
+    return {
+      counts: Object.fromEntries(
+        counts.map((row) => [row.status, row._count._all])
+      ) as Partial<Record<JobStatus, number>>,
+      jobs: jobs.map((job) => ({
+        ...job,
+        children: Object.fromEntries(
+          children
+            .filter((row) => row.parent_id === job.job_id)
+            .map((row) => [row.status, row._count._all])
+        ) as Partial<Record<JobStatus, number>>,
+      })),
+    };
+  }
+}
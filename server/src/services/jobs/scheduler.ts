@@ -0,0 +1,211 @@
+import cron, { ScheduledTask } from "node-cron";
+import { prisma } from "../../lib/database";
+import { JobSchedule, JobStatusQuery } from "../../types/jobs";
+import { timeZonesAtLocalHour } from "../../utils/userDay";
+import { JobQueueService } from "./queue";
+
+const POLL_INTERVAL_MS = 5000;
+// Jobs run per poll before yielding to the next one
+const POLL_BATCH = 20;
+
+// Per-user jobs run every hour for the timezones where it is currently the
+// job's local hour
+async function atLocalHour(hour: number) {
+  const timeZones = await timeZonesAtLocalHour(hour);
+  return timeZones.length > 0 ? { timeZones } : null;
+}
+
+export const JOB_SCHEDULES: JobSchedule[] = [
+  {
+    type: "daily-goals",
+    cron: "30 * * * *",
+    description: "00:30 daily, user's local time",
+    payload: () => atLocalHour(0),
+  },
+  {
+    type: "ai-recommendations",
+    cron: "0 * * * *",
+    description: "06:00 daily, user's local time",
+    payload: () => atLocalHour(6),
+  },
+  {
+    type: "goal-reminders",
+    cron: "0 * * * *",
+    description: "18:00 daily, user's local time",
+    payload: () => atLocalHour(18),
+  },
+  {
+    type: "subscription-expiry",
+    cron: "0 1 * * *",
+    description: "01:00 daily",
+  },
+  {
+    type: "device-sync",
+    cron: "15 * * * *",
+    description: "Hourly at :15",
+  },
+  {
+    type: "data-cleanup",
+    cron: "0 */4 * * *",
+    description: "Every 4 hours",
+  },
+  {
+    type: "database-optimization",
+    cron: "0 */6 * * *",
+    description: "Every 6 hours",
+  },
+  {
+    type: "database-health-check",
+    cron: "0 */2 * * *",
+    description: "Every 2 hours",
+  },
+];
+
+/**
+ * Puts scheduled jobs on the queue and works it. Every API instance runs the
+ * same schedules; each slot is enqueued under a dedupe key, so only the first
+ * instance to reach it adds a job, and whichever worker claims it runs it.
+ */
+export class JobSchedulerService {
+  private static tasks: ScheduledTask[] = [];
+  private static pollTimer: NodeJS.Timeout | null = null;
+  private static isProcessing = false;
+
+  static start() {
+    console.log("🚀 Starting job scheduler...");
+
+    this.tasks = JOB_SCHEDULES.map((schedule) =>
+      cron.schedule(
+        schedule.cron,
+        () => {
+          this.enqueueSlot(schedule, new Date());
+        },
+        { timezone: "UTC" }
+      )
+    );
+    this.schedulePoll(POLL_INTERVAL_MS);
+
+    console.log(
+      `✅ Job scheduler started (${this.tasks.length} schedules, worker ${JobQueueService.workerId})`
+    );
+
+    setTimeout(() => {
+      this.enqueueCatchUp("startup").catch((error) =>
+        console.error("💥 Startup jobs could not be queued:", error)
+      );
+    }, POLL_INTERVAL_MS);
+  }
+
+  static stop() {
+    this.tasks.forEach((task) => task.stop());
+    this.tasks = [];
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * Queue today's daily goals and recommendations for every user, e.g. after
+   * a restart that missed a slot. Users who already have them are skipped by
+   * the per-user jobs.
+   */
+  static async enqueueCatchUp(triggeredBy: string): Promise<number> {
+    const hour = new Date().toISOString().slice(0, 13);
+    const types = ["daily-goals"];
+    if (process.env.OPENAI_API_KEY) {
+      types.push("ai-recommendations");
+    } else {
+      console.log("⚠️ OpenAI not available, skipping AI recommendations");
+    }
+
+    const jobs = await Promise.all(
+      types.map((type) =>
+        JobQueueService.enqueue(
+          type,
+          {},
+          { dedupeKey: `${type}:catch-up:${hour}`, triggeredBy }
+        )
+      )
+    );
+    const queued = jobs.filter(Boolean).length;
+    console.log(`📋 Queued ${queued} catch-up jobs (${triggeredBy})`);
+    return queued;
+  }
+
+  static async getStatus(query: JobStatusQuery) {
+    const [history, lastRuns] = await Promise.all([
+      JobQueueService.getHistory(query),
+      prisma.job.findMany({
+        where: {
+          parent_id: null,
+          type: { in: JOB_SCHEDULES.map((schedule) => schedule.type) },
+        },
+        distinct: ["type"],
+        orderBy: [{ type: "asc" }, { created_at: "desc" }],
+        select: {
+          job_id: true,
+          type: true,
+          status: true,
+          created_at: true,
+          completed_at: true,
+        },
+      }),
+    ]);
+
+    return {
+      worker: {
+        id: JobQueueService.workerId,
+        running: this.pollTimer !== null,
+        isProcessing: this.isProcessing,
+      },
+      schedules: JOB_SCHEDULES.map((schedule) => ({
+        type: schedule.type,
+        cron: schedule.cron,
+        description: schedule.description,
+        lastRun: lastRuns.find((job) => job.type === schedule.type) || null,
+      })),
+      ...history,
+    };
+  }
+
+  private static async enqueueSlot(schedule: JobSchedule, firedAt: Date) {
+    try {
+      const payload = schedule.payload ? await schedule.payload() : {};
+      if (!payload) return;
+
+      const slot = firedAt.toISOString().slice(0, 16);
+      const job = await JobQueueService.enqueue(schedule.type, payload, {
+        dedupeKey: `${schedule.type}:${slot}`,
+        triggeredBy: "schedule",
+      });
+      if (job) {
+        console.log(`📋 Queued ${schedule.type} for ${slot}`);
+      }
+    } catch (error) {
+      console.error(`💥 Could not queue ${schedule.type}:`, error);
+    }
+  }
+
+  private static schedulePoll(delay: number) {
+    this.pollTimer = setTimeout(() => this.poll(), delay);
+  }
+
+  private static async poll() {
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+
+    let processed = 0;
+    try {
+      processed = await JobQueueService.processDue(POLL_BATCH);
+    } catch (error) {
+      console.error("💥 Job worker poll failed:", error);
+    } finally {
+      this.isProcessing = false;
+      if (this.pollTimer) {
+        // Keep going straight away while there is a backlog
+        this.schedulePoll(processed === POLL_BATCH ? 0 : POLL_INTERVAL_MS);
+      }
+    }
+  }
+}
@@ -0,0 +1,167 @@
+import { prisma } from "../lib/database";
+import {
+  LoginThrottleError,
+  ThrottleAction,
+  ThrottleLockout,
+  ThrottleSubject,
+} from "../types/security";
+
+const MINUTE_MS = 60 * 1000;
+// Failures further apart than this start counting from zero again
+const FAILURE_WINDOW_MS = 15 * MINUTE_MS;
+// A day without failures forgets earlier lockouts
+const LOCKOUT_MEMORY_MS = 24 * 60 * MINUTE_MS;
+const MAX_LOCKOUT_MS = 24 * 60 * MINUTE_MS;
+
+// Failures allowed per account and per IP address before a lockout, and how
+// long the first lockout lasts. The IP limit is higher since many people can
+// share an address.
+const THROTTLE_POLICIES: Record<
+  ThrottleAction,
+  { accountLimit: number; ipLimit: number; lockoutMs: number }
+> = {
+  signin: { accountLimit: 5, ipLimit: 20, lockoutMs: MINUTE_MS },
+  password_reset_request: {
+    accountLimit: 3,
+    ipLimit: 10,
+    lockoutMs: 15 * MINUTE_MS,
+  },
+  password_reset_code: { accountLimit: 5, ipLimit: 20, lockoutMs: MINUTE_MS },
+};
+
+function normalizeEmail(email: string) {
+  return email.trim().toLowerCase();
+}
+
+function throttleKeys(action: ThrottleAction, subject: ThrottleSubject) {
+  const policy = THROTTLE_POLICIES[action];
+  const keys: {
+    key: string;
+    scope: ThrottleLockout["scope"];
+    limit: number;
+  }[] = [];
+
+  if (subject.email) {
+    keys.push({
+      key: `${action}:account:${normalizeEmail(subject.email)}`,
+      scope: "account",
+      limit: policy.accountLimit,
+    });
+  }
+  if (subject.ip_address) {
+    keys.push({
+      key: `${action}:ip:${subject.ip_address}`,
+      scope: "ip",
+      limit: policy.ipLimit,
+    });
+  }
+  return keys;
+}
+
+function lockoutDuration(action: ThrottleAction, lockouts: number) {
+  return Math.min(
+    THROTTLE_POLICIES[action].lockoutMs * 2 ** (lockouts - 1),
+    MAX_LOCKOUT_MS
+  );
+}
+
+/**
+ * Failed-attempt tracking for the sign-in and password reset endpoints, per
+ * targeted account (so guessing from many IPs doesn't help) and per IP (so
+ * one client can't spray many accounts). Counters live in the database so
+ * every server instance sees the same lockouts.
+ */
+export class LoginThrottleService {
+  /**
+   * Refuse the attempt while the account or the IP address is locked out
+   */
+  static async assertNotLocked(
+    action: ThrottleAction,
+    subject: ThrottleSubject
+  ) {
+    const keys = throttleKeys(action, subject).map(({ key }) => key);
+    if (keys.length === 0) return;
+
+    const locked = await prisma.loginThrottle.findFirst({
+      where: { throttle_key: { in: keys }, locked_until: { gt: new Date() } },
+      orderBy: { locked_until: "desc" },
+    });
+    if (locked?.locked_until) {
+      throw new LoginThrottleError(
+        Math.ceil((locked.locked_until.getTime() - Date.now()) / 1000)
+      );
+    }
+  }
+
+  /**
+   * Count a failed attempt against the account and the IP address. Returns
+   * the lockouts this failure started, if any.
+   */
+  static async recordFailure(
+    action: ThrottleAction,
+    subject: ThrottleSubject
+  ): Promise<ThrottleLockout[]> {
+    const lockouts: ThrottleLockout[] = [];
+
+    for (const { key, scope, limit } of throttleKeys(action, subject)) {
+      const now = new Date();
+      const previous = await prisma.loginThrottle.findUnique({
+        where: { throttle_key: key },
+        select: { last_failure_at: true },
+      });
+      const sinceLastFailure = previous
+        ? now.getTime() - previous.last_failure_at.getTime()
+        : Infinity;
+
+      const entry = await prisma.loginThrottle.upsert({
+        where: { throttle_key: key },
+        create: { throttle_key: key, failures: 1, last_failure_at: now },
+        update: {
+          failures: sinceLastFailure > FAILURE_WINDOW_MS ? 1 : { increment: 1 },
+          ...(sinceLastFailure > LOCKOUT_MEMORY_MS && { lockouts: 0 }),
+          last_failure_at: now,
+        },
+      });
+      if (entry.failures < limit) continue;
+
+      const count = entry.lockouts + 1;
+      const lockedUntil = new Date(
+        now.getTime() + lockoutDuration(action, count)
+      );
+      await prisma.loginThrottle.update({
+        where: { throttle_key: key },
+        data: { failures: 0, lockouts: count, locked_until: lockedUntil },
+      });
+
+      console.warn(
+        `🔒 ${key} locked until ${lockedUntil.toISOString()} (lockout #${count})`
+      );
+      lockouts.push({ scope, locked_until: lockedUntil, lockouts: count });
+    }
+
+    return lockouts;
+  }
+
+  /**
+   * Forget an account's failures once its owner got through. IP counters are
+   * left alone so succeeding on one account doesn't reset guessing at others.
+   */
+  static async reset(action: ThrottleAction, email: string) {
+    await prisma.loginThrottle.deleteMany({
+      where: { throttle_key: `${action}:account:${normalizeEmail(email)}` },
+    });
+  }
+
+  /**
+   * Drop counters that no longer affect anything
+   */
+  static async pruneStale(): Promise<number> {
+    const result = await prisma.loginThrottle.deleteMany({
+      where: {
+        last_failure_at: { lt: new Date(Date.now() - LOCKOUT_MEMORY_MS) },
+        OR: [{ locked_until: null }, { locked_until: { lt: new Date() } }],
+      },
+    });
+    return result.count;
+  }
+}
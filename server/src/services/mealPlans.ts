@@ -6,6 +6,10 @@ import {
   WeeklyMealPlan,
 } from "../types/mealPlans";
 import { OpenAIService } from "./openai";
+import { IngredientService } from "./ingredients";
+import { PantryService } from "./pantry";
+import { ShoppingListService } from "./shoppingLists";
+import { IngredientInput } from "../types/shoppingLists";
 
 // Helper function to sanitize strings
 function sanitizeString(input: string): string {
@@ -1705,63 +1709,46 @@ Please return a JSON object with the following structure:
         throw new Error("Meal plan not found");
       }
 
-      // Aggregate all ingredients
-      const ingredientMap = new Map<
-        string,
-        {
-          name: string;
-          totalQuantity: number;
-          unit: string;
-          category: string;
-          estimatedCost: number;
+      const ingredients: IngredientInput[] = mealPlan.schedules.flatMap(
+        (schedule) => {
+          const templateIngredients = Array.isArray(
+            schedule.template.ingredients_json
+          )
+            ? (schedule.template.ingredients_json as any[])
+            : [];
+
+          return templateIngredients.map((ingredient) => ({
+            name: ingredient.name || "Unknown ingredient",
+            quantity: (ingredient.quantity || 1) * schedule.portion_multiplier,
+            unit: ingredient.unit,
+            category: ingredient.category,
+            estimated_cost: ingredient.estimatedCost ?? null,
+          }));
         }
-      >();
-
-      mealPlan.schedules.forEach((schedule) => {
-        const ingredients = Array.isArray(schedule.template.ingredients_json)
-          ? schedule.template.ingredients_json
-          : [];
-
-        ingredients.forEach((ingredient: any) => {
-          const key = ingredient.name?.toLowerCase() || "unknown";
-          const existing = ingredientMap.get(key);
-
-          if (existing) {
-            existing.totalQuantity +=
-              (ingredient.quantity || 1) * schedule.portion_multiplier;
-          } else {
-            ingredientMap.set(key, {
-              name: ingredient.name || "Unknown ingredient",
-              totalQuantity:
-                (ingredient.quantity || 1) * schedule.portion_multiplier,
-              unit: ingredient.unit || "piece",
-              category: ingredient.category || "Other",
-              estimatedCost: ingredient.estimatedCost || 5,
-            });
-          }
-        });
-      });
+      );
 
-      const items = Array.from(ingredientMap.values());
-      const totalCost = items.reduce(
-        (sum, item) => sum + item.estimatedCost,
-        0
+      // Add what the week needs beyond the pantry to the user's shopping
+      // list, merged with what is already on it
+      const { missing, covered } = await PantryService.subtractStock(
+        user_id,
+        IngredientService.combine(ingredients)
+      );
+      const { added, updated } = await ShoppingListService.addItems(
+        user_id,
+        missing,
+        { planId: plan_id, addedFrom: "meal_plan" }
       );
+      const items = [...added, ...updated];
 
-      // Create shopping list
-      const shoppingList = await prisma.shoppingList.create({
-        data: {
-          user_id,
-          plan_id,
-          name: `Shopping List - ${new Date(
-            week_start_date
-          ).toLocaleDateString()}`,
-          week_start_date: new Date(week_start_date),
-          items_json: items,
-          total_estimated_cost: totalCost,
-          is_completed: false,
-        },
-      });
+      const shoppingList = {
+        plan_id,
+        week_start_date,
+        items,
+        in_pantry: covered,
+        added: added.length,
+        updated: updated.length,
+        total_estimated_cost: IngredientService.totalCost(items),
+      };
 
       console.log("✅ Shopping list generated successfully");
       return shoppingList;
@@ -0,0 +1,166 @@
+import crypto from "crypto";
+import sharp from "sharp";
+import { MediaKind, StorageError, StoredImage } from "../types/storage";
+import { getStorageDriver } from "./storage";
+
+// Stored in image_url / avatar_url instead of the image itself
+const MEDIA_REFERENCE_PREFIX = "media:";
+const THUMBNAIL_SIZE = 320;
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+// Longer than the 5 minute meals cache so cached responses keep working URLs
+const DEFAULT_URL_TTL_SECONDS = 15 * 60;
+
+const FORMAT_CONTENT_TYPES: Record<string, string> = {
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  gif: "image/gif",
+  heif: "image/heic",
+};
+
+function urlTtlSeconds() {
+  const ttl = parseInt(process.env.MEDIA_URL_TTL_SECONDS || "", 10);
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_URL_TTL_SECONDS;
+}
+
+/**
+ * Meal photos and avatars in object storage. Keys are the SHA-256 of the
+ * original bytes, so uploading the same image twice stores it once; the
+ * database only keeps a "media:<key>" reference and clients get short-lived
+ * signed URLs.
+ */
+export class MediaService {
+  static isReference(value?: string | null): value is string {
+    return !!value && value.startsWith(MEDIA_REFERENCE_PREFIX);
+  }
+
+  static isDataUri(value?: string | null): value is string {
+    return !!value && value.startsWith("data:image/");
+  }
+
+  static toReference(key: string) {
+    return `${MEDIA_REFERENCE_PREFIX}${key}`;
+  }
+
+  static keyFromReference(reference: string) {
+    return reference.slice(MEDIA_REFERENCE_PREFIX.length);
+  }
+
+  static thumbnailKey(key: string) {
+    return key.replace(/\.[^./]+$/, "_thumb.jpg");
+  }
+
+  /**
+   * Store an image given as raw base64 or a data URI, plus a JPEG thumbnail
+   */
+  static async storeImage(
+    base64OrDataUri: string,
+    kind: MediaKind
+  ): Promise<StoredImage> {
+    const base64 = base64OrDataUri.trim().replace(/^data:.*?;base64,/, "");
+    const body = Buffer.from(base64, "base64");
+    if (body.length === 0) {
+      throw new StorageError("Image data is empty", 400);
+    }
+    if (body.length > MAX_IMAGE_BYTES) {
+      throw new StorageError("Image is too large", 413);
+    }
+
+    let format: string | undefined;
+    try {
+      format = (await sharp(body).metadata()).format;
+    } catch {
+      throw new StorageError("Unsupported image format", 400);
+    }
+    const contentType = format && FORMAT_CONTENT_TYPES[format];
+    if (!contentType) {
+      throw new StorageError("Unsupported image format", 400);
+    }
+
+    const hash = crypto.createHash("sha256").update(body).digest("hex");
+    const extension = format === "jpeg" ? "jpg" : format;
+    const key = `${kind}s/${hash.slice(0, 2)}/${hash}.${extension}`;
+    const thumbnailKey = this.thumbnailKey(key);
+    const driver = getStorageDriver();
+
+    if (!(await driver.exists(key))) {
+      const thumbnail = await sharp(body)
+        .rotate() // Apply EXIF orientation before it is stripped
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "cover" })
+        .jpeg({ quality: 75 })
+        .toBuffer();
+
+      // Thumbnail first: the original's presence marks the pair as complete
+      await driver.put(thumbnailKey, thumbnail, "image/jpeg");
+      await driver.put(key, body, contentType);
+    }
+
+    return { key, thumbnailKey, contentType, size: body.length };
+  }
+
+  /**
+   * Store an image and return the reference to save on the row
+   */
+  static async storeReference(base64OrDataUri: string, kind: MediaKind) {
+    const stored = await this.storeImage(base64OrDataUri, kind);
+    return this.toReference(stored.key);
+  }
+
+  /**
+   * URL a client can load. References become signed URLs; anything else
+   * (external URLs, rows not yet migrated) is returned unchanged.
+   */
+  static async resolveUrl(
+    value: string | null | undefined,
+    options: { thumbnail?: boolean } = {}
+  ): Promise<string | null> {
+    if (!value) return value ?? null;
+    if (!this.isReference(value)) return value;
+
+    const key = this.keyFromReference(value);
+    try {
+      return await getStorageDriver().getSignedUrl(
+        options.thumbnail ? this.thumbnailKey(key) : key,
+        urlTtlSeconds()
+      );
+    } catch (error) {
+      console.error("💥 Failed to sign media URL:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Raw base64 of a stored or inline image, for re-running meal analysis
+   */
+  static async readBase64(value: string | null | undefined) {
+    if (!value) return null;
+    if (this.isDataUri(value)) {
+      const commaIndex = value.indexOf(",");
+      return commaIndex === -1 ? null : value.substring(commaIndex + 1);
+    }
+    if (!this.isReference(value)) return value;
+
+    const object = await getStorageDriver().get(this.keyFromReference(value));
+    return object ? object.body.toString("base64") : null;
+  }
+
+  /**
+   * Swap a meal's stored image reference for signed image_url / imageUrl and
+   * add a thumbnail_url for list views
+   */
+  static async withMealImageUrls<
+    T extends { image_url?: string | null; imageUrl?: string | null },
+  >(meal: T) {
+    const imageUrl = await this.resolveUrl(meal.image_url);
+    const thumbnailUrl = this.isReference(meal.image_url)
+      ? await this.resolveUrl(meal.image_url, { thumbnail: true })
+      : imageUrl;
+
+    return {
+      ...meal,
+      image_url: imageUrl,
+      ...("imageUrl" in meal && { imageUrl }),
+      thumbnail_url: thumbnailUrl,
+    };
+  }
+}
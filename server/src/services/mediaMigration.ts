@@ -0,0 +1,112 @@
+import { prisma } from "../lib/database";
+import { MediaService } from "./media";
+
+const BATCH_SIZE = 50;
+
+export interface MediaMigrationSummary {
+  meals: { migrated: number; failed: number };
+  avatars: { migrated: number; failed: number };
+}
+
+/**
+ * Moves inline base64 meal photos and avatars into object storage, leaving a
+ * media reference on the row. Safe to stop and re-run: migrated rows no longer
+ * match, and rows that fail are skipped rather than retried in the same run.
+ */
+export class MediaMigrationService {
+  static async migrateAll(
+    options: { dryRun?: boolean } = {}
+  ): Promise<MediaMigrationSummary> {
+    const summary: MediaMigrationSummary = {
+      meals: await this.migrateMeals(options),
+      avatars: await this.migrateAvatars(options),
+    };
+    console.log("🖼️ Media migration finished:", summary);
+    return summary;
+  }
+
+  static async migrateMeals(options: { dryRun?: boolean } = {}) {
+    const result = { migrated: 0, failed: 0 };
+    let cursor = 0;
+
+    while (true) {
+      const meals = await prisma.meal.findMany({
+        where: { meal_id: { gt: cursor }, image_url: { startsWith: "data:" } },
+        orderBy: { meal_id: "asc" },
+        take: BATCH_SIZE,
+        select: { meal_id: true, image_url: true },
+      });
+      if (meals.length === 0) break;
+
+      for (const meal of meals) {
+        try {
+          if (!options.dryRun) {
+            const reference = await MediaService.storeReference(
+              meal.image_url,
+              "meal"
+            );
+            // Only swap if the row still holds the image we uploaded
+            await prisma.meal.updateMany({
+              where: { meal_id: meal.meal_id, image_url: meal.image_url },
+              data: { image_url: reference },
+            });
+          }
+          result.migrated++;
+        } catch (error) {
+          result.failed++;
+          console.error(`💥 Failed to migrate meal ${meal.meal_id}:`, error);
+        }
+      }
+
+      cursor = meals[meals.length - 1].meal_id;
+      console.log(`📦 Meals migrated so far: ${result.migrated}`);
+    }
+
+    return result;
+  }
+
+  static async migrateAvatars(options: { dryRun?: boolean } = {}) {
+    const result = { migrated: 0, failed: 0 };
+    let cursor: string | undefined;
+
+    while (true) {
+      const users = await prisma.user.findMany({
+        where: {
+          avatar_url: { startsWith: "data:" },
+          ...(cursor && { user_id: { gt: cursor } }),
+        },
+        orderBy: { user_id: "asc" },
+        take: BATCH_SIZE,
+        select: { user_id: true, avatar_url: true },
+      });
+      if (users.length === 0) break;
+
+      for (const user of users) {
+        try {
+          if (!options.dryRun) {
+            const reference = await MediaService.storeReference(
+              user.avatar_url!,
+              "avatar"
+            );
+            await prisma.user.updateMany({
+              where: { user_id: user.user_id, avatar_url: user.avatar_url },
+              data: { avatar_url: reference },
+            });
+          }
+          result.migrated++;
+        } catch (error) {
+          result.failed++;
+          console.error(
+            `💥 Failed to migrate avatar of ${user.user_id}:`,
+            error
+          );
+        }
+      }
+
+      cursor = users[users.length - 1].user_id;
+      console.log(`📦 Avatars migrated so far: ${result.migrated}`);
+    }
+
+    return result;
+  }
+}
@@ -3,7 +3,9 @@ import { OpenAIService } from "./openai";
 import { prisma } from "../lib/database";
 import { MealAnalysisInput, MealUpdateInput } from "../types/nutrition";
 import { AuthService } from "./auth";
+import { MediaService } from "./media";
 import { asJsonObject, mapExistingMealToPrismaInput } from "../utils/nutrition";
+import { getDayBounds, getUserDay, getUserTimeZone } from "../utils/userDay";
 
 // Cache for frequently accessed data
 const userStatsCache = new Map<string, { data: any; timestamp: number }>();
@@ -292,19 +294,8 @@ export class NutritionService {
 
       console.log("📝 Found existing meal:", existingMeal.meal_name);
 
-      // Get the existing image base64 from the database
-      let imageBase64 = "";
-      if (existingMeal.image_url) {
-        // Extract base64 from data URL if present
-        if (existingMeal.image_url.startsWith("data:image/")) {
-          const commaIndex = existingMeal.image_url.indexOf(",");
-          if (commaIndex !== -1) {
-            imageBase64 = existingMeal.image_url.substring(commaIndex + 1);
-          }
-        } else {
-          imageBase64 = existingMeal.image_url;
-        }
-      }
+      // Get the existing image from storage (or the legacy inline data URL)
+      const imageBase64 = await MediaService.readBase64(existingMeal.image_url);
 
       if (!imageBase64) {
         throw new Error("No image data found for this meal");
@@ -333,7 +324,7 @@ export class NutritionService {
       const analysisResult = await this.analyzeMeal(user_id, {
         imageBase64,
         language: params.language || "english",
-        date: new Date().toISOString().split("T")[0],
+        date: getUserDay(await getUserTimeZone(user_id)),
         updateText: params.updateText,
         editedIngredients: existingIngredients,
         mealPeriod: existingMeal.meal_period || "other", // Preserve existing meal period
@@ -361,6 +352,8 @@ export class NutritionService {
         },
         data: {
           ...updatedMealData,
+          // Same bytes, so this is a no-op unless the meal was never migrated
+          image_url: await MediaService.storeReference(imageBase64, "meal"),
           updated_at: new Date(),
         },
       });
@@ -370,7 +363,7 @@ export class NutritionService {
       // Clear relevant caches
       this.clearUserMealsCaches(user_id);
 
-      return updatedMeal;
+      return MediaService.withMealImageUrls(updatedMeal);
     } catch (error) {
       console.error("💥 Error updating meal:", error);
       throw error;
@@ -379,20 +372,28 @@ export class NutritionService {
 
   static async saveMeal(user_id: string, mealData: any, imageBase64?: string) {
     try {
+      // Upload before the insert so a storage failure leaves no row behind
+      const imageUrl = imageBase64
+        ? await MediaService.storeReference(imageBase64, "meal")
+        : "";
+
       // Use transaction for better performance and consistency
       const meal = await prisma.$transaction(async (tx) => {
         return await tx.meal.create({
-          data: mapMealDataToPrismaFields(
-            mealData,
-            user_id,
-            imageBase64,
-            mealData.mealType,
-            mealData.mealPeriod
-          ),
+          data: {
+            ...mapMealDataToPrismaFields(
+              mealData,
+              user_id,
+              undefined,
+              mealData.mealType,
+              mealData.mealPeriod
+            ),
+            image_url: imageUrl,
+          },
         });
       });
 
-      return transformMealForClient(meal);
+      return MediaService.withMealImageUrls(transformMealForClient(meal));
     } catch (error) {
       console.error("💥 Error saving meal:", error);
       throw new Error("Failed to save meal");
@@ -506,14 +507,18 @@ export class NutritionService {
         analysisStatus: meal.analysis_status,
       }));
 
+      const mealsWithImages = await Promise.all(
+        processedMeals.map((meal) => MediaService.withMealImageUrls(meal))
+      );
+
       // Cache the results
       mealsCache.set(cacheKey, {
-        data: processedMeals,
+        data: mealsWithImages,
         timestamp: Date.now(),
       });
 
-      console.log(`✅ Retrieved ${processedMeals.length} meals for user`);
-      return processedMeals;
+      console.log(`✅ Retrieved ${mealsWithImages.length} meals for user`);
+      return mealsWithImages;
     } catch (error) {
       console.error("💥 Error fetching user meals:", error);
       throw new Error("Failed to fetch meals");
@@ -538,8 +543,12 @@ export class NutritionService {
         return cached.data;
       }
 
-      const startDateTime = new Date(startDate + "T00:00:00.000Z");
-      const endDateTime = new Date(endDate + "T23:59:59.999Z");
+      // The range covers whole days in the user's timezone
+      const timeZone = await getUserTimeZone(userId);
+      const startDateTime = getDayBounds(timeZone, startDate).start;
+      const endDateTime = new Date(
+        getDayBounds(timeZone, endDate).end.getTime() - 1
+      );
 
       const meals = await prisma.meal.findMany({
         where: {
@@ -666,7 +675,7 @@ export class NutritionService {
       }
 
       const uniqueDates = new Set(
-        meals.map((meal) => meal.created_at.toISOString().split("T")[0])
+        meals.map((meal) => getUserDay(timeZone, meal.created_at))
       );
       const totalDays = uniqueDates.size;
 
@@ -679,7 +688,7 @@ export class NutritionService {
 
       // Group meals by day
       const dailyData = meals.reduce((acc, meal) => {
-        const date = meal.created_at.toISOString().split("T")[0];
+        const date = getUserDay(timeZone, meal.created_at);
         if (!acc[date]) {
           acc[date] = {
             date,
@@ -768,9 +777,10 @@ export class NutritionService {
         return cached.data;
       }
 
-      const startDate = new Date(date);
-      const endDate = new Date(date);
-      endDate.setDate(endDate.getDate() + 1);
+      const { start: startDate, end: endDate } = getDayBounds(
+        await getUserTimeZone(user_id),
+        date
+      );
 
       const meals = await prisma.meal.findMany({
         where: {
@@ -914,7 +924,9 @@ export class NutritionService {
       // Clear related caches
       this.clearUserCaches(user_id);
 
-      return transformMealForClient(duplicatedMeal);
+      return MediaService.withMealImageUrls(
+        transformMealForClient(duplicatedMeal)
+      );
     } catch (error) {
       console.error("💥 Error duplicating meal:", error);
       throw error;
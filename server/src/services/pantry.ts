@@ -0,0 +1,395 @@
+import { MealCompletion, PantryItem, ShoppingListItem } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { SHELF_LIFE_DAYS } from "../config/ingredients";
+import { IngredientService } from "./ingredients";
+import {
+  PantryError,
+  PantryItemInput,
+  PantrySource,
+  UpdatePantryItem,
+} from "../types/pantry";
+import {
+  AggregatedIngredient,
+  BaseUnit,
+  IngredientInput,
+  ShoppingCategory,
+} from "../types/shoppingLists";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EXPIRING_SOON_DAYS = 3;
+// Leftovers smaller than this are treated as used up
+const EPSILON = 0.01;
+// Enough for the AI to plan around without flooding the prompt
+const MAX_PROMPT_ITEMS = 40;
+
+// Oldest batch first, so what expires soonest gets used first
+const batchOrder = [
+  { expires_at: { sort: "asc", nulls: "last" } },
+  { created_at: "asc" },
+] as const;
+
+function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setUTCHours(0, 0, 0, 0);
+  return day;
+}
+
+function daysUntil(date: Date): number {
+  return Math.ceil((date.getTime() - Date.now()) / DAY_MS);
+}
+
+/**
+ * What the user has at home. Purchased shopping items and scanned products
+ * are stocked here, completed meals use their ingredients up, menu
+ * generation plans around it and generated shopping lists leave out what is
+ * already covered.
+ */
+export class PantryService {
+  static toView(item: PantryItem) {
+    const days = item.expires_at ? daysUntil(item.expires_at) : null;
+    return {
+      ...item,
+      expired: days !== null && days < 0,
+      expiring_soon: days !== null && days >= 0 && days <= EXPIRING_SOON_DAYS,
+    };
+  }
+
+  static async getItems(userId: string) {
+    const items = await prisma.pantryItem.findMany({
+      where: { user_id: userId },
+      orderBy: [...batchOrder],
+    });
+    return items.map((item) => this.toView(item));
+  }
+
+  static estimateExpiry(category: ShoppingCategory): Date | null {
+    const days = SHELF_LIFE_DAYS[category];
+    return days ? startOfDay(new Date(Date.now() + days * DAY_MS)) : null;
+  }
+
+  /**
+   * Stock items in the unit the ingredient is sold in. An item joins the
+   * batch of the same ingredient expiring on the same day, if there is one.
+   */
+  static async addItems(
+    userId: string,
+    inputs: PantryItemInput[],
+    source: PantrySource = "manual"
+  ): Promise<PantryItem[]> {
+    const stocked: PantryItem[] = [];
+
+    for (const input of inputs) {
+      const [ingredient] = IngredientService.combine([input]);
+      if (ingredient) {
+        stocked.push(await this.stock(userId, ingredient, input, source));
+      }
+    }
+
+    return stocked;
+  }
+
+  /**
+   * Stock a shopping item that was just checked off, in the pantry of the
+   * user who checked it off; on a shared list that need not be whoever added
+   * the item. Returns the batch and how much went into it, so unchecking the
+   * item can take it back out.
+   */
+  static async addFromShoppingItem(userId: string, item: ShoppingListItem) {
+    const input = {
+      name: item.name,
+      quantity: item.quantity,
+      unit: item.unit,
+      category: item.category,
+    };
+    const [ingredient] = IngredientService.combine([input]);
+    if (!ingredient) return null;
+
+    const batch = await this.stock(userId, ingredient, input, "shopping_list");
+    return { item_id: batch.item_id, quantity: ingredient.quantity };
+  }
+
+  private static async stock(
+    userId: string,
+    ingredient: AggregatedIngredient,
+    input: PantryItemInput,
+    source: PantrySource
+  ): Promise<PantryItem> {
+    const expiresAt =
+      input.expires_at === undefined
+        ? this.estimateExpiry(ingredient.category)
+        : input.expires_at && startOfDay(input.expires_at);
+
+    const batch = await prisma.pantryItem.findFirst({
+      where: {
+        user_id: userId,
+        ingredient_key: ingredient.key,
+        unit: ingredient.unit,
+        expires_at: expiresAt,
+      },
+    });
+
+    if (batch) {
+      return prisma.pantryItem.update({
+        where: { item_id: batch.item_id },
+        data: { quantity: { increment: ingredient.quantity } },
+      });
+    }
+
+    return prisma.pantryItem.create({
+      data: {
+        user_id: userId,
+        ingredient_key: ingredient.key,
+        name: ingredient.name,
+        quantity: ingredient.quantity,
+        unit: ingredient.unit,
+        category: ingredient.category,
+        barcode: input.barcode,
+        expires_at: expiresAt,
+        source,
+      },
+    });
+  }
+
+  static async updateItem(
+    userId: string,
+    itemId: string,
+    changes: UpdatePantryItem
+  ) {
+    const item = await prisma.pantryItem.findFirst({
+      where: { item_id: itemId, user_id: userId },
+    });
+    if (!item) {
+      throw new PantryError("Pantry item not found", 404);
+    }
+
+    if (changes.quantity !== undefined && changes.quantity < EPSILON) {
+      await prisma.pantryItem.delete({ where: { item_id: itemId } });
+      return null;
+    }
+
+    return prisma.pantryItem.update({
+      where: { item_id: itemId },
+      data: {
+        ...changes,
+        expires_at: changes.expires_at && startOfDay(changes.expires_at),
+      },
+    });
+  }
+
+  static async removeItem(userId: string, itemId: string) {
+    const removed = await prisma.pantryItem.deleteMany({
+      where: { item_id: itemId, user_id: userId },
+    });
+    if (removed.count === 0) {
+      throw new PantryError("Pantry item not found", 404);
+    }
+  }
+
+  /**
+   * Take up to `quantity` (in the batch's unit) back out of a batch, e.g.
+   * when a shopping item is unchecked again
+   */
+  static async removeStock(itemId: string, quantity: number) {
+    const batch = await prisma.pantryItem.findUnique({
+      where: { item_id: itemId },
+    });
+    if (!batch) return;
+
+    if (batch.quantity - quantity < EPSILON) {
+      await prisma.pantryItem.delete({ where: { item_id: itemId } });
+    } else {
+      await prisma.pantryItem.update({
+        where: { item_id: itemId },
+        data: { quantity: { decrement: quantity } },
+      });
+    }
+  }
+
+  /**
+   * Use ingredients up, soonest-expiring batch first. Ingredients the pantry
+   * doesn't have (or can't convert) are skipped.
+   */
+  static async consume(userId: string, ingredients: IngredientInput[]) {
+    const used: { name: string; quantity: number; unit: string }[] = [];
+
+    for (const ingredient of IngredientService.combine(ingredients)) {
+      const definition = IngredientService.lookup(ingredient.key);
+      const batches = await prisma.pantryItem.findMany({
+        where: { user_id: userId, ingredient_key: ingredient.key },
+        orderBy: [...batchOrder],
+      });
+
+      let remaining = ingredient.quantity;
+      for (const batch of batches) {
+        if (remaining < EPSILON) break;
+
+        const unit = batch.unit as BaseUnit;
+        const wanted = IngredientService.convert(
+          remaining,
+          ingredient.unit,
+          unit,
+          definition
+        );
+        if (wanted === null) continue;
+
+        const taken = Math.min(batch.quantity, wanted);
+        await this.removeStock(batch.item_id, taken);
+        used.push({ name: batch.name, quantity: taken, unit });
+        remaining -= (taken / wanted) * remaining;
+      }
+    }
+
+    return used;
+  }
+
+  /**
+   * Use up the ingredients of a completed menu meal or meal plan meal.
+   * Failures are logged rather than thrown so they never block the
+   * completion itself.
+   */
+  static async consumeForCompletion(
+    completion: MealCompletion,
+    ingredients?: IngredientInput[]
+  ) {
+    try {
+      const mealIngredients =
+        ingredients ?? (await this.ingredientsForCompletion(completion));
+      if (mealIngredients.length === 0) return [];
+
+      const used = await this.consume(completion.user_id, mealIngredients);
+      if (used.length > 0) {
+        console.log(
+          `🥫 Used ${used.length} pantry items for "${completion.meal_name}"`
+        );
+      }
+      return used;
+    } catch (error) {
+      console.error("⚠️ Failed to update pantry for meal completion:", error);
+      return [];
+    }
+  }
+
+  private static async ingredientsForCompletion(
+    completion: MealCompletion
+  ): Promise<IngredientInput[]> {
+    if (completion.menu_id) {
+      const meal = await prisma.recommendedMeal.findFirst({
+        where: {
+          menu_id: completion.menu_id,
+          name: completion.meal_name,
+          day_number: completion.day_number,
+        },
+        include: { ingredients: true },
+      });
+      return meal?.ingredients ?? [];
+    }
+
+    if (completion.plan_id) {
+      const schedule = await prisma.mealPlanSchedule.findFirst({
+        where: {
+          plan_id: completion.plan_id,
+          template: { name: completion.meal_name },
+        },
+        include: { template: true },
+      });
+      if (!schedule || !Array.isArray(schedule.template.ingredients_json)) {
+        return [];
+      }
+      return (schedule.template.ingredients_json as any[]).map(
+        (ingredient) => ({
+          name: ingredient.name || "Unknown ingredient",
+          quantity: (ingredient.quantity || 1) * schedule.portion_multiplier,
+          unit: ingredient.unit,
+        })
+      );
+    }
+
+    return [];
+  }
+
+  // Unexpired stock, one line per ingredient and unit
+  static async getAvailable(userId: string): Promise<AggregatedIngredient[]> {
+    const items = await prisma.pantryItem.findMany({
+      where: {
+        user_id: userId,
+        OR: [
+          { expires_at: null },
+          { expires_at: { gte: startOfDay(new Date()) } },
+        ],
+      },
+      orderBy: [...batchOrder],
+    });
+    return IngredientService.combine(items);
+  }
+
+  /**
+   * Split what a menu or plan needs into what still has to be bought and
+   * what the pantry already covers
+   */
+  static async subtractStock(userId: string, needs: AggregatedIngredient[]) {
+    const stock = await this.getAvailable(userId);
+    const missing: AggregatedIngredient[] = [];
+    const covered: { name: string; quantity: number; unit: BaseUnit }[] = [];
+
+    for (const need of needs) {
+      const definition = IngredientService.lookup(need.key);
+      let quantity = need.quantity;
+
+      for (const line of stock.filter((line) => line.key === need.key)) {
+        const available = IngredientService.convert(
+          line.quantity,
+          line.unit,
+          need.unit,
+          definition
+        );
+        if (!available || quantity < EPSILON) continue;
+
+        const taken = Math.min(quantity, available);
+        quantity -= taken;
+        line.quantity -= (taken / available) * line.quantity;
+        covered.push({ name: need.name, quantity: taken, unit: need.unit });
+      }
+
+      if (quantity >= EPSILON) {
+        missing.push({
+          ...need,
+          quantity,
+          estimated_cost:
+            need.estimated_cost === null
+              ? null
+              : (need.estimated_cost * quantity) / need.quantity,
+        });
+      }
+    }
+
+    return { missing, covered };
+  }
+
+  /**
+   * The pantry as prompt lines for menu generation, soonest-expiring first.
+   * Empty when the pantry is.
+   */
+  static async describeForPrompt(userId: string): Promise<string> {
+    const items = await prisma.pantryItem.findMany({
+      where: {
+        user_id: userId,
+        OR: [
+          { expires_at: null },
+          { expires_at: { gte: startOfDay(new Date()) } },
+        ],
+      },
+      orderBy: [...batchOrder],
+      take: MAX_PROMPT_ITEMS,
+    });
+
+    return items
+      .map((item) => {
+        const quantity = Math.round(item.quantity * 10) / 10;
+        const expiry = item.expires_at
+          ? `, expires in ${Math.max(0, daysUntil(item.expires_at))} days`
+          : "";
+        return `- ${item.name}: ${quantity} ${item.unit}${expiry}`;
+      })
+      .join("\n");
+  }
+}
@@ -0,0 +1,194 @@
+import crypto from "crypto";
+import {
+  CheckoutSession,
+  CheckoutSessionRequest,
+  PaymentProvider,
+  PaymentSignatureError,
+  PaymentWebhookEvent,
+  PaymentWebhookEventType,
+  RefundResult,
+} from "../../types/payments";
+
+export const FAKE_SIGNATURE_HEADER = "x-fake-signature";
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+// Only used outside production, when PAYMENT_WEBHOOK_SECRET is not set
+const DEV_WEBHOOK_SECRET = "fake-webhook-secret";
+
+interface FakeSession {
+  request: CheckoutSessionRequest;
+  subscriptionId: string;
+  completed: boolean;
+}
+
+/**
+ * In-process stand-in for a hosted checkout provider.
+ *
+ * Sessions live in memory and are "paid" through the fake checkout route;
+ * every outcome is delivered as an HMAC-signed webhook so the same code path
+ * that handles a real provider is exercised end to end.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = "fake";
+  private sessions = new Map<string, FakeSession>();
+  readonly canceledSubscriptions = new Set<string>();
+
+  private webhookSecret: string;
+
+  constructor(
+    webhookSecret: string | undefined = process.env.PAYMENT_WEBHOOK_SECRET,
+    private checkoutBaseUrl: string = process.env.API_BASE_URL ||
+      "http://localhost:5000/api"
+  ) {
+    // Anyone who knows the secret can sign a completed checkout
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("The fake payment provider can't run in production");
+    }
+    this.webhookSecret = webhookSecret || DEV_WEBHOOK_SECRET;
+  }
+
+  async createCheckoutSession(
+    request: CheckoutSessionRequest
+  ): Promise<CheckoutSession> {
+    const sessionId = `fake_cs_${crypto.randomBytes(12).toString("hex")}`;
+    const customerId =
+      request.customerId || `fake_cus_${crypto.randomBytes(8).toString("hex")}`;
+
+    this.sessions.set(sessionId, {
+      request: { ...request, customerId },
+      subscriptionId: `fake_sub_${crypto.randomBytes(8).toString("hex")}`,
+      completed: false,
+    });
+
+    return {
+      sessionId,
+      checkoutUrl: `${this.checkoutBaseUrl}/payments/fake-checkout/${sessionId}`,
+      customerId,
+      expiresAt: new Date(Date.now() + 30 * 60 * 1000),
+    };
+  }
+
+  getSession(sessionId: string) {
+    return this.sessions.get(sessionId);
+  }
+
+  /**
+   * Simulate the customer finishing checkout and return the signed webhook
+   */
+  completeCheckout(
+    sessionId: string,
+    outcome: "success" | "fail" = "success"
+  ): { rawBody: Buffer; headers: Record<string, string> } {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error("Checkout session not found");
+    }
+    if (session.completed) {
+      throw new Error("Checkout session already completed");
+    }
+    session.completed = true;
+
+    const { request } = session;
+    if (outcome === "fail") {
+      return this.createSignedEvent("checkout.failed", {
+        sessionId,
+        userId: request.userId,
+        reason: "card_declined",
+      });
+    }
+
+    return this.createSignedEvent("checkout.completed", {
+      sessionId,
+      paymentId: `fake_pay_${crypto.randomBytes(10).toString("hex")}`,
+      subscriptionId: session.subscriptionId,
+      customerId: request.customerId || undefined,
+      userId: request.userId,
+      planType: request.planType,
+      amount: request.amount,
+      currency: request.currency,
+      paymentMethod: "card",
+    });
+  }
+
+  /**
+   * Build a webhook request body and signature header, as the provider would send it
+   */
+  createSignedEvent(
+    type: PaymentWebhookEventType,
+    data: PaymentWebhookEvent["data"],
+    timestamp: number = Math.floor(Date.now() / 1000)
+  ): { rawBody: Buffer; headers: Record<string, string> } {
+    const event: PaymentWebhookEvent = {
+      id: `fake_evt_${crypto.randomBytes(12).toString("hex")}`,
+      type,
+      created: timestamp,
+      data,
+    };
+    const rawBody = Buffer.from(JSON.stringify(event));
+
+    return {
+      rawBody,
+      headers: {
+        "content-type": "application/json",
+        [FAKE_SIGNATURE_HEADER]: `t=${timestamp},v1=${this.sign(
+          timestamp,
+          rawBody
+        )}`,
+      },
+    };
+  }
+
+  constructWebhookEvent(
+    rawBody: Buffer,
+    headers: Record<string, string | string[] | undefined>
+  ): PaymentWebhookEvent {
+    const header = headers[FAKE_SIGNATURE_HEADER];
+    if (!header || typeof header !== "string") {
+      throw new PaymentSignatureError("Missing webhook signature");
+    }
+
+    const parts = Object.fromEntries(
+      header.split(",").map((part) => part.split("=") as [string, string])
+    );
+    const timestamp = Number(parts.t);
+    if (!parts.v1 || !Number.isFinite(timestamp)) {
+      throw new PaymentSignatureError("Malformed webhook signature");
+    }
+
+    if (
+      Math.abs(Math.floor(Date.now() / 1000) - timestamp) >
+      SIGNATURE_TOLERANCE_SECONDS
+    ) {
+      throw new PaymentSignatureError("Webhook timestamp outside tolerance");
+    }
+
+    const expected = Buffer.from(this.sign(timestamp, rawBody), "hex");
+    const received = Buffer.from(parts.v1, "hex");
+    if (
+      expected.length !== received.length ||
+      !crypto.timingSafeEqual(expected, received)
+    ) {
+      throw new PaymentSignatureError();
+    }
+
+    return JSON.parse(rawBody.toString("utf8")) as PaymentWebhookEvent;
+  }
+
+  async cancelSubscription(subscriptionId: string): Promise<void> {
+    this.canceledSubscriptions.add(subscriptionId);
+  }
+
+  async refundPayment(paymentId: string, amount: number): Promise<RefundResult> {
+    return {
+      refundId: `fake_re_${crypto.randomBytes(10).toString("hex")}`,
+      amount,
+    };
+  }
+
+  private sign(timestamp: number, rawBody: Buffer): string {
+    return crypto
+      .createHmac("sha256", this.webhookSecret)
+      .update(`${timestamp}.`)
+      .update(rawBody)
+      .digest("hex");
+  }
+}
@@ -0,0 +1,105 @@
+import {
+  PaymentProvider,
+  PaymentsUnavailableError,
+} from "../../types/payments";
+import { FAKE_SIGNATURE_HEADER, FakePaymentProvider } from "./fakeProvider";
+
+let provider: PaymentProvider | null = null;
+// Deep link scheme of the app ("scheme" in the client's app.json)
+const APP_URL_SCHEME = process.env.APP_URL_SCHEME || "myapp";
+
+function createProvider(name: string): PaymentProvider {
+  switch (name) {
+    case "fake":
+      return new FakePaymentProvider();
+    default:
+      throw new PaymentsUnavailableError(`Unknown payment provider: ${name}`);
+  }
+}
+
+export function getPaymentProviderName(): string {
+  return process.env.PAYMENT_PROVIDER || "fake";
+}
+
+/**
+ * In production webhooks must be verified with a real provider's secret; the
+ * fake provider would let anyone sign a completed checkout.
+ */
+function assertPaymentConfig() {
+  if (process.env.NODE_ENV !== "production") return;
+
+  if (getPaymentProviderName() === "fake") {
+    throw new PaymentsUnavailableError(
+      "PAYMENT_PROVIDER must name a real provider in production"
+    );
+  }
+  if (!process.env.PAYMENT_WEBHOOK_SECRET) {
+    throw new PaymentsUnavailableError(
+      "PAYMENT_WEBHOOK_SECRET must be set in production"
+    );
+  }
+}
+
+/**
+ * Active payment provider, selected with PAYMENT_PROVIDER (defaults to "fake"
+ * outside production). Throws PaymentsUnavailableError when none is usable.
+ */
+export function getPaymentProvider(): PaymentProvider {
+  if (!provider) {
+    assertPaymentConfig();
+    provider = createProvider(getPaymentProviderName());
+  }
+  return provider;
+}
+
+/**
+ * Why payments are turned off, or null when a provider is configured.
+ * Checked at startup; without a provider only checkout and webhooks are
+ * unavailable, the rest of the API keeps running.
+ */
+export function getPaymentConfigError(): string | null {
+  try {
+    getPaymentProvider();
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+function originOf(value: string | undefined): string | null {
+  try {
+    return value ? new URL(value).origin : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Checkout redirects the customer to the return URL, so only the app's deep
+ * links and the web client are accepted. Expo Go links and localhost are
+ * allowed outside production.
+ */
+export function isAllowedReturnUrl(value: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+
+  if (url.protocol === `${APP_URL_SCHEME}:`) return true;
+  if (
+    process.env.NODE_ENV !== "production" &&
+    (url.protocol === "exp:" || url.hostname === "localhost")
+  ) {
+    return true;
+  }
+  const clientOrigin = originOf(process.env.CLIENT_URL);
+  return !!clientOrigin && url.origin === clientOrigin;
+}
+
+export function setPaymentProvider(next: PaymentProvider) {
+  provider = next;
+}
+
+export { FakePaymentProvider, FAKE_SIGNATURE_HEADER };
@@ -0,0 +1,414 @@
+import axios from "axios";
+import { prisma } from "../lib/database";
+import {
+  PushCategory,
+  PushDispatchResult,
+  PushMessage,
+  PushTicket,
+  PushTransport,
+} from "../types/notifications";
+import {
+  DEFAULT_TIME_ZONE,
+  dayKeyToDate,
+  getDayBounds,
+  getUserDay,
+  isValidTimeZone,
+} from "../utils/userDay";
+
+const EXPO_PUSH_URL = "https://exp.host/--/api/v2/push/send";
+const EXPO_BATCH_SIZE = 100;
+const EXPO_TOKEN_PATTERN = /^(ExponentPushToken|ExpoPushToken)\[[^\]]+\]$/;
+
+/**
+ * Delivers messages through Expo's push API
+ */
+export class ExpoPushTransport implements PushTransport {
+  readonly name = "expo";
+
+  constructor(private accessToken = process.env.EXPO_ACCESS_TOKEN) {}
+
+  async send(messages: PushMessage[]): Promise<PushTicket[]> {
+    const tickets: PushTicket[] = [];
+
+    for (let i = 0; i < messages.length; i += EXPO_BATCH_SIZE) {
+      const batch = messages.slice(i, i + EXPO_BATCH_SIZE);
+
+      try {
+        const response = await axios.post(EXPO_PUSH_URL, batch, {
+          headers: {
+            Accept: "application/json",
+            "Content-Type": "application/json",
+            ...(this.accessToken
+              ? { Authorization: `Bearer ${this.accessToken}` }
+              : {}),
+          },
+          timeout: 10000,
+        });
+
+        const data: any[] = response.data?.data || [];
+        batch.forEach((message, index) => {
+          const ticket = data[index] || {};
+          tickets.push({
+            token: message.to,
+            status: ticket.status === "ok" ? "ok" : "error",
+            id: ticket.id,
+            message: ticket.message,
+            error: ticket.details?.error,
+          });
+        });
+      } catch (error) {
+        console.error("💥 Expo push request failed:", error);
+        batch.forEach((message) =>
+          tickets.push({
+            token: message.to,
+            status: "error",
+            message: error instanceof Error ? error.message : "Request failed",
+          })
+        );
+      }
+    }
+
+    return tickets;
+  }
+}
+
+/**
+ * Keeps messages in memory instead of delivering them (development and tests)
+ */
+export class LocalPushTransport implements PushTransport {
+  readonly name = "local";
+  readonly sent: PushMessage[] = [];
+
+  constructor(private failingTokens: Set<string> = new Set()) {}
+
+  async send(messages: PushMessage[]): Promise<PushTicket[]> {
+    return messages.map((message) => {
+      this.sent.push(message);
+      console.log(
+        `📨 [local push] ${message.to.substring(0, 24)}...: ${message.title}`
+      );
+
+      if (this.failingTokens.has(message.to)) {
+        return {
+          token: message.to,
+          status: "error",
+          message: "Device not registered",
+          error: "DeviceNotRegistered",
+        };
+      }
+
+      return { token: message.to, status: "ok", id: `local-${Date.now()}` };
+    });
+  }
+}
+
+export class PushNotificationService {
+  private static transport: PushTransport =
+    (process.env.PUSH_TRANSPORT ||
+      (process.env.NODE_ENV === "production" ? "expo" : "local")) === "expo"
+      ? new ExpoPushTransport()
+      : new LocalPushTransport();
+
+  static setTransport(transport: PushTransport) {
+    this.transport = transport;
+  }
+
+  static getTransport(): PushTransport {
+    return this.transport;
+  }
+
+  static isValidToken(token: string): boolean {
+    return EXPO_TOKEN_PATTERN.test(token);
+  }
+
+  /**
+   * Register a device token for a user, retiring the token it replaces
+   */
+  static async registerToken(
+    userId: string,
+    token: string,
+    options: {
+      platform?: string;
+      deviceName?: string;
+      previousToken?: string;
+    } = {}
+  ) {
+    const now = new Date();
+
+    if (options.previousToken && options.previousToken !== token) {
+      await prisma.pushToken.updateMany({
+        where: { token: options.previousToken, user_id: userId },
+        data: {
+          is_active: false,
+          invalidated_at: now,
+          invalid_reason: "rotated",
+        },
+      });
+    }
+
+    // A token moves with the device, so re-registering under another account takes it over
+    return prisma.pushToken.upsert({
+      where: { token },
+      update: {
+        user_id: userId,
+        platform: options.platform,
+        device_name: options.deviceName,
+        is_active: true,
+        last_seen_at: now,
+        invalidated_at: null,
+        invalid_reason: null,
+      },
+      create: {
+        user_id: userId,
+        token,
+        platform: options.platform,
+        device_name: options.deviceName,
+      },
+    });
+  }
+
+  static async unregisterToken(
+    userId: string,
+    token: string,
+    reason: string = "signed_out"
+  ): Promise<boolean> {
+    const result = await prisma.pushToken.updateMany({
+      where: { token, user_id: userId, is_active: true },
+      data: {
+        is_active: false,
+        invalidated_at: new Date(),
+        invalid_reason: reason,
+      },
+    });
+    return result.count > 0;
+  }
+
+  static async getActiveTokens(userIds: string[]) {
+    return prisma.pushToken.findMany({
+      where: { user_id: { in: userIds }, is_active: true },
+      select: { user_id: true, token: true },
+    });
+  }
+
+  /**
+   * Send the same notification to every active device of the given users
+   */
+  static async sendToUsers(
+    userIds: string[],
+    category: PushCategory,
+    notification: { title: string; body: string; data?: Record<string, any> }
+  ): Promise<PushDispatchResult> {
+    const tokens = await this.getActiveTokens(userIds);
+    return this.dispatch(
+      tokens.map(({ token }) => ({
+        to: token,
+        title: notification.title,
+        body: notification.body,
+        sound: "default",
+        channelId: "default",
+        data: { ...notification.data, type: category },
+      }))
+    );
+  }
+
+  static async sendToUser(
+    userId: string,
+    category: PushCategory,
+    notification: { title: string; body: string; data?: Record<string, any> }
+  ): Promise<PushDispatchResult> {
+    return this.sendToUsers([userId], category, notification);
+  }
+
+  /**
+   * Deliver prepared messages and deactivate tokens the provider rejected
+   */
+  static async dispatch(messages: PushMessage[]): Promise<PushDispatchResult> {
+    const result: PushDispatchResult = { sent: 0, failed: 0, invalidated: 0 };
+    if (messages.length === 0) return result;
+
+    const tickets = await this.transport.send(messages);
+    const deadTokens: string[] = [];
+
+    for (const ticket of tickets) {
+      if (ticket.status === "ok") {
+        result.sent++;
+        continue;
+      }
+
+      result.failed++;
+      if (ticket.error === "DeviceNotRegistered") {
+        deadTokens.push(ticket.token);
+      } else {
+        console.warn(
+          `⚠️ Push to ${ticket.token.substring(0, 24)}... failed: ${
+            ticket.message || ticket.error
+          }`
+        );
+      }
+    }
+
+    if (deadTokens.length > 0) {
+      const invalidated = await prisma.pushToken.updateMany({
+        where: { token: { in: deadTokens } },
+        data: {
+          is_active: false,
+          invalidated_at: new Date(),
+          invalid_reason: "DeviceNotRegistered",
+        },
+      });
+      result.invalidated = invalidated.count;
+    }
+
+    console.log(
+      `📨 Push dispatch via ${this.transport.name}: ${result.sent} sent, ${result.failed} failed, ${result.invalidated} tokens invalidated`
+    );
+    return result;
+  }
+
+  /**
+   * Remind users who are far behind today's calorie goal. "Today" is each
+   * user's local day; pass timeZones to remind only users in those zones.
+   */
+  static async sendGoalReminders(
+    timeZones?: string[]
+  ): Promise<PushDispatchResult> {
+    const zones =
+      timeZones ??
+      (await prisma.user.groupBy({ by: ["timezone"] })).map(
+        ({ timezone }) => timezone
+      );
+
+    const messages: PushMessage[] = [];
+    for (const timeZone of zones) {
+      const zone = isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+      const todayString = getUserDay(zone);
+      const { start, end } = getDayBounds(zone, todayString);
+
+      const goals = await prisma.dailyGoal.findMany({
+        where: {
+          date: dayKeyToDate(todayString),
+          user: {
+            timezone: timeZone,
+            pushTokens: { some: { is_active: true } },
+          },
+        },
+        select: {
+          user_id: true,
+          calories: true,
+          user: {
+            select: {
+              name: true,
+              questionnaires: {
+                orderBy: { date_completed: "desc" },
+                take: 1,
+                select: { notifications_preference: true },
+              },
+            },
+          },
+        },
+      });
+
+      const eligible = goals.filter(
+        (goal) =>
+          goal.user.questionnaires[0]?.notifications_preference !== "NONE"
+      );
+      if (eligible.length === 0) continue;
+
+      const consumed = await prisma.meal.groupBy({
+        by: ["user_id"],
+        where: {
+          user_id: { in: eligible.map((goal) => goal.user_id) },
+          upload_time: { gte: start, lt: end },
+        },
+        _sum: { calories: true },
+      });
+      const consumedByUser = new Map(
+        consumed.map((row) => [row.user_id, row._sum.calories || 0])
+      );
+
+      const behind = eligible.filter(
+        (goal) =>
+          (consumedByUser.get(goal.user_id) || 0) < goal.calories * 0.5
+      );
+      const tokens = await this.getActiveTokens(behind.map((g) => g.user_id));
+      const goalsByUser = new Map(behind.map((goal) => [goal.user_id, goal]));
+
+      for (const { user_id, token } of tokens) {
+        const goal = goalsByUser.get(user_id)!;
+        const remaining = Math.round(
+          goal.calories - (consumedByUser.get(user_id) || 0)
+        );
+        messages.push({
+          to: token,
+          title: "🍽️ Don't forget to log your meals",
+          body: `You have ${remaining} kcal left for today's goal. Log your meals to keep your streak going!`,
+          sound: "default",
+          channelId: "meal-reminders",
+          data: { type: "goal_reminder", date: todayString },
+        });
+      }
+    }
+
+    return this.dispatch(messages);
+  }
+
+  /**
+   * Tell users about recommendation rows created since the given time
+   */
+  static async notifyNewRecommendations(
+    since: Date,
+    userIds?: string[]
+  ): Promise<PushDispatchResult> {
+    const recommendations = await prisma.aiRecommendation.findMany({
+      where: {
+        created_at: { gte: since },
+        is_read: false,
+        ...(userIds && { user_id: { in: userIds } }),
+      },
+      select: { id: true, user_id: true, date: true },
+    });
+
+    if (recommendations.length === 0) {
+      return { sent: 0, failed: 0, invalidated: 0 };
+    }
+
+    const byUser = new Map(recommendations.map((r) => [r.user_id, r]));
+    const tokens = await this.getActiveTokens(Array.from(byUser.keys()));
+
+    return this.dispatch(
+      tokens.map(({ user_id, token }) => ({
+        to: token,
+        title: "💡 Your daily recommendations are ready",
+        body: "We've prepared new personalized nutrition tips for today.",
+        sound: "default",
+        channelId: "default",
+        data: {
+          type: "ai_recommendation",
+          recommendationId: byUser.get(user_id)!.id,
+          date: byUser.get(user_id)!.date,
+        },
+      }))
+    );
+  }
+
+  static async notifyAchievementsUnlocked(
+    userId: string,
+    achievements: { id: string; title: string; xpReward: number }[]
+  ): Promise<PushDispatchResult> {
+    if (achievements.length === 0) {
+      return { sent: 0, failed: 0, invalidated: 0 };
+    }
+
+    const totalXP = achievements.reduce((sum, a) => sum + a.xpReward, 0);
+    const title =
+      achievements.length === 1
+        ? `🏆 Achievement unlocked: ${achievements[0].title}`
+        : `🏆 ${achievements.length} achievements unlocked!`;
+
+    return this.sendToUser(userId, "achievement_unlocked", {
+      title,
+      body: `You earned ${totalXP} XP. Keep it up!`,
+      data: { achievementIds: achievements.map((a) => a.id) },
+    });
+  }
+}
@@ -0,0 +1,468 @@
+import { MealTiming, Prisma } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { IngredientDefinition } from "../config/ingredients";
+import {
+  GRAMS_PER_PIECE,
+  NUTRIENTS_PER_100G,
+  Nutrients,
+} from "../config/nutrients";
+import { IngredientService } from "./ingredients";
+import { RecipeService, recipeInclude } from "./recipes";
+import { PantryService } from "./pantry";
+import { ShoppingListService } from "./shoppingLists";
+import { AchievementService } from "./achievements";
+import {
+  NutritionSource,
+  RecipeLibraryError,
+  UpdateUserRecipe,
+  UserRecipeIngredientInput,
+  UserRecipeInput,
+} from "../types/recipeLibrary";
+
+const userRecipeInclude = {
+  ingredients: { orderBy: { position: "asc" } },
+  recipe: { include: recipeInclude },
+} satisfies Prisma.UserRecipeInclude;
+
+type UserRecipeWithDetails = Prisma.UserRecipeGetPayload<{
+  include: typeof userRecipeInclude;
+}>;
+
+type IngredientNutrition = { [K in keyof Nutrients]: number | null } & {
+  grams: number | null;
+  nutrition_source: NutritionSource | null;
+};
+
+type CalculatedIngredient = IngredientNutrition & {
+  name: string;
+  quantity: number;
+  unit: string;
+  barcode: string | null;
+};
+
+const NUTRIENT_KEYS: (keyof Nutrients)[] = [
+  "calories",
+  "protein_g",
+  "carbs_g",
+  "fats_g",
+  "fiber_g",
+];
+
+const MEAL_PERIODS: Record<MealTiming, string> = {
+  BREAKFAST: "breakfast",
+  LUNCH: "lunch",
+  DINNER: "dinner",
+  SNACK: "snack",
+  MORNING_SNACK: "snack",
+  AFTERNOON_SNACK: "snack",
+};
+
+const round = (value: number, digits = 1) =>
+  Math.round(value * 10 ** digits) / 10 ** digits;
+
+const scaleOrNull = (value: number | null, factor: number) =>
+  value === null ? null : round(value * factor);
+
+// A scanned product's label, as stored in the FoodProduct cache
+function fromProductLabel(nutrition: Prisma.JsonValue): Nutrients {
+  const label = (nutrition ?? {}) as Record<string, unknown>;
+  const value = (key: string) => Number(label[key]) || 0;
+  return {
+    calories: value("calories"),
+    protein_g: value("protein"),
+    carbs_g: value("carbs"),
+    fats_g: value("fat"),
+    fiber_g: value("fiber"),
+  };
+}
+
+/**
+ * The weight of an ingredient quantity. Volumes without a known density are
+ * taken as water; pieces need a known piece weight.
+ */
+function toGrams(
+  quantity: number,
+  unit: string,
+  definition?: IngredientDefinition
+): number | null {
+  const { base, factor } = IngredientService.parseUnit(unit);
+  const amount = quantity * factor;
+
+  if (base === "g") return amount;
+  if (base === "ml") return amount * (definition?.density ?? 1);
+
+  const pieceWeight =
+    definition?.pieceWeight ?? (definition && GRAMS_PER_PIECE[definition.key]);
+  return pieceWeight ? amount * pieceWeight : null;
+}
+
+/**
+ * Recipes the user writes themselves. Nutrition is computed on the server
+ * from each ingredient's weight and a food composition source: the label of
+ * a scanned product, the bundled nutrient table for catalog ingredients, or
+ * a cached product with the same name. Ingredients that can't be matched
+ * count as nothing and are listed so the user can fix them.
+ */
+export class RecipeLibraryService {
+  static async calculate(
+    ingredients: UserRecipeIngredientInput[]
+  ): Promise<CalculatedIngredient[]> {
+    const barcodes = ingredients
+      .map((ingredient) => ingredient.barcode)
+      .filter((barcode): barcode is string => !!barcode);
+    const names = ingredients.map((ingredient) => ingredient.name);
+
+    const [scanned, named] = await Promise.all([
+      barcodes.length > 0
+        ? prisma.foodProduct.findMany({ where: { barcode: { in: barcodes } } })
+        : [],
+      prisma.foodProduct.findMany({
+        where: { product_name: { in: names, mode: "insensitive" } },
+      }),
+    ]);
+    const byBarcode = new Map(
+      scanned.map((product) => [product.barcode, product])
+    );
+    const byName = new Map(
+      named.map((product) => [product.product_name.toLowerCase(), product])
+    );
+
+    return ingredients.map((ingredient) => {
+      const definition = IngredientService.lookup(ingredient.name);
+      const product =
+        (ingredient.barcode && byBarcode.get(ingredient.barcode)) ||
+        (!definition && byName.get(ingredient.name.toLowerCase()));
+
+      let per100g: Nutrients | undefined;
+      let source: NutritionSource | null = null;
+      if (product) {
+        per100g = fromProductLabel(product.nutrition_per_100g);
+        source = "food_product";
+      } else if (definition && NUTRIENTS_PER_100G[definition.key]) {
+        per100g = NUTRIENTS_PER_100G[definition.key];
+        source = "catalog";
+      }
+
+      const grams = per100g
+        ? toGrams(ingredient.quantity, ingredient.unit, definition)
+        : null;
+      const nutrition = Object.fromEntries(
+        NUTRIENT_KEYS.map((key) => [
+          key,
+          per100g && grams !== null
+            ? round((per100g[key] * grams) / 100)
+            : null,
+        ])
+      ) as { [K in keyof Nutrients]: number | null };
+
+      return {
+        name: ingredient.name,
+        quantity: ingredient.quantity,
+        unit: ingredient.unit,
+        barcode: ingredient.barcode ?? null,
+        grams: grams === null ? null : round(grams),
+        ...nutrition,
+        nutrition_source: grams === null ? null : source,
+      };
+    });
+  }
+
+  static perServing(
+    ingredients: { [K in keyof Nutrients]: number | null }[],
+    servings: number
+  ): Nutrients {
+    return Object.fromEntries(
+      NUTRIENT_KEYS.map((key) => [
+        key,
+        round(
+          ingredients.reduce(
+            (total, ingredient) => total + (ingredient[key] ?? 0),
+            0
+          ) / servings
+        ),
+      ])
+    ) as unknown as Nutrients;
+  }
+
+  static toView(recipe: UserRecipeWithDetails) {
+    return {
+      ...recipe,
+      servings: recipe.recipe?.servings ?? 1,
+      unmatched_ingredients: recipe.ingredients
+        .filter((ingredient) => ingredient.grams === null)
+        .map((ingredient) => ingredient.name),
+    };
+  }
+
+  static async getRecipes(userId: string) {
+    const recipes = await prisma.userRecipe.findMany({
+      where: { user_id: userId },
+      include: userRecipeInclude,
+      orderBy: { updated_at: "desc" },
+    });
+    return recipes.map((recipe) => this.toView(recipe));
+  }
+
+  static async getRecipe(userId: string, recipeId: string) {
+    const recipe = await prisma.userRecipe.findFirst({
+      where: { user_recipe_id: recipeId, user_id: userId },
+      include: userRecipeInclude,
+    });
+    if (!recipe) {
+      throw new RecipeLibraryError("Recipe not found", 404);
+    }
+    return this.toView(recipe);
+  }
+
+  static async createRecipe(userId: string, input: UserRecipeInput) {
+    const ingredients = await this.calculate(input.ingredients);
+
+    const recipe = await prisma.userRecipe.create({
+      data: {
+        user_id: userId,
+        name: input.name,
+        description: input.description,
+        meal_timing: input.meal_timing,
+        prep_time_minutes: input.prep_time_minutes,
+        ...this.perServing(ingredients, input.servings),
+        ingredients: {
+          create: ingredients.map((ingredient, index) => ({
+            position: index + 1,
+            ...ingredient,
+          })),
+        },
+      },
+    });
+
+    await RecipeService.save(
+      { user_recipe_id: recipe.user_recipe_id },
+      RecipeService.fromMealData({
+        steps: input.steps,
+        servings: input.servings,
+      })
+    );
+
+    console.log(`📖 Created recipe "${recipe.name}" for user ${userId}`);
+    return this.getRecipe(userId, recipe.user_recipe_id);
+  }
+
+  /**
+   * Changing the ingredients or servings recomputes the per-serving
+   * nutrition
+   */
+  static async updateRecipe(
+    userId: string,
+    recipeId: string,
+    input: UpdateUserRecipe
+  ) {
+    const existing = await this.getRecipe(userId, recipeId);
+    const servings = input.servings ?? existing.servings;
+    const ingredients = input.ingredients
+      ? await this.calculate(input.ingredients)
+      : existing.ingredients;
+
+    await prisma.$transaction([
+      ...(input.ingredients
+        ? [
+            prisma.userRecipeIngredient.deleteMany({
+              where: { user_recipe_id: recipeId },
+            }),
+          ]
+        : []),
+      prisma.userRecipe.update({
+        where: { user_recipe_id: recipeId },
+        data: {
+          name: input.name,
+          description: input.description,
+          meal_timing: input.meal_timing,
+          prep_time_minutes: input.prep_time_minutes,
+          ...this.perServing(ingredients, servings),
+          ingredients: input.ingredients && {
+            create: (ingredients as CalculatedIngredient[]).map(
+              (ingredient, index) => ({ position: index + 1, ...ingredient })
+            ),
+          },
+        },
+      }),
+    ]);
+
+    if (input.steps || input.servings) {
+      await RecipeService.save(
+        { user_recipe_id: recipeId },
+        RecipeService.fromMealData({
+          steps: input.steps ?? existing.recipe?.steps ?? [],
+          servings,
+        })
+      );
+    }
+
+    return this.getRecipe(userId, recipeId);
+  }
+
+  static async deleteRecipe(userId: string, recipeId: string) {
+    await this.getRecipe(userId, recipeId);
+    await prisma.userRecipe.delete({ where: { user_recipe_id: recipeId } });
+  }
+
+  // Log servings of the recipe as eaten
+  static async logRecipe(
+    userId: string,
+    recipeId: string,
+    options: { servings: number; meal_period?: string }
+  ) {
+    const recipe = await this.getRecipe(userId, recipeId);
+    // The part of the whole recipe that was eaten
+    const share = options.servings / recipe.servings;
+    const grams = recipe.ingredients.reduce(
+      (total, ingredient) => total + (ingredient.grams ?? 0),
+      0
+    );
+
+    const meal = await prisma.meal.create({
+      data: {
+        user_id: userId,
+        image_url: "",
+        analysis_status: "COMPLETED",
+        meal_name: recipe.name,
+        meal_period:
+          options.meal_period ??
+          (recipe.meal_timing ? MEAL_PERIODS[recipe.meal_timing] : "other"),
+        calories: round(recipe.calories * options.servings),
+        protein_g: round(recipe.protein_g * options.servings),
+        carbs_g: round(recipe.carbs_g * options.servings),
+        fats_g: round(recipe.fats_g * options.servings),
+        fiber_g: round(recipe.fiber_g * options.servings),
+        serving_size_g: grams > 0 ? round(grams * share) : null,
+        ingredients: recipe.ingredients.map((ingredient) => ({
+          name: ingredient.name,
+          quantity: round(ingredient.quantity * share, 2),
+          unit: ingredient.unit,
+          calories: scaleOrNull(ingredient.calories, share),
+          protein_g: scaleOrNull(ingredient.protein_g, share),
+          carbs_g: scaleOrNull(ingredient.carbs_g, share),
+          fats_g: scaleOrNull(ingredient.fats_g, share),
+          fiber_g: scaleOrNull(ingredient.fiber_g, share),
+        })),
+        upload_time: new Date(),
+      },
+    });
+
+    await AchievementService.checkAndAwardAchievements(userId);
+
+    console.log(`🍽️ Logged ${options.servings} serving(s) of "${recipe.name}"`);
+    return meal;
+  }
+
+  /**
+   * Schedule the recipe in one of the user's meal plans. The plan gets its
+   * own one-serving template, so later edits to the recipe don't change
+   * meals already planned.
+   */
+  static async addToPlan(
+    userId: string,
+    recipeId: string,
+    options: {
+      plan_id: string;
+      day_of_week: number;
+      meal_timing: MealTiming;
+      servings: number;
+    }
+  ) {
+    const recipe = await this.getRecipe(userId, recipeId);
+    const plan = await prisma.userMealPlan.findFirst({
+      where: { plan_id: options.plan_id, user_id: userId },
+    });
+    if (!plan) {
+      throw new RecipeLibraryError("Meal plan not found", 404);
+    }
+
+    const perServing = 1 / recipe.servings;
+    const steps = recipe.recipe?.steps ?? [];
+
+    const template = await prisma.mealTemplate.create({
+      data: {
+        name: recipe.name,
+        description: recipe.description,
+        meal_timing: options.meal_timing,
+        dietary_category: "BALANCED",
+        prep_time_minutes: recipe.prep_time_minutes,
+        calories: recipe.calories,
+        protein_g: recipe.protein_g,
+        carbs_g: recipe.carbs_g,
+        fats_g: recipe.fats_g,
+        fiber_g: recipe.fiber_g,
+        ingredients_json: recipe.ingredients.map((ingredient) => ({
+          name: ingredient.name,
+          quantity: round(ingredient.quantity * perServing, 2),
+          unit: ingredient.unit,
+        })),
+        instructions_json: steps.map((step) => step.instruction),
+      },
+    });
+    await RecipeService.save(
+      { template_id: template.template_id },
+      RecipeService.fromMealData({ steps, servings: 1 })
+    );
+
+    // After whatever is already planned for that meal
+    const { _max } = await prisma.mealPlanSchedule.aggregate({
+      where: {
+        plan_id: plan.plan_id,
+        day_of_week: options.day_of_week,
+        meal_timing: options.meal_timing,
+      },
+      _max: { meal_order: true },
+    });
+
+    const schedule = await prisma.mealPlanSchedule.create({
+      data: {
+        plan_id: plan.plan_id,
+        template_id: template.template_id,
+        day_of_week: options.day_of_week,
+        meal_timing: options.meal_timing,
+        meal_order: (_max.meal_order ?? 0) + 1,
+        portion_multiplier: options.servings,
+      },
+      include: { template: true },
+    });
+
+    console.log(`📅 Added recipe "${recipe.name}" to plan ${plan.plan_id}`);
+    return schedule;
+  }
+
+  /**
+   * Put what the recipe needs beyond the pantry on a shopping list, scaled
+   * to the servings being cooked
+   */
+  static async addToShoppingList(
+    userId: string,
+    recipeId: string,
+    options: { list_id?: string; servings?: number }
+  ) {
+    const recipe = await this.getRecipe(userId, recipeId);
+    const factor = (options.servings ?? recipe.servings) / recipe.servings;
+
+    const { missing, covered } = await PantryService.subtractStock(
+      userId,
+      IngredientService.combine(
+        recipe.ingredients.map((ingredient) => ({
+          name: ingredient.name,
+          quantity: ingredient.quantity * factor,
+          unit: ingredient.unit,
+        }))
+      )
+    );
+    const { added, updated } = await ShoppingListService.addItems(
+      userId,
+      missing,
+      { listId: options.list_id, addedFrom: "recipe" }
+    );
+
+    return {
+      items: [...added, ...updated],
+      in_pantry: covered,
+      added: added.length,
+      updated: updated.length,
+    };
+  }
+}
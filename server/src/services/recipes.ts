@@ -0,0 +1,345 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/database";
+import {
+  DURATION_PATTERN,
+  EQUIPMENT_KEYWORDS,
+  HOUR_UNITS,
+} from "../config/recipes";
+import {
+  MAX_SERVINGS,
+  RecipeError,
+  RecipeInput,
+  RecipeStepInput,
+} from "../types/recipes";
+
+export const recipeInclude = {
+  steps: { orderBy: { position: "asc" } },
+} satisfies Prisma.RecipeInclude;
+
+export type RecipeWithSteps = Prisma.RecipeGetPayload<{
+  include: typeof recipeInclude;
+}>;
+
+type RecipeOwner =
+  { meal_id: string } | { template_id: string } | { user_recipe_id: string };
+
+const round = (value: number, digits = 1) =>
+  Math.round(value * 10 ** digits) / 10 ** digits;
+
+// "1. ", "2) ", "Step 3:" at the start of a step
+const STEP_NUMBER = /^\s*(?:step\s*)?\d+\s*[.):-]\s*/i;
+
+function splitSteps(text: string): string[] {
+  const lines = text
+    .split(/\r?\n+/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  if (lines.length > 1) return lines;
+
+  // One paragraph: split on inline step numbers, otherwise on sentences
+  const numbered = text.split(/\s+(?=(?:step\s*)?\d+\s*[.)]\s+)/i);
+  if (numbered.length > 1) return numbered;
+  return text.split(/(?<=[.!?])\s+(?=\S)/);
+}
+
+function includesKeyword(words: string[], text: string, keyword: string) {
+  if (keyword.includes(" ")) return text.includes(keyword);
+  // Hebrew attaches prepositions to the word ("במחבת")
+  if (!/^[a-z]+$/.test(keyword)) {
+    return words.some((word) => word.includes(keyword));
+  }
+  return words.some(
+    (word) =>
+      word === keyword || (keyword.length >= 4 && word.startsWith(keyword))
+  );
+}
+
+/**
+ * Recipes behind recommended meals, meal templates and the user's own
+ * recipes: ordered steps with durations and equipment, and the servings the
+ * ingredients are for.
+ * Meals saved before recipes existed get one parsed from their free-text
+ * instructions the first time it is asked for.
+ */
+export class RecipeService {
+  static parseDuration(text: string): number | null {
+    const match = text.match(DURATION_PATTERN);
+    if (!match) return null;
+
+    const amount = parseFloat(match[2] ?? match[1]);
+    const minutes = HOUR_UNITS.has(match[3].toLowerCase())
+      ? amount * 60
+      : amount;
+    return Math.max(1, Math.round(minutes));
+  }
+
+  static detectEquipment(text: string): string[] {
+    const lower = text.toLowerCase();
+    const words = lower.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+    return Object.entries(EQUIPMENT_KEYWORDS)
+      .filter(([, keywords]) =>
+        keywords.some((keyword) => includesKeyword(words, lower, keyword))
+      )
+      .map(([equipment]) => equipment);
+  }
+
+  // Free text ("1. Boil the pasta for 10 minutes. 2. ...") or a list of steps
+  static fromInstructions(instructions: unknown): RecipeInput {
+    const texts = Array.isArray(instructions)
+      ? instructions.filter((step): step is string => typeof step === "string")
+      : typeof instructions === "string"
+        ? splitSteps(instructions)
+        : [];
+
+    const steps = texts
+      .map((text) => text.replace(STEP_NUMBER, "").trim())
+      .filter(Boolean)
+      .map((instruction) => ({
+        instruction,
+        duration_minutes: this.parseDuration(instruction),
+        equipment: this.detectEquipment(instruction),
+      }));
+
+    return { steps };
+  }
+
+  /**
+   * The recipe of a generated meal. Structured `steps` are used as given,
+   * filling in what is missing from the text; otherwise the steps are
+   * parsed from `instructions`.
+   */
+  static fromMealData(meal: {
+    instructions?: unknown;
+    steps?: unknown;
+    servings?: unknown;
+    equipment?: unknown;
+  }): RecipeInput {
+    const steps: RecipeStepInput[] = Array.isArray(meal.steps)
+      ? meal.steps
+          .map((step: any) =>
+            typeof step === "string"
+              ? { instruction: step }
+              : {
+                  instruction: String(
+                    step?.instruction ?? step?.text ?? ""
+                  ).trim(),
+                  duration_minutes: Number(step?.duration_minutes) || null,
+                  equipment: Array.isArray(step?.equipment)
+                    ? step.equipment.map(String)
+                    : undefined,
+                }
+          )
+          .filter((step) => step.instruction)
+          .map((step) => ({
+            ...step,
+            instruction: step.instruction.replace(STEP_NUMBER, ""),
+            duration_minutes:
+              step.duration_minutes ?? this.parseDuration(step.instruction),
+            equipment: step.equipment ?? this.detectEquipment(step.instruction),
+          }))
+      : [];
+
+    const recipe =
+      steps.length > 0 ? { steps } : this.fromInstructions(meal.instructions);
+    const servings = Math.round(Number(meal.servings));
+
+    return {
+      ...recipe,
+      servings:
+        servings >= 1 && servings <= MAX_SERVINGS ? servings : undefined,
+      equipment: Array.isArray(meal.equipment)
+        ? meal.equipment.map(String)
+        : undefined,
+    };
+  }
+
+  // Steps joined back into text, for the `instructions` column
+  static toInstructions(recipe: RecipeInput): string {
+    return recipe.steps
+      .map((step, index) => `${index + 1}. ${step.instruction}`)
+      .join("\n");
+  }
+
+  // Create or replace the recipe of a meal or template
+  static async save(
+    owner: RecipeOwner,
+    input: RecipeInput
+  ): Promise<RecipeWithSteps> {
+    const equipment =
+      input.equipment ??
+      Array.from(new Set(input.steps.flatMap((step) => step.equipment ?? [])));
+    const data = {
+      servings: input.servings ?? 1,
+      equipment,
+      steps: {
+        create: input.steps.map((step, index) => ({
+          position: index + 1,
+          instruction: step.instruction,
+          duration_minutes: step.duration_minutes ?? null,
+          equipment: step.equipment ?? [],
+        })),
+      },
+    };
+
+    return prisma.$transaction(async (tx) => {
+      await tx.recipe.deleteMany({ where: owner });
+      return tx.recipe.create({
+        data: { ...owner, ...data },
+        include: recipeInclude,
+      });
+    });
+  }
+
+  /**
+   * The saved recipe, or one parsed from the instructions when there is
+   * none yet
+   */
+  private static async ensure(
+    owner: RecipeOwner,
+    existing: RecipeWithSteps | null,
+    instructions: unknown
+  ): Promise<RecipeWithSteps> {
+    if (existing) return existing;
+
+    try {
+      return await this.save(owner, this.fromInstructions(instructions));
+    } catch (error) {
+      // Created by a concurrent request
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        return prisma.recipe.findFirstOrThrow({
+          where: owner,
+          include: recipeInclude,
+        });
+      }
+      throw error;
+    }
+  }
+
+  static async getMealRecipe(userId: string, menuId: string, mealId: string) {
+    const meal = await prisma.recommendedMeal.findFirst({
+      where: { meal_id: mealId, menu_id: menuId, menu: { user_id: userId } },
+      include: { ingredients: true, recipe: { include: recipeInclude } },
+    });
+    if (!meal) {
+      throw new RecipeError("Meal not found", 404);
+    }
+
+    const recipe = await this.ensure(
+      { meal_id: meal.meal_id },
+      meal.recipe,
+      meal.instructions
+    );
+    return { ...meal, recipe };
+  }
+
+  /**
+   * Cook a meal for a different number of people: ingredient quantities,
+   * costs and macros are scaled, and the menu totals follow.
+   */
+  static async scaleMeal(
+    userId: string,
+    menuId: string,
+    mealId: string,
+    servings: number
+  ) {
+    const meal = await this.getMealRecipe(userId, menuId, mealId);
+    const factor = servings / meal.recipe.servings;
+    if (factor === 1) return meal;
+
+    const scaled = {
+      calories: round(meal.calories * factor),
+      protein: round(meal.protein * factor),
+      carbs: round(meal.carbs * factor),
+      fat: round(meal.fat * factor),
+      fiber: meal.fiber === null ? null : round(meal.fiber * factor),
+    };
+
+    await prisma.$transaction([
+      ...meal.ingredients.map((ingredient) =>
+        prisma.recommendedIngredient.update({
+          where: { ingredient_id: ingredient.ingredient_id },
+          data: {
+            quantity: round(ingredient.quantity * factor, 2),
+            estimated_cost:
+              ingredient.estimated_cost === null
+                ? null
+                : round(ingredient.estimated_cost * factor, 2),
+          },
+        })
+      ),
+      prisma.recommendedMeal.update({
+        where: { meal_id: mealId },
+        data: scaled,
+      }),
+      prisma.recommendedMenu.update({
+        where: { menu_id: menuId },
+        data: {
+          total_calories: {
+            increment: Math.round(scaled.calories - meal.calories),
+          },
+          total_protein: {
+            increment: Math.round(scaled.protein - meal.protein),
+          },
+          total_carbs: { increment: Math.round(scaled.carbs - meal.carbs) },
+          total_fat: { increment: Math.round(scaled.fat - meal.fat) },
+        },
+      }),
+      prisma.recipe.update({
+        where: { recipe_id: meal.recipe.recipe_id },
+        data: { servings },
+      }),
+    ]);
+
+    return this.getMealRecipe(userId, menuId, mealId);
+  }
+
+  /**
+   * A meal template's recipe. Templates are shared, so scaling only
+   * changes the returned copy.
+   */
+  static async getTemplateRecipe(templateId: string, servings?: number) {
+    const template = await prisma.mealTemplate.findUnique({
+      where: { template_id: templateId },
+      include: { recipe: { include: recipeInclude } },
+    });
+    if (!template) {
+      throw new RecipeError("Meal template not found", 404);
+    }
+
+    const recipe = await this.ensure(
+      { template_id: templateId },
+      template.recipe,
+      template.instructions_json
+    );
+    const factor = servings ? servings / recipe.servings : 1;
+    const scale = (value: number | null) =>
+      value === null ? null : round(value * factor);
+
+    const ingredients = Array.isArray(template.ingredients_json)
+      ? template.ingredients_json.map((ingredient: any) =>
+          typeof ingredient?.quantity === "number"
+            ? {
+                ...ingredient,
+                quantity: round(ingredient.quantity * factor, 2),
+              }
+            : ingredient
+        )
+      : [];
+
+    return {
+      ...template,
+      calories: scale(template.calories),
+      protein_g: scale(template.protein_g),
+      carbs_g: scale(template.carbs_g),
+      fats_g: scale(template.fats_g),
+      fiber_g: scale(template.fiber_g),
+      sugar_g: scale(template.sugar_g),
+      sodium_mg: scale(template.sodium_mg),
+      ingredients_json: ingredients,
+      recipe: { ...recipe, servings: servings ?? recipe.servings },
+    };
+  }
+}
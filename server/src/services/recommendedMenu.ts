@@ -1,5 +1,8 @@
 import { prisma } from "../lib/database";
 import { OpenAIService } from "./openai";
+import { IngredientService } from "./ingredients";
+import { PantryService } from "./pantry";
+import { RecipeService } from "./recipes";
 
 export interface GenerateMenuParams {
   userId: string;
@@ -134,10 +137,12 @@ export class RecommendedMenuService {
         return this.generateFallbackMenu(params, questionnaire);
       }
 
+      const pantry = await PantryService.describeForPrompt(params.userId);
       const prompt = this.buildMenuGenerationPrompt(
         params,
         questionnaire,
-        nutritionPlan
+        nutritionPlan,
+        pantry
       );
       const aiResponse = await OpenAIService.generateText(prompt, 2000);
 
@@ -160,7 +165,8 @@ export class RecommendedMenuService {
         return this.generateFallbackCustomMenu(params, questionnaire);
       }
 
-      const prompt = this.buildCustomMenuPrompt(params, questionnaire);
+      const pantry = await PantryService.describeForPrompt(params.userId);
+      const prompt = this.buildCustomMenuPrompt(params, questionnaire, pantry);
       const aiResponse = await OpenAIService.generateText(prompt, 2000);
 
       // Parse AI response
@@ -175,7 +181,8 @@ export class RecommendedMenuService {
   private static buildMenuGenerationPrompt(
     params: GenerateMenuParams,
     questionnaire: any,
-    nutritionPlan: any
+    nutritionPlan: any,
+    pantry: string
   ): string {
     return `Generate a ${params.days || 7}-day personalized meal plan.
 
@@ -203,7 +210,7 @@ Requirements:
 - Cooking methods: ${
       questionnaire.available_cooking_methods?.join(", ") || "All methods"
     }
-
+${this.pantrySection(pantry)}
 Return JSON with this structure:
 {
   "title": "Menu title",
@@ -226,7 +233,15 @@ Return JSON with this structure:
       "fiber": number,
       "prep_time_minutes": number,
       "cooking_method": "method",
-      "instructions": "cooking instructions",
+      "instructions": "short summary of how it is made",
+      "servings": 1,
+      "steps": [
+        {
+          "instruction": "one step",
+          "duration_minutes": number or null,
+          "equipment": ["pan"]
+        }
+      ],
       "ingredients": [
         {
           "name": "ingredient",
@@ -242,7 +257,8 @@ Return JSON with this structure:
 
   private static buildCustomMenuPrompt(
     params: GenerateMenuParams,
-    questionnaire: any
+    questionnaire: any,
+    pantry: string
   ): string {
     return `Create a custom meal plan based on this request: "${
       params.customRequest
@@ -258,10 +274,19 @@ Plan Requirements:
 - Duration: ${params.days || 7} days
 - Meals per day: ${this.getMealsPerDayCount(params.mealsPerDay || "3_main")}
 - Custom request: ${params.customRequest}
-
+${this.pantrySection(pantry)}
 Return the same JSON structure as before with meals that specifically address the custom request.`;
   }
 
+  // Blank when the pantry is empty, so the prompt reads as before
+  private static pantrySection(pantry: string): string {
+    if (!pantry) return "";
+    return `
+Already at home (use these first, especially items expiring soon):
+${pantry}
+`;
+  }
+
   private static parseAIMenuResponse(aiResponse: string) {
     try {
       // Clean the response
@@ -314,6 +339,24 @@ Return the same JSON structure as before with meals that specifically address th
         cooking_method: "Pan frying",
         instructions:
           "Scramble eggs with vegetables and serve with whole grain toast",
+        steps: [
+          {
+            instruction: "Whisk the eggs with a pinch of salt",
+            duration_minutes: 2,
+          },
+          {
+            instruction: "Wilt the spinach in a pan over medium heat",
+            duration_minutes: 2,
+          },
+          {
+            instruction: "Add the eggs and stir gently until just set",
+            duration_minutes: 4,
+          },
+          {
+            instruction: "Toast the bread and serve with the eggs",
+            duration_minutes: 3,
+          },
+        ],
         ingredients: [
           { name: "eggs", quantity: 2, unit: "piece", category: "protein" },
           {
@@ -337,6 +380,27 @@ Return the same JSON structure as before with meals that specifically address th
         cooking_method: "Grilling",
         instructions:
           "Grill chicken breast and serve over mixed greens with olive oil dressing",
+        steps: [
+          {
+            instruction:
+              "Season the chicken breast and brush with a little olive oil",
+            duration_minutes: 3,
+          },
+          {
+            instruction:
+              "Grill the chicken, turning once, until cooked through",
+            duration_minutes: 14,
+          },
+          {
+            instruction: "Let the chicken rest, then slice it",
+            duration_minutes: 5,
+          },
+          {
+            instruction:
+              "Toss the greens in a bowl with the remaining olive oil and top with the chicken",
+            duration_minutes: 3,
+          },
+        ],
         ingredients: [
           {
             name: "chicken breast",
@@ -365,6 +429,26 @@ Return the same JSON structure as before with meals that specifically address th
         cooking_method: "Baking",
         instructions:
           "Bake salmon with herbs and serve with quinoa and steamed vegetables",
+        steps: [
+          {
+            instruction:
+              "Rinse the quinoa and simmer it in a pot with twice its volume of water",
+            duration_minutes: 15,
+          },
+          {
+            instruction:
+              "Season the salmon with herbs and bake it in the oven at 200°C",
+            duration_minutes: 12,
+          },
+          {
+            instruction: "Steam the broccoli until tender",
+            duration_minutes: 5,
+          },
+          {
+            instruction: "Serve the salmon over the quinoa with the broccoli",
+            duration_minutes: 2,
+          },
+        ],
         ingredients: [
           {
             name: "salmon fillet",
@@ -480,6 +564,7 @@ Return the same JSON structure as before with meals that specifically address th
 
       // Save meals
       const mealPromises = menuData.meals.map(async (meal: any) => {
+        const recipe = RecipeService.fromMealData(meal);
         const savedMeal = await prisma.recommendedMeal.create({
           data: {
             menu_id: menu.menu_id,
@@ -493,9 +578,11 @@ Return the same JSON structure as before with meals that specifically address th
             fiber: meal.fiber || 0,
             prep_time_minutes: meal.prep_time_minutes || 30,
             cooking_method: meal.cooking_method,
-            instructions: meal.instructions,
+            instructions:
+              meal.instructions || RecipeService.toInstructions(recipe),
           },
         });
+        await RecipeService.save({ meal_id: savedMeal.meal_id }, recipe);
 
         // Save ingredients
         if (meal.ingredients && Array.isArray(meal.ingredients)) {
@@ -590,6 +677,11 @@ Return the same JSON structure as before with meals that specifically address th
         },
       });
 
+      await RecipeService.save(
+        { meal_id: mealId },
+        RecipeService.fromMealData(replacementMeal)
+      );
+
       // Update ingredients
       await prisma.recommendedIngredient.deleteMany({
         where: { meal_id: mealId },
@@ -637,6 +729,21 @@ Return the same JSON structure as before with meals that specifically address th
         prep_time_minutes: (currentMeal.prep_time_minutes || 30) - 5,
         cooking_method: "Bowl assembly",
         instructions: "Combine protein, grains, and vegetables in a bowl",
+        steps: [
+          {
+            instruction:
+              "Simmer the quinoa in a pot until the water is absorbed",
+            duration_minutes: 15,
+          },
+          {
+            instruction: "Cook the protein in a pan until done",
+            duration_minutes: 8,
+          },
+          {
+            instruction: "Combine the quinoa, protein and vegetables in a bowl",
+            duration_minutes: 2,
+          },
+        ],
         ingredients: [
           {
             name: "lean protein",
@@ -799,6 +906,21 @@ Generate a COMPLETE new menu in JSON format with the same structure as before, b
         carbs: 35,
         fat: 8,
         fiber: 5,
+        instructions: "Layer yogurt, fruit and granola in a bowl",
+        steps: [
+          {
+            instruction: "Spoon half of the yogurt into a bowl or glass",
+            duration_minutes: 1,
+          },
+          {
+            instruction: "Add a layer of fruit and granola",
+            duration_minutes: 2,
+          },
+          {
+            instruction: "Top with the rest of the yogurt, fruit and granola",
+            duration_minutes: 2,
+          },
+        ],
       },
       {
         name: "Quinoa Buddha Bowl",
@@ -808,6 +930,21 @@ Generate a COMPLETE new menu in JSON format with the same structure as before, b
         carbs: 45,
         fat: 18,
         fiber: 10,
+        instructions: "Serve quinoa with roasted vegetables and a protein",
+        steps: [
+          {
+            instruction: "Roast the vegetables in the oven at 200°C",
+            duration_minutes: 20,
+          },
+          {
+            instruction: "Meanwhile simmer the quinoa in a pot",
+            duration_minutes: 15,
+          },
+          {
+            instruction: "Arrange the quinoa, vegetables and protein in a bowl",
+            duration_minutes: 3,
+          },
+        ],
       },
       {
         name: "Grilled Salmon with Vegetables",
@@ -817,6 +954,22 @@ Generate a COMPLETE new menu in JSON format with the same structure as before, b
         carbs: 35,
         fat: 22,
         fiber: 8,
+        instructions: "Grill salmon and vegetables and serve with grains",
+        steps: [
+          { instruction: "Cook the grains in a pot", duration_minutes: 15 },
+          {
+            instruction: "Grill the vegetables until charred",
+            duration_minutes: 8,
+          },
+          {
+            instruction: "Grill the salmon, skin side down first",
+            duration_minutes: 8,
+          },
+          {
+            instruction: "Serve the salmon on the grains with the vegetables",
+            duration_minutes: 2,
+          },
+        ],
       },
     ];
 
@@ -831,7 +984,6 @@ Generate a COMPLETE new menu in JSON format with the same structure as before, b
             : template.name,
           prep_time_minutes: 25,
           cooking_method: "Mixed",
-          instructions: `Prepare ${template.name} following standard recipe`,
           ingredients: [
             {
               name: "main ingredient",
@@ -947,36 +1099,23 @@ Generate a COMPLETE new menu in JSON format with the same structure as before, b
         throw new Error("Menu not found");
       }
 
-      // Aggregate ingredients
-      const ingredientMap = new Map();
-
-      menu.meals.forEach((meal) => {
-        meal.ingredients.forEach((ingredient) => {
-          const key = ingredient.name.toLowerCase();
-          if (ingredientMap.has(key)) {
-            const existing = ingredientMap.get(key);
-            existing.quantity += ingredient.quantity;
-          } else {
-            ingredientMap.set(key, {
-              name: ingredient.name,
-              quantity: ingredient.quantity,
-              unit: ingredient.unit,
-              category: ingredient.category,
-              estimated_cost: ingredient.estimated_cost || 5,
-            });
-          }
-        });
-      });
-
-      const items = Array.from(ingredientMap.values());
-      const totalCost = items.reduce(
-        (sum, item) => sum + item.estimated_cost,
-        0
+      // Merge by ingredient and unit, leave out what is already at home and
+      // round the rest up to what the store sells
+      const { missing, covered } = await PantryService.subtractStock(
+        userId,
+        IngredientService.combine(
+          menu.meals.flatMap((meal) => meal.ingredients)
+        )
+      );
+      const items = missing.map((ingredient) =>
+        IngredientService.toShoppingItem(ingredient)
       );
+      const totalCost = IngredientService.totalCost(items);
 
       return {
         menu_id: menuId,
         items,
+        in_pantry: covered,
         total_estimated_cost: totalCost,
         generated_at: new Date().toISOString(),
       };
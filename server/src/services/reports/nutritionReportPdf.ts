@@ -0,0 +1,502 @@
+import PDFDocument from "pdfkit";
+import {
+  NutritionReportData,
+  ReportDayAdherence,
+} from "../../types/statistics";
+
+type Doc = PDFKit.PDFDocument;
+
+const COLORS = {
+  primary: "#10B981",
+  primaryDark: "#047857",
+  text: "#111827",
+  muted: "#6B7280",
+  border: "#E5E7EB",
+  surface: "#F3F4F6",
+  protein: "#3B82F6",
+  carbs: "#F59E0B",
+  fats: "#EF4444",
+  fiber: "#8B5CF6",
+  water: "#06B6D4",
+  miss: "#DC2626",
+};
+
+const PAGE_MARGIN = 50;
+
+export class NutritionReportPdf {
+  /**
+   * Render a multi-page nutrition report and resolve with the PDF bytes
+   */
+  static render(data: NutritionReportData): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({
+        size: "A4",
+        margin: PAGE_MARGIN,
+        bufferPages: true,
+        info: {
+          Title: `Nutrition report ${data.start_date} - ${data.end_date}`,
+          Author: "Calo",
+        },
+      });
+
+      const chunks: Buffer[] = [];
+      doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+      doc.on("end", () => resolve(Buffer.concat(chunks)));
+      doc.on("error", reject);
+
+      try {
+        this.renderSummaryPage(doc, data);
+        doc.addPage();
+        this.renderDailyCaloriesChart(doc, data);
+        this.renderHydrationChart(doc, data);
+        doc.addPage();
+        this.renderAdherenceTable(doc, data);
+        this.renderStreakSummary(doc, data);
+        this.renderPageFooters(doc, data);
+        doc.end();
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Header, key metrics and macro charts
+   */
+  private static renderSummaryPage(doc: Doc, data: NutritionReportData) {
+    doc
+      .fillColor(COLORS.primaryDark)
+      .fontSize(24)
+      .font("Helvetica-Bold")
+      .text("Nutrition Report");
+    doc
+      .moveDown(0.3)
+      .fillColor(COLORS.text)
+      .fontSize(12)
+      .font("Helvetica")
+      .text(data.user.name || data.user.email);
+    doc
+      .fillColor(COLORS.muted)
+      .fontSize(10)
+      .text(
+        `Period: ${data.start_date} to ${data.end_date} (${data.days.length} days)`
+      )
+      .text(`Generated: ${data.generated_at.split("T")[0]}`);
+
+    doc.moveDown(1.5);
+    this.sectionTitle(doc, "Summary");
+
+    const loggedDays = data.streaks.logged_days;
+    const metrics: [string, string][] = [
+      [
+        "Avg. calories",
+        `${Math.round(data.daily_averages.calories)} / ${Math.round(
+          data.goals.calories
+        )} kcal`,
+      ],
+      ["Meals logged", `${data.meal_count}`],
+      ["Days logged", `${loggedDays} / ${data.days.length}`],
+      ["On-target days", `${data.streaks.on_target_days}`],
+      ["Current streak", `${data.streaks.current} days`],
+      ["Best streak", `${data.streaks.best} days`],
+    ];
+    this.renderMetricGrid(doc, metrics);
+
+    doc.moveDown(1);
+    this.sectionTitle(doc, "Daily averages vs. goals");
+    const averages = data.daily_averages;
+    const goals = data.goals;
+    this.renderGoalBars(doc, [
+      ["Calories", averages.calories, goals.calories, "kcal", COLORS.primary],
+      ["Protein", averages.protein_g, goals.protein_g, "g", COLORS.protein],
+      ["Carbs", averages.carbs_g, goals.carbs_g, "g", COLORS.carbs],
+      ["Fats", averages.fats_g, goals.fats_g, "g", COLORS.fats],
+      ["Fiber", averages.fiber_g, goals.fiber_g, "g", COLORS.fiber],
+      ["Water", averages.water_ml, goals.water_ml, "ml", COLORS.water],
+    ]);
+
+    doc.moveDown(1);
+    this.sectionTitle(doc, "Macro distribution (share of calories)");
+    this.renderMacroSplit(doc, averages.protein_g, averages.carbs_g, averages.fats_g);
+  }
+
+  private static renderMetricGrid(doc: Doc, metrics: [string, string][]) {
+    const columns = 3;
+    const gap = 10;
+    const width = doc.page.width - PAGE_MARGIN * 2;
+    const cellWidth = (width - gap * (columns - 1)) / columns;
+    const cellHeight = 48;
+    const top = doc.y;
+
+    metrics.forEach(([label, value], index) => {
+      const x = PAGE_MARGIN + (index % columns) * (cellWidth + gap);
+      const y = top + Math.floor(index / columns) * (cellHeight + gap);
+      doc.roundedRect(x, y, cellWidth, cellHeight, 6).fill(COLORS.surface);
+      doc
+        .fillColor(COLORS.muted)
+        .fontSize(9)
+        .font("Helvetica")
+        .text(label, x + 10, y + 9, { width: cellWidth - 20 });
+      doc
+        .fillColor(COLORS.text)
+        .fontSize(13)
+        .font("Helvetica-Bold")
+        .text(value, x + 10, y + 23, { width: cellWidth - 20 });
+    });
+
+    const rows = Math.ceil(metrics.length / columns);
+    doc.x = PAGE_MARGIN;
+    doc.y = top + rows * (cellHeight + gap);
+    doc.font("Helvetica");
+  }
+
+  private static renderGoalBars(
+    doc: Doc,
+    rows: [string, number, number, string, string][]
+  ) {
+    const labelWidth = 70;
+    const valueWidth = 120;
+    const barX = PAGE_MARGIN + labelWidth;
+    const barWidth = doc.page.width - PAGE_MARGIN * 2 - labelWidth - valueWidth;
+    const barHeight = 12;
+    let y = doc.y;
+
+    for (const [label, actual, goal, unit, color] of rows) {
+      const ratio = goal > 0 ? actual / goal : 0;
+      doc
+        .fillColor(COLORS.text)
+        .fontSize(10)
+        .font("Helvetica")
+        .text(label, PAGE_MARGIN, y, { width: labelWidth });
+      doc.rect(barX, y, barWidth, barHeight).fill(COLORS.surface);
+      doc
+        .rect(barX, y, barWidth * Math.min(ratio, 1), barHeight)
+        .fill(ratio > 1.1 ? COLORS.miss : color);
+      doc
+        .fillColor(COLORS.muted)
+        .fontSize(9)
+        .text(
+          `${Math.round(actual)} / ${Math.round(goal)} ${unit} (${Math.round(
+            ratio * 100
+          )}%)`,
+          barX + barWidth + 8,
+          y + 1,
+          { width: valueWidth - 8 }
+        );
+      y += barHeight + 10;
+    }
+
+    doc.x = PAGE_MARGIN;
+    doc.y = y;
+  }
+
+  private static renderMacroSplit(
+    doc: Doc,
+    protein: number,
+    carbs: number,
+    fats: number
+  ) {
+    const segments: [string, number, string][] = [
+      ["Protein", protein * 4, COLORS.protein],
+      ["Carbs", carbs * 4, COLORS.carbs],
+      ["Fats", fats * 9, COLORS.fats],
+    ];
+    const total = segments.reduce((sum, [, kcal]) => sum + kcal, 0);
+    const width = doc.page.width - PAGE_MARGIN * 2;
+    const top = doc.y;
+
+    if (total <= 0) {
+      this.emptyNote(doc, "No meals were logged in this period.");
+      return;
+    }
+
+    let x = PAGE_MARGIN;
+    for (const [, kcal, color] of segments) {
+      const segmentWidth = (kcal / total) * width;
+      doc.rect(x, top, segmentWidth, 18).fill(color);
+      x += segmentWidth;
+    }
+
+    let legendX = PAGE_MARGIN;
+    for (const [label, kcal, color] of segments) {
+      doc.rect(legendX, top + 28, 10, 10).fill(color);
+      doc
+        .fillColor(COLORS.text)
+        .fontSize(10)
+        .text(
+          `${label} ${Math.round((kcal / total) * 100)}%`,
+          legendX + 14,
+          top + 28
+        );
+      legendX += 130;
+    }
+
+    doc.x = PAGE_MARGIN;
+    doc.y = top + 50;
+  }
+
+  /**
+   * Vertical bars of calories per day with the goal marked on each bar
+   */
+  private static renderDailyCaloriesChart(doc: Doc, data: NutritionReportData) {
+    this.sectionTitle(doc, "Daily calories vs. goal");
+    this.renderDailyBarChart(
+      doc,
+      data.days,
+      (day) => day.calories,
+      (day) => day.goal.calories,
+      (day) => (day.calories_met ? COLORS.primary : COLORS.carbs)
+    );
+  }
+
+  private static renderHydrationChart(doc: Doc, data: NutritionReportData) {
+    doc.moveDown(1.5);
+    this.sectionTitle(doc, "Hydration");
+    doc
+      .fillColor(COLORS.muted)
+      .fontSize(10)
+      .text(
+        `Total ${Math.round(data.water.total_ml)} ml, average ${Math.round(
+          data.water.average_ml
+        )} ml/day, goal reached on ${data.water.goal_days} of ${
+          data.days.length
+        } days.`
+      );
+    doc.moveDown(0.5);
+    this.renderDailyBarChart(
+      doc,
+      data.days,
+      (day) => day.water_ml,
+      (day) => day.goal.water_ml,
+      (day) => (day.water_met ? COLORS.water : COLORS.border)
+    );
+  }
+
+  private static renderDailyBarChart(
+    doc: Doc,
+    days: ReportDayAdherence[],
+    value: (day: ReportDayAdherence) => number,
+    goal: (day: ReportDayAdherence) => number,
+    color: (day: ReportDayAdherence) => string
+  ) {
+    const chartHeight = 170;
+    const axisWidth = 40;
+    const chartX = PAGE_MARGIN + axisWidth;
+    const chartWidth = doc.page.width - PAGE_MARGIN * 2 - axisWidth;
+    const top = doc.y + 5;
+
+    if (days.length === 0) {
+      this.emptyNote(doc, "No days in the selected period.");
+      return;
+    }
+
+    const max = Math.max(1, ...days.map((d) => Math.max(value(d), goal(d))));
+    const slot = chartWidth / days.length;
+    const barWidth = Math.max(2, slot * 0.7);
+    const baseline = top + chartHeight;
+
+    doc
+      .moveTo(chartX, top)
+      .lineTo(chartX, baseline)
+      .lineTo(chartX + chartWidth, baseline)
+      .strokeColor(COLORS.border)
+      .lineWidth(1)
+      .stroke();
+    doc
+      .fillColor(COLORS.muted)
+      .fontSize(8)
+      .text(`${Math.round(max)}`, PAGE_MARGIN, top - 4, {
+        width: axisWidth - 6,
+        align: "right",
+      })
+      .text("0", PAGE_MARGIN, baseline - 4, {
+        width: axisWidth - 6,
+        align: "right",
+      });
+
+    const labelEvery = Math.ceil(days.length / 10);
+    days.forEach((day, index) => {
+      const x = chartX + index * slot + (slot - barWidth) / 2;
+      const height = (value(day) / max) * chartHeight;
+      if (height > 0) {
+        doc.rect(x, baseline - height, barWidth, height).fill(color(day));
+      }
+
+      const goalY = baseline - (goal(day) / max) * chartHeight;
+      doc
+        .moveTo(x - 1, goalY)
+        .lineTo(x + barWidth + 1, goalY)
+        .strokeColor(COLORS.text)
+        .lineWidth(1)
+        .stroke();
+
+      if (index % labelEvery === 0) {
+        doc
+          .fillColor(COLORS.muted)
+          .fontSize(7)
+          .text(day.date.slice(5), x - 8, baseline + 4, {
+            width: barWidth + 16,
+            align: "center",
+          });
+      }
+    });
+
+    doc.x = PAGE_MARGIN;
+    doc.y = baseline + 20;
+  }
+
+  /**
+   * One row per day: actual vs. goal for each tracked nutrient
+   */
+  private static renderAdherenceTable(doc: Doc, data: NutritionReportData) {
+    this.sectionTitle(doc, "Goal adherence by day");
+
+    const columns: { title: string; width: number }[] = [
+      { title: "Date", width: 70 },
+      { title: "Meals", width: 40 },
+      { title: "Calories", width: 85 },
+      { title: "Protein", width: 70 },
+      { title: "Carbs", width: 60 },
+      { title: "Fats", width: 55 },
+      { title: "Water (ml)", width: 70 },
+      { title: "On target", width: 45 },
+    ];
+    const rowHeight = 18;
+    const bottom = doc.page.height - PAGE_MARGIN - 20;
+
+    const drawHeader = () => {
+      let x = PAGE_MARGIN;
+      const y = doc.y;
+      doc
+        .rect(PAGE_MARGIN, y, doc.page.width - PAGE_MARGIN * 2, rowHeight)
+        .fill(COLORS.primaryDark);
+      doc.fillColor("#FFFFFF").fontSize(8).font("Helvetica-Bold");
+      for (const column of columns) {
+        doc.text(column.title, x + 4, y + 5, { width: column.width - 8 });
+        x += column.width;
+      }
+      doc.font("Helvetica");
+      doc.y = y + rowHeight;
+    };
+
+    drawHeader();
+
+    data.days.forEach((day, index) => {
+      if (doc.y + rowHeight > bottom) {
+        doc.addPage();
+        drawHeader();
+      }
+
+      const y = doc.y;
+      if (index % 2 === 1) {
+        doc
+          .rect(PAGE_MARGIN, y, doc.page.width - PAGE_MARGIN * 2, rowHeight)
+          .fill(COLORS.surface);
+      }
+
+      const cells: [string, boolean | null][] = [
+        [day.date, null],
+        [`${day.meal_count}`, null],
+        [
+          `${Math.round(day.calories)} / ${Math.round(day.goal.calories)}`,
+          day.calories_met,
+        ],
+        [
+          `${Math.round(day.protein_g)} / ${Math.round(day.goal.protein_g)}`,
+          day.protein_met,
+        ],
+        [`${Math.round(day.carbs_g)} / ${Math.round(day.goal.carbs_g)}`, null],
+        [`${Math.round(day.fats_g)} / ${Math.round(day.goal.fats_g)}`, null],
+        [
+          `${Math.round(day.water_ml)} / ${Math.round(day.goal.water_ml)}`,
+          day.water_met,
+        ],
+        [day.on_target ? "Yes" : "No", day.on_target],
+      ];
+
+      let x = PAGE_MARGIN;
+      cells.forEach(([text, met], cellIndex) => {
+        const color =
+          met === null || day.meal_count === 0
+            ? COLORS.text
+            : met
+            ? COLORS.primaryDark
+            : COLORS.miss;
+        doc
+          .fillColor(color)
+          .fontSize(8)
+          .text(text, x + 4, y + 5, { width: columns[cellIndex].width - 8 });
+        x += columns[cellIndex].width;
+      });
+
+      doc.y = y + rowHeight;
+    });
+
+    doc.x = PAGE_MARGIN;
+    doc
+      .moveDown(0.5)
+      .fillColor(COLORS.muted)
+      .fontSize(8)
+      .text(
+        "Calories count as met within 80-110% of the daily goal, protein at 90% or more, water at 100% or more. A day is on target when calories and water are both met."
+      );
+  }
+
+  private static renderStreakSummary(doc: Doc, data: NutritionReportData) {
+    if (doc.y + 140 > doc.page.height - PAGE_MARGIN) {
+      doc.addPage();
+    } else {
+      doc.moveDown(1.5);
+    }
+
+    this.sectionTitle(doc, "Streaks");
+    const adherenceRate =
+      data.days.length > 0
+        ? Math.round((data.streaks.on_target_days / data.days.length) * 100)
+        : 0;
+    this.renderMetricGrid(doc, [
+      ["Current streak", `${data.streaks.current} days`],
+      ["Best streak (all time)", `${data.streaks.best} days`],
+      ["Longest in period", `${data.streaks.longest_in_period} days`],
+      ["On-target days", `${data.streaks.on_target_days}`],
+      ["Adherence rate", `${adherenceRate}%`],
+      ["Days logged", `${data.streaks.logged_days}`],
+    ]);
+  }
+
+  private static renderPageFooters(doc: Doc, data: NutritionReportData) {
+    const range = doc.bufferedPageRange();
+    for (let i = range.start; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+      const bottomMargin = doc.page.margins.bottom;
+      // Writing inside the bottom margin would otherwise trigger a new page
+      doc.page.margins.bottom = 0;
+      doc
+        .fillColor(COLORS.muted)
+        .fontSize(8)
+        .text(
+          `${data.start_date} - ${data.end_date}  |  Page ${
+            i - range.start + 1
+          } of ${range.count}`,
+          PAGE_MARGIN,
+          doc.page.height - 35,
+          { width: doc.page.width - PAGE_MARGIN * 2, align: "center" }
+        );
+      doc.page.margins.bottom = bottomMargin;
+    }
+  }
+
+  private static sectionTitle(doc: Doc, title: string) {
+    doc
+      .fillColor(COLORS.primaryDark)
+      .fontSize(14)
+      .font("Helvetica-Bold")
+      .text(title, PAGE_MARGIN, doc.y);
+    doc.font("Helvetica").moveDown(0.5);
+  }
+
+  private static emptyNote(doc: Doc, message: string) {
+    doc.fillColor(COLORS.muted).fontSize(10).text(message, PAGE_MARGIN);
+    doc.moveDown(1);
+  }
+}
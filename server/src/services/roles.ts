@@ -0,0 +1,154 @@
+import { Prisma, StaffRole } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { getPermissions } from "../config/roles";
+import { SessionContext } from "../types/auth";
+import { RoleError } from "../types/roles";
+import { SecurityEventService } from "./securityEvents";
+
+const staffSelect = {
+  user_id: true,
+  email: true,
+  name: true,
+  totp_enabled: true,
+  roles: {
+    select: { role: true, granted_by: true, granted_at: true },
+    orderBy: { granted_at: "asc" },
+  },
+} satisfies Prisma.UserSelect;
+
+type StaffMember = Prisma.UserGetPayload<{ select: typeof staffSelect }>;
+
+function withPermissions(user: StaffMember) {
+  return {
+    ...user,
+    permissions: getPermissions(user.roles.map(({ role }) => role)),
+  };
+}
+
+/**
+ * Staff role grants. Every grant and revoke is written to the security audit
+ * log in the same transaction, so a role can't change without a record of
+ * who changed it.
+ */
+export class RoleService {
+  static async listStaff() {
+    const staff = await prisma.user.findMany({
+      where: { roles: { some: {} } },
+      orderBy: { email: "asc" },
+      select: staffSelect,
+    });
+    return staff.map(withPermissions);
+  }
+
+  static async getRoles(userId: string) {
+    const user = await prisma.user.findUnique({
+      where: { user_id: userId },
+      select: staffSelect,
+    });
+    if (!user) {
+      throw new RoleError("User not found", 404);
+    }
+    return withPermissions(user);
+  }
+
+  static async grant(
+    userId: string,
+    role: StaffRole,
+    actorId: string,
+    context: SessionContext
+  ) {
+    // Nobody can raise their own access
+    if (userId === actorId) {
+      throw new RoleError("You can't change your own roles", 403);
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const user = await tx.user.findUnique({
+        where: { user_id: userId },
+        select: { email: true, roles: { select: { role: true } } },
+      });
+      if (!user) {
+        throw new RoleError("User not found", 404);
+      }
+      if (user.roles.some((existing) => existing.role === role)) return;
+
+      await tx.userRole.create({
+        data: { user_id: userId, role, granted_by: actorId },
+      });
+      await SecurityEventService.record(
+        {
+          type: "ADMIN_ROLE_CHANGED",
+          user_id: userId,
+          email: user.email,
+          actor_id: actorId,
+          context,
+          metadata: {
+            action: "grant",
+            role,
+            roles: [...user.roles.map((existing) => existing.role), role],
+          },
+        },
+        tx
+      );
+      console.log(`🛡️ ${role} granted to ${user.email} by ${actorId}`);
+    });
+
+    return this.getRoles(userId);
+  }
+
+  static async revoke(
+    userId: string,
+    role: StaffRole,
+    actorId: string,
+    context: SessionContext
+  ) {
+    // Also keeps the last super admin from locking everyone out
+    if (userId === actorId) {
+      throw new RoleError("You can't change your own roles", 403);
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const user = await tx.user.findUnique({
+        where: { user_id: userId },
+        select: { email: true, roles: { select: { role: true } } },
+      });
+      if (!user) {
+        throw new RoleError("User not found", 404);
+      }
+      if (!user.roles.some((existing) => existing.role === role)) return;
+
+      if (role === "SUPER_ADMIN") {
+        const superAdmins = await tx.userRole.count({
+          where: { role: "SUPER_ADMIN" },
+        });
+        if (superAdmins <= 1) {
+          throw new RoleError("Can't remove the last super admin", 409);
+        }
+      }
+
+      await tx.userRole.delete({
+        where: { user_id_role: { user_id: userId, role } },
+      });
+      await SecurityEventService.record(
+        {
+          type: "ADMIN_ROLE_CHANGED",
+          user_id: userId,
+          email: user.email,
+          actor_id: actorId,
+          context,
+          metadata: {
+            action: "revoke",
+            role,
+            roles: user.roles
+              .map((existing) => existing.role)
+              .filter((existing) => existing !== role),
+          },
+        },
+        tx
+      );
+      console.log(`🛡️ ${role} revoked from ${user.email} by ${actorId}`);
+    });
+
+    return this.getRoles(userId);
+  }
+}
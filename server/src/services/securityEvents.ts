@@ -0,0 +1,276 @@
+import { Prisma, SecurityEventType } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { SessionContext } from "../types/auth";
+import {
+  SecurityEventInput,
+  SecurityEventQuery,
+  ThrottleAction,
+} from "../types/security";
+import { LoginThrottleService } from "./loginThrottle";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Sign-ins from an IP or app seen within this period count as a known device
+const KNOWN_DEVICE_DAYS = 90;
+// A sign-in shortly after the account was locked out is worth a heads-up
+const RECENT_LOCKOUT_MS = DAY_MS;
+
+const SIGN_IN_TYPES: SecurityEventType[] = ["SIGN_IN", "SUSPICIOUS_SIGN_IN"];
+
+function truncate(value: string | null | undefined, length: number) {
+  return value ? value.substring(0, length) : null;
+}
+
+// The user agent and device name come from the client
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function describeDevice(context: SessionContext) {
+  return (
+    [context.device_name, context.platform].filter(Boolean).join(", ") ||
+    truncate(context.user_agent, 120) ||
+    "Unknown device"
+  );
+}
+
+async function sendSignInAlert(
+  user: { email: string; name: string | null },
+  context: SessionContext,
+  signedInAt: Date
+) {
+  const device = describeDevice(context);
+  const location = context.ip_address || "unknown";
+  const name = user.name || "there";
+
+  if (!process.env.EMAIL_USER || !process.env.EMAIL_PASSWORD) {
+    console.log(`📧 Sign-in alert for ${user.email}: ${device} (${location})`);
+    return;
+  }
+
+  const nodemailer = require("nodemailer");
+  const transporter = nodemailer.createTransport({
+    host: "smtp.gmail.com",
+    port: 587,
+    secure: false,
+    auth: {
+      user: process.env.EMAIL_USER,
+      pass: process.env.EMAIL_PASSWORD,
+    },
+  });
+
+  await transporter.sendMail({
+    from: `"Calo Fitness & Diet" <${process.env.EMAIL_USER}>`,
+    to: user.email,
+    subject: "New sign-in to your Calo account",
+    text: [
+      `Hi ${name},`,
+      "",
+      "Your Calo account was just signed in to from a device we haven't seen before.",
+      "",
+      `Time: ${signedInAt.toUTCString()}`,
+      `Device: ${device}`,
+      `IP address: ${location}`,
+      "",
+      "If this was you, there's nothing to do.",
+      "If it wasn't, reset your password right away and sign out of all other devices from Profile > Sessions in the app.",
+    ].join("\n"),
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 560px; margin: 0 auto; color: #2C3E50;">
+        <h2 style="color: #16A085;">New sign-in to your Calo account</h2>
+        <p>Hi ${escapeHtml(name)},</p>
+        <p>Your Calo account was just signed in to from a device we haven't seen before.</p>
+        <table style="border-collapse: collapse; margin: 16px 0;">
+          <tr><td style="padding: 4px 12px 4px 0; color: #7F8C8D;">Time</td><td>${signedInAt.toUTCString()}</td></tr>
+          <tr><td style="padding: 4px 12px 4px 0; color: #7F8C8D;">Device</td><td>${escapeHtml(device)}</td></tr>
+          <tr><td style="padding: 4px 12px 4px 0; color: #7F8C8D;">IP address</td><td>${escapeHtml(location)}</td></tr>
+        </table>
+        <p>If this was you, there's nothing to do.</p>
+        <p><strong>If it wasn't</strong>, reset your password right away and sign out of all other devices from Profile &gt; Sessions in the app.</p>
+      </div>
+    `,
+  });
+  console.log(`📧 Sign-in alert sent to ${user.email}`);
+}
+
+/**
+ * Persisted audit log of security-relevant events (sign-ins, lockouts,
+ * password resets, role and subscription changes), and the email alert on
+ * suspicious sign-ins
+ */
+export class SecurityEventService {
+  /**
+   * Write an event. Failing to log never fails the action being logged.
+   */
+  static async record(
+    event: SecurityEventInput,
+    db: Prisma.TransactionClient = prisma
+  ) {
+    try {
+      await db.securityEvent.create({
+        data: {
+          type: event.type,
+          user_id: event.user_id ?? null,
+          email: truncate(event.email, 320),
+          actor_id: event.actor_id ?? null,
+          ip_address: truncate(event.context?.ip_address, 64),
+          user_agent: truncate(event.context?.user_agent, 300),
+          metadata: event.metadata as Prisma.InputJsonValue | undefined,
+        },
+      });
+    } catch (error) {
+      console.error(`💥 Failed to record ${event.type} security event:`, error);
+    }
+  }
+
+  /**
+   * Log a failed attempt and count it towards lockouts, logging any lockout
+   * it triggers
+   */
+  static async recordFailedAttempt(
+    action: ThrottleAction,
+    subject: { email?: string; ip_address?: string },
+    event: SecurityEventInput
+  ) {
+    await this.record(event);
+    const lockouts = await LoginThrottleService.recordFailure(action, subject);
+    for (const lockout of lockouts) {
+      await this.record({
+        type: "ACCOUNT_LOCKED",
+        // An IP lockout isn't about the account being tried
+        user_id: lockout.scope === "account" ? event.user_id : null,
+        email: lockout.scope === "account" ? event.email : null,
+        context: event.context,
+        metadata: {
+          action,
+          scope: lockout.scope,
+          locked_until: lockout.locked_until.toISOString(),
+          lockouts: lockout.lockouts,
+        },
+      });
+    }
+    return lockouts;
+  }
+
+  /**
+   * Log a completed sign-in. A sign-in from an IP address and app that the
+   * account hasn't used before, or right after the account was locked out,
+   * is flagged and the owner gets an email about it.
+   */
+  static async recordSignIn(
+    user: { user_id: string; email: string; name?: string | null },
+    context: SessionContext,
+    method: string
+  ) {
+    const now = new Date();
+    const [history, recentLockout] = await Promise.all([
+      prisma.securityEvent.findMany({
+        where: {
+          user_id: user.user_id,
+          type: { in: SIGN_IN_TYPES },
+          created_at: {
+            gte: new Date(now.getTime() - KNOWN_DEVICE_DAYS * DAY_MS),
+          },
+        },
+        orderBy: { created_at: "desc" },
+        take: 100,
+        select: { ip_address: true, user_agent: true },
+      }),
+      prisma.securityEvent.findFirst({
+        where: {
+          user_id: user.user_id,
+          type: "ACCOUNT_LOCKED",
+          created_at: { gte: new Date(now.getTime() - RECENT_LOCKOUT_MS) },
+        },
+        select: { event_id: true },
+      }),
+    ]);
+
+    const ipAddress = truncate(context.ip_address, 64);
+    const userAgent = truncate(context.user_agent, 300);
+    const reasons: string[] = [];
+    // The first sign-in has nothing to compare with
+    if (
+      history.length > 0 &&
+      !history.some(
+        (event) =>
+          (ipAddress && event.ip_address === ipAddress) ||
+          (userAgent && event.user_agent === userAgent)
+      )
+    ) {
+      reasons.push("new_device");
+    }
+    if (recentLockout) {
+      reasons.push("after_lockout");
+    }
+
+    const suspicious = reasons.length > 0;
+    await this.record({
+      type: suspicious ? "SUSPICIOUS_SIGN_IN" : "SIGN_IN",
+      user_id: user.user_id,
+      email: user.email,
+      context,
+      metadata: {
+        method,
+        device_name: context.device_name,
+        platform: context.platform,
+        ...(suspicious && { reasons }),
+      },
+    });
+
+    if (suspicious) {
+      console.warn(
+        `⚠️ Suspicious sign-in for ${user.email}: ${reasons.join(", ")}`
+      );
+      // Don't hold up the sign-in for the email
+      sendSignInAlert(
+        { email: user.email, name: user.name ?? null },
+        context,
+        now
+      ).catch((error) =>
+        console.error(
+          `💥 Failed to send sign-in alert to ${user.email}:`,
+          error
+        )
+      );
+    }
+  }
+
+  /**
+   * Newest events first, filtered for the admin panel
+   */
+  static async list(query: SecurityEventQuery) {
+    const where: Prisma.SecurityEventWhereInput = {
+      ...(query.type && { type: query.type }),
+      ...(query.user_id && { user_id: query.user_id }),
+      ...(query.email && {
+        email: { contains: query.email, mode: "insensitive" },
+      }),
+      ...(query.ip_address && { ip_address: query.ip_address }),
+      ...((query.from || query.to) && {
+        created_at: {
+          ...(query.from && { gte: query.from }),
+          ...(query.to && { lte: query.to }),
+        },
+      }),
+    };
+
+    const events = await prisma.securityEvent.findMany({
+      where,
+      orderBy: [{ created_at: "desc" }, { event_id: "desc" }],
+      take: query.limit + 1,
+      ...(query.cursor && { cursor: { event_id: query.cursor }, skip: 1 }),
+      include: { user: { select: { name: true, email: true } } },
+    });
+
+    const hasMore = events.length > query.limit;
+    const page = hasMore ? events.slice(0, query.limit) : events;
+    return {
+      events: page,
+      next_cursor: hasMore ? page[page.length - 1].event_id : null,
+    };
+  }
+}
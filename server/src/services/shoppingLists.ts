@@ -0,0 +1,590 @@
+import {
+  Prisma,
+  ShoppingList,
+  ShoppingListEventType,
+  ShoppingListItem,
+} from "@prisma/client";
+import { prisma } from "../lib/database";
+import { IngredientService } from "./ingredients";
+import { PantryService } from "./pantry";
+import {
+  AddShoppingItemsOptions,
+  AggregatedIngredient,
+  ShoppingItem,
+  ShoppingItemInput,
+  ShoppingItemUpdate,
+  ShoppingListError,
+  ShoppingListUser,
+} from "../types/shoppingLists";
+
+const DEFAULT_LIST_NAME = "Shopping list";
+const MAX_CHANGES = 100;
+// Pollers more than this far behind reload the list instead
+const EVENT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const userSelect = { user_id: true, name: true } satisfies Prisma.UserSelect;
+
+const itemInclude = {
+  addedBy: { select: userSelect },
+  purchasedBy: { select: userSelect },
+} satisfies Prisma.ShoppingListItemInclude;
+
+type AttributedItem = Prisma.ShoppingListItemGetPayload<{
+  include: typeof itemInclude;
+}>;
+
+function metadataOf(row: ShoppingListItem): Record<string, unknown> {
+  return row.metadata &&
+    typeof row.metadata === "object" &&
+    !Array.isArray(row.metadata)
+    ? (row.metadata as Record<string, unknown>)
+    : {};
+}
+
+function itemMetadata(item: ShoppingItem) {
+  return {
+    ingredient_key: item.key,
+    needed: item.needed,
+    packs: item.packs,
+    pack_size: item.pack_size,
+  };
+}
+
+function accessibleBy(userId: string): Prisma.ShoppingListWhereInput {
+  return {
+    OR: [{ owner_id: userId }, { members: { some: { user_id: userId } } }],
+  };
+}
+
+// What change events keep of an item
+function itemSnapshot(item: ShoppingListItem) {
+  return {
+    name: item.name,
+    quantity: item.quantity,
+    unit: item.unit,
+    is_purchased: item.is_purchased,
+  };
+}
+
+/**
+ * Named shopping lists, shared with other users as members. Owners and
+ * members can add, edit and check off items; only the owner renames, deletes
+ * or shares the list. Every change is recorded as an event so members can
+ * poll for what changed since they last looked.
+ *
+ * Items are normalized when added, and an item already on the list (and not
+ * yet bought) is topped up in its own unit instead of getting a second row.
+ */
+export class ShoppingListService {
+  static toView(item: AttributedItem) {
+    const metadata = metadataOf(item);
+    return {
+      id: item.id,
+      list_id: item.list_id,
+      name: item.name,
+      quantity: item.quantity,
+      unit: item.unit,
+      category: item.category,
+      is_purchased: item.is_purchased,
+      added_from: item.added_from,
+      estimated_cost: item.estimated_cost,
+      created_at: item.created_at,
+      updated_at: item.updated_at,
+      barcode:
+        typeof metadata.barcode === "string" ? metadata.barcode : undefined,
+      added_by: item.addedBy as ShoppingListUser | null,
+      purchased_by: item.purchasedBy as ShoppingListUser | null,
+      purchased_at: item.purchased_at,
+    };
+  }
+
+  static async getDefaultList(userId: string): Promise<ShoppingList> {
+    const existing = await prisma.shoppingList.findFirst({
+      where: { owner_id: userId, is_default: true },
+    });
+    if (existing) return existing;
+
+    try {
+      return await prisma.shoppingList.create({
+        data: { owner_id: userId, name: DEFAULT_LIST_NAME, is_default: true },
+      });
+    } catch (error) {
+      // Another request created it first
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        return prisma.shoppingList.findFirstOrThrow({
+          where: { owner_id: userId, is_default: true },
+        });
+      }
+      throw error;
+    }
+  }
+
+  static async getList(
+    userId: string,
+    listId: string,
+    { ownerOnly = false } = {}
+  ): Promise<ShoppingList> {
+    const list = await prisma.shoppingList.findFirst({
+      where: { list_id: listId, ...accessibleBy(userId) },
+    });
+    if (!list) {
+      throw new ShoppingListError("Shopping list not found", 404);
+    }
+    if (ownerOnly && list.owner_id !== userId) {
+      throw new ShoppingListError(
+        "Only the list owner can change this list",
+        403
+      );
+    }
+    return list;
+  }
+
+  // The given list if the user can use it, otherwise their default list
+  static resolveList(userId: string, listId?: string) {
+    return listId ? this.getList(userId, listId) : this.getDefaultList(userId);
+  }
+
+  static async getLists(userId: string) {
+    await this.getDefaultList(userId);
+
+    const lists = await prisma.shoppingList.findMany({
+      where: accessibleBy(userId),
+      include: {
+        owner: { select: userSelect },
+        members: {
+          include: { user: { select: userSelect } },
+          orderBy: { created_at: "asc" },
+        },
+        _count: { select: { items: { where: { is_purchased: false } } } },
+      },
+      orderBy: [{ is_default: "desc" }, { created_at: "asc" }],
+    });
+
+    return lists.map((list) => ({
+      list_id: list.list_id,
+      name: list.name,
+      is_default: list.is_default && list.owner_id === userId,
+      is_owner: list.owner_id === userId,
+      owner: list.owner as ShoppingListUser,
+      members: list.members.map(({ user }) => user as ShoppingListUser),
+      pending_items: list._count.items,
+      created_at: list.created_at,
+      updated_at: list.updated_at,
+    }));
+  }
+
+  static createList(userId: string, name: string) {
+    return prisma.shoppingList.create({ data: { owner_id: userId, name } });
+  }
+
+  static async renameList(userId: string, listId: string, name: string) {
+    await this.getList(userId, listId, { ownerOnly: true });
+
+    const list = await prisma.shoppingList.update({
+      where: { list_id: listId },
+      data: { name },
+    });
+    await this.recordEvent(listId, userId, "LIST_UPDATED", { data: { name } });
+    return list;
+  }
+
+  static async deleteList(userId: string, listId: string) {
+    const list = await this.getList(userId, listId, { ownerOnly: true });
+    if (list.is_default) {
+      throw new ShoppingListError("The default list can't be deleted");
+    }
+
+    // Items and events go with the list
+    await prisma.shoppingList.delete({ where: { list_id: listId } });
+  }
+
+  static async addMember(userId: string, listId: string, email: string) {
+    const list = await this.getList(userId, listId, { ownerOnly: true });
+
+    const member = await prisma.user.findFirst({
+      where: { email: { equals: email, mode: "insensitive" } },
+      select: userSelect,
+    });
+    if (!member) {
+      throw new ShoppingListError("No user found with that email", 404);
+    }
+    if (member.user_id === list.owner_id) {
+      throw new ShoppingListError("The owner is already on this list");
+    }
+
+    try {
+      await prisma.shoppingListMember.create({
+        data: { list_id: listId, user_id: member.user_id, added_by: userId },
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        throw new ShoppingListError("This user is already a member", 409);
+      }
+      throw error;
+    }
+
+    await this.recordEvent(listId, userId, "MEMBER_ADDED", { data: member });
+    return member as ShoppingListUser;
+  }
+
+  // The owner can remove anyone; members can only remove themselves
+  static async removeMember(userId: string, listId: string, memberId: string) {
+    const list = await this.getList(userId, listId);
+    if (list.owner_id !== userId && memberId !== userId) {
+      throw new ShoppingListError(
+        "Only the list owner can remove other members",
+        403
+      );
+    }
+
+    const removed = await prisma.shoppingListMember.deleteMany({
+      where: { list_id: listId, user_id: memberId },
+    });
+    if (removed.count === 0) {
+      throw new ShoppingListError("Member not found", 404);
+    }
+
+    await this.recordEvent(listId, userId, "MEMBER_REMOVED", {
+      data: { user_id: memberId },
+    });
+  }
+
+  static async getItems(userId: string, listId?: string) {
+    const list = await this.resolveList(userId, listId);
+    const items = await prisma.shoppingListItem.findMany({
+      where: { list_id: list.list_id },
+      include: itemInclude,
+      orderBy: [{ is_purchased: "asc" }, { created_at: "desc" }],
+    });
+    return { list, items: items.map((item) => this.toView(item)) };
+  }
+
+  static async addItems(
+    userId: string,
+    items: ShoppingItemInput[],
+    options: AddShoppingItemsOptions = {}
+  ): Promise<{ added: AttributedItem[]; updated: AttributedItem[] }> {
+    const list = await this.resolveList(userId, options.listId);
+    const added: AttributedItem[] = [];
+    const updated: AttributedItem[] = [];
+
+    for (const ingredient of IngredientService.combine(items)) {
+      const source = items.find(
+        (item) => IngredientService.keyFor(item.name) === ingredient.key
+      );
+
+      const merged = await this.mergeIntoExisting(list.list_id, ingredient);
+      if (merged) {
+        updated.push(merged);
+        await this.recordEvent(list.list_id, userId, "ITEM_UPDATED", {
+          item: merged,
+        });
+        continue;
+      }
+
+      const item = IngredientService.toShoppingItem(ingredient);
+      const created = await prisma.shoppingListItem.create({
+        data: {
+          user_id: list.owner_id,
+          list_id: list.list_id,
+          added_by: userId,
+          plan_id: options.planId,
+          name: item.name,
+          quantity: item.quantity,
+          unit: item.unit,
+          category: item.category,
+          added_from: source?.added_from || options.addedFrom || "manual",
+          estimated_cost: item.estimated_cost,
+          metadata: {
+            ...itemMetadata(item),
+            ...(source?.barcode && { barcode: source.barcode }),
+          },
+        },
+        include: itemInclude,
+      });
+      added.push(created);
+      await this.recordEvent(list.list_id, userId, "ITEM_ADDED", {
+        item: created,
+      });
+    }
+
+    return { added, updated };
+  }
+
+  static async getItem(userId: string, itemId: string) {
+    const item = await prisma.shoppingListItem.findFirst({
+      where: { id: itemId, list: accessibleBy(userId) },
+    });
+    if (!item) {
+      throw new ShoppingListError("Item not found or access denied", 404);
+    }
+    // Only items on a list match the filter above
+    return item as ShoppingListItem & { list_id: string };
+  }
+
+  static async updateItem(
+    userId: string,
+    itemId: string,
+    changes: ShoppingItemUpdate
+  ) {
+    const existing = await this.getItem(userId, itemId);
+    const { barcode, ...fields } = changes;
+
+    let metadata: Prisma.InputJsonObject | undefined;
+    if (barcode !== undefined) {
+      const next: Record<string, unknown> = {
+        ...metadataOf(existing),
+        barcode,
+      };
+      if (barcode === null) delete next.barcode;
+      metadata = next as Prisma.InputJsonObject;
+    }
+
+    const item = await prisma.shoppingListItem.update({
+      where: { id: itemId },
+      data: { ...fields, metadata },
+      include: itemInclude,
+    });
+    await this.recordEvent(existing.list_id, userId, "ITEM_UPDATED", {
+      item,
+    });
+    return item;
+  }
+
+  // Checking an item off records who bought it; unchecking clears that
+  static async toggleItem(userId: string, itemId: string) {
+    const existing = await this.getItem(userId, itemId);
+    const purchased = !existing.is_purchased;
+
+    const item = await prisma.shoppingListItem.update({
+      where: { id: itemId },
+      data: {
+        is_purchased: purchased,
+        purchased_by: purchased ? userId : null,
+        purchased_at: purchased ? new Date() : null,
+        metadata: await this.syncPantry(userId, existing, purchased),
+      },
+      include: itemInclude,
+    });
+    await this.recordEvent(existing.list_id, userId, "ITEM_UPDATED", {
+      item,
+    });
+    return item;
+  }
+
+  /**
+   * Bought items go into the buyer's pantry, and come back out if they are
+   * unchecked. Returns the item's metadata with the pantry batch noted.
+   */
+  private static async syncPantry(
+    userId: string,
+    item: ShoppingListItem,
+    purchased: boolean
+  ): Promise<Prisma.InputJsonObject> {
+    const metadata: Record<string, unknown> = { ...metadataOf(item) };
+
+    try {
+      if (purchased) {
+        const stocked = await PantryService.addFromShoppingItem(userId, item);
+        if (stocked) {
+          metadata.pantry_item_id = stocked.item_id;
+          metadata.pantry_quantity = stocked.quantity;
+        }
+      } else if (
+        typeof metadata.pantry_item_id === "string" &&
+        typeof metadata.pantry_quantity === "number"
+      ) {
+        await PantryService.removeStock(
+          metadata.pantry_item_id,
+          metadata.pantry_quantity
+        );
+        delete metadata.pantry_item_id;
+        delete metadata.pantry_quantity;
+      }
+    } catch (error) {
+      console.error("⚠️ Failed to update pantry for shopping item:", error);
+    }
+
+    return metadata as Prisma.InputJsonObject;
+  }
+
+  static async removeItem(userId: string, itemId: string) {
+    const item = await this.getItem(userId, itemId);
+    await prisma.shoppingListItem.delete({ where: { id: itemId } });
+    await this.recordEvent(item.list_id, userId, "ITEM_REMOVED", { item });
+  }
+
+  static async clearPurchased(userId: string, listId?: string) {
+    const list = await this.resolveList(userId, listId);
+    const purchased = await prisma.shoppingListItem.findMany({
+      where: { list_id: list.list_id, is_purchased: true },
+    });
+    if (purchased.length === 0) return 0;
+
+    await prisma.$transaction([
+      prisma.shoppingListItem.deleteMany({
+        where: { id: { in: purchased.map((item) => item.id) } },
+      }),
+      prisma.shoppingListEvent.createMany({
+        data: purchased.map((item) => ({
+          list_id: list.list_id,
+          item_id: item.id,
+          actor_id: userId,
+          type: ShoppingListEventType.ITEM_REMOVED,
+          data: itemSnapshot(item),
+        })),
+      }),
+    ]);
+    return purchased.length;
+  }
+
+  /**
+   * Changes to a list after `since`, oldest first, with the cursor to pass
+   * on the next poll. Without `since` there is nothing to catch up on, so
+   * only the cursor is returned.
+   */
+  static async getChanges(userId: string, listId: string, since?: string) {
+    await this.getList(userId, listId);
+
+    if (!since) {
+      return { events: [], cursor: new Date().toISOString(), has_more: false };
+    }
+
+    const events = await prisma.shoppingListEvent.findMany({
+      where: { list_id: listId, created_at: { gt: new Date(since) } },
+      orderBy: { created_at: "asc" },
+      take: MAX_CHANGES + 1,
+    });
+    const page = events.slice(0, MAX_CHANGES);
+
+    const actorIds = [
+      ...new Set(page.map((event) => event.actor_id).filter(Boolean)),
+    ] as string[];
+    const actors = new Map(
+      (
+        await prisma.user.findMany({
+          where: { user_id: { in: actorIds } },
+          select: userSelect,
+        })
+      ).map((actor) => [actor.user_id, actor])
+    );
+
+    return {
+      events: page.map((event) => ({
+        event_id: event.event_id,
+        type: event.type,
+        item_id: event.item_id,
+        actor: event.actor_id ? (actors.get(event.actor_id) ?? null) : null,
+        data: event.data,
+        created_at: event.created_at,
+      })),
+      cursor: page.length
+        ? page[page.length - 1].created_at.toISOString()
+        : since,
+      has_more: events.length > MAX_CHANGES,
+    };
+  }
+
+  /**
+   * Drop change events no poller still needs
+   */
+  static async pruneEvents(): Promise<number> {
+    const result = await prisma.shoppingListEvent.deleteMany({
+      where: { created_at: { lt: new Date(Date.now() - EVENT_RETENTION_MS) } },
+    });
+    return result.count;
+  }
+
+  private static async recordEvent(
+    listId: string,
+    actorId: string,
+    type: ShoppingListEventType,
+    { item, data }: { item?: ShoppingListItem; data?: Prisma.InputJsonObject }
+  ) {
+    await prisma.shoppingListEvent.create({
+      data: {
+        list_id: listId,
+        item_id: item?.id,
+        actor_id: actorId,
+        type,
+        data: item ? itemSnapshot(item) : data,
+      },
+    });
+  }
+
+  /**
+   * Returns null when the list has no open row for the ingredient, or the
+   * row's unit can't take the new quantity
+   */
+  private static async mergeIntoExisting(
+    listId: string,
+    ingredient: AggregatedIngredient
+  ): Promise<AttributedItem | null> {
+    const existing = await prisma.shoppingListItem.findFirst({
+      where: {
+        list_id: listId,
+        is_purchased: false,
+        OR: [
+          { metadata: { path: ["ingredient_key"], equals: ingredient.key } },
+          { name: { equals: ingredient.name, mode: "insensitive" } },
+        ],
+      },
+      orderBy: { created_at: "asc" },
+    });
+    if (!existing) return null;
+
+    const definition = IngredientService.lookup(ingredient.key);
+    const unit = IngredientService.parseUnit(existing.unit);
+    const quantity = IngredientService.convert(
+      ingredient.quantity,
+      ingredient.unit,
+      unit.base,
+      definition
+    );
+    if (quantity === null) return null;
+
+    const metadata = metadataOf(existing);
+    // Round from what was needed, not from the already rounded quantity
+    const needed =
+      typeof metadata.needed === "number"
+        ? metadata.needed
+        : existing.quantity * unit.factor;
+    const costs = [existing.estimated_cost, ingredient.estimated_cost].filter(
+      (cost): cost is number => cost != null
+    );
+    const category = IngredientService.normalizeCategory(
+      existing.category,
+      definition
+    );
+
+    const item = IngredientService.toShoppingItem({
+      ...ingredient,
+      name: existing.name,
+      quantity: needed + quantity,
+      unit: unit.base,
+      category: category === "Other" ? ingredient.category : category,
+      estimated_cost: costs.length ? costs.reduce((a, b) => a + b) : null,
+    });
+
+    return prisma.shoppingListItem.update({
+      where: { id: existing.id },
+      data: {
+        quantity: item.quantity,
+        unit: item.unit,
+        category: item.category,
+        estimated_cost: item.estimated_cost,
+        metadata: {
+          ...metadata,
+          ...itemMetadata(item),
+        } as Prisma.InputJsonObject,
+      },
+      include: itemInclude,
+    });
+  }
+}
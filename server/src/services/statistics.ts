@@ -1,5 +1,19 @@
 import { prisma } from "../lib/database";
 import { AchievementService } from "./achievements";
+import { GamificationService } from "./gamification";
+import {
+  DEFAULT_TIME_ZONE,
+  addDays,
+  dayKeyToDate,
+  getDayBounds,
+  getUserDay,
+  getUserTimeZone,
+} from "../utils/userDay";
+import { NutritionReportPdf } from "./reports/nutritionReportPdf";
+import {
+  NutritionReportData,
+  ReportDayAdherence,
+} from "../types/statistics";
 
 export interface Achievement {
   id: string;
@@ -112,44 +126,11 @@ export class StatisticsService {
         `📊 Getting ENHANCED statistics for user: ${userId}, period: ${period}`
       );
 
-      const now = new Date();
-      let definedStartDate: Date;
-      let definedEndDate: Date;
-
-      // Calculate date range
-      if (period === "custom" && startDate && endDate) {
-        definedStartDate = new Date(startDate);
-        definedEndDate = new Date(endDate);
-      } else {
-        switch (period) {
-          case "today":
-            definedStartDate = new Date(
-              now.getFullYear(),
-              now.getMonth(),
-              now.getDate()
-            );
-            definedEndDate = now;
-            break;
-          case "week":
-            definedEndDate = now;
-            definedStartDate = new Date(
-              now.getTime() - 7 * 24 * 60 * 60 * 1000
-            );
-            break;
-          case "month":
-            definedEndDate = now;
-            definedStartDate = new Date(
-              now.getTime() - 30 * 24 * 60 * 60 * 1000
-            );
-            break;
-          default:
-            definedEndDate = now;
-            definedStartDate = new Date(
-              now.getTime() - 7 * 24 * 60 * 60 * 1000
-            );
-            break;
-        }
-      }
+      const timeZone = await getUserTimeZone(userId);
+      const { startDate: definedStartDate, endDate: definedEndDate } =
+        this.resolveDateRange(period, startDate, endDate, timeZone);
+      // DailyGoal and WaterIntake hold plain dates rather than instants
+      const firstDay = dayKeyToDate(getUserDay(timeZone, definedStartDate));
 
       console.log(
         `📅 Date range: ${definedStartDate.toISOString()} to ${definedEndDate.toISOString()}`
@@ -209,7 +190,7 @@ export class StatisticsService {
           where: {
             user_id: userId,
             date: {
-              gte: definedStartDate,
+              gte: firstDay,
               lte: definedEndDate,
             },
           },
@@ -221,7 +202,7 @@ export class StatisticsService {
           where: {
             user_id: userId,
             date: {
-              gte: definedStartDate,
+              gte: firstDay,
               lte: definedEndDate,
             },
           },
@@ -277,7 +258,7 @@ export class StatisticsService {
         currentStreak: user.current_streak || 0,
         bestStreak: user.best_streak || 0,
         totalCompleteDays: user.total_complete_days || 0,
-        level: user.level || 1,
+        level: GamificationService.levelProgress(user.total_points || 0).level,
         totalWaterGoals: waterIntakes.filter((w) => w.cups_consumed >= 8)
           .length,
         totalCalorieGoals: 0, // Will calculate below
@@ -286,17 +267,19 @@ export class StatisticsService {
       };
 
       // Calculate daily averages
-      const averages = this.calculateAverages(meals);
+      const averages = this.calculateAverages(meals, timeZone);
 
       // Calculate streaks and wellbeing metrics
       const streakMetrics = this.calculateStreakMetrics(
         meals,
         waterIntakes,
-        userStats
+        userStats,
+        timeZone
       );
       const wellbeingMetrics = this.calculateWellbeingMetrics(
         meals,
-        waterIntakes
+        waterIntakes,
+        timeZone
       );
 
       // Get user's daily goals
@@ -340,7 +323,8 @@ export class StatisticsService {
         dailyGoals,
         waterIntakes,
         definedStartDate,
-        definedEndDate
+        definedEndDate,
+        timeZone
       );
 
       // Return period statistics for custom/specific periods
@@ -352,8 +336,8 @@ export class StatisticsService {
       ) {
         const periodStats: PeriodStatistics = {
           period_type: period,
-          start_date: definedStartDate.toISOString().split("T")[0],
-          end_date: definedEndDate.toISOString().split("T")[0],
+          start_date: getUserDay(timeZone, definedStartDate),
+          end_date: getUserDay(timeZone, definedEndDate),
           total_days: totalDays,
           goals: periodGoals,
           consumption: periodConsumption,
@@ -391,10 +375,13 @@ export class StatisticsService {
       }
 
       // Return general statistics data
+      const levelProgress = GamificationService.levelProgress(
+        user.total_points || 0
+      );
       const statisticsData: StatisticsData = {
-        level: user.level || 1,
-        currentXP: user.total_points || 0, // Use total_points as the main XP display
-        totalPoints: user.total_points || 0,
+        level: levelProgress.level,
+        currentXP: levelProgress.currentXP,
+        totalPoints: levelProgress.totalPoints,
         currentStreak: userStats.currentStreak,
         bestStreak: userStats.bestStreak,
         weeklyStreak: Math.floor(userStats.currentStreak / 7),
@@ -427,10 +414,55 @@ export class StatisticsService {
     }
   }
 
+  /**
+   * Resolve the date range covered by a statistics period
+   */
+  static resolveDateRange(
+    period: "today" | "week" | "month" | "custom",
+    startDate?: Date,
+    endDate?: Date,
+    timeZone: string = DEFAULT_TIME_ZONE
+  ): { startDate: Date; endDate: Date } {
+    const now = new Date();
+
+    // Custom dates name whole days in the user's timezone (UTC midnight of the
+    // day key, as parsed from YYYY-MM-DD), so the range covers both days fully
+    if (period === "custom" && startDate && endDate) {
+      const firstDayKey = startDate.toISOString().split("T")[0];
+      const lastDayKey = endDate.toISOString().split("T")[0];
+      return {
+        startDate: getDayBounds(timeZone, firstDayKey).start,
+        endDate: new Date(getDayBounds(timeZone, lastDayKey).end.getTime() - 1),
+      };
+    }
+
+    switch (period) {
+      case "today":
+        return {
+          startDate: getDayBounds(timeZone, getUserDay(timeZone, now)).start,
+          endDate: now,
+        };
+      case "month":
+        return {
+          startDate: new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000),
+          endDate: now,
+        };
+      case "week":
+      default:
+        return {
+          startDate: new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000),
+          endDate: now,
+        };
+    }
+  }
+
   /**
    * Calculate daily averages from meals
    */
-  private static calculateAverages(meals: any[]): {
+  private static calculateAverages(
+    meals: any[],
+    timeZone: string
+  ): {
     calories: number;
     protein: number;
     carbs: number;
@@ -456,7 +488,7 @@ export class StatisticsService {
     // Group by date to get daily averages
     const dailyTotals = new Map<string, any>();
     meals.forEach((meal) => {
-      const date = meal.created_at.toISOString().split("T")[0];
+      const date = getUserDay(timeZone, meal.created_at);
       if (!dailyTotals.has(date)) {
         dailyTotals.set(date, {
           calories: 0,
@@ -523,7 +555,8 @@ export class StatisticsService {
   private static calculateStreakMetrics(
     meals: any[],
     waterIntakes: any[],
-    userStats: UserStats
+    userStats: UserStats,
+    timeZone: string
   ): {
     currentStreak: number;
     weeklyStreak: number;
@@ -536,7 +569,7 @@ export class StatisticsService {
       // Group meals by date
       const mealsByDate = new Map<string, any[]>();
       meals.forEach((meal) => {
-        const date = meal.created_at.toISOString().split("T")[0];
+        const date = getUserDay(timeZone, meal.created_at);
         if (!mealsByDate.has(date)) {
           mealsByDate.set(date, []);
         }
@@ -602,7 +635,8 @@ export class StatisticsService {
    */
   private static calculateWellbeingMetrics(
     meals: any[],
-    waterIntakes: any[]
+    waterIntakes: any[],
+    timeZone: string
   ): {
     happyDays: number;
     highEnergyDays: number;
@@ -624,7 +658,7 @@ export class StatisticsService {
 
       // Process meals
       meals.forEach((meal) => {
-        const date = meal.created_at.toISOString().split("T")[0];
+        const date = getUserDay(timeZone, meal.created_at);
         if (!dailyData.has(date)) {
           dailyData.set(date, {
             calories: 0,
@@ -805,22 +839,26 @@ export class StatisticsService {
   }
 
   /**
-   * Calculate daily breakdown
+   * Calculate daily breakdown, one entry per local day of the user
    */
-  private static calculateDailyBreakdown(
+  static calculateDailyBreakdown(
     meals: any[],
     dailyGoals: any[],
     waterIntakes: any[],
     startDate: Date,
-    endDate: Date
+    endDate: Date,
+    timeZone: string = DEFAULT_TIME_ZONE
   ): any[] {
     const dailyBreakdown: any[] = [];
-    const currentDate = new Date(startDate);
+    const lastDay = getUserDay(timeZone, endDate);
 
-    while (currentDate <= endDate) {
-      const dateStr = currentDate.toISOString().split("T")[0];
+    for (
+      let dateStr = getUserDay(timeZone, startDate);
+      dateStr <= lastDay;
+      dateStr = addDays(dateStr, 1)
+    ) {
       const dayMeals = meals.filter(
-        (meal) => meal.created_at.toISOString().split("T")[0] === dateStr
+        (meal) => getUserDay(timeZone, meal.created_at) === dateStr
       );
 
       const dayGoal = dailyGoals.find(
@@ -863,8 +901,6 @@ export class StatisticsService {
         satiety: "satisfied",
         meal_quality: 3,
       });
-
-      currentDate.setDate(currentDate.getDate() + 1);
     }
 
     return dailyBreakdown;
@@ -1088,8 +1124,198 @@ export class StatisticsService {
   /**
    * Generate PDF report
    */
-  static async generatePDFReport(userId: string): Promise<Buffer> {
-    return Buffer.from("PDF Report Placeholder");
+  static async generatePDFReport(
+    userId: string,
+    period: "today" | "week" | "month" | "custom" = "month",
+    startDate?: Date,
+    endDate?: Date
+  ): Promise<Buffer> {
+    const reportData = await this.getReportData(
+      userId,
+      period,
+      startDate,
+      endDate
+    );
+    console.log(
+      `📄 Rendering nutrition report for user: ${userId}, ${reportData.start_date} to ${reportData.end_date}`
+    );
+    return NutritionReportPdf.render(reportData);
+  }
+
+  /**
+   * Collect per-day goal adherence, hydration and streak data for a report
+   */
+  static async getReportData(
+    userId: string,
+    period: "today" | "week" | "month" | "custom" = "month",
+    startDate?: Date,
+    endDate?: Date
+  ): Promise<NutritionReportData> {
+    const timeZone = await getUserTimeZone(userId);
+    const range = this.resolveDateRange(period, startDate, endDate, timeZone);
+    const firstDay = dayKeyToDate(getUserDay(timeZone, range.startDate));
+
+    const [user, meals, dailyGoals, waterIntakes, fallbackGoals, statistics] =
+      await Promise.all([
+        prisma.user.findUnique({
+          where: { user_id: userId },
+          select: { name: true, email: true },
+        }),
+        prisma.meal.findMany({
+          where: {
+            user_id: userId,
+            created_at: { gte: range.startDate, lte: range.endDate },
+          },
+          select: {
+            created_at: true,
+            calories: true,
+            protein_g: true,
+            carbs_g: true,
+            fats_g: true,
+            fiber_g: true,
+            sugar_g: true,
+            sodium_mg: true,
+            liquids_ml: true,
+          },
+        }),
+        prisma.dailyGoal.findMany({
+          where: {
+            user_id: userId,
+            date: { gte: firstDay, lte: range.endDate },
+          },
+        }),
+        prisma.waterIntake.findMany({
+          where: {
+            user_id: userId,
+            date: { gte: firstDay, lte: range.endDate },
+          },
+          select: {
+            date: true,
+            cups_consumed: true,
+            milliliters_consumed: true,
+          },
+        }),
+        this.getUserDailyGoals(userId),
+        this.getNutritionStatistics(userId, period, startDate, endDate),
+      ]);
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const periodStats = statistics.data as PeriodStatistics;
+    const goalsByDate = new Map(
+      dailyGoals.map((goal) => [goal.date.toISOString().split("T")[0], goal])
+    );
+    const mealCountByDate = new Map<string, number>();
+    meals.forEach((meal) => {
+      const date = getUserDay(timeZone, meal.created_at);
+      mealCountByDate.set(date, (mealCountByDate.get(date) || 0) + 1);
+    });
+
+    const breakdown = this.calculateDailyBreakdown(
+      meals,
+      dailyGoals,
+      waterIntakes,
+      range.startDate,
+      range.endDate,
+      timeZone
+    );
+
+    const days: ReportDayAdherence[] = breakdown.map((day) => {
+      const goalRow = goalsByDate.get(day.date);
+      const goal: NutritionGoals = goalRow
+        ? {
+            calories: goalRow.calories,
+            protein_g: goalRow.protein_g,
+            carbs_g: goalRow.carbs_g,
+            fats_g: goalRow.fats_g,
+            fiber_g: goalRow.fiber_g,
+            sodium_mg: goalRow.sodium_mg,
+            sugar_g: goalRow.sugar_g,
+            water_ml: goalRow.water_ml,
+          }
+        : fallbackGoals;
+
+      const caloriesRatio = goal.calories > 0 ? day.calories / goal.calories : 0;
+      const caloriesMet = caloriesRatio >= 0.8 && caloriesRatio <= 1.1;
+      const proteinMet = day.protein_g >= goal.protein_g * 0.9;
+      const waterMet = goal.water_ml > 0 && day.liquids_ml >= goal.water_ml;
+
+      return {
+        date: day.date,
+        meal_count: mealCountByDate.get(day.date) || 0,
+        calories: day.calories,
+        protein_g: day.protein_g,
+        carbs_g: day.carbs_g,
+        fats_g: day.fats_g,
+        fiber_g: day.fiber_g,
+        water_ml: day.liquids_ml,
+        goal,
+        calories_met: caloriesMet,
+        protein_met: proteinMet,
+        water_met: waterMet,
+        on_target: caloriesMet && waterMet,
+      };
+    });
+
+    let longestInPeriod = 0;
+    let running = 0;
+    for (const day of days) {
+      running = day.on_target ? running + 1 : 0;
+      longestInPeriod = Math.max(longestInPeriod, running);
+    }
+
+    const dayCount = Math.max(1, days.length);
+    const sumOf = (pick: (day: ReportDayAdherence) => number) =>
+      days.reduce((sum, day) => sum + pick(day), 0);
+    const totalWater = sumOf((day) => day.water_ml);
+
+    return {
+      user: { name: user.name, email: user.email },
+      period_type: period,
+      start_date: getUserDay(timeZone, range.startDate),
+      end_date: getUserDay(timeZone, range.endDate),
+      generated_at: new Date().toISOString(),
+      goals: {
+        calories: sumOf((day) => day.goal.calories) / dayCount,
+        protein_g: sumOf((day) => day.goal.protein_g) / dayCount,
+        carbs_g: sumOf((day) => day.goal.carbs_g) / dayCount,
+        fats_g: sumOf((day) => day.goal.fats_g) / dayCount,
+        fiber_g: sumOf((day) => day.goal.fiber_g) / dayCount,
+        sodium_mg: sumOf((day) => day.goal.sodium_mg) / dayCount,
+        sugar_g: sumOf((day) => day.goal.sugar_g) / dayCount,
+        water_ml: sumOf((day) => day.goal.water_ml) / dayCount,
+      },
+      daily_averages: {
+        calories: sumOf((day) => day.calories) / dayCount,
+        protein_g: sumOf((day) => day.protein_g) / dayCount,
+        carbs_g: sumOf((day) => day.carbs_g) / dayCount,
+        fats_g: sumOf((day) => day.fats_g) / dayCount,
+        fiber_g: sumOf((day) => day.fiber_g) / dayCount,
+        sodium_mg:
+          meals.reduce((sum, meal) => sum + (meal.sodium_mg || 0), 0) /
+          dayCount,
+        sugar_g:
+          meals.reduce((sum, meal) => sum + (meal.sugar_g || 0), 0) /
+          dayCount,
+        water_ml: totalWater / dayCount,
+      },
+      meal_count: periodStats.meal_count,
+      days,
+      streaks: {
+        current: periodStats.currentStreak,
+        best: periodStats.bestStreak,
+        longest_in_period: longestInPeriod,
+        on_target_days: days.filter((day) => day.on_target).length,
+        logged_days: days.filter((day) => day.meal_count > 0).length,
+      },
+      water: {
+        total_ml: totalWater,
+        average_ml: totalWater / dayCount,
+        goal_days: days.filter((day) => day.water_met).length,
+      },
+    };
   }
 
   /**
@@ -0,0 +1,32 @@
+import { StorageDriver } from "../../types/storage";
+import { LocalStorageDriver } from "./localDriver";
+import { S3StorageDriver } from "./s3Driver";
+
+let driver: StorageDriver | null = null;
+
+function createDriver(name: string): StorageDriver {
+  switch (name) {
+    case "local":
+      return new LocalStorageDriver();
+    case "s3":
+      return new S3StorageDriver();
+    default:
+      throw new Error(`Unknown storage driver: ${name}`);
+  }
+}
+
+/**
+ * Active object storage, selected with STORAGE_DRIVER (defaults to "local")
+ */
+export function getStorageDriver(): StorageDriver {
+  if (!driver) {
+    driver = createDriver(process.env.STORAGE_DRIVER || "local");
+  }
+  return driver;
+}
+
+export function setStorageDriver(next: StorageDriver) {
+  driver = next;
+}
+
+export { LocalStorageDriver, S3StorageDriver };
@@ -0,0 +1,225 @@
+import axios from "axios";
+import crypto from "crypto";
+import { StorageDriver, StorageError, StoredObject } from "../../types/storage";
+
+export interface S3DriverConfig {
+  endpoint?: string; // e.g. http://localhost:9000 for MinIO; AWS when omitted
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle?: boolean;
+}
+
+const UNSIGNED_PAYLOAD = "UNSIGNED-PAYLOAD";
+const REQUEST_TIMEOUT_MS = 30000;
+
+function sha256Hex(data: string | Buffer) {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string) {
+  return crypto.createHmac("sha256", key).update(data).digest();
+}
+
+// RFC 3986 encoding as SigV4 expects it
+function encodeRfc3986(value: string) {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+export function configFromEnv(): S3DriverConfig {
+  const endpoint = process.env.S3_ENDPOINT;
+  return {
+    endpoint,
+    region: process.env.S3_REGION || "us-east-1",
+    bucket: process.env.S3_BUCKET || "",
+    accessKeyId: process.env.S3_ACCESS_KEY_ID || "",
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || "",
+    // MinIO and most self-hosted stores only serve path-style URLs
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE
+      ? process.env.S3_FORCE_PATH_STYLE === "true"
+      : !!endpoint,
+  };
+}
+
+/**
+ * S3-compatible object storage (AWS S3, MinIO, R2, ...) signed with AWS
+ * Signature Version 4, so no SDK is needed for the handful of calls we make.
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name = "s3";
+
+  constructor(private config: S3DriverConfig = configFromEnv()) {
+    if (!config.bucket || !config.accessKeyId || !config.secretAccessKey) {
+      throw new StorageError(
+        "S3 storage needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY"
+      );
+    }
+  }
+
+  async put(key: string, body: Buffer, contentType: string) {
+    await this.request("PUT", key, body, { "content-type": contentType });
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    const response = await this.request("GET", key);
+    if (response.status === 404) return null;
+    return {
+      body: Buffer.from(response.data),
+      contentType:
+        response.headers["content-type"] || "application/octet-stream",
+    };
+  }
+
+  async exists(key: string) {
+    const response = await this.request("HEAD", key);
+    return response.status !== 404;
+  }
+
+  async delete(key: string) {
+    await this.request("DELETE", key);
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number) {
+    const { url, host, canonicalUri } = this.target(key);
+    const { amzDate, dateStamp } = this.timestamp();
+    const scope = `${dateStamp}/${this.config.region}/s3/aws4_request`;
+
+    const query: Record<string, string> = {
+      "X-Amz-Algorithm": "AWS4-HMAC-SHA256",
+      "X-Amz-Credential": `${this.config.accessKeyId}/${scope}`,
+      "X-Amz-Date": amzDate,
+      "X-Amz-Expires": String(expiresInSeconds),
+      "X-Amz-SignedHeaders": "host",
+    };
+    const canonicalQuery = Object.keys(query)
+      .sort()
+      .map((name) => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+      .join("&");
+
+    const canonicalRequest = [
+      "GET",
+      canonicalUri,
+      canonicalQuery,
+      `host:${host}\n`,
+      "host",
+      UNSIGNED_PAYLOAD,
+    ].join("\n");
+    const signature = this.signature(canonicalRequest, amzDate, dateStamp);
+
+    return `${url}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+  }
+
+  private async request(
+    method: "GET" | "PUT" | "HEAD" | "DELETE",
+    key: string,
+    body?: Buffer,
+    extraHeaders: Record<string, string> = {}
+  ) {
+    const { url, host, canonicalUri } = this.target(key);
+    const { amzDate, dateStamp } = this.timestamp();
+    const payloadHash = sha256Hex(body || "");
+
+    const headers: Record<string, string> = {
+      ...extraHeaders,
+      host,
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate,
+    };
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      canonicalUri,
+      "",
+      signedHeaders.map((name) => `${name}:${headers[name].trim()}\n`).join(""),
+      signedHeaders.join(";"),
+      payloadHash,
+    ].join("\n");
+    const signature = this.signature(canonicalRequest, amzDate, dateStamp);
+    const scope = `${dateStamp}/${this.config.region}/s3/aws4_request`;
+
+    const { host: _host, ...sendHeaders } = headers;
+    const response = await axios
+      .request({
+        method,
+        url,
+        data: body,
+        headers: {
+          ...sendHeaders,
+          Authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(";")}, Signature=${signature}`,
+        },
+        responseType: "arraybuffer",
+        timeout: REQUEST_TIMEOUT_MS,
+        maxBodyLength: Infinity,
+        validateStatus: (status) => status < 400 || status === 404,
+      })
+      .catch((error) => {
+        throw new StorageError(
+          `S3 ${method} ${key} failed: ${error?.response?.status || error?.message}`,
+          error?.response?.status
+        );
+      });
+
+    return response;
+  }
+
+  private target(key: string) {
+    const encodedKey = key.split("/").map(encodeRfc3986).join("/");
+    const endpoint = new URL(
+      this.config.endpoint || `https://s3.${this.config.region}.amazonaws.com`
+    );
+
+    if (this.config.forcePathStyle) {
+      const canonicalUri = `/${this.config.bucket}/${encodedKey}`;
+      return {
+        url: `${endpoint.origin}${canonicalUri}`,
+        host: endpoint.host,
+        canonicalUri,
+      };
+    }
+
+    const host = `${this.config.bucket}.${endpoint.host}`;
+    return {
+      url: `${endpoint.protocol}//${host}/${encodedKey}`,
+      host,
+      canonicalUri: `/${encodedKey}`,
+    };
+  }
+
+  private timestamp() {
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+    return { amzDate, dateStamp: amzDate.slice(0, 8) };
+  }
+
+  private signature(
+    canonicalRequest: string,
+    amzDate: string,
+    dateStamp: string
+  ) {
+    const scope = `${dateStamp}/${this.config.region}/s3/aws4_request`;
+    const stringToSign = [
+      "AWS4-HMAC-SHA256",
+      amzDate,
+      scope,
+      sha256Hex(canonicalRequest),
+    ].join("\n");
+
+    const signingKey = hmac(
+      hmac(
+        hmac(
+          hmac(`AWS4${this.config.secretAccessKey}`, dateStamp),
+          this.config.region
+        ),
+        "s3"
+      ),
+      "aws4_request"
+    );
+    return crypto
+      .createHmac("sha256", signingKey)
+      .update(stringToSign)
+      .digest("hex");
+  }
+}
@@ -0,0 +1,570 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { getPlanPrice, isPaidPlan } from "../config/planPricing";
+import { getPaymentProvider } from "./payments";
+import { SecurityEventService } from "./securityEvents";
+import { PaidPlanType, PaymentWebhookEvent } from "../types/payments";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Tx = Prisma.TransactionClient;
+
+export class SubscriptionService {
+  /**
+   * Start a hosted checkout for a paid plan and record the pending payment
+   */
+  static async createCheckout(
+    userId: string,
+    planType: PaidPlanType,
+    returnUrl: string
+  ) {
+    const user = await prisma.user.findUnique({
+      where: { user_id: userId },
+      select: { email: true, payment_customer_id: true },
+    });
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const price = getPlanPrice(planType);
+    const provider = getPaymentProvider();
+    const session = await provider.createCheckoutSession({
+      userId,
+      email: user.email,
+      customerId: user.payment_customer_id,
+      planType,
+      amount: price.amount,
+      currency: price.currency,
+      successUrl: returnUrl,
+      cancelUrl: returnUrl,
+    });
+
+    await prisma.$transaction([
+      prisma.subscriptionPayment.create({
+        data: {
+          user_id: userId,
+          plan_type: planType,
+          amount: price.amount,
+          currency: price.currency,
+          status: "PENDING",
+          provider: provider.name,
+          provider_session_id: session.sessionId,
+        },
+      }),
+      ...(session.customerId && session.customerId !== user.payment_customer_id
+        ? [
+            prisma.user.update({
+              where: { user_id: userId },
+              data: { payment_customer_id: session.customerId },
+            }),
+          ]
+        : []),
+    ]);
+
+    console.log(
+      `💳 Checkout ${session.sessionId} created for user ${userId} (${planType})`
+    );
+
+    return {
+      session_id: session.sessionId,
+      checkout_url: session.checkoutUrl,
+      expires_at: session.expiresAt,
+      amount: price.amount,
+      currency: price.currency,
+    };
+  }
+
+  /**
+   * Verify and apply a provider webhook. Each event id is applied at most once.
+   */
+  static async handleWebhook(
+    rawBody: Buffer,
+    headers: Record<string, string | string[] | undefined>
+  ): Promise<{ duplicate: boolean; event: PaymentWebhookEvent }> {
+    const provider = getPaymentProvider();
+    const event = provider.constructWebhookEvent(rawBody, headers);
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        await tx.paymentWebhookEvent.create({
+          data: {
+            event_id: event.id,
+            provider: provider.name,
+            type: event.type,
+            payload: event as unknown as Prisma.InputJsonValue,
+          },
+        });
+        await this.applyEvent(tx, event);
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        console.log(`🔁 Webhook event ${event.id} already processed`);
+        return { duplicate: true, event };
+      }
+      throw error;
+    }
+
+    console.log(`✅ Webhook event ${event.id} (${event.type}) processed`);
+    return { duplicate: false, event };
+  }
+
+  private static async applyEvent(tx: Tx, event: PaymentWebhookEvent) {
+    switch (event.type) {
+      case "checkout.completed":
+        return this.applyCheckoutCompleted(tx, event);
+      case "checkout.failed":
+        return this.applyCheckoutFailed(tx, event);
+      case "subscription.renewed":
+        return this.applyRenewal(tx, event);
+      case "subscription.canceled":
+        return this.applySubscriptionCanceled(tx, event);
+      case "payment.refunded":
+        return this.applyRefund(
+          tx,
+          event.data.paymentId,
+          event.data.amount,
+          new Date(event.created * 1000)
+        );
+      default:
+        console.warn(`⚠️ Ignoring unsupported webhook event: ${event.type}`);
+    }
+  }
+
+  private static async applyCheckoutCompleted(
+    tx: Tx,
+    event: PaymentWebhookEvent
+  ) {
+    const { sessionId, paymentId, subscriptionId, customerId, paymentMethod } =
+      event.data;
+    const payment = sessionId
+      ? await tx.subscriptionPayment.findUnique({
+          where: { provider_session_id: sessionId },
+        })
+      : null;
+    if (!payment) {
+      throw new Error(`No pending payment for checkout session ${sessionId}`);
+    }
+    if (payment.status === "SUCCEEDED") return;
+
+    const period = await this.extendSubscription(
+      tx,
+      payment.user_id,
+      payment.plan_type as PaidPlanType,
+      new Date(event.created * 1000)
+    );
+
+    await tx.subscriptionPayment.update({
+      where: { payment_id: payment.payment_id },
+      data: {
+        status: "SUCCEEDED",
+        provider_payment_id: paymentId,
+        payment_method: paymentMethod,
+        payment_date: new Date(event.created * 1000),
+        period_start: period.start,
+        period_end: period.end,
+      },
+    });
+
+    await tx.user.update({
+      where: { user_id: payment.user_id },
+      data: {
+        subscription_auto_renew: true,
+        ...(subscriptionId ? { payment_subscription_id: subscriptionId } : {}),
+        ...(customerId ? { payment_customer_id: customerId } : {}),
+      },
+    });
+  }
+
+  private static async applyCheckoutFailed(
+    tx: Tx,
+    event: PaymentWebhookEvent
+  ) {
+    if (!event.data.sessionId) return;
+
+    await tx.subscriptionPayment.updateMany({
+      where: { provider_session_id: event.data.sessionId, status: "PENDING" },
+      data: {
+        status: "FAILED",
+        failure_reason: event.data.reason || "payment_failed",
+      },
+    });
+  }
+
+  private static async applyRenewal(tx: Tx, event: PaymentWebhookEvent) {
+    const { subscriptionId, paymentId, amount, currency, paymentMethod } =
+      event.data;
+    const user = subscriptionId
+      ? await tx.user.findFirst({
+          where: { payment_subscription_id: subscriptionId },
+          select: { user_id: true, subscription_type: true },
+        })
+      : null;
+    if (!user) {
+      throw new Error(`No user for provider subscription ${subscriptionId}`);
+    }
+
+    const planType =
+      event.data.planType ||
+      (isPaidPlan(user.subscription_type) ? user.subscription_type : null);
+    if (!planType) {
+      throw new Error(`Cannot determine plan for renewal ${event.id}`);
+    }
+
+    const price = getPlanPrice(planType);
+    const paidAt = new Date(event.created * 1000);
+    const period = await this.extendSubscription(
+      tx,
+      user.user_id,
+      planType,
+      paidAt
+    );
+
+    await tx.subscriptionPayment.create({
+      data: {
+        user_id: user.user_id,
+        plan_type: planType,
+        amount: amount ?? price.amount,
+        currency: currency || price.currency,
+        status: "SUCCEEDED",
+        payment_date: paidAt,
+        payment_method: paymentMethod,
+        provider: getPaymentProvider().name,
+        provider_payment_id: paymentId,
+        period_start: period.start,
+        period_end: period.end,
+      },
+    });
+  }
+
+  private static async applySubscriptionCanceled(
+    tx: Tx,
+    event: PaymentWebhookEvent
+  ) {
+    if (!event.data.subscriptionId) return;
+
+    const users = await tx.user.findMany({
+      where: { payment_subscription_id: event.data.subscriptionId },
+      select: { user_id: true, email: true, subscription_type: true },
+    });
+
+    // Access stays until subscription_end; the expiry job downgrades afterwards
+    await tx.user.updateMany({
+      where: { payment_subscription_id: event.data.subscriptionId },
+      data: { subscription_auto_renew: false },
+    });
+
+    for (const user of users) {
+      await SecurityEventService.record(
+        {
+          type: "SUBSCRIPTION_CHANGED",
+          user_id: user.user_id,
+          email: user.email,
+          metadata: {
+            reason: "canceled_by_provider",
+            plan: user.subscription_type,
+            auto_renew: false,
+          },
+        },
+        tx
+      );
+    }
+  }
+
+  private static async applyRefund(
+    tx: Tx,
+    providerPaymentId: string | undefined,
+    amount: number | undefined,
+    refundedAt: Date
+  ) {
+    const payment = providerPaymentId
+      ? await tx.subscriptionPayment.findUnique({
+          where: { provider_payment_id: providerPaymentId },
+        })
+      : null;
+    if (!payment) {
+      throw new Error(`No payment found for refund of ${providerPaymentId}`);
+    }
+
+    const refundedAmount = Math.min(
+      payment.amount,
+      (payment.refunded_amount || 0) + (amount ?? payment.amount)
+    );
+    await tx.subscriptionPayment.update({
+      where: { payment_id: payment.payment_id },
+      data: {
+        status: refundedAmount >= payment.amount ? "REFUNDED" : payment.status,
+        refunded_amount: refundedAmount,
+        refunded_at: refundedAt,
+      },
+    });
+
+    // A full refund of the period the user is currently in revokes access now
+    if (
+      refundedAmount >= payment.amount &&
+      payment.period_start &&
+      payment.period_end &&
+      payment.period_start <= refundedAt &&
+      payment.period_end > refundedAt
+    ) {
+      const downgraded = await tx.user.updateMany({
+        where: {
+          user_id: payment.user_id,
+          subscription_type: payment.plan_type,
+        },
+        data: {
+          subscription_type: "FREE",
+          subscription_end: refundedAt,
+          subscription_auto_renew: false,
+        },
+      });
+      if (downgraded.count > 0) {
+        await SecurityEventService.record(
+          {
+            type: "SUBSCRIPTION_CHANGED",
+            user_id: payment.user_id,
+            metadata: {
+              reason: "refund",
+              from: payment.plan_type,
+              to: "FREE",
+              payment_id: payment.payment_id,
+            },
+          },
+          tx
+        );
+      }
+      console.log(`↩️ User ${payment.user_id} downgraded after refund`);
+    }
+  }
+
+  /**
+   * Push subscription_end forward by one billing period. Paying again for the
+   * plan the user already has stacks on top of the remaining time.
+   */
+  private static async extendSubscription(
+    tx: Tx,
+    userId: string,
+    planType: PaidPlanType,
+    paidAt: Date
+  ): Promise<{ start: Date; end: Date }> {
+    const user = await tx.user.findUnique({
+      where: { user_id: userId },
+      select: {
+        email: true,
+        subscription_type: true,
+        subscription_start: true,
+        subscription_end: true,
+      },
+    });
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const continuing =
+      user.subscription_type === planType &&
+      user.subscription_end !== null &&
+      user.subscription_end > paidAt;
+    const start = continuing ? user.subscription_end! : paidAt;
+    const end = new Date(
+      start.getTime() + getPlanPrice(planType).billingPeriodDays * DAY_MS
+    );
+
+    await tx.user.update({
+      where: { user_id: userId },
+      data: {
+        subscription_type: planType,
+        subscription_start: continuing ? user.subscription_start : paidAt,
+        subscription_end: end,
+      },
+    });
+
+    if (user.subscription_type !== planType) {
+      await SecurityEventService.record(
+        {
+          type: "SUBSCRIPTION_CHANGED",
+          user_id: userId,
+          email: user.email,
+          metadata: {
+            reason: "payment",
+            from: user.subscription_type,
+            to: planType,
+            subscription_end: end.toISOString(),
+          },
+        },
+        tx
+      );
+    }
+
+    return { start, end };
+  }
+
+  /**
+   * Stop renewing the user's plan; it stays active until subscription_end
+   */
+  static async cancelSubscription(userId: string) {
+    const user = await prisma.user.findUnique({
+      where: { user_id: userId },
+      select: {
+        email: true,
+        subscription_type: true,
+        subscription_end: true,
+        payment_subscription_id: true,
+      },
+    });
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    if (user.payment_subscription_id) {
+      await getPaymentProvider().cancelSubscription(
+        user.payment_subscription_id
+      );
+    }
+
+    await prisma.user.update({
+      where: { user_id: userId },
+      data: { subscription_auto_renew: false },
+    });
+
+    await SecurityEventService.record({
+      type: "SUBSCRIPTION_CHANGED",
+      user_id: userId,
+      email: user.email,
+      metadata: {
+        reason: "canceled",
+        plan: user.subscription_type,
+        auto_renew: false,
+      },
+    });
+
+    console.log(`🛑 Auto-renew canceled for user ${userId}`);
+    return {
+      subscription_type: user.subscription_type,
+      active_until: user.subscription_end,
+    };
+  }
+
+  /**
+   * Refund a successful payment through the provider (admin action)
+   */
+  static async refundPayment(paymentId: number, amount?: number) {
+    const payment = await prisma.subscriptionPayment.findUnique({
+      where: { payment_id: paymentId },
+    });
+    if (!payment) {
+      throw new Error("Payment not found");
+    }
+    if (payment.status !== "SUCCEEDED" || !payment.provider_payment_id) {
+      throw new Error("Only successful provider payments can be refunded");
+    }
+
+    const refundable = payment.amount - (payment.refunded_amount || 0);
+    const refundAmount = amount ?? refundable;
+    if (refundAmount <= 0 || refundAmount > refundable) {
+      throw new Error(`Refund amount must be between 0 and ${refundable}`);
+    }
+
+    const refund = await getPaymentProvider().refundPayment(
+      payment.provider_payment_id,
+      refundAmount
+    );
+
+    await prisma.$transaction((tx) =>
+      this.applyRefund(
+        tx,
+        payment.provider_payment_id!,
+        refund.amount,
+        new Date()
+      )
+    );
+
+    return prisma.subscriptionPayment.findUnique({
+      where: { payment_id: paymentId },
+    });
+  }
+
+  /**
+   * Move users whose paid period has ended back to the free plan
+   */
+  static async downgradeExpiredSubscriptions(): Promise<number> {
+    const expired = await prisma.user.findMany({
+      where: {
+        subscription_type: { in: ["GOLD", "PREMIUM"] },
+        subscription_end: { lt: new Date() },
+      },
+      select: { user_id: true, email: true, subscription_type: true },
+    });
+    if (expired.length === 0) return 0;
+
+    const result = await prisma.user.updateMany({
+      where: {
+        user_id: { in: expired.map((user) => user.user_id) },
+        subscription_type: { in: ["GOLD", "PREMIUM"] },
+      },
+      data: {
+        subscription_type: "FREE",
+        subscription_auto_renew: false,
+      },
+    });
+
+    for (const user of expired) {
+      await SecurityEventService.record({
+        type: "SUBSCRIPTION_CHANGED",
+        user_id: user.user_id,
+        email: user.email,
+        metadata: {
+          reason: "expired",
+          from: user.subscription_type,
+          to: "FREE",
+        },
+      });
+    }
+
+    console.log(`⬇️ Downgraded ${result.count} expired subscriptions`);
+    return result.count;
+  }
+
+  static async getSubscriptionStatus(userId: string) {
+    const user = await prisma.user.findUnique({
+      where: { user_id: userId },
+      select: {
+        subscription_type: true,
+        subscription_start: true,
+        subscription_end: true,
+        subscription_auto_renew: true,
+        payments: {
+          orderBy: { created_at: "desc" },
+          take: 1,
+          select: {
+            payment_id: true,
+            plan_type: true,
+            amount: true,
+            currency: true,
+            status: true,
+            failure_reason: true,
+            provider_session_id: true,
+            period_end: true,
+            created_at: true,
+          },
+        },
+      },
+    });
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    return {
+      subscription_type: user.subscription_type,
+      subscription_start: user.subscription_start,
+      subscription_end: user.subscription_end,
+      auto_renew: user.subscription_auto_renew,
+      is_active:
+        user.subscription_type === "FREE" ||
+        user.subscription_type === "ADMIN" ||
+        (user.subscription_end !== null && user.subscription_end > new Date()),
+      last_payment: user.payments[0] || null,
+    };
+  }
+}
@@ -0,0 +1,405 @@
+import crypto from "crypto";
+import QRCode from "qrcode";
+import { prisma } from "../lib/database";
+import { SessionContext, TwoFactorError, TwoFactorSetup } from "../types/auth";
+import { LoginThrottleService } from "./loginThrottle";
+import { SecurityEventService } from "./securityEvents";
+
+const TOTP_ISSUER = "Calo";
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Also accept the previous and next code to allow for clock drift
+const TOTP_WINDOW_STEPS = 1;
+const RECOVERY_CODE_COUNT = 10;
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function base32Encode(buffer: Buffer) {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(encoded: string) {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of encoded.replace(/=+$/, "").toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 character");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// Secrets are encrypted at rest with TWO_FACTOR_ENCRYPTION_KEY (falling back
+// to JWT_SECRET) so a database leak alone doesn't hand out working codes
+function encryptionKey() {
+  return crypto
+    .createHash("sha256")
+    .update(process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET!)
+    .digest();
+}
+
+function encryptSecret(secret: string) {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", encryptionKey(), iv);
+  const encrypted = Buffer.concat([
+    cipher.update(secret, "utf8"),
+    cipher.final(),
+  ]);
+  return [iv, cipher.getAuthTag(), encrypted]
+    .map((part) => part.toString("base64url"))
+    .join(".");
+}
+
+function decryptSecret(payload: string) {
+  const [iv, tag, encrypted] = payload
+    .split(".")
+    .map((part) => Buffer.from(part, "base64url"));
+  const decipher = crypto.createDecipheriv("aes-256-gcm", encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString(
+    "utf8"
+  );
+}
+
+// RFC 4226 HOTP; TOTP is HOTP over the current time step
+function generateCode(secret: string, step: number) {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto
+    .createHmac("sha1", base32Decode(secret))
+    .update(counter)
+    .digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+  return code.toString().padStart(TOTP_DIGITS, "0");
+}
+
+function currentStep() {
+  return Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+function normalizeRecoveryCode(code: string) {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function hashRecoveryCode(code: string) {
+  return crypto
+    .createHash("sha256")
+    .update(normalizeRecoveryCode(code))
+    .digest("hex");
+}
+
+// "xxxxx-xxxxx", 50 random bits
+function generateRecoveryCode() {
+  const code = base32Encode(crypto.randomBytes(7)).slice(0, 10).toLowerCase();
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+}
+
+/**
+ * TOTP two-factor authentication (RFC 6238, compatible with Google
+ * Authenticator, 1Password, Authy, ...) plus single-use recovery codes
+ */
+export class TwoFactorService {
+  static async getStatus(userId: string) {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { user_id: userId },
+      select: {
+        totp_enabled: true,
+        totp_enabled_at: true,
+        _count: {
+          select: {
+            recoveryCodes: { where: { used_at: null } },
+            roles: true,
+          },
+        },
+      },
+    });
+
+    return {
+      enabled: user.totp_enabled,
+      enabled_at: user.totp_enabled_at,
+      // Staff can't turn it off
+      required: user._count.roles > 0,
+      recovery_codes_remaining: user._count.recoveryCodes,
+    };
+  }
+
+  /**
+   * Create a new secret for the user to add to their authenticator app. It
+   * isn't enforced until enable() confirms a code from it.
+   */
+  static async startEnrollment(userId: string): Promise<TwoFactorSetup> {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { user_id: userId },
+      select: { email: true, totp_enabled: true },
+    });
+    if (user.totp_enabled) {
+      throw new TwoFactorError(
+        "Two-factor authentication is already enabled",
+        409
+      );
+    }
+
+    const secret = base32Encode(crypto.randomBytes(20));
+    await prisma.user.update({
+      where: { user_id: userId },
+      data: { totp_secret: encryptSecret(secret), totp_last_used_step: null },
+    });
+
+    const label = encodeURIComponent(`${TOTP_ISSUER}:${user.email}`);
+    const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${TOTP_ISSUER}&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_PERIOD_SECONDS}`;
+
+    return {
+      secret,
+      otpauth_url: otpauthUrl,
+      qr_code: await QRCode.toDataURL(otpauthUrl),
+    };
+  }
+
+  /**
+   * Turn 2FA on with a code from the enrolled secret. Returns the recovery
+   * codes, which are only ever shown this once.
+   */
+  static async enable(userId: string, code: string) {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { user_id: userId },
+      select: {
+        user_id: true,
+        totp_enabled: true,
+        totp_secret: true,
+        totp_last_used_step: true,
+      },
+    });
+    if (user.totp_enabled) {
+      throw new TwoFactorError(
+        "Two-factor authentication is already enabled",
+        409
+      );
+    }
+    if (!user.totp_secret) {
+      throw new TwoFactorError("Start two-factor setup first");
+    }
+    if (!(await this.verifyTotp(user, code))) {
+      throw new TwoFactorError("Invalid verification code");
+    }
+
+    await prisma.user.update({
+      where: { user_id: userId },
+      data: { totp_enabled: true, totp_enabled_at: new Date() },
+    });
+    console.log(`🔐 Two-factor authentication enabled for ${userId}`);
+
+    return this.replaceRecoveryCodes(userId);
+  }
+
+  static async disable(
+    userId: string,
+    code: string,
+    context: SessionContext = {}
+  ) {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { user_id: userId },
+      select: {
+        user_id: true,
+        email: true,
+        totp_enabled: true,
+        _count: { select: { roles: true } },
+      },
+    });
+    if (!user.totp_enabled) {
+      throw new TwoFactorError("Two-factor authentication is not enabled");
+    }
+    if (user._count.roles > 0) {
+      throw new TwoFactorError(
+        "Staff accounts must keep two-factor authentication on",
+        403
+      );
+    }
+    await this.confirmCode(user, code, context);
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { user_id: userId },
+        data: {
+          totp_enabled: false,
+          totp_enabled_at: null,
+          totp_secret: null,
+          totp_last_used_step: null,
+        },
+      }),
+      prisma.twoFactorRecoveryCode.deleteMany({ where: { user_id: userId } }),
+    ]);
+    console.log(`🔓 Two-factor authentication disabled for ${userId}`);
+  }
+
+  static async regenerateRecoveryCodes(
+    userId: string,
+    code: string,
+    context: SessionContext = {}
+  ) {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { user_id: userId },
+      select: { user_id: true, email: true },
+    });
+    await this.confirmCode(user, code, context);
+    return this.replaceRecoveryCodes(userId);
+  }
+
+  /**
+   * Require a code before a 2FA settings change. Wrong codes count against
+   * the account's sign-in lockout, so a stolen session can't be used to
+   * guess one.
+   */
+  private static async confirmCode(
+    user: { user_id: string; email: string },
+    code: string,
+    context: SessionContext
+  ) {
+    const subject = { email: user.email, ip_address: context.ip_address };
+    await LoginThrottleService.assertNotLocked("signin", subject);
+
+    if (!(await this.verifyCode(user.user_id, code))) {
+      await SecurityEventService.recordFailedAttempt("signin", subject, {
+        type: "TWO_FACTOR_FAILED",
+        user_id: user.user_id,
+        email: user.email,
+        context,
+      });
+      throw new TwoFactorError("Invalid verification code");
+    }
+  }
+
+  /**
+   * Check an authenticator code or a recovery code for a user with 2FA on.
+   * Recovery codes are used up.
+   */
+  static async verifyCode(userId: string, code: string): Promise<boolean> {
+    const user = await prisma.user.findUnique({
+      where: { user_id: userId },
+      select: {
+        user_id: true,
+        totp_enabled: true,
+        totp_secret: true,
+        totp_last_used_step: true,
+      },
+    });
+    if (!user || !user.totp_enabled || !user.totp_secret) return false;
+
+    const trimmed = code.trim();
+    if (/^\d+$/.test(trimmed)) {
+      return this.verifyTotp(user, trimmed);
+    }
+
+    const recoveryCode = await prisma.twoFactorRecoveryCode.findFirst({
+      where: {
+        user_id: userId,
+        code_hash: hashRecoveryCode(trimmed),
+        used_at: null,
+      },
+    });
+    if (!recoveryCode) return false;
+
+    // Guard against the same code being redeemed twice concurrently
+    const redeemed = await prisma.twoFactorRecoveryCode.updateMany({
+      where: { code_id: recoveryCode.code_id, used_at: null },
+      data: { used_at: new Date() },
+    });
+    if (redeemed.count === 0) return false;
+
+    console.log(`🔑 Recovery code used by ${userId}`);
+    return true;
+  }
+
+  private static async verifyTotp(
+    user: {
+      user_id: string;
+      totp_secret: string | null;
+      totp_last_used_step: number | null;
+    },
+    code: string
+  ) {
+    if (!user.totp_secret || !/^\d{6}$/.test(code)) return false;
+
+    let secret: string;
+    try {
+      secret = decryptSecret(user.totp_secret);
+    } catch (error) {
+      console.error(`💥 Failed to decrypt TOTP secret of ${user.user_id}`);
+      return false;
+    }
+
+    const now = currentStep();
+    for (
+      let step = now - TOTP_WINDOW_STEPS;
+      step <= now + TOTP_WINDOW_STEPS;
+      step++
+    ) {
+      if (
+        user.totp_last_used_step !== null &&
+        step <= user.totp_last_used_step
+      ) {
+        continue;
+      }
+
+      const expected = generateCode(secret, step);
+      if (!crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+        continue;
+      }
+
+      // Record the step so the same code can't be replayed, even by a
+      // request racing this one
+      const accepted = await prisma.user.updateMany({
+        where: {
+          user_id: user.user_id,
+          OR: [
+            { totp_last_used_step: null },
+            { totp_last_used_step: { lt: step } },
+          ],
+        },
+        data: { totp_last_used_step: step },
+      });
+      return accepted.count > 0;
+    }
+
+    return false;
+  }
+
+  private static async replaceRecoveryCodes(userId: string) {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () =>
+      generateRecoveryCode()
+    );
+
+    await prisma.$transaction([
+      prisma.twoFactorRecoveryCode.deleteMany({ where: { user_id: userId } }),
+      prisma.twoFactorRecoveryCode.createMany({
+        data: codes.map((code) => ({
+          user_id: userId,
+          code_hash: hashRecoveryCode(code),
+        })),
+      }),
+    ]);
+
+    return codes;
+  }
+}
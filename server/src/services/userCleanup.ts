@@ -1,5 +1,6 @@
 import cron from "node-cron";
-import { PrismaClient } from "@prisma/client";
+import { PrismaClient, SubscriptionType } from "@prisma/client";
+import { PLAN_LIMITS, PlanLimits } from "../config/planLimits";
 
 const prisma = new PrismaClient();
 
@@ -59,32 +60,38 @@ export class UserCleanupService {
   }
 
   /**
-   * Delete questionnaire data for FREE users after 7 days, reset questionnaire flag
+   * Delete questionnaire data once it is older than the plan's retention window
+   * (7 days on FREE), reset questionnaire flag
    */
   static async cleanupFreeUserQuestionnaires() {
-    const sevenDaysAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+    const plansWithRetention = Object.entries(PLAN_LIMITS).filter(
+      ([, limits]) => limits.questionnaireRetentionDays !== null
+    ) as [SubscriptionType, PlanLimits][];
 
     try {
-      // Find FREE users whose questionnaire data is older than 7 days
-      const freeUsersToCleanup = await prisma.user.findMany({
-        where: {
-          subscription_type: {
-            equals: "FREE",
-          },
-          is_questionnaire_completed: true,
-          created_at: {
-            // Changed from updated_at to created_at
-            lt: sevenDaysAgo,
+      for (const [subscriptionType, limits] of plansWithRetention) {
+        const cutoff = new Date(
+          Date.now() - limits.questionnaireRetentionDays! * 24 * 60 * 60 * 1000
+        );
+
+        // Find users on this plan whose questionnaire data is past retention
+        const usersToCleanup = await prisma.user.findMany({
+          where: {
+            subscription_type: subscriptionType,
+            is_questionnaire_completed: true,
+            created_at: {
+              lt: cutoff,
+            },
           },
-        },
-      });
+        });
+
+        if (usersToCleanup.length === 0) continue;
 
-      if (freeUsersToCleanup.length > 0) {
         console.log(
-          `🧹 Found ${freeUsersToCleanup.length} FREE users for questionnaire cleanup`
+          `🧹 Found ${usersToCleanup.length} ${subscriptionType} users for questionnaire cleanup`
         );
 
-        for (const user of freeUsersToCleanup) {
+        for (const user of usersToCleanup) {
           // Delete questionnaire data
           await prisma.userQuestionnaire.deleteMany({
             where: { user_id: user.user_id },
@@ -99,12 +106,12 @@ export class UserCleanupService {
           });
 
           console.log(
-            `✅ Cleaned questionnaire data for FREE user: ${user.email}`
+            `✅ Cleaned questionnaire data for ${subscriptionType} user: ${user.email}`
           );
         }
 
         console.log(
-          `✅ FREE user questionnaire cleanup completed: ${freeUsersToCleanup.length} users processed`
+          `✅ ${subscriptionType} questionnaire cleanup completed: ${usersToCleanup.length} users processed`
         );
       }
     } catch (error) {
@@ -134,11 +141,10 @@ export class UserCleanupService {
         await tx.chatMessage.deleteMany({ where: { user_id: userId } });
         await tx.dailyGoal.deleteMany({ where: { user_id: userId } });
         await tx.userAchievement.deleteMany({ where: { user_id: userId } });
-        await tx.shoppingList.deleteMany({ where: { user_id: userId } });
+        await tx.xpTransaction.deleteMany({ where: { user_id: userId } });
+        await tx.shoppingListItem.deleteMany({ where: { user_id: userId } });
         await tx.meal.deleteMany({ where: { user_id: userId } });
         await tx.subscriptionPayment.deleteMany({ where: { user_id: userId } });
-        await tx.userBadge.deleteMany({ where: { user_id: userId } });
-        await tx.gamificationBadge.deleteMany({ where: { user_id: userId } });
         await tx.waterIntake.deleteMany({ where: { user_id: userId } });
         await tx.foodProduct.deleteMany({ where: { user_id: userId } });
         await tx.mealCompletion.deleteMany({ where: { user_id: userId } });
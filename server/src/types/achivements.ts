@@ -1,3 +1,6 @@
+import { z } from "zod";
+import { AchievementAggregation } from "@prisma/client";
+
 // Achievement system types
 export interface Achievement {
   id: string;
@@ -62,3 +65,59 @@ export interface UserAchievementData {
     xpProgress: number;
   };
 }
+
+// The unlock rule columns of an Achievement row
+export interface AchievementRule {
+  aggregation: AchievementAggregation | null;
+  condition: string | null;
+  stat: string | null;
+  window_days: number | null;
+  max_progress: number;
+}
+
+// One comparison in a rule condition, e.g. water_cups >= 8
+export interface RuleClause {
+  metric: string;
+  operator: ">=" | ">" | "<=" | "<" | "=";
+  value: number;
+}
+
+export class AchievementRuleError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = "AchievementRuleError";
+  }
+}
+
+export const achievementSchema = z.object({
+  key: z
+    .string()
+    .trim()
+    .regex(/^[a-z0-9_]+$/, "Use lowercase letters, digits and underscores"),
+  title: z.string().trim().min(1).max(100),
+  description: z.string().trim().min(1).max(300),
+  icon: z.string().trim().min(1).max(20),
+  category: z.enum([
+    "MILESTONE",
+    "GOAL",
+    "STREAK",
+    "LEVEL",
+    "SPECIAL",
+    "CONSISTENCY",
+    "IMPROVEMENT",
+  ]),
+  rarity: z.enum(["COMMON", "UNCOMMON", "RARE", "EPIC", "LEGENDARY"]),
+  points_awarded: z.number().int().min(0).max(100000),
+  max_progress: z.number().int().min(1).max(10000),
+  aggregation: z.nativeEnum(AchievementAggregation).nullable().default(null),
+  condition: z.string().trim().max(500).nullable().default(null),
+  stat: z.string().trim().nullable().default(null),
+  window_days: z.number().int().min(1).max(3650).nullable().default(null),
+});
+
+export const achievementUpdateSchema = achievementSchema.partial();
+
+export type AchievementInput = z.infer<typeof achievementSchema>;
@@ -1,4 +1,11 @@
 import { z } from "zod";
+import { isValidTimeZone } from "../utils/userDay";
+
+// IANA timezone name as reported by the device, e.g. "Asia/Jerusalem"
+export const timeZoneSchema = z
+  .string()
+  .max(64)
+  .refine(isValidTimeZone, "Unknown timezone");
 
 export const signUpSchema = z.object({
   email: z.string().email("Invalid email address"),
@@ -16,6 +23,7 @@ export const signUpSchema = z.object({
   birth_date: z.preprocess((arg) => {
     if (typeof arg === "string" || arg instanceof Date) return new Date(arg);
   }, z.date()),
+  timezone: timeZoneSchema.optional(),
 });
 
 export const signInSchema = z.object({
@@ -30,6 +38,7 @@ export const updateProfileSchema = z.object({
       if (typeof arg === "string" || arg instanceof Date) return new Date(arg);
     }, z.date())
     .optional(),
+  timezone: timeZoneSchema.optional(),
 });
 
 export const updateSubscriptionSchema = z.object({
@@ -39,3 +48,99 @@ export const updateSubscriptionSchema = z.object({
 export type SignUpInput = z.infer<typeof signUpSchema>;
 export type SignInInput = z.infer<typeof signInSchema>;
 export type UpdateProfileInput = z.infer<typeof updateProfileSchema>;
+
+// Where a session was opened from, recorded for the session list
+export interface SessionContext {
+  device_name?: string;
+  platform?: string;
+  user_agent?: string;
+  ip_address?: string;
+}
+
+export interface SessionTokens {
+  session_id: string;
+  token: string; // Short-lived access token
+  refresh_token: string;
+  expires_in: number; // Access token lifetime in seconds
+}
+
+export class SessionError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 401
+  ) {
+    super(message);
+    this.name = "SessionError";
+  }
+}
+
+export const identitySignInSchema = z.object({
+  id_token: z.string().min(1, "ID token is required"),
+  // Raw nonce the app generated for this sign-in, if it sent one
+  nonce: z.string().optional(),
+  // Apple only shares the user's name with the app, on the first sign-in
+  name: z.string().max(50).optional(),
+});
+
+export type IdentitySignInInput = z.infer<typeof identitySignInSchema>;
+export type IdentityProviderName = "google" | "apple";
+
+// Claims of a verified provider ID token that we act on
+export interface VerifiedIdentity {
+  provider: IdentityProviderName;
+  subject: string;
+  email: string | null;
+  email_verified: boolean;
+  name: string | null;
+}
+
+export interface IdentityProviderConfig {
+  provider: IdentityProviderName;
+  issuers: string[];
+  // OAuth client IDs (web, iOS, Android, ...) whose tokens we accept
+  audiences: string[];
+  // https:// URL, or a file path / file:// URL to a local key set
+  jwksUri: string;
+}
+
+export class IdentityError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 401
+  ) {
+    super(message);
+    this.name = "IdentityError";
+  }
+}
+
+export const twoFactorCodeSchema = z.object({
+  // Authenticator code or a recovery code
+  code: z.string().trim().min(6, "Code is required").max(20),
+});
+
+export const twoFactorChallengeSchema = twoFactorCodeSchema.extend({
+  challenge_token: z.string().min(1, "Challenge token is required"),
+});
+
+// Returned by sign-in instead of tokens while the second step is pending
+export interface TwoFactorChallenge {
+  two_factor_required: true;
+  challenge_token: string;
+  expires_in: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauth_url: string;
+  qr_code: string; // PNG data URI of otpauth_url
+}
+
+export class TwoFactorError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = "TwoFactorError";
+  }
+}
@@ -73,12 +73,3 @@ export interface CalendarEvent {
   created_at: string;
   updated_at: string;
 }
-
-export interface GamificationBadge {
-  id: string;
-  name: string;
-  description: string;
-  icon: string;
-  condition: string;
-  points: number;
-}
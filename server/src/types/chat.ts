@@ -0,0 +1,20 @@
+// A write proposed by the chat coach, as shown to the user for confirmation
+export interface ChatActionView {
+  action_id: string;
+  tool: string;
+  summary: string;
+  status: string;
+  expires_at: Date;
+  result?: unknown;
+  error?: string | null;
+}
+
+export class ChatActionError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = "ChatActionError";
+  }
+}
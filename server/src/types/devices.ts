@@ -1,4 +1,5 @@
 export interface ActivityData {
+  date?: string; // YYYY-MM-DD, defaults to today
   steps: number;
   caloriesBurned: number;
   activeMinutes: number;
@@ -16,3 +17,135 @@ export interface DailyBalance {
   balance: number;
   balanceStatus: "balanced" | "slight_imbalance" | "significant_imbalance";
 }
+
+// Merged activity timeline
+
+export const ACTIVITY_METRICS = [
+  "steps",
+  "calories_burned",
+  "active_minutes",
+  "distance_km",
+  "heart_rate",
+  "sleep_hours",
+  "weight_kg",
+  "body_fat_percentage",
+] as const;
+
+export type ActivityMetric = (typeof ACTIVITY_METRICS)[number];
+
+export interface ActivitySource {
+  device_id: string;
+  device_type: string;
+  device_name: string;
+}
+
+/**
+ * One value per metric for a day, each taken from a single device so totals
+ * are never summed across overlapping sources
+ */
+export interface MergedDailyActivity {
+  date: string;
+  steps: number | null;
+  calories_burned: number | null;
+  bmr_estimate: number | null;
+  active_minutes: number | null;
+  distance_km: number | null;
+  heart_rate_avg: number | null;
+  heart_rate_max: number | null;
+  sleep_hours: number | null;
+  weight_kg: number | null;
+  body_fat_percentage: number | null;
+  sources: Partial<Record<ActivityMetric, ActivitySource>>;
+}
+
+// Server-side provider sync
+
+/**
+ * One day of metrics as reported by a provider; fields it does not track are left out
+ */
+export interface ProviderDailyMetrics {
+  date: string; // YYYY-MM-DD in the user's local calendar
+  steps?: number;
+  caloriesBurned?: number;
+  activeMinutes?: number;
+  bmrEstimate?: number;
+  distanceKm?: number;
+  heartRateAvg?: number;
+  heartRateMax?: number;
+  sleepHours?: number;
+  weightKg?: number;
+  bodyFatPercentage?: number;
+}
+
+export interface ProviderTokens {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: Date;
+}
+
+export interface ProviderDateRange {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Minimal HTTP surface adapters talk through, so recorded fixtures can stand in
+ * for the provider APIs
+ */
+export interface ProviderHttpClient {
+  get(
+    url: string,
+    options?: { headers?: Record<string, string>; params?: Record<string, any> }
+  ): Promise<any>;
+  postForm(
+    url: string,
+    form: Record<string, string>,
+    headers?: Record<string, string>
+  ): Promise<any>;
+}
+
+export interface DeviceProviderAdapter {
+  readonly deviceType: string;
+  refreshTokens(refreshToken: string): Promise<ProviderTokens>;
+  fetchDailyMetrics(
+    accessToken: string,
+    range: ProviderDateRange
+  ): Promise<ProviderDailyMetrics[]>;
+}
+
+export interface DeviceSyncResult {
+  deviceId: string;
+  deviceType: string;
+  status: "synced" | "skipped" | "failed";
+  daysSynced: number;
+  nextSyncAt?: Date;
+  error?: string;
+}
+
+// The provider rejected the access token; refreshing or reconnecting may fix it
+export class ProviderAuthError extends Error {
+  constructor(message: string = "Provider rejected the access token") {
+    super(message);
+    this.name = "ProviderAuthError";
+  }
+}
+
+export class ProviderRequestError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number
+  ) {
+    super(message);
+    this.name = "ProviderRequestError";
+  }
+}
+
+export class DeviceBackfillError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = "DeviceBackfillError";
+  }
+}
@@ -0,0 +1,54 @@
+// Plan entitlement types
+export type QuotaKey = "mealScans" | "aiChatTokens";
+
+export interface QuotaStatus {
+  used: number;
+  limit: number | null; // null = unlimited
+  remaining: number | null;
+  unlimited: boolean;
+  resetAt: Date | null;
+}
+
+export interface QuotaCheck extends QuotaStatus {
+  allowed: boolean;
+  message?: string;
+}
+
+export interface PlanFeatures {
+  aiChat: boolean;
+  aiRecommendations: boolean;
+  dailyGoals: boolean;
+  deviceIntegration: boolean;
+  fullQuestionnaire: boolean;
+}
+
+export interface PlanSummary {
+  type: string;
+  name: string;
+  description: string;
+  price: { amount: number; currency: string; billingPeriodDays: number } | null;
+  features: PlanFeatures;
+  limits: {
+    mealScansPerMonth: number | null;
+    aiChatTokensPerMonth: number | null;
+    aiChatMessagesEstimate: number | null;
+    aiRecommendationsPerWeek: number;
+    dailyGoalsPerWeek: number;
+    questionnaireRetentionDays: number | null;
+  };
+}
+
+export interface UserEntitlements {
+  plan: PlanSummary;
+  subscription: {
+    start: Date | null;
+    end: Date | null;
+  };
+  quotas: {
+    mealScans: QuotaStatus;
+    aiChatTokens: QuotaStatus & {
+      messagesUsed: number;
+      messagesEstimate: number | null;
+    };
+  };
+}
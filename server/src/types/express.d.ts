@@ -12,6 +12,7 @@ declare global {
   namespace Express {
     interface Request {
       user?: AuthenticatedUser; // Make it optional in case middleware hasn't run or authentication fails
+      rawBody?: Buffer; // Unparsed JSON body, kept for webhook signature checks
     }
   }
 }
@@ -0,0 +1,46 @@
+import { z } from "zod";
+import { XpSource } from "@prisma/client";
+
+// Where a user stands within their current level
+export interface LevelProgress {
+  level: number;
+  totalPoints: number;
+  currentXP: number;
+  nextLevelXP: number;
+  xpToNextLevel: number;
+  xpProgress: number;
+}
+
+export interface XpAward {
+  xpGained: number;
+  totalPoints: number;
+  leveledUp: boolean;
+  previousLevel: number;
+  newLevel: number;
+}
+
+export interface XpAwardDetails {
+  achievementId?: string;
+  referenceId?: string;
+  description?: string;
+}
+
+// Everything the statistics screen shows about XP and achievements, read
+// from one place so the sections agree
+export interface GamificationSummary extends LevelProgress {
+  unlockedAchievements: number;
+  totalAchievements: number;
+  achievementXP: number;
+  currentStreak: number;
+  bestStreak: number;
+  totalCompleteDays: number;
+}
+
+export const xpHistoryQuerySchema = z.object({
+  source: z.nativeEnum(XpSource).optional(),
+  // transaction_id of the last entry on the previous page
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(30),
+});
+
+export type XpHistoryQuery = z.infer<typeof xpHistoryQuerySchema>;
@@ -11,3 +11,8 @@ export * from "./database";
 export * from "./api";
 export * from "./achivements";
 export * from "./recommendations";
+export * from "./notifications";
+export * from "./payments";
+export * from "./entitlements";
+export * from "./chat";
+export * from "./storage";
@@ -0,0 +1,130 @@
+import { z } from "zod";
+import { Job, JobStatus } from "@prisma/client";
+import { timeZoneSchema } from "./auth";
+
+export type JobPayload = Record<string, unknown>;
+
+export interface UserJobPayload extends JobPayload {
+  userId: string;
+}
+
+// Scheduled runs pass the timezones whose local hour came up; manual runs
+// without them cover every user
+export interface TimeZonesPayload extends JobPayload {
+  timeZones?: string[];
+}
+
+// The payload each job type runs with; its keys are the known job types
+export interface JobPayloads {
+  "daily-goals": TimeZonesPayload;
+  "daily-goals.user": UserJobPayload;
+  "ai-recommendations": TimeZonesPayload;
+  "ai-recommendations.user": UserJobPayload;
+  "goal-reminders": TimeZonesPayload;
+  "subscription-expiry": JobPayload;
+  "device-sync": JobPayload;
+  "data-cleanup": JobPayload;
+  "database-optimization": JobPayload;
+  "database-health-check": JobPayload;
+}
+
+export type JobType = keyof JobPayloads;
+
+export interface JobContext {
+  job: Job;
+  // Queue one child job per payload, e.g. one per user of a scheduled run
+  enqueueChildren<T extends JobType>(
+    type: T,
+    payloads: JobPayloads[T][]
+  ): Promise<number>;
+}
+
+export interface JobHandler<P extends JobPayload = JobPayload> {
+  run(payload: P, context: JobContext): Promise<unknown>;
+  // How long a worker may go without renewing its hold on the job before
+  // another worker takes it over
+  leaseMs?: number;
+  maxAttempts?: number;
+}
+
+export interface JobSchedule {
+  type: JobType;
+  cron: string;
+  description: string;
+  // Built when the slot fires; null skips the slot
+  payload?: () => Promise<JobPayload | null>;
+}
+
+export interface EnqueueOptions {
+  dedupeKey?: string;
+  parentId?: string;
+  runAt?: Date;
+  triggeredBy?: string;
+}
+
+export const jobStatusQuerySchema = z.object({
+  type: z.string().optional(),
+  status: z.nativeEnum(JobStatus).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(30),
+});
+
+const userJobPayloadSchema = z.object({ userId: z.string().min(1) }).strict();
+const timeZonesPayloadSchema = z
+  .object({ timeZones: z.array(timeZoneSchema).min(1).optional() })
+  .strict();
+const emptyPayloadSchema = z.object({}).strict();
+
+// What a manually queued job may carry, checked before it reaches the queue
+export const jobPayloadSchemas: {
+  [T in JobType]: z.ZodType<JobPayloads[T]>;
+} = {
+  "daily-goals": timeZonesPayloadSchema,
+  "daily-goals.user": userJobPayloadSchema,
+  "ai-recommendations": timeZonesPayloadSchema,
+  "ai-recommendations.user": userJobPayloadSchema,
+  "goal-reminders": timeZonesPayloadSchema,
+  "subscription-expiry": emptyPayloadSchema,
+  "device-sync": emptyPayloadSchema,
+  "data-cleanup": emptyPayloadSchema,
+  "database-optimization": emptyPayloadSchema,
+  "database-health-check": emptyPayloadSchema,
+};
+
+function isJobType(type: string): type is JobType {
+  return Object.prototype.hasOwnProperty.call(jobPayloadSchemas, type);
+}
+
+export const runJobSchema = z
+  .object({
+    type: z.string().min(1),
+    payload: z.record(z.unknown()).default({}),
+  })
+  .superRefine(({ type, payload }, ctx) => {
+    if (!isJobType(type)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["type"],
+        message: `Unknown job type "${type}"`,
+      });
+      return;
+    }
+
+    const result = jobPayloadSchemas[type].safeParse(payload);
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        ctx.addIssue({ ...issue, path: ["payload", ...issue.path] });
+      }
+    }
+  });
+
+export type JobStatusQuery = z.infer<typeof jobStatusQuerySchema>;
+
+export class JobError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = "JobError";
+  }
+}
@@ -0,0 +1,34 @@
+// Push notification types
+export type PushCategory =
+  | "goal_reminder"
+  | "ai_recommendation"
+  | "achievement_unlocked";
+
+export interface PushMessage {
+  to: string;
+  title: string;
+  body: string;
+  data?: Record<string, any>;
+  sound?: "default" | null;
+  badge?: number;
+  channelId?: string;
+}
+
+export interface PushTicket {
+  token: string;
+  status: "ok" | "error";
+  id?: string;
+  message?: string;
+  error?: string; // e.g. "DeviceNotRegistered"
+}
+
+export interface PushTransport {
+  readonly name: string;
+  send(messages: PushMessage[]): Promise<PushTicket[]>;
+}
+
+export interface PushDispatchResult {
+  sent: number;
+  failed: number;
+  invalidated: number;
+}
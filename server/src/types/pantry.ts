@@ -0,0 +1,36 @@
+import { z } from "zod";
+import { IngredientInput } from "./shoppingLists";
+
+export type PantrySource = "shopping_list" | "scanner" | "manual";
+
+export interface PantryItemInput extends IngredientInput {
+  barcode?: string | null;
+  // Estimated from the category when undefined; null means it doesn't expire
+  expires_at?: Date | null;
+}
+
+export const pantryItemSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  quantity: z.number().positive("Quantity must be positive").default(1),
+  unit: z.string().max(20).default("pieces"),
+  category: z.string().max(40).optional(),
+  expires_at: z.coerce.date().nullable().optional(),
+});
+
+export const updatePantryItemSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  quantity: z.number().min(0, "Quantity can't be negative").optional(),
+  expires_at: z.coerce.date().nullable().optional(),
+});
+
+export type UpdatePantryItem = z.infer<typeof updatePantryItemSchema>;
+
+export class PantryError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = "PantryError";
+  }
+}
@@ -0,0 +1,82 @@
+// Payment provider types
+export type PaidPlanType = "GOLD" | "PREMIUM";
+
+export interface CheckoutSessionRequest {
+  userId: string;
+  email: string;
+  customerId?: string | null;
+  planType: PaidPlanType;
+  amount: number;
+  currency: string;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface CheckoutSession {
+  sessionId: string;
+  checkoutUrl: string;
+  customerId?: string;
+  expiresAt: Date;
+}
+
+export type PaymentWebhookEventType =
+  | "checkout.completed"
+  | "checkout.failed"
+  | "subscription.renewed"
+  | "subscription.canceled"
+  | "payment.refunded";
+
+export interface PaymentWebhookEvent {
+  id: string;
+  type: PaymentWebhookEventType;
+  created: number; // unix seconds
+  data: {
+    sessionId?: string;
+    paymentId?: string;
+    subscriptionId?: string;
+    customerId?: string;
+    userId?: string;
+    planType?: PaidPlanType;
+    amount?: number;
+    currency?: string;
+    paymentMethod?: string;
+    periodStart?: string;
+    periodEnd?: string;
+    reason?: string;
+  };
+}
+
+export interface RefundResult {
+  refundId: string;
+  amount: number;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  createCheckoutSession(request: CheckoutSessionRequest): Promise<CheckoutSession>;
+  /**
+   * Verify the signature over the raw request body and parse the event.
+   * Throws PaymentSignatureError when the signature does not match.
+   */
+  constructWebhookEvent(
+    rawBody: Buffer,
+    headers: Record<string, string | string[] | undefined>
+  ): PaymentWebhookEvent;
+  cancelSubscription(subscriptionId: string): Promise<void>;
+  refundPayment(paymentId: string, amount: number): Promise<RefundResult>;
+}
+
+export class PaymentSignatureError extends Error {
+  constructor(message: string = "Invalid webhook signature") {
+    super(message);
+    this.name = "PaymentSignatureError";
+  }
+}
+
+// No usable provider is configured, so payments are turned off
+export class PaymentsUnavailableError extends Error {
+  constructor(message: string = "Payments are not available") {
+    super(message);
+    this.name = "PaymentsUnavailableError";
+  }
+}
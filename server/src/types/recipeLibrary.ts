@@ -0,0 +1,85 @@
+import { z } from "zod";
+import { MealTiming } from "@prisma/client";
+import { MAX_SERVINGS } from "./recipes";
+
+export const MAX_RECIPE_INGREDIENTS = 50;
+
+export type NutritionSource = "catalog" | "food_product";
+
+const servings = z
+  .number()
+  .int("Servings must be a whole number")
+  .min(1, "At least one serving is required")
+  .max(MAX_SERVINGS, `At most ${MAX_SERVINGS} servings`);
+
+// Portions eaten, which may be a fraction of a serving
+const portions = z.number().positive().max(MAX_SERVINGS);
+
+export const userRecipeIngredientSchema = z.object({
+  name: z.string().trim().min(1, "Ingredient name is required").max(100),
+  quantity: z.number().positive("Quantity must be positive"),
+  unit: z.string().trim().max(20).default("g"),
+  // A scanned product, for its nutrition label
+  barcode: z.string().trim().max(32).nullable().optional(),
+});
+
+export type UserRecipeIngredientInput = z.infer<
+  typeof userRecipeIngredientSchema
+>;
+
+const stepSchema = z.union([
+  z.string().trim().min(1).max(1000),
+  z.object({
+    instruction: z.string().trim().min(1).max(1000),
+    duration_minutes: z.number().int().positive().nullable().optional(),
+  }),
+]);
+
+export const userRecipeSchema = z.object({
+  name: z.string().trim().min(1, "Recipe name is required").max(120),
+  description: z.string().trim().max(1000).nullable().optional(),
+  meal_timing: z.nativeEnum(MealTiming).nullable().optional(),
+  prep_time_minutes: z.number().int().positive().nullable().optional(),
+  servings: servings.default(1),
+  ingredients: z
+    .array(userRecipeIngredientSchema)
+    .min(1, "Add at least one ingredient")
+    .max(MAX_RECIPE_INGREDIENTS),
+  steps: z.array(stepSchema).max(50).default([]),
+});
+
+export type UserRecipeInput = z.infer<typeof userRecipeSchema>;
+
+export const updateUserRecipeSchema = userRecipeSchema.partial();
+
+export type UpdateUserRecipe = z.infer<typeof updateUserRecipeSchema>;
+
+export const logRecipeSchema = z.object({
+  servings: portions.default(1),
+  meal_period: z
+    .enum(["breakfast", "lunch", "dinner", "snack", "late_night", "other"])
+    .optional(),
+});
+
+export const addRecipeToPlanSchema = z.object({
+  plan_id: z.string().min(1, "Plan ID is required"),
+  day_of_week: z.number().int().min(0).max(6),
+  meal_timing: z.nativeEnum(MealTiming),
+  servings: portions.default(1),
+});
+
+export const recipeShoppingListSchema = z.object({
+  list_id: z.string().optional(),
+  // The recipe's own servings when not given
+  servings: servings.optional(),
+});
+
+export class RecipeLibraryError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = "RecipeLibraryError";
+  }
+}
@@ -0,0 +1,33 @@
+import { z } from "zod";
+
+export const MAX_SERVINGS = 20;
+
+export interface RecipeStepInput {
+  instruction: string;
+  duration_minutes?: number | null;
+  equipment?: string[];
+}
+
+export interface RecipeInput {
+  servings?: number;
+  equipment?: string[];
+  steps: RecipeStepInput[];
+}
+
+export const servingsSchema = z.object({
+  servings: z.coerce
+    .number()
+    .int("Servings must be a whole number")
+    .min(1, "At least one serving is required")
+    .max(MAX_SERVINGS, `At most ${MAX_SERVINGS} servings`),
+});
+
+export class RecipeError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = "RecipeError";
+  }
+}
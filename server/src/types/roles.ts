@@ -0,0 +1,16 @@
+import { z } from "zod";
+import { StaffRole } from "@prisma/client";
+
+export const roleGrantSchema = z.object({
+  role: z.nativeEnum(StaffRole),
+});
+
+export class RoleError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = "RoleError";
+  }
+}
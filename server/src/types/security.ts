@@ -0,0 +1,61 @@
+import { z } from "zod";
+import { SecurityEventType } from "@prisma/client";
+import { SessionContext } from "./auth";
+
+// Auth endpoints with their own failed-attempt counters
+export type ThrottleAction =
+  "signin" | "password_reset_request" | "password_reset_code";
+
+// Who is making the attempt: the targeted account and the client address
+export interface ThrottleSubject {
+  email?: string;
+  ip_address?: string;
+}
+
+export interface ThrottleLockout {
+  scope: "account" | "ip";
+  locked_until: Date;
+  lockouts: number;
+}
+
+export class LoginThrottleError extends Error {
+  public statusCode = 429;
+
+  constructor(public retryAfterSeconds: number) {
+    super(
+      `Too many attempts. Please try again in ${formatWait(retryAfterSeconds)}.`
+    );
+    this.name = "LoginThrottleError";
+  }
+}
+
+function formatWait(seconds: number) {
+  if (seconds < 60) return `${seconds} seconds`;
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60) return minutes === 1 ? "1 minute" : `${minutes} minutes`;
+  const hours = Math.ceil(minutes / 60);
+  return hours === 1 ? "1 hour" : `${hours} hours`;
+}
+
+export interface SecurityEventInput {
+  type: SecurityEventType;
+  user_id?: string | null;
+  email?: string | null;
+  actor_id?: string | null;
+  context?: SessionContext;
+  metadata?: Record<string, unknown>;
+}
+
+export const securityEventQuerySchema = z.object({
+  type: z.nativeEnum(SecurityEventType).optional(),
+  user_id: z.string().optional(),
+  email: z.string().trim().optional(),
+  ip_address: z.string().trim().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  // event_id of the last event on the previous page
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export type SecurityEventQuery = z.infer<typeof securityEventQuerySchema>;
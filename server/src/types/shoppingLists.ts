@@ -0,0 +1,96 @@
+import { z } from "zod";
+
+export type BaseUnit = "g" | "ml" | "pieces";
+
+export const SHOPPING_CATEGORIES = [
+  "Produce",
+  "Meat & Fish",
+  "Dairy & Eggs",
+  "Grains & Bakery",
+  "Legumes",
+  "Nuts & Seeds",
+  "Oils & Condiments",
+  "Spices",
+  "Frozen",
+  "Beverages",
+  "Other",
+] as const;
+
+export type ShoppingCategory = (typeof SHOPPING_CATEGORIES)[number];
+
+// An ingredient as recipes, the AI or the app describe it
+export interface IngredientInput {
+  name: string;
+  quantity?: number | null;
+  unit?: string | null;
+  category?: string | null;
+  estimated_cost?: number | null;
+}
+
+// Ingredients merged under one normalized name, in one base unit
+export interface AggregatedIngredient {
+  key: string;
+  name: string;
+  quantity: number;
+  unit: BaseUnit;
+  category: ShoppingCategory;
+  estimated_cost: number | null;
+}
+
+// What to buy: the quantity is rounded up to whole packs where the pack
+// size is known, and `needed` is what the recipes call for
+export interface ShoppingItem extends AggregatedIngredient {
+  needed: number;
+  packs: number | null;
+  pack_size: number | null;
+}
+
+export interface ShoppingItemInput extends IngredientInput {
+  added_from?: string;
+  barcode?: string;
+}
+
+export interface AddShoppingItemsOptions {
+  addedFrom?: string;
+  planId?: string;
+  // The owner's default list when not given
+  listId?: string;
+}
+
+export interface ShoppingItemUpdate {
+  name?: string;
+  quantity?: number;
+  unit?: string;
+  category?: string;
+  estimated_cost?: number | null;
+  // null removes the barcode
+  barcode?: string | null;
+}
+
+export interface ShoppingListUser {
+  user_id: string;
+  name: string | null;
+}
+
+export const listNameSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(60),
+});
+
+export const addMemberSchema = z.object({
+  email: z.string().trim().email("A valid email is required"),
+});
+
+export const listChangesQuerySchema = z.object({
+  // The cursor returned by the previous poll; omit to start from now
+  since: z.string().datetime().optional(),
+});
+
+export class ShoppingListError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = "ShoppingListError";
+  }
+}
@@ -126,3 +126,43 @@ interface PeriodStatistics {
   averageSodium?: number;
 }
 export { NutritionGoals };
+
+export interface ReportDayAdherence {
+  date: string;
+  meal_count: number;
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fats_g: number;
+  fiber_g: number;
+  water_ml: number;
+  goal: NutritionGoals;
+  calories_met: boolean;
+  protein_met: boolean;
+  water_met: boolean;
+  on_target: boolean;
+}
+
+export interface NutritionReportData {
+  user: { name: string | null; email: string };
+  period_type: string;
+  start_date: string;
+  end_date: string;
+  generated_at: string;
+  goals: NutritionGoals;
+  daily_averages: NutritionGoals;
+  meal_count: number;
+  days: ReportDayAdherence[];
+  streaks: {
+    current: number;
+    best: number;
+    longest_in_period: number;
+    on_target_days: number;
+    logged_days: number;
+  };
+  water: {
+    total_ml: number;
+    average_ml: number;
+    goal_days: number;
+  };
+}
@@ -0,0 +1,35 @@
+// Object storage types
+
+export interface StoredObject {
+  body: Buffer;
+  contentType: string;
+}
+
+export interface StorageDriver {
+  readonly name: string;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredObject | null>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+  // Short-lived URL a client can fetch the object from without a token
+  getSignedUrl(key: string, expiresInSeconds: number): Promise<string>;
+}
+
+export type MediaKind = "meal" | "avatar";
+
+export interface StoredImage {
+  key: string;
+  thumbnailKey: string;
+  contentType: string;
+  size: number;
+}
+
+export class StorageError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number
+  ) {
+    super(message);
+    this.name = "StorageError";
+  }
+}
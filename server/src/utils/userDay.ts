@@ -0,0 +1,146 @@
+import { prisma } from "../lib/database";
+
+export const DEFAULT_TIME_ZONE = "UTC";
+
+/**
+ * Days are counted in the user's own timezone. A day key is the YYYY-MM-DD of
+ * that local day; @db.Date columns such as DailyGoal.date store it as UTC
+ * midnight (dayKeyToDate). Timestamp columns such as Meal.upload_time are
+ * matched against the instants the local day starts and ends (getDayBounds).
+ */
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function localParts(timeZone: string, at: Date) {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(at)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  return parts as Record<
+    "year" | "month" | "day" | "hour" | "minute" | "second",
+    number
+  >;
+}
+
+// How far the zone's wall clock is ahead of UTC at the given instant
+function offsetMs(timeZone: string, at: Date) {
+  const p = localParts(timeZone, at);
+  const wallClock = Date.UTC(
+    p.year,
+    p.month - 1,
+    p.day,
+    p.hour,
+    p.minute,
+    p.second
+  );
+  return wallClock - Math.floor(at.getTime() / 1000) * 1000;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function getUserDay(timeZone: string, at: Date = new Date()): string {
+  const { year, month, day } = localParts(timeZone, at);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+export function dayKeyToDate(dayKey: string): Date {
+  return new Date(`${dayKey}T00:00:00.000Z`);
+}
+
+// Today's date in the user's timezone, for @db.Date columns
+export function getUserToday(timeZone: string, at: Date = new Date()): Date {
+  return dayKeyToDate(getUserDay(timeZone, at));
+}
+
+export function addDays(dayKey: string, days: number): string {
+  const date = dayKeyToDate(dayKey);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split("T")[0];
+}
+
+// 0 = Sunday, like Date.getDay()
+export function getDayOfWeek(dayKey: string): number {
+  return dayKeyToDate(dayKey).getUTCDay();
+}
+
+export function getLocalHour(timeZone: string, at: Date = new Date()): number {
+  return localParts(timeZone, at).hour;
+}
+
+// Local time of day in hours, e.g. 13.5 for 1:30pm
+export function getLocalTimeOfDay(
+  timeZone: string,
+  at: Date = new Date()
+): number {
+  const { hour, minute } = localParts(timeZone, at);
+  return hour + minute / 60;
+}
+
+function localMidnight(timeZone: string, dayKey: string): Date {
+  const utcMidnight = dayKeyToDate(dayKey).getTime();
+  // Guess with the offset at UTC midnight, then correct once in case a DST
+  // change falls in between
+  const guess = utcMidnight - offsetMs(timeZone, new Date(utcMidnight));
+  return new Date(utcMidnight - offsetMs(timeZone, new Date(guess)));
+}
+
+// The instants a local day starts (inclusive) and ends (exclusive)
+export function getDayBounds(
+  timeZone: string,
+  dayKey: string
+): { start: Date; end: Date } {
+  return {
+    start: localMidnight(timeZone, dayKey),
+    end: localMidnight(timeZone, addDays(dayKey, 1)),
+  };
+}
+
+export async function getUserTimeZone(userId: string): Promise<string> {
+  const user = await prisma.user.findUnique({
+    where: { user_id: userId },
+    select: { timezone: true },
+  });
+  return user?.timezone && isValidTimeZone(user.timezone)
+    ? user.timezone
+    : DEFAULT_TIME_ZONE;
+}
+
+// The users' timezones where it is currently the given local hour. Hourly
+// jobs use it to run "at 6am" for each user rather than at 6am server time.
+export async function timeZonesAtLocalHour(
+  hour: number,
+  at: Date = new Date()
+): Promise<string[]> {
+  const zones = await prisma.user.groupBy({ by: ["timezone"] });
+  return zones
+    .map(({ timezone }) => timezone)
+    .filter((timeZone) => {
+      const zone = isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+      return getLocalHour(zone, at) === hour;
+    });
+}